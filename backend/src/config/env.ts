@@ -18,7 +18,8 @@ interface EnvConfig {
     // JWT
     jwtSecret: string;
 
-    // Stripe
+    // Payments
+    paymentProvider: 'stripe' | 'fake';
     stripeSecretKey: string;
     stripeWebhookSecret: string;
 
@@ -42,6 +43,21 @@ function getEnvVarOptional(key: string, defaultValue: string = ''): string {
     return process.env[key] || defaultValue;
 }
 
+// The fake provider (tests, local development) needs no Stripe keys and never runs in production
+function getPaymentProvider(): EnvConfig['paymentProvider'] {
+    const value = process.env.PAYMENT_PROVIDER || (process.env.NODE_ENV === 'test' ? 'fake' : 'stripe');
+    if (value !== 'stripe' && value !== 'fake') {
+        throw new Error(`Unknown PAYMENT_PROVIDER: ${value}`);
+    }
+    if (value === 'fake' && process.env.NODE_ENV === 'production') {
+        throw new Error('The fake payment provider cannot be used in production');
+    }
+    return value;
+}
+
+const paymentProvider = getPaymentProvider();
+const getStripeVar = paymentProvider === 'stripe' ? getEnvVar : getEnvVarOptional;
+
 export const env: EnvConfig = {
     // Server
     port: parseInt(process.env.PORT || '3001', 10),
@@ -57,9 +73,10 @@ export const env: EnvConfig = {
     // JWT
     jwtSecret: getEnvVar('JWT_SECRET', 'development-secret-key'),
 
-    // Stripe
-    stripeSecretKey: getEnvVar('STRIPE_SECRET_KEY'),
-    stripeWebhookSecret: getEnvVar('STRIPE_WEBHOOK_SECRET'),
+    // Payments
+    paymentProvider,
+    stripeSecretKey: getStripeVar('STRIPE_SECRET_KEY'),
+    stripeWebhookSecret: getStripeVar('STRIPE_WEBHOOK_SECRET'),
 
     // Email
     resendApiKey: getEnvVarOptional('RESEND_API_KEY'),
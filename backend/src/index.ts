@@ -25,7 +25,14 @@ import menuCategoriesRouter from './routes/menu-categories.js';
 import waitlistRouter from './routes/waitlist.js';
 import userRouter from './routes/user.js';
 import healthRouter from './routes/health.js';
+import remindersRouter from './routes/reminders.js';
+import realtimeRouter from './routes/realtime.js';
 import { observabilityMiddleware, Logger } from './services/observability.js';
+import { ReminderService } from './services/reminders.js';
+import { NoShowService } from './services/noShow.js';
+import { RealtimeService } from './services/realtime.js';
+import { WaitlistMatcherService } from './services/waitlistMatcher.js';
+import { DepositService } from './services/deposits.js';
 
 // Create Express app
 const app = express();
@@ -65,10 +72,14 @@ const limiter = rateLimit({
     },
     standardHeaders: true,
     legacyHeaders: false,
+    // Payment providers retry in bursts from a few IPs; the signature check protects this route
+    skip: (req) => req.originalUrl.startsWith('/api/payments/webhook'),
 });
 app.use('/api', limiter);
 
 // Body parsing
+// Payment providers sign the exact bytes they send, so the webhook keeps its raw body (express.json skips it afterwards)
+app.use('/api/payments/webhook', express.raw({ type: 'application/json' }));
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true }));
 
@@ -107,6 +118,8 @@ app.use('/api/chatbot', chatbotRouter);
 // New endpoints
 app.use('/api/favorites', favoritesRouter);
 app.use('/api/notifications', notificationsRouter);
+app.use('/api/reminders', remindersRouter);
+app.use('/api/realtime', realtimeRouter);
 app.use('/api/menu-categories', menuCategoriesRouter);
 app.use('/api/waitlist', waitlistRouter);
 app.use('/api/user', userRouter);
@@ -161,11 +174,23 @@ if (process.env.NODE_ENV !== 'test') {
         console.log('');
         console.log('═════════════════════════════════════════════════');
         console.log('');
+
+        // Background jobs (each one takes a lock, so running several instances is safe)
+        ReminderService.start();
+        NoShowService.start();
+        RealtimeService.start();
+        WaitlistMatcherService.start();
+        DepositService.start();
     });
 
     // Graceful shutdown
     process.on('SIGTERM', () => {
         console.log('SIGTERM received, shutting down gracefully...');
+        ReminderService.stop();
+        NoShowService.stop();
+        RealtimeService.stop();
+        WaitlistMatcherService.stop();
+        DepositService.stop();
         server.close(() => {
             console.log('Server closed');
             process.exit(0);
@@ -174,6 +199,11 @@ if (process.env.NODE_ENV !== 'test') {
 
     process.on('SIGINT', () => {
         console.log('SIGINT received, shutting down gracefully...');
+        ReminderService.stop();
+        NoShowService.stop();
+        RealtimeService.stop();
+        WaitlistMatcherService.stop();
+        DepositService.stop();
         server.close(() => {
             console.log('Server closed');
             process.exit(0);
@@ -0,0 +1,130 @@
+import { Router, Request, Response } from 'express';
+import { supabaseAdmin } from '../../config/supabase.js';
+import { GuestReliabilityService, GuestRestrictionType } from '../../services/guestReliability.js';
+
+const router = Router();
+
+const RESTRICTION_TYPES: GuestRestrictionType[] = ['blocked', 'deposit_required'];
+
+/**
+ * Solo se pueden consultar o restringir invitados que ya reservaron en el restaurante
+ */
+async function isRestaurantGuest(restaurantId: string, userId: string): Promise<boolean> {
+    const { count } = await supabaseAdmin
+        .from('reservations')
+        .select('id', { count: 'exact', head: true })
+        .eq('restaurant_id', restaurantId)
+        .eq('user_id', userId);
+
+    return (count || 0) > 0;
+}
+
+/**
+ * GET /api/admin/clientes/restricciones
+ * Lista los invitados bloqueados o con depósito obligatorio, con su confiabilidad.
+ */
+router.get('/restricciones', async (req: Request, res: Response) => {
+    try {
+        const restaurantId = (req as any).user?.restaurantId;
+        const { data, error } = await supabaseAdmin
+            .from('guest_restrictions')
+            .select(`
+                *,
+                users:user_id (name, email, phone)
+            `)
+            .eq('restaurant_id', restaurantId)
+            .order('created_at', { ascending: false });
+
+        if (error) throw error;
+
+        const profiles = await GuestReliabilityService.getReliability((data || []).map(r => r.user_id));
+        res.json({
+            success: true,
+            data: (data || []).map(r => ({ ...r, guest_reliability: profiles.get(r.user_id) })),
+        });
+    } catch (error) {
+        console.error('List guest restrictions error:', error);
+        res.status(500).json({ success: false, error: 'Error al listar las restricciones de clientes' });
+    }
+});
+
+/**
+ * GET /api/admin/clientes/:userId/confiabilidad
+ * Historial agregado del invitado y cómo le aplican las reglas del restaurante.
+ */
+router.get('/:userId/confiabilidad', async (req: Request, res: Response) => {
+    try {
+        const restaurantId = (req as any).user?.restaurantId;
+        const { userId } = req.params;
+
+        if (!(await isRestaurantGuest(restaurantId, userId))) {
+            return res.status(404).json({ success: false, error: 'Cliente no encontrado en este restaurante' });
+        }
+
+        const { data: restaurant } = await supabaseAdmin
+            .from('restaurants')
+            .select('settings')
+            .eq('id', restaurantId)
+            .single();
+
+        const standing = await GuestReliabilityService.getStanding(restaurantId, userId, restaurant?.settings || {});
+        res.json({ success: true, data: standing });
+    } catch (error) {
+        console.error('Get guest reliability error:', error);
+        res.status(500).json({ success: false, error: 'Error al obtener la confiabilidad del cliente' });
+    }
+});
+
+/**
+ * PUT /api/admin/clientes/:userId/restriccion
+ * Bloquea al invitado o le exige depósito en todas sus reservas.
+ */
+router.put('/:userId/restriccion', async (req: Request, res: Response) => {
+    try {
+        const restaurantId = (req as any).user?.restaurantId;
+        const { userId } = req.params;
+        const { restriction, reason } = req.body;
+
+        if (!RESTRICTION_TYPES.includes(restriction)) {
+            return res.status(400).json({ success: false, error: `Restricción inválida. Usa: ${RESTRICTION_TYPES.join(', ')}` });
+        }
+
+        if (!(await isRestaurantGuest(restaurantId, userId))) {
+            return res.status(404).json({ success: false, error: 'Cliente no encontrado en este restaurante' });
+        }
+
+        const data = await GuestReliabilityService.setRestriction(
+            restaurantId,
+            userId,
+            restriction,
+            reason || null,
+            (req as any).user?.id
+        );
+
+        res.json({
+            success: true,
+            data,
+            message: restriction === 'blocked' ? 'Cliente bloqueado' : 'Se exigirá depósito a este cliente',
+        });
+    } catch (error) {
+        console.error('Set guest restriction error:', error);
+        res.status(500).json({ success: false, error: 'Error al guardar la restricción del cliente' });
+    }
+});
+
+/**
+ * DELETE /api/admin/clientes/:userId/restriccion
+ * Quita la restricción del invitado.
+ */
+router.delete('/:userId/restriccion', async (req: Request, res: Response) => {
+    try {
+        const restaurantId = (req as any).user?.restaurantId;
+        await GuestReliabilityService.removeRestriction(restaurantId, req.params.userId);
+        res.json({ success: true, message: 'Restricción eliminada' });
+    } catch (error) {
+        console.error('Remove guest restriction error:', error);
+        res.status(500).json({ success: false, error: 'Error al eliminar la restricción del cliente' });
+    }
+});
+
+export default router;
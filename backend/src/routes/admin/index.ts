@@ -16,6 +16,7 @@ import reportsRouter from './reports.js';
 import paymentsRouter from './payments.js';
 import analyticsRouter from './analytics.js';
 import configRouter from './config.js';
+import guestsRouter from './guests.js';
 
 const router = Router();
 
@@ -37,6 +38,7 @@ router.use('/ofertas', offersRouter);
 router.use('/menu', menuRouter);
 router.use('/opiniones', reviewsRouter);
 router.use('/usuarios', staffRouter);
+router.use('/clientes', guestsRouter);
 router.use('/settings', settingsRouter);
 router.use('/configuracion', settingsRouter); // Alias para compatibilidad
 router.use('/ia', aiRouter);
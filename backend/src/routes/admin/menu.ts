@@ -1,24 +1,30 @@
 import { Router, Request, Response } from 'express';
 import { supabaseAdmin } from '../../config/supabase.js';
+import { MenuCatalogService, parseMenuReorder } from '../../services/menuCatalog.js';
+import { MenuImportFormat, MenuImportService, readMenuImport, toMenuCsv, toMenuJson } from '../../services/menuImport.js';
+import { MENU_ITEM_MODIFIERS, MenuModifierService, parseMenuModifiers, sortMenuItemModifiers } from '../../services/menuModifiers.js';
+import { MenuPricingService, parsePricingRule } from '../../services/menuPricing.js';
 
 const router = Router();
 
 /**
  * GET /api/admin/menu
- * Obtiene todos los platillos del restaurante agrupados por categoría.
+ * Obtiene todos los platillos del restaurante agrupados por categoría,
+ * con sus variantes y grupos de modificadores.
  */
 router.get('/', async (req: Request, res: Response) => {
     try {
         const restaurantId = (req as any).user?.restaurantId;
 
-        const { data, error } = await supabaseAdmin
+        const { data: rows, error } = await supabaseAdmin
             .from('menu_items')
-            .select('*')
+            .select(`*, ${MENU_ITEM_MODIFIERS}`)
             .eq('restaurant_id', restaurantId)
             .order('category', { ascending: true })
             .order('sort_order', { ascending: true });
 
         if (error) throw error;
+        const data = (rows || []).map(sortMenuItemModifiers);
 
         // Agrupación reactiva por categoría para facilitar el consumo del frontend
         const menuByCategory = data?.reduce((acc: any, item) => {
@@ -42,11 +48,20 @@ router.post('/', async (req: Request, res: Response) => {
     try {
         const restaurantId = (req as any).user?.restaurantId;
         const {
-            name, description, price, category,
+            name, description, price, category, subcategory, category_id,
             image_url, is_highlighted, is_vegetarian, is_vegan,
             is_gluten_free, is_spicy, spicy_level, is_new
         } = req.body;
 
+        // Categoría por id (o por nombre, para clientes anteriores)
+        const itemCategory = await MenuCatalogService.resolveItemCategory(restaurantId, {
+            categoryId: category_id, category, subcategory
+        });
+        if (!itemCategory) {
+            res.status(400).json({ success: false, error: 'Categoría inválida' });
+            return;
+        }
+
         const { data, error } = await supabaseAdmin
             .from('menu_items')
             .insert({
@@ -54,7 +69,7 @@ router.post('/', async (req: Request, res: Response) => {
                 name,
                 description,
                 price,
-                category,
+                ...itemCategory,
                 image_url,
                 is_highlighted: !!is_highlighted,
                 is_vegetarian: !!is_vegetarian,
@@ -76,6 +91,221 @@ router.post('/', async (req: Request, res: Response) => {
     }
 });
 
+/**
+ * PUT /api/admin/menu/reorder
+ * Guarda el orden de categorías y platillos tras arrastrar y soltar.
+ * Body: { categories: [{ id, sortOrder }], items: [{ id, sortOrder, categoryId? }] }
+ */
+router.put('/reorder', async (req: Request, res: Response) => {
+    try {
+        const restaurantId = (req as any).user?.restaurantId;
+
+        const { reorder, error: reorderError } = parseMenuReorder(req.body);
+        if (reorderError || !reorder) {
+            res.status(400).json({ success: false, error: reorderError });
+            return;
+        }
+
+        const updated = await MenuCatalogService.reorder(restaurantId, reorder);
+        if (updated === null) {
+            res.status(400).json({ success: false, error: 'La categoría destino no pertenece a este restaurante' });
+            return;
+        }
+
+        res.json({ success: true, data: { updated }, message: 'Orden del menú guardado' });
+    } catch (error) {
+        console.error('Reorder menu error:', error);
+        res.status(500).json({ success: false, error: 'Error al guardar el orden del menú' });
+    }
+});
+
+/**
+ * GET /api/admin/menu/export?format=csv|json
+ * Descarga el menú completo con las mismas columnas que lee la importación,
+ * para editarlo en una hoja de cálculo y volver a subirlo.
+ */
+router.get('/export', async (req: Request, res: Response) => {
+    try {
+        const restaurantId = (req as any).user?.restaurantId;
+        const format = String(req.query.format || 'csv');
+        if (format !== 'csv' && format !== 'json') {
+            res.status(400).json({ success: false, error: 'format debe ser csv o json' });
+            return;
+        }
+
+        const items = await MenuImportService.listItems(restaurantId);
+
+        if (format === 'json') {
+            res.setHeader('Content-Disposition', 'attachment; filename="menu.json"');
+            res.json(toMenuJson(items));
+            return;
+        }
+
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', 'attachment; filename="menu.csv"');
+        res.send(toMenuCsv(items));
+    } catch (error) {
+        console.error('Export menu error:', error);
+        res.status(500).json({ success: false, error: 'Error al exportar el menú' });
+    }
+});
+
+/**
+ * POST /api/admin/menu/import
+ * Importa platillos desde CSV o JSON.
+ * Body: { format: 'csv', content } o { format: 'json', items: [...] (o content) }, y dryRun.
+ * Por defecto es una simulación (dryRun: true) que devuelve, fila por fila, qué se
+ * crearía, actualizaría o queda igual y los errores de validación. Con dryRun: false
+ * se aplica todo en una transacción, solo si ninguna fila tiene errores.
+ */
+router.post('/import', async (req: Request, res: Response) => {
+    try {
+        const restaurantId = (req as any).user?.restaurantId;
+        const { format, content, items } = req.body;
+        const dryRun = req.body.dryRun !== false;
+
+        if (format !== 'csv' && format !== 'json') {
+            res.status(400).json({ success: false, error: 'format debe ser csv o json' });
+            return;
+        }
+
+        const { rows, error: readError } = readMenuImport(format as MenuImportFormat, format === 'csv' ? content : items ?? content);
+        if (readError || !rows) {
+            res.status(400).json({ success: false, error: readError });
+            return;
+        }
+
+        const report = await MenuImportService.importMenu(restaurantId, rows, dryRun);
+
+        if (!dryRun && report.summary.invalid > 0) {
+            res.status(400).json({
+                success: false,
+                error: `Corrige las ${report.summary.invalid} filas con errores antes de importar`,
+                data: report,
+            });
+            return;
+        }
+
+        res.json({
+            success: true,
+            data: report,
+            message: report.applied
+                ? `Menú importado: ${report.summary.create} nuevos, ${report.summary.update} actualizados`
+                : undefined,
+        });
+    } catch (error) {
+        console.error('Import menu error:', error);
+        res.status(500).json({ success: false, error: 'Error al importar el menú' });
+    }
+});
+
+/**
+ * GET /api/admin/menu/pricing-rules
+ * Lista las reglas de precio por horario (happy hour) del restaurante.
+ */
+router.get('/pricing-rules', async (req: Request, res: Response) => {
+    try {
+        const restaurantId = (req as any).user?.restaurantId;
+        const data = await MenuPricingService.listRules(restaurantId);
+        res.json({ success: true, data });
+    } catch (error) {
+        console.error('List pricing rules error:', error);
+        res.status(500).json({ success: false, error: 'Error al cargar las reglas de precio' });
+    }
+});
+
+/**
+ * POST /api/admin/menu/pricing-rules
+ * Crea una regla de precio por horario para un platillo o una categoría.
+ */
+router.post('/pricing-rules', async (req: Request, res: Response) => {
+    try {
+        const restaurantId = (req as any).user?.restaurantId;
+
+        const { rule, error: ruleError } = parsePricingRule(req.body);
+        if (ruleError || !rule) {
+            res.status(400).json({ success: false, error: ruleError });
+            return;
+        }
+
+        if (rule.menu_item_id && !(await MenuPricingService.itemsBelongTo(restaurantId, [rule.menu_item_id]))) {
+            res.status(400).json({ success: false, error: 'El platillo no pertenece a este restaurante' });
+            return;
+        }
+
+        if (rule.category_id) {
+            const category = await MenuPricingService.findCategory(restaurantId, rule.category_id);
+            if (!category) {
+                res.status(400).json({ success: false, error: 'La categoría no pertenece a este restaurante' });
+                return;
+            }
+            rule.category = category.name;
+        }
+
+        const data = await MenuPricingService.createRule(restaurantId, rule);
+        res.status(201).json({ success: true, data, message: 'Regla de precio creada exitosamente' });
+    } catch (error) {
+        console.error('Create pricing rule error:', error);
+        res.status(500).json({ success: false, error: 'Error al crear la regla de precio' });
+    }
+});
+
+/**
+ * PATCH /api/admin/menu/pricing-rules/:ruleId
+ * Actualiza una regla de precio (horario, descuento o si está activa).
+ */
+router.patch('/pricing-rules/:ruleId', async (req: Request, res: Response) => {
+    try {
+        const restaurantId = (req as any).user?.restaurantId;
+
+        const { rule, error: ruleError } = parsePricingRule(req.body, true);
+        if (ruleError || !rule) {
+            res.status(400).json({ success: false, error: ruleError });
+            return;
+        }
+
+        if (rule.menu_item_id && !(await MenuPricingService.itemsBelongTo(restaurantId, [rule.menu_item_id]))) {
+            res.status(400).json({ success: false, error: 'El platillo no pertenece a este restaurante' });
+            return;
+        }
+
+        if (rule.category_id) {
+            const category = await MenuPricingService.findCategory(restaurantId, rule.category_id);
+            if (!category) {
+                res.status(400).json({ success: false, error: 'La categoría no pertenece a este restaurante' });
+                return;
+            }
+            rule.category = category.name;
+        }
+
+        const data = await MenuPricingService.updateRule(restaurantId, req.params.ruleId, rule);
+        if (!data) {
+            res.status(404).json({ success: false, error: 'Regla de precio no encontrada' });
+            return;
+        }
+
+        res.json({ success: true, data, message: 'Regla de precio actualizada correctamente' });
+    } catch (error) {
+        console.error('Update pricing rule error:', error);
+        res.status(500).json({ success: false, error: 'Error al actualizar la regla de precio' });
+    }
+});
+
+/**
+ * DELETE /api/admin/menu/pricing-rules/:ruleId
+ * Elimina una regla de precio.
+ */
+router.delete('/pricing-rules/:ruleId', async (req: Request, res: Response) => {
+    try {
+        const restaurantId = (req as any).user?.restaurantId;
+        await MenuPricingService.deleteRule(restaurantId, req.params.ruleId);
+        res.json({ success: true, message: 'Regla de precio eliminada correctamente' });
+    } catch (error) {
+        console.error('Delete pricing rule error:', error);
+        res.status(500).json({ success: false, error: 'Error al eliminar la regla de precio' });
+    }
+});
+
 /**
  * PATCH /api/admin/menu/:id
  * Actualiza la información o disponibilidad de un platillo.
@@ -84,7 +314,19 @@ router.patch('/:id', async (req: Request, res: Response) => {
     try {
         const { id } = req.params;
         const restaurantId = (req as any).user?.restaurantId;
-        const updates = req.body;
+        const { category, subcategory, category_id, ...updates } = req.body;
+
+        // Cambiar de categoría siempre pasa por category_id
+        if (category_id || category) {
+            const itemCategory = await MenuCatalogService.resolveItemCategory(restaurantId, {
+                categoryId: category_id, category, subcategory
+            });
+            if (!itemCategory) {
+                res.status(400).json({ success: false, error: 'Categoría inválida' });
+                return;
+            }
+            Object.assign(updates, itemCategory);
+        }
 
         const { data, error } = await supabaseAdmin
             .from('menu_items')
@@ -102,6 +344,43 @@ router.patch('/:id', async (req: Request, res: Response) => {
     }
 });
 
+/**
+ * PUT /api/admin/menu/:id/modifiers
+ * Reemplaza las variantes (tamaños) y los grupos de modificadores (extras,
+ * opciones obligatorias, combos) de un platillo. Los ids enviados se conservan.
+ * Body: { variants: [...], modifierGroups: [{ ..., options: [...] }] }
+ */
+router.put('/:id/modifiers', async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        const restaurantId = (req as any).user?.restaurantId;
+
+        const { modifiers, error: modifiersError } = parseMenuModifiers(req.body);
+        if (modifiersError || !modifiers) {
+            res.status(400).json({ success: false, error: modifiersError });
+            return;
+        }
+
+        const item = await MenuModifierService.getItem(restaurantId, id);
+        if (!item) {
+            res.status(404).json({ success: false, error: 'Platillo no encontrado' });
+            return;
+        }
+
+        const saved = await MenuModifierService.setModifiers(id, modifiers);
+        if (!saved) {
+            res.status(400).json({ success: false, error: 'Un combo solo puede incluir otros platillos de este restaurante' });
+            return;
+        }
+
+        const data = await MenuModifierService.getItem(restaurantId, id);
+        res.json({ success: true, data, message: 'Variantes y modificadores guardados' });
+    } catch (error) {
+        console.error('Set menu modifiers error:', error);
+        res.status(500).json({ success: false, error: 'Error al guardar variantes y modificadores' });
+    }
+});
+
 /**
  * DELETE /api/admin/menu/:id
  * Elimina un platillo del menú.
@@ -1,61 +1,147 @@
 import { Router, Request, Response } from 'express';
-import Stripe from 'stripe';
 import { supabaseAdmin } from '../../config/supabase.js';
+import { LedgerEntryType, LedgerFilters, PaymentLedgerService, toLedgerCsv } from '../../services/paymentLedger.js';
+import { DEFAULT_TIMEZONE, addDays, daysBetween, getLocalNow } from '../../services/schedule.js';
 
 const router = Router();
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || '', {
-    apiVersion: '2023-10-16',
-});
+
+const LEDGER_TYPES: LedgerEntryType[] = ['charge', 'refund', 'fee', 'dispute', 'dispute_reversal'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_RECONCILIATION_DAYS = 92;
+const MAX_EXPORT_ROWS = 5000;
+
+async function getTimezone(restaurantId: string): Promise<string> {
+    const { data } = await supabaseAdmin
+        .from('restaurants')
+        .select('settings')
+        .eq('id', restaurantId)
+        .single();
+    return data?.settings?.timezone || DEFAULT_TIMEZONE;
+}
+
+/**
+ * Filtros del libro desde la query; devuelve un mensaje si alguno no es válido
+ */
+function parseFilters(query: Request['query']): { filters?: LedgerFilters; error?: string } {
+    const { from, to, type, reservationId } = query;
+
+    if ((from && !DATE_PATTERN.test(String(from))) || (to && !DATE_PATTERN.test(String(to)))) {
+        return { error: 'Las fechas deben tener formato AAAA-MM-DD' };
+    }
+    if (type && !LEDGER_TYPES.includes(type as LedgerEntryType)) {
+        return { error: `Tipo inválido. Usa uno de: ${LEDGER_TYPES.join(', ')}` };
+    }
+
+    return {
+        filters: {
+            from: from ? String(from) : undefined,
+            to: to ? String(to) : undefined,
+            type: type ? (type as LedgerEntryType) : undefined,
+            reservationId: reservationId ? String(reservationId) : undefined,
+        },
+    };
+}
 
 /**
  * GET /api/admin/payments/transactions
- * List recent Stripe transactions related to reservations
+ * Movimientos reales de dinero del restaurante (cobros, reembolsos, comisiones y contracargos),
+ * filtrables por fecha, tipo y reserva.
  */
 router.get('/transactions', async (req: Request, res: Response) => {
     try {
         const restaurantId = (req as any).user?.restaurantId;
+        const { filters, error } = parseFilters(req.query);
+        if (error) return res.status(400).json({ success: false, error });
+
+        const limit = Math.min(Number(req.query.limit) || 50, 200);
+        const offset = Number(req.query.offset) || 0;
 
-        // Fetch paid reservations for this restaurant
-        const { data: reservations, error } = await supabaseAdmin
-            .from('reservations')
-            .select(`
-                id,
-                date,
-                time,
-                guest_count,
-                deposit_amount,
-                payment_intent_id,
-                users (name, email)
-            `)
-            .eq('restaurant_id', restaurantId)
-            .eq('deposit_paid', true)
-            .order('created_at', { ascending: false })
-            .limit(100);
-
-        if (error) throw error;
-
-        // If we have payment intent IDs, we could theoretically fetch real-time status from Stripe
-        // but for now, we return the internal record.
-
-        const transactions = reservations.map(r => ({
-            reservationId: r.id,
-            date: r.date,
-            customer: (r.users as any)?.name || 'Desconocido',
-            email: (r.users as any)?.email,
-            amount: r.deposit_amount,
-            stripeId: r.payment_intent_id,
-            status: 'succeeded' // Since deposit_paid is true
-        }));
+        const { rows, total } = await PaymentLedgerService.list(
+            restaurantId,
+            { ...filters, limit, offset },
+            await getTimezone(restaurantId)
+        );
 
         res.json({
             success: true,
-            data: transactions
+            data: rows.map((row: any) => ({
+                id: row.id,
+                type: row.type,
+                amount: Number(row.amount),
+                currency: row.currency,
+                occurredAt: row.occurred_at,
+                description: row.description,
+                reservationId: row.reservation_id,
+                reservationDate: row.reservations?.date,
+                customer: row.reservations?.users?.name || 'Desconocido',
+                email: row.reservations?.users?.email,
+                stripeId: row.provider_object_id,
+                paymentIntentId: row.payment_intent_id,
+            })),
+            total,
+            limit,
+            offset,
         });
-
     } catch (error) {
         console.error('Fetch transactions error:', error);
         res.status(500).json({ success: false, error: 'Error al obtener las transacciones' });
     }
 });
 
+/**
+ * GET /api/admin/payments/transactions/export
+ * Descarga el libro de pagos en CSV con los mismos filtros que /transactions.
+ */
+router.get('/transactions/export', async (req: Request, res: Response) => {
+    try {
+        const restaurantId = (req as any).user?.restaurantId;
+        const { filters, error } = parseFilters(req.query);
+        if (error) return res.status(400).json({ success: false, error });
+
+        const { rows } = await PaymentLedgerService.list(
+            restaurantId,
+            { ...filters, limit: MAX_EXPORT_ROWS },
+            await getTimezone(restaurantId)
+        );
+
+        const filename = `pagos_${filters?.from || 'inicio'}_${filters?.to || 'hoy'}.csv`;
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+        res.send(toLedgerCsv(rows));
+    } catch (error) {
+        console.error('Export transactions error:', error);
+        res.status(500).json({ success: false, error: 'Error al exportar las transacciones' });
+    }
+});
+
+/**
+ * GET /api/admin/payments/reconciliation
+ * Conciliación diaria: totales del libro contra los anticipos registrados en las reservas,
+ * con las reservas que no cuadran. Por defecto, los últimos 7 días.
+ */
+router.get('/reconciliation', async (req: Request, res: Response) => {
+    try {
+        const restaurantId = (req as any).user?.restaurantId;
+        const { filters, error } = parseFilters(req.query);
+        if (error) return res.status(400).json({ success: false, error });
+
+        const timezone = await getTimezone(restaurantId);
+        const to = filters?.to || getLocalNow(timezone).date;
+        const from = filters?.from || addDays(to, -6);
+
+        if (daysBetween(from, to) < 0 || daysBetween(from, to) >= MAX_RECONCILIATION_DAYS) {
+            return res.status(400).json({
+                success: false,
+                error: `El rango debe ser de 1 a ${MAX_RECONCILIATION_DAYS} días`,
+            });
+        }
+
+        const report = await PaymentLedgerService.reconcile(restaurantId, from, to, timezone);
+        res.json({ success: true, data: report });
+    } catch (error) {
+        console.error('Payments reconciliation error:', error);
+        res.status(500).json({ success: false, error: 'Error al generar la conciliación de pagos' });
+    }
+});
+
 export default router;
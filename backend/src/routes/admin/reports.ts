@@ -1,11 +1,13 @@
 import { Router, Request, Response } from 'express';
 import { supabaseAdmin } from '../../config/supabase.js';
+import { DEFAULT_TIMEZONE, getLocalNow, zonedTimeToUtc } from '../../services/schedule.js';
 
 const router = Router();
 
 /**
  * GET /api/admin/reports
- * Genera datos estadísticos sobre reservas, ocupación e ingresos estimados.
+ * Genera datos estadísticos sobre reservas, ocupación e ingresos. Los ingresos son el neto real
+ * del libro de pagos (cobros menos reembolsos, comisiones y contracargos), no una estimación.
  */
 router.get('/', async (req: Request, res: Response) => {
     try {
@@ -30,14 +32,30 @@ router.get('/', async (req: Request, res: Response) => {
         // 2. Extracción de reservaciones en el rango
         const { data: reservations, error } = await supabaseAdmin
             .from('reservations')
-            .select('date, guest_count, status, deposit_amount, deposit_paid')
+            .select('date, guest_count, status')
             .eq('restaurant_id', restaurantId)
             .gte('date', startDate.toISOString().split('T')[0])
             .lte('date', now.toISOString().split('T')[0]);
 
         if (error) throw error;
 
-        // 3. Procesamiento por día (Serie de tiempo)
+        // 3. Movimientos de dinero del libro de pagos en el mismo rango
+        const { data: restaurant } = await supabaseAdmin
+            .from('restaurants')
+            .select('settings')
+            .eq('id', restaurantId)
+            .single();
+        const timezone = restaurant?.settings?.timezone || DEFAULT_TIMEZONE;
+
+        const { data: payments, error: paymentsError } = await supabaseAdmin
+            .from('payments')
+            .select('amount, occurred_at')
+            .eq('restaurant_id', restaurantId)
+            .gte('occurred_at', zonedTimeToUtc(startDate.toISOString().split('T')[0], '00:00', timezone).toISOString());
+
+        if (paymentsError) throw paymentsError;
+
+        // 4. Procesamiento por día (Serie de tiempo)
         const daysMap = new Map<string, { reservations: number; guests: number; revenue: number }>();
         const loopDate = new Date(startDate);
         while (loopDate <= now) {
@@ -52,13 +70,15 @@ router.get('/', async (req: Request, res: Response) => {
                 day.reservations++;
                 if (r.status !== 'cancelled' && r.status !== 'no_show') {
                     day.guests += r.guest_count || 0;
-                    const deposit = r.deposit_paid ? (r.deposit_amount || 0) : 0;
-                    const estimatedSpend = (r.guest_count || 2) * 350; // Constante de gasto promedio
-                    day.revenue += deposit + estimatedSpend;
                 }
             }
         });
 
+        payments?.forEach((p: any) => {
+            const day = daysMap.get(getLocalNow(timezone, new Date(p.occurred_at)).date);
+            if (day) day.revenue += Number(p.amount) || 0;
+        });
+
         const reportData = Array.from(daysMap.entries()).map(([date, stats]) => {
             const dateObj = new Date(date);
             const dayName = dateObj.toLocaleDateString('es-MX', { weekday: 'short' });
@@ -67,7 +87,7 @@ router.get('/', async (req: Request, res: Response) => {
                 date,
                 reservations: stats.reservations,
                 occupancy: Math.min(Math.round((stats.guests / totalCapacity) * 100), 100),
-                revenue: stats.revenue
+                revenue: Math.round(stats.revenue * 100) / 100
             };
         });
 
@@ -1,11 +1,20 @@
 import { Router, Request, Response } from 'express';
 import { supabaseAdmin } from '../../config/supabase.js';
+import { CancellationPolicyService } from '../../services/cancellationPolicy.js';
+import { GuestReliabilityService } from '../../services/guestReliability.js';
+import {
+    ReservationLifecycleService,
+    ReservationStatus,
+    TRANSITION_ERROR_HTTP_STATUS,
+    TransitionError,
+} from '../../services/reservationLifecycle.js';
 
 const router = Router();
 
 /**
  * GET /api/admin/reservas
- * Lista reservas con filtros por fecha y estado. Incluye datos de usuario y mesa.
+ * Lista reservas con filtros por fecha y estado. Incluye datos de usuario y mesa,
+ * y la confiabilidad/restricción del invitado en este restaurante.
  */
 router.get('/', async (req: Request, res: Response) => {
     try {
@@ -46,7 +55,7 @@ router.get('/', async (req: Request, res: Response) => {
 
         res.json({
             success: true,
-            data: reservas,
+            data: await GuestReliabilityService.attachToReservations(restaurantId, reservas || []),
             total: count,
             limit: Number(limit),
             offset: Number(offset)
@@ -57,174 +66,138 @@ router.get('/', async (req: Request, res: Response) => {
     }
 });
 
+const TRANSITION_ERROR_MESSAGES: Record<TransitionError, string> = {
+    NOT_FOUND: 'Reserva no encontrada',
+    INVALID_TRANSITION: 'La reserva no puede pasar a ese estado',
+    CONFLICT: 'La reserva cambió de estado, recarga e intenta de nuevo',
+    DEPOSIT_PENDING: 'La reserva espera el pago del anticipo',
+};
+
 /**
- * PATCH /api/admin/reservas/:id/aceptar
- * Confirma una reserva y reserva la mesa asociada.
+ * Handler que mueve la reserva a `to` con el ciclo de vida (mesas, notificaciones e historial)
+ */
+function transitionHandler(to: ReservationStatus, source: string, successMessage: string, failureMessage: string) {
+    return async (req: Request, res: Response) => {
+        try {
+            const restaurantId = (req as any).user?.restaurantId;
+            const options = {
+                actor: { type: 'staff' as const, id: (req as any).user?.id },
+                source,
+                restaurantId,
+                reason: to === 'cancelled' ? req.body?.reason || 'Cancelada por el restaurante' : req.body?.reason,
+            };
+            // Al cancelar el restaurante se reembolsa el anticipo completo
+            const result = to === 'cancelled'
+                ? await CancellationPolicyService.cancel(req.params.id, options)
+                : await ReservationLifecycleService.transition(req.params.id, to, options);
+
+            if (result.error) {
+                return res.status(TRANSITION_ERROR_HTTP_STATUS[result.error]).json({
+                    success: false,
+                    error: TRANSITION_ERROR_MESSAGES[result.error],
+                    status: result.reservation?.status,
+                });
+            }
+
+            res.json({ success: true, data: result.reservation, message: successMessage });
+        } catch (error) {
+            console.error(`Reservation ${to} error:`, error);
+            res.status(500).json({ success: false, error: failureMessage });
+        }
+    };
+}
+
+/**
+ * GET /api/admin/reservas/:id
+ * Detalle de una reserva con su historial de cambios de estado.
  */
-router.patch('/:id/aceptar', async (req: Request, res: Response) => {
+router.get('/:id', async (req: Request, res: Response) => {
     try {
-        const { id } = req.params;
         const restaurantId = (req as any).user?.restaurantId;
 
-        // Update reservation status
-        const { data, error } = await supabaseAdmin
+        const { data: reserva, error } = await supabaseAdmin
             .from('reservations')
-            .update({ status: 'confirmed', updated_at: new Date().toISOString() })
-            .eq('id', id)
-            .eq('restaurant_id', restaurantId)
             .select(`
                 *,
-                users:user_id (id, name, email, phone)
+                users:user_id (name, email, phone),
+                tables:table_id (number, capacity)
             `)
-            .single();
+            .eq('id', req.params.id)
+            .eq('restaurant_id', restaurantId)
+            .maybeSingle();
 
         if (error) throw error;
-
-        // Update table status if assigned
-        if (data?.table_id) {
-            await supabaseAdmin
-                .from('tables')
-                .update({ status: 'reserved' })
-                .eq('id', data.table_id);
+        if (!reserva) {
+            return res.status(404).json({ success: false, error: 'Reserva no encontrada' });
         }
 
-        // Send email notification to user
-        if (data?.users?.email) {
-            try {
-                const { sendReservationConfirmation } = await import('../../services/email.js');
-                await sendReservationConfirmation(data.users.email, {
-                    date: data.date,
-                    time: data.time,
-                    guestCount: data.guest_count,
-                    tableId: data.table_id,
-                    qrCode: data.qr_code
-                });
-                console.log(`[NOTIFICATION] Confirmation email sent to ${data.users.email}`);
-            } catch (emailError) {
-                console.error('[NOTIFICATION] Failed to send confirmation email:', emailError);
-                // Don't fail the request if email fails
-            }
-        }
+        const [withGuest] = await GuestReliabilityService.attachToReservations(restaurantId, [reserva]);
+        const history = await ReservationLifecycleService.getHistory(reserva.id);
 
-        res.json({ success: true, data, message: 'Reserva confirmada exitosamente' });
+        res.json({ success: true, data: { ...withGuest, history } });
     } catch (error) {
-        console.error('Accept reservation error:', error);
-        res.status(500).json({ success: false, error: 'Error al confirmar la reserva' });
+        console.error('Get reservation error:', error);
+        res.status(500).json({ success: false, error: 'Error al obtener la reserva' });
     }
 });
 
 /**
- * PATCH /api/admin/reservas/:id/cancelar
- * Cancela una reserva y libera la mesa.
+ * GET /api/admin/reservas/:id/historial
+ * Transiciones de estado de la reserva: quién, cuándo y desde dónde.
  */
-router.patch('/:id/cancelar', async (req: Request, res: Response) => {
+router.get('/:id/historial', async (req: Request, res: Response) => {
     try {
-        const { id } = req.params;
         const restaurantId = (req as any).user?.restaurantId;
-        const { reason } = req.body;
 
-        const { data, error } = await supabaseAdmin
+        const { data: reserva } = await supabaseAdmin
             .from('reservations')
-            .update({
-                status: 'cancelled',
-                cancelled_at: new Date().toISOString(),
-                cancellation_reason: reason || 'Cancelada por el restaurante',
-                updated_at: new Date().toISOString()
-            })
-            .eq('id', id)
+            .select('id')
+            .eq('id', req.params.id)
             .eq('restaurant_id', restaurantId)
-            .select()
-            .single();
+            .maybeSingle();
 
-        if (error) throw error;
-
-        if (data?.table_id) {
-            await supabaseAdmin
-                .from('tables')
-                .update({ status: 'available' })
-                .eq('id', data.table_id);
+        if (!reserva) {
+            return res.status(404).json({ success: false, error: 'Reserva no encontrada' });
         }
 
-        res.json({ success: true, data, message: 'Reserva cancelada exitosamente' });
+        res.json({ success: true, data: await ReservationLifecycleService.getHistory(reserva.id) });
     } catch (error) {
-        console.error('Cancel reservation error:', error);
-        res.status(500).json({ success: false, error: 'Error al cancelar la reserva' });
+        console.error('Reservation history error:', error);
+        res.status(500).json({ success: false, error: 'Error al obtener el historial de la reserva' });
     }
 });
 
 /**
- * PATCH /api/admin/reservas/:id/checkin
- * Registra la llegada del cliente y marca la mesa como ocupada.
+ * PATCH /api/admin/reservas/:id/aceptar
+ * Confirma una reserva, reserva la mesa asociada y avisa al cliente.
  */
-router.patch('/:id/checkin', async (req: Request, res: Response) => {
-    try {
-        const { id } = req.params;
-        const restaurantId = (req as any).user?.restaurantId;
-
-        const { data, error } = await supabaseAdmin
-            .from('reservations')
-            .update({
-                status: 'arrived',
-                arrived_at: new Date().toISOString(),
-                updated_at: new Date().toISOString()
-            })
-            .eq('id', id)
-            .eq('restaurant_id', restaurantId)
-            .select()
-            .single();
-
-        if (error) throw error;
+router.patch('/:id/aceptar', transitionHandler(
+    'confirmed', 'admin.accept', 'Reserva confirmada exitosamente', 'Error al confirmar la reserva'
+));
 
-        if (data?.table_id) {
-            await supabaseAdmin
-                .from('tables')
-                .update({ status: 'occupied' })
-                .eq('id', data.table_id);
-        }
+/**
+ * PATCH /api/admin/reservas/:id/cancelar
+ * Cancela una reserva, libera la mesa y avisa al cliente.
+ */
+router.patch('/:id/cancelar', transitionHandler(
+    'cancelled', 'admin.cancel', 'Reserva cancelada exitosamente', 'Error al cancelar la reserva'
+));
 
-        res.json({ success: true, data, message: 'Llegada registrada exitosamente' });
-    } catch (error) {
-        console.error('Check-in error:', error);
-        res.status(500).json({ success: false, error: 'Error al registrar la llegada' });
-    }
-});
+/**
+ * PATCH /api/admin/reservas/:id/checkin
+ * Registra la llegada del cliente y marca la mesa como ocupada.
+ */
+router.patch('/:id/checkin', transitionHandler(
+    'arrived', 'admin.checkin', 'Llegada registrada exitosamente', 'Error al registrar la llegada'
+));
 
 /**
  * PATCH /api/admin/reservas/:id/sentar
  * Marca al cliente como ya sentado en la mesa.
  */
-router.patch('/:id/sentar', async (req: Request, res: Response) => {
-    try {
-        const { id } = req.params;
-        const restaurantId = (req as any).user?.restaurantId;
-
-        const { data, error } = await supabaseAdmin
-            .from('reservations')
-            .update({
-                status: 'seated',
-                seated_at: new Date().toISOString(),
-                updated_at: new Date().toISOString()
-            })
-            .eq('id', id)
-            .eq('restaurant_id', restaurantId)
-            .select()
-            .single();
-
-        if (error) throw error;
-
-        if (data?.table_id) {
-            await supabaseAdmin
-                .from('tables')
-                .update({ status: 'occupied' })
-                .eq('id', data.table_id);
-        }
-
-        res.json({ success: true, data, message: 'Cliente sentado y mesa ocupada' });
-    } catch (error) {
-        console.error('Seat guest error:', error);
-        res.status(500).json({ success: false, error: 'Error al sentar al cliente' });
-    }
-});
+router.patch('/:id/sentar', transitionHandler(
+    'seated', 'admin.seat', 'Cliente sentado y mesa ocupada', 'Error al sentar al cliente'
+));
 
 
 export default router;
@@ -1,5 +1,6 @@
 import { Router, Request, Response } from 'express';
 import { supabaseAdmin } from '../../config/supabase.js';
+import { parseCancellationPolicy } from '../../services/cancellationPolicy.js';
 
 const router = Router();
 
@@ -48,7 +49,24 @@ router.patch('/', async (req: Request, res: Response) => {
             depositRequired,
             depositAmount,
             depositHours,
+            depositDays,
+            maxPartySize,
+            minAdvanceHours,
+            maxReservationDays,
+            noShowGraceMinutes,
+            noShowPenalty,
+            depositBelowReliability,
+            depositHoldMinutes,
+            cancellationPolicy,
+            waitlistConfirmMinutes,
+            waitlistMaxSkips,
             reservationDuration,
+            bufferMinutes,
+            turnTimes,
+            defaultTurnMinutes,
+            slotIntervalMinutes,
+            lastSeatingMinutesBeforeClose,
+            timezone,
             maxGuestsPerReservation,
             advanceBookingDays,
             opening_hours,
@@ -65,7 +83,36 @@ router.patch('/', async (req: Request, res: Response) => {
         if (typeof depositRequired !== 'undefined') settings.depositRequired = depositRequired;
         if (typeof depositAmount !== 'undefined') settings.depositAmount = depositAmount;
         if (depositHours) settings.depositHours = depositHours;
+        if (Array.isArray(depositDays)) settings.depositDays = depositDays;
+        if (maxPartySize) settings.maxPartySize = Number(maxPartySize);
+        if (typeof minAdvanceHours !== 'undefined') settings.minAdvanceHours = Number(minAdvanceHours);
+        if (maxReservationDays) settings.maxReservationDays = Number(maxReservationDays);
+        if (typeof noShowGraceMinutes !== 'undefined') settings.noShowGraceMinutes = Number(noShowGraceMinutes);
+        if (typeof noShowPenalty !== 'undefined') settings.noShowPenalty = Number(noShowPenalty);
+        // Confiabilidad (0-100) debajo de la cual se exige depósito; 0 desactiva la regla
+        if (typeof depositBelowReliability !== 'undefined') settings.depositBelowReliability = Number(depositBelowReliability);
+        // Minutos que se aparta la mesa mientras el cliente paga el anticipo
+        if (depositHoldMinutes) settings.depositHoldMinutes = Number(depositHoldMinutes);
+        // Política de cancelación: tramos de reembolso por horas de anticipación; null vuelve al reembolso total
+        if (cancellationPolicy === null) {
+            settings.cancellationPolicy = null;
+        } else if (typeof cancellationPolicy !== 'undefined') {
+            const parsed = parseCancellationPolicy(cancellationPolicy);
+            if (parsed.error) {
+                return res.status(400).json({ success: false, error: parsed.error });
+            }
+            settings.cancellationPolicy = parsed.policy;
+        }
+        // Lista de espera: minutos para confirmar la mesa ofrecida y ofertas perdidas antes de salir de la lista
+        if (waitlistConfirmMinutes) settings.waitlistConfirmMinutes = Number(waitlistConfirmMinutes);
+        if (waitlistMaxSkips) settings.waitlistMaxSkips = Number(waitlistMaxSkips);
         if (reservationDuration) settings.reservationDuration = reservationDuration;
+        if (typeof bufferMinutes !== 'undefined') settings.bufferMinutes = Number(bufferMinutes);
+        if (turnTimes) settings.turnTimes = turnTimes;
+        if (defaultTurnMinutes) settings.defaultTurnMinutes = Number(defaultTurnMinutes);
+        if (slotIntervalMinutes) settings.slotIntervalMinutes = Number(slotIntervalMinutes);
+        if (typeof lastSeatingMinutesBeforeClose !== 'undefined') settings.lastSeatingMinutesBeforeClose = Number(lastSeatingMinutesBeforeClose);
+        if (timezone) settings.timezone = timezone;
         if (maxGuestsPerReservation) settings.maxGuestsPerReservation = maxGuestsPerReservation;
         if (advanceBookingDays) settings.advanceBookingDays = advanceBookingDays;
 
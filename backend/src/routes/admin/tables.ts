@@ -1,6 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { supabaseAdmin } from '../../config/supabase.js';
 import { TableStatusService } from '../../services/tableStatus.js';
+import { ReservationLifecycleService } from '../../services/reservationLifecycle.js';
 import crypto from 'crypto';
 
 
@@ -81,6 +82,96 @@ router.post('/', async (req: Request, res: Response) => {
     }
 });
 
+/**
+ * GET /api/admin/mesas/combinaciones
+ * Lista los grupos de mesas adyacentes que pueden unirse para grupos grandes.
+ */
+router.get('/combinaciones', async (req: Request, res: Response) => {
+    try {
+        const restaurantId = (req as any).user?.restaurantId;
+        const { data, error } = await supabaseAdmin
+            .from('table_combinations')
+            .select('*')
+            .eq('restaurant_id', restaurantId)
+            .order('created_at', { ascending: true });
+
+        if (error) throw error;
+        res.json({ success: true, data });
+    } catch (error) {
+        console.error('List table combinations error:', error);
+        res.status(500).json({ success: false, error: 'Error al listar las combinaciones de mesas' });
+    }
+});
+
+/**
+ * POST /api/admin/mesas/combinaciones
+ * Define una combinación de mesas. Todas las mesas deben pertenecer al restaurante.
+ */
+router.post('/combinaciones', async (req: Request, res: Response) => {
+    try {
+        const restaurantId = (req as any).user?.restaurantId;
+        const { name, table_ids, capacity, min_capacity } = req.body;
+
+        const tableIds: string[] = Array.isArray(table_ids) ? Array.from(new Set(table_ids.map(String))) : [];
+        if (tableIds.length < 2) {
+            return res.status(400).json({ success: false, error: 'Una combinación requiere al menos dos mesas' });
+        }
+
+        const { data: tables, error: tablesError } = await supabaseAdmin
+            .from('tables')
+            .select('id')
+            .eq('restaurant_id', restaurantId)
+            .in('id', tableIds);
+
+        if (tablesError) throw tablesError;
+        if ((tables || []).length !== tableIds.length) {
+            return res.status(400).json({ success: false, error: 'Alguna de las mesas no pertenece a este restaurante' });
+        }
+
+        const { data, error } = await supabaseAdmin
+            .from('table_combinations')
+            .insert({
+                restaurant_id: restaurantId,
+                name: name || null,
+                table_ids: tableIds,
+                capacity: capacity ? Number(capacity) : null,
+                min_capacity: Number(min_capacity) || 1,
+                is_active: true
+            })
+            .select()
+            .single();
+
+        if (error) throw error;
+        res.status(201).json({ success: true, data, message: 'Combinación creada exitosamente' });
+    } catch (error) {
+        console.error('Create table combination error:', error);
+        res.status(500).json({ success: false, error: 'Error al crear la combinación de mesas' });
+    }
+});
+
+/**
+ * DELETE /api/admin/mesas/combinaciones/:id
+ * Elimina una combinación de mesas del restaurante.
+ */
+router.delete('/combinaciones/:id', async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        const restaurantId = (req as any).user?.restaurantId;
+
+        const { error } = await supabaseAdmin
+            .from('table_combinations')
+            .delete()
+            .eq('id', id)
+            .eq('restaurant_id', restaurantId);
+
+        if (error) throw error;
+        res.json({ success: true, message: 'Combinación eliminada correctamente' });
+    } catch (error) {
+        console.error('Delete table combination error:', error);
+        res.status(500).json({ success: false, error: 'Error al eliminar la combinación de mesas' });
+    }
+});
+
 /**
  * PATCH /api/admin/mesas/:id
  * Actualiza propiedades o estado de una mesa específica.
@@ -96,12 +187,16 @@ router.patch('/:id', async (req: Request, res: Response) => {
             try {
                 console.log(`[DEBUG] Attempting to free table ID: ${id}`);
 
-                // Find active reservation for this table
+                // Find the seated party of this table (guests who never checked in are not completed)
                 const { data: activeRes, error: findError } = await supabaseAdmin
                     .from('reservations')
-                    .select('id, user_id, restaurants(name)')
+                    .select('id')
                     .eq('table_id', id)
-                    .in('status', ['confirmed', 'arrived', 'seated'])
+                    .eq('restaurant_id', restaurantId)
+                    .in('status', ['arrived', 'seated'])
+                    .order('date', { ascending: false })
+                    .order('time', { ascending: false })
+                    .limit(1)
                     .maybeSingle();
 
                 if (findError) {
@@ -110,35 +205,19 @@ router.patch('/:id', async (req: Request, res: Response) => {
 
                 if (activeRes) {
                     console.log(`[DEBUG] Found active reservation ${activeRes.id}. Marking as completed...`);
-                    // Mark reservation as completed
-                    const { error: updateError } = await supabaseAdmin
-                        .from('reservations')
-                        .update({
-                            status: 'completed',
-                            completed_at: new Date().toISOString(),
-                            updated_at: new Date().toISOString()
-                        })
-                        .eq('id', activeRes.id);
-
-                    if (updateError) {
-                        console.error('[DEBUG] Error updating reservation status:', updateError);
+                    // Completes the reservation and asks the guest for a review
+                    const result = await ReservationLifecycleService.transition(activeRes.id, 'completed', {
+                        actor: { type: 'staff', id: (req as any).user?.id },
+                        source: 'admin.table_free',
+                        restaurantId,
+                        metadata: { tableId: id },
+                    });
+
+                    if (result.error) {
+                        console.error('[DEBUG] Error completing reservation:', result.message);
                     } else {
                         console.log(`[DEBUG] Successfully marked reservation ${activeRes.id} as completed`);
                     }
-
-                    // Trigger Automated Review Request (Mobile signal)
-                    try {
-                        const { NotificationService } = await import('../../services/notifications.js');
-                        const restaurantName = (activeRes as any).restaurants?.name || 'el restaurante';
-                        await NotificationService.requestReview(
-                            activeRes.user_id,
-                            activeRes.id,
-                            restaurantName
-                        );
-                        console.log(`[ADMIN_ACTION] Triggered review request for user ${activeRes.user_id}`);
-                    } catch (notificationError) {
-                        console.error('[ADMIN_ACTION] Failed to trigger review request:', notificationError);
-                    }
                 } else {
                     console.log(`[DEBUG] No active reservation found for table ${id}`);
                 }
@@ -264,6 +343,10 @@ router.post('/:id/walk-in', async (req: Request, res: Response) => {
             .single();
 
         if (resError) throw resError;
+        await ReservationLifecycleService.recordCreation(reservation, {
+            actor: { type: 'staff', id: userId },
+            source: 'admin.walk_in',
+        });
 
         // 4. Actualizar estado físico de la mesa
         await supabaseAdmin
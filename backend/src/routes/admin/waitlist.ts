@@ -1,5 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { supabaseAdmin } from '../../config/supabase.js';
+import { WaitTimeService } from '../../services/waitTime.js';
+import { WaitlistMatcherService } from '../../services/waitlistMatcher.js';
 
 const router = Router();
 
@@ -36,7 +38,7 @@ router.get('/summary', async (req: Request, res: Response) => {
 
 /**
  * GET /api/admin/waitlist
- * Lista todos los clientes en espera (waiting/notified).
+ * Lista todos los clientes en espera (waiting/notified) con su tiempo estimado actual.
  */
 router.get('/', async (req: Request, res: Response) => {
     try {
@@ -49,7 +51,12 @@ router.get('/', async (req: Request, res: Response) => {
             .order('created_at', { ascending: true });
 
         if (error) throw error;
-        res.json({ success: true, data });
+
+        const estimates = await WaitTimeService.estimateQueue(restaurantId);
+        res.json({
+            success: true,
+            data: (data || []).map(entry => ({ ...entry, estimate: estimates.get(entry.id) || null })),
+        });
     } catch (error) {
         console.error('List waitlist error:', error);
         res.status(500).json({ success: false, error: 'Error al obtener la lista de espera' });
@@ -64,6 +71,7 @@ router.post('/', async (req: Request, res: Response) => {
     try {
         const restaurantId = (req as any).user?.restaurantId;
         const { name, phone, party_size, notes } = req.body;
+        const estimate = await WaitTimeService.estimateForNewParty(restaurantId, Number(party_size) || 1);
 
         const { data, error } = await supabaseAdmin
             .from('waitlist')
@@ -74,7 +82,7 @@ router.post('/', async (req: Request, res: Response) => {
                 party_size,
                 notes,
                 status: 'waiting',
-                estimated_wait: 15
+                estimated_wait: estimate.minutes
             })
             .select()
             .single();
@@ -87,9 +95,76 @@ router.post('/', async (req: Request, res: Response) => {
     }
 });
 
+/**
+ * GET /api/admin/waitlist/sugerencias
+ * Propuesta del asignador: el mejor grupo en espera para cada mesa libre (no envía ofertas).
+ */
+router.get('/sugerencias', async (req: Request, res: Response) => {
+    try {
+        const restaurantId = (req as any).user?.restaurantId;
+        const matches = await WaitlistMatcherService.matchRestaurant(restaurantId, true);
+        res.json({ success: true, data: matches });
+    } catch (error) {
+        console.error('Waitlist suggestions error:', error);
+        res.status(500).json({ success: false, error: 'Error al calcular sugerencias de mesas' });
+    }
+});
+
+/**
+ * POST /api/admin/waitlist/:id/ofrecer
+ * Ofrece una mesa libre a un grupo en espera y le avisa que tiene N minutos para confirmar.
+ */
+router.post('/:id/ofrecer', async (req: Request, res: Response) => {
+    try {
+        const restaurantId = (req as any).user?.restaurantId;
+        const { table_id } = req.body;
+
+        const [{ data: table }, { data: restaurant }] = await Promise.all([
+            supabaseAdmin
+                .from('tables')
+                .select('id, number, status')
+                .eq('id', table_id)
+                .eq('restaurant_id', restaurantId)
+                .maybeSingle(),
+            supabaseAdmin.from('restaurants').select('name, settings').eq('id', restaurantId).single(),
+        ]);
+
+        if (!table) {
+            return res.status(404).json({ success: false, error: 'Mesa no encontrada' });
+        }
+
+        const { data: entry } = await supabaseAdmin
+            .from('waitlist')
+            .select('id')
+            .eq('id', req.params.id)
+            .eq('restaurant_id', restaurantId)
+            .maybeSingle();
+
+        if (!entry) {
+            return res.status(404).json({ success: false, error: 'Entrada de lista de espera no encontrada' });
+        }
+
+        const offered = await WaitlistMatcherService.offer(
+            entry.id,
+            { tableId: table.id, number: table.number },
+            restaurant?.name || 'el restaurante',
+            restaurant?.settings || {},
+            table.status
+        );
+
+        if (!offered) {
+            return res.status(409).json({ success: false, error: 'La mesa o el cliente ya no están disponibles' });
+        }
+        res.json({ success: true, data: offered, message: 'Mesa ofrecida al cliente' });
+    } catch (error) {
+        console.error('Offer waitlist table error:', error);
+        res.status(500).json({ success: false, error: 'Error al ofrecer la mesa' });
+    }
+});
+
 /**
  * PATCH /api/admin/waitlist/:id/atender
- * Marca a un cliente de la lista como atendido y le asigna una mesa.
+ * Sienta al cliente en la mesa indicada (o la que se le ofreció) y registra su espera real.
  */
 router.patch('/:id/atender', async (req: Request, res: Response) => {
     try {
@@ -97,19 +172,32 @@ router.patch('/:id/atender', async (req: Request, res: Response) => {
         const restaurantId = (req as any).user?.restaurantId;
         const { table_id } = req.body;
 
-        const { data, error } = await supabaseAdmin
+        const { data: entry } = await supabaseAdmin
             .from('waitlist')
-            .update({
-                status: 'seated',
-                seated_at: new Date().toISOString(),
-                table_id
-            })
+            .select('*')
             .eq('id', id)
             .eq('restaurant_id', restaurantId)
-            .select()
-            .single();
+            .in('status', ['waiting', 'notified', 'confirmed'])
+            .maybeSingle();
 
-        if (error) throw error;
+        if (!entry) {
+            return res.status(404).json({ success: false, error: 'Entrada de lista de espera no encontrada' });
+        }
+
+        if (table_id) {
+            const { data: table } = await supabaseAdmin
+                .from('tables')
+                .select('id')
+                .eq('id', table_id)
+                .eq('restaurant_id', restaurantId)
+                .maybeSingle();
+
+            if (!table) {
+                return res.status(404).json({ success: false, error: 'Mesa no encontrada' });
+            }
+        }
+
+        const data = await WaitlistMatcherService.seat(entry, table_id);
         res.json({ success: true, data, message: 'Cliente atendido y sentado' });
     } catch (error) {
         console.error('Attend waitlist error:', error);
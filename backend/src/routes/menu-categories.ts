@@ -1,6 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { supabase, supabaseAdmin } from '../config/supabase.js';
 import { authMiddleware } from '../middleware/auth.js';
+import { MenuCatalogService } from '../services/menuCatalog.js';
 
 const router = Router();
 
@@ -41,13 +42,30 @@ router.get('/:restaurantId', async (req: Request, res: Response) => {
     }
 });
 
+/**
+ * Whether another category of the restaurant, under the same parent, already has this name
+ */
+async function isNameTaken(restaurantId: string, name: string, parentId: string | null, exceptId?: string): Promise<boolean> {
+    let query = supabaseAdmin
+        .from('menu_categories')
+        .select('id')
+        .eq('restaurant_id', restaurantId)
+        .eq('name', name);
+    query = parentId ? query.eq('parent_id', parentId) : query.is('parent_id', null);
+    if (exceptId) query = query.neq('id', exceptId);
+
+    const { data } = await query.limit(1);
+    return Boolean(data && data.length > 0);
+}
+
 /**
  * POST /api/menu-categories
  * Create a new menu category (restaurant admin only)
+ * With parentId it is created as a subcategory (one level of nesting)
  */
 router.post('/', authMiddleware, async (req: Request, res: Response) => {
     try {
-        const { restaurantId, name, description, icon, sortOrder } = req.body;
+        const { restaurantId, name, description, icon, sortOrder, parentId } = req.body;
 
         if (!restaurantId || !name) {
             res.status(400).json({
@@ -80,15 +98,24 @@ router.post('/', authMiddleware, async (req: Request, res: Response) => {
             return;
         }
 
-        // Check if category name already exists for this restaurant
-        const { data: existing } = await supabase
-            .from('menu_categories')
-            .select('id')
-            .eq('restaurant_id', restaurantId)
-            .eq('name', name)
-            .single();
+        if (parentId) {
+            const { data: parent } = await supabaseAdmin
+                .from('menu_categories')
+                .select('id, restaurant_id, parent_id')
+                .eq('id', parentId)
+                .maybeSingle();
+
+            if (!parent || parent.restaurant_id !== restaurantId || parent.parent_id) {
+                res.status(400).json({
+                    success: false,
+                    error: 'parentId must be a top-level category of this restaurant',
+                });
+                return;
+            }
+        }
 
-        if (existing) {
+        // Check if category name already exists under the same parent
+        if (await isNameTaken(restaurantId, name, parentId || null)) {
             res.status(400).json({
                 success: false,
                 error: 'Category with this name already exists',
@@ -105,6 +132,7 @@ router.post('/', authMiddleware, async (req: Request, res: Response) => {
                 description: description || '',
                 icon: icon || null,
                 sort_order: sortOrder || 0,
+                parent_id: parentId || null,
             })
             .select()
             .single();
@@ -134,11 +162,13 @@ router.post('/', authMiddleware, async (req: Request, res: Response) => {
 /**
  * PATCH /api/menu-categories/:id
  * Update a menu category (restaurant admin only)
+ * Renaming or moving it (parentId, null for top level) also relabels its items and
+ * pricing rules; the whole update is one transaction
  */
 router.patch('/:id', authMiddleware, async (req: Request, res: Response) => {
     try {
         const { id } = req.params;
-        const { name, description, icon, sortOrder, isActive } = req.body;
+        const { name, description, icon, sortOrder, isActive, parentId } = req.body;
 
         // Get category and verify ownership
         const { data: category, error: fetchError } = await supabase
@@ -166,13 +196,15 @@ router.patch('/:id', authMiddleware, async (req: Request, res: Response) => {
 
         // Build update object
         const updates: any = {};
-        if (name !== undefined) updates.name = name;
         if (description !== undefined) updates.description = description;
         if (icon !== undefined) updates.icon = icon;
         if (sortOrder !== undefined) updates.sort_order = sortOrder;
         if (isActive !== undefined) updates.is_active = isActive;
 
-        if (Object.keys(updates).length === 0) {
+        const renames = name !== undefined && name !== category.name;
+        const moves = parentId !== undefined && (parentId || null) !== category.parent_id;
+
+        if (Object.keys(updates).length === 0 && !renames && !moves) {
             res.status(400).json({
                 success: false,
                 error: 'No valid fields to update',
@@ -180,26 +212,42 @@ router.patch('/:id', authMiddleware, async (req: Request, res: Response) => {
             return;
         }
 
-        // Update category
-        const { data: updated, error } = await supabaseAdmin
-            .from('menu_categories')
-            .update(updates)
-            .eq('id', id)
-            .select()
-            .single();
+        if (renames && !String(name).trim()) {
+            res.status(400).json({
+                success: false,
+                error: 'name cannot be empty',
+            });
+            return;
+        }
 
-        if (error) {
-            console.error('Error updating menu category:', error);
-            res.status(500).json({
+        const targetParent = moves ? parentId || null : category.parent_id;
+        if ((renames || moves) && await isNameTaken(category.restaurant_id, renames ? name : category.name, targetParent, id)) {
+            res.status(400).json({
                 success: false,
-                error: 'Error updating category',
+                error: 'Category with this name already exists',
+            });
+            return;
+        }
+
+        // One RPC for everything: an invalid parent leaves the category untouched, and
+        // renaming/moving keeps its items and pricing rules pointing at it
+        const result = await MenuCatalogService.updateCategory(id, {
+            name: renames ? String(name).trim() : undefined,
+            parentId: moves ? parentId || null : undefined,
+            fields: updates,
+        });
+
+        if (result.error) {
+            res.status(400).json({
+                success: false,
+                error: 'parentId must be another top-level category of this restaurant, and a category with subcategories cannot be nested',
             });
             return;
         }
 
         res.json({
             success: true,
-            data: updated,
+            data: result.category,
         });
     } catch (error) {
         console.error('Update menu category error:', error);
@@ -211,8 +259,9 @@ router.patch('/:id', authMiddleware, async (req: Request, res: Response) => {
 });
 
 /**
- * DELETE /api/menu-categories/:id
- * Delete a menu category (restaurant admin only)
+ * DELETE /api/menu-categories/:id?moveTo=<categoryId>
+ * Delete a menu category and its subcategories (restaurant admin only)
+ * A category with items can only be deleted by moving them to another category
  */
 router.delete('/:id', authMiddleware, async (req: Request, res: Response) => {
     try {
@@ -242,32 +291,22 @@ router.delete('/:id', authMiddleware, async (req: Request, res: Response) => {
             return;
         }
 
-        // Check if category has menu items
-        const { data: menuItems } = await supabase
-            .from('menu_items')
-            .select('id')
-            .eq('category', category.name)
-            .eq('restaurant_id', category.restaurant_id);
+        const moveTo = (req.query.moveTo || req.body?.moveTo || null) as string | null;
+        const result = await MenuCatalogService.deleteCategory(id, moveTo);
 
-        if (menuItems && menuItems.length > 0) {
+        if (result === 'HAS_ITEMS') {
+            const itemCount = await MenuCatalogService.countItems(id);
             res.status(400).json({
                 success: false,
-                error: `Cannot delete category with ${menuItems.length} menu items. Please reassign or delete items first.`,
+                error: `Cannot delete category with ${itemCount} menu items. Choose a category to move them to (moveTo) or delete them first.`,
             });
             return;
         }
 
-        // Delete category
-        const { error } = await supabaseAdmin
-            .from('menu_categories')
-            .delete()
-            .eq('id', id);
-
-        if (error) {
-            console.error('Error deleting menu category:', error);
-            res.status(500).json({
+        if (result === 'INVALID_TARGET') {
+            res.status(400).json({
                 success: false,
-                error: 'Error deleting category',
+                error: 'moveTo must be another category of this restaurant, outside the one being deleted',
             });
             return;
         }
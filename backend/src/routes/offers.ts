@@ -1,9 +1,61 @@
 import { Router, Request, Response } from 'express';
 import { supabase, supabaseAdmin } from '../config/supabase.js';
 import { authMiddleware, restaurantOwnerMiddleware } from '../middleware/auth.js';
+import { getDepositRequirement } from '../services/bookingPolicy.js';
+import { MenuPricingService, parseMenuItemIds } from '../services/menuPricing.js';
+import { OfferCodeService, OfferCodeStatus, toOfferCodesCsv, validateBatchInput } from '../services/offerCodes.js';
+import { OFFER_RULE_HTTP_STATUS, OfferRulesService, applyOfferToDeposit, parseOfferRules } from '../services/offerRules.js';
 
 const router = Router();
 
+const CODE_STATUSES: OfferCodeStatus[] = ['available', 'redeemed', 'revoked'];
+// Platillos que cubre cada oferta
+const OFFER_MENU_ITEMS = 'offer_menu_items (menu_items (id, name, category, price, image_url, is_available))';
+
+/**
+ * Oferta de `:offerId` si pertenece a un restaurante del usuario; si no, responde 404/403 y devuelve null
+ */
+async function loadOwnedOffer(req: Request, res: Response): Promise<any | null> {
+    const { data: offer } = await supabaseAdmin
+        .from('offers')
+        .select('id, restaurant_id, title, restaurants (owner_id)')
+        .eq('id', req.params.offerId)
+        .maybeSingle();
+
+    if (!offer) {
+        res.status(404).json({ success: false, error: 'Oferta no encontrada' });
+        return null;
+    }
+
+    if ((offer.restaurants as any)?.owner_id !== req.user?.id) {
+        res.status(403).json({ success: false, error: 'No tienes permiso para administrar esta oferta' });
+        return null;
+    }
+
+    return offer;
+}
+
+/**
+ * `menuItemIds` del body: undefined si no viene, la lista si es válida y del restaurante,
+ * o null tras responder 400
+ */
+async function parseOfferMenuItems(value: unknown, restaurantId: string, res: Response): Promise<string[] | undefined | null> {
+    if (value === undefined) return undefined;
+
+    const { ids, error } = parseMenuItemIds(value);
+    if (error || !ids) {
+        res.status(400).json({ success: false, error });
+        return null;
+    }
+
+    if (!(await MenuPricingService.itemsBelongTo(restaurantId, ids))) {
+        res.status(400).json({ success: false, error: 'Algunos platillos no pertenecen a este restaurante' });
+        return null;
+    }
+
+    return ids;
+}
+
 /**
  * GET /api/offers
  * Obtiene todas las ofertas activas de todos los restaurantes (Vista Global).
@@ -46,7 +98,7 @@ router.get('/restaurants/:restaurantId', async (req: Request, res: Response) =>
 
         const { data: offers, error } = await supabase
             .from('offers')
-            .select('*')
+            .select(`*, ${OFFER_MENU_ITEMS}`)
             .eq('restaurant_id', restaurantId)
             .eq('is_active', true)
             .gte('valid_until', today)
@@ -93,6 +145,17 @@ router.post('/restaurants/:restaurantId', authMiddleware, restaurantOwnerMiddlew
             return;
         }
 
+        // Reglas de uso (horario, límites, primera visita, segmentos, combinación)
+        const { rules, error: rulesError } = parseOfferRules(req.body);
+        if (rulesError) {
+            res.status(400).json({ success: false, error: rulesError });
+            return;
+        }
+
+        // Platillos que cubre la oferta (combos, 2x1...)
+        const menuItems = await parseOfferMenuItems(req.body.menuItemIds, restaurantId, res);
+        if (menuItems === null) return;
+
         // Calcular fecha de fin por defecto (1 año) si no se proporciona
         const defaultValidUntil = new Date();
         defaultValidUntil.setFullYear(defaultValidUntil.getFullYear() + 1);
@@ -108,6 +171,7 @@ router.post('/restaurants/:restaurantId', authMiddleware, restaurantOwnerMiddlew
                 discount_value: discount,
                 valid_from: validFrom || new Date().toISOString().split('T')[0],
                 valid_until: validUntilValue,
+                ...rules,
                 is_active: true
             })
             .select()
@@ -119,6 +183,8 @@ router.post('/restaurants/:restaurantId', authMiddleware, restaurantOwnerMiddlew
             return;
         }
 
+        if (menuItems) await MenuPricingService.setOfferMenuItems(data.id, menuItems);
+
         console.log('[OFFERS DEBUG] Offer created successfully:', data.id);
 
         res.status(201).json({
@@ -191,6 +257,16 @@ router.patch('/:offerId', authMiddleware, async (req: Request, res: Response) =>
         if (is_active !== undefined) updates.is_active = is_active;
         if (isActive !== undefined) updates.is_active = isActive;
 
+        const { rules, error: rulesError } = parseOfferRules(req.body);
+        if (rulesError) {
+            res.status(400).json({ success: false, error: rulesError });
+            return;
+        }
+        Object.assign(updates, rules);
+
+        const menuItems = await parseOfferMenuItems(req.body.menuItemIds, offer.restaurant_id, res);
+        if (menuItems === null) return;
+
         const { data, error } = await supabaseAdmin
             .from('offers')
             .update(updates)
@@ -204,6 +280,8 @@ router.patch('/:offerId', authMiddleware, async (req: Request, res: Response) =>
             return;
         }
 
+        if (menuItems) await MenuPricingService.setOfferMenuItems(offerId, menuItems);
+
         res.json({
             success: true,
             data,
@@ -274,75 +352,180 @@ router.delete('/:offerId', authMiddleware, async (req: Request, res: Response) =
 });
 
 /**
- * POST /api/offers/validate
- * Valida un código promocional o una oferta para un usuario y condiciones específicas.
+ * GET /api/offers/:offerId/codes/batches
+ * Lotes de códigos únicos de la oferta con cuántos siguen disponibles, canjeados o revocados.
  */
-router.post('/validate', authMiddleware, async (req: Request, res: Response) => {
+router.get('/:offerId/codes/batches', authMiddleware, async (req: Request, res: Response) => {
     try {
-        const { offerId, promoCode, guestCount, date, time } = req.body;
-        const userId = req.user!.id;
+        const offer = await loadOwnedOffer(req, res);
+        if (!offer) return;
+
+        res.json({ success: true, data: await OfferCodeService.listBatches(offer.id) });
+    } catch (error) {
+        console.error('List offer code batches error:', error);
+        res.status(500).json({ success: false, error: 'Error al obtener los lotes de códigos' });
+    }
+});
 
-        // 1. Buscar la oferta por ID o Código
-        let query = supabaseAdmin.from('offers').select('*').eq('is_active', true);
+/**
+ * POST /api/offers/:offerId/codes/batches
+ * Genera un lote de códigos únicos de un solo uso ({ quantity, name?, prefix? }).
+ * Desde ese momento la oferta solo se puede usar con uno de sus códigos.
+ */
+router.post('/:offerId/codes/batches', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const { quantity, name, prefix } = req.body;
 
-        if (offerId) {
-            query = query.eq('id', offerId);
-        } else if (promoCode) {
-            query = query.eq('promo_code', promoCode.toUpperCase());
-        } else {
-            return res.status(400).json({ success: false, error: 'offerId o promoCode es requerido' });
+        const validationError = validateBatchInput({ quantity, prefix });
+        if (validationError) {
+            return res.status(400).json({ success: false, error: validationError });
         }
 
-        const { data: offer, error } = await query.maybeSingle();
+        const offer = await loadOwnedOffer(req, res);
+        if (!offer) return;
 
-        if (error || !offer) {
-            return res.status(404).json({ success: false, error: 'Promoción no válida o expirada' });
-        }
+        const batch = await OfferCodeService.createBatch(offer.id, {
+            quantity: Number(quantity),
+            name: name ? String(name) : undefined,
+            prefix: prefix ? String(prefix) : undefined,
+            createdBy: req.user!.id,
+        });
 
-        // 2. Validaciones de Reglas
-        const now = new Date();
-        const checkDate = date ? new Date(date) : now;
-        const dayOfWeek = checkDate.toLocaleDateString('en-US', { weekday: 'long' }).toLowerCase();
+        res.status(201).json({
+            success: true,
+            data: batch,
+            message: `Se generaron ${batch.quantity} códigos`
+        });
+    } catch (error) {
+        console.error('Create offer code batch error:', error);
+        res.status(500).json({ success: false, error: 'Error al generar los códigos' });
+    }
+});
 
-        // Regla: Fechas
-        if (new Date(offer.valid_from) > checkDate || new Date(offer.valid_until) < checkDate) {
-            return res.status(400).json({ success: false, error: 'Esta promoción no está vigente para la fecha seleccionada' });
+/**
+ * GET /api/offers/:offerId/codes
+ * Códigos de la oferta con quién y cuándo canjeó cada uno. Filtros: batchId, status.
+ */
+router.get('/:offerId/codes', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const { batchId, status } = req.query;
+        if (status && !CODE_STATUSES.includes(status as OfferCodeStatus)) {
+            return res.status(400).json({ success: false, error: `Estado inválido. Usa: ${CODE_STATUSES.join(', ')}` });
         }
 
-        // Regla: Días de la semana
-        if (offer.valid_days && !offer.valid_days.includes(dayOfWeek)) {
-            return res.status(400).json({ success: false, error: `Esta oferta solo es válida los días: ${offer.valid_days.join(', ')}` });
-        }
+        const offer = await loadOwnedOffer(req, res);
+        if (!offer) return;
 
-        // Regla: Capacidad (Party Size)
-        if (guestCount) {
-            if (offer.min_party_size && guestCount < offer.min_party_size) {
-                return res.status(400).json({ success: false, error: `Esta oferta requiere un mínimo de ${offer.min_party_size} personas` });
-            }
-            if (offer.max_party_size && guestCount > offer.max_party_size) {
-                return res.status(400).json({ success: false, error: `Esta oferta es válida para un máximo de ${offer.max_party_size} personas` });
-            }
+        const codes = await OfferCodeService.listCodes(offer.id, {
+            batchId: batchId ? String(batchId) : undefined,
+            status: status as OfferCodeStatus | undefined,
+        });
+
+        res.json({ success: true, data: codes });
+    } catch (error) {
+        console.error('List offer codes error:', error);
+        res.status(500).json({ success: false, error: 'Error al obtener los códigos' });
+    }
+});
+
+/**
+ * GET /api/offers/:offerId/codes/export
+ * CSV con los códigos (de un lote si se indica batchId) para imprimir o repartir.
+ */
+router.get('/:offerId/codes/export', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const offer = await loadOwnedOffer(req, res);
+        if (!offer) return;
+
+        const batchId = req.query.batchId ? String(req.query.batchId) : undefined;
+        const codes = await OfferCodeService.listCodes(offer.id, { batchId });
+
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="codigos_${batchId || offer.id}.csv"`);
+        res.send(toOfferCodesCsv(codes));
+    } catch (error) {
+        console.error('Export offer codes error:', error);
+        res.status(500).json({ success: false, error: 'Error al exportar los códigos' });
+    }
+});
+
+/**
+ * POST /api/offers/:offerId/codes/revoke
+ * Revoca los códigos aún no usados de un lote ({ batchId }) o los indicados ({ codeIds }).
+ */
+router.post('/:offerId/codes/revoke', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const { batchId, codeIds } = req.body;
+        if (!batchId && !(Array.isArray(codeIds) && codeIds.length > 0)) {
+            return res.status(400).json({ success: false, error: 'batchId o codeIds es requerido' });
         }
 
-        // Regla: Límite de uso global
-        if (offer.max_usage && offer.usage_count >= offer.max_usage) {
-            return res.status(400).json({ success: false, error: 'Esta promoción ha agotado su límite de usos' });
+        const offer = await loadOwnedOffer(req, res);
+        if (!offer) return;
+
+        const revoked = await OfferCodeService.revoke(offer.id, {
+            batchId: batchId ? String(batchId) : undefined,
+            codeIds: Array.isArray(codeIds) ? codeIds.map(String) : undefined,
+        });
+
+        res.json({
+            success: true,
+            data: { revoked },
+            message: `Se revocaron ${revoked} códigos`
+        });
+    } catch (error) {
+        console.error('Revoke offer codes error:', error);
+        res.status(500).json({ success: false, error: 'Error al revocar los códigos' });
+    }
+});
+
+/**
+ * POST /api/offers/validate
+ * Valida un código promocional o una oferta para un usuario y condiciones específicas
+ * (fecha, hora, personas y ofertas con las que se quiere combinar). No consume usos.
+ * Con fecha, hora y personas incluye `depositQuote`: el anticipo de ese horario con el descuento.
+ */
+router.post('/validate', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const { offerId, promoCode, restaurantId, guestCount, date, time, stackWith } = req.body;
+
+        if (!offerId && !promoCode) {
+            return res.status(400).json({ success: false, error: 'offerId o promoCode es requerido' });
         }
 
-        // Regla: Uso por usuario (Redenciones previas)
-        const { count: redemptionCount } = await supabaseAdmin
-            .from('offer_redemptions')
-            .select('id', { count: 'exact', head: true })
-            .eq('offer_id', offer.id)
-            .eq('user_id', userId);
+        const { offer, evaluation } = await OfferRulesService.validate(
+            { offerId, promoCode },
+            {
+                userId: req.user!.id,
+                restaurantId,
+                date,
+                time,
+                guestCount: guestCount ? Number(guestCount) : undefined,
+                stackWith: Array.isArray(stackWith) ? stackWith : undefined,
+            }
+        );
 
-        if (redemptionCount && redemptionCount >= 1) { // Por defecto 1 uso por usuario para Fase 5
-            return res.status(400).json({ success: false, error: 'Ya has utilizado esta promoción anteriormente' });
+        if (!evaluation.eligible) {
+            return res.status(OFFER_RULE_HTTP_STATUS[evaluation.error!]).json({
+                success: false,
+                error: evaluation.message,
+                code: evaluation.error,
+            });
         }
 
+        // Estimado: al reservar también cuentan las reglas de confiabilidad del cliente
+        const depositQuote = date && time && guestCount
+            ? applyOfferToDeposit(getDepositRequirement(offer.restaurants?.settings || {}, date, time), offer, Number(guestCount))
+            : null;
+
         res.json({
             success: true,
             data: offer,
+            depositQuote: depositQuote && {
+                required: depositQuote.deposit.required,
+                amount: depositQuote.deposit.amount,
+                discount: depositQuote.discount,
+            },
             message: 'Promoción válida'
         });
     } catch (error) {
@@ -353,39 +536,31 @@ router.post('/validate', authMiddleware, async (req: Request, res: Response) =>
 
 /**
  * POST /api/offers/redeem
- * Registra el uso de una oferta vinculada a una reservación.
+ * Registra el uso de una oferta vinculada a una reservación del usuario.
+ * Vuelve a aplicar todas las reglas y los límites se revisan de forma atómica.
+ * Solo para reservaciones sin anticipo: el monto del anticipo se fija al reservar.
  */
 router.post('/redeem', authMiddleware, async (req: Request, res: Response) => {
     try {
-        const { offerId, reservationId, discountApplied } = req.body;
-        const userId = req.user!.id;
+        const { offerId, reservationId, promoCode } = req.body;
 
         if (!offerId || !reservationId) {
             return res.status(400).json({ success: false, error: 'offerId y reservationId son requeridos' });
         }
 
-        // 1. Registrar la redención
-        const { error: redemptionError } = await supabaseAdmin
-            .from('offer_redemptions')
-            .insert({
-                offer_id: offerId,
-                user_id: userId,
-                reservation_id: reservationId,
-                discount_applied: discountApplied || 0
-            });
-
-        if (redemptionError) throw redemptionError;
-
-        // 2. Incrementar contador de uso en la oferta
-        const { error: updateError } = await supabaseAdmin.rpc('increment_offer_usage', {
-            offer_id: offerId
+        const { evaluation } = await OfferRulesService.redeem({
+            offerId,
+            reservationId,
+            userId: req.user!.id,
+            promoCode: promoCode ? String(promoCode) : undefined,
         });
 
-        if (updateError) {
-            // Si la función RPC no existe, usamos update manual (menos atómico pero funciona)
-            console.warn('RPC increment_offer_usage failing, falling back to manual update');
-            const { data: currentOffer } = await supabaseAdmin.from('offers').select('usage_count').eq('id', offerId).single();
-            await supabaseAdmin.from('offers').update({ usage_count: (currentOffer?.usage_count || 0) + 1 }).eq('id', offerId);
+        if (!evaluation.eligible) {
+            return res.status(OFFER_RULE_HTTP_STATUS[evaluation.error!]).json({
+                success: false,
+                error: evaluation.message,
+                code: evaluation.error,
+            });
         }
 
         res.json({
@@ -1,57 +1,48 @@
 import { Router, Request, Response } from 'express';
-import Stripe from 'stripe';
 import { supabaseAdmin } from '../config/supabase.js';
-import { authMiddleware } from '../middleware/auth.js';
+import { authMiddleware, restaurantAdminMiddleware } from '../middleware/auth.js';
+import { DepositIntentResult, DepositService } from '../services/deposits.js';
+import { PaymentEvent, getPaymentProvider } from '../services/paymentProvider.js';
 
 const router = Router();
 
-// Initialize Stripe with secret key 
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || '', {
-    apiVersion: '2023-10-16',
-});
+const INTENT_ERRORS: Record<NonNullable<DepositIntentResult['error']>, { status: number; message: string }> = {
+    NOT_FOUND: { status: 404, message: 'Reservation not found' },
+    FORBIDDEN: { status: 403, message: 'Not authorized to pay for this reservation' },
+    NOT_AWAITING_PAYMENT: { status: 409, message: 'This reservation is not waiting for a deposit' },
+    EXPIRED: { status: 410, message: 'The time to pay the deposit has expired' },
+};
 
 /**
  * POST /api/payments/create-intent
- * Create a PaymentIntent for reservation deposit
+ * Create (or reuse) the PaymentIntent for the deposit of a pending reservation.
+ * The amount is the one held on the reservation, never the client's.
  */
 router.post('/create-intent', authMiddleware, async (req: Request, res: Response) => {
     try {
-        const { amount, currency = 'mxn', reservationData } = req.body;
-        const userId = (req as any).user?.id;
+        const { reservationId } = req.body;
 
-        if (!amount || amount <= 0) {
+        if (!reservationId) {
             res.status(400).json({
                 success: false,
-                error: 'Amount is required and must be greater than 0',
+                error: 'reservationId is required',
             });
             return;
         }
 
-        // Stripe MXN minimum is $10 MXN (1000 centavos)
-        const minimumAmount = 10;
-        const finalAmount = Math.max(amount, minimumAmount);
+        const result = await DepositService.createIntent(String(reservationId), req.user!.id);
 
-        // Create PaymentIntent
-        const paymentIntent = await stripe.paymentIntents.create({
-            amount: Math.round(finalAmount * 100), // Stripe expects cents/centavos
-            currency,
-            automatic_payment_methods: {
-                enabled: true,
-            },
-            metadata: {
-                userId,
-                restaurantId: reservationData?.restaurantId || '',
-                date: reservationData?.date || '',
-                time: reservationData?.time || '',
-                guestCount: reservationData?.guestCount?.toString() || '',
-            },
-        });
+        if (result.error) {
+            const { status, message } = INTENT_ERRORS[result.error];
+            res.status(status).json({ success: false, error: message, code: result.error });
+            return;
+        }
 
         res.json({
             success: true,
-            clientSecret: paymentIntent.client_secret,
-            paymentIntentId: paymentIntent.id,
-            amount,
+            clientSecret: result.intent!.clientSecret,
+            paymentIntentId: result.intent!.paymentIntentId,
+            amount: result.intent!.amount,
         });
     } catch (error: any) {
         console.error('Error creating payment intent:', error);
@@ -64,14 +55,31 @@ router.post('/create-intent', authMiddleware, async (req: Request, res: Response
 
 /**
  * POST /api/payments/confirm
- * Confirm payment was successful and update reservation
+ * Fast path after the client confirms the payment: checks the intent with the provider and
+ * confirms the reservation without waiting for the webhook (both are idempotent)
  */
 router.post('/confirm', authMiddleware, async (req: Request, res: Response) => {
     try {
-        const { paymentIntentId, reservationId } = req.body;
+        const { paymentIntentId } = req.body;
+
+        if (!paymentIntentId) {
+            res.status(400).json({
+                success: false,
+                error: 'paymentIntentId is required',
+            });
+            return;
+        }
 
-        // Verify payment with Stripe
-        const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
+        // Verify payment with the provider
+        const paymentIntent = await getPaymentProvider().retrieveIntent(paymentIntentId);
+
+        if (paymentIntent.metadata?.userId !== req.user!.id) {
+            res.status(403).json({
+                success: false,
+                error: 'Payment does not belong to this user',
+            });
+            return;
+        }
 
         if (paymentIntent.status !== 'succeeded') {
             res.status(400).json({
@@ -81,29 +89,16 @@ router.post('/confirm', authMiddleware, async (req: Request, res: Response) => {
             return;
         }
 
-        // Update reservation with deposit_paid = true
-        if (reservationId) {
-            const { error } = await supabaseAdmin
-                .from('reservations')
-                .update({
-                    deposit_paid: true,
-                    deposit_paid_at: new Date().toISOString(),
-                    deposit_amount: paymentIntent.amount / 100,
-                })
-                .eq('id', reservationId);
-
-            if (error) {
-                console.error('Error updating reservation:', error);
-            }
-        }
+        const reservation = await DepositService.markPaid(paymentIntent);
 
         res.json({
             success: true,
             message: 'Payment confirmed',
+            data: reservation,
             paymentIntent: {
                 id: paymentIntent.id,
                 status: paymentIntent.status,
-                amount: paymentIntent.amount / 100,
+                amount: paymentIntent.amount,
             },
         });
     } catch (error: any) {
@@ -117,128 +112,104 @@ router.post('/confirm', authMiddleware, async (req: Request, res: Response) => {
 
 /**
  * POST /api/payments/webhook
- * Stripe webhook for payment events (optional, for production)
+ * Webhook of the configured payment provider. Mounted with a raw body parser (see index.ts)
+ * because the signature is computed over the exact bytes the provider sent.
  */
 router.post('/webhook', async (req: Request, res: Response) => {
-    const sig = req.headers['stripe-signature'];
-    const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+    if (!Buffer.isBuffer(req.body)) {
+        res.status(400).json({ error: 'Missing raw body' });
+        return;
+    }
 
+    let event: PaymentEvent;
     try {
-        let event;
-
-        if (webhookSecret && sig) {
-            event = stripe.webhooks.constructEvent(req.body, sig, webhookSecret);
-        } else {
-            event = req.body;
-        }
-
-        // Handle the event
-        switch (event.type) {
-            case 'payment_intent.succeeded':
-                const paymentIntent = event.data.object as Stripe.PaymentIntent;
-                console.log(`💰 Payment succeeded: ${paymentIntent.id}`);
-
-                // Update reservation via webhook for reliability
-                const reservationId = paymentIntent.metadata?.reservationId;
-                if (reservationId) {
-                    try {
-                        await supabaseAdmin
-                            .from('reservations')
-                            .update({
-                                deposit_paid: true,
-                                deposit_paid_at: new Date().toISOString(),
-                                deposit_amount: paymentIntent.amount / 100,
-                                updated_at: new Date().toISOString()
-                            })
-                            .eq('id', reservationId);
-                        console.log(`✅ Reservation ${reservationId} updated via webhook`);
-                    } catch (err) {
-                        console.error(`❌ Failed to update reservation ${reservationId} via webhook:`, err);
-                    }
-                }
-                break;
-            case 'payment_intent.payment_failed':
-                const failedPayment = event.data.object;
-                console.log(`❌ Payment failed: ${failedPayment.id}`);
-                break;
-            default:
-                console.log(`Unhandled event type: ${event.type}`);
-        }
+        event = getPaymentProvider().parseWebhook(req.body, req.headers);
+    } catch (error: any) {
+        console.error('Webhook signature verification failed:', error.message);
+        res.status(400).json({ error: `Webhook signature verification failed: ${error.message}` });
+        return;
+    }
 
-        res.json({ received: true });
+    try {
+        const outcome = await DepositService.handleWebhookEvent(event);
+        res.json({ received: true, outcome });
     } catch (error: any) {
-        console.error('Webhook error:', error);
-        res.status(400).json({ error: error.message });
+        // 500 makes the provider retry the delivery later
+        console.error(`Webhook error processing ${event.providerType} (${event.id}):`, error);
+        res.status(500).json({ error: 'Error processing event' });
     }
 });
 
 
 /**
  * POST /api/payments/refund
- * Process a refund for a cancelled reservation
+ * Staff refund of a reservation's deposit (e.g. a goodwill refund or retrying a failed one).
+ * Always refunds the PaymentIntent stored on the reservation; `amount` (MXN) defaults to what is left.
+ * Guests get their refund by cancelling, under the restaurant's cancellation policy.
  */
-router.post('/refund', authMiddleware, async (req: Request, res: Response) => {
+router.post('/refund', authMiddleware, restaurantAdminMiddleware, async (req: Request, res: Response) => {
     try {
-        const { paymentIntentId, reservationId, reason } = req.body;
+        const { reservationId, amount, reason } = req.body;
 
-        if (!paymentIntentId) {
+        if (!reservationId) {
             return res.status(400).json({
                 success: false,
-                error: 'Payment Intent ID is required'
+                error: 'Reservation ID is required'
             });
         }
 
-        // Verify the reservation exists and belongs to the user
-        if (reservationId) {
-            const { data: reservation, error: resError } = await supabaseAdmin
-                .from('reservations')
-                .select('user_id, status, deposit_paid')
-                .eq('id', reservationId)
-                .single();
+        const { data: reservation, error: resError } = await supabaseAdmin
+            .from('reservations')
+            .select('id, restaurant_id, deposit_paid, deposit_status, deposit_amount, payment_intent_id, cancellation_refund_status')
+            .eq('id', reservationId)
+            .single();
 
-            if (resError || !reservation) {
-                return res.status(404).json({
-                    success: false,
-                    error: 'Reservation not found'
-                });
-            }
+        if (resError || !reservation) {
+            return res.status(404).json({
+                success: false,
+                error: 'Reservation not found'
+            });
+        }
 
-            // Check ownership
-            if (reservation.user_id !== req.user!.id && req.user!.role !== 'super_admin') {
-                return res.status(403).json({
-                    success: false,
-                    error: 'Unauthorized to refund this reservation'
-                });
-            }
+        if (req.user!.role !== 'super_admin' && reservation.restaurant_id !== (req as any).user?.restaurantId) {
+            return res.status(403).json({
+                success: false,
+                error: 'Unauthorized to refund this reservation'
+            });
+        }
 
-            // Verify deposit was paid
-            if (!reservation.deposit_paid) {
-                return res.status(400).json({
-                    success: false,
-                    error: 'No deposit was paid for this reservation'
-                });
-            }
+        if (!reservation.deposit_paid || !reservation.payment_intent_id) {
+            return res.status(400).json({
+                success: false,
+                error: 'No deposit was paid for this reservation'
+            });
+        }
+
+        const refundAmount = amount === undefined || amount === null ? undefined : Number(amount);
+        if (refundAmount !== undefined && (!Number.isFinite(refundAmount) || refundAmount <= 0 || refundAmount > Number(reservation.deposit_amount))) {
+            return res.status(400).json({
+                success: false,
+                error: 'Refund amount must be greater than zero and at most the deposit'
+            });
         }
 
-        // Create refund via Stripe
-        const refund = await stripe.refunds.create({
-            payment_intent: paymentIntentId,
-            reason: reason || 'requested_by_customer',
+        // The charge.refunded webhook records the resulting deposit status
+        const refund = await getPaymentProvider().refund({
+            paymentIntentId: reservation.payment_intent_id,
+            amount: refundAmount,
             metadata: {
-                reservationId: reservationId || '',
-                refundReason: reason || 'Customer requested cancellation'
+                reservationId: reservation.id,
+                refundedBy: req.user!.id,
+                refundReason: reason || 'Refund issued by the restaurant'
             }
         });
 
-        // Update reservation to mark refund processed
-        if (reservationId && refund.status === 'succeeded') {
+        // A manual refund settles a cancellation refund that had failed
+        if (reservation.cancellation_refund_status === 'failed' && refund.status === 'succeeded') {
             await supabaseAdmin
                 .from('reservations')
-                .update({
-                    deposit_paid: false,
-                    updated_at: new Date().toISOString()
-                })
-                .eq('id', reservationId);
+                .update({ cancellation_refund_status: 'succeeded', updated_at: new Date().toISOString() })
+                .eq('id', reservation.id);
         }
 
         res.json({
@@ -246,7 +217,7 @@ router.post('/refund', authMiddleware, async (req: Request, res: Response) => {
             message: 'Refund processed successfully',
             refund: {
                 id: refund.id,
-                amount: refund.amount / 100,
+                amount: refund.amount,
                 status: refund.status,
                 currency: refund.currency
             }
@@ -0,0 +1,36 @@
+import { Router, Request, Response } from 'express';
+import { authMiddleware, staffMiddleware, staffRestaurantMiddleware } from '../middleware/auth.js';
+import { FeatureFlagService } from '../services/featureFlag.js';
+import { RealtimeService } from '../services/realtime.js';
+
+const router = Router();
+
+/**
+ * GET /api/realtime/restaurants/:restaurantId/events
+ * Canal Server-Sent Events del restaurante: cambios de reservas, mesas y lista de espera,
+ * más el reporte de estado de mesas. Usa el mismo JWT (header Authorization) que el resto de la API.
+ */
+router.get(
+    '/restaurants/:restaurantId/events',
+    authMiddleware,
+    staffMiddleware,
+    staffRestaurantMiddleware('restaurantId'),
+    async (req: Request, res: Response) => {
+        try {
+            const { restaurantId } = req.params;
+
+            if (!(await FeatureFlagService.isEnabled('realtime_events', restaurantId))) {
+                return res.status(404).json({ success: false, error: 'Eventos en tiempo real no disponibles' });
+            }
+
+            RealtimeService.subscribe(restaurantId, res);
+        } catch (error) {
+            console.error('Realtime subscribe error:', error);
+            if (!res.headersSent) {
+                res.status(500).json({ success: false, error: 'Error al abrir el canal en tiempo real' });
+            }
+        }
+    }
+);
+
+export default router;
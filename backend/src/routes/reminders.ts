@@ -0,0 +1,90 @@
+import { Router, Request, Response } from 'express';
+import { ReminderService } from '../services/reminders.js';
+
+const router = Router();
+
+// Reservations the guest can still act on from a reminder
+const ACTIONABLE_STATUSES = ['pending', 'confirmed'];
+
+/**
+ * GET /api/reminders/:token
+ * Resumen de la reservación detrás de un enlace de recordatorio (no modifica nada,
+ * para que los escáneres de enlaces del correo no confirmen ni cancelen).
+ */
+router.get('/:token', async (req: Request, res: Response) => {
+    try {
+        const reminder = await ReminderService.findByToken(req.params.token);
+        if (!reminder?.reservations) {
+            return res.status(404).json({ success: false, error: 'Recordatorio no encontrado' });
+        }
+
+        const reservation = reminder.reservations;
+        res.json({
+            success: true,
+            data: {
+                reservationId: reservation.id,
+                restaurant: reservation.restaurants,
+                date: reservation.date,
+                time: reservation.time,
+                guestCount: reservation.guest_count,
+                status: reservation.status,
+                guestConfirmedAt: reservation.guest_confirmed_at,
+                actionTaken: reminder.action_taken,
+                canAct: ACTIONABLE_STATUSES.includes(reservation.status),
+            }
+        });
+    } catch (error) {
+        console.error('Get reminder error:', error);
+        res.status(500).json({ success: false, error: 'Error al obtener el recordatorio' });
+    }
+});
+
+/**
+ * POST /api/reminders/:token/confirm
+ * El invitado confirma su asistencia desde el recordatorio.
+ */
+router.post('/:token/confirm', async (req: Request, res: Response) => {
+    try {
+        const reminder = await ReminderService.findByToken(req.params.token);
+        if (!reminder?.reservations) {
+            return res.status(404).json({ success: false, error: 'Recordatorio no encontrado' });
+        }
+
+        if (!ACTIONABLE_STATUSES.includes(reminder.reservations.status)) {
+            return res.status(400).json({ success: false, error: 'Esta reservación ya no puede confirmarse' });
+        }
+
+        await ReminderService.confirmFromReminder(reminder);
+        res.json({ success: true, message: 'Asistencia confirmada' });
+    } catch (error) {
+        console.error('Confirm from reminder error:', error);
+        res.status(500).json({ success: false, error: 'Error al confirmar la reservación' });
+    }
+});
+
+/**
+ * POST /api/reminders/:token/cancel
+ * El invitado cancela desde el recordatorio; se liberan las mesas y se reembolsa el depósito.
+ */
+router.post('/:token/cancel', async (req: Request, res: Response) => {
+    try {
+        const reminder = await ReminderService.findByToken(req.params.token);
+        if (!reminder?.reservations) {
+            return res.status(404).json({ success: false, error: 'Recordatorio no encontrado' });
+        }
+
+        if (!ACTIONABLE_STATUSES.includes(reminder.reservations.status)) {
+            return res.status(400).json({ success: false, error: 'Esta reservación ya no puede cancelarse' });
+        }
+
+        if (!(await ReminderService.cancelFromReminder(reminder))) {
+            return res.status(409).json({ success: false, error: 'Esta reservación ya no puede cancelarse' });
+        }
+        res.json({ success: true, message: 'Reservación cancelada' });
+    } catch (error) {
+        console.error('Cancel from reminder error:', error);
+        res.status(500).json({ success: false, error: 'Error al cancelar la reservación' });
+    }
+});
+
+export default router;
@@ -3,12 +3,32 @@ import { supabase, supabaseAdmin } from '../config/supabase.js';
 import { authMiddleware } from '../middleware/auth.js';
 import { auditMiddleware } from '../middleware/audit.js';
 import crypto from 'crypto';
-import Stripe from 'stripe';
 import * as emailService from '../services/email.js';
-
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || '', {
-    apiVersion: '2023-10-16',
-});
+import { AvailabilityService } from '../services/availability.js';
+import { ReservationBookingService, VerifiedDeposit } from '../services/reservationBooking.js';
+import { DepositService } from '../services/deposits.js';
+import { CancellationOptions, CancellationPolicyService, getCancellationPolicy } from '../services/cancellationPolicy.js';
+import { TableAssignmentService } from '../services/tableAssignment.js';
+import { NoShowService } from '../services/noShow.js';
+import { DietaryProfileService } from '../services/dietary.js';
+import {
+    OFFER_RULE_HTTP_STATUS,
+    OfferRulesService,
+    applyOfferToDeposit,
+    describeOfferRuleError,
+} from '../services/offerRules.js';
+import {
+    RESERVATION_STATUSES,
+    ReservationLifecycleService,
+    canTransition,
+    TRANSITION_ERROR_HTTP_STATUS,
+} from '../services/reservationLifecycle.js';
+import {
+    BookingPolicyService,
+    DepositRequirement,
+    PolicyViolation,
+    getDepositViolation,
+} from '../services/bookingPolicy.js';
 
 const router = Router();
 
@@ -19,9 +39,47 @@ function generateQRCode(): string {
     return `MF-${crypto.randomBytes(6).toString('hex').toUpperCase()}`;
 }
 
+/**
+ * Reply with booking policy violations; `code` lets the client show its own message
+ */
+function sendPolicyViolations(res: Response, violations: PolicyViolation[], deposit?: DepositRequirement) {
+    return res.status(400).json({
+        success: false,
+        error: violations[0].message,
+        violations,
+        deposit,
+    });
+}
+
+/**
+ * Whether the user works for the restaurant: super admin, its admin or owner, or active staff
+ */
+async function isRestaurantStaff(user: NonNullable<Request['user']>, restaurantId: string): Promise<boolean> {
+    if (user.role === 'super_admin') return true;
+    if (user.role === 'restaurant_admin' && (user as any).restaurantId === restaurantId) return true;
+
+    const { data: staffRecord } = await supabaseAdmin
+        .from('restaurant_staff')
+        .select('id')
+        .eq('user_id', user.id)
+        .eq('restaurant_id', restaurantId)
+        .eq('is_active', true)
+        .maybeSingle();
+    if (staffRecord) return true;
+
+    const { data: restaurant } = await supabaseAdmin
+        .from('restaurants')
+        .select('owner_id')
+        .eq('id', restaurantId)
+        .maybeSingle();
+    return restaurant?.owner_id === user.id;
+}
+
 /**
  * POST /api/reservations
- * Create a new reservation
+ * Create a new reservation. `offerId` or `promoCode` applies an offer: it is redeemed with the
+ * reservation and its discount comes off the deposit. `dietary` ({ restrictions, allergies }) records the
+ * party's needs for the staff; without it the guest's saved dietary profile is used.
  */
 router.post('/', authMiddleware, async (req: Request, res: Response) => {
     try {
@@ -33,83 +91,211 @@ router.post('/', authMiddleware, async (req: Request, res: Response) => {
             guestCount,
             occasion,
             specialRequest,
-            depositPaid,
-            depositAmount,
+            paymentIntentId,
+            preferences,
+            offerId,
+            promoCode,
+            dietary,
         } = req.body;
 
-        // Validate required fields
-        if (!restaurantId || !tableId || !date || !time || !guestCount) {
+        // Validate required fields (tableId may be omitted or "any" to let the restaurant assign one)
+        if (!restaurantId || !date || !time || !guestCount) {
             res.status(400).json({
                 success: false,
-                error: 'Missing required fields: restaurantId, tableId, date, time, guestCount',
+                error: 'Missing required fields: restaurantId, date, time, guestCount',
             });
             return;
         }
 
-        // Check if table is available for the given date/time
-        const { data: existingReservation } = await supabase
-            .from('reservations')
-            .select('id')
-            .eq('table_id', tableId)
-            .eq('date', date)
-            .eq('time', time)
-            .not('status', 'in', '("cancelled","no_show")')
-            .single();
+        const userId = req.user!.id; // Use validated ID from token
+        const autoAssign = !tableId || tableId === 'any';
+
+        const party = await DietaryProfileService.forReservation(userId, dietary);
+        if (party.error) {
+            res.status(400).json({ success: false, error: party.error });
+            return;
+        }
+
+        // Enforce the restaurant's booking policies before looking for a table
+        const policy = await BookingPolicyService.evaluate(restaurantId, {
+            date,
+            time,
+            guestCount: Number(guestCount),
+            userId,
+        });
+        if (!policy) {
+            res.status(404).json({ success: false, error: 'Restaurant not found' });
+            return;
+        }
+
+        if (policy.violations.length > 0) {
+            sendPolicyViolations(res, policy.violations, policy.deposit);
+            return;
+        }
 
-        if (existingReservation) {
+        // An offer or promo code is checked against this booking up front; its discount lowers the deposit
+        let offer: any = null;
+        let offerCodeId: string | null = null;
+        let offerDiscount = 0;
+        let depositRequirement = policy.deposit;
+        if (offerId || promoCode) {
+            const validation = await OfferRulesService.validate(
+                { offerId, promoCode },
+                { userId, restaurantId, date, time, guestCount: Number(guestCount) }
+            );
+            if (!validation.evaluation.eligible) {
+                res.status(OFFER_RULE_HTTP_STATUS[validation.evaluation.error!]).json({
+                    success: false,
+                    error: validation.evaluation.message,
+                    code: validation.evaluation.error,
+                });
+                return;
+            }
+            offer = validation.offer;
+            offerCodeId = validation.code?.id ?? null;
+            ({ deposit: depositRequirement, discount: offerDiscount } = applyOfferToDeposit(policy.deposit, offer, Number(guestCount)));
+        }
+
+        // Fast path: reject obvious conflicts before touching Stripe (turn time + buffer)
+        let assignedTableId: string = tableId;
+        let linkedTableIds: string[] = [];
+        let available: boolean;
+        let endTime: string;
+        let bufferMinutes: number;
+
+        if (autoAssign) {
+            const result = await TableAssignmentService.assign(restaurantId, date, time, Number(guestCount), {
+                zone: preferences?.zone ? String(preferences.zone) : undefined,
+                isVip: typeof preferences?.isVip === 'boolean' ? preferences.isVip : undefined,
+                isOutdoor: typeof preferences?.isOutdoor === 'boolean' ? preferences.isOutdoor : undefined,
+            });
+            available = result.assignment !== null;
+            assignedTableId = result.assignment?.tableId || '';
+            linkedTableIds = result.assignment?.linkedTableIds || [];
+            ({ endTime, bufferMinutes } = result);
+        } else {
+            ({ available, endTime, bufferMinutes } = await AvailabilityService.checkTableAvailability(
+                restaurantId,
+                tableId,
+                date,
+                time,
+                Number(guestCount)
+            ));
+        }
+
+        if (!available) {
             res.status(409).json({
                 success: false,
-                error: 'This table is already reserved for the selected time',
+                error: autoAssign
+                    ? 'No tables available for this party at the selected time'
+                    : 'This table is already reserved for the selected time',
+                alternatives: await ReservationBookingService.suggestAlternatives(restaurantId, date, time, Number(guestCount)),
             });
             return;
         }
 
-        // Check if restaurant requires deposit at this time
-        // TODO: Implement peak hour logic based on restaurant settings
+        // Deposit is only considered paid when the payment provider says so; depositPaid/depositAmount from the body are ignored
+        let deposit: VerifiedDeposit | null = null;
+        if (paymentIntentId) {
+            const verification = await ReservationBookingService.verifyDeposit(String(paymentIntentId), { userId, restaurantId });
+            if (!verification.valid) {
+                res.status(402).json({
+                    success: false,
+                    error: verification.error,
+                });
+                return;
+            }
+            deposit = verification.deposit!;
+        }
 
-        // Create reservation with strict whitelisting to prevent mass assignment
-        const qrCode = generateQRCode();
-        const userId = req.user!.id; // Use validated ID from token
+        // Peak days/hours may require a deposit; the amount comes from settings (less the offer), never from the client.
+        // Without a payment the table is held as pending and the guest pays against the reservation.
+        const depositViolation = getDepositViolation(depositRequirement, deposit?.amount || 0);
+        const awaitingDeposit = depositViolation?.code === 'DEPOSIT_REQUIRED';
+        if (depositViolation && !awaitingDeposit) {
+            sendPolicyViolations(res, [depositViolation], depositRequirement);
+            return;
+        }
+        const depositHold = awaitingDeposit ? await DepositService.getHold(restaurantId, depositRequirement.amount) : null;
 
-        const { data: reservation, error } = await supabaseAdmin
-            .from('reservations')
-            .insert({
-                restaurant_id: restaurantId,
-                user_id: userId,
-                table_id: tableId,
-                date,
-                time,
-                guest_count: Number(guestCount),
-                occasion: occasion ? String(occasion) : null,
-                special_request: specialRequest ? String(specialRequest) : null,
-                status: depositPaid ? 'confirmed' : 'pending',
-                deposit_paid: Boolean(depositPaid),
-                deposit_amount: depositAmount ? Number(depositAmount) : null,
-                deposit_paid_at: depositPaid ? new Date().toISOString() : null,
-                qr_code: qrCode,
-                // These fields CANNOT be set by the client via mass assignment
-                created_at: new Date().toISOString()
-            })
-            .select()
-            .single();
+        // Create reservation atomically; the exclusion constraint settles concurrent requests
+        const result = await ReservationBookingService.createAtomic({
+            restaurantId,
+            userId,
+            tableId: assignedTableId,
+            linkedTableIds,
+            date,
+            time,
+            endTime,
+            bufferMinutes,
+            guestCount: Number(guestCount),
+            occasion: occasion ? String(occasion) : null,
+            specialRequest: specialRequest ? String(specialRequest) : null,
+            status: deposit ? 'confirmed' : 'pending',
+            qrCode: generateQRCode(),
+            deposit,
+            depositHold,
+            offer: offer ? { offerId: offer.id, discount: offerDiscount, codeId: offerCodeId } : null,
+            dietary: party.dietary,
+        });
 
-        if (error) {
-            console.error('Error creating reservation:', error);
-            res.status(500).json({
+        if (result.duplicatePayment) {
+            res.status(409).json({
                 success: false,
-                error: 'Error creating reservation',
+                error: 'This payment has already been used for another reservation',
             });
             return;
         }
 
+        if (result.offerError) {
+            // Someone used the last redemption first: the deposit was priced with the discount, give it back
+            if (deposit) {
+                await ReservationBookingService.refundDeposit(deposit.paymentIntentId);
+            }
+
+            res.status(OFFER_RULE_HTTP_STATUS[result.offerError]).json({
+                success: false,
+                error: describeOfferRuleError(result.offerError, offer),
+                code: result.offerError,
+                depositRefunded: Boolean(deposit),
+            });
+            return;
+        }
+
+        if (result.conflict) {
+            // The slot was taken between our check and the insert: give the deposit back
+            if (deposit) {
+                await ReservationBookingService.refundDeposit(deposit.paymentIntentId);
+            }
+
+            res.status(409).json({
+                success: false,
+                error: 'This table was just reserved by someone else',
+                depositRefunded: Boolean(deposit),
+                alternatives: await ReservationBookingService.suggestAlternatives(restaurantId, date, time, Number(guestCount)),
+            });
+            return;
+        }
+
+        const reservation = result.reservation;
+        await ReservationLifecycleService.recordCreation(reservation, {
+            actor: { type: 'guest', id: userId },
+            source: 'reservations.create',
+            metadata: {
+                depositPaid: Boolean(deposit),
+                awaitingDeposit,
+                ...(offer && { offerId: offer.id, offerDiscount }),
+            },
+        });
+
         // Update table status to pending
         await supabase
             .from('tables')
             .update({ status: 'pending' })
-            .eq('id', tableId);
+            .in('id', [assignedTableId, ...linkedTableIds]);
 
-        // Send confirmation email
-        if (req.user?.email) {
+        // Send confirmation email (held reservations get it once the deposit confirms them)
+        if (req.user?.email && !awaitingDeposit) {
             await emailService.sendReservationConfirmation(req.user.email, {
                 ...reservation,
                 guestCount: reservation.guest_count, // Map DB field to service expected field
@@ -121,7 +307,9 @@ router.post('/', authMiddleware, async (req: Request, res: Response) => {
         res.status(201).json({
             success: true,
             data: reservation,
-            message: 'Reservation created successfully',
+            message: awaitingDeposit
+                ? `Reservation held until ${reservation.deposit_due_at}: pay the $${reservation.deposit_amount} MXN deposit to confirm it`
+                : 'Reservation created successfully',
         });
     } catch (error) {
         console.error('Create reservation error:', error);
@@ -231,7 +419,7 @@ router.get('/my/latest', authMiddleware, async (req: Request, res: Response) =>
 router.post('/repeat/:id', authMiddleware, async (req: Request, res: Response) => {
     try {
         const { id } = req.params;
-        const { date, time } = req.body;
+        const { date, time, paymentIntentId } = req.body;
 
         if (!date || !time) {
             return res.status(400).json({ success: false, error: 'Fecha y hora son requeridas' });
@@ -249,47 +437,109 @@ router.post('/repeat/:id', authMiddleware, async (req: Request, res: Response) =
             return res.status(404).json({ success: false, error: 'Reservación original no encontrada' });
         }
 
-        // 2. Validar disponibilidad actual de la misma mesa
-        const { data: conflict } = await supabaseAdmin
-            .from('reservations')
-            .select('id')
-            .eq('table_id', original.table_id)
-            .eq('date', date)
-            .eq('time', time)
-            .not('status', 'in', '("cancelled","no_show")')
-            .maybeSingle();
+        // 2. Aplicar las políticas de reserva del restaurante a la nueva fecha/hora
+        const policy = await BookingPolicyService.evaluate(original.restaurant_id, {
+            date,
+            time,
+            guestCount: original.guest_count,
+            userId: original.user_id,
+        });
+        if (!policy) {
+            return res.status(404).json({ success: false, error: 'Restaurante no encontrado' });
+        }
 
-        if (conflict) {
-            return res.status(409).json({ success: false, error: 'La mesa ya está ocupada para ese horario. Por favor selecciona otro momento.' });
+        if (policy.violations.length > 0) {
+            return sendPolicyViolations(res, policy.violations, policy.deposit);
         }
 
-        // 3. Crear nueva reservación con parámetros clonados
-        const qrCode = `MF-${crypto.randomBytes(6).toString('hex').toUpperCase()}`;
+        // 3. Validar disponibilidad actual de las mismas mesas (incluidas las combinadas) durante todo el turno
+        const linkedTableIds: string[] = original.linked_table_ids || [];
+        const { available, endTime, bufferMinutes } = await TableAssignmentService.checkSeating(
+            original.restaurant_id,
+            [original.table_id, ...linkedTableIds].filter(Boolean),
+            date,
+            time,
+            original.guest_count
+        );
 
-        const { data: newReservation, error: createError } = await supabaseAdmin
-            .from('reservations')
-            .insert({
-                restaurant_id: original.restaurant_id,
-                user_id: req.user!.id,
-                table_id: original.table_id,
-                date,
-                time,
-                guest_count: original.guest_count,
-                occasion: original.occasion,
-                special_request: original.special_request,
-                status: 'pending',
-                qr_code: qrCode,
-                created_at: new Date().toISOString()
-            })
-            .select()
-            .single();
+        if (!available) {
+            return res.status(409).json({
+                success: false,
+                error: 'La mesa ya está ocupada para ese horario. Por favor selecciona otro momento.',
+                alternatives: await ReservationBookingService.suggestAlternatives(original.restaurant_id, date, time, original.guest_count),
+            });
+        }
+
+        // 4. El depósito de la reservación original no se reutiliza: si aplica, se paga de nuevo
+        let deposit: VerifiedDeposit | null = null;
+        if (paymentIntentId) {
+            const verification = await ReservationBookingService.verifyDeposit(String(paymentIntentId), {
+                userId: req.user!.id,
+                restaurantId: original.restaurant_id,
+            });
+            if (!verification.valid) {
+                return res.status(402).json({ success: false, error: verification.error });
+            }
+            deposit = verification.deposit!;
+        }
 
-        if (createError) throw createError;
+        const depositViolation = getDepositViolation(policy.deposit, deposit?.amount || 0);
+        const awaitingDeposit = depositViolation?.code === 'DEPOSIT_REQUIRED';
+        if (depositViolation && !awaitingDeposit) {
+            return sendPolicyViolations(res, [depositViolation], policy.deposit);
+        }
+        // Sin pago, la mesa queda apartada hasta que se pague el anticipo
+        const depositHold = awaitingDeposit ? await DepositService.getHold(original.restaurant_id, policy.deposit.amount) : null;
+
+        // 5. Crear nueva reservación con parámetros clonados
+        const result = await ReservationBookingService.createAtomic({
+            restaurantId: original.restaurant_id,
+            userId: req.user!.id,
+            tableId: original.table_id,
+            linkedTableIds,
+            date,
+            time,
+            endTime,
+            bufferMinutes,
+            guestCount: original.guest_count,
+            occasion: original.occasion,
+            specialRequest: original.special_request,
+            status: deposit ? 'confirmed' : 'pending',
+            qrCode: generateQRCode(),
+            deposit,
+            depositHold,
+            dietary: { restrictions: original.dietary_restrictions || [], allergies: original.allergies || [] },
+        });
+
+        if (result.duplicatePayment) {
+            return res.status(409).json({ success: false, error: 'Este pago ya fue usado en otra reservación' });
+        }
+
+        if (result.conflict) {
+            if (deposit) {
+                await ReservationBookingService.refundDeposit(deposit.paymentIntentId);
+            }
+
+            return res.status(409).json({
+                success: false,
+                error: 'La mesa acaba de ser reservada. Por favor selecciona otro momento.',
+                alternatives: await ReservationBookingService.suggestAlternatives(original.restaurant_id, date, time, original.guest_count),
+            });
+        }
+
+        const newReservation = result.reservation;
+        await ReservationLifecycleService.recordCreation(newReservation, {
+            actor: { type: 'guest', id: req.user!.id },
+            source: 'reservations.repeat',
+            metadata: { repeatedFrom: original.id, depositPaid: Boolean(deposit), awaitingDeposit },
+        });
 
         res.status(201).json({
             success: true,
             data: newReservation,
-            message: 'Reservación repetida con éxito'
+            message: awaitingDeposit
+                ? 'Reservación apartada: paga el anticipo para confirmarla'
+                : 'Reservación repetida con éxito'
         });
     } catch (error) {
         console.error('Repeat reservation error:', error);
@@ -356,11 +606,10 @@ router.patch('/:id/status', authMiddleware, async (req: Request, res: Response)
         const { id } = req.params;
         const { status } = req.body;
 
-        const validStatuses = ['pending', 'confirmed', 'arrived', 'completed', 'cancelled', 'no_show'];
-        if (!status || !validStatuses.includes(status)) {
+        if (!status || !RESERVATION_STATUSES.includes(status)) {
             res.status(400).json({
                 success: false,
-                error: `Invalid status. Must be one of: ${validStatuses.join(', ')}`,
+                error: `Invalid status. Must be one of: ${RESERVATION_STATUSES.join(', ')}`,
             });
             return;
         }
@@ -368,7 +617,7 @@ router.patch('/:id/status', authMiddleware, async (req: Request, res: Response)
         // Get the reservation first using admin client to bypass RLS
         const { data: reservation, error: fetchError } = await supabaseAdmin
             .from('reservations')
-            .select('*, tables(id)')
+            .select('*, restaurants(settings)')
             .eq('id', id)
             .single();
 
@@ -380,64 +629,77 @@ router.patch('/:id/status', authMiddleware, async (req: Request, res: Response)
             return;
         }
 
-        // IMPORTANT: Security Validation for Admin Context
-        const userRestaurantId = (req as any).user?.restaurantId;
-        if (req.user!.role === 'restaurant_admin' && reservation.restaurant_id !== userRestaurantId) {
+        // Only the restaurant's team moves a reservation through service; its guest can only cancel it
+        const isStaff = await isRestaurantStaff(req.user!, reservation.restaurant_id);
+        if (!isStaff && reservation.user_id !== req.user!.id) {
             res.status(403).json({
                 success: false,
-                error: 'You do not have permission to modify this reservation (wrong restaurant context)',
+                error: 'You do not have permission to modify this reservation',
             });
             return;
         }
-
-        // Update reservation status with admin privileges to ensure RLS doesn't block
-        const { data: updatedReservation, error } = await supabaseAdmin
-            .from('reservations')
-            .update({
-                status,
-                updated_at: new Date().toISOString()
-            })
-            .eq('id', id)
-            .select()
-            .single();
-
-        if (error) {
-            console.error('Error updating reservation status:', error);
-            res.status(500).json({
+        if (!isStaff && status !== 'cancelled') {
+            res.status(403).json({
                 success: false,
-                error: 'Error updating reservation status',
+                error: 'Guests can only cancel their reservation',
             });
             return;
         }
 
-        // Update table status based on reservation status
-        let tableStatus: string | null = null;
-        switch (status) {
-            case 'confirmed':
-                // When reservation is confirmed, mark table as occupied/reserved
-                tableStatus = 'occupied';
-                break;
-            case 'arrived':
-                tableStatus = 'occupied';
-                break;
-            case 'completed':
-            case 'cancelled':
-            case 'no_show':
-                // Free the table when reservation ends or is cancelled
-                tableStatus = 'available';
-                break;
+        // A no-show also keeps its penalty from the deposit, same as PATCH /:id/no-show
+        if (status === 'no_show') {
+            if (!canTransition(reservation.status, 'no_show')) {
+                res.status(400).json({
+                    success: false,
+                    error: `Cannot mark a ${reservation.status} reservation as no-show`,
+                });
+                return;
+            }
+
+            const { reservation: updated } = await NoShowService.markNoShow(reservation, reservation.restaurants?.settings || {}, {
+                source: 'staff',
+                userId: req.user!.id,
+                ipAddress: req.ip,
+                userAgent: req.get('user-agent'),
+            });
+            if (!updated) {
+                res.status(409).json({
+                    success: false,
+                    error: 'Reservation status changed, reload and try again',
+                });
+                return;
+            }
+
+            res.json({
+                success: true,
+                data: updated,
+                message: `Reservation ${status}`,
+            });
+            return;
         }
 
-        if (tableStatus) {
-            await supabaseAdmin
-                .from('tables')
-                .update({ status: tableStatus })
-                .eq('id', reservation.table_id);
+        // Validates the transition, stamps its timestamp and updates the tables;
+        // cancellations also settle the deposit with the cancellation policy
+        const options: CancellationOptions = {
+            actor: { type: isStaff ? 'staff' : 'guest', id: req.user!.id },
+            source: 'reservations.status',
+            reason: req.body.reason,
+        };
+        const result = status === 'cancelled'
+            ? await CancellationPolicyService.cancel(id, options)
+            : await ReservationLifecycleService.transition(id, status, options);
+
+        if (result.error) {
+            res.status(TRANSITION_ERROR_HTTP_STATUS[result.error]).json({
+                success: false,
+                error: result.message,
+            });
+            return;
         }
 
         res.json({
             success: true,
-            data: updatedReservation,
+            data: result.reservation,
             message: `Reservation ${status}`,
         });
     } catch (error) {
@@ -449,6 +711,53 @@ router.patch('/:id/status', authMiddleware, async (req: Request, res: Response)
     }
 });
 
+/**
+ * GET /api/reservations/:id/cancellation-quote
+ * What cancelling now would refund under the restaurant's cancellation policy
+ */
+router.get('/:id/cancellation-quote', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const { data: reservation, error } = await supabaseAdmin
+            .from('reservations')
+            .select('id, user_id, restaurant_id, date, time, status, deposit_paid, deposit_status, deposit_amount, restaurants (settings)')
+            .eq('id', req.params.id)
+            .single();
+
+        if (error || !reservation) {
+            res.status(404).json({
+                success: false,
+                error: 'Reservation not found',
+            });
+            return;
+        }
+
+        const isOwner = reservation.user_id === req.user!.id;
+        const isRestaurantAdmin = req.user!.role === 'restaurant_admin' && reservation.restaurant_id === (req as any).user?.restaurantId;
+        if (!isOwner && !isRestaurantAdmin && req.user!.role !== 'super_admin') {
+            res.status(403).json({
+                success: false,
+                error: 'You do not have access to this reservation',
+            });
+            return;
+        }
+
+        const settings = (reservation.restaurants as any)?.settings || {};
+        res.json({
+            success: true,
+            data: {
+                ...CancellationPolicyService.quote(reservation, isOwner ? 'guest' : 'restaurant'),
+                policy: getCancellationPolicy(settings),
+            },
+        });
+    } catch (error) {
+        console.error('Cancellation quote error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Internal server error',
+        });
+    }
+});
+
 /**
  * POST /api/reservations/:id/cancel
  * Cancel a reservation
@@ -497,63 +806,41 @@ router.post('/:id/cancel',
                 return;
             }
 
-            // Check if reservation can be cancelled
-            if (['completed', 'cancelled', 'no_show'].includes(reservation.status)) {
-                res.status(400).json({
+            // Cancel the reservation; the lifecycle frees the tables and emails the guest, and the
+            // restaurant's cancellation policy decides how much of the deposit is refunded
+            const result = await CancellationPolicyService.cancel(id, {
+                actor: { type: reservation.user_id === req.user!.id ? 'guest' : 'staff', id: req.user!.id },
+                source: 'reservations.cancel',
+                reason: reason || undefined,
+            });
+
+            if (result.error) {
+                res.status(TRANSITION_ERROR_HTTP_STATUS[result.error]).json({
                     success: false,
-                    error: 'This reservation cannot be cancelled',
+                    error: result.error === 'INVALID_TRANSITION' ? 'This reservation cannot be cancelled' : result.message,
                 });
                 return;
             }
 
-            // Cancel the reservation
-            const { error } = await supabase
-                .from('reservations')
-                .update({
-                    status: 'cancelled',
-                    special_request: reservation.special_request
-                        ? `${reservation.special_request}\n\n[Cancelled: ${reason || 'No reason provided'}]`
-                        : `[Cancelled: ${reason || 'No reason provided'}]`,
-                    updated_at: new Date().toISOString(),
-                })
-                .eq('id', id);
-
-            if (error) {
-                console.error('Error cancelling reservation:', error);
-                res.status(500).json({
+            if (!result.changed) {
+                res.status(400).json({
                     success: false,
-                    error: 'Error cancelling reservation',
+                    error: 'This reservation cannot be cancelled',
                 });
                 return;
             }
 
-            // Free up the table
-            await supabase
-                .from('tables')
-                .update({ status: 'available' })
-                .eq('id', reservation.table_id);
-
-            // Send cancellation email
-            if (req.user?.email) {
-                await emailService.sendReservationCancellation(req.user.email, reservation);
-            }
-
-            // Process refund if deposit was paid
-            if (reservation.deposit_paid && reservation.payment_intent_id) {
-                try {
-                    await stripe.refunds.create({
-                        payment_intent: reservation.payment_intent_id,
-                    });
-                    console.log(`Refund processed for reservation ${id}`);
-                } catch (refundError) {
-                    console.error(`Error processing refund for reservation ${id}:`, refundError);
-                    // We don't fail the cancellation if refund fails, but should log it
-                }
-            }
-
             res.json({
                 success: true,
-                message: 'Reservation cancelled successfully',
+                data: {
+                    refundAmount: result.quote?.refundAmount ?? 0,
+                    feeAmount: result.quote?.feeAmount ?? 0,
+                    refundPercent: result.quote?.refundPercent ?? 0,
+                    refunded: result.refunded,
+                },
+                message: result.refunded === false
+                    ? 'Reservation cancelled; the refund could not be processed and the restaurant will follow up'
+                    : 'Reservation cancelled successfully',
             });
         } catch (error) {
             console.error('Cancel reservation error:', error);
@@ -616,30 +903,19 @@ router.post('/:id/arrive', authMiddleware, async (req: Request, res: Response) =
             }
         }
 
-        const { data: updatedReservation, error } = await supabaseAdmin
-            .from('reservations')
-            .update({
-                status: 'arrived',
-                updated_at: new Date().toISOString(),
-            })
-            .eq('id', id)
-            .select('*, tables(id)')
-            .single();
+        const result = await ReservationLifecycleService.transition(id, 'arrived', {
+            actor: { type: 'staff', id: req.user!.id },
+            source: 'reservations.arrive',
+        });
 
-        if (error) {
-            console.error('Error marking arrival:', error);
-            res.status(500).json({
+        if (result.error) {
+            res.status(TRANSITION_ERROR_HTTP_STATUS[result.error]).json({
                 success: false,
-                error: 'Error marking arrival',
+                error: result.message,
             });
             return;
         }
-
-        // Update table status
-        await supabaseAdmin
-            .from('tables')
-            .update({ status: 'occupied' })
-            .eq('id', updatedReservation.table_id);
+        const updatedReservation = result.reservation;
 
         res.json({
             success: true,
@@ -682,10 +958,10 @@ async function completeReservationHandler(req: Request, res: Response) {
     try {
         const { id } = req.params;
 
-        // Get the reservation first to get table_id and restaurant name
+        // Get the reservation first to check the restaurant
         const { data: reservation, error: fetchError } = await supabaseAdmin
             .from('reservations')
-            .select('*, tables(id), restaurants(name)')
+            .select('restaurant_id')
             .eq('id', id)
             .single();
 
@@ -723,49 +999,20 @@ async function completeReservationHandler(req: Request, res: Response) {
             }
         }
 
-        // Update reservation status to completed
-        const { data: updatedReservation, error } = await supabaseAdmin
-            .from('reservations')
-            .update({
-                status: 'completed',
-                updated_at: new Date().toISOString(),
-            })
-            .eq('id', id)
-            .select()
-            .single();
+        // Frees the table and asks the guest for a review
+        const result = await ReservationLifecycleService.transition(id, 'completed', {
+            actor: { type: 'staff', id: req.user!.id },
+            source: 'reservations.complete',
+        });
 
-        if (error) {
-            console.error('Error completing reservation:', error);
-            res.status(500).json({
+        if (result.error) {
+            res.status(TRANSITION_ERROR_HTTP_STATUS[result.error]).json({
                 success: false,
-                error: 'Error completing reservation',
+                error: result.message,
             });
             return;
         }
-
-        // Free the table
-        if (reservation.table_id) {
-            await supabaseAdmin
-                .from('tables')
-                .update({ status: 'available' })
-                .eq('id', reservation.table_id);
-        }
-
-        // PHASE 3 TRIGGER: Automated Review Request
-        try {
-            const { NotificationService } = await import('../services/notifications.js');
-            const restaurantName = (reservation.restaurants as any)?.name || 'el restaurante';
-
-            await NotificationService.requestReview(
-                reservation.user_id,
-                reservation.id,
-                restaurantName
-            );
-            console.log(`[PHASE 3] Review request queued for user ${reservation.user_id}`);
-        } catch (triggerError) {
-            console.error('[PHASE 3] Failed to trigger review request:', triggerError);
-            // Don't fail the response if the notification fails
-        }
+        const updatedReservation = result.reservation;
 
         res.json({
             success: true,
@@ -791,7 +1038,7 @@ async function noShowReservationHandler(req: Request, res: Response) {
         // Get the reservation first to get table_id
         const { data: reservation, error: fetchError } = await supabaseAdmin
             .from('reservations')
-            .select('*, tables(id)')
+            .select('*, restaurants(settings)')
             .eq('id', id)
             .single();
 
@@ -829,18 +1076,25 @@ async function noShowReservationHandler(req: Request, res: Response) {
             }
         }
 
-        // Update reservation status to no_show
-        const { data: updatedReservation, error } = await supabaseAdmin
-            .from('reservations')
-            .update({
-                status: 'no_show',
-                updated_at: new Date().toISOString(),
-            })
-            .eq('id', id)
-            .select()
-            .single();
+        if (!canTransition(reservation.status, 'no_show')) {
+            res.status(400).json({
+                success: false,
+                error: `Cannot mark a ${reservation.status} reservation as no-show`,
+            });
+            return;
+        }
 
-        if (error) {
+        // Free the tables, keep the no-show penalty from the deposit and audit it
+        let updatedReservation;
+        try {
+            const result = await NoShowService.markNoShow(reservation, reservation.restaurants?.settings || {}, {
+                source: 'staff',
+                userId: req.user!.id,
+                ipAddress: req.ip,
+                userAgent: req.get('user-agent'),
+            });
+            updatedReservation = result.reservation;
+        } catch (error) {
             console.error('Error marking no-show:', error);
             res.status(500).json({
                 success: false,
@@ -849,12 +1103,12 @@ async function noShowReservationHandler(req: Request, res: Response) {
             return;
         }
 
-        // Free the table
-        if (reservation.table_id) {
-            await supabaseAdmin
-                .from('tables')
-                .update({ status: 'available' })
-                .eq('id', reservation.table_id);
+        if (!updatedReservation) {
+            res.status(409).json({
+                success: false,
+                error: 'Reservation status changed, reload and try again',
+            });
+            return;
         }
 
         res.json({
@@ -994,33 +1248,18 @@ router.post('/verify-qr', authMiddleware, async (req: Request, res: Response) =>
         // AUTO-ARRIVE: If requested and reservation is in a valid pre-arrival state
         let autoArrived = false;
         if (autoArrive && ['pending', 'confirmed'].includes(reservation.status)) {
-            const { data: arrivedReservation, error: arriveError } = await supabaseAdmin
-                .from('reservations')
-                .update({
-                    status: 'arrived',
-                    updated_at: new Date().toISOString(),
-                })
-                .eq('id', reservation.id)
-                .select(`
-                    *,
-                    users (id, name, email, phone, avatar_url),
-                    tables (id, number, name)
-                `)
-                .single();
+            const result = await ReservationLifecycleService.transition(reservation.id, 'arrived', {
+                actor: { type: 'staff', id: req.user!.id },
+                source: 'reservations.verify_qr',
+            });
 
-            if (!arriveError && arrivedReservation) {
-                // Update table to occupied
-                if (reservation.table_id) {
-                    await supabaseAdmin
-                        .from('tables')
-                        .update({ status: 'occupied' })
-                        .eq('id', reservation.table_id);
-                }
-                reservation = arrivedReservation;
+            if (result.changed) {
+                // Keep the guest and table details of the lookup
+                reservation = { ...result.reservation, users: reservation.users, tables: reservation.tables };
                 autoArrived = true;
                 console.log(`[VERIFY QR] Auto-arrived reservation ${reservation.id}`);
             } else {
-                console.error('[VERIFY QR] Auto-arrive failed:', arriveError);
+                console.error('[VERIFY QR] Auto-arrive failed:', result.message);
                 // Continue without auto-arrive — non-blocking
             }
         } else if (autoArrive && reservation.status === 'arrived') {
@@ -1083,74 +1322,68 @@ router.patch('/:id',
             const finalDate = date || reservation.date;
             const finalTime = time || reservation.time;
 
-            // Check if the new date is a holiday
-            if (date) {
-                const { data: restaurant } = await supabaseAdmin
-                    .from('restaurants')
-                    .select('holidays')
-                    .eq('id', reservation.restaurant_id)
-                    .single();
-
-                const holidays = restaurant?.holidays || [];
-                const isHoliday = holidays.some((h: any) => h.date === finalDate && h.closed);
-
-                if (isHoliday) {
-                    return res.status(400).json({
-                        success: false,
-                        error: 'The restaurant is closed on the selected holiday date'
-                    });
-                }
+            // Apply the booking policies (holidays, opening hours, notice, party size) to the new values
+            const policy = await BookingPolicyService.evaluate(reservation.restaurant_id, {
+                date: finalDate,
+                time: finalTime,
+                guestCount: finalGuestCount,
+            });
+
+            if (policy && policy.violations.length > 0) {
+                return sendPolicyViolations(res, policy.violations, policy.deposit);
             }
 
-            if (guestCount) {
-                const { data: table } = await supabase
-                    .from('tables')
-                    .select('capacity')
-                    .eq('id', reservation.table_id)
-                    .single();
-
-                if (table && finalGuestCount > table.capacity) {
-                    return res.status(400).json({
-                        success: false,
-                        error: `The current table only has a capacity of ${table.capacity} guests`
-                    });
-                }
+            // Moving into a peak slot requires the deposit already paid to cover it
+            const depositViolation = policy && getDepositViolation(
+                policy.deposit,
+                reservation.deposit_paid ? Number(reservation.deposit_amount) || 0 : 0
+            );
+            if (depositViolation) {
+                return sendPolicyViolations(res, [depositViolation], policy!.deposit);
             }
 
-            // Check availability for the new slot if date or time changed
-            if (date || time) {
-                const { data: conflict } = await supabase
-                    .from('reservations')
-                    .select('id')
-                    .eq('table_id', reservation.table_id)
-                    .eq('date', finalDate)
-                    .eq('time', finalTime)
-                    .neq('id', id) // Exclude current reservation
-                    .not('status', 'in', '("cancelled","no_show")')
-                    .single();
-
-                if (conflict) {
-                    return res.status(409).json({
-                        success: false,
-                        error: 'The table is already reserved at the new selected time'
-                    });
-                }
+            // A combined reservation holds its linked tables too: check the capacity and availability of all of them
+            const tableIds = [reservation.table_id, ...(reservation.linked_table_ids || [])].filter(Boolean);
+            const { available, capacity, endTime, bufferMinutes } = await TableAssignmentService.checkSeating(
+                reservation.restaurant_id,
+                tableIds,
+                finalDate,
+                finalTime,
+                finalGuestCount,
+                id // Exclude current reservation
+            );
+
+            if (guestCount && capacity !== null && finalGuestCount > capacity) {
+                return res.status(400).json({
+                    success: false,
+                    error: `The current table only has a capacity of ${capacity} guests`
+                });
             }
 
-            // Perform update
-            const { data: updatedReservation, error: updateError } = await supabaseAdmin
-                .from('reservations')
-                .update({
-                    date: finalDate,
-                    time: finalTime,
-                    guest_count: finalGuestCount,
-                    updated_at: new Date().toISOString()
-                })
-                .eq('id', id)
-                .select()
-                .single();
+            if (!available) {
+                return res.status(409).json({
+                    success: false,
+                    error: 'The table is already reserved at the new selected time'
+                });
+            }
+
+            // Perform the update with the same locks and overlap check as a new booking
+            const { reservation: updatedReservation, conflict } = await ReservationBookingService.rescheduleAtomic({
+                reservationId: id,
+                date: finalDate,
+                time: finalTime,
+                endTime,
+                bufferMinutes,
+                guestCount: finalGuestCount,
+            });
 
-            if (updateError) throw updateError;
+            // Another booking took one of the tables after our check
+            if (conflict) {
+                return res.status(409).json({
+                    success: false,
+                    error: 'The table is already reserved at the new selected time'
+                });
+            }
 
             res.json({
                 success: true,
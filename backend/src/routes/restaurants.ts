@@ -1,6 +1,21 @@
 import { Router, Request, Response } from 'express';
 import { supabase, supabaseAdmin } from '../config/supabase.js';
 import { optionalAuthMiddleware, authMiddleware } from '../middleware/auth.js';
+import { AvailabilityService, minutesToTime } from '../services/availability.js';
+import { TableAssignmentService } from '../services/tableAssignment.js';
+import { getDepositRequirement } from '../services/bookingPolicy.js';
+import { getCancellationPolicy } from '../services/cancellationPolicy.js';
+import { buildMenuTree } from '../services/menuCatalog.js';
+import { applyDietaryFilter, parseMenuDietaryFilter } from '../services/dietary.js';
+import { MENU_ITEM_MODIFIERS, sortMenuItemModifiers } from '../services/menuModifiers.js';
+import { MenuPricingService, applyMenuPricing, getCategoryParents } from '../services/menuPricing.js';
+import { addDays, daysBetween, generateDaySchedule, getLocalNow } from '../services/schedule.js';
+
+// Restaurant columns the slot generator needs
+const SCHEDULE_FIELDS = 'settings, opening_hours, holidays, open_time, close_time';
+const MAX_AVAILABILITY_RANGE_DAYS = 62;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
 
 const router = Router();
 
@@ -188,6 +203,39 @@ router.get('/:id', async (req: Request, res: Response) => {
     }
 });
 
+/**
+ * GET /api/restaurants/:id/cancellation-policy
+ * Cancellation policy shown to guests before they book. `policy: null` means
+ * the deposit is always refunded in full when the guest cancels.
+ */
+router.get('/:id/cancellation-policy', async (req: Request, res: Response) => {
+    try {
+        const { data: restaurant, error } = await supabaseAdmin
+            .from('restaurants')
+            .select('settings')
+            .eq('id', req.params.id)
+            .single();
+
+        if (error || !restaurant) {
+            res.status(404).json({ success: false, error: 'Restaurant not found' });
+            return;
+        }
+
+        const settings = restaurant.settings || {};
+        res.json({
+            success: true,
+            data: {
+                policy: getCancellationPolicy(settings),
+                // Fixed amount kept on a no-show when the policy sets no percentage
+                noShowPenalty: settings.noShowPenalty ?? null,
+            },
+        });
+    } catch (error) {
+        console.error('Get cancellation policy error:', error);
+        res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+});
+
 /**
  * GET /api/restaurants/:id/tables
  * Get all tables for a restaurant
@@ -241,46 +289,28 @@ router.get('/:id/tables/available', async (req: Request, res: Response) => {
         }
 
         const guestCount = parseInt(guests as string);
-
-        // Get all tables for this restaurant that can fit the guests
-        const { data: tables, error: tablesError } = await supabaseAdmin
-            .from('tables')
-            .select('*')
-            .eq('restaurant_id', id)
-            .gte('capacity', guestCount)
-            .eq('is_active', true);
-
-        if (tablesError) {
-            console.error('Error fetching tables:', tablesError);
-            res.status(500).json({ success: false, error: 'Error checking table availability' });
-            return;
-        }
-
-        // Get reservations for the selected date and time
         const reservationDate = date as string;
         const reservationTime = time as string;
 
-        const { data: reservations, error: reservationsError } = await supabaseAdmin
-            .from('reservations')
-            .select('table_id, status')
-            .eq('restaurant_id', id)
-            .eq('date', reservationDate)
-            .eq('time', reservationTime)
-            .not('status', 'in', '("cancelled", "no_show")');
+        const snapshot = await AvailabilityService.loadSnapshot(id, reservationDate);
 
-        if (reservationsError) {
-            console.error('Error fetching reservations:', reservationsError);
-            res.status(500).json({ success: false, error: 'Error checking availability' });
-            return;
-        }
+        // A table is available only if it is free for the whole turn (plus buffer) and fits the party
+        const availableTables = TableAssignmentService
+            .getSingleCandidates(snapshot, reservationDate, reservationTime, guestCount)
+            .map(candidate => candidate.tables[0]);
+
+        // Large parties may only fit on combined tables
+        const combinations = TableAssignmentService
+            .getCombinationCandidates(snapshot, reservationDate, reservationTime, guestCount)
+            .map(({ combinationId, tableId, linkedTableIds, capacity }) => ({ combinationId, tableId, linkedTableIds, capacity }));
 
-        // Filter out tables that are already reserved
-        const reservedTableIds = reservations?.map((r: any) => r.table_id) || [];
-        const availableTables = tables.filter((table: any) => !reservedTableIds.includes(table.id));
+        const best = TableAssignmentService.findBestAssignment(snapshot, reservationDate, reservationTime, guestCount);
 
         res.json({
             success: true,
             data: availableTables,
+            combinations,
+            suggestedTableId: best?.tableId || null,
         });
     } catch (error) {
         console.error('Get available tables error:', error);
@@ -293,66 +323,58 @@ router.get('/:id/tables/available', async (req: Request, res: Response) => {
 
 /**
  * GET /api/restaurants/:id/timeslots
- * Get available time slots for a specific date
+ * Get available time slots for a specific date, generated from the restaurant schedule
  */
 router.get('/:id/timeslots', async (req: Request, res: Response) => {
     try {
         const { id } = req.params;
-        const { date, guests } = req.query;
+        const { date, guests = '1' } = req.query;
 
-        if (!date || !guests) {
+        if (!date) {
             res.status(400).json({
                 success: false,
-                error: 'Date and guests are required',
+                error: 'Date is required',
             });
             return;
         }
 
-        // Standard time slots (in a real app, these would come from restaurant settings)
-        const allTimeSlots = [
-            '13:00', '13:30', '14:00', '14:30', '15:00', '15:30', '16:00',
-            '19:00', '19:30', '20:00', '20:30', '21:00', '21:30', '22:00'
-        ];
-
-        // Filter based on restaurant opening hours (this is a simplified version)
-        // In a real app, you'd check opening_hours and holidays here
-
-        // For each time slot, check if ANY table is available
-        const guestCount = parseInt(guests as string);
-
-        // Get all tables for this restaurant that can fit the guests
-        const { data: tables } = await supabaseAdmin
-            .from('tables')
-            .select('id')
-            .eq('restaurant_id', id)
-            .gte('capacity', guestCount)
-            .eq('is_active', true);
+        const { data: restaurant, error: restaurantError } = await supabaseAdmin
+            .from('restaurants')
+            .select(SCHEDULE_FIELDS)
+            .eq('id', id)
+            .single();
 
-        if (!tables || tables.length === 0) {
-            res.json({ success: true, data: [] });
+        if (restaurantError || !restaurant) {
+            res.status(404).json({ success: false, error: 'Restaurant not found' });
             return;
         }
 
-        const tableIds = tables.map((t: any) => t.id);
-
-        // Get all reservations for this date
-        const { data: reservations } = await supabaseAdmin
-            .from('reservations')
-            .select('time, table_id')
-            .eq('restaurant_id', id)
-            .eq('date', date as string)
-            .not('status', 'in', '("cancelled", "no_show")');
-
-        const availableSlots = allTimeSlots.filter(slot => {
-            const reservationsAtSlot = reservations?.filter((r: any) => r.time === slot) || [];
-            const reservedTableIds = reservationsAtSlot.map((r: any) => r.table_id);
-            // If there's at least one table not in reservedTableIds
-            return tableIds.some(id => !reservedTableIds.includes(id));
+        const settings = restaurant.settings || {};
+        const daySchedule = generateDaySchedule(restaurant, date as string);
+
+        // For each generated slot, check if ANY table (or combination) is free for the whole seating
+        const guestCount = parseInt(guests as string) || 1;
+        const snapshot = await AvailabilityService.loadSnapshot(id, date as string);
+        // Registration stores depositHours: 24 (a number); only a list names peak slots
+        const depositHours: string[] = Array.isArray(settings.depositHours) ? settings.depositHours : [];
+
+        const slots = daySchedule.slots.map(slot => {
+            const deposit = getDepositRequirement(settings, date as string, slot);
+            return {
+                time: slot,
+                available: TableAssignmentService.canSeat(snapshot, date as string, slot, guestCount),
+                isPeak: depositHours.includes(slot),
+                requiresDeposit: deposit.required,
+                depositAmount: deposit.required ? deposit.amount : undefined,
+            };
         });
 
         res.json({
             success: true,
-            data: availableSlots,
+            data: slots.filter(s => s.available).map(s => s.time),
+            slots,
+            isClosed: daySchedule.isClosed,
+            reason: daySchedule.reason,
         });
     } catch (error) {
         console.error('Get timeslots error:', error);
@@ -380,10 +402,18 @@ router.get('/:id/availability', async (req: Request, res: Response) => {
             return;
         }
 
-        // Get restaurant settings and holidays
+        if (daysBetween(startDate as string, endDate as string) > MAX_AVAILABILITY_RANGE_DAYS) {
+            res.status(400).json({
+                success: false,
+                error: `Date range cannot exceed ${MAX_AVAILABILITY_RANGE_DAYS} days`,
+            });
+            return;
+        }
+
+        // Get restaurant settings, opening hours and holidays
         const { data: restaurant, error: restaurantError } = await supabaseAdmin
             .from('restaurants')
-            .select('settings, opening_hours, holidays')
+            .select(SCHEDULE_FIELDS)
             .eq('id', id)
             .single();
 
@@ -393,62 +423,33 @@ router.get('/:id/availability', async (req: Request, res: Response) => {
         }
 
         const settings = restaurant.settings || {};
-        const openingHours = restaurant.opening_hours || {};
-        const holidays = restaurant.holidays || [];
-
-        // Simplified availability logic: for each day, check if it's a holiday or closed
-        const start = new Date(startDate as string);
-        const end = new Date(endDate as string);
-        const availability = [];
-
         const guestCount = parseInt(guests as string);
-        const { data: tables } = await supabaseAdmin
-            .from('tables')
-            .select('id')
-            .eq('restaurant_id', id)
-            .gte('capacity', guestCount)
-            .eq('is_active', true);
-
-        const tableIds = tables?.map((t: any) => t.id) || [];
-
-        // Time slots to check
-        const timeSlots = ['13:00', '14:00', '15:00', '19:00', '20:00', '21:00'];
-        const depositHours = settings.depositHours || ['19:00', '19:30', '20:00', '20:30', '21:00'];
-
-        // Get existing reservations for this date to check availability
-        const { data: reservations } = await supabaseAdmin
-            .from('reservations')
-            .select('date, time, table_id')
-            .eq('restaurant_id', id)
-            .gte('date', startDate as string)
-            .lte('date', endDate as string)
-            .not('status', 'in', '("cancelled", "no_show")');
+        const availability = [];
 
-        for (let d = new Date(start); d <= end; d.setDate(d.getDate() + 1)) {
-            const dateStr = d.toISOString().split('T')[0];
-            const dayName = d.toLocaleDateString('en-US', { weekday: 'long' }).toLowerCase();
+        // Load tables and existing reservations for the whole range at once
+        const snapshot = await AvailabilityService.loadSnapshot(id, startDate as string, endDate as string);
+        const now = getLocalNow(settings.timezone);
 
-            const holiday = holidays.find((h: any) => h.date === dateStr);
-            const isClosed = holiday?.closed || openingHours[dayName]?.closed;
+        for (let dateStr = startDate as string; dateStr <= (endDate as string); dateStr = addDays(dateStr, 1)) {
+            const daySchedule = generateDaySchedule(restaurant, dateStr, now);
 
-            if (isClosed) {
+            if (daySchedule.isClosed) {
                 availability.push({
                     date: dateStr,
                     isClosed: true,
+                    reason: daySchedule.reason,
                     timeSlots: []
                 });
                 continue;
             }
 
-            const slots = timeSlots.map(slot => {
-                const reservationsAtSlot = reservations?.filter((r: any) => r.date === dateStr && r.time === slot) || [];
-                const reservedTableIds = reservationsAtSlot.map((r: any) => r.table_id);
-                const isAvailable = tableIds.some(id => !reservedTableIds.includes(id));
+            const slots = daySchedule.slots.map(slot => {
+                const isAvailable = TableAssignmentService.canSeat(snapshot, dateStr, slot, guestCount);
 
                 return {
                     time: slot,
                     available: isAvailable,
-                    requiresDeposit: depositHours.includes(slot) && settings.depositRequired
+                    requiresDeposit: getDepositRequirement(settings, dateStr, slot).required
                 };
             });
 
@@ -475,10 +476,33 @@ router.get('/:id/availability', async (req: Request, res: Response) => {
 /**
  * GET /api/restaurants/:id/menu
  * Get restaurant menu (Flat list and Structured for Mobile)
+ * Items carry effective_price for ?date=YYYY-MM-DD&time=HH:MM (default: now, in the restaurant's timezone),
+ * and their variants and modifier_groups (with options).
+ * Dietary filters: vegan, vegetarian, glutenFree (=true), excludeAllergens=nuts,shellfish and
+ * maxSpiceLevel=0-5 hide the items that do not suit; with dietaryMode=flag they are kept and carry
+ * dietary_conflicts instead
  */
 router.get('/:id/menu', async (req: Request, res: Response) => {
     try {
         const { id } = req.params;
+        const { date, time } = req.query;
+
+        if ((date && !DATE_PATTERN.test(String(date))) || (time && !TIME_PATTERN.test(String(time)))) {
+            res.status(400).json({
+                success: false,
+                error: 'date must be YYYY-MM-DD and time HH:MM',
+            });
+            return;
+        }
+
+        const { filter: dietaryFilter, error: dietaryError } = parseMenuDietaryFilter(req.query);
+        if (dietaryError) {
+            res.status(400).json({
+                success: false,
+                error: dietaryError,
+            });
+            return;
+        }
 
         // 1. Fetch categories for this restaurant
         const { data: categories, error: catError } = await supabaseAdmin
@@ -487,21 +511,14 @@ router.get('/:id/menu', async (req: Request, res: Response) => {
             .eq('restaurant_id', id)
             .order('sort_order', { ascending: true });
 
-        // 2. Fetch menu items with optional dietary filters
-        const { vegan, vegetarian, glutenFree } = req.query;
-        let itemQuery = supabaseAdmin
+        // 2. Fetch menu items (dietary filters are applied below, flag mode keeps every item)
+        const { data: rawItems, error: itemError } = await supabaseAdmin
             .from('menu_items')
-            .select('*')
+            .select(`*, ${MENU_ITEM_MODIFIERS}`)
             .eq('restaurant_id', id)
             .eq('is_available', true)
             .order('sort_order', { ascending: true });
 
-        if (vegan === 'true') itemQuery = itemQuery.eq('is_vegan', true);
-        if (vegetarian === 'true') itemQuery = itemQuery.eq('is_vegetarian', true);
-        if (glutenFree === 'true') itemQuery = itemQuery.eq('is_gluten_free', true);
-
-        const { data: menuItems, error: itemError } = await itemQuery;
-
         if (catError || itemError) {
             console.error('Error fetching menu:', catError || itemError);
             res.status(500).json({
@@ -512,56 +529,38 @@ router.get('/:id/menu', async (req: Request, res: Response) => {
             return;
         }
 
-        // Group items by category logic
-        let structuredMenu = [];
-
-        if (categories && categories.length > 0) {
-            // Priority: Group by defined categories
-            structuredMenu = categories.map(cat => ({
-                ...cat,
-                items: menuItems?.filter(item =>
-                    item.category === cat.name || item.subcategory === cat.name
-                ) || []
-            }));
-
-            // Add items that didn't match any category
-            const categorizedIds = new Set(structuredMenu.flatMap(c => c.items.map((i: any) => i.id)));
-            const others = menuItems?.filter(i => !categorizedIds.has(i.id)) || [];
-            if (others.length > 0) {
-                structuredMenu.push({
-                    id: 'others',
-                    name: 'Otros',
-                    items: others,
-                    sort_order: 99,
-                    restaurant_id: id,
-                    is_active: true,
-                    created_at: new Date().toISOString()
-                } as any);
-            }
-        } else if (menuItems && menuItems.length > 0) {
-            // Fallback: Group by category string field in menu_items
-            const groups: Record<string, any[]> = {};
-            menuItems.forEach(item => {
-                const catName = item.category || 'Sin Categoría';
-                if (!groups[catName]) groups[catName] = [];
-                groups[catName].push(item);
-            });
+        // 3. Time-bound prices (happy hour) for the requested time
+        const { data: restaurant } = await supabaseAdmin
+            .from('restaurants')
+            .select('settings')
+            .eq('id', id)
+            .maybeSingle();
 
-            structuredMenu = Object.keys(groups).map(catName => ({
-                id: catName,
-                name: catName,
-                items: groups[catName],
-                sort_order: 0,
-                is_active: true,
-                restaurant_id: id,
-                created_at: new Date().toISOString()
-            }));
-        }
+        const now = getLocalNow(restaurant?.settings?.timezone);
+        const pricedAt = {
+            date: (date as string) || now.date,
+            time: (time as string) || minutesToTime(now.minutes),
+        };
+        const pricingRules = await MenuPricingService.listRules(id, true);
+        const menuItems = applyDietaryFilter(
+            applyMenuPricing(
+                (rawItems || []).map(sortMenuItemModifiers),
+                pricingRules,
+                pricedAt.date,
+                pricedAt.time,
+                getCategoryParents(categories || [])
+            ),
+            dietaryFilter ?? null
+        );
+
+        // Group items by category_id, with nested subcategories
+        const structuredMenu = buildMenuTree(categories || [], menuItems);
 
         res.json({
             success: true,
             data: menuItems, // Compatibilidad
-            structuredMenu: structuredMenu // Fase 4
+            structuredMenu: structuredMenu, // Fase 4
+            pricedAt
         });
     } catch (error) {
         console.error('Get menu error:', error);
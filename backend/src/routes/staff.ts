@@ -4,6 +4,8 @@ import { authMiddleware, staffMiddleware, staffRestaurantMiddleware } from '../m
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import { env } from '../config/env.js';
+import { GuestReliabilityService } from '../services/guestReliability.js';
+import { ReservationLifecycleService, TRANSITION_ERROR_HTTP_STATUS } from '../services/reservationLifecycle.js';
 
 const router = Router();
 
@@ -167,7 +169,7 @@ router.get('/reservations/today', authMiddleware, staffRestaurantMiddleware('res
 
         res.json({
             success: true,
-            data: reservations,
+            data: await GuestReliabilityService.attachToReservations(restaurantId, reservations || []),
         });
     } catch (error) {
         console.error('Staff reservations error:', error);
@@ -219,33 +221,21 @@ router.patch('/reservations/:id/arrive', authMiddleware, async (req: Request, re
             }
         }
 
-        // Update reservation status
-        const { data: reservation, error } = await supabaseAdmin
-            .from('reservations')
-            .update({
-                status: 'arrived',
-                arrived_at: new Date().toISOString(),
-            })
-            .eq('id', id)
-            .select()
-            .single();
+        // Update reservation status; the lifecycle marks the tables as occupied
+        const result = await ReservationLifecycleService.transition(id, 'arrived', {
+            actor: { type: 'staff', id: req.user!.id },
+            source: 'staff.arrive',
+        });
 
-        if (error) {
-            console.error('Error updating reservation:', error);
-            res.status(500).json({
+        if (result.error) {
+            return res.status(TRANSITION_ERROR_HTTP_STATUS[result.error]).json({
                 success: false,
-                error: 'Error updating reservation',
+                error: result.error === 'INVALID_TRANSITION'
+                    ? 'No se puede registrar la llegada de esta reserva'
+                    : 'La reserva cambió de estado, recarga e intenta de nuevo',
             });
-            return;
-        }
-
-        // Update table status to occupied
-        if (reservation.table_id) {
-            await supabaseAdmin
-                .from('tables')
-                .update({ status: 'occupied' })
-                .eq('id', reservation.table_id);
         }
+        const reservation = result.reservation;
 
         res.json({
             success: true,
@@ -319,16 +309,17 @@ router.patch('/tables/:id/status', authMiddleware, async (req: Request, res: Res
                 const today = new Date().toISOString().split('T')[0];
                 console.log(`[STAFF_ACTION] Searching active res for table ${id} on or before ${today}`);
 
-                // Find active reservation for this table
+                // Find the seated party of this table (guests who never checked in are not completed)
                 const { data: activeRes, error: findError } = await supabaseAdmin
                     .from('reservations')
                     .select('id, user_id, status, date')
                     .eq('table_id', id)
-                    .in('status', ['pending', 'confirmed', 'arrived', 'seated'])
+                    .in('status', ['arrived', 'seated'])
                     .lte('date', today) // Solo hoy o pasadas
                     // Ordenar por fecha y hora más reciente para tomar la última
                     .order('date', { ascending: false })
                     .order('time', { ascending: false })
+                    .limit(1)
                     .maybeSingle();
 
                 if (findError) {
@@ -338,34 +329,13 @@ router.patch('/tables/:id/status', authMiddleware, async (req: Request, res: Res
                 }
 
                 if (activeRes) {
-                    // Mark reservation as completed
-                    await supabaseAdmin
-                        .from('reservations')
-                        .update({
-                            status: 'completed',
-                            completed_at: new Date().toISOString(),
-                            updated_at: new Date().toISOString()
-                        })
-                        .eq('id', activeRes.id);
-
-                    // Trigger Automated Review Request (Mobile signal)
-                    try {
-                        const { NotificationService } = await import('../services/notifications.js');
-                        // tableData.restaurants is an object { name: string } or array because of the join
-                        const restaurantData = (tableData as any).restaurants;
-                        const restaurantName = Array.isArray(restaurantData)
-                            ? restaurantData[0]?.name
-                            : restaurantData?.name || 'el restaurante';
-
-                        await NotificationService.requestReview(
-                            activeRes.user_id,
-                            activeRes.id,
-                            restaurantName
-                        );
-                        console.log(`[STAFF_ACTION] Completed reservation ${activeRes.id} and triggered review request`);
-                    } catch (notificationError) {
-                        console.error('[STAFF_ACTION] Failed to trigger review request:', notificationError);
-                    }
+                    // Completes the reservation and asks the guest for a review
+                    const result = await ReservationLifecycleService.transition(activeRes.id, 'completed', {
+                        actor: { type: 'staff', id: req.user!.id },
+                        source: 'staff.table_free',
+                        metadata: { tableId: id },
+                    });
+                    console.log(`[STAFF_ACTION] Completed reservation ${activeRes.id}:`, result.error || 'ok');
                 }
             } catch (syncError) {
                 console.error('[STAFF_ACTION] Error syncing table free action with reservation:', syncError);
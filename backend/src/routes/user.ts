@@ -1,6 +1,8 @@
 import { Router, Request, Response } from 'express';
 import { supabaseAdmin } from '../config/supabase.js';
 import { authMiddleware } from '../middleware/auth.js';
+import { LoyaltyService, getPointsToNextLevel } from '../services/loyalty.js';
+import { DietaryProfileService, parseDietaryProfile } from '../services/dietary.js';
 
 const router = Router();
 
@@ -12,39 +14,10 @@ router.get('/growth-perks', authMiddleware, async (req: Request, res: Response)
     try {
         const userId = req.user!.id;
 
-        // 1. Obtener historial de reservaciones
-        const { data: reservations, error: resError } = await supabaseAdmin
-            .from('reservations')
-            .select('id, status, restaurant_id')
-            .eq('user_id', userId);
+        // 1. Puntos y segmento de lealtad (visitas completadas y reseñas)
+        const profile = await LoyaltyService.getProfile(userId);
 
-        if (resError) throw resError;
-
-        // 2. Obtener historial de reseñas
-        const { data: reviews, error: revError } = await supabaseAdmin
-            .from('reviews')
-            .select('id, photos, rating')
-            .eq('user_id', userId);
-
-        if (revError) throw revError;
-
-        const completedCount = reservations?.filter(r => r.status === 'completed').length || 0;
-        const reviewCount = reviews?.length || 0;
-
-        // CÁLCULO DE PUNTOS DINÁMICO
-        // 10 pts por visita + 5 pts por reseña + 2 pts extra si tiene fotos
-        const pointsFromVisits = completedCount * 10;
-        const pointsFromReviews = reviewCount * 5;
-        const pointsFromPhotos = (reviews?.filter(r => r.photos && r.photos.length > 0).length || 0) * 2;
-        const totalPoints = pointsFromVisits + pointsFromReviews + pointsFromPhotos;
-
-        // 3. Segmentación Mejorada
-        let segment = 'Nuevo Foodie';
-        if (totalPoints >= 100) segment = 'Platinum VIP';
-        else if (totalPoints >= 50) segment = 'Gourmet Pro';
-        else if (totalPoints >= 10) segment = 'Foodie Activo';
-
-        // 4. Obtener cupones disponibles (Ofertas activas generales)
+        // 2. Obtener cupones disponibles (Ofertas activas generales)
         const { data: availableOffers } = await supabaseAdmin
             .from('offers')
             .select('id, title, promo_code')
@@ -55,16 +28,16 @@ router.get('/growth-perks', authMiddleware, async (req: Request, res: Response)
             success: true,
             data: {
                 stats: {
-                    totalReservations: reservations?.length || 0,
-                    completedVisits: completedCount,
-                    totalReviews: reviewCount,
-                    loyaltyPoints: totalPoints,
+                    totalReservations: profile.totalReservations,
+                    completedVisits: profile.completedVisits,
+                    totalReviews: profile.totalReviews,
+                    loyaltyPoints: profile.loyaltyPoints,
                 },
-                segment,
+                segment: profile.segment,
                 perks: {
-                    canRepeatLast: completedCount > 0,
+                    canRepeatLast: profile.completedVisits > 0,
                     exclusiveOffersCount: availableOffers?.length || 0,
-                    pointsToNextLevel: totalPoints >= 100 ? 0 : (totalPoints >= 50 ? 100 - totalPoints : 50 - totalPoints)
+                    pointsToNextLevel: getPointsToNextLevel(profile.loyaltyPoints)
                 }
             }
         });
@@ -75,4 +48,39 @@ router.get('/growth-perks', authMiddleware, async (req: Request, res: Response)
     }
 });
 
+/**
+ * GET /api/user/dietary-profile
+ * Restricciones alimentarias, alergias y nivel de picante máximo del usuario
+ */
+router.get('/dietary-profile', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const profile = await DietaryProfileService.get(req.user!.id);
+        res.json({ success: true, data: profile });
+    } catch (error) {
+        console.error('Get dietary profile error:', error);
+        res.status(500).json({ success: false, error: 'Error al obtener el perfil alimentario' });
+    }
+});
+
+/**
+ * PUT /api/user/dietary-profile
+ * Body: { restrictions: ('vegetarian' | 'vegan' | 'gluten_free')[], allergies: string[], maxSpiceLevel: 0-5 | null }
+ * Se copia a cada nueva reservación para que el restaurante lo vea
+ */
+router.put('/dietary-profile', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const { profile, error } = parseDietaryProfile(req.body || {});
+        if (error) {
+            res.status(400).json({ success: false, error });
+            return;
+        }
+
+        const saved = await DietaryProfileService.update(req.user!.id, profile!);
+        res.json({ success: true, data: saved, message: 'Perfil alimentario actualizado' });
+    } catch (error) {
+        console.error('Update dietary profile error:', error);
+        res.status(500).json({ success: false, error: 'Error al actualizar el perfil alimentario' });
+    }
+});
+
 export default router;
@@ -1,54 +1,122 @@
 import { Router, Request, Response } from 'express';
+import rateLimit from 'express-rate-limit';
 import { sendVerificationCode } from '../services/email.js';
+import { sendPhoneVerificationCode } from '../services/sms.js';
+import { PhoneVerificationService, normalizePhone } from '../services/phoneVerification.js';
 import { supabaseAdmin } from '../config/supabase.js';
 
 const router = Router();
 
+// Minimum time between two SMS codes to the same phone
+const PHONE_RESEND_COOLDOWN_MS = 60 * 1000;
+// SMS codes one IP can ask for per window, whatever the phone (the kiosk page is public)
+const SMS_WINDOW_MS = 60 * 60 * 1000;
+const SMS_MAX_PER_IP = 5;
+
+const smsLimiter = rateLimit({
+    windowMs: SMS_WINDOW_MS,
+    max: SMS_MAX_PER_IP,
+    message: {
+        success: false,
+        error: 'Demasiadas solicitudes de código por SMS. Intenta más tarde.',
+    },
+    standardHeaders: true,
+    legacyHeaders: false,
+    // Email codes keep the global /api limit
+    skip: (req) => !req.body?.phone,
+});
+
+interface VerificationTarget {
+    column: 'email' | 'phone';
+    value: string;
+}
+
+/**
+ * Codes are sent by email or, when a phone is given, by SMS
+ */
+function getTarget(body: any): VerificationTarget | null {
+    if (body.phone) {
+        const phone = normalizePhone(body.phone);
+        return phone ? { column: 'phone', value: phone } : null;
+    }
+    return body.email ? { column: 'email', value: String(body.email).toLowerCase() } : null;
+}
+
+/**
+ * Generate a 6-digit code valid for 10 minutes, store it and send it
+ * @returns retryAfter (seconds) when a phone asks again too soon
+ */
+async function issueCode(target: VerificationTarget): Promise<{ success: boolean; error?: any; retryAfter?: number }> {
+    if (target.column === 'phone') {
+        const { data: previous } = await supabaseAdmin
+            .from('verification_codes')
+            .select('created_at')
+            .eq('phone', target.value)
+            .maybeSingle();
+
+        const elapsed = previous ? Date.now() - Date.parse(previous.created_at) : Infinity;
+        if (elapsed < PHONE_RESEND_COOLDOWN_MS) {
+            return { success: false, retryAfter: Math.ceil((PHONE_RESEND_COOLDOWN_MS - elapsed) / 1000) };
+        }
+    }
+
+    const code = Math.floor(100000 + Math.random() * 900000).toString();
+    const expiresAt = new Date(Date.now() + 10 * 60 * 1000).toISOString();
+
+    // Store code in DB with 10-minute expiration
+    const { error: dbError } = await supabaseAdmin
+        .from('verification_codes')
+        .upsert({
+            [target.column]: target.value,
+            code,
+            expires_at: expiresAt,
+            attempts: 0,
+            created_at: new Date().toISOString()
+        }, { onConflict: target.column });
+
+    if (dbError) throw dbError;
+
+    return target.column === 'phone'
+        ? sendPhoneVerificationCode({ to: target.value, code })
+        : sendVerificationCode({ to: target.value, code });
+}
+
 /**
  * POST /api/verification/send-code
- * Send a verification code to the provided email
+ * Send a verification code to the provided email, or by SMS to the provided phone
  */
-router.post('/send-code', async (req: Request, res: Response) => {
+router.post('/send-code', smsLimiter, async (req: Request, res: Response) => {
     try {
-        const { email } = req.body;
+        const target = getTarget(req.body);
 
-        if (!email) {
+        if (!target) {
             return res.status(400).json({
                 success: false,
-                error: 'Email is required'
+                error: req.body.phone ? 'Número de teléfono no válido' : 'Email is required'
             });
         }
 
-        // Generate 6-digit code
-        const code = Math.floor(100000 + Math.random() * 900000).toString();
-        const expiresAt = new Date(Date.now() + 10 * 60 * 1000).toISOString();
-
-        // Store code in DB with 10-minute expiration
-        const { error: dbError } = await supabaseAdmin
-            .from('verification_codes')
-            .upsert({
-                email: email.toLowerCase(),
-                code,
-                expires_at: expiresAt,
-                attempts: 0
-            }, { onConflict: 'email' }); // Assuming email is unique or we handle cleanup
-
-        if (dbError) throw dbError;
-
-        console.log(`📧 Verification code for ${email}: ${code}`);
+        const result = await issueCode(target);
 
-        // Send real email
-        const result = await sendVerificationCode({ to: email, code });
+        if (result.retryAfter) {
+            return res.status(429).json({
+                success: false,
+                error: `Espera ${result.retryAfter} segundos antes de pedir otro código`,
+                retryAfter: result.retryAfter
+            });
+        }
 
         if (result.success) {
             res.json({
                 success: true,
-                message: 'Código de verificación enviado a tu correo'
+                message: target.column === 'phone'
+                    ? 'Código de verificación enviado por SMS'
+                    : 'Código de verificación enviado a tu correo'
             });
         } else {
             res.status(500).json({
                 success: false,
-                error: `No se pudo enviar el correo: ${result.error?.message || 'Error desconocido'}`
+                error: `No se pudo enviar el código: ${result.error?.message || result.error || 'Error desconocido'}`
             });
         }
 
@@ -63,16 +131,18 @@ router.post('/send-code', async (req: Request, res: Response) => {
 
 /**
  * POST /api/verification/verify-code
- * Verify the code entered by the user
+ * Verify the code entered by the user. For phones, the response carries a
+ * verificationToken that public endpoints (e.g. waitlist join) accept as proof.
  */
 router.post('/verify-code', async (req: Request, res: Response) => {
     try {
-        const { email, code } = req.body;
+        const target = getTarget(req.body);
+        const { code } = req.body;
 
-        if (!email || !code) {
+        if (!target || !code) {
             return res.status(400).json({
                 success: false,
-                error: 'Email y código son requeridos'
+                error: req.body.phone ? 'Teléfono y código son requeridos' : 'Email y código son requeridos'
             });
         }
 
@@ -80,7 +150,7 @@ router.post('/verify-code', async (req: Request, res: Response) => {
         const { data: stored, error } = await supabaseAdmin
             .from('verification_codes')
             .select('*')
-            .eq('email', email.toLowerCase())
+            .eq(target.column, target.value)
             .single();
 
         if (error || !stored) {
@@ -92,7 +162,7 @@ router.post('/verify-code', async (req: Request, res: Response) => {
 
         // Check if expired
         if (new Date(stored.expires_at) < new Date()) {
-            await supabaseAdmin.from('verification_codes').delete().eq('email', email.toLowerCase());
+            await supabaseAdmin.from('verification_codes').delete().eq(target.column, target.value);
             return res.status(400).json({
                 success: false,
                 error: 'El código ha expirado. Solicita uno nuevo.'
@@ -101,7 +171,7 @@ router.post('/verify-code', async (req: Request, res: Response) => {
 
         // Check attempts (max 5)
         if (stored.attempts >= 5) {
-            await supabaseAdmin.from('verification_codes').delete().eq('email', email.toLowerCase());
+            await supabaseAdmin.from('verification_codes').delete().eq(target.column, target.value);
             return res.status(400).json({
                 success: false,
                 error: 'Demasiados intentos. Solicita un nuevo código.'
@@ -113,7 +183,7 @@ router.post('/verify-code', async (req: Request, res: Response) => {
             await supabaseAdmin
                 .from('verification_codes')
                 .update({ attempts: stored.attempts + 1 })
-                .eq('email', email.toLowerCase());
+                .eq(target.column, target.value);
 
             return res.status(400).json({
                 success: false,
@@ -123,12 +193,21 @@ router.post('/verify-code', async (req: Request, res: Response) => {
         }
 
         // Success - delete the code and update user if exists
-        await supabaseAdmin.from('verification_codes').delete().eq('email', email.toLowerCase());
+        await supabaseAdmin.from('verification_codes').delete().eq(target.column, target.value);
+
+        if (target.column === 'phone') {
+            return res.json({
+                success: true,
+                verified: true,
+                verificationToken: PhoneVerificationService.issueToken(target.value),
+                message: 'Teléfono verificado correctamente'
+            });
+        }
 
         await supabaseAdmin
             .from('users')
             .update({ is_verified: true })
-            .eq('email', email.toLowerCase());
+            .eq('email', target.value);
 
         res.json({
             success: true,
@@ -149,36 +228,32 @@ router.post('/verify-code', async (req: Request, res: Response) => {
  * POST /api/verification/resend-code
  * Resend verification code
  */
-router.post('/resend-code', async (req: Request, res: Response) => {
-    // Re-use logic from send-code via a redirect or just duplicate for simplicity in this flow
-    // or better yet, refactor send-code logic into a helper function (outside scope of quick fix but recommended)
+router.post('/resend-code', smsLimiter, async (req: Request, res: Response) => {
     try {
-        const { email } = req.body;
+        const target = getTarget(req.body);
 
-        if (!email) {
+        if (!target) {
             return res.status(400).json({
                 success: false,
-                error: 'Email is required'
+                error: req.body.phone ? 'Número de teléfono no válido' : 'Email is required'
             });
         }
 
-        const code = Math.floor(100000 + Math.random() * 900000).toString();
-        const expiresAt = new Date(Date.now() + 10 * 60 * 1000).toISOString();
+        const result = await issueCode(target);
 
-        await supabaseAdmin
-            .from('verification_codes')
-            .upsert({
-                email: email.toLowerCase(),
-                code,
-                expires_at: expiresAt,
-                attempts: 0
-            }, { onConflict: 'email' });
-
-        const result = await sendVerificationCode({ to: email, code });
+        if (result.retryAfter) {
+            return res.status(429).json({
+                success: false,
+                error: `Espera ${result.retryAfter} segundos antes de pedir otro código`,
+                retryAfter: result.retryAfter
+            });
+        }
 
         res.json({
             success: true,
-            message: result.success ? 'Nuevo código enviado a tu correo' : 'Código generado (Error al enviar email)',
+            message: result.success
+                ? (target.column === 'phone' ? 'Nuevo código enviado por SMS' : 'Nuevo código enviado a tu correo')
+                : 'Código generado (Error al enviar el código)',
             error: result.error
         });
 
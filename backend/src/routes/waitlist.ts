@@ -1,19 +1,82 @@
 import { Router, Request, Response } from 'express';
 import { supabase, supabaseAdmin } from '../config/supabase.js';
 import { authMiddleware, optionalAuthMiddleware, staffMiddleware, staffRestaurantMiddleware } from '../middleware/auth.js';
+import { WaitTimeService } from '../services/waitTime.js';
+import { WaitlistMatcherService } from '../services/waitlistMatcher.js';
+import { PhoneVerificationService, normalizePhone } from '../services/phoneVerification.js';
 
 const router = Router();
 
+/**
+ * The offer token is only for the link sent by email
+ */
+function withoutToken<T extends { action_token?: string | null }>(entry: T): Omit<T, 'action_token'> {
+    const { action_token: _token, ...rest } = entry;
+    return rest;
+}
+
+/**
+ * GET /api/waitlist/kiosk/:restaurantId
+ * What the door kiosk / QR page shows before joining (public endpoint)
+ */
+router.get('/kiosk/:restaurantId', async (req: Request, res: Response) => {
+    try {
+        const { data: restaurant } = await supabase
+            .from('restaurants')
+            .select('id, name, address, image_url, settings')
+            .eq('id', req.params.restaurantId)
+            .eq('is_active', true)
+            .maybeSingle();
+
+        if (!restaurant) {
+            res.status(404).json({
+                success: false,
+                error: 'Restaurant not found',
+            });
+            return;
+        }
+
+        const { count } = await supabase
+            .from('waitlist')
+            .select('*', { count: 'exact', head: true })
+            .eq('restaurant_id', restaurant.id)
+            .in('status', ['waiting', 'notified']);
+
+        const settings = restaurant.settings || {};
+        res.json({
+            success: true,
+            data: {
+                id: restaurant.id,
+                name: restaurant.name,
+                address: restaurant.address,
+                imageUrl: restaurant.image_url,
+                acceptingWalkIns: settings.allowWalkIns !== false,
+                maxPartySize: settings.maxPartySize || null,
+                partiesWaiting: count || 0,
+            },
+        });
+    } catch (error) {
+        console.error('Get waitlist kiosk error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Internal server error',
+        });
+    }
+});
+
 /**
  * POST /api/waitlist/join
  * Join the waitlist (public endpoint)
+ * Guests without an account must first verify their phone through
+ * /api/verification and send the verificationToken they got back.
  */
 router.post('/join', optionalAuthMiddleware, async (req: Request, res: Response) => {
     try {
-        const { restaurantId, name, phone, email, partySize, preferredZone, notes } = req.body;
+        const { restaurantId, name, email, partySize, preferredZone, notes, verificationToken } = req.body;
+        const phone = normalizePhone(req.body.phone);
 
         // Validation
-        if (!restaurantId || !name || !phone || !partySize) {
+        if (!restaurantId || !name || !req.body.phone || !partySize) {
             res.status(400).json({
                 success: false,
                 error: 'restaurantId, name, phone, and partySize are required',
@@ -21,10 +84,27 @@ router.post('/join', optionalAuthMiddleware, async (req: Request, res: Response)
             return;
         }
 
+        if (!phone) {
+            res.status(400).json({
+                success: false,
+                error: 'Invalid phone number',
+            });
+            return;
+        }
+
+        if (!req.user && !PhoneVerificationService.isVerified(verificationToken, phone)) {
+            res.status(403).json({
+                success: false,
+                error: 'Phone number must be verified before joining the waitlist',
+                code: 'PHONE_NOT_VERIFIED',
+            });
+            return;
+        }
+
         // Verify restaurant exists
         const { data: restaurant, error: rError } = await supabase
             .from('restaurants')
-            .select('id, name')
+            .select('id, name, settings')
             .eq('id', restaurantId)
             .single();
 
@@ -36,6 +116,22 @@ router.post('/join', optionalAuthMiddleware, async (req: Request, res: Response)
             return;
         }
 
+        if (restaurant.settings?.allowWalkIns === false) {
+            res.status(400).json({
+                success: false,
+                error: 'This restaurant is not taking walk-ins right now',
+            });
+            return;
+        }
+
+        if (restaurant.settings?.maxPartySize && Number(partySize) > restaurant.settings.maxPartySize) {
+            res.status(400).json({
+                success: false,
+                error: `Maximum party size is ${restaurant.settings.maxPartySize}`,
+            });
+            return;
+        }
+
         // Check if already in waitlist
         const { data: existing } = await supabase
             .from('waitlist')
@@ -62,6 +158,9 @@ router.post('/join', optionalAuthMiddleware, async (req: Request, res: Response)
 
         const position = (count || 0) + 1;
 
+        // Estimate from the live floor, the queue ahead and past seating times
+        const estimate = await WaitTimeService.estimateForNewParty(restaurantId, Number(partySize));
+
         // Create waitlist entry
         const { data: entry, error } = await supabaseAdmin
             .from('waitlist')
@@ -75,7 +174,7 @@ router.post('/join', optionalAuthMiddleware, async (req: Request, res: Response)
                 preferred_zone: preferredZone || null,
                 notes: notes || null,
                 position,
-                estimated_wait: position * 15, // 15 min per position estimate
+                estimated_wait: estimate.minutes,
             })
             .select()
             .single();
@@ -91,7 +190,7 @@ router.post('/join', optionalAuthMiddleware, async (req: Request, res: Response)
 
         res.status(201).json({
             success: true,
-            data: entry,
+            data: { ...entry, estimate },
             message: `Added to waitlist at position ${position}`,
         });
     } catch (error) {
@@ -131,7 +230,8 @@ router.get('/my', optionalAuthMiddleware, async (req: Request, res: Response) =>
         if (req.user) {
             query = query.eq('user_id', req.user.id);
         } else {
-            query = query.eq('phone', phone as string);
+            const normalized = normalizePhone(phone);
+            query = query.in('phone', normalized ? [phone as string, normalized] : [phone as string]);
         }
 
         const { data: entries, error } = await query;
@@ -147,7 +247,7 @@ router.get('/my', optionalAuthMiddleware, async (req: Request, res: Response) =>
 
         res.json({
             success: true,
-            data: entries || [],
+            data: (entries || []).map(withoutToken),
         });
     } catch (error) {
         console.error('Get waitlist entries error:', error);
@@ -158,6 +258,107 @@ router.get('/my', optionalAuthMiddleware, async (req: Request, res: Response) =>
     }
 });
 
+/**
+ * GET /api/waitlist/offers/:token
+ * Table-ready offer behind the link sent to the guest
+ */
+router.get('/offers/:token', async (req: Request, res: Response) => {
+    try {
+        const entry = await findOffer(req.params.token);
+
+        if (!entry) {
+            res.status(404).json({ success: false, error: 'Offer not found' });
+            return;
+        }
+
+        res.json({
+            success: true,
+            data: {
+                id: entry.id,
+                name: entry.name,
+                partySize: entry.party_size,
+                status: entry.status,
+                expiresAt: entry.offer_expires_at,
+                table: entry.tables ? { number: entry.tables.number, zone: entry.tables.zone } : null,
+                restaurant: entry.restaurants,
+            },
+        });
+    } catch (error) {
+        console.error('Get waitlist offer error:', error);
+        res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+});
+
+/**
+ * POST /api/waitlist/offers/:token/confirm
+ * Guest confirms they are coming to the offered table
+ */
+router.post('/offers/:token/confirm', async (req: Request, res: Response) => {
+    try {
+        const entry = await findOffer(req.params.token);
+
+        if (!entry) {
+            res.status(404).json({ success: false, error: 'Offer not found' });
+            return;
+        }
+        if (entry.status === 'confirmed') {
+            res.json({ success: true, message: 'Offer already confirmed' });
+            return;
+        }
+
+        const confirmed = await WaitlistMatcherService.confirmOffer(entry);
+        if (!confirmed) {
+            res.status(409).json({ success: false, error: 'This offer has expired or is no longer available' });
+            return;
+        }
+
+        res.json({ success: true, message: 'Table confirmed, please come to the host stand' });
+    } catch (error) {
+        console.error('Confirm waitlist offer error:', error);
+        res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+});
+
+/**
+ * POST /api/waitlist/offers/:token/decline
+ * Guest turns the table down and leaves the waitlist
+ */
+router.post('/offers/:token/decline', async (req: Request, res: Response) => {
+    try {
+        const entry = await findOffer(req.params.token);
+
+        if (!entry) {
+            res.status(404).json({ success: false, error: 'Offer not found' });
+            return;
+        }
+
+        const declined = await WaitlistMatcherService.declineOffer(entry);
+        if (!declined) {
+            res.status(409).json({ success: false, error: 'This offer is no longer available' });
+            return;
+        }
+
+        res.json({ success: true, message: 'You have left the waitlist' });
+    } catch (error) {
+        console.error('Decline waitlist offer error:', error);
+        res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+});
+
+async function findOffer(token: string): Promise<any | null> {
+    const { data } = await supabaseAdmin
+        .from('waitlist')
+        .select(`
+            *,
+            tables:offered_table_id (number, zone),
+            restaurants (id, name, phone, address)
+        `)
+        .eq('action_token', token)
+        .maybeSingle();
+
+    return data;
+}
+
 /**
  * GET /api/waitlist/:id/status
  * Get waitlist entry status
@@ -202,12 +403,18 @@ router.get('/:id/status', async (req: Request, res: Response) => {
 
         const currentPosition = (count || 0) + 1;
 
+        // Recomputed on every request, so it follows the tables as they turn
+        const estimate = ['waiting', 'notified'].includes(entry.status)
+            ? await WaitTimeService.estimateForEntry(entry.restaurant_id, entry.id)
+            : null;
+
         res.json({
             success: true,
             data: {
-                ...entry,
+                ...withoutToken(entry),
                 currentPosition,
-                estimatedWait: currentPosition * 15,
+                estimatedWait: estimate ? estimate.minutes : entry.estimated_wait,
+                estimate,
             },
         });
     } catch (error) {
@@ -253,7 +460,8 @@ router.delete('/:id', optionalAuthMiddleware, async (req: Request, res: Response
                 return;
             }
         } else if (phone) {
-            if (entry.phone !== phone) {
+            const normalized = normalizePhone(phone);
+            if (!normalized || normalizePhone(entry.phone) !== normalized) {
                 res.status(403).json({
                     success: false,
                     error: 'Phone number does not match',
@@ -271,7 +479,7 @@ router.delete('/:id', optionalAuthMiddleware, async (req: Request, res: Response
         // Update status to cancelled instead of deleting
         const { error } = await supabaseAdmin
             .from('waitlist')
-            .update({ status: 'cancelled' })
+            .update({ status: 'cancelled', offered_table_id: null, offer_expires_at: null })
             .eq('id', id);
 
         if (error) {
@@ -283,6 +491,11 @@ router.delete('/:id', optionalAuthMiddleware, async (req: Request, res: Response
             return;
         }
 
+        if (entry.offered_table_id) {
+            await WaitlistMatcherService.releaseHeldTable(entry.offered_table_id);
+            void WaitlistMatcherService.onTablesFreed(entry.restaurant_id);
+        }
+
         res.json({
             success: true,
             message: 'Successfully left waitlist',
@@ -318,7 +531,11 @@ router.get('/admin/list', authMiddleware, staffRestaurantMiddleware('restaurantI
 
         if (error) throw error;
 
-        res.json({ success: true, data: entries || [] });
+        const estimates = await WaitTimeService.estimateQueue(restaurantId);
+        res.json({
+            success: true,
+            data: (entries || []).map(entry => ({ ...entry, estimate: estimates.get(entry.id) || null })),
+        });
     } catch (error) {
         console.error('Admin waitlist error:', error);
         res.status(500).json({ success: false, error: 'Internal server error' });
@@ -338,7 +555,7 @@ router.patch('/admin/:id/status', authMiddleware, async (req: Request, res: Resp
         // Verify entry exists and check ownership before update
         const { data: currentEntry, error: fetchError } = await supabaseAdmin
             .from('waitlist')
-            .select('restaurant_id')
+            .select('*')
             .eq('id', id)
             .single();
 
@@ -374,16 +591,22 @@ router.patch('/admin/:id/status', authMiddleware, async (req: Request, res: Resp
             return;
         }
 
+        // Seating records the actual wait and takes care of the offered table
+        if (status === 'seated') {
+            const entry = await WaitlistMatcherService.seat(currentEntry, tableId);
+            res.json({ success: true, data: entry, message: 'Waitlist entry updated to seated' });
+            return;
+        }
+
         const updates: any = {
             status
         };
 
         if (status === 'notified') {
             updates.notified_at = new Date().toISOString();
-        } else if (status === 'seated') {
-            updates.seated_at = new Date().toISOString();
-            // Free position
-            updates.position = null;
+        } else if (status === 'cancelled' || status === 'no_show') {
+            updates.offered_table_id = null;
+            updates.offer_expires_at = null;
         }
 
         const { data: entry, error } = await supabaseAdmin
@@ -395,12 +618,9 @@ router.patch('/admin/:id/status', authMiddleware, async (req: Request, res: Resp
 
         if (error) throw error;
 
-        // If seated, update table status if provided
-        if (status === 'seated' && tableId) {
-            await supabaseAdmin
-                .from('tables')
-                .update({ status: 'occupied' })
-                .eq('id', tableId);
+        if (updates.offered_table_id === null && currentEntry.offered_table_id) {
+            await WaitlistMatcherService.releaseHeldTable(currentEntry.offered_table_id);
+            void WaitlistMatcherService.onTablesFreed(currentEntry.restaurant_id);
         }
 
         res.json({
@@ -0,0 +1,240 @@
+import { supabaseAdmin } from '../config/supabase.js';
+
+/**
+ * Sittara Availability Engine
+ * Models every reservation as a time interval (start → end of turn + buffer)
+ * so a table is blocked for the whole seating, not only at the exact booked time.
+ */
+
+// Statuses that no longer hold a table
+export const NON_BLOCKING_STATUSES = '("cancelled","no_show")';
+
+// Default turn time (minutes) by maximum party size
+const DEFAULT_TURN_TIMES: Record<string, number> = { '2': 90, '4': 105, '6': 120 };
+const DEFAULT_LARGE_PARTY_TURN_MINUTES = 150;
+const DEFAULT_BUFFER_MINUTES = 0;
+
+export interface AvailabilitySettings {
+    /** Turn time in minutes keyed by the maximum party size it applies to, e.g. { "2": 90, "4": 120 } */
+    turnTimes?: Record<string, number>;
+    /** Turn time for parties larger than any key in turnTimes */
+    defaultTurnMinutes?: number;
+    /** Cleanup time between two seatings on the same table */
+    bufferMinutes?: number;
+    [key: string]: any;
+}
+
+export interface ReservationInterval {
+    reservationId: string;
+    tableId: string | null;
+    date: string;
+    start: number;
+    end: number;
+}
+
+export interface AvailabilitySnapshot {
+    restaurantId: string;
+    settings: AvailabilitySettings;
+    tables: any[];
+    reservations: any[];
+    /** Combinable table groups from the floor plan (table_combinations) */
+    combinations?: any[];
+}
+
+/**
+ * Convert 'HH:mm' or 'HH:mm:ss' into minutes since midnight
+ */
+export function timeToMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + (minutes || 0);
+}
+
+/**
+ * Convert minutes since midnight into 'HH:mm' (wraps past midnight)
+ */
+export function minutesToTime(totalMinutes: number): string {
+    const normalized = ((totalMinutes % 1440) + 1440) % 1440;
+    const hours = Math.floor(normalized / 60);
+    const minutes = normalized % 60;
+    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+/**
+ * Expected turn time for a party, based on the restaurant's per-size table
+ */
+export function getTurnMinutes(settings: AvailabilitySettings, guestCount: number): number {
+    const turnTimes = settings.turnTimes && Object.keys(settings.turnTimes).length > 0
+        ? settings.turnTimes
+        : DEFAULT_TURN_TIMES;
+
+    const sizes = Object.keys(turnTimes)
+        .map(Number)
+        .filter(size => !isNaN(size))
+        .sort((a, b) => a - b);
+
+    const match = sizes.find(size => guestCount <= size);
+    if (match !== undefined) {
+        return Number(turnTimes[String(match)]);
+    }
+
+    return Number(settings.defaultTurnMinutes) || DEFAULT_LARGE_PARTY_TURN_MINUTES;
+}
+
+/**
+ * Minutes a table must stay empty between two seatings.
+ * reservationDuration is not a fallback: registration stores the dining time (120) there.
+ */
+export function getBufferMinutes(settings: AvailabilitySettings): number {
+    const buffer = settings.bufferMinutes;
+    return buffer !== undefined && buffer !== null && !isNaN(Number(buffer)) ? Number(buffer) : DEFAULT_BUFFER_MINUTES;
+}
+
+/**
+ * Build the occupied interval of a reservation.
+ * Uses end_time when present, otherwise the default turn time for its party size.
+ */
+export function toInterval(reservation: any, settings: AvailabilitySettings): ReservationInterval {
+    const start = timeToMinutes(reservation.time);
+    let end = reservation.end_time
+        ? timeToMinutes(reservation.end_time)
+        : start + getTurnMinutes(settings, Number(reservation.guest_count) || 1);
+
+    // end_time past midnight (e.g. 23:30 → 01:00)
+    if (end <= start) end += 1440;
+
+    return {
+        reservationId: reservation.id,
+        tableId: reservation.table_id,
+        date: reservation.date,
+        start,
+        end,
+    };
+}
+
+/**
+ * Two seatings collide when they overlap once the buffer is added after each of them
+ */
+export function intervalsOverlap(a: ReservationInterval, b: ReservationInterval, bufferMinutes: number): boolean {
+    return a.start < b.end + bufferMinutes && b.start < a.end + bufferMinutes;
+}
+
+/**
+ * AvailabilityService
+ * Shared by the public availability endpoints and reservation creation/modification.
+ */
+export class AvailabilityService {
+    /**
+     * Load everything needed to answer availability questions for a date range in one go
+     */
+    static async loadSnapshot(restaurantId: string, startDate: string, endDate: string = startDate): Promise<AvailabilitySnapshot> {
+        const { data: restaurant, error: restaurantError } = await supabaseAdmin
+            .from('restaurants')
+            .select('settings')
+            .eq('id', restaurantId)
+            .single();
+
+        if (restaurantError) throw restaurantError;
+
+        const { data: tables, error: tablesError } = await supabaseAdmin
+            .from('tables')
+            .select('*')
+            .eq('restaurant_id', restaurantId)
+            .eq('is_active', true);
+
+        if (tablesError) throw tablesError;
+
+        const { data: combinations, error: combinationsError } = await supabaseAdmin
+            .from('table_combinations')
+            .select('*')
+            .eq('restaurant_id', restaurantId)
+            .eq('is_active', true);
+
+        if (combinationsError) throw combinationsError;
+
+        const { data: reservations, error: reservationsError } = await supabaseAdmin
+            .from('reservations')
+            .select('id, table_id, linked_table_ids, date, time, end_time, guest_count, status')
+            .eq('restaurant_id', restaurantId)
+            .gte('date', startDate)
+            .lte('date', endDate)
+            .not('status', 'in', NON_BLOCKING_STATUSES);
+
+        if (reservationsError) throw reservationsError;
+
+        return {
+            restaurantId,
+            settings: restaurant?.settings || {},
+            tables: tables || [],
+            reservations: reservations || [],
+            combinations: combinations || [],
+        };
+    }
+
+    /**
+     * Interval a new booking would occupy
+     */
+    static buildRequestedInterval(snapshot: AvailabilitySnapshot, date: string, time: string, guestCount: number): ReservationInterval {
+        return toInterval({ id: 'requested', table_id: null, date, time, guest_count: guestCount }, snapshot.settings);
+    }
+
+    /**
+     * Check whether a table is free for the whole requested seating,
+     * whether it is booked on its own or as part of a combination
+     */
+    static isTableFree(
+        snapshot: AvailabilitySnapshot,
+        tableId: string,
+        date: string,
+        time: string,
+        guestCount: number,
+        excludeReservationId?: string
+    ): boolean {
+        const requested = this.buildRequestedInterval(snapshot, date, time, guestCount);
+        const buffer = getBufferMinutes(snapshot.settings);
+
+        return !snapshot.reservations.some(r =>
+            (r.table_id === tableId || (r.linked_table_ids || []).includes(tableId)) &&
+            r.date === date &&
+            r.id !== excludeReservationId &&
+            intervalsOverlap(requested, toInterval(r, snapshot.settings), buffer)
+        );
+    }
+
+    /**
+     * Tables that fit the party and are free for the whole requested seating
+     */
+    static getFreeTables(
+        snapshot: AvailabilitySnapshot,
+        date: string,
+        time: string,
+        guestCount: number,
+        excludeReservationId?: string
+    ): any[] {
+        return snapshot.tables.filter(table =>
+            table.capacity >= guestCount &&
+            this.isTableFree(snapshot, table.id, date, time, guestCount, excludeReservationId)
+        );
+    }
+
+    /**
+     * Convenience check for a single table, used when creating or modifying a reservation
+     */
+    static async checkTableAvailability(
+        restaurantId: string,
+        tableId: string,
+        date: string,
+        time: string,
+        guestCount: number,
+        excludeReservationId?: string
+    ): Promise<{ available: boolean; endTime: string; bufferMinutes: number }> {
+        const snapshot = await this.loadSnapshot(restaurantId, date);
+        const requested = this.buildRequestedInterval(snapshot, date, time, guestCount);
+
+        return {
+            // Reservations without an assigned table do not compete for a specific one
+            available: !tableId || this.isTableFree(snapshot, tableId, date, time, guestCount, excludeReservationId),
+            endTime: minutesToTime(requested.end),
+            bufferMinutes: getBufferMinutes(snapshot.settings),
+        };
+    }
+}
@@ -0,0 +1,229 @@
+import { supabaseAdmin } from '../config/supabase.js';
+import { timeToMinutes } from './availability.js';
+import { GuestReliabilityService, GuestStanding } from './guestReliability.js';
+import {
+    LocalNow,
+    ScheduleSource,
+    daysBetween,
+    generateDaySchedule,
+    getDayName,
+    getLocalNow,
+} from './schedule.js';
+
+/**
+ * Sittara Booking Policy
+ * Enforces the restaurant's settings (party size, advance notice, booking window,
+ * opening hours, deposits and guest restrictions) server-side, returning machine-readable violation codes.
+ */
+
+const SCHEDULE_FIELDS = 'settings, opening_hours, holidays, open_time, close_time';
+
+export type PolicyViolationCode =
+    | 'INVALID_PARTY_SIZE'
+    | 'PARTY_SIZE_EXCEEDED'
+    | 'DATE_IN_PAST'
+    | 'ADVANCE_NOTICE_REQUIRED'
+    | 'BEYOND_BOOKING_WINDOW'
+    | 'RESTAURANT_CLOSED'
+    | 'OUTSIDE_OPENING_HOURS'
+    | 'DEPOSIT_REQUIRED'
+    | 'DEPOSIT_INSUFFICIENT'
+    | 'GUEST_BLOCKED';
+
+export interface PolicyViolation {
+    code: PolicyViolationCode;
+    message: string;
+    details?: Record<string, any>;
+}
+
+export interface DepositRequirement {
+    required: boolean;
+    /** Amount in MXN */
+    amount: number;
+    /** Set when the deposit comes from the guest's reliability rather than the date/time */
+    reason?: 'guest_reliability';
+}
+
+export interface BookingRequest {
+    date: string;
+    time: string;
+    guestCount: number;
+    /** Guest making the booking; enables the restaurant's reliability rules and blocklist */
+    userId?: string;
+}
+
+export interface PolicyEvaluation {
+    violations: PolicyViolation[];
+    deposit: DepositRequirement;
+}
+
+/**
+ * Normalized limits; older restaurants store maxGuestsPerReservation/advanceBookingDays instead
+ */
+export function getPolicyLimits(settings: Record<string, any> = {}) {
+    return {
+        maxPartySize: Number(settings.maxPartySize ?? settings.maxGuestsPerReservation) || null,
+        minAdvanceHours: Number(settings.minAdvanceHours) || 0,
+        maxReservationDays: Number(settings.maxReservationDays ?? settings.advanceBookingDays) || null,
+    };
+}
+
+/**
+ * Deposit required for a date/time: depositRequired plus the configured peak days and hours.
+ * Empty (or legacy non-list) depositDays/depositHours mean "every day"/"every hour".
+ */
+export function getDepositRequirement(settings: Record<string, any> = {}, date: string, time: string): DepositRequirement {
+    const amount = Number(settings.depositAmount) || 0;
+    if (!settings.depositRequired || amount <= 0) {
+        return { required: false, amount: 0 };
+    }
+
+    const days: string[] = Array.isArray(settings.depositDays) ? settings.depositDays : [];
+    const hours: string[] = Array.isArray(settings.depositHours) ? settings.depositHours : [];
+
+    const isPeakDay = days.length === 0 || days.includes(getDayName(date));
+    const isPeakHour = hours.length === 0 || hours.includes(time.substring(0, 5));
+
+    return isPeakDay && isPeakHour ? { required: true, amount } : { required: false, amount: 0 };
+}
+
+/**
+ * Violation for an unpaid or underpaid deposit, if any
+ */
+export function getDepositViolation(deposit: DepositRequirement, paidAmount: number): PolicyViolation | null {
+    if (!deposit.required) return null;
+
+    if (paidAmount <= 0) {
+        return {
+            code: 'DEPOSIT_REQUIRED',
+            message: `A deposit of $${deposit.amount} MXN is required for this time`,
+            details: { amount: deposit.amount },
+        };
+    }
+
+    if (paidAmount < deposit.amount) {
+        return {
+            code: 'DEPOSIT_INSUFFICIENT',
+            message: `The deposit paid does not cover the required $${deposit.amount} MXN`,
+            details: { amount: deposit.amount, paid: paidAmount },
+        };
+    }
+
+    return null;
+}
+
+/**
+ * Evaluate every non-payment rule for a booking and compute its deposit
+ */
+export function evaluateBookingPolicy(source: ScheduleSource, request: BookingRequest, now?: LocalNow): PolicyEvaluation {
+    const settings = source.settings || {};
+    const limits = getPolicyLimits(settings);
+    const localNow = now || getLocalNow(settings.timezone);
+    const time = request.time.substring(0, 5);
+    const violations: PolicyViolation[] = [];
+
+    if (!Number.isInteger(request.guestCount) || request.guestCount < 1) {
+        violations.push({ code: 'INVALID_PARTY_SIZE', message: 'Guest count must be at least 1' });
+    } else if (limits.maxPartySize && request.guestCount > limits.maxPartySize) {
+        violations.push({
+            code: 'PARTY_SIZE_EXCEEDED',
+            message: `Reservations are limited to ${limits.maxPartySize} guests`,
+            details: { maxPartySize: limits.maxPartySize },
+        });
+    }
+
+    const daysAhead = daysBetween(localNow.date, request.date);
+    const minutesAhead = daysAhead * 1440 + timeToMinutes(time) - localNow.minutes;
+
+    if (minutesAhead < 0) {
+        violations.push({ code: 'DATE_IN_PAST', message: 'The selected date and time have already passed' });
+    } else if (minutesAhead < limits.minAdvanceHours * 60) {
+        violations.push({
+            code: 'ADVANCE_NOTICE_REQUIRED',
+            message: `Reservations must be made at least ${limits.minAdvanceHours} hours in advance`,
+            details: { minAdvanceHours: limits.minAdvanceHours },
+        });
+    }
+
+    if (limits.maxReservationDays && daysAhead > limits.maxReservationDays) {
+        violations.push({
+            code: 'BEYOND_BOOKING_WINDOW',
+            message: `Reservations can only be made up to ${limits.maxReservationDays} days in advance`,
+            details: { maxReservationDays: limits.maxReservationDays },
+        });
+    }
+
+    // Opening hours only: advance notice and booking window are reported above with their own codes
+    const daySchedule = generateDaySchedule(
+        { ...source, settings: { ...settings, minAdvanceHours: 0, maxReservationDays: undefined, advanceBookingDays: undefined } },
+        request.date,
+        { date: request.date, minutes: 0 }
+    );
+
+    if (daySchedule.isClosed) {
+        violations.push({
+            code: 'RESTAURANT_CLOSED',
+            message: daySchedule.holidayName
+                ? `The restaurant is closed on this date (${daySchedule.holidayName})`
+                : 'The restaurant is closed on this date',
+            details: { reason: daySchedule.reason, holidayName: daySchedule.holidayName },
+        });
+    } else if (!daySchedule.slots.includes(time)) {
+        violations.push({
+            code: 'OUTSIDE_OPENING_HOURS',
+            message: 'The selected time is not available for reservations',
+            details: { slots: daySchedule.slots },
+        });
+    }
+
+    return {
+        violations,
+        deposit: getDepositRequirement(settings, request.date, time),
+    };
+}
+
+/**
+ * Add the restaurant's guest rules to an evaluation: blocked guests cannot book and
+ * unreliable (or flagged) guests pay the regular deposit even outside peak times
+ */
+export function applyGuestStanding(
+    evaluation: PolicyEvaluation,
+    standing: GuestStanding,
+    settings: Record<string, any> = {}
+): PolicyEvaluation {
+    const violations = [...evaluation.violations];
+    let deposit = evaluation.deposit;
+
+    if (standing.blocked) {
+        violations.push({ code: 'GUEST_BLOCKED', message: 'You cannot make reservations at this restaurant' });
+    }
+
+    const amount = Number(settings.depositAmount) || 0;
+    if (standing.depositRequired && !deposit.required && amount > 0) {
+        deposit = { required: true, amount, reason: 'guest_reliability' };
+    }
+
+    return { violations, deposit };
+}
+
+export class BookingPolicyService {
+    /**
+     * Load the restaurant's schedule and settings and evaluate a booking against them
+     */
+    static async evaluate(restaurantId: string, request: BookingRequest): Promise<PolicyEvaluation | null> {
+        const { data: restaurant, error } = await supabaseAdmin
+            .from('restaurants')
+            .select(SCHEDULE_FIELDS)
+            .eq('id', restaurantId)
+            .single();
+
+        if (error || !restaurant) return null;
+
+        const evaluation = evaluateBookingPolicy(restaurant, request);
+        if (!request.userId) return evaluation;
+
+        const settings = restaurant.settings || {};
+        const standing = await GuestReliabilityService.getStanding(restaurantId, request.userId, settings);
+        return applyGuestStanding(evaluation, standing, settings);
+    }
+}
@@ -0,0 +1,230 @@
+import { supabaseAdmin } from '../config/supabase.js';
+import { Logger } from './observability.js';
+import { ReservationBookingService } from './reservationBooking.js';
+import { ReservationLifecycleService, TransitionActor, TransitionResult } from './reservationLifecycle.js';
+import { DEFAULT_TIMEZONE, zonedTimeToUtc } from './schedule.js';
+
+/**
+ * Sittara Cancellation Policy
+ * settings.cancellationPolicy decides how much of a paid deposit goes back to a guest who cancels,
+ * by hours left before the reservation (e.g. 100% with more than 24h, 50% from 2h, nothing after).
+ * The refund is issued against the reservation's own PaymentIntent and the outcome is stored on it.
+ * Restaurants without a policy refund the whole deposit, as before policies existed.
+ */
+
+const MAX_TIERS = 10;
+
+export interface CancellationTier {
+    /** The tier applies when at least this many hours are left before the reservation */
+    minHoursBefore: number;
+    refundPercent: number;
+}
+
+export interface CancellationPolicy {
+    /** Sorted from the earliest cancellation (most hours before) to the latest */
+    tiers: CancellationTier[];
+    /** Share of the deposit kept when the guest does not show up; falls back to settings.noShowPenalty */
+    noShowPenaltyPercent?: number | null;
+}
+
+export type CancellationInitiator = 'guest' | 'restaurant';
+export type CancellationRefundStatus = 'none' | 'pending' | 'succeeded' | 'failed';
+
+export interface CancellationQuote {
+    /** Hours left before the reservation starts (negative once it started) */
+    hoursBefore: number;
+    /** Paid deposit the policy applies to (MXN) */
+    depositAmount: number;
+    refundPercent: number;
+    refundAmount: number;
+    /** Amount the restaurant keeps (MXN) */
+    feeAmount: number;
+}
+
+export interface CancellationOptions {
+    actor: TransitionActor;
+    /** Entry point that asked for the cancellation, e.g. `reservations.cancel` */
+    source: string;
+    reason?: string;
+    /** Only act on reservations of this restaurant */
+    restaurantId?: string;
+    metadata?: Record<string, any>;
+}
+
+export interface CancellationResult extends TransitionResult {
+    quote?: CancellationQuote;
+    /** Whether Stripe accepted the refund; undefined when nothing had to be refunded */
+    refunded?: boolean;
+}
+
+interface PolicyReservation {
+    date: string;
+    time: string;
+    deposit_paid?: boolean;
+    deposit_status?: string | null;
+    deposit_amount?: number | string | null;
+}
+
+const isPercent = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 100;
+
+/**
+ * Validate a policy sent by an admin
+ * @returns the normalized policy, or an error message (in Spanish, shown in the dashboard)
+ */
+export function parseCancellationPolicy(input: any): { policy?: CancellationPolicy; error?: string } {
+    if (!input || !Array.isArray(input.tiers) || input.tiers.length === 0) {
+        return { error: 'La política de cancelación necesita al menos un tramo' };
+    }
+    if (input.tiers.length > MAX_TIERS) {
+        return { error: `La política de cancelación admite hasta ${MAX_TIERS} tramos` };
+    }
+
+    const tiers: CancellationTier[] = [];
+    for (const tier of input.tiers) {
+        const minHoursBefore = Number(tier?.minHoursBefore);
+        const refundPercent = Number(tier?.refundPercent);
+        if (!Number.isFinite(minHoursBefore) || minHoursBefore < 0 || !isPercent(refundPercent)) {
+            return { error: 'Cada tramo necesita horas de anticipación (0 o más) y un reembolso entre 0 y 100%' };
+        }
+        if (tiers.some((existing) => existing.minHoursBefore === minHoursBefore)) {
+            return { error: 'Dos tramos no pueden tener las mismas horas de anticipación' };
+        }
+        tiers.push({ minHoursBefore, refundPercent });
+    }
+
+    const noShow = input.noShowPenaltyPercent;
+    if (noShow !== undefined && noShow !== null && !isPercent(Number(noShow))) {
+        return { error: 'La penalización por no presentarse debe estar entre 0 y 100%' };
+    }
+
+    return {
+        policy: {
+            tiers: tiers.sort((a, b) => b.minHoursBefore - a.minHoursBefore),
+            noShowPenaltyPercent: noShow === undefined || noShow === null ? null : Number(noShow),
+        },
+    };
+}
+
+/**
+ * Policy configured by the restaurant, or null when it refunds everything
+ */
+export function getCancellationPolicy(settings: Record<string, any> = {}): CancellationPolicy | null {
+    return parseCancellationPolicy(settings.cancellationPolicy).policy || null;
+}
+
+/**
+ * Refund percent for a cancellation with hoursBefore left; cancelling later than every tier refunds nothing
+ */
+export function getRefundPercent(policy: CancellationPolicy | null, hoursBefore: number): number {
+    if (!policy) return 100;
+    const tier = policy.tiers.find((t) => hoursBefore >= t.minHoursBefore);
+    return tier ? tier.refundPercent : 0;
+}
+
+/**
+ * What cancelling now would refund. The restaurant cancelling always refunds the whole deposit.
+ */
+export function evaluateCancellation(
+    reservation: PolicyReservation,
+    settings: Record<string, any> = {},
+    initiator: CancellationInitiator,
+    now: Date = new Date()
+): CancellationQuote {
+    const timezone = settings.timezone || DEFAULT_TIMEZONE;
+    const startsAt = zonedTimeToUtc(reservation.date, reservation.time, timezone).getTime();
+    const hoursBefore = Math.round(((startsAt - now.getTime()) / 3600000) * 100) / 100;
+
+    // Deposits already refunded, disputed or never paid are out of the policy's reach
+    const isPaid = reservation.deposit_paid && (reservation.deposit_status ?? 'paid') === 'paid';
+    const depositAmount = isPaid ? Number(reservation.deposit_amount) || 0 : 0;
+
+    const refundPercent = initiator === 'restaurant' ? 100 : getRefundPercent(getCancellationPolicy(settings), hoursBefore);
+    // Amounts in MXN rounded to centavos
+    const refundAmount = Math.round(depositAmount * refundPercent) / 100;
+    const feeAmount = Math.round((depositAmount - refundAmount) * 100) / 100;
+
+    return { hoursBefore, depositAmount, refundPercent, refundAmount, feeAmount };
+}
+
+export class CancellationPolicyService {
+    /**
+     * Quote for a reservation as it is stored now
+     */
+    static quote(reservation: PolicyReservation & { restaurants?: any }, initiator: CancellationInitiator): CancellationQuote {
+        const settings = reservation.restaurants?.settings || {};
+        return evaluateCancellation(reservation, settings, initiator);
+    }
+
+    /**
+     * Cancel a reservation through the lifecycle, apply the restaurant's policy to its deposit
+     * and refund the guest's share on the stored PaymentIntent
+     */
+    static async cancel(reservationId: string, options: CancellationOptions): Promise<CancellationResult> {
+        const { data: reservation } = await supabaseAdmin
+            .from('reservations')
+            .select('id, restaurant_id, date, time, status, deposit_paid, deposit_status, deposit_amount, payment_intent_id, restaurants (settings)')
+            .eq('id', reservationId)
+            .maybeSingle();
+
+        if (!reservation || (options.restaurantId && reservation.restaurant_id !== options.restaurantId)) {
+            return { reservation: null, changed: false, error: 'NOT_FOUND', message: 'Reservation not found' };
+        }
+
+        const quote = this.quote(reservation, options.actor.type === 'guest' ? 'guest' : 'restaurant');
+        const mustRefund = quote.refundAmount > 0 && !!reservation.payment_intent_id;
+
+        const result = await ReservationLifecycleService.transition(reservationId, 'cancelled', {
+            actor: options.actor,
+            source: options.source,
+            reason: options.reason,
+            restaurantId: options.restaurantId,
+            updates: {
+                cancellation_refund_percent: quote.refundPercent,
+                cancellation_refund_amount: quote.refundAmount,
+                cancellation_fee_amount: quote.feeAmount,
+                cancellation_refund_status: mustRefund ? 'pending' : 'none',
+            },
+            metadata: {
+                ...options.metadata,
+                refundPercent: quote.refundPercent,
+                refundAmount: quote.refundAmount,
+                feeAmount: quote.feeAmount,
+            },
+        });
+
+        if (!result.changed || !mustRefund) return { ...result, quote };
+
+        // A full refund lets Stripe return whatever is left on the charge
+        const refunded = await ReservationBookingService.refundDeposit(
+            reservation.payment_intent_id,
+            quote.refundPercent === 100 ? undefined : quote.refundAmount
+        );
+
+        const { error } = await supabaseAdmin
+            .from('reservations')
+            .update({ cancellation_refund_status: refunded ? 'succeeded' : 'failed' })
+            .eq('id', reservationId);
+
+        if (error) {
+            Logger.warn('Error recording cancellation refund', { reservationId, error: error.message });
+        }
+        if (!refunded) {
+            Logger.error('Cancellation refund failed', {
+                reservationId,
+                paymentIntentId: reservation.payment_intent_id,
+                amount: quote.refundAmount,
+            });
+        }
+
+        Logger.persistSystemMetric('cancellation_refund', 1, {
+            restaurantId: reservation.restaurant_id,
+            reservationId,
+            refundPercent: quote.refundPercent,
+            amount: quote.refundAmount,
+            refunded,
+        });
+
+        return { ...result, quote, refunded };
+    }
+}
@@ -0,0 +1,407 @@
+import { supabaseAdmin } from '../config/supabase.js';
+import { FeatureFlagService } from './featureFlag.js';
+import { JobLockService } from './jobLock.js';
+import { Logger } from './observability.js';
+import { PaymentLedgerService } from './paymentLedger.js';
+import { PaymentEvent, ProviderPaymentIntent, getPaymentProvider } from './paymentProvider.js';
+import { DepositHold, ReservationBookingService } from './reservationBooking.js';
+import { ReservationLifecycleService } from './reservationLifecycle.js';
+
+/**
+ * Sittara Deposits
+ * A reservation that needs a deposit is created as pending with deposit_status 'awaiting_payment'
+ * and settings.depositHoldMinutes to pay. The PaymentIntent is bound to that reservation
+ * (metadata.reservationId + reservations.payment_intent_id); provider webhooks settle it and
+ * unpaid holds are cancelled by a background job so the table goes back on sale.
+ */
+
+const JOB_NAME = 'deposit_expiry';
+const FEATURE_FLAG = 'deposit_expiry';
+const TICK_INTERVAL_MS = 60 * 1000;
+const LOCK_TTL_SECONDS = 50;
+const DEFAULT_HOLD_MINUTES = 15;
+// Stripe MXN minimum is $10 MXN (1000 centavos)
+const MINIMUM_AMOUNT = 10;
+// Intents the guest can still pay; anything else gets a new intent
+const OPEN_INTENT_STATUSES = ['requires_payment_method', 'requires_confirmation', 'requires_action'];
+// Reservations that can no longer use a deposit paid for them
+const CLOSED_RESERVATION_STATUSES = ['cancelled', 'no_show', 'completed'];
+
+export type DepositStatus =
+    | 'none'
+    | 'awaiting_payment'
+    | 'paid'
+    | 'failed'
+    | 'expired'
+    | 'refunded'
+    | 'partially_refunded'
+    | 'disputed'
+    | 'dispute_lost';
+
+export type WebhookOutcome = 'processed' | 'duplicate' | 'ignored';
+
+export interface DepositIntent {
+    clientSecret: string;
+    paymentIntentId: string;
+    /** Amount in MXN */
+    amount: number;
+}
+
+export interface DepositIntentResult {
+    intent?: DepositIntent;
+    error?: 'NOT_FOUND' | 'FORBIDDEN' | 'NOT_AWAITING_PAYMENT' | 'EXPIRED';
+}
+
+export function getDepositHoldMinutes(settings: Record<string, any> = {}): number {
+    const minutes = Number(settings.depositHoldMinutes);
+    return Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_HOLD_MINUTES;
+}
+
+/**
+ * Deposit status after a refund of amountRefunded out of amount (same unit)
+ */
+export function getRefundStatus(amount: number, amountRefunded: number): DepositStatus {
+    return amountRefunded >= amount ? 'refunded' : 'partially_refunded';
+}
+
+export class DepositService {
+    private static stopJob: (() => void) | null = null;
+
+    /**
+     * Start the background loop; safe to call on every instance thanks to the job lock
+     */
+    static start(intervalMs: number = TICK_INTERVAL_MS): void {
+        if (this.stopJob) return;
+        this.stopJob = JobLockService.startRecurring(JOB_NAME, intervalMs, LOCK_TTL_SECONDS, () => this.runOnce());
+    }
+
+    static stop(): void {
+        this.stopJob?.();
+        this.stopJob = null;
+    }
+
+    /**
+     * Deposit hold for a new pending reservation: the amount to pay and when the hold expires.
+     * create_reservation_atomic stores it in the same insert as the reservation.
+     */
+    static async getHold(restaurantId: string, amount: number): Promise<DepositHold> {
+        const { data: restaurant } = await supabaseAdmin
+            .from('restaurants')
+            .select('settings')
+            .eq('id', restaurantId)
+            .single();
+
+        return {
+            amount: Math.max(amount, MINIMUM_AMOUNT),
+            dueAt: new Date(Date.now() + getDepositHoldMinutes(restaurant?.settings) * 60000).toISOString(),
+        };
+    }
+
+    /**
+     * PaymentIntent for the deposit of a reservation on hold; reuses the open one so
+     * retries and double clicks do not create several charges
+     */
+    static async createIntent(reservationId: string, userId: string): Promise<DepositIntentResult> {
+        const { data: reservation } = await supabaseAdmin
+            .from('reservations')
+            .select('id, user_id, restaurant_id, date, time, guest_count, status, deposit_status, deposit_amount, deposit_due_at, payment_intent_id')
+            .eq('id', reservationId)
+            .maybeSingle();
+
+        if (!reservation) return { error: 'NOT_FOUND' };
+        if (reservation.user_id !== userId) return { error: 'FORBIDDEN' };
+        if (reservation.status !== 'pending' || !['awaiting_payment', 'failed'].includes(reservation.deposit_status)) {
+            return { error: 'NOT_AWAITING_PAYMENT' };
+        }
+        if (reservation.deposit_due_at && Date.parse(reservation.deposit_due_at) < Date.now()) {
+            return { error: 'EXPIRED' };
+        }
+
+        const amount = Number(reservation.deposit_amount) || MINIMUM_AMOUNT;
+
+        const provider = getPaymentProvider();
+
+        if (reservation.payment_intent_id) {
+            const existing = await provider.retrieveIntent(reservation.payment_intent_id);
+            if (OPEN_INTENT_STATUSES.includes(existing.status) && existing.clientSecret) {
+                return { intent: { clientSecret: existing.clientSecret, paymentIntentId: existing.id, amount: existing.amount } };
+            }
+        }
+
+        const paymentIntent = await provider.createIntent({
+            amount,
+            currency: 'mxn',
+            metadata: {
+                reservationId: reservation.id,
+                userId: reservation.user_id,
+                restaurantId: reservation.restaurant_id,
+                date: reservation.date,
+                time: reservation.time,
+                guestCount: String(reservation.guest_count),
+            },
+            // A second request for the same attempt gets the same intent back from the provider
+            idempotencyKey: `deposit:${reservation.id}:${reservation.payment_intent_id || 'first'}`,
+        });
+
+        const { error } = await supabaseAdmin
+            .from('reservations')
+            .update({ payment_intent_id: paymentIntent.id, deposit_status: 'awaiting_payment' })
+            .eq('id', reservation.id);
+
+        if (error) throw error;
+
+        return { intent: { clientSecret: paymentIntent.clientSecret!, paymentIntentId: paymentIntent.id, amount } };
+    }
+
+    /**
+     * Store the event once and apply it; providers retry deliveries, so an event already
+     * processed is acknowledged without touching the reservation again
+     */
+    static async handleWebhookEvent(event: PaymentEvent): Promise<WebhookOutcome> {
+        const { data: stored, error: insertError } = await supabaseAdmin
+            .from('payment_events')
+            .insert({
+                provider: event.provider,
+                provider_event_id: event.id,
+                type: event.providerType,
+                payment_intent_id: event.paymentIntentId,
+                payload: event.payload,
+            })
+            .select('id')
+            .single();
+
+        let eventRowId = stored?.id;
+        if (insertError) {
+            if (insertError.code !== '23505') throw insertError;
+
+            const { data: previous } = await supabaseAdmin
+                .from('payment_events')
+                .select('id, status')
+                .eq('provider', event.provider)
+                .eq('provider_event_id', event.id)
+                .single();
+
+            // Failed attempts are retried; everything else was already handled
+            if (previous?.status !== 'failed') return 'duplicate';
+            eventRowId = previous.id;
+        }
+
+        try {
+            const reservation = await this.applyEvent(event);
+            // Money movements go to the ledger even when the reservation needs no change
+            const recorded = await PaymentLedgerService.recordEvent(event, reservation);
+            const status = reservation === undefined && recorded === 0 ? 'ignored' : 'processed';
+
+            await supabaseAdmin
+                .from('payment_events')
+                .update({ status, error: null, reservation_id: reservation?.id || null, processed_at: new Date().toISOString() })
+                .eq('id', eventRowId);
+
+            return status;
+        } catch (error: any) {
+            await supabaseAdmin
+                .from('payment_events')
+                .update({ status: 'failed', error: error.message })
+                .eq('id', eventRowId);
+            throw error;
+        }
+    }
+
+    /**
+     * Record a successful payment and confirm the reservation. A payment that arrives after the
+     * hold expired (or the reservation was cancelled) is refunded instead.
+     * @returns the updated reservation, or null if no reservation is bound to the intent
+     */
+    static async markPaid(paymentIntent: ProviderPaymentIntent): Promise<any | null> {
+        const reservation = await this.findReservation(paymentIntent.id, paymentIntent.metadata?.reservationId);
+        if (!reservation) return null;
+        if (reservation.deposit_status === 'paid') return reservation;
+
+        const amount = paymentIntent.amountReceived;
+
+        if (CLOSED_RESERVATION_STATUSES.includes(reservation.status) || reservation.deposit_status === 'expired') {
+            const refunded = await ReservationBookingService.refundDeposit(paymentIntent.id);
+            Logger.warn('Deposit paid for a closed reservation', { reservationId: reservation.id, paymentIntentId: paymentIntent.id, refunded });
+            return this.updateDeposit(reservation.id, {
+                payment_intent_id: paymentIntent.id,
+                deposit_status: refunded ? 'refunded' : 'paid',
+                deposit_paid: !refunded,
+                deposit_amount: amount,
+            });
+        }
+
+        const updated = await this.updateDeposit(reservation.id, {
+            payment_intent_id: paymentIntent.id,
+            deposit_status: 'paid',
+            deposit_paid: true,
+            deposit_paid_at: new Date().toISOString(),
+            deposit_amount: amount,
+            deposit_due_at: null,
+        });
+
+        Logger.persistSystemMetric('deposit_paid', 1, { reservationId: reservation.id, restaurantId: reservation.restaurant_id, amount });
+
+        if (reservation.status === 'pending') {
+            const result = await ReservationLifecycleService.transition(reservation.id, 'confirmed', {
+                actor: { type: 'system' },
+                source: 'payments.deposit',
+                metadata: { paymentIntentId: paymentIntent.id, amount },
+            });
+            if (result.changed) return result.reservation;
+        }
+        return updated;
+    }
+
+    /**
+     * Cancel pending reservations whose deposit was not paid in time
+     * @returns number of reservations cancelled
+     */
+    static async runOnce(now: Date = new Date()): Promise<number> {
+        const { data: reservations, error } = await supabaseAdmin
+            .from('reservations')
+            .select('id, restaurant_id, status, deposit_status, payment_intent_id')
+            .eq('deposit_status', 'awaiting_payment')
+            .eq('status', 'pending')
+            .lt('deposit_due_at', now.toISOString());
+
+        if (error) throw error;
+
+        let expired = 0;
+        const enabledByRestaurant = new Map<string, boolean>();
+
+        for (const reservation of reservations || []) {
+            if (!enabledByRestaurant.has(reservation.restaurant_id)) {
+                enabledByRestaurant.set(
+                    reservation.restaurant_id,
+                    await FeatureFlagService.isEnabled(FEATURE_FLAG, reservation.restaurant_id)
+                );
+            }
+            if (!enabledByRestaurant.get(reservation.restaurant_id)) continue;
+
+            try {
+                if (await this.expireHold(reservation)) expired++;
+            } catch (expireError: any) {
+                Logger.error('Error expiring unpaid deposit', { reservationId: reservation.id, error: expireError.message });
+            }
+        }
+
+        if (expired > 0) {
+            Logger.info('Unpaid deposit holds expired', { count: expired });
+        }
+        return expired;
+    }
+
+    private static async expireHold(reservation: any): Promise<boolean> {
+        // The webhook may be late: ask the provider before giving the table away
+        if (reservation.payment_intent_id) {
+            const provider = getPaymentProvider();
+            const paymentIntent = await provider.retrieveIntent(reservation.payment_intent_id);
+            if (paymentIntent.status === 'succeeded') {
+                await this.markPaid(paymentIntent);
+                return false;
+            }
+            if (paymentIntent.status === 'processing') return false;
+            if (paymentIntent.status !== 'canceled') {
+                await provider.cancelIntent(paymentIntent.id).catch((error: any) => {
+                    Logger.warn('Could not cancel expired payment intent', { paymentIntentId: paymentIntent.id, error: error.message });
+                });
+            }
+        }
+
+        const result = await ReservationLifecycleService.transition(reservation.id, 'cancelled', {
+            actor: { type: 'system' },
+            source: 'payments.deposit_expiry',
+            reason: 'Anticipo no pagado a tiempo',
+            updates: { deposit_status: 'expired', deposit_due_at: null },
+        });
+
+        if (result.changed) {
+            Logger.persistSystemMetric('deposit_expired', 1, { reservationId: reservation.id, restaurantId: reservation.restaurant_id });
+        }
+        return result.changed;
+    }
+
+    /**
+     * @returns the affected reservation, null if none is bound to the event, undefined for events we ignore
+     */
+    private static async applyEvent(event: PaymentEvent): Promise<any | null | undefined> {
+        switch (event.type) {
+            case 'payment.succeeded':
+                return this.markPaid(event.intent!);
+
+            case 'payment.failed': {
+                const paymentIntent = event.intent!;
+                const reservation = await this.findReservation(paymentIntent.id, paymentIntent.metadata?.reservationId);
+                // The guest can retry until the hold expires
+                if (!reservation || reservation.deposit_status !== 'awaiting_payment') return reservation;
+                Logger.info('Deposit payment failed', {
+                    reservationId: reservation.id,
+                    reason: paymentIntent.lastError,
+                });
+                return this.updateDeposit(reservation.id, { deposit_status: 'failed' });
+            }
+
+            case 'charge.refunded': {
+                const reservation = await this.findReservation(event.paymentIntentId);
+                if (!reservation || reservation.deposit_status === 'dispute_lost') return reservation;
+                const status = getRefundStatus(event.charge!.amount, event.charge!.amountRefunded);
+                return this.updateDeposit(reservation.id, {
+                    deposit_status: status,
+                    ...(status === 'refunded' && { deposit_paid: false }),
+                });
+            }
+
+            case 'dispute.created': {
+                const reservation = await this.findReservation(event.paymentIntentId);
+                if (!reservation) return null;
+                Logger.warn('Deposit disputed', { reservationId: reservation.id, restaurantId: reservation.restaurant_id });
+                Logger.persistSystemMetric('deposit_disputed', 1, { reservationId: reservation.id, restaurantId: reservation.restaurant_id });
+                return this.updateDeposit(reservation.id, { deposit_status: 'disputed' });
+            }
+
+            case 'dispute.closed': {
+                const reservation = await this.findReservation(event.paymentIntentId);
+                if (!reservation) return null;
+                return this.updateDeposit(reservation.id, event.disputeStatus === 'lost'
+                    ? { deposit_status: 'dispute_lost', deposit_paid: false }
+                    : { deposit_status: 'paid' });
+            }
+
+            default:
+                return undefined;
+        }
+    }
+
+    private static async findReservation(paymentIntentId: string | null, reservationId?: string): Promise<any | null> {
+        const fields = 'id, restaurant_id, user_id, status, deposit_status, deposit_amount, payment_intent_id';
+
+        if (paymentIntentId) {
+            const { data } = await supabaseAdmin
+                .from('reservations')
+                .select(fields)
+                .eq('payment_intent_id', paymentIntentId)
+                .maybeSingle();
+            if (data) return data;
+        }
+
+        if (!reservationId) return null;
+        const { data } = await supabaseAdmin
+            .from('reservations')
+            .select(fields)
+            .eq('id', reservationId)
+            .maybeSingle();
+        return data;
+    }
+
+    private static async updateDeposit(reservationId: string, updates: Record<string, any>): Promise<any> {
+        const { data, error } = await supabaseAdmin
+            .from('reservations')
+            .update({ ...updates, updated_at: new Date().toISOString() })
+            .eq('id', reservationId)
+            .select()
+            .single();
+
+        if (error) throw error;
+        return data;
+    }
+}
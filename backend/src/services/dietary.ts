@@ -0,0 +1,254 @@
+import { supabaseAdmin } from '../config/supabase.js';
+
+/**
+ * Sittara Dietary Profiles
+ * A guest's restrictions (vegetarian, vegan, gluten free), allergies and the spiciest level they
+ * tolerate. The public menu hides or flags the items that do not suit a profile, and reservations
+ * keep a copy of the party's restrictions and allergies for the staff.
+ */
+
+export const DIETARY_RESTRICTIONS = ['vegetarian', 'vegan', 'gluten_free'] as const;
+export type DietaryRestriction = typeof DIETARY_RESTRICTIONS[number];
+
+export const MAX_SPICE_LEVEL = 5;
+const MAX_ALLERGIES = 20;
+const MAX_ALLERGY_LENGTH = 50;
+
+export interface DietaryProfile {
+    restrictions: DietaryRestriction[];
+    allergies: string[];
+    /** null = no limit */
+    maxSpiceLevel: number | null;
+}
+
+/** What a reservation keeps of the party's profile */
+export interface PartyDietary {
+    restrictions: DietaryRestriction[];
+    allergies: string[];
+}
+
+export interface MenuDietaryFilter {
+    restrictions: DietaryRestriction[];
+    excludeAllergens: string[];
+    maxSpiceLevel: number | null;
+    /** hide: drop items that conflict; flag: keep them with dietary_conflicts */
+    mode: 'hide' | 'flag';
+}
+
+export interface DietaryConflicts {
+    restrictions: DietaryRestriction[];
+    allergens: string[];
+    /** Item's spice level when it is above the limit */
+    spice_level: number | null;
+}
+
+/**
+ * Allergens that guests and menus write in different ways, without accents.
+ * Every name in a group matches the first one.
+ */
+const ALLERGEN_SYNONYMS = [
+    ['lacteos', 'lacteo', 'leche', 'lactosa'],
+    ['nueces', 'nuez', 'fruto seco', 'frutos secos'],
+    ['cacahuate', 'cacahuete', 'mani', 'manies'],
+    ['mariscos', 'marisco', 'crustaceo', 'camaron', 'camarones'],
+    ['gluten', 'trigo'],
+    ['soya', 'soja'],
+    ['ajonjoli', 'sesamo'],
+];
+
+const CANONICAL_ALLERGENS = new Map(
+    ALLERGEN_SYNONYMS.flatMap((names) => names.map((name) => [name, names[0]] as const))
+);
+
+/**
+ * Comparable form of an allergen: "Lácteos", "lacteo" and "leche" match, as do "nuez" and "nueces".
+ * Allergens outside the synonym list only drop a plural "s".
+ */
+export function normalizeAllergen(value: string): string {
+    const key = value
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .trim()
+        .replace(/\s+/g, ' ');
+    const singular = key.replace(/([a-z])s$/, '$1');
+
+    return CANONICAL_ALLERGENS.get(key) ?? CANONICAL_ALLERGENS.get(singular) ?? singular;
+}
+
+/**
+ * Allergies as typed by the guest, trimmed and without repeats
+ */
+function parseAllergies(value: unknown): { allergies?: string[]; error?: string } {
+    const list = typeof value === 'string' ? value.split(',') : value ?? [];
+    if (!Array.isArray(list)) return { error: 'allergies debe ser una lista' };
+
+    const allergies: string[] = [];
+    const seen = new Set<string>();
+    for (const entry of list) {
+        const allergy = String(entry ?? '').trim();
+        if (!allergy) continue;
+        if (allergy.length > MAX_ALLERGY_LENGTH) return { error: `La alergia "${allergy.slice(0, 20)}…" es demasiado larga` };
+
+        const key = normalizeAllergen(allergy);
+        if (seen.has(key)) continue;
+        seen.add(key);
+        allergies.push(allergy);
+    }
+
+    if (allergies.length > MAX_ALLERGIES) return { error: `Máximo ${MAX_ALLERGIES} alergias` };
+    return { allergies };
+}
+
+function parseRestrictions(value: unknown): { restrictions?: DietaryRestriction[]; error?: string } {
+    const list = value ?? [];
+    if (!Array.isArray(list)) return { error: 'restrictions debe ser una lista' };
+
+    const invalid = list.find((entry) => !DIETARY_RESTRICTIONS.includes(entry));
+    if (invalid !== undefined) {
+        return { error: `Restricción inválida: ${invalid}. Usa ${DIETARY_RESTRICTIONS.join(', ')}` };
+    }
+    return { restrictions: [...new Set(list as DietaryRestriction[])] };
+}
+
+/**
+ * Profile from a camelCase request body: { restrictions?, allergies?, maxSpiceLevel? }
+ */
+export function parseDietaryProfile(body: Record<string, any>): { profile?: DietaryProfile; error?: string } {
+    const { restrictions, error: restrictionError } = parseRestrictions(body.restrictions);
+    if (restrictionError) return { error: restrictionError };
+
+    const { allergies, error: allergyError } = parseAllergies(body.allergies);
+    if (allergyError) return { error: allergyError };
+
+    const maxSpiceLevel = body.maxSpiceLevel ?? null;
+    if (maxSpiceLevel !== null && (!Number.isInteger(maxSpiceLevel) || maxSpiceLevel < 0 || maxSpiceLevel > MAX_SPICE_LEVEL)) {
+        return { error: `maxSpiceLevel debe ser un entero entre 0 y ${MAX_SPICE_LEVEL}` };
+    }
+
+    return { profile: { restrictions: restrictions!, allergies: allergies!, maxSpiceLevel } };
+}
+
+/**
+ * Menu filter from the public menu query:
+ * vegan, vegetarian, glutenFree (=true), excludeAllergens (comma separated), maxSpiceLevel (0-5)
+ * and dietaryMode (hide | flag). Returns a null filter when nothing is asked for.
+ */
+export function parseMenuDietaryFilter(query: Record<string, any>): { filter?: MenuDietaryFilter | null; error?: string } {
+    const restrictions: DietaryRestriction[] = [];
+    if (query.vegetarian === 'true') restrictions.push('vegetarian');
+    if (query.vegan === 'true') restrictions.push('vegan');
+    if (query.glutenFree === 'true') restrictions.push('gluten_free');
+
+    const excluded = ([] as string[]).concat(query.excludeAllergens ?? []).join(',');
+    const { allergies: excludeAllergens, error } = parseAllergies(excluded);
+    if (error) return { error: 'excludeAllergens must be a comma separated list of allergens' };
+
+    let maxSpiceLevel: number | null = null;
+    if (query.maxSpiceLevel !== undefined && query.maxSpiceLevel !== '') {
+        maxSpiceLevel = Number(query.maxSpiceLevel);
+        if (!Number.isInteger(maxSpiceLevel) || maxSpiceLevel < 0 || maxSpiceLevel > MAX_SPICE_LEVEL) {
+            return { error: `maxSpiceLevel must be an integer between 0 and ${MAX_SPICE_LEVEL}` };
+        }
+    }
+
+    const mode = query.dietaryMode ?? 'hide';
+    if (mode !== 'hide' && mode !== 'flag') {
+        return { error: 'dietaryMode must be hide or flag' };
+    }
+
+    if (restrictions.length === 0 && excludeAllergens!.length === 0 && maxSpiceLevel === null) {
+        return { filter: null };
+    }
+    return { filter: { restrictions, excludeAllergens: excludeAllergens!, maxSpiceLevel, mode } };
+}
+
+/**
+ * Spice level of an item; items only marked as spicy count as level 1
+ */
+export function getSpiceLevel(item: Record<string, any>): number {
+    return Number(item.spicy_level) || (item.is_spicy ? 1 : 0);
+}
+
+/**
+ * Why an item does not suit the filter, or null when it does
+ */
+export function getDietaryConflicts(item: Record<string, any>, filter: MenuDietaryFilter): DietaryConflicts | null {
+    const restrictions = filter.restrictions.filter((restriction) => {
+        if (restriction === 'vegan') return !item.is_vegan;
+        if (restriction === 'vegetarian') return !item.is_vegetarian && !item.is_vegan;
+        return !item.is_gluten_free;
+    });
+
+    const excluded = new Set(filter.excludeAllergens.map(normalizeAllergen));
+    const allergens = ((item.allergens || []) as string[]).filter((allergen) => excluded.has(normalizeAllergen(allergen)));
+
+    const spiceLevel = getSpiceLevel(item);
+    const tooSpicy = filter.maxSpiceLevel !== null && spiceLevel > filter.maxSpiceLevel;
+
+    if (restrictions.length === 0 && allergens.length === 0 && !tooSpicy) return null;
+    return { restrictions, allergens, spice_level: tooSpicy ? spiceLevel : null };
+}
+
+/**
+ * Items without conflicts (hide), or every item with its dietary_conflicts (flag)
+ */
+export function applyDietaryFilter<T extends Record<string, any>>(items: T[], filter: MenuDietaryFilter | null): T[] {
+    if (!filter) return items;
+
+    const checked = items.map((item) => ({ ...item, dietary_conflicts: getDietaryConflicts(item, filter) }));
+    return filter.mode === 'flag' ? checked : checked.filter((item) => item.dietary_conflicts === null);
+}
+
+export function toDietaryProfile(row: Record<string, any> | null | undefined): DietaryProfile {
+    return {
+        restrictions: row?.dietary_restrictions || [],
+        allergies: row?.allergies || [],
+        maxSpiceLevel: row?.max_spice_level ?? null,
+    };
+}
+
+export class DietaryProfileService {
+    static async get(userId: string): Promise<DietaryProfile> {
+        const { data, error } = await supabaseAdmin
+            .from('users')
+            .select('dietary_restrictions, allergies, max_spice_level')
+            .eq('id', userId)
+            .maybeSingle();
+
+        if (error) throw error;
+        return toDietaryProfile(data);
+    }
+
+    static async update(userId: string, profile: DietaryProfile): Promise<DietaryProfile> {
+        const { data, error } = await supabaseAdmin
+            .from('users')
+            .update({
+                dietary_restrictions: profile.restrictions,
+                allergies: profile.allergies,
+                max_spice_level: profile.maxSpiceLevel,
+                updated_at: new Date().toISOString(),
+            })
+            .eq('id', userId)
+            .select('dietary_restrictions, allergies, max_spice_level')
+            .single();
+
+        if (error) throw error;
+        return toDietaryProfile(data);
+    }
+
+    /**
+     * What a new reservation records for the party: the restrictions sent with the booking,
+     * or else the guest's saved profile
+     */
+    static async forReservation(userId: string, override?: Record<string, any> | null): Promise<{ dietary?: PartyDietary; error?: string }> {
+        if (override) {
+            const { profile, error } = parseDietaryProfile(override);
+            if (error) return { error };
+            return { dietary: { restrictions: profile!.restrictions, allergies: profile!.allergies } };
+        }
+
+        const { restrictions, allergies } = await DietaryProfileService.get(userId);
+        return { dietary: { restrictions, allergies } };
+    }
+}
@@ -211,3 +211,56 @@ export async function sendReservationCancellation(to: string, reservation: any):
     `;
     return sendMail({ to, subject, html });
 }
+
+export async function sendReservationReminder(
+    to: string,
+    reservation: any,
+    options: { restaurantName: string; confirmUrl: string; cancelUrl: string }
+): Promise<EmailResult> {
+    const date = new Date(reservation.date).toLocaleDateString();
+    const time = String(reservation.time).substring(0, 5);
+    const subject = `Recordatorio: tu reserva en ${options.restaurantName} - ${date} ${time}`;
+    const html = `
+        <div style="font-family: Arial, sans-serif; padding: 20px;">
+            <h2 style="color: #e11d48;">¡Te esperamos pronto!</h2>
+            <p>Te recordamos tu reserva en <strong>${options.restaurantName}</strong>.</p>
+            <ul style="background: #f4f4f5; padding: 20px; border-radius: 8px; list-style: none;">
+                <li><strong>Fecha:</strong> ${date}</li>
+                <li><strong>Hora:</strong> ${time}</li>
+                <li><strong>Personas:</strong> ${reservation.guest_count || reservation.guestCount}</li>
+            </ul>
+            <div style="text-align: center; margin: 30px 0;">
+                <a href="${options.confirmUrl}" style="background: #10b981; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: bold; margin-right: 10px;">
+                    Confirmar asistencia
+                </a>
+                <a href="${options.cancelUrl}" style="background: #ef4444; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: bold;">
+                    Cancelar reserva
+                </a>
+            </div>
+        </div>
+    `;
+    return sendMail({ to, subject, html });
+}
+
+export async function sendWaitlistTableReady(
+    to: string,
+    options: { restaurantName: string; name: string; tableNumber: number; expiresInMinutes: number; confirmUrl: string; declineUrl: string }
+): Promise<EmailResult> {
+    const subject = `¡Tu mesa en ${options.restaurantName} está lista!`;
+    const html = `
+        <div style="font-family: Arial, sans-serif; padding: 20px;">
+            <h2 style="color: #10b981;">¡Tu mesa está lista, ${options.name}!</h2>
+            <p>La mesa ${options.tableNumber} de <strong>${options.restaurantName}</strong> te está esperando.</p>
+            <p>Confírmala en los próximos <strong>${options.expiresInMinutes} minutos</strong>; después la ofreceremos al siguiente grupo.</p>
+            <div style="text-align: center; margin: 30px 0;">
+                <a href="${options.confirmUrl}" style="background: #10b981; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: bold; margin-right: 10px;">
+                    Voy para allá
+                </a>
+                <a href="${options.declineUrl}" style="background: #ef4444; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: bold;">
+                    Ya no la necesito
+                </a>
+            </div>
+        </div>
+    `;
+    return sendMail({ to, subject, html });
+}
@@ -0,0 +1,184 @@
+import type { LedgerEntryInput } from './paymentLedger.js';
+import type {
+    CreatePaymentIntentInput,
+    PaymentEvent,
+    PaymentEventType,
+    PaymentProvider,
+    ProviderPaymentIntent,
+    ProviderRefund,
+    RefundInput,
+} from './paymentProvider.js';
+
+/**
+ * In-memory PaymentProvider for tests and local development without Stripe keys.
+ * Intents are paid by calling completePayment(), which also returns the webhook event
+ * the real provider would have sent. Nothing leaves the process.
+ */
+
+const OPEN_STATUSES = ['requires_payment_method', 'requires_confirmation', 'requires_action'];
+const DEFAULT_WEBHOOK_SECRET = 'whsec_fake';
+
+interface FakeCharge {
+    id: string;
+    createdAt: string;
+    refunds: (ProviderRefund & { createdAt: string })[];
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+export class FakePaymentProvider implements PaymentProvider {
+    readonly name = 'fake' as const;
+    private intents = new Map<string, ProviderPaymentIntent>();
+    private charges = new Map<string, FakeCharge>();
+    private idempotencyKeys = new Map<string, string>();
+    private sequence = 0;
+
+    constructor(private webhookSecret: string = DEFAULT_WEBHOOK_SECRET) {}
+
+    async createIntent(input: CreatePaymentIntentInput): Promise<ProviderPaymentIntent> {
+        const existingId = input.idempotencyKey && this.idempotencyKeys.get(input.idempotencyKey);
+        if (existingId) return { ...this.intents.get(existingId)! };
+
+        const id = this.nextId('pi');
+        const intent: ProviderPaymentIntent = {
+            id,
+            status: 'requires_payment_method',
+            amount: round(input.amount),
+            amountReceived: 0,
+            currency: input.currency,
+            clientSecret: `${id}_secret`,
+            metadata: { ...input.metadata },
+            lastError: null,
+        };
+        this.intents.set(id, intent);
+        if (input.idempotencyKey) this.idempotencyKeys.set(input.idempotencyKey, id);
+        return { ...intent };
+    }
+
+    async retrieveIntent(paymentIntentId: string): Promise<ProviderPaymentIntent> {
+        return { ...this.getIntent(paymentIntentId) };
+    }
+
+    async cancelIntent(paymentIntentId: string): Promise<void> {
+        const intent = this.getIntent(paymentIntentId);
+        if (intent.status === 'succeeded') throw new Error(`Payment ${paymentIntentId} was already collected`);
+        intent.status = 'canceled';
+        intent.clientSecret = null;
+    }
+
+    async refund(input: RefundInput): Promise<ProviderRefund> {
+        const intent = this.getIntent(input.paymentIntentId);
+        const charge = this.charges.get(intent.id);
+        if (intent.status !== 'succeeded' || !charge) {
+            throw new Error(`Payment ${intent.id} has nothing to refund`);
+        }
+
+        const remaining = round(intent.amountReceived - charge.refunds.reduce((sum, r) => sum + r.amount, 0));
+        const amount = input.amount === undefined ? remaining : round(input.amount);
+        if (amount <= 0 || amount > remaining) {
+            throw new Error(`Refund of ${amount} exceeds the ${remaining} left on ${intent.id}`);
+        }
+
+        const refund = { id: this.nextId('re'), amount, currency: intent.currency, status: 'succeeded' as const };
+        charge.refunds.push({ ...refund, createdAt: new Date().toISOString() });
+        return refund;
+    }
+
+    /**
+     * Accepts a JSON PaymentEvent signed with the `fake-signature` header
+     */
+    parseWebhook(rawBody: Buffer, headers: Record<string, string | string[] | undefined>): PaymentEvent {
+        if (headers['fake-signature'] !== this.webhookSecret) throw new Error('Invalid fake signature');
+        const event = JSON.parse(rawBody.toString('utf8')) as PaymentEvent;
+        if (!event.id || !event.type) throw new Error('Invalid fake event');
+        return { ...event, provider: 'fake' };
+    }
+
+    async getLedgerEntries(event: PaymentEvent): Promise<LedgerEntryInput[]> {
+        const charge = event.paymentIntentId ? this.charges.get(event.paymentIntentId) : undefined;
+        if (!charge) return [];
+        const intent = this.getIntent(event.paymentIntentId!);
+
+        if (event.type === 'payment.succeeded') {
+            return [{
+                type: 'charge',
+                amount: intent.amountReceived,
+                currency: intent.currency,
+                provider_object_id: charge.id,
+                payment_intent_id: intent.id,
+                description: 'Anticipo de reserva',
+                occurred_at: charge.createdAt,
+            }];
+        }
+        if (event.type === 'charge.refunded') {
+            return charge.refunds.map((refund) => ({
+                type: 'refund' as const,
+                amount: -refund.amount,
+                currency: refund.currency,
+                provider_object_id: refund.id,
+                payment_intent_id: intent.id,
+                description: 'Reembolso de anticipo',
+                occurred_at: refund.createdAt,
+            }));
+        }
+        return [];
+    }
+
+    /**
+     * Collect an intent as if the guest paid it
+     * @returns the payment.succeeded webhook event
+     */
+    completePayment(paymentIntentId: string): PaymentEvent {
+        const intent = this.getIntent(paymentIntentId);
+        if (!OPEN_STATUSES.includes(intent.status)) {
+            throw new Error(`Payment ${paymentIntentId} cannot be paid (${intent.status})`);
+        }
+        intent.status = 'succeeded';
+        intent.amountReceived = intent.amount;
+        intent.clientSecret = null;
+        this.charges.set(intent.id, { id: this.nextId('ch'), createdAt: new Date().toISOString(), refunds: [] });
+        return this.event('payment.succeeded', intent.id, { intent: { ...intent } });
+    }
+
+    /**
+     * Decline an intent; the guest can still retry it
+     * @returns the payment.failed webhook event
+     */
+    failPayment(paymentIntentId: string, message: string = 'Your card was declined.'): PaymentEvent {
+        const intent = this.getIntent(paymentIntentId);
+        intent.lastError = message;
+        return this.event('payment.failed', intent.id, { intent: { ...intent } });
+    }
+
+    /**
+     * The charge.refunded webhook event for the refunds made so far
+     */
+    refundedEvent(paymentIntentId: string): PaymentEvent {
+        const intent = this.getIntent(paymentIntentId);
+        const refunded = (this.charges.get(intent.id)?.refunds || []).reduce((sum, r) => sum + r.amount, 0);
+        return this.event('charge.refunded', intent.id, { charge: { amount: intent.amountReceived, amountRefunded: round(refunded) } });
+    }
+
+    reset(): void {
+        this.intents.clear();
+        this.charges.clear();
+        this.idempotencyKeys.clear();
+        this.sequence = 0;
+    }
+
+    private getIntent(paymentIntentId: string): ProviderPaymentIntent {
+        const intent = this.intents.get(paymentIntentId);
+        if (!intent) throw new Error(`No such payment intent: ${paymentIntentId}`);
+        return intent;
+    }
+
+    private event(type: PaymentEventType, paymentIntentId: string, details: Partial<PaymentEvent>): PaymentEvent {
+        const id = this.nextId('evt');
+        return { id, provider: 'fake', type, providerType: type, paymentIntentId, payload: { id, type, paymentIntentId }, ...details };
+    }
+
+    private nextId(prefix: string): string {
+        this.sequence += 1;
+        return `${prefix}_fake_${this.sequence}`;
+    }
+}
@@ -0,0 +1,216 @@
+import { supabaseAdmin } from '../config/supabase.js';
+import { Logger } from './observability.js';
+
+/**
+ * Sittara Guest Reliability
+ * Scores guests from their reservation history across all restaurants and applies
+ * each restaurant's own rules (settings.depositBelowReliability and guest_restrictions).
+ */
+
+const LATE_CANCEL_HOURS = 24;
+
+export type GuestRestrictionType = 'blocked' | 'deposit_required';
+export type ReliabilityLevel = 'new' | 'reliable' | 'regular' | 'risky';
+
+export interface GuestHistory {
+    totalReservations: number;
+    completed: number;
+    noShows: number;
+    cancellations: number;
+    lateCancellations: number;
+    lastNoShowDate: string | null;
+}
+
+export interface GuestReliability extends GuestHistory {
+    userId: string;
+    /** 0-100; guests without history start at 100 */
+    score: number;
+    level: ReliabilityLevel;
+}
+
+export interface GuestRestriction {
+    restriction: GuestRestrictionType;
+    reason: string | null;
+    createdAt?: string;
+}
+
+export interface GuestStanding {
+    reliability: GuestReliability;
+    restriction: GuestRestriction | null;
+    blocked: boolean;
+    /** The restaurant's rules demand a deposit from this guest */
+    depositRequired: boolean;
+}
+
+const EMPTY_HISTORY: GuestHistory = {
+    totalReservations: 0,
+    completed: 0,
+    noShows: 0,
+    cancellations: 0,
+    lateCancellations: 0,
+    lastNoShowDate: null,
+};
+
+/**
+ * Completed visits build trust; a no-show weighs twice as much as a late cancellation.
+ * The +1 keeps new guests at 100 and stops a single incident from zeroing the score.
+ */
+export function calculateReliabilityScore(history: GuestHistory): number {
+    const good = history.completed + 1;
+    const bad = history.noShows * 2 + history.lateCancellations;
+    return Math.round((100 * good) / (good + bad));
+}
+
+export function getReliabilityLevel(history: GuestHistory, score: number): ReliabilityLevel {
+    if (history.completed + history.noShows + history.lateCancellations === 0) return 'new';
+    if (score >= 80) return 'reliable';
+    if (score >= 50) return 'regular';
+    return 'risky';
+}
+
+export function buildReliability(userId: string, history: GuestHistory = EMPTY_HISTORY): GuestReliability {
+    const score = calculateReliabilityScore(history);
+    return { userId, ...history, score, level: getReliabilityLevel(history, score) };
+}
+
+/**
+ * Apply the restaurant's rules to a guest's reliability and restriction
+ */
+export function evaluateGuestStanding(
+    reliability: GuestReliability,
+    restriction: GuestRestriction | null,
+    settings: Record<string, any> = {}
+): GuestStanding {
+    const threshold = Number(settings.depositBelowReliability);
+    const belowThreshold = Number.isFinite(threshold) && threshold > 0 && reliability.score < threshold;
+
+    return {
+        reliability,
+        restriction,
+        blocked: restriction?.restriction === 'blocked',
+        depositRequired: restriction?.restriction === 'deposit_required' || belowThreshold,
+    };
+}
+
+export class GuestReliabilityService {
+    /**
+     * Reliability of several guests at once, keyed by user id
+     */
+    static async getReliability(userIds: string[]): Promise<Map<string, GuestReliability>> {
+        const ids = Array.from(new Set(userIds.filter(Boolean)));
+        const profiles = new Map<string, GuestReliability>();
+        if (ids.length === 0) return profiles;
+
+        const { data, error } = await supabaseAdmin.rpc('get_guest_reliability', {
+            p_user_ids: ids,
+            p_late_cancel_hours: LATE_CANCEL_HOURS,
+        });
+
+        if (error) {
+            Logger.error('Error loading guest reliability', { error: error.message });
+        }
+
+        for (const row of (data || []) as any[]) {
+            profiles.set(row.user_id, buildReliability(row.user_id, {
+                totalReservations: Number(row.total_reservations) || 0,
+                completed: Number(row.completed) || 0,
+                noShows: Number(row.no_shows) || 0,
+                cancellations: Number(row.cancellations) || 0,
+                lateCancellations: Number(row.late_cancellations) || 0,
+                lastNoShowDate: row.last_no_show_date || null,
+            }));
+        }
+
+        for (const id of ids) {
+            if (!profiles.has(id)) profiles.set(id, buildReliability(id));
+        }
+        return profiles;
+    }
+
+    static async getRestrictions(restaurantId: string, userIds: string[]): Promise<Map<string, GuestRestriction>> {
+        const restrictions = new Map<string, GuestRestriction>();
+        const ids = Array.from(new Set(userIds.filter(Boolean)));
+        if (ids.length === 0) return restrictions;
+
+        const { data, error } = await supabaseAdmin
+            .from('guest_restrictions')
+            .select('user_id, restriction, reason, created_at')
+            .eq('restaurant_id', restaurantId)
+            .in('user_id', ids);
+
+        if (error) {
+            Logger.error('Error loading guest restrictions', { restaurantId, error: error.message });
+        }
+
+        for (const row of data || []) {
+            restrictions.set(row.user_id, { restriction: row.restriction, reason: row.reason, createdAt: row.created_at });
+        }
+        return restrictions;
+    }
+
+    /**
+     * Standing of one guest at one restaurant
+     */
+    static async getStanding(restaurantId: string, userId: string, settings: Record<string, any> = {}): Promise<GuestStanding> {
+        const [profiles, restrictions] = await Promise.all([
+            this.getReliability([userId]),
+            this.getRestrictions(restaurantId, [userId]),
+        ]);
+
+        return evaluateGuestStanding(profiles.get(userId)!, restrictions.get(userId) || null, settings);
+    }
+
+    /**
+     * Add `guest_reliability` and `guest_restriction` to each reservation of a restaurant list
+     */
+    static async attachToReservations<T extends { user_id: string }>(
+        restaurantId: string,
+        reservations: T[]
+    ): Promise<(T & { guest_reliability: GuestReliability; guest_restriction: GuestRestriction | null })[]> {
+        const userIds = reservations.map(r => r.user_id);
+        const [profiles, restrictions] = await Promise.all([
+            this.getReliability(userIds),
+            this.getRestrictions(restaurantId, userIds),
+        ]);
+
+        return reservations.map(reservation => ({
+            ...reservation,
+            guest_reliability: profiles.get(reservation.user_id) || buildReliability(reservation.user_id),
+            guest_restriction: restrictions.get(reservation.user_id) || null,
+        }));
+    }
+
+    static async setRestriction(
+        restaurantId: string,
+        userId: string,
+        restriction: GuestRestrictionType,
+        reason: string | null,
+        createdBy?: string
+    ) {
+        const { data, error } = await supabaseAdmin
+            .from('guest_restrictions')
+            .upsert({
+                restaurant_id: restaurantId,
+                user_id: userId,
+                restriction,
+                reason,
+                created_by: createdBy || null,
+                updated_at: new Date().toISOString(),
+            }, { onConflict: 'restaurant_id,user_id' })
+            .select()
+            .single();
+
+        if (error) throw error;
+        return data;
+    }
+
+    static async removeRestriction(restaurantId: string, userId: string): Promise<void> {
+        const { error } = await supabaseAdmin
+            .from('guest_restrictions')
+            .delete()
+            .eq('restaurant_id', restaurantId)
+            .eq('user_id', userId);
+
+        if (error) throw error;
+    }
+}
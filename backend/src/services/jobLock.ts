@@ -0,0 +1,85 @@
+import crypto from 'crypto';
+import os from 'os';
+import { supabaseAdmin } from '../config/supabase.js';
+import { Logger } from './observability.js';
+
+/**
+ * Sittara Job Lock
+ * Lease-based lock stored in job_locks so only one backend instance runs a background job at a time.
+ */
+
+// Unique per process, so a restarted instance does not inherit a stale lease
+const INSTANCE_ID = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+
+export class JobLockService {
+    static get instanceId(): string {
+        return INSTANCE_ID;
+    }
+
+    /**
+     * Try to take (or renew) the lock; the lease expires on its own if the instance dies
+     */
+    static async acquire(jobName: string, ttlSeconds: number): Promise<boolean> {
+        const { data, error } = await supabaseAdmin.rpc('acquire_job_lock', {
+            p_job_name: jobName,
+            p_holder: INSTANCE_ID,
+            p_ttl_seconds: ttlSeconds,
+        });
+
+        if (error) {
+            Logger.error(`Error acquiring job lock ${jobName}`, { error: error.message });
+            return false;
+        }
+
+        return data === true;
+    }
+
+    static async release(jobName: string): Promise<void> {
+        const { error } = await supabaseAdmin.rpc('release_job_lock', {
+            p_job_name: jobName,
+            p_holder: INSTANCE_ID,
+        });
+
+        if (error) {
+            Logger.warn(`Error releasing job lock ${jobName}`, { error: error.message });
+        }
+    }
+
+    /**
+     * Run a job only if this instance holds its lock
+     * @returns false when another instance holds the lock
+     */
+    static async runExclusive(jobName: string, ttlSeconds: number, job: () => Promise<unknown>): Promise<boolean> {
+        if (!(await this.acquire(jobName, ttlSeconds))) return false;
+
+        try {
+            await job();
+        } finally {
+            await this.release(jobName);
+        }
+        return true;
+    }
+
+    /**
+     * Run a job every intervalMs on this instance, skipping ticks while another instance holds the lock
+     * @returns a function that stops the loop
+     */
+    static startRecurring(
+        jobName: string,
+        intervalMs: number,
+        lockTtlSeconds: number,
+        job: () => Promise<unknown>
+    ): () => void {
+        const tick = () => {
+            this.runExclusive(jobName, lockTtlSeconds, job)
+                .catch(error => Logger.error(`Job ${jobName} failed`, { error: error?.message }));
+        };
+
+        const timer = setInterval(tick, intervalMs);
+        timer.unref();
+        tick();
+        Logger.info(`Job ${jobName} scheduled`, { intervalMs, instanceId: INSTANCE_ID });
+
+        return () => clearInterval(timer);
+    }
+}
@@ -0,0 +1,67 @@
+import { supabaseAdmin } from '../config/supabase.js';
+
+/**
+ * Sittara Loyalty
+ * Points and segment of a diner, shared by /api/user/growth-perks and the offer rules
+ * (offers can be limited to some segments).
+ * 10 pts per completed visit + 5 pts per review + 2 extra pts when the review has photos.
+ */
+
+export const LOYALTY_SEGMENTS = ['Nuevo Foodie', 'Foodie Activo', 'Gourmet Pro', 'Platinum VIP'] as const;
+
+export type LoyaltySegment = typeof LOYALTY_SEGMENTS[number];
+
+export interface LoyaltyProfile {
+    totalReservations: number;
+    completedVisits: number;
+    totalReviews: number;
+    loyaltyPoints: number;
+    segment: LoyaltySegment;
+}
+
+export function calculateLoyaltyPoints(completedVisits: number, reviews: { photos?: string[] | null }[]): number {
+    const pointsFromVisits = completedVisits * 10;
+    const pointsFromReviews = reviews.length * 5;
+    const pointsFromPhotos = reviews.filter((r) => r.photos && r.photos.length > 0).length * 2;
+    return pointsFromVisits + pointsFromReviews + pointsFromPhotos;
+}
+
+export function getLoyaltySegment(points: number): LoyaltySegment {
+    if (points >= 100) return 'Platinum VIP';
+    if (points >= 50) return 'Gourmet Pro';
+    if (points >= 10) return 'Foodie Activo';
+    return 'Nuevo Foodie';
+}
+
+export function getPointsToNextLevel(points: number): number {
+    return points >= 100 ? 0 : (points >= 50 ? 100 - points : 50 - points);
+}
+
+export class LoyaltyService {
+    static async getProfile(userId: string): Promise<LoyaltyProfile> {
+        const { data: reservations, error: resError } = await supabaseAdmin
+            .from('reservations')
+            .select('id, status')
+            .eq('user_id', userId);
+
+        if (resError) throw resError;
+
+        const { data: reviews, error: revError } = await supabaseAdmin
+            .from('reviews')
+            .select('id, photos')
+            .eq('user_id', userId);
+
+        if (revError) throw revError;
+
+        const completedVisits = reservations?.filter((r) => r.status === 'completed').length || 0;
+        const loyaltyPoints = calculateLoyaltyPoints(completedVisits, reviews || []);
+
+        return {
+            totalReservations: reservations?.length || 0,
+            completedVisits,
+            totalReviews: reviews?.length || 0,
+            loyaltyPoints,
+            segment: getLoyaltySegment(loyaltyPoints),
+        };
+    }
+}
@@ -0,0 +1,241 @@
+import { supabaseAdmin } from '../config/supabase.js';
+
+/**
+ * Sittara Menu Catalog
+ * Menu items belong to a menu_categories row through category_id; a category can have
+ * one level of subcategories (parent_id). The category/subcategory text columns are kept
+ * as labels for older clients and are refreshed by the update_menu_category,
+ * delete_menu_category and reorder_menu RPCs, so renaming never orphans items.
+ */
+
+// Postgres error code raised by the RPCs on an invalid parent or target category
+const CHECK_VIOLATION = '23514';
+// Id of the group of items whose category no longer exists
+export const UNCATEGORIZED_ID = 'others';
+
+export type DeleteCategoryResult = 'DELETED' | 'HAS_ITEMS' | 'INVALID_TARGET';
+
+export interface ItemCategory {
+    category_id: string;
+    /** Top-level category name */
+    category: string;
+    /** Subcategory name, when the item is in one */
+    subcategory: string | null;
+}
+
+export interface MenuReorder {
+    categories: { id: string; sort_order: number }[];
+    items: { id: string; sort_order: number; category_id?: string }[];
+}
+
+/**
+ * Nest categories and items: top-level categories with their subcategories. `items` of a
+ * category lists every dish in it, subcategories included, so clients unaware of
+ * subcategories still show them; `subcategories[].items` splits them.
+ * Items without a known category end up in a trailing "Otros" group.
+ */
+export function buildMenuTree(categories: any[], items: any[]): any[] {
+    const itemsByCategory = new Map<string, any[]>();
+    for (const item of items) {
+        const list = itemsByCategory.get(item.category_id) || [];
+        list.push(item);
+        itemsByCategory.set(item.category_id, list);
+    }
+
+    const tree = categories
+        .filter((category) => !category.parent_id)
+        .map((category) => {
+            const subcategories = categories
+                .filter((sub) => sub.parent_id === category.id)
+                .map((sub) => ({ ...sub, items: itemsByCategory.get(sub.id) || [] }));
+
+            return {
+                ...category,
+                items: [...(itemsByCategory.get(category.id) || []), ...subcategories.flatMap((sub) => sub.items)],
+                subcategories,
+            };
+        });
+
+    const knownIds = new Set(categories.map((category) => category.id));
+    const others = items.filter((item) => !knownIds.has(item.category_id));
+    if (others.length > 0) {
+        tree.push({
+            id: UNCATEGORIZED_ID,
+            name: 'Otros',
+            parent_id: null,
+            items: others,
+            subcategories: [],
+            sort_order: 99,
+            is_active: true,
+        });
+    }
+
+    return tree;
+}
+
+/**
+ * Bulk reorder payload from a camelCase request body
+ */
+export function parseMenuReorder(body: Record<string, any>): { reorder?: MenuReorder; error?: string } {
+    const categories = body.categories ?? [];
+    const items = body.items ?? [];
+    const isPosition = (entry: any) => entry && typeof entry.id === 'string' && Number.isInteger(entry.sortOrder);
+
+    if (!Array.isArray(categories) || !Array.isArray(items) || !categories.every(isPosition) || !items.every(isPosition)) {
+        return { error: 'Cada elemento debe tener id y sortOrder (entero)' };
+    }
+    if (categories.length === 0 && items.length === 0) {
+        return { error: 'No hay nada que reordenar' };
+    }
+
+    return {
+        reorder: {
+            categories: categories.map((entry: any) => ({ id: entry.id, sort_order: entry.sortOrder })),
+            items: items.map((entry: any) => ({
+                id: entry.id,
+                sort_order: entry.sortOrder,
+                ...(entry.categoryId ? { category_id: entry.categoryId } : {}),
+            })),
+        },
+    };
+}
+
+export class MenuCatalogService {
+    /**
+     * Category of a new or edited item: by id, or by name for clients that still send the
+     * category text (the category, and subcategory, are created when missing).
+     * Null when the id does not belong to the restaurant.
+     */
+    static async resolveItemCategory(
+        restaurantId: string,
+        input: { categoryId?: string | null; category?: string | null; subcategory?: string | null }
+    ): Promise<ItemCategory | null> {
+        if (input.categoryId) {
+            const { data: category } = await supabaseAdmin
+                .from('menu_categories')
+                .select('id, name, restaurant_id, parent:parent_id (name)')
+                .eq('id', input.categoryId)
+                .maybeSingle();
+
+            if (!category || category.restaurant_id !== restaurantId) return null;
+
+            const parent = category.parent as any;
+            return parent
+                ? { category_id: category.id, category: parent.name, subcategory: category.name }
+                : { category_id: category.id, category: category.name, subcategory: null };
+        }
+
+        const name = input.category?.trim();
+        if (!name) return null;
+
+        const parent = await this.findOrCreateCategory(restaurantId, name, null);
+        const subName = input.subcategory?.trim();
+        if (!subName || subName === name) {
+            return { category_id: parent.id, category: parent.name, subcategory: null };
+        }
+
+        const sub = await this.findOrCreateCategory(restaurantId, subName, parent.id);
+        return { category_id: sub.id, category: parent.name, subcategory: sub.name };
+    }
+
+    /**
+     * Update a category in one transaction; renaming or moving it relabels its items and pricing rules.
+     * `parentId` undefined keeps the parent, null makes it a top-level category.
+     * `fields` are other menu_categories columns (description, icon, sort_order, is_active).
+     */
+    static async updateCategory(
+        categoryId: string,
+        changes: { name?: string; parentId?: string | null; fields?: Record<string, any> }
+    ): Promise<{ category?: any; error?: 'INVALID_PARENT' }> {
+        const { data, error } = await supabaseAdmin.rpc('update_menu_category', {
+            p_category_id: categoryId,
+            p_name: changes.name ?? null,
+            p_change_parent: changes.parentId !== undefined,
+            p_parent_id: changes.parentId ?? null,
+            p_fields: changes.fields ?? {},
+        });
+
+        if (error) {
+            if (error.code === CHECK_VIOLATION) return { error: 'INVALID_PARENT' };
+            throw error;
+        }
+        return { category: data };
+    }
+
+    /**
+     * Delete a category and its subcategories, moving their items to `moveTo` if given
+     */
+    static async deleteCategory(categoryId: string, moveTo?: string | null): Promise<DeleteCategoryResult> {
+        const { data, error } = await supabaseAdmin.rpc('delete_menu_category', {
+            p_category_id: categoryId,
+            p_move_to: moveTo ?? null,
+        });
+
+        if (error) throw error;
+        return data as DeleteCategoryResult;
+    }
+
+    /**
+     * Persist a drag-and-drop reorder of categories and items
+     * @returns rows updated, or null when an item was moved to another restaurant's category
+     */
+    static async reorder(restaurantId: string, reorder: MenuReorder): Promise<number | null> {
+        const { data, error } = await supabaseAdmin.rpc('reorder_menu', {
+            p_restaurant_id: restaurantId,
+            p_categories: reorder.categories,
+            p_items: reorder.items,
+        });
+
+        if (error) {
+            if (error.code === CHECK_VIOLATION) return null;
+            throw error;
+        }
+        return data ?? 0;
+    }
+
+    /**
+     * Items in a category and its subcategories
+     */
+    static async countItems(categoryId: string): Promise<number> {
+        const { data: children } = await supabaseAdmin
+            .from('menu_categories')
+            .select('id')
+            .eq('parent_id', categoryId);
+
+        const { count, error } = await supabaseAdmin
+            .from('menu_items')
+            .select('id', { count: 'exact', head: true })
+            .in('category_id', [categoryId, ...(children || []).map((child) => child.id)]);
+
+        if (error) throw error;
+        return count || 0;
+    }
+
+    private static async findOrCreateCategory(restaurantId: string, name: string, parentId: string | null): Promise<any> {
+        let query = supabaseAdmin
+            .from('menu_categories')
+            .select('id, name')
+            .eq('restaurant_id', restaurantId)
+            .eq('name', name);
+        query = parentId ? query.eq('parent_id', parentId) : query.is('parent_id', null);
+
+        const { data: existing } = await query.limit(1).maybeSingle();
+        if (existing) return existing;
+
+        let siblings = supabaseAdmin
+            .from('menu_categories')
+            .select('id', { count: 'exact', head: true })
+            .eq('restaurant_id', restaurantId);
+        siblings = parentId ? siblings.eq('parent_id', parentId) : siblings.is('parent_id', null);
+        const { count } = await siblings;
+
+        const { data, error } = await supabaseAdmin
+            .from('menu_categories')
+            .insert({ restaurant_id: restaurantId, name, parent_id: parentId, sort_order: count || 0, is_active: true })
+            .select('id, name')
+            .single();
+
+        if (error) throw error;
+        return data;
+    }
+}
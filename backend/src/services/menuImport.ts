@@ -0,0 +1,433 @@
+import { supabaseAdmin } from '../config/supabase.js';
+import { ItemCategory, MenuCatalogService } from './menuCatalog.js';
+
+/**
+ * Sittara Menu Import/Export
+ * Bulk load of dishes from CSV or JSON. An import is first validated and compared with the
+ * current menu (dry run): every row comes back as create, update, unchanged or invalid with
+ * its errors. Committing applies every valid row in one transaction (import_menu_items RPC)
+ * and is refused while any row is invalid. Rows match existing dishes by id, then by name;
+ * nothing is ever deleted. The export uses the same columns, so a menu can round-trip
+ * through a spreadsheet.
+ */
+
+export type MenuImportFormat = 'csv' | 'json';
+export type MenuImportAction = 'create' | 'update' | 'unchanged' | 'invalid';
+
+export const MAX_IMPORT_ROWS = 1000;
+
+/** Importable columns: CSV header (Spanish), JSON key and accepted aliases */
+const COLUMNS = [
+    { field: 'id', csv: 'id', json: 'id', aliases: [] },
+    { field: 'name', csv: 'nombre', json: 'name', aliases: [] },
+    { field: 'description', csv: 'descripcion', json: 'description', aliases: [] },
+    { field: 'price', csv: 'precio', json: 'price', aliases: [] },
+    { field: 'category', csv: 'categoria', json: 'category', aliases: [] },
+    { field: 'subcategory', csv: 'subcategoria', json: 'subcategory', aliases: [] },
+    { field: 'allergens', csv: 'alergenos', json: 'allergens', aliases: [] },
+    { field: 'is_vegetarian', csv: 'vegetariano', json: 'isVegetarian', aliases: ['vegetarian'] },
+    { field: 'is_vegan', csv: 'vegano', json: 'isVegan', aliases: ['vegan'] },
+    { field: 'is_gluten_free', csv: 'sin_gluten', json: 'isGlutenFree', aliases: ['gluten_free'] },
+    { field: 'is_spicy', csv: 'picante', json: 'isSpicy', aliases: ['spicy'] },
+    { field: 'image_url', csv: 'imagen_url', json: 'imageUrl', aliases: ['imagen', 'image'] },
+    { field: 'is_available', csv: 'disponible', json: 'isAvailable', aliases: ['available'] },
+] as const;
+
+export type MenuImportField = (typeof COLUMNS)[number]['field'];
+
+const REQUIRED_FIELDS: MenuImportField[] = ['name', 'price', 'category'];
+const FLAG_FIELDS: MenuImportField[] = ['is_vegetarian', 'is_vegan', 'is_gluten_free', 'is_spicy', 'is_available'];
+// Compared with the current dish to tell an update from an unchanged row
+const COMPARED_FIELDS: MenuImportField[] = COLUMNS.map((column) => column.field).filter((field) => field !== 'id');
+
+/** Item columns written by the import */
+export type MenuImportItem = Partial<Record<Exclude<MenuImportField, 'id'>, any>> & { id?: string };
+
+export interface MenuImportRow {
+    /** CSV line (header = 1) or position in the JSON list (from 1) */
+    line: number;
+    action: MenuImportAction;
+    name: string;
+    /** Dish updated by the row */
+    id?: string;
+    /** Fields that change, for updates */
+    changes?: string[];
+    errors?: string[];
+    item?: MenuImportItem;
+}
+
+export interface MenuImportReport {
+    /** Whether the rows were written (never on a dry run or with invalid rows) */
+    applied: boolean;
+    summary: Record<MenuImportAction, number> & { total: number };
+    rows: MenuImportRow[];
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Lowercase, no accents, spaces and dashes as underscores ("Categoría" -> "categoria") */
+const normalizeKey = (key: string) => key
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, '_');
+
+const FIELD_BY_KEY = new Map<string, MenuImportField>(
+    COLUMNS.flatMap((column) =>
+        [column.field, column.csv, column.json, ...column.aliases].map((key) => [normalizeKey(key), column.field] as const)
+    )
+);
+
+/**
+ * Records of a CSV document (RFC 4180: quoted cells may hold delimiters, quotes and
+ * line breaks). The delimiter is , or ; (spreadsheets in Spanish locales use ;).
+ */
+export function parseCsv(text: string): { line: number; cells: string[] }[] {
+    const source = text.replace(/^\uFEFF/, '');
+    const firstLine = source.split(/\r?\n/, 1)[0] || '';
+    const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+
+    const records: { line: number; cells: string[] }[] = [];
+    let cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+    let line = 1;
+    let recordLine = 1;
+
+    const endRecord = () => {
+        cells.push(cell);
+        if (cells.some((value) => value.trim() !== '')) records.push({ line: recordLine, cells });
+        cells = [];
+        cell = '';
+    };
+
+    for (let i = 0; i < source.length; i++) {
+        const char = source[i];
+
+        if (quoted) {
+            if (char === '"' && source[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                if (char === '\n') line++;
+                cell += char;
+            }
+        } else if (char === '"' && cell === '') {
+            quoted = true;
+        } else if (char === delimiter) {
+            cells.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && source[i + 1] === '\n') i++;
+            endRecord();
+            line++;
+            recordLine = line;
+        } else {
+            cell += char;
+        }
+    }
+    if (cell !== '' || cells.length > 0) endRecord();
+
+    return records;
+}
+
+const parsePrice = (value: unknown): number => {
+    if (typeof value === 'number') return value;
+    let text = String(value ?? '').replace(/[$\s]/g, '').replace(/mxn/i, '');
+    // "120,50" is a decimal comma; "1,200.50" has a thousands separator
+    text = /^\d+,\d{1,2}$/.test(text) ? text.replace(',', '.') : text.replace(/,/g, '');
+    return text === '' ? NaN : Number(text);
+};
+
+const parseFlag = (value: unknown): boolean | null => {
+    if (typeof value === 'boolean') return value;
+    const text = normalizeKey(String(value ?? ''));
+    if (['true', 'si', 'yes', '1', 'x'].includes(text)) return true;
+    if (['false', 'no', '0'].includes(text)) return false;
+    return null;
+};
+
+const parseList = (value: unknown): string[] => {
+    const entries = Array.isArray(value) ? value : String(value ?? '').split(/[|,;]/);
+    return [...new Set(entries.map((entry) => String(entry).trim().toLowerCase()).filter(Boolean))];
+};
+
+const emptyToNull = (value: unknown) => {
+    const text = value === null || value === undefined ? '' : String(value).trim();
+    return text === '' ? null : text;
+};
+
+/**
+ * Validated item from one raw row (keys already mapped to fields). Only the fields
+ * present in the file are returned, so an update never wipes a column the file lacks.
+ */
+export function normalizeImportRow(raw: Partial<Record<MenuImportField, unknown>>): { item: MenuImportItem; errors: string[] } {
+    const item: MenuImportItem = {};
+    const errors: string[] = [];
+    const has = (field: MenuImportField) => raw[field] !== undefined;
+
+    if (has('id') && emptyToNull(raw.id)) {
+        if (!UUID_PATTERN.test(String(raw.id).trim())) errors.push('id inválido');
+        else item.id = String(raw.id).trim();
+    }
+
+    const name = emptyToNull(raw.name);
+    if (!name) errors.push('El nombre es requerido');
+    else item.name = name;
+
+    if (has('price')) {
+        const price = parsePrice(raw.price);
+        if (!Number.isFinite(price) || price < 0) errors.push(`Precio inválido: "${raw.price ?? ''}"`);
+        else item.price = Math.round(price * 100) / 100;
+    }
+
+    if (has('category')) {
+        const category = emptyToNull(raw.category);
+        if (!category) errors.push('La categoría es requerida');
+        else item.category = category;
+    }
+
+    if (has('description')) item.description = emptyToNull(raw.description);
+    if (has('subcategory')) item.subcategory = emptyToNull(raw.subcategory);
+    if (has('allergens')) item.allergens = parseList(raw.allergens);
+
+    if (has('image_url')) {
+        const imageUrl = emptyToNull(raw.image_url);
+        if (imageUrl && !/^https?:\/\/\S+$/i.test(imageUrl)) errors.push('La imagen debe ser una URL http(s)');
+        else item.image_url = imageUrl;
+    }
+
+    for (const field of FLAG_FIELDS) {
+        if (!has(field) || emptyToNull(raw[field]) === null) continue;
+        const flag = parseFlag(raw[field]);
+        if (flag === null) errors.push(`Valor inválido en ${field}: "${raw[field]}" (usa sí o no)`);
+        else item[field as Exclude<MenuImportField, 'id'>] = flag;
+    }
+
+    return { item, errors };
+}
+
+/**
+ * Raw rows of an import, with the line each one came from
+ */
+export function readMenuImport(format: MenuImportFormat, payload: unknown): {
+    rows?: { line: number; raw: Partial<Record<MenuImportField, unknown>> }[];
+    error?: string;
+} {
+    const toFields = (record: Record<string, unknown>) => {
+        const raw: Partial<Record<MenuImportField, unknown>> = {};
+        for (const [key, value] of Object.entries(record)) {
+            const field = FIELD_BY_KEY.get(normalizeKey(key));
+            if (field) raw[field] = value;
+        }
+        return raw;
+    };
+
+    let rows: { line: number; raw: Partial<Record<MenuImportField, unknown>> }[];
+
+    if (format === 'csv') {
+        if (typeof payload !== 'string') return { error: 'El contenido CSV debe ser texto' };
+        const [header, ...records] = parseCsv(payload);
+        if (!header) return { error: 'El archivo está vacío' };
+
+        const fields = header.cells.map((cell) => FIELD_BY_KEY.get(normalizeKey(cell)));
+        const missing = REQUIRED_FIELDS.filter((field) => !fields.includes(field));
+        if (missing.length > 0) {
+            const names = missing.map((field) => COLUMNS.find((column) => column.field === field)!.csv);
+            return { error: `Faltan columnas: ${names.join(', ')}` };
+        }
+
+        rows = records.map(({ line, cells }) => {
+            const raw: Partial<Record<MenuImportField, unknown>> = {};
+            fields.forEach((field, index) => {
+                if (field) raw[field] = cells[index] ?? '';
+            });
+            return { line, raw };
+        });
+    } else {
+        let parsed = payload;
+        if (typeof payload === 'string') {
+            try {
+                parsed = JSON.parse(payload);
+            } catch {
+                return { error: 'El archivo no es un JSON válido' };
+            }
+        }
+        const list = Array.isArray(parsed) ? parsed : null;
+        if (!list || list.some((entry) => !entry || typeof entry !== 'object' || Array.isArray(entry))) {
+            return { error: 'El JSON debe ser una lista de platillos' };
+        }
+        rows = list.map((entry, index) => ({ line: index + 1, raw: toFields(entry as Record<string, unknown>) }));
+    }
+
+    if (rows.length === 0) return { error: 'El archivo no tiene platillos' };
+    if (rows.length > MAX_IMPORT_ROWS) return { error: `Máximo ${MAX_IMPORT_ROWS} platillos por importación` };
+    return { rows };
+}
+
+const sameValue = (a: unknown, b: unknown) => {
+    if (Array.isArray(a) || Array.isArray(b)) {
+        return JSON.stringify([...((a as string[]) || [])].sort()) === JSON.stringify([...((b as string[]) || [])].sort());
+    }
+    if (typeof a === 'number' || typeof b === 'number') return Number(a) === Number(b);
+    return (a ?? null) === (b ?? null);
+};
+
+/**
+ * Validate the rows and compare them with the current dishes of the restaurant
+ */
+export function diffMenuImport(
+    rows: { line: number; raw: Partial<Record<MenuImportField, unknown>> }[],
+    existing: any[]
+): MenuImportRow[] {
+    const byId = new Map(existing.map((item) => [item.id, item]));
+    const byName = new Map<string, any>();
+    for (const item of existing) {
+        const key = normalizeKey(item.name);
+        if (!byName.has(key)) byName.set(key, item);
+    }
+    const seen = new Map<string, number>();
+
+    return rows.map(({ line, raw }) => {
+        const { item, errors } = normalizeImportRow(raw);
+        const name = item.name || String(raw.name ?? '');
+
+        const current = item.id ? byId.get(item.id) : byName.get(normalizeKey(name));
+        if (item.id && !current) errors.push('El id no corresponde a un platillo de este menú');
+
+        // A dish can only appear once per file
+        const key = current ? `id:${current.id}` : `name:${normalizeKey(name)}`;
+        if (name && seen.has(key)) errors.push(`Platillo repetido (fila ${seen.get(key)})`);
+        else if (name) seen.set(key, line);
+
+        if (!current) {
+            if (item.price === undefined && !errors.some((error) => error.startsWith('Precio'))) errors.push('El precio es requerido');
+            if (item.category === undefined && !errors.some((error) => error.startsWith('La categoría'))) errors.push('La categoría es requerida');
+        }
+
+        if (errors.length > 0) return { line, action: 'invalid', name, errors };
+        if (!current) return { line, action: 'create', name, item };
+
+        const changes = COMPARED_FIELDS.filter((field) => item[field] !== undefined && !sameValue(item[field], current[field]));
+        return changes.length > 0
+            ? { line, action: 'update', name, id: current.id, changes, item: { ...item, id: current.id } }
+            : { line, action: 'unchanged', name, id: current.id };
+    });
+}
+
+const summarize = (rows: MenuImportRow[]): MenuImportReport['summary'] => ({
+    total: rows.length,
+    create: rows.filter((row) => row.action === 'create').length,
+    update: rows.filter((row) => row.action === 'update').length,
+    unchanged: rows.filter((row) => row.action === 'unchanged').length,
+    invalid: rows.filter((row) => row.action === 'invalid').length,
+});
+
+/**
+ * Menu as CSV, with the columns the import reads
+ */
+export function toMenuCsv(items: any[]): string {
+    const escape = (value: unknown) => {
+        const text = value === null || value === undefined ? '' : String(value);
+        return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    const flag = (value: unknown) => (value ? 'sí' : 'no');
+
+    const lines = items.map((item) => [
+        item.id,
+        item.name,
+        item.description,
+        item.price,
+        item.category,
+        item.subcategory,
+        (item.allergens || []).join('|'),
+        flag(item.is_vegetarian),
+        flag(item.is_vegan),
+        flag(item.is_gluten_free),
+        flag(item.is_spicy),
+        item.image_url,
+        flag(item.is_available !== false),
+    ].map(escape).join(','));
+
+    // BOM so spreadsheets open accents correctly
+    return '\uFEFF' + [COLUMNS.map((column) => column.csv).join(','), ...lines].join('\n');
+}
+
+/**
+ * Menu as JSON, with the keys the import reads
+ */
+export function toMenuJson(items: any[]): Record<string, unknown>[] {
+    return items.map((item) => Object.fromEntries(COLUMNS.map((column) => {
+        const value = item[column.field];
+        if (column.field === 'allergens') return [column.json, value || []];
+        if (FLAG_FIELDS.includes(column.field)) return [column.json, column.field === 'is_available' ? value !== false : Boolean(value)];
+        return [column.json, value ?? null];
+    })));
+}
+
+const EXPORT_COLUMNS = COLUMNS.map((column) => column.field).join(', ');
+
+export class MenuImportService {
+    /**
+     * Dishes of the restaurant in menu order, with the exported columns
+     */
+    static async listItems(restaurantId: string): Promise<any[]> {
+        const { data, error } = await supabaseAdmin
+            .from('menu_items')
+            .select(`${EXPORT_COLUMNS}, category_id, sort_order`)
+            .eq('restaurant_id', restaurantId)
+            .order('category', { ascending: true })
+            .order('sort_order', { ascending: true });
+
+        if (error) throw error;
+        return data || [];
+    }
+
+    /**
+     * Validate an import against the current menu and, unless it is a dry run, apply it
+     */
+    static async importMenu(
+        restaurantId: string,
+        rows: { line: number; raw: Partial<Record<MenuImportField, unknown>> }[],
+        dryRun: boolean
+    ): Promise<MenuImportReport> {
+        const existing = await this.listItems(restaurantId);
+        const report = diffMenuImport(rows, existing);
+        const summary = summarize(report);
+
+        if (dryRun || summary.invalid > 0 || summary.create + summary.update === 0) {
+            return { applied: false, summary, rows: report };
+        }
+
+        // Categories are created on demand, as when a dish is saved by category name
+        const categories = new Map<string, ItemCategory | null>();
+        const payload = [];
+        for (const row of report) {
+            if (row.action !== 'create' && row.action !== 'update') continue;
+
+            const current = existing.find((item) => item.id === row.id);
+            const item = { ...(current || {}), ...row.item };
+            const key = `${item.category}\u0000${item.subcategory ?? ''}`;
+            if (!categories.has(key)) {
+                categories.set(key, await MenuCatalogService.resolveItemCategory(restaurantId, {
+                    category: item.category,
+                    subcategory: item.subcategory,
+                }));
+            }
+
+            const { sort_order: _sortOrder, ...columns } = item;
+            payload.push({ ...columns, ...categories.get(key) });
+        }
+
+        const { error } = await supabaseAdmin.rpc('import_menu_items', {
+            p_restaurant_id: restaurantId,
+            p_items: payload,
+        });
+        if (error) throw error;
+
+        return { applied: true, summary, rows: report };
+    }
+}
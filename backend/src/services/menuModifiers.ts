@@ -0,0 +1,199 @@
+import { supabaseAdmin } from '../config/supabase.js';
+
+/**
+ * Sittara Menu Modifiers
+ * Variants (sizes or presentations with their own price) and modifier groups (required or
+ * optional choices with min/max selections and a price delta per option) of a menu item.
+ * A combo is an item whose groups offer other dishes (options with linked_item_id).
+ * Both are replaced as a whole, atomically, by the set_menu_item_modifiers RPC.
+ */
+
+// Postgres error code raised by the RPC when a combo links a dish of another restaurant
+const CHECK_VIOLATION = '23514';
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Embed for menu_items selects: variants and modifier groups with their options */
+export const MENU_ITEM_MODIFIERS = 'variants:menu_item_variants (*), modifier_groups:menu_modifier_groups (*, options:menu_modifier_options (*))';
+
+export interface MenuItemVariantInput {
+    id?: string;
+    name: string;
+    price: number;
+    is_default: boolean;
+    is_available: boolean;
+}
+
+export interface MenuModifierOptionInput {
+    id?: string;
+    name: string;
+    price_delta: number;
+    linked_item_id: string | null;
+    is_default: boolean;
+    is_available: boolean;
+}
+
+export interface MenuModifierGroupInput {
+    id?: string;
+    name: string;
+    is_required: boolean;
+    min_selections: number;
+    /** null = no limit */
+    max_selections: number | null;
+    options: MenuModifierOptionInput[];
+}
+
+export interface MenuItemModifiers {
+    variants: MenuItemVariantInput[];
+    groups: MenuModifierGroupInput[];
+}
+
+const bySortOrder = (a: any, b: any) => (a.sort_order ?? 0) - (b.sort_order ?? 0);
+
+/**
+ * Embedded variants, groups and options in their sort_order (embeds come unordered)
+ */
+export function sortMenuItemModifiers<T extends Record<string, any>>(item: T): T {
+    return {
+        ...item,
+        variants: [...(item.variants || [])].sort(bySortOrder),
+        modifier_groups: [...(item.modifier_groups || [])]
+            .sort(bySortOrder)
+            .map((group: any) => ({ ...group, options: [...(group.options || [])].sort(bySortOrder) })),
+    };
+}
+
+const optionalId = (value: any) => (typeof value === 'string' && UUID_PATTERN.test(value) ? { id: value } : {});
+
+/**
+ * Variants and modifier groups from a camelCase request body:
+ * { variants: [{ id?, name, price, isDefault?, isAvailable? }],
+ *   modifierGroups: [{ id?, name, isRequired?, minSelections?, maxSelections?,
+ *                      options: [{ id?, name, priceDelta?, linkedItemId?, isDefault?, isAvailable? }] }] }
+ */
+export function parseMenuModifiers(body: Record<string, any>): { modifiers?: MenuItemModifiers; error?: string } {
+    const variantsInput = body.variants ?? [];
+    const groupsInput = body.modifierGroups ?? [];
+
+    if (!Array.isArray(variantsInput) || !Array.isArray(groupsInput)) {
+        return { error: 'variants y modifierGroups deben ser listas' };
+    }
+
+    const variants: MenuItemVariantInput[] = [];
+    for (const variant of variantsInput) {
+        const name = String(variant?.name ?? '').trim();
+        const price = Number(variant?.price);
+        if (!name) return { error: 'Cada variante necesita un nombre' };
+        if (variant.price === '' || variant.price === null || !Number.isFinite(price) || price < 0) {
+            return { error: `Precio inválido en la variante "${name}"` };
+        }
+        variants.push({
+            ...optionalId(variant.id),
+            name,
+            price,
+            is_default: Boolean(variant.isDefault),
+            is_available: variant.isAvailable !== false,
+        });
+    }
+
+    if (variants.filter((variant) => variant.is_default).length > 1) {
+        return { error: 'Solo una variante puede ser la predeterminada' };
+    }
+    // With variants there is always a default one: the first, unless another is marked
+    if (variants.length > 0 && !variants.some((variant) => variant.is_default)) {
+        variants[0].is_default = true;
+    }
+
+    const groups: MenuModifierGroupInput[] = [];
+    for (const group of groupsInput) {
+        const name = String(group?.name ?? '').trim();
+        if (!name) return { error: 'Cada grupo de modificadores necesita un nombre' };
+
+        const optionsInput = group.options ?? [];
+        if (!Array.isArray(optionsInput) || optionsInput.length === 0) {
+            return { error: `El grupo "${name}" necesita al menos una opción` };
+        }
+
+        const options: MenuModifierOptionInput[] = [];
+        for (const option of optionsInput) {
+            const optionName = String(option?.name ?? '').trim();
+            const priceDelta = Number(option?.priceDelta ?? 0);
+            if (!optionName) return { error: `Cada opción de "${name}" necesita un nombre` };
+            if (!Number.isFinite(priceDelta)) return { error: `Cargo inválido en la opción "${optionName}"` };
+            if (option.linkedItemId && !UUID_PATTERN.test(String(option.linkedItemId))) {
+                return { error: `Platillo inválido en la opción "${optionName}"` };
+            }
+            options.push({
+                ...optionalId(option.id),
+                name: optionName,
+                price_delta: priceDelta,
+                linked_item_id: option.linkedItemId || null,
+                is_default: Boolean(option.isDefault),
+                is_available: option.isAvailable !== false,
+            });
+        }
+
+        const isRequired = Boolean(group.isRequired);
+        const minSelections = group.minSelections ?? (isRequired ? 1 : 0);
+        const maxSelections = group.maxSelections ?? null;
+
+        if (!Number.isInteger(minSelections) || minSelections < 0) {
+            return { error: `Mínimo de selecciones inválido en "${name}"` };
+        }
+        if (isRequired && minSelections < 1) {
+            return { error: `"${name}" es obligatorio: el mínimo de selecciones debe ser al menos 1` };
+        }
+        if (maxSelections !== null && (!Number.isInteger(maxSelections) || maxSelections < Math.max(minSelections, 1))) {
+            return { error: `El máximo de selecciones de "${name}" debe ser al menos ${Math.max(minSelections, 1)}` };
+        }
+        // Each option can be chosen once
+        if (minSelections > options.length) {
+            return { error: `"${name}" pide ${minSelections} selecciones pero solo tiene ${options.length} opciones` };
+        }
+
+        groups.push({
+            ...optionalId(group.id),
+            name,
+            is_required: isRequired,
+            min_selections: minSelections,
+            max_selections: maxSelections,
+            options,
+        });
+    }
+
+    return { modifiers: { variants, groups } };
+}
+
+export class MenuModifierService {
+    /**
+     * Replace the variants and modifier groups of an item
+     * @returns false when a combo option links a dish of another restaurant (or the item itself)
+     */
+    static async setModifiers(menuItemId: string, modifiers: MenuItemModifiers): Promise<boolean> {
+        const { error } = await supabaseAdmin.rpc('set_menu_item_modifiers', {
+            p_menu_item_id: menuItemId,
+            p_variants: modifiers.variants,
+            p_groups: modifiers.groups,
+        });
+
+        if (error) {
+            if (error.code === CHECK_VIOLATION) return false;
+            throw error;
+        }
+        return true;
+    }
+
+    /**
+     * An item of the restaurant with its modifiers, or null
+     */
+    static async getItem(restaurantId: string, menuItemId: string): Promise<any | null> {
+        const { data, error } = await supabaseAdmin
+            .from('menu_items')
+            .select(`*, ${MENU_ITEM_MODIFIERS}`)
+            .eq('id', menuItemId)
+            .eq('restaurant_id', restaurantId)
+            .maybeSingle();
+
+        if (error) throw error;
+        return data ? sortMenuItemModifiers(data) : null;
+    }
+}
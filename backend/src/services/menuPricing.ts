@@ -0,0 +1,329 @@
+import { supabaseAdmin } from '../config/supabase.js';
+import { timeToMinutes } from './availability.js';
+import { isWithinHours } from './offerRules.js';
+import { addDays, getDayName } from './schedule.js';
+
+/**
+ * Sittara Menu Pricing
+ * Time-bound prices ("happy hour"): on some days and hours a dish, or a whole category,
+ * costs less. The public menu returns each item's effective price for the requested time;
+ * menu_items.price stays the regular price. Also keeps which dishes an offer covers.
+ */
+
+const WEEK_DAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+const DISCOUNT_TYPES = ['percentage', 'fixed', 'price'] as const;
+
+export type MenuPricingDiscountType = typeof DISCOUNT_TYPES[number];
+
+export interface MenuPricingRule {
+    id: string;
+    name: string;
+    valid_days?: string[] | null;
+    start_time: string;
+    end_time: string;
+    menu_item_id?: string | null;
+    /** Category (or subcategory) the rule targets; its subcategories are included */
+    category_id?: string | null;
+    /** Name of the category, kept as a label */
+    category?: string | null;
+    /** percentage: % off; fixed: MXN off; price: final price */
+    discount_type: MenuPricingDiscountType;
+    discount_value: number | string;
+    is_active?: boolean | null;
+}
+
+export interface EffectivePrice {
+    price: number;
+    /** Rule that set the price, when one applies */
+    rule: { id: string; name: string; endsAt: string } | null;
+}
+
+/** Parent of each menu category; null for top-level ones */
+export type CategoryParents = Map<string, string | null>;
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Parents by category id, from the restaurant's menu_categories rows
+ */
+export function getCategoryParents(categories: { id: string; parent_id?: string | null }[]): CategoryParents {
+    return new Map(categories.map((category) => [category.id, category.parent_id ?? null]));
+}
+
+/**
+ * Whether a rule is running at a local date and time. A window past midnight belongs to
+ * the day it started: a Friday 22:00-02:00 rule still applies on Saturday at 01:00.
+ */
+export function isPricingRuleActive(rule: MenuPricingRule, date: string, time: string): boolean {
+    if (rule.is_active === false) return false;
+    if (!isWithinHours(time, rule.start_time, rule.end_time)) return false;
+
+    const crossesMidnight = timeToMinutes(rule.start_time) > timeToMinutes(rule.end_time);
+    const serviceDate = crossesMidnight && timeToMinutes(time) < timeToMinutes(rule.end_time) ? addDays(date, -1) : date;
+    return !rule.valid_days?.length || rule.valid_days.includes(getDayName(serviceDate));
+}
+
+/**
+ * Whether a rule targets a menu item, directly or through its category: a rule on a
+ * category also covers the items of its subcategories
+ */
+export function pricingRuleCovers(
+    rule: MenuPricingRule,
+    item: { id: string; category_id?: string | null },
+    parents: CategoryParents = new Map()
+): boolean {
+    if (rule.menu_item_id) return rule.menu_item_id === item.id;
+    if (!rule.category_id || !item.category_id) return false;
+    return rule.category_id === item.category_id || rule.category_id === parents.get(item.category_id);
+}
+
+/**
+ * Price of an item under a rule; never above the regular price nor below zero
+ */
+export function applyPricingRule(price: number, rule: MenuPricingRule): number {
+    const value = Number(rule.discount_value) || 0;
+    let result = price;
+
+    switch (rule.discount_type) {
+        case 'percentage':
+            result = price * (1 - Math.min(value, 100) / 100);
+            break;
+        case 'fixed':
+            result = price - value;
+            break;
+        case 'price':
+            result = value;
+            break;
+    }
+
+    return roundMoney(Math.min(Math.max(result, 0), price));
+}
+
+/**
+ * Effective price of an item at a local date and time. Rules do not stack: when several
+ * apply, the lowest price wins.
+ */
+export function getEffectivePrice(
+    item: any,
+    rules: MenuPricingRule[],
+    date: string,
+    time: string,
+    parents: CategoryParents = new Map()
+): EffectivePrice {
+    const regular = Number(item.price) || 0;
+    let best: EffectivePrice = { price: regular, rule: null };
+
+    for (const rule of rules) {
+        if (!pricingRuleCovers(rule, item, parents) || !isPricingRuleActive(rule, date, time)) continue;
+
+        const price = applyPricingRule(regular, rule);
+        if (price < best.price) {
+            best = { price, rule: { id: rule.id, name: rule.name, endsAt: rule.end_time.slice(0, 5) } };
+        }
+    }
+
+    return best;
+}
+
+/**
+ * Menu items with their effective_price and the pricing_rule behind it. Variants, when
+ * embedded, get their own effective_price under the same rules.
+ */
+export function applyMenuPricing<T extends { id: string; price?: any; variants?: any[] }>(
+    items: T[],
+    rules: MenuPricingRule[],
+    date: string,
+    time: string,
+    parents: CategoryParents = new Map()
+) {
+    return items.map((item) => {
+        const { price, rule } = getEffectivePrice(item, rules, date, time, parents);
+        const priced = { ...item, effective_price: price, pricing_rule: rule };
+        if (!Array.isArray(item.variants)) return priced;
+
+        return {
+            ...priced,
+            variants: item.variants.map((variant) => ({
+                ...variant,
+                effective_price: getEffectivePrice({ ...item, price: variant.price }, rules, date, time, parents).price,
+            })),
+        };
+    });
+}
+
+/**
+ * Rule columns from a camelCase request body. On create every field is required; on update
+ * only the fields present are returned. The category label is set by the caller from categoryId.
+ */
+export function parsePricingRule(body: Record<string, any>, partial = false): { rule?: Record<string, any>; error?: string } {
+    const rule: Record<string, any> = {};
+    const has = (field: string) => body[field] !== undefined;
+
+    if (has('name') || !partial) {
+        if (!body.name || !String(body.name).trim()) return { error: 'El nombre es requerido' };
+        rule.name = String(body.name).trim();
+    }
+
+    if (has('validDays')) {
+        if (body.validDays !== null && (!Array.isArray(body.validDays) || body.validDays.some((d: any) => !WEEK_DAYS.includes(d)))) {
+            return { error: `Días inválidos. Usa: ${WEEK_DAYS.join(', ')}` };
+        }
+        rule.valid_days = body.validDays?.length ? body.validDays : null;
+    }
+
+    for (const [field, column] of [['startTime', 'start_time'], ['endTime', 'end_time']]) {
+        if (!has(field) && partial) continue;
+        if (!body[field] || !TIME_PATTERN.test(body[field])) return { error: 'Los horarios deben tener formato HH:MM' };
+        rule[column] = body[field];
+    }
+    if (rule.start_time && rule.end_time && timeToMinutes(rule.start_time) === timeToMinutes(rule.end_time)) {
+        return { error: 'La hora de inicio y la de fin no pueden ser iguales' };
+    }
+
+    if (has('menuItemId') || has('categoryId') || !partial) {
+        const menuItemId = body.menuItemId || null;
+        const categoryId = body.categoryId || null;
+        if (Boolean(menuItemId) === Boolean(categoryId)) {
+            return { error: 'Indica un platillo o una categoría (solo uno)' };
+        }
+        rule.menu_item_id = menuItemId;
+        rule.category_id = categoryId;
+        rule.category = null;
+    }
+
+    if (has('discountType') || !partial) {
+        if (!DISCOUNT_TYPES.includes(body.discountType)) {
+            return { error: `Tipo de descuento inválido. Usa: ${DISCOUNT_TYPES.join(', ')}` };
+        }
+        rule.discount_type = body.discountType;
+    }
+
+    if (has('discountValue') || !partial) {
+        const value = Number(body.discountValue);
+        if (body.discountValue === null || body.discountValue === '' || !Number.isFinite(value) || value < 0) {
+            return { error: 'El valor del descuento debe ser un número mayor o igual a cero' };
+        }
+        rule.discount_value = value;
+    }
+    if (rule.discount_type === 'percentage' && rule.discount_value > 100) {
+        return { error: 'El porcentaje no puede ser mayor a 100' };
+    }
+
+    if (has('isActive')) rule.is_active = Boolean(body.isActive);
+
+    return { rule };
+}
+
+/**
+ * Menu item ids from a request body (offers' menuItemIds); null clears the list
+ */
+export function parseMenuItemIds(value: unknown): { ids?: string[]; error?: string } {
+    if (value === null) return { ids: [] };
+    if (!Array.isArray(value) || value.some((id) => typeof id !== 'string' || !id)) {
+        return { error: 'menuItemIds debe ser una lista de platillos' };
+    }
+    return { ids: [...new Set(value as string[])] };
+}
+
+export class MenuPricingService {
+    /**
+     * Pricing rules of a restaurant
+     */
+    static async listRules(restaurantId: string, activeOnly = false): Promise<MenuPricingRule[]> {
+        let query = supabaseAdmin
+            .from('menu_pricing_rules')
+            .select('*')
+            .eq('restaurant_id', restaurantId);
+
+        if (activeOnly) query = query.eq('is_active', true);
+
+        const { data, error } = await query.order('start_time', { ascending: true });
+        if (error) throw error;
+        return data || [];
+    }
+
+    static async createRule(restaurantId: string, rule: Record<string, any>): Promise<MenuPricingRule> {
+        const { data, error } = await supabaseAdmin
+            .from('menu_pricing_rules')
+            .insert({ ...rule, restaurant_id: restaurantId, is_active: rule.is_active ?? true })
+            .select()
+            .single();
+
+        if (error) throw error;
+        return data;
+    }
+
+    /**
+     * Update a rule of the restaurant; null when it does not exist
+     */
+    static async updateRule(restaurantId: string, ruleId: string, updates: Record<string, any>): Promise<MenuPricingRule | null> {
+        const { data, error } = await supabaseAdmin
+            .from('menu_pricing_rules')
+            .update({ ...updates, updated_at: new Date().toISOString() })
+            .eq('id', ruleId)
+            .eq('restaurant_id', restaurantId)
+            .select()
+            .maybeSingle();
+
+        if (error) throw error;
+        return data;
+    }
+
+    static async deleteRule(restaurantId: string, ruleId: string): Promise<void> {
+        const { error } = await supabaseAdmin
+            .from('menu_pricing_rules')
+            .delete()
+            .eq('id', ruleId)
+            .eq('restaurant_id', restaurantId);
+
+        if (error) throw error;
+    }
+
+    /**
+     * Whether every item belongs to the restaurant
+     */
+    static async itemsBelongTo(restaurantId: string, itemIds: string[]): Promise<boolean> {
+        if (itemIds.length === 0) return true;
+
+        const { count, error } = await supabaseAdmin
+            .from('menu_items')
+            .select('id', { count: 'exact', head: true })
+            .eq('restaurant_id', restaurantId)
+            .in('id', itemIds);
+
+        if (error) throw error;
+        return count === itemIds.length;
+    }
+
+    /**
+     * Category of the restaurant; null when it does not exist or belongs to another one
+     */
+    static async findCategory(restaurantId: string, categoryId: string): Promise<{ id: string; name: string } | null> {
+        const { data, error } = await supabaseAdmin
+            .from('menu_categories')
+            .select('id, name')
+            .eq('id', categoryId)
+            .eq('restaurant_id', restaurantId)
+            .maybeSingle();
+
+        if (error) throw error;
+        return data;
+    }
+
+    /**
+     * Replace the dishes an offer covers
+     */
+    static async setOfferMenuItems(offerId: string, itemIds: string[]): Promise<void> {
+        const { error: deleteError } = await supabaseAdmin.from('offer_menu_items').delete().eq('offer_id', offerId);
+        if (deleteError) throw deleteError;
+
+        if (itemIds.length === 0) return;
+
+        const { error } = await supabaseAdmin
+            .from('offer_menu_items')
+            .insert(itemIds.map((menuItemId) => ({ offer_id: offerId, menu_item_id: menuItemId })));
+
+        if (error) throw error;
+    }
+}
@@ -0,0 +1,218 @@
+import { supabaseAdmin } from '../config/supabase.js';
+import { getCancellationPolicy } from './cancellationPolicy.js';
+import { FeatureFlagService } from './featureFlag.js';
+import { JobLockService } from './jobLock.js';
+import { Logger } from './observability.js';
+import { ReservationBookingService } from './reservationBooking.js';
+import { ReservationLifecycleService } from './reservationLifecycle.js';
+import { DEFAULT_TIMEZONE, addDays, zonedTimeToUtc } from './schedule.js';
+
+/**
+ * Sittara No-Show Detection
+ * Marks reservations as no_show once settings.noShowGraceMinutes pass without the guest arriving,
+ * frees their tables and keeps settings.noShowPenalty out of a paid deposit.
+ */
+
+const JOB_NAME = 'auto_no_show';
+const FEATURE_FLAG = 'auto_no_show';
+const DEFAULT_GRACE_MINUTES = 15;
+const TICK_INTERVAL_MS = 2 * 60 * 1000;
+const LOCK_TTL_SECONDS = 90;
+// Only guests who never showed up can become no-shows (see RESERVATION_TRANSITIONS)
+const NO_SHOW_ELIGIBLE_STATUSES = ['pending', 'confirmed'];
+
+export interface NoShowPenalty {
+    /** Amount kept from the deposit (MXN) */
+    penalty: number;
+    /** Amount returned to the guest (MXN) */
+    refund: number;
+}
+
+export interface NoShowActor {
+    source: 'auto' | 'staff';
+    userId?: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+export interface NoShowResult {
+    /** Updated reservation, or null if it was no longer pending/confirmed */
+    reservation: any | null;
+    penalty: NoShowPenalty;
+}
+
+export function getGraceMinutes(settings: Record<string, any> = {}): number {
+    const minutes = Number(settings.noShowGraceMinutes);
+    return Number.isFinite(minutes) && minutes >= 0 ? minutes : DEFAULT_GRACE_MINUTES;
+}
+
+/**
+ * Whether the grace period after the reservation start has elapsed
+ */
+export function isPastGracePeriod(
+    reservation: { date: string; time: string },
+    graceMinutes: number,
+    timezone: string,
+    now: Date
+): boolean {
+    const startsAt = zonedTimeToUtc(reservation.date, reservation.time, timezone).getTime();
+    return now.getTime() >= startsAt + graceMinutes * 60000;
+}
+
+/**
+ * Split a paid deposit into the no-show penalty and the refund; without a deposit nothing is charged.
+ * The cancellation policy's noShowPenaltyPercent wins over the fixed settings.noShowPenalty;
+ * restaurants with neither keep the whole deposit, as before automatic detection.
+ */
+export function calculateNoShowPenalty(
+    reservation: { deposit_paid?: boolean; deposit_amount?: number | string | null },
+    settings: Record<string, any> = {}
+): NoShowPenalty {
+    const deposit = reservation.deposit_paid ? Number(reservation.deposit_amount) || 0 : 0;
+    const penaltyPercent = getCancellationPolicy(settings)?.noShowPenaltyPercent;
+
+    let configured = deposit;
+    if (penaltyPercent !== undefined && penaltyPercent !== null) {
+        configured = Math.round(deposit * penaltyPercent) / 100;
+    } else if (settings.noShowPenalty !== undefined && settings.noShowPenalty !== null) {
+        configured = Math.max(Number(settings.noShowPenalty) || 0, 0);
+    }
+    const penalty = Math.min(configured, deposit);
+    return { penalty, refund: deposit - penalty };
+}
+
+export class NoShowService {
+    private static stopJob: (() => void) | null = null;
+
+    /**
+     * Start the background loop; safe to call on every instance thanks to the job lock
+     */
+    static start(intervalMs: number = TICK_INTERVAL_MS): void {
+        if (this.stopJob) return;
+        this.stopJob = JobLockService.startRecurring(JOB_NAME, intervalMs, LOCK_TTL_SECONDS, () => this.runOnce());
+    }
+
+    static stop(): void {
+        this.stopJob?.();
+        this.stopJob = null;
+    }
+
+    /**
+     * Mark every unarrived reservation whose grace period has elapsed
+     * @returns number of reservations marked as no-show
+     */
+    static async runOnce(now: Date = new Date()): Promise<number> {
+        const today = now.toISOString().split('T')[0];
+
+        // Yesterday is included for late-night reservations in timezones behind UTC
+        const { data: reservations, error } = await supabaseAdmin
+            .from('reservations')
+            .select(`
+                id, user_id, restaurant_id, table_id, linked_table_ids, date, time, status,
+                deposit_paid, deposit_amount, payment_intent_id,
+                restaurants (id, settings)
+            `)
+            .in('status', NO_SHOW_ELIGIBLE_STATUSES)
+            .gte('date', addDays(today, -1))
+            .lte('date', today);
+
+        if (error) throw error;
+
+        let marked = 0;
+        const enabledByRestaurant = new Map<string, boolean>();
+
+        for (const reservation of reservations || []) {
+            const restaurant: any = reservation.restaurants;
+            const settings = restaurant?.settings || {};
+
+            if (!enabledByRestaurant.has(reservation.restaurant_id)) {
+                enabledByRestaurant.set(
+                    reservation.restaurant_id,
+                    await FeatureFlagService.isEnabled(FEATURE_FLAG, reservation.restaurant_id)
+                );
+            }
+            if (!enabledByRestaurant.get(reservation.restaurant_id)) continue;
+
+            const timezone = settings.timezone || DEFAULT_TIMEZONE;
+            if (!isPastGracePeriod(reservation, getGraceMinutes(settings), timezone, now)) continue;
+
+            try {
+                const result = await this.markNoShow(reservation, settings, { source: 'auto' });
+                if (result.reservation) marked++;
+            } catch (markError: any) {
+                Logger.error('Error marking automatic no-show', { reservationId: reservation.id, error: markError.message });
+            }
+        }
+
+        if (marked > 0) {
+            Logger.info('Automatic no-shows marked', { count: marked });
+        }
+        return marked;
+    }
+
+    /**
+     * Mark a reservation as no-show (which frees its tables), apply the penalty and record it in audit_logs
+     */
+    static async markNoShow(reservation: any, settings: Record<string, any>, actor: NoShowActor): Promise<NoShowResult> {
+        const penalty = calculateNoShowPenalty(reservation, settings);
+
+        // The lifecycle guard makes this a no-op if the guest arrived (or staff acted) in the meantime
+        const result = await ReservationLifecycleService.transition(reservation.id, 'no_show', {
+            actor: { type: actor.source === 'auto' ? 'system' : 'staff', id: actor.userId },
+            source: actor.source === 'auto' ? 'no_show.auto' : 'reservations.no_show',
+            updates: {
+                no_show_penalty_amount: penalty.penalty,
+                no_show_refund_amount: penalty.refund,
+            },
+            metadata: { penaltyAmount: penalty.penalty, refundAmount: penalty.refund },
+        });
+
+        if (!result.changed) return { reservation: null, penalty: { penalty: 0, refund: 0 } };
+        const updated = result.reservation;
+        const tableIds = [reservation.table_id, ...(reservation.linked_table_ids || [])].filter(Boolean);
+
+        let refunded = true;
+        if (penalty.refund > 0 && reservation.payment_intent_id) {
+            refunded = await ReservationBookingService.refundDeposit(reservation.payment_intent_id, penalty.refund);
+            if (!refunded) {
+                Logger.error('No-show refund failed', {
+                    reservationId: reservation.id,
+                    paymentIntentId: reservation.payment_intent_id,
+                    amount: penalty.refund,
+                });
+            }
+        }
+
+        const { error: auditError } = await supabaseAdmin
+            .from('audit_logs')
+            .insert({
+                user_id: actor.userId || null,
+                action: actor.source === 'auto' ? 'auto_no_show_reservation' : 'no_show_reservation',
+                entity_type: 'reservation',
+                entity_id: reservation.id,
+                old_values: { status: reservation.status },
+                new_values: {
+                    status: 'no_show',
+                    penaltyAmount: penalty.penalty,
+                    refundAmount: penalty.refund,
+                    refunded,
+                    tableIds,
+                },
+                ip_address: actor.ipAddress || null,
+                user_agent: actor.userAgent || null,
+            });
+
+        if (auditError) {
+            Logger.warn('Error writing no-show audit log', { reservationId: reservation.id, error: auditError.message });
+        }
+
+        Logger.persistSystemMetric('reservation_no_show', 1, {
+            restaurantId: reservation.restaurant_id,
+            reservationId: reservation.id,
+            source: actor.source,
+            penaltyAmount: penalty.penalty,
+        });
+
+        return { reservation: updated, penalty };
+    }
+}
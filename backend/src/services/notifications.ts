@@ -2,7 +2,7 @@ import { supabaseAdmin } from '../config/supabase.js';
 
 export interface NotificationOptions {
     userId: string;
-    type: 'reservation_confirmed' | 'reservation_reminder' | 'reservation_cancelled' | 'review_request' | 'offer' | 'system';
+    type: 'reservation_confirmed' | 'reservation_reminder' | 'reservation_cancelled' | 'review_request' | 'offer' | 'system' | 'waitlist_table_ready';
     title: string;
     message: string;
     data?: any;
@@ -0,0 +1,246 @@
+import crypto from 'crypto';
+import { supabaseAdmin } from '../config/supabase.js';
+
+/**
+ * Sittara Offer Codes
+ * Batches of unique single-use promo codes for an offer, so a campaign code cannot be shared.
+ * A code is redeemed by redeem_offer_atomic together with its offer_redemptions row, which is
+ * where who used it, when and on which reservation is kept.
+ */
+
+// No 0/O or 1/I/L: codes are typed from printed flyers
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+const PREFIX_PATTERN = /^[A-Z0-9]{1,12}$/;
+export const MAX_BATCH_SIZE = 5000;
+// Rows per insert; a collision only regenerates its own chunk
+const INSERT_CHUNK_SIZE = 500;
+const MAX_INSERT_ATTEMPTS = 3;
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+const UNIQUE_VIOLATION = '23505';
+
+export type OfferCodeStatus = 'available' | 'redeemed' | 'revoked';
+
+export interface OfferCodeBatchInput {
+    quantity: number;
+    name?: string;
+    prefix?: string;
+    createdBy?: string;
+}
+
+export interface OfferCodeBatchSummary {
+    id: string;
+    name: string;
+    prefix: string | null;
+    quantity: number;
+    createdAt: string;
+    available: number;
+    redeemed: number;
+    revoked: number;
+}
+
+export function normalizeCode(code: string): string {
+    return code.trim().toUpperCase();
+}
+
+export function generateCode(prefix?: string | null): string {
+    let code = '';
+    for (let i = 0; i < CODE_LENGTH; i++) {
+        code += CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)];
+    }
+    return prefix ? `${prefix}-${code}` : code;
+}
+
+/**
+ * Check a batch request; returns the error message for the restaurant, if any
+ */
+export function validateBatchInput(input: { quantity?: any; prefix?: any }): string | null {
+    const quantity = Number(input.quantity);
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_BATCH_SIZE) {
+        return `La cantidad debe ser un número entero entre 1 y ${MAX_BATCH_SIZE}`;
+    }
+    if (input.prefix && !PREFIX_PATTERN.test(normalizeCode(String(input.prefix)))) {
+        return 'El prefijo solo puede tener letras y números (máximo 12)';
+    }
+    return null;
+}
+
+/**
+ * CSV export of codes as listed by OfferCodeService.listCodes
+ */
+export function toOfferCodesCsv(rows: any[]): string {
+    const header = ['codigo', 'lote', 'estado', 'canjeado_por', 'email', 'canjeado_el', 'reserva'];
+    const escape = (value: unknown) => {
+        const text = value === null || value === undefined ? '' : String(value);
+        return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const lines = rows.map((row) => {
+        const redemption = row.offer_redemptions?.[0];
+        return [
+            row.code,
+            row.offer_code_batches?.name,
+            row.status,
+            redemption?.users?.name,
+            redemption?.users?.email,
+            redemption?.created_at,
+            redemption?.reservation_id,
+        ].map(escape).join(',');
+    });
+
+    return [header.join(','), ...lines].join('\n');
+}
+
+export class OfferCodeService {
+    /**
+     * Create a batch of unique codes for an offer
+     */
+    static async createBatch(offerId: string, input: OfferCodeBatchInput): Promise<OfferCodeBatchSummary> {
+        const prefix = input.prefix ? normalizeCode(input.prefix) : null;
+
+        const { data: batch, error } = await supabaseAdmin
+            .from('offer_code_batches')
+            .insert({
+                offer_id: offerId,
+                name: input.name?.trim() || `Lote de ${input.quantity} códigos`,
+                prefix,
+                quantity: input.quantity,
+                created_by: input.createdBy ?? null,
+            })
+            .select()
+            .single();
+
+        if (error) throw error;
+
+        try {
+            for (let created = 0; created < input.quantity; created += INSERT_CHUNK_SIZE) {
+                await this.insertChunk(offerId, batch.id, prefix, Math.min(INSERT_CHUNK_SIZE, input.quantity - created));
+            }
+        } catch (insertError) {
+            // A half-created batch would export fewer codes than printed
+            await supabaseAdmin.from('offer_code_batches').delete().eq('id', batch.id);
+            throw insertError;
+        }
+
+        // Once codes are printed the offer is only usable with one of them
+        const { error: offerError } = await supabaseAdmin.from('offers').update({ code_required: true }).eq('id', offerId);
+        if (offerError) throw offerError;
+
+        return this.summarize(batch, { available: input.quantity, redeemed: 0, revoked: 0 });
+    }
+
+    /**
+     * Batches of an offer with how many of their codes are still available, redeemed or revoked
+     */
+    static async listBatches(offerId: string): Promise<OfferCodeBatchSummary[]> {
+        const { data: batches, error } = await supabaseAdmin
+            .from('offer_code_batches')
+            .select('*')
+            .eq('offer_id', offerId)
+            .order('created_at', { ascending: false });
+
+        if (error) throw error;
+
+        return Promise.all((batches || []).map(async (batch) => {
+            const counts = { available: 0, redeemed: 0, revoked: 0 };
+            for (const status of Object.keys(counts) as OfferCodeStatus[]) {
+                const { count } = await supabaseAdmin
+                    .from('offer_codes')
+                    .select('id', { count: 'exact', head: true })
+                    .eq('batch_id', batch.id)
+                    .eq('status', status);
+                counts[status] = count || 0;
+            }
+            return this.summarize(batch, counts);
+        }));
+    }
+
+    /**
+     * Codes of an offer with the redemption behind each redeemed one
+     */
+    static async listCodes(offerId: string, filters: { batchId?: string; status?: OfferCodeStatus } = {}): Promise<any[]> {
+        const rows: any[] = [];
+
+        for (let from = 0; ; from += PAGE_SIZE) {
+            let query = supabaseAdmin
+                .from('offer_codes')
+                .select(`
+                    id, code, status, revoked_at, created_at, batch_id,
+                    offer_code_batches (name),
+                    offer_redemptions (user_id, reservation_id, created_at, users (name, email))
+                `)
+                .eq('offer_id', offerId);
+
+            if (filters.batchId) query = query.eq('batch_id', filters.batchId);
+            if (filters.status) query = query.eq('status', filters.status);
+
+            const { data, error } = await query
+                .order('created_at', { ascending: true })
+                .order('code', { ascending: true })
+                .range(from, from + PAGE_SIZE - 1);
+
+            if (error) throw error;
+            rows.push(...(data || []));
+            if (!data || data.length < PAGE_SIZE) return rows;
+        }
+    }
+
+    /**
+     * Revoke the codes of a batch (or the given codes) that were not used yet
+     * @returns number of codes revoked
+     */
+    static async revoke(offerId: string, target: { batchId?: string; codeIds?: string[] }): Promise<number> {
+        let query = supabaseAdmin
+            .from('offer_codes')
+            .update({ status: 'revoked', revoked_at: new Date().toISOString() })
+            .eq('offer_id', offerId)
+            .eq('status', 'available');
+
+        if (target.batchId) query = query.eq('batch_id', target.batchId);
+        if (target.codeIds?.length) query = query.in('id', target.codeIds);
+
+        const { data, error } = await query.select('id');
+        if (error) throw error;
+        return data?.length || 0;
+    }
+
+    /**
+     * Code with its offer, for validation and redemption
+     */
+    static async findByCode(code: string): Promise<any | null> {
+        const { data, error } = await supabaseAdmin
+            .from('offer_codes')
+            .select('id, code, status, offer_id, offers (*, restaurants (settings))')
+            .eq('code', normalizeCode(code))
+            .maybeSingle();
+
+        if (error) throw error;
+        return data;
+    }
+
+    private static async insertChunk(offerId: string, batchId: string, prefix: string | null, size: number): Promise<void> {
+        for (let attempt = 1; ; attempt++) {
+            const codes = new Set<string>();
+            while (codes.size < size) codes.add(generateCode(prefix));
+
+            const { error } = await supabaseAdmin
+                .from('offer_codes')
+                .insert([...codes].map((code) => ({ offer_id: offerId, batch_id: batchId, code })));
+
+            if (!error) return;
+            if (error.code !== UNIQUE_VIOLATION || attempt >= MAX_INSERT_ATTEMPTS) throw error;
+        }
+    }
+
+    private static summarize(batch: any, counts: Record<OfferCodeStatus, number>): OfferCodeBatchSummary {
+        return {
+            id: batch.id,
+            name: batch.name,
+            prefix: batch.prefix,
+            quantity: batch.quantity,
+            createdAt: batch.created_at,
+            ...counts,
+        };
+    }
+}
@@ -0,0 +1,529 @@
+import { supabaseAdmin } from '../config/supabase.js';
+import { timeToMinutes } from './availability.js';
+import { DepositRequirement } from './bookingPolicy.js';
+import { LOYALTY_SEGMENTS, LoyaltyService } from './loyalty.js';
+import { OfferCodeService } from './offerCodes.js';
+import { DEFAULT_TIMEZONE, getLocalNow } from './schedule.js';
+
+/**
+ * Sittara Offer Rules
+ * Decides whether a diner can use an offer: dates, days and hours, party size, global,
+ * per-user and per-day caps, first visit only, loyalty segment and stacking with other
+ * offers on the same reservation. /validate and /redeem share these rules; /redeem then
+ * re-checks the caps inside redeem_offer_atomic so concurrent redemptions cannot exceed them.
+ * /redeem only takes reservations without a deposit, whose amount was fixed when booking.
+ * A booking can carry an offer too: its discount lowers the deposit and the redemption is
+ * written by create_reservation_atomic together with the reservation.
+ */
+
+const WEEK_DAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const DAY_NAMES: Record<string, string> = {
+    monday: 'lunes', tuesday: 'martes', wednesday: 'miércoles', thursday: 'jueves',
+    friday: 'viernes', saturday: 'sábado', sunday: 'domingo',
+};
+// Statuses that count as having visited the restaurant
+const VISITED_STATUSES = ['arrived', 'seated', 'completed'];
+// Reservations that can no longer get a discount
+const CLOSED_RESERVATION_STATUSES = ['cancelled', 'no_show', 'completed'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+
+export type OfferRuleError =
+    | 'NOT_FOUND'
+    | 'OTHER_RESTAURANT'
+    | 'NOT_ACTIVE'
+    | 'OUTSIDE_DATES'
+    | 'INVALID_DAY'
+    | 'OUTSIDE_HOURS'
+    | 'PARTY_TOO_SMALL'
+    | 'PARTY_TOO_LARGE'
+    | 'FIRST_VISIT_ONLY'
+    | 'SEGMENT'
+    | 'NOT_STACKABLE'
+    | 'ALREADY_REDEEMED'
+    | 'USAGE_LIMIT'
+    | 'USER_LIMIT'
+    | 'DAILY_LIMIT'
+    | 'RESERVATION_NOT_FOUND'
+    | 'RESERVATION_CLOSED'
+    | 'RESERVATION_HAS_DEPOSIT'
+    | 'FORBIDDEN'
+    | 'CODE_REQUIRED'
+    | 'CODE_REDEEMED'
+    | 'CODE_REVOKED';
+
+export const OFFER_RULE_HTTP_STATUS: Record<OfferRuleError, number> = {
+    NOT_FOUND: 404,
+    OTHER_RESTAURANT: 400,
+    NOT_ACTIVE: 400,
+    OUTSIDE_DATES: 400,
+    INVALID_DAY: 400,
+    OUTSIDE_HOURS: 400,
+    PARTY_TOO_SMALL: 400,
+    PARTY_TOO_LARGE: 400,
+    FIRST_VISIT_ONLY: 400,
+    SEGMENT: 400,
+    NOT_STACKABLE: 400,
+    ALREADY_REDEEMED: 409,
+    USAGE_LIMIT: 400,
+    USER_LIMIT: 400,
+    DAILY_LIMIT: 400,
+    RESERVATION_NOT_FOUND: 404,
+    RESERVATION_CLOSED: 409,
+    RESERVATION_HAS_DEPOSIT: 409,
+    FORBIDDEN: 403,
+    CODE_REQUIRED: 400,
+    CODE_REDEEMED: 409,
+    CODE_REVOKED: 400,
+};
+
+export interface OfferRuleContext {
+    /** Local date the offer would be used (reservation date) */
+    date: string;
+    /** Local time (HH:MM), when known */
+    time?: string | null;
+    guestCount?: number | null;
+    /** Loyalty segment of the diner; only needed when the offer is limited to segments */
+    segment?: string | null;
+    /** Only needed for first-visit offers */
+    isFirstVisit?: boolean;
+    usage: {
+        /** Redemptions of this offer by the diner */
+        byUser: number;
+        /** Redemptions of this offer on `date` */
+        onDay: number;
+    };
+    /** Other offers already applied (or about to be applied) to the same reservation */
+    stackedOffers?: { id: string; stackable?: boolean | null }[];
+    /** The diner brought one of the offer's single-use codes */
+    hasCode?: boolean;
+}
+
+export interface OfferEvaluation {
+    eligible: boolean;
+    error?: OfferRuleError;
+    message?: string;
+}
+
+export interface OfferCheckInput {
+    userId: string;
+    restaurantId?: string;
+    date?: string;
+    time?: string;
+    guestCount?: number;
+    /** Offers the diner wants to combine with this one */
+    stackWith?: string[];
+}
+
+export interface OfferRedemptionInput {
+    offerId: string;
+    userId: string;
+    reservationId: string;
+    /** Single-use code of the offer being redeemed */
+    promoCode?: string;
+}
+
+export interface OfferDiscount {
+    /** Discount in MXN, never more than the amount */
+    discount: number;
+    /** What is left to pay, in MXN */
+    amount: number;
+}
+
+const hhmm = (time: string) => time.slice(0, 5);
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+export function getWeekDay(date: string): string {
+    return WEEK_DAYS[new Date(`${date}T12:00:00Z`).getUTCDay()];
+}
+
+/**
+ * Whether a time falls in [start, end); a window with start after end crosses midnight
+ */
+export function isWithinHours(time: string, start?: string | null, end?: string | null): boolean {
+    const minutes = timeToMinutes(time);
+    const from = start ? timeToMinutes(start) : null;
+    const to = end ? timeToMinutes(end) : null;
+
+    if (from !== null && to !== null && from > to) return minutes >= from || minutes < to;
+    if (from !== null && minutes < from) return false;
+    if (to !== null && minutes >= to) return false;
+    return true;
+}
+
+export function describeOfferRuleError(error: OfferRuleError, offer: any = {}): string {
+    switch (error) {
+        case 'NOT_FOUND': return 'Promoción no válida o expirada';
+        case 'OTHER_RESTAURANT': return 'Esta promoción no es válida en este restaurante';
+        case 'NOT_ACTIVE': return 'Esta promoción ya no está activa';
+        case 'OUTSIDE_DATES': return 'Esta promoción no está vigente para la fecha seleccionada';
+        case 'INVALID_DAY':
+            return `Esta oferta solo es válida los días: ${(offer.valid_days || []).map((d: string) => DAY_NAMES[d] || d).join(', ')}`;
+        case 'OUTSIDE_HOURS': {
+            const start = offer.valid_hours_start ? hhmm(offer.valid_hours_start) : null;
+            const end = offer.valid_hours_end ? hhmm(offer.valid_hours_end) : null;
+            if (start && end) return `Esta oferta solo es válida de ${start} a ${end}`;
+            return start ? `Esta oferta solo es válida a partir de las ${start}` : `Esta oferta solo es válida antes de las ${end}`;
+        }
+        case 'PARTY_TOO_SMALL': return `Esta oferta requiere un mínimo de ${offer.min_party_size} personas`;
+        case 'PARTY_TOO_LARGE': return `Esta oferta es válida para un máximo de ${offer.max_party_size} personas`;
+        case 'FIRST_VISIT_ONLY': return 'Esta promoción es solo para tu primera visita al restaurante';
+        case 'SEGMENT': return `Esta promoción es exclusiva para: ${(offer.allowed_segments || []).join(', ')}`;
+        case 'NOT_STACKABLE': return 'Esta promoción no se puede combinar con otras ofertas';
+        case 'ALREADY_REDEEMED': return 'Esta promoción ya se aplicó a la reserva';
+        case 'USAGE_LIMIT': return 'Esta promoción ha agotado su límite de usos';
+        case 'USER_LIMIT':
+            return Number(offer.max_uses_per_user) > 1
+                ? `Ya usaste esta promoción ${offer.max_uses_per_user} veces, el máximo permitido`
+                : 'Ya has utilizado esta promoción anteriormente';
+        case 'DAILY_LIMIT': return 'Esta promoción ya no tiene lugares disponibles para ese día';
+        case 'RESERVATION_NOT_FOUND': return 'Reserva no encontrada';
+        case 'RESERVATION_CLOSED': return 'Esta reserva ya no admite promociones';
+        case 'RESERVATION_HAS_DEPOSIT': return 'Esta reserva ya tiene un anticipo: las promociones se aplican al reservar';
+        case 'FORBIDDEN': return 'No puedes aplicar promociones a esta reserva';
+        case 'CODE_REQUIRED': return 'Esta promoción solo se puede usar con un código promocional';
+        case 'CODE_REDEEMED': return 'Este código ya fue utilizado';
+        case 'CODE_REVOKED': return 'Este código ya no es válido';
+    }
+}
+
+const getCodeError = (code: { status: string }): OfferRuleError | null =>
+    code.status === 'revoked' ? 'CODE_REVOKED' : (code.status === 'redeemed' ? 'CODE_REDEEMED' : null);
+
+const fail = (error: OfferRuleError, offer: any): OfferEvaluation => ({
+    eligible: false,
+    error,
+    message: describeOfferRuleError(error, offer),
+});
+
+/**
+ * Check every rule of an offer against one use of it; the first broken rule wins
+ */
+export function evaluateOfferRules(offer: any, context: OfferRuleContext): OfferEvaluation {
+    if (!offer.is_active) return fail('NOT_ACTIVE', offer);
+    if (offer.code_required && !context.hasCode) return fail('CODE_REQUIRED', offer);
+
+    if ((offer.valid_from && context.date < String(offer.valid_from).slice(0, 10)) ||
+        (offer.valid_until && context.date > String(offer.valid_until).slice(0, 10))) {
+        return fail('OUTSIDE_DATES', offer);
+    }
+
+    if (offer.valid_days?.length && !offer.valid_days.includes(getWeekDay(context.date))) {
+        return fail('INVALID_DAY', offer);
+    }
+
+    if (context.time && (offer.valid_hours_start || offer.valid_hours_end) &&
+        !isWithinHours(context.time, offer.valid_hours_start, offer.valid_hours_end)) {
+        return fail('OUTSIDE_HOURS', offer);
+    }
+
+    if (context.guestCount) {
+        if (offer.min_party_size && context.guestCount < offer.min_party_size) return fail('PARTY_TOO_SMALL', offer);
+        if (offer.max_party_size && context.guestCount > offer.max_party_size) return fail('PARTY_TOO_LARGE', offer);
+    }
+
+    if (offer.first_visit_only && context.isFirstVisit === false) return fail('FIRST_VISIT_ONLY', offer);
+
+    if (offer.allowed_segments?.length && !offer.allowed_segments.includes(context.segment)) {
+        return fail('SEGMENT', offer);
+    }
+
+    const stacked = context.stackedOffers || [];
+    if (stacked.some((other) => other.id === offer.id)) return fail('ALREADY_REDEEMED', offer);
+    if (stacked.length > 0 && (!offer.stackable || stacked.some((other) => !other.stackable))) {
+        return fail('NOT_STACKABLE', offer);
+    }
+
+    if (offer.max_usage && (offer.usage_count || 0) >= offer.max_usage) return fail('USAGE_LIMIT', offer);
+    if (offer.max_uses_per_user && context.usage.byUser >= offer.max_uses_per_user) return fail('USER_LIMIT', offer);
+    if (offer.max_uses_per_day && context.usage.onDay >= offer.max_uses_per_day) return fail('DAILY_LIMIT', offer);
+
+    return { eligible: true };
+}
+
+/**
+ * Number in a discount_value such as "20%", "$150" or "1,200 MXN"; 0 when it has none
+ */
+export function parseDiscountValue(value: unknown): number {
+    const match = String(value ?? '').replace(/,/g, '').match(/\d+(\.\d+)?/);
+    return match ? Number(match[0]) : 0;
+}
+
+/**
+ * Discount an offer gives on an amount charged for a party (the deposit at booking).
+ * percentage and fixed discount the amount; bogo (2x1) waives the share of every second
+ * guest; combo takes off its savings, as a percentage when written like "15%".
+ * 'special' offers are perks with no monetary value.
+ */
+export function calculateOfferDiscount(offer: any, amount: number, guestCount: number): OfferDiscount {
+    const value = parseDiscountValue(offer.discount_value);
+    const isPercent = String(offer.discount_value ?? '').includes('%');
+    let discount = 0;
+
+    switch (offer.discount_type) {
+        case 'percentage':
+            discount = amount * Math.min(value, 100) / 100;
+            break;
+        case 'fixed':
+            discount = value;
+            break;
+        case 'bogo':
+            discount = guestCount > 1 ? amount * Math.floor(guestCount / 2) / guestCount : 0;
+            break;
+        case 'combo':
+            discount = isPercent ? amount * Math.min(value, 100) / 100 : value;
+            break;
+    }
+
+    discount = roundMoney(Math.min(Math.max(discount, 0), amount));
+    return { discount, amount: roundMoney(amount - discount) };
+}
+
+/**
+ * Deposit of a booking once the offer is applied; a fully discounted deposit is no longer required
+ */
+export function applyOfferToDeposit(
+    deposit: DepositRequirement,
+    offer: any,
+    guestCount: number
+): { deposit: DepositRequirement; discount: number } {
+    if (!deposit.required) return { deposit, discount: 0 };
+
+    const { discount, amount } = calculateOfferDiscount(offer, deposit.amount, guestCount);
+    return { deposit: { ...deposit, required: amount > 0, amount }, discount };
+}
+
+/**
+ * Rule columns of an offer from a camelCase request body; only the fields present are returned
+ */
+export function parseOfferRules(body: Record<string, any>): { rules?: Record<string, any>; error?: string } {
+    const rules: Record<string, any> = {};
+    const limit = (value: any) => value === null || value === '' ? null : Number(value);
+    const isLimit = (value: number | null) => value === null || (Number.isInteger(value) && value > 0);
+
+    if (body.validDays !== undefined) {
+        if (body.validDays !== null && (!Array.isArray(body.validDays) || body.validDays.some((d: any) => !WEEK_DAYS.includes(d)))) {
+            return { error: `Días inválidos. Usa: ${WEEK_DAYS.join(', ')}` };
+        }
+        rules.valid_days = body.validDays?.length ? body.validDays : null;
+    }
+
+    for (const [field, column] of [['validHoursStart', 'valid_hours_start'], ['validHoursEnd', 'valid_hours_end']]) {
+        if (body[field] === undefined) continue;
+        if (body[field] && !TIME_PATTERN.test(body[field])) return { error: 'Los horarios deben tener formato HH:MM' };
+        rules[column] = body[field] || null;
+    }
+
+    const limits = [
+        ['minPartySize', 'min_party_size'],
+        ['maxPartySize', 'max_party_size'],
+        ['maxUsage', 'max_usage'],
+        ['maxUsesPerUser', 'max_uses_per_user'],
+        ['maxUsesPerDay', 'max_uses_per_day'],
+    ];
+    for (const [field, column] of limits) {
+        if (body[field] === undefined) continue;
+        const value = limit(body[field]);
+        if (!isLimit(value)) return { error: 'Los límites deben ser números enteros mayores a cero' };
+        rules[column] = value;
+    }
+
+    const minParty = rules.min_party_size ?? null;
+    const maxParty = rules.max_party_size ?? null;
+    if (minParty !== null && maxParty !== null && minParty > maxParty) {
+        return { error: 'El mínimo de personas no puede ser mayor al máximo' };
+    }
+
+    if (body.allowedSegments !== undefined) {
+        const segments = body.allowedSegments;
+        if (segments !== null && (!Array.isArray(segments) || segments.some((s: any) => !LOYALTY_SEGMENTS.includes(s)))) {
+            return { error: `Segmentos inválidos. Usa: ${LOYALTY_SEGMENTS.join(', ')}` };
+        }
+        rules.allowed_segments = segments?.length ? segments : null;
+    }
+
+    if (body.firstVisitOnly !== undefined) rules.first_visit_only = Boolean(body.firstVisitOnly);
+    if (body.stackable !== undefined) rules.stackable = Boolean(body.stackable);
+    if (body.codeRequired !== undefined) rules.code_required = Boolean(body.codeRequired);
+
+    return { rules };
+}
+
+export class OfferRulesService {
+    /**
+     * Check an offer (by id, single-use code or shared promo code) for a diner without using it.
+     * `code` is the single-use code row when the promo code was one.
+     */
+    static async validate(
+        reference: { offerId?: string; promoCode?: string },
+        input: OfferCheckInput
+    ): Promise<{ offer: any | null; code?: any; evaluation: OfferEvaluation }> {
+        const code = !reference.offerId && reference.promoCode
+            ? await OfferCodeService.findByCode(String(reference.promoCode))
+            : null;
+
+        if (code) {
+            const codeError = getCodeError(code);
+            if (codeError) return { offer: code.offers, code, evaluation: fail(codeError, code.offers) };
+        }
+
+        let offer = code?.offers;
+        if (!code) {
+            let query = supabaseAdmin.from('offers').select('*, restaurants (settings)').eq('is_active', true);
+            query = reference.offerId
+                ? query.eq('id', reference.offerId)
+                : query.eq('promo_code', String(reference.promoCode).toUpperCase());
+
+            const { data, error } = await query.maybeSingle();
+            if (error || !data) return { offer: null, evaluation: fail('NOT_FOUND', {}) };
+            offer = data;
+        }
+        if (input.restaurantId && offer.restaurant_id !== input.restaurantId) {
+            return { offer, evaluation: fail('OTHER_RESTAURANT', offer) };
+        }
+
+        // Without a reservation date the offer is checked for right now, in the restaurant's time
+        const local = getLocalNow(offer.restaurants?.settings?.timezone || DEFAULT_TIMEZONE);
+        const date = input.date || local.date;
+        const time = input.time || (input.date
+            ? null
+            : `${String(Math.floor(local.minutes / 60)).padStart(2, '0')}:${String(local.minutes % 60).padStart(2, '0')}`);
+
+        let stackedOffers: { id: string; stackable: boolean | null }[] = [];
+        const stackWith = (input.stackWith || []).filter((id) => id !== offer.id);
+        if (stackWith.length > 0) {
+            const { data } = await supabaseAdmin.from('offers').select('id, stackable').in('id', stackWith);
+            stackedOffers = data || [];
+        }
+
+        const context = await this.buildContext(offer, input.userId, {
+            date,
+            time,
+            guestCount: input.guestCount,
+            stackedOffers,
+            hasCode: Boolean(code),
+        });
+        return { offer, code: code ?? undefined, evaluation: evaluateOfferRules(offer, context) };
+    }
+
+    /**
+     * Apply an offer to one of the diner's reservations. The rules are checked against the
+     * reservation itself and the caps again inside the database, atomically.
+     */
+    static async redeem(input: OfferRedemptionInput): Promise<{ offer: any | null; evaluation: OfferEvaluation }> {
+        const { data: reservation } = await supabaseAdmin
+            .from('reservations')
+            .select('id, user_id, restaurant_id, date, time, guest_count, status, deposit_paid, deposit_amount, payment_intent_id')
+            .eq('id', input.reservationId)
+            .maybeSingle();
+
+        if (!reservation) return { offer: null, evaluation: fail('RESERVATION_NOT_FOUND', {}) };
+        if (reservation.user_id !== input.userId) return { offer: null, evaluation: fail('FORBIDDEN', {}) };
+        if (CLOSED_RESERVATION_STATUSES.includes(reservation.status)) {
+            return { offer: null, evaluation: fail('RESERVATION_CLOSED', {}) };
+        }
+        // The deposit was priced without this offer and is never lowered or refunded afterwards
+        if (reservation.deposit_paid || reservation.payment_intent_id || Number(reservation.deposit_amount) > 0) {
+            return { offer: null, evaluation: fail('RESERVATION_HAS_DEPOSIT', {}) };
+        }
+
+        const { data: offer } = await supabaseAdmin
+            .from('offers')
+            .select('*')
+            .eq('id', input.offerId)
+            .maybeSingle();
+
+        if (!offer) return { offer: null, evaluation: fail('NOT_FOUND', {}) };
+        if (offer.restaurant_id !== reservation.restaurant_id) return { offer, evaluation: fail('OTHER_RESTAURANT', offer) };
+
+        // Shared promo codes need no check here; single-use ones must belong to the offer
+        const code = input.promoCode ? await OfferCodeService.findByCode(input.promoCode) : null;
+        if (code && code.offer_id !== offer.id) return { offer, evaluation: fail('NOT_FOUND', {}) };
+        const codeError = code && getCodeError(code);
+        if (codeError) return { offer, evaluation: fail(codeError, offer) };
+
+        const { data: applied } = await supabaseAdmin
+            .from('offer_redemptions')
+            .select('offer_id, offers (stackable)')
+            .eq('reservation_id', reservation.id);
+
+        const context = await this.buildContext(offer, input.userId, {
+            date: reservation.date,
+            time: reservation.time,
+            guestCount: reservation.guest_count,
+            reservationId: reservation.id,
+            stackedOffers: (applied || []).map((row: any) => ({ id: row.offer_id, stackable: row.offers?.stackable ?? false })),
+            hasCode: Boolean(code),
+        });
+
+        const evaluation = evaluateOfferRules(offer, context);
+        if (!evaluation.eligible) return { offer, evaluation };
+
+        const { data: result, error } = await supabaseAdmin.rpc('redeem_offer_atomic', {
+            p_offer_id: offer.id,
+            p_user_id: input.userId,
+            p_reservation_id: reservation.id,
+            p_reservation_date: reservation.date,
+            // No deposit to take it off: the restaurant honours the offer at the table
+            p_discount_applied: 0,
+            p_offer_code_id: code?.id ?? null,
+        });
+
+        if (error) throw error;
+        if (result !== 'REDEEMED') return { offer, evaluation: fail(result as OfferRuleError, offer) };
+        return { offer, evaluation: { eligible: true } };
+    }
+
+    /**
+     * Usage counts, segment and first visit of the diner, loaded only for the rules the offer uses
+     */
+    private static async buildContext(
+        offer: any,
+        userId: string,
+        use: Omit<OfferRuleContext, 'usage' | 'segment' | 'isFirstVisit'> & { reservationId?: string }
+    ): Promise<OfferRuleContext> {
+        const context: OfferRuleContext = {
+            date: use.date,
+            time: use.time,
+            guestCount: use.guestCount,
+            stackedOffers: use.stackedOffers,
+            hasCode: use.hasCode,
+            usage: { byUser: 0, onDay: 0 },
+        };
+
+        if (offer.max_uses_per_user) {
+            const { count } = await supabaseAdmin
+                .from('offer_redemptions')
+                .select('id', { count: 'exact', head: true })
+                .eq('offer_id', offer.id)
+                .eq('user_id', userId);
+            context.usage.byUser = count || 0;
+        }
+
+        if (offer.max_uses_per_day) {
+            const { count } = await supabaseAdmin
+                .from('offer_redemptions')
+                .select('id', { count: 'exact', head: true })
+                .eq('offer_id', offer.id)
+                .eq('reservation_date', use.date);
+            context.usage.onDay = count || 0;
+        }
+
+        if (offer.allowed_segments?.length) {
+            context.segment = (await LoyaltyService.getProfile(userId)).segment;
+        }
+
+        if (offer.first_visit_only) {
+            let visits = supabaseAdmin
+                .from('reservations')
+                .select('id', { count: 'exact', head: true })
+                .eq('user_id', userId)
+                .eq('restaurant_id', offer.restaurant_id)
+                .in('status', VISITED_STATUSES);
+            if (use.reservationId) visits = visits.neq('id', use.reservationId);
+            const { count } = await visits;
+            context.isFirstVisit = (count || 0) === 0;
+        }
+
+        return context;
+    }
+}
@@ -0,0 +1,340 @@
+import { supabaseAdmin } from '../config/supabase.js';
+import { Logger } from './observability.js';
+import { PaymentEvent, getPaymentProvider } from './paymentProvider.js';
+import { DEFAULT_TIMEZONE, addDays, getLocalNow, zonedTimeToUtc } from './schedule.js';
+
+/**
+ * Sittara Payments Ledger
+ * One row in `payments` per real money movement reported by the payment provider (charge, refund, fee, dispute),
+ * keyed to the restaurant and reservation. Amounts are signed MXN: money in is positive.
+ * The reconciliation compares the ledger with the deposit fields stored on reservations.
+ */
+
+// Deposit statuses that mean the guest was charged at some point
+const CHARGED_DEPOSIT_STATUSES = ['paid', 'refunded', 'partially_refunded', 'disputed', 'dispute_lost'];
+const RESERVATION_FIELDS = `
+    id, restaurant_id, deposit_amount, deposit_status, deposit_paid_at, payment_intent_id,
+    cancellation_refund_amount, no_show_refund_amount
+`;
+
+export type LedgerEntryType = 'charge' | 'refund' | 'fee' | 'dispute' | 'dispute_reversal';
+
+export interface LedgerEntryInput {
+    type: LedgerEntryType;
+    /** Signed MXN: positive when money comes in */
+    amount: number;
+    currency: string;
+    provider_object_id: string;
+    payment_intent_id: string | null;
+    description: string;
+    occurred_at: string;
+}
+
+export interface LedgerFilters {
+    from?: string;
+    to?: string;
+    type?: LedgerEntryType;
+    reservationId?: string;
+    limit?: number;
+    offset?: number;
+}
+
+export interface LedgerTotals {
+    charges: number;
+    refunds: number;
+    fees: number;
+    disputes: number;
+    net: number;
+}
+
+export interface ReconciliationDay extends LedgerTotals {
+    date: string;
+    /** Deposits the reservations say were paid that day */
+    reservationDeposits: number;
+    /** charges - reservationDeposits; anything but 0 needs a look */
+    difference: number;
+}
+
+export type ReconciliationIssueType =
+    | 'missing_charge'
+    | 'unexpected_charge'
+    | 'charge_mismatch'
+    | 'refund_mismatch'
+    | 'unlinked_payment';
+
+export interface ReconciliationIssue {
+    issue: ReconciliationIssueType;
+    reservationId: string | null;
+    /** What the reservation's deposit fields say (MXN) */
+    expected: number;
+    /** What the ledger recorded (MXN) */
+    recorded: number;
+    paymentIntentId?: string | null;
+}
+
+export interface ReconciliationReport {
+    from: string;
+    to: string;
+    days: ReconciliationDay[];
+    totals: LedgerTotals & { reservationDeposits: number; difference: number };
+    issues: ReconciliationIssue[];
+    balanced: boolean;
+}
+
+interface LedgerRow {
+    type: LedgerEntryType;
+    amount: number | string;
+    occurred_at: string;
+    reservation_id: string | null;
+    payment_intent_id?: string | null;
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+export function sumLedger(rows: Pick<LedgerRow, 'type' | 'amount'>[]): LedgerTotals {
+    const totals: LedgerTotals = { charges: 0, refunds: 0, fees: 0, disputes: 0, net: 0 };
+    for (const row of rows) {
+        const amount = Number(row.amount) || 0;
+        if (row.type === 'charge') totals.charges += amount;
+        else if (row.type === 'refund') totals.refunds += amount;
+        else if (row.type === 'fee') totals.fees += amount;
+        else totals.disputes += amount;
+        totals.net += amount;
+    }
+    return {
+        charges: round(totals.charges),
+        refunds: round(totals.refunds),
+        fees: round(totals.fees),
+        disputes: round(totals.disputes),
+        net: round(totals.net),
+    };
+}
+
+/**
+ * Deposit charged and refunded according to the reservation's own fields (MXN, refund as a positive number).
+ * A partial refund whose amount the reservation does not record returns refunded: null.
+ */
+export function getExpectedDeposit(reservation: any): { charged: number; refunded: number | null } {
+    if (!CHARGED_DEPOSIT_STATUSES.includes(reservation.deposit_status)) return { charged: 0, refunded: 0 };
+
+    const charged = Number(reservation.deposit_amount) || 0;
+    if (reservation.deposit_status === 'refunded') return { charged, refunded: charged };
+    if (reservation.deposit_status === 'partially_refunded') {
+        const partial = Number(reservation.cancellation_refund_amount) || Number(reservation.no_show_refund_amount) || 0;
+        return { charged, refunded: partial > 0 ? partial : null };
+    }
+    return { charged, refunded: 0 };
+}
+
+/**
+ * Daily totals of the ledger next to the deposits recorded on reservations, plus every
+ * reservation whose ledger rows do not add up to its deposit fields
+ * @param rangeRows ledger rows that happened between from and to
+ * @param reservations reservations paid in the range or referenced by rangeRows
+ * @param reservationRows every ledger row of those reservations, whenever it happened
+ */
+export function buildReconciliation(
+    from: string,
+    to: string,
+    timezone: string,
+    rangeRows: LedgerRow[],
+    reservations: any[],
+    reservationRows: LedgerRow[]
+): ReconciliationReport {
+    const localDate = (iso: string) => getLocalNow(timezone, new Date(iso)).date;
+    const days: ReconciliationDay[] = [];
+
+    for (let date = from; date <= to; date = addDays(date, 1)) {
+        const totals = sumLedger(rangeRows.filter((row) => localDate(row.occurred_at) === date));
+        const reservationDeposits = round(reservations
+            .filter((r) => r.deposit_paid_at && localDate(r.deposit_paid_at) === date)
+            .reduce((sum, r) => sum + getExpectedDeposit(r).charged, 0));
+        days.push({ date, ...totals, reservationDeposits, difference: round(totals.charges - reservationDeposits) });
+    }
+
+    const issues: ReconciliationIssue[] = [];
+    for (const reservation of reservations) {
+        const expected = getExpectedDeposit(reservation);
+        const rows = reservationRows.filter((row) => row.reservation_id === reservation.id);
+        const { charges, refunds } = sumLedger(rows);
+        const base = { reservationId: reservation.id, paymentIntentId: reservation.payment_intent_id };
+
+        if (expected.charged > 0 && charges === 0) {
+            issues.push({ ...base, issue: 'missing_charge', expected: expected.charged, recorded: 0 });
+        } else if (expected.charged === 0 && charges > 0) {
+            issues.push({ ...base, issue: 'unexpected_charge', expected: 0, recorded: charges });
+        } else if (round(expected.charged - charges) !== 0) {
+            issues.push({ ...base, issue: 'charge_mismatch', expected: expected.charged, recorded: charges });
+        }
+
+        if (expected.refunded !== null && round(expected.refunded + refunds) !== 0) {
+            issues.push({ ...base, issue: 'refund_mismatch', expected: expected.refunded, recorded: Math.abs(refunds) });
+        }
+    }
+
+    for (const row of rangeRows) {
+        if (!row.reservation_id && row.type === 'charge') {
+            issues.push({
+                issue: 'unlinked_payment',
+                reservationId: null,
+                expected: 0,
+                recorded: Number(row.amount) || 0,
+                paymentIntentId: row.payment_intent_id,
+            });
+        }
+    }
+
+    const ledgerTotals = sumLedger(rangeRows);
+    const reservationDeposits = round(days.reduce((sum, day) => sum + day.reservationDeposits, 0));
+
+    return {
+        from,
+        to,
+        days,
+        totals: { ...ledgerTotals, reservationDeposits, difference: round(ledgerTotals.charges - reservationDeposits) },
+        issues,
+        balanced: issues.length === 0 && days.every((day) => day.difference === 0),
+    };
+}
+
+/**
+ * CSV export of ledger rows as listed by PaymentLedgerService.list
+ */
+export function toLedgerCsv(rows: any[]): string {
+    const header = ['fecha', 'tipo', 'monto', 'moneda', 'reserva', 'cliente', 'payment_intent', 'referencia', 'descripcion'];
+    const escape = (value: unknown) => {
+        const text = value === null || value === undefined ? '' : String(value);
+        return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const lines = rows.map((row) => [
+        row.occurred_at,
+        row.type,
+        row.amount,
+        row.currency,
+        row.reservation_id,
+        row.reservations?.users?.name,
+        row.payment_intent_id,
+        row.provider_object_id,
+        row.description,
+    ].map(escape).join(','));
+
+    return [header.join(','), ...lines].join('\n');
+}
+
+export class PaymentLedgerService {
+    /**
+     * Record the money movements behind a payment event; rows already in the ledger are skipped
+     * @param reservation the reservation the event settled, when the caller already has it
+     * @returns number of ledger rows the event maps to
+     */
+    static async recordEvent(event: PaymentEvent, reservation?: { id: string; restaurant_id: string } | null): Promise<number> {
+        const entries = await getPaymentProvider().getLedgerEntries(event);
+        if (entries.length === 0) return 0;
+
+        const paymentIntentId = entries[0].payment_intent_id;
+        const owner = reservation || (paymentIntentId ? await this.findReservation(paymentIntentId) : null);
+        if (!owner) {
+            Logger.warn('Payment without a reservation recorded in the ledger', { eventId: event.id, paymentIntentId });
+        }
+
+        const { error } = await supabaseAdmin
+            .from('payments')
+            .upsert(entries.map((entry) => ({
+                ...entry,
+                provider: event.provider,
+                provider_event_id: event.id,
+                restaurant_id: owner?.restaurant_id || null,
+                reservation_id: owner?.id || null,
+            })), { onConflict: 'provider,type,provider_object_id', ignoreDuplicates: true });
+
+        if (error) throw error;
+        return entries.length;
+    }
+
+    /**
+     * Ledger rows of a restaurant, newest first
+     */
+    static async list(restaurantId: string, filters: LedgerFilters = {}, timezone: string = DEFAULT_TIMEZONE): Promise<{ rows: any[]; total: number }> {
+        let query = supabaseAdmin
+            .from('payments')
+            .select(`
+                id, type, amount, currency, provider, provider_object_id, payment_intent_id,
+                description, occurred_at, reservation_id,
+                reservations (date, time, guest_count, users:user_id (name, email))
+            `, { count: 'exact' })
+            .eq('restaurant_id', restaurantId)
+            .order('occurred_at', { ascending: false });
+
+        if (filters.from) query = query.gte('occurred_at', zonedTimeToUtc(filters.from, '00:00', timezone).toISOString());
+        if (filters.to) query = query.lt('occurred_at', zonedTimeToUtc(addDays(filters.to, 1), '00:00', timezone).toISOString());
+        if (filters.type) query = query.eq('type', filters.type);
+        if (filters.reservationId) query = query.eq('reservation_id', filters.reservationId);
+        if (filters.limit !== undefined) {
+            const offset = filters.offset || 0;
+            query = query.range(offset, offset + filters.limit - 1);
+        }
+
+        const { data, error, count } = await query;
+        if (error) throw error;
+        return { rows: data || [], total: count || 0 };
+    }
+
+    /**
+     * Reconciliation report of a restaurant between two local dates (inclusive)
+     */
+    static async reconcile(restaurantId: string, from: string, to: string, timezone: string = DEFAULT_TIMEZONE): Promise<ReconciliationReport> {
+        const start = zonedTimeToUtc(from, '00:00', timezone).toISOString();
+        const end = zonedTimeToUtc(addDays(to, 1), '00:00', timezone).toISOString();
+
+        const { data: rangeRows, error: ledgerError } = await supabaseAdmin
+            .from('payments')
+            .select('type, amount, occurred_at, reservation_id, payment_intent_id')
+            .eq('restaurant_id', restaurantId)
+            .gte('occurred_at', start)
+            .lt('occurred_at', end);
+        if (ledgerError) throw ledgerError;
+
+        const { data: paid, error: paidError } = await supabaseAdmin
+            .from('reservations')
+            .select(RESERVATION_FIELDS)
+            .eq('restaurant_id', restaurantId)
+            .gte('deposit_paid_at', start)
+            .lt('deposit_paid_at', end);
+        if (paidError) throw paidError;
+
+        // Reservations paid earlier but refunded or disputed in the range
+        const known = new Set((paid || []).map((r: any) => r.id));
+        const missing = [...new Set((rangeRows || []).map((row) => row.reservation_id).filter((id): id is string => !!id && !known.has(id)))];
+        let reservations = paid || [];
+        if (missing.length > 0) {
+            const { data: others, error } = await supabaseAdmin
+                .from('reservations')
+                .select(RESERVATION_FIELDS)
+                .in('id', missing);
+            if (error) throw error;
+            reservations = [...reservations, ...(others || [])];
+        }
+
+        let reservationRows: LedgerRow[] = [];
+        if (reservations.length > 0) {
+            const { data, error } = await supabaseAdmin
+                .from('payments')
+                .select('type, amount, occurred_at, reservation_id')
+                .in('reservation_id', reservations.map((r: any) => r.id));
+            if (error) throw error;
+            reservationRows = data || [];
+        }
+
+        return buildReconciliation(from, to, timezone, rangeRows || [], reservations, reservationRows);
+    }
+
+    private static async findReservation(paymentIntentId: string): Promise<{ id: string; restaurant_id: string } | null> {
+        const { data } = await supabaseAdmin
+            .from('reservations')
+            .select('id, restaurant_id')
+            .eq('payment_intent_id', paymentIntentId)
+            .maybeSingle();
+        return data;
+    }
+}
@@ -0,0 +1,125 @@
+import { env } from '../config/env.js';
+import type { LedgerEntryInput } from './paymentLedger.js';
+import { FakePaymentProvider } from './fakePaymentProvider.js';
+import { StripePaymentProvider } from './stripePaymentProvider.js';
+
+/**
+ * Sittara Payment Providers
+ * Deposits, refunds and webhooks go through a PaymentProvider so the rest of the backend never
+ * talks to Stripe directly. PAYMENT_PROVIDER (read in config/env.ts) picks the implementation: 'stripe'
+ * (default) or 'fake', an in-memory provider the Jest suite uses so no test needs the network.
+ * Amounts are always MXN (not centavos) on this side of the interface.
+ */
+
+export type PaymentProviderName = 'stripe' | 'fake';
+
+export type PaymentIntentStatus =
+    | 'requires_payment_method'
+    | 'requires_confirmation'
+    | 'requires_action'
+    | 'processing'
+    | 'succeeded'
+    | 'canceled';
+
+export interface ProviderPaymentIntent {
+    id: string;
+    status: PaymentIntentStatus;
+    /** Amount requested (MXN) */
+    amount: number;
+    /** Amount actually collected (MXN) */
+    amountReceived: number;
+    currency: string;
+    /** Handed to the client to complete the payment; null once it can no longer be paid */
+    clientSecret: string | null;
+    metadata: Record<string, string>;
+    lastError?: string | null;
+}
+
+export interface CreatePaymentIntentInput {
+    amount: number;
+    currency: string;
+    metadata: Record<string, string>;
+    /** Same key, same intent: protects against retries and double clicks */
+    idempotencyKey?: string;
+}
+
+export interface RefundInput {
+    paymentIntentId: string;
+    /** Defaults to whatever is left on the payment */
+    amount?: number;
+    metadata?: Record<string, string>;
+}
+
+export interface ProviderRefund {
+    id: string;
+    amount: number;
+    currency: string;
+    status: 'pending' | 'succeeded' | 'failed' | 'canceled' | 'requires_action';
+}
+
+export type PaymentEventType =
+    | 'payment.succeeded'
+    | 'payment.failed'
+    | 'charge.refunded'
+    | 'dispute.created'
+    | 'dispute.closed'
+    /** Funds withdrawn or reinstated while a dispute is open; only the ledger cares */
+    | 'dispute.updated'
+    | 'other';
+
+/**
+ * A verified webhook event, reduced to what deposits and the ledger need
+ */
+export interface PaymentEvent {
+    id: string;
+    provider: PaymentProviderName;
+    type: PaymentEventType;
+    /** The provider's own event type, stored for auditing */
+    providerType: string;
+    paymentIntentId: string | null;
+    /** payment.succeeded and payment.failed */
+    intent?: ProviderPaymentIntent;
+    /** charge.refunded: the charge and how much of it was refunded so far (MXN) */
+    charge?: { amount: number; amountRefunded: number };
+    /** dispute.*: the provider's dispute status ('lost', 'won'...) */
+    disputeStatus?: string;
+    /** Original event as received, stored in payment_events */
+    payload: unknown;
+}
+
+export interface PaymentProvider {
+    readonly name: PaymentProviderName;
+    createIntent(input: CreatePaymentIntentInput): Promise<ProviderPaymentIntent>;
+    /** Current state of an intent; what the confirm fast path and the expiry job rely on */
+    retrieveIntent(paymentIntentId: string): Promise<ProviderPaymentIntent>;
+    cancelIntent(paymentIntentId: string): Promise<void>;
+    refund(input: RefundInput): Promise<ProviderRefund>;
+    /**
+     * Verify and parse a webhook delivery
+     * @throws when the signature or the payload is not valid
+     */
+    parseWebhook(rawBody: Buffer, headers: Record<string, string | string[] | undefined>): PaymentEvent;
+    /** Money movements behind an event, ready for the payments ledger */
+    getLedgerEntries(event: PaymentEvent): Promise<LedgerEntryInput[]>;
+}
+
+let provider: PaymentProvider | null = null;
+
+/**
+ * Provider configured for this process, created on first use
+ */
+export function getPaymentProvider(): PaymentProvider {
+    if (!provider) {
+        provider = env.paymentProvider === 'fake'
+            ? new FakePaymentProvider()
+            : new StripePaymentProvider(env.stripeSecretKey, env.stripeWebhookSecret);
+    }
+    return provider;
+}
+
+/**
+ * Replace the provider (tests use it to start from a clean fake)
+ */
+export function setPaymentProvider(next: PaymentProvider | null): void {
+    provider = next;
+}
@@ -0,0 +1,43 @@
+import jwt from 'jsonwebtoken';
+import { env } from '../config/env.js';
+
+/**
+ * Phone Verification
+ * After a guest enters the SMS code we hand back a short-lived token for that phone,
+ * so public endpoints (e.g. joining the waitlist from the door) can trust the number.
+ */
+
+const TOKEN_PURPOSE = 'phone_verification';
+const TOKEN_TTL = '30m';
+
+/**
+ * Keep only digits and a leading "+"; null if it cannot be a phone number
+ */
+export function normalizePhone(phone: unknown): string | null {
+    if (typeof phone !== 'string') return null;
+    const trimmed = phone.trim();
+    const digits = trimmed.replace(/\D/g, '');
+    if (digits.length < 8 || digits.length > 15) return null;
+    return trimmed.startsWith('+') ? `+${digits}` : digits;
+}
+
+export class PhoneVerificationService {
+    static issueToken(phone: string): string {
+        return jwt.sign({ phone, purpose: TOKEN_PURPOSE }, env.jwtSecret, { expiresIn: TOKEN_TTL });
+    }
+
+    /**
+     * Whether the token was issued for this phone and has not expired
+     */
+    static isVerified(token: unknown, phone: unknown): boolean {
+        const normalized = normalizePhone(phone);
+        if (typeof token !== 'string' || !normalized) return false;
+
+        try {
+            const payload = jwt.verify(token, env.jwtSecret) as { phone?: string; purpose?: string };
+            return payload.purpose === TOKEN_PURPOSE && payload.phone === normalized;
+        } catch {
+            return false;
+        }
+    }
+}
@@ -0,0 +1,235 @@
+import { Response } from 'express';
+import { REALTIME_LISTEN_TYPES, REALTIME_POSTGRES_CHANGES_LISTEN_EVENT } from '@supabase/supabase-js';
+import type { RealtimeChannel, RealtimePostgresChangesFilter, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabaseAdmin } from '../config/supabase.js';
+import { Logger } from './observability.js';
+import { TableStatusService } from './tableStatus.js';
+
+/**
+ * Sittara Realtime Events
+ * Listens to database changes of reservations, tables and waitlist (Supabase Realtime)
+ * and pushes them over Server-Sent Events to the screens of each restaurant.
+ * Every backend instance listens on its own, so clients can connect to any of them.
+ */
+
+const WATCHED_TABLES = ['reservations', 'tables', 'waitlist'] as const;
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+// Bursts of changes (e.g. a combination of tables) produce a single status report
+const REPORT_DEBOUNCE_MS = 300;
+// Fields not needed on the floor screens
+const PRIVATE_FIELDS = ['payment_intent_id', 'qr_code'];
+
+type WatchedTable = typeof WATCHED_TABLES[number];
+
+export type RealtimeEventType =
+    | 'reservation.created'
+    | 'reservation.status_changed'
+    | 'reservation.updated'
+    | 'reservation.deleted'
+    | 'table.status_changed'
+    | 'table.updated'
+    | 'waitlist.updated'
+    | 'tables.report';
+
+export interface RealtimeEvent {
+    type: RealtimeEventType;
+    restaurantId: string;
+    data: Record<string, any>;
+    at: string;
+}
+
+export interface DatabaseChange {
+    eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+    new: Record<string, any>;
+    old: Record<string, any>;
+}
+
+function publicRecord(record: Record<string, any> = {}): Record<string, any> {
+    const copy = { ...record };
+    for (const field of PRIVATE_FIELDS) delete copy[field];
+    return copy;
+}
+
+/**
+ * Translate a database change into the event the screens listen to
+ */
+export function toRealtimeEvent(table: WatchedTable, change: DatabaseChange, at: Date = new Date()): RealtimeEvent | null {
+    const record = change.eventType === 'DELETE' ? change.old : change.new;
+    const restaurantId = record?.restaurant_id;
+    if (!restaurantId) return null;
+
+    const statusChanged = change.eventType === 'UPDATE' && change.old?.status !== undefined && change.old.status !== change.new.status;
+    let type: RealtimeEventType;
+    let data: Record<string, any>;
+
+    if (table === 'reservations') {
+        if (change.eventType === 'INSERT') type = 'reservation.created';
+        else if (change.eventType === 'DELETE') type = 'reservation.deleted';
+        else type = statusChanged ? 'reservation.status_changed' : 'reservation.updated';
+        data = { reservation: publicRecord(record) };
+    } else if (table === 'tables') {
+        type = statusChanged ? 'table.status_changed' : 'table.updated';
+        data = { table: record, deleted: change.eventType === 'DELETE' };
+    } else {
+        type = 'waitlist.updated';
+        data = { entry: record, action: change.eventType.toLowerCase() };
+    }
+
+    if (statusChanged) {
+        data.previousStatus = change.old.status;
+        data.status = change.new.status;
+    }
+
+    return { type, restaurantId, data, at: at.toISOString() };
+}
+
+export function formatSseMessage(id: number, event: RealtimeEvent): string {
+    return `id: ${id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+export class RealtimeService {
+    private static clients = new Map<string, Set<Response>>();
+    private static reportTimers = new Map<string, NodeJS.Timeout>();
+    private static channel: RealtimeChannel | null = null;
+    private static heartbeat: NodeJS.Timeout | null = null;
+    private static sequence = 0;
+
+    /**
+     * Subscribe to database changes; call once per instance
+     */
+    static start(): void {
+        if (this.channel) return;
+
+        let channel = supabaseAdmin.channel('sittara-restaurant-events');
+        for (const table of WATCHED_TABLES) {
+            const filter: RealtimePostgresChangesFilter<`${REALTIME_POSTGRES_CHANGES_LISTEN_EVENT.ALL}`> = {
+                event: REALTIME_POSTGRES_CHANGES_LISTEN_EVENT.ALL,
+                schema: 'public',
+                table,
+            };
+            channel = channel.on(
+                REALTIME_LISTEN_TYPES.POSTGRES_CHANGES,
+                filter,
+                (payload: RealtimePostgresChangesPayload<Record<string, any>>) => this.handleChange(table, payload)
+            );
+        }
+
+        this.channel = channel.subscribe((status: string, error?: Error) => {
+            if (status === 'SUBSCRIBED') {
+                Logger.info('Realtime events subscribed', { tables: WATCHED_TABLES });
+            } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+                Logger.error('Realtime events channel error', { status, error: error?.message });
+            }
+        });
+
+        this.heartbeat = setInterval(() => this.writeAll(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+        this.heartbeat.unref();
+    }
+
+    static async stop(): Promise<void> {
+        if (this.heartbeat) clearInterval(this.heartbeat);
+        this.heartbeat = null;
+        this.reportTimers.forEach(timer => clearTimeout(timer));
+        this.reportTimers.clear();
+
+        for (const clients of this.clients.values()) {
+            clients.forEach(res => res.end());
+        }
+        this.clients.clear();
+
+        if (this.channel) {
+            await supabaseAdmin.removeChannel(this.channel);
+            this.channel = null;
+        }
+    }
+
+    /**
+     * Turn the response into an event stream for a restaurant
+     * @returns unsubscribe function (also called when the client disconnects)
+     */
+    static subscribe(restaurantId: string, res: Response): () => void {
+        res.status(200);
+        res.setHeader('Content-Type', 'text/event-stream');
+        res.setHeader('Cache-Control', 'no-cache, no-transform');
+        res.setHeader('Connection', 'keep-alive');
+        // Disable proxy buffering (nginx) so events arrive immediately
+        res.setHeader('X-Accel-Buffering', 'no');
+        res.flushHeaders();
+        res.write('retry: 3000\n\n');
+
+        const clients = this.clients.get(restaurantId) || new Set<Response>();
+        clients.add(res);
+        this.clients.set(restaurantId, clients);
+
+        const unsubscribe = () => {
+            clients.delete(res);
+            if (clients.size === 0) this.clients.delete(restaurantId);
+        };
+        res.on('close', unsubscribe);
+
+        // Current floor state right away, so the screen does not wait for the next change
+        this.publishReport(restaurantId, res);
+        return unsubscribe;
+    }
+
+    static connectionCount(restaurantId?: string): number {
+        if (restaurantId) return this.clients.get(restaurantId)?.size || 0;
+        let total = 0;
+        this.clients.forEach(clients => { total += clients.size; });
+        return total;
+    }
+
+    static publish(event: RealtimeEvent): void {
+        const clients = this.clients.get(event.restaurantId);
+        if (!clients || clients.size === 0) return;
+
+        const message = formatSseMessage(++this.sequence, event);
+        clients.forEach(res => res.write(message));
+    }
+
+    private static handleChange(table: WatchedTable, payload: DatabaseChange): void {
+        const event = toRealtimeEvent(table, payload);
+        if (!event || !this.clients.has(event.restaurantId)) return;
+
+        this.publish(event);
+        if (table !== 'waitlist') this.scheduleReport(event.restaurantId);
+    }
+
+    /**
+     * Recompute the table status report once per burst of changes and share it with every screen
+     */
+    private static scheduleReport(restaurantId: string): void {
+        if (this.reportTimers.has(restaurantId)) return;
+
+        const timer = setTimeout(() => {
+            this.reportTimers.delete(restaurantId);
+            this.publishReport(restaurantId);
+        }, REPORT_DEBOUNCE_MS);
+        timer.unref();
+        this.reportTimers.set(restaurantId, timer);
+    }
+
+    private static async publishReport(restaurantId: string, only?: Response): Promise<void> {
+        try {
+            const report = await TableStatusService.getRestaurantStatusReport(restaurantId);
+            const event: RealtimeEvent = {
+                type: 'tables.report',
+                restaurantId,
+                data: { tables: report },
+                at: new Date().toISOString(),
+            };
+
+            if (only) {
+                if (!only.writableEnded) only.write(formatSseMessage(++this.sequence, event));
+            } else {
+                this.publish(event);
+            }
+        } catch (error: any) {
+            Logger.error('Error publishing table status report', { restaurantId, error: error?.message });
+        }
+    }
+
+    private static writeAll(message: string): void {
+        this.clients.forEach(clients => clients.forEach(res => res.write(message)));
+    }
+}
@@ -0,0 +1,272 @@
+import crypto from 'crypto';
+import { supabaseAdmin } from '../config/supabase.js';
+import { env } from '../config/env.js';
+import { CancellationPolicyService } from './cancellationPolicy.js';
+import * as emailService from './email.js';
+import { FeatureFlagService } from './featureFlag.js';
+import { JobLockService } from './jobLock.js';
+import { NotificationService } from './notifications.js';
+import { Logger } from './observability.js';
+import { DEFAULT_TIMEZONE, addDays, zonedTimeToUtc } from './schedule.js';
+
+/**
+ * Sittara Reminder Scheduler
+ * Sends in-app and email reminders at settings.reminderHours before each confirmed reservation.
+ * Every reminder is recorded in reservation_reminders so it is sent at most once.
+ */
+
+const JOB_NAME = 'reservation_reminders';
+const FEATURE_FLAG = 'reservation_reminders';
+const DEFAULT_REMINDER_HOURS = [24, 2];
+// Reminders further ahead than this are ignored to keep the scan small
+const MAX_REMINDER_HOURS = 168;
+const TICK_INTERVAL_MS = 5 * 60 * 1000;
+const LOCK_TTL_SECONDS = 4 * 60;
+const UNIQUE_VIOLATION = '23505';
+
+export interface ReminderPlan {
+    /** Offset (hours before) to send now, if any */
+    send: number | null;
+    /** Offsets that are due but will not be sent (superseded or booked after their time) */
+    skip: number[];
+}
+
+/**
+ * Decide which reminder offsets of a reservation are due.
+ * When several are due at once (e.g. after downtime) only the closest to the reservation is sent.
+ */
+export function planReminders(
+    reservation: { date: string; time: string; created_at?: string | null },
+    reminderHours: number[],
+    timezone: string,
+    now: Date,
+    alreadyRecorded: number[] = []
+): ReminderPlan {
+    const startsAt = zonedTimeToUtc(reservation.date, reservation.time, timezone).getTime();
+    const createdAt = reservation.created_at ? Date.parse(reservation.created_at) : 0;
+
+    if (now.getTime() >= startsAt) return { send: null, skip: [] };
+
+    const due = reminderHours
+        .filter(hours => hours > 0 && hours <= MAX_REMINDER_HOURS && !alreadyRecorded.includes(hours))
+        .filter(hours => now.getTime() >= startsAt - hours * 3600000)
+        .sort((a, b) => a - b);
+
+    // A reminder whose moment passed before the booking existed makes no sense to send
+    const sendable = due.filter(hours => createdAt <= startsAt - hours * 3600000);
+    const send = sendable.length > 0 ? sendable[0] : null;
+
+    return { send, skip: due.filter(hours => hours !== send) };
+}
+
+export function getReminderHours(settings: Record<string, any> = {}): number[] {
+    const hours = Array.isArray(settings.reminderHours) ? settings.reminderHours : DEFAULT_REMINDER_HOURS;
+    return Array.from(new Set(hours.map(Number).filter((h: number) => Number.isInteger(h) && h > 0)));
+}
+
+export function buildReminderLinks(token: string) {
+    const base = `${env.frontendUrl}/recordatorio/${token}`;
+    return {
+        confirmUrl: `${base}?accion=confirmar`,
+        cancelUrl: `${base}?accion=cancelar`,
+    };
+}
+
+export class ReminderService {
+    private static stopJob: (() => void) | null = null;
+
+    /**
+     * Start the background loop; safe to call on every instance thanks to the job lock
+     */
+    static start(intervalMs: number = TICK_INTERVAL_MS): void {
+        if (this.stopJob) return;
+        this.stopJob = JobLockService.startRecurring(JOB_NAME, intervalMs, LOCK_TTL_SECONDS, () => this.runOnce());
+    }
+
+    static stop(): void {
+        this.stopJob?.();
+        this.stopJob = null;
+    }
+
+    /**
+     * Scan upcoming confirmed reservations and send the reminders that are due
+     * @returns number of reminders sent
+     */
+    static async runOnce(now: Date = new Date()): Promise<number> {
+        const today = now.toISOString().split('T')[0];
+
+        const { data: reservations, error } = await supabaseAdmin
+            .from('reservations')
+            .select(`
+                id, user_id, restaurant_id, date, time, guest_count, status, created_at,
+                restaurants (id, name, settings),
+                users (id, name, email),
+                reservation_reminders (offset_hours)
+            `)
+            .eq('status', 'confirmed')
+            .gte('date', addDays(today, -1))
+            .lte('date', addDays(today, Math.ceil(MAX_REMINDER_HOURS / 24) + 1));
+
+        if (error) throw error;
+
+        let sent = 0;
+        const enabledByRestaurant = new Map<string, boolean>();
+
+        for (const reservation of reservations || []) {
+            const restaurant: any = reservation.restaurants;
+            const settings = restaurant?.settings || {};
+
+            if (!enabledByRestaurant.has(reservation.restaurant_id)) {
+                enabledByRestaurant.set(
+                    reservation.restaurant_id,
+                    await FeatureFlagService.isEnabled(FEATURE_FLAG, reservation.restaurant_id)
+                );
+            }
+            if (!enabledByRestaurant.get(reservation.restaurant_id)) continue;
+
+            const recorded = ((reservation.reservation_reminders || []) as any[]).map(r => r.offset_hours);
+            const plan = planReminders(
+                reservation,
+                getReminderHours(settings),
+                settings.timezone || DEFAULT_TIMEZONE,
+                now,
+                recorded
+            );
+
+            if (plan.skip.length > 0) {
+                await supabaseAdmin
+                    .from('reservation_reminders')
+                    .upsert(
+                        plan.skip.map(hours => ({ reservation_id: reservation.id, offset_hours: hours, status: 'skipped' })),
+                        { onConflict: 'reservation_id,offset_hours', ignoreDuplicates: true }
+                    );
+            }
+
+            if (plan.send !== null && await this.sendReminder(reservation, plan.send)) {
+                sent++;
+            }
+        }
+
+        if (sent > 0) {
+            Logger.info('Reservation reminders sent', { count: sent });
+        }
+        return sent;
+    }
+
+    /**
+     * Claim the reminder row first, then notify; a concurrent sender loses on the unique constraint
+     */
+    private static async sendReminder(reservation: any, offsetHours: number): Promise<boolean> {
+        const token = crypto.randomBytes(24).toString('hex');
+
+        const { data: reminder, error: claimError } = await supabaseAdmin
+            .from('reservation_reminders')
+            .insert({
+                reservation_id: reservation.id,
+                offset_hours: offsetHours,
+                status: 'sent',
+                action_token: token,
+            })
+            .select('id')
+            .single();
+
+        if (claimError) {
+            if (claimError.code !== UNIQUE_VIOLATION) {
+                Logger.error('Error recording reminder', { reservationId: reservation.id, error: claimError.message });
+            }
+            return false;
+        }
+
+        const restaurantName = reservation.restaurants?.name || 'el restaurante';
+        const time = String(reservation.time).substring(0, 5);
+        const links = buildReminderLinks(token);
+
+        await NotificationService.createNotification({
+            userId: reservation.user_id,
+            type: 'reservation_reminder',
+            title: 'Recordatorio de reserva',
+            message: `Tu reserva en ${restaurantName} es el ${reservation.date} a las ${time}. ¿Nos confirmas tu asistencia?`,
+            data: { reservationId: reservation.id, offsetHours, token, ...links },
+        });
+
+        const email = reservation.users?.email;
+        if (email) {
+            const result = await emailService.sendReservationReminder(email, reservation, { restaurantName, ...links });
+            await supabaseAdmin
+                .from('reservation_reminders')
+                .update({ email_sent: result.success })
+                .eq('id', reminder.id);
+        }
+
+        return true;
+    }
+
+    /**
+     * Reminder and reservation behind a reminder link
+     */
+    static async findByToken(token: string): Promise<any | null> {
+        const { data, error } = await supabaseAdmin
+            .from('reservation_reminders')
+            .select(`
+                id, action_taken, action_taken_at,
+                reservations (
+                    id, user_id, restaurant_id, table_id, linked_table_ids, date, time, guest_count, status,
+                    deposit_paid, payment_intent_id, guest_confirmed_at,
+                    restaurants (id, name, address, phone)
+                )
+            `)
+            .eq('action_token', token)
+            .maybeSingle();
+
+        if (error || !data) return null;
+        return data;
+    }
+
+    /**
+     * Guest confirms attendance from the reminder link
+     */
+    static async confirmFromReminder(reminder: any): Promise<void> {
+        const reservation = reminder.reservations;
+        const now = new Date().toISOString();
+
+        const { error } = await supabaseAdmin
+            .from('reservations')
+            .update({ guest_confirmed_at: now, updated_at: now })
+            .eq('id', reservation.id);
+
+        if (error) throw error;
+
+        await supabaseAdmin
+            .from('reservation_reminders')
+            .update({ action_taken: 'confirmed', action_taken_at: now })
+            .eq('id', reminder.id);
+    }
+
+    /**
+     * Guest cancels from the reminder link: frees the tables and refunds the deposit per the cancellation policy
+     * @returns false if the reservation could no longer be cancelled
+     */
+    static async cancelFromReminder(reminder: any): Promise<boolean> {
+        const reservation = reminder.reservations;
+
+        // The cancellation policy refunds the guest's share of any deposit
+        const result = await CancellationPolicyService.cancel(reservation.id, {
+            actor: { type: 'guest', id: reservation.user_id },
+            source: 'reminder.cancel',
+            metadata: { reminderId: reminder.id },
+        });
+        if (!result.changed) return false;
+
+        await supabaseAdmin
+            .from('reservation_reminders')
+            .update({ action_taken: 'cancelled', action_taken_at: new Date().toISOString() })
+            .eq('id', reminder.id);
+
+        Logger.persistSystemMetric('reservation_cancelled', 1, {
+            restaurantId: reservation.restaurant_id,
+            reservationId: reservation.id,
+            source: 'reminder',
+        });
+        return true;
+    }
+}
@@ -0,0 +1,250 @@
+import { supabaseAdmin } from '../config/supabase.js';
+import { AvailabilityService, timeToMinutes } from './availability.js';
+import { PartyDietary } from './dietary.js';
+import { OfferRuleError } from './offerRules.js';
+import { ProviderPaymentIntent, getPaymentProvider } from './paymentProvider.js';
+import { generateDaySchedule } from './schedule.js';
+import { TableAssignmentService } from './tableAssignment.js';
+
+/**
+ * Sittara Reservation Booking
+ * Creates reservations through the create_reservation_atomic RPC so the database
+ * exclusion constraint, not an earlier read, is the final word on double bookings.
+ */
+
+// Postgres error codes returned by the RPC
+export const EXCLUSION_VIOLATION = '23P01';
+const UNIQUE_VIOLATION = '23505';
+const CHECK_VIOLATION = '23514';
+// Message prefix of the RPC when the offer of the booking can no longer be redeemed
+const OFFER_REJECTED = 'offer_rejected:';
+
+const MAX_ALTERNATIVE_TIMES = 4;
+
+export interface AtomicReservationInput {
+    restaurantId: string;
+    userId: string;
+    tableId: string | null;
+    /** Extra tables held by a combined reservation */
+    linkedTableIds?: string[];
+    date: string;
+    time: string;
+    endTime: string;
+    bufferMinutes: number;
+    guestCount: number;
+    occasion?: string | null;
+    specialRequest?: string | null;
+    status: 'pending' | 'confirmed';
+    qrCode: string;
+    deposit?: VerifiedDeposit | null;
+    /** Unpaid deposit the reservation is held for (pending until it is paid) */
+    depositHold?: DepositHold | null;
+    /** Offer redeemed together with the reservation */
+    offer?: BookingOffer | null;
+    /** Party's dietary restrictions and allergies, shown to the staff */
+    dietary?: PartyDietary | null;
+}
+
+export interface AtomicReservationResult {
+    reservation: any | null;
+    /** The table was taken by another booking for an overlapping period */
+    conflict: boolean;
+    /** The PaymentIntent is already attached to another reservation */
+    duplicatePayment: boolean;
+    /** The offer hit one of its caps inside the transaction; nothing was created */
+    offerError?: OfferRuleError;
+}
+
+export interface AtomicRescheduleInput {
+    reservationId: string;
+    date: string;
+    time: string;
+    endTime: string;
+    bufferMinutes: number;
+    guestCount: number;
+}
+
+export interface BookingOffer {
+    offerId: string;
+    /** Discount on the deposit, in MXN */
+    discount: number;
+    /** Single-use code the guest booked with */
+    codeId?: string | null;
+}
+
+export interface VerifiedDeposit {
+    paymentIntentId: string;
+    /** Amount in MXN (not centavos) */
+    amount: number;
+}
+
+export interface DepositHold {
+    /** Amount in MXN */
+    amount: number;
+    /** ISO timestamp after which the unpaid hold is cancelled */
+    dueAt: string;
+}
+
+export interface DepositVerification {
+    valid: boolean;
+    deposit?: VerifiedDeposit;
+    error?: string;
+}
+
+export interface BookingAlternatives {
+    /** Other tables that fit the party at the requested time */
+    tables: { id: string; number: any; capacity: number; zone?: string }[];
+    /** Nearest times the same day with at least one free table */
+    times: string[];
+}
+
+export class ReservationBookingService {
+    /**
+     * Check a PaymentIntent with the payment provider instead of trusting the client's "depositPaid" flag
+     */
+    static async verifyDeposit(
+        paymentIntentId: string,
+        expected: { userId: string; restaurantId: string; minimumAmount?: number }
+    ): Promise<DepositVerification> {
+        let paymentIntent: ProviderPaymentIntent;
+        try {
+            paymentIntent = await getPaymentProvider().retrieveIntent(paymentIntentId);
+        } catch (error) {
+            console.error('Error retrieving payment intent:', error);
+            return { valid: false, error: 'Payment not found' };
+        }
+
+        if (paymentIntent.status !== 'succeeded') {
+            return { valid: false, error: 'Payment not completed' };
+        }
+
+        if (paymentIntent.metadata?.userId !== expected.userId ||
+            paymentIntent.metadata?.restaurantId !== expected.restaurantId) {
+            return { valid: false, error: 'Payment does not belong to this reservation' };
+        }
+
+        const amount = paymentIntent.amountReceived;
+        if (paymentIntent.currency !== 'mxn' || (expected.minimumAmount && amount < expected.minimumAmount)) {
+            return { valid: false, error: 'Payment amount does not cover the required deposit' };
+        }
+
+        return { valid: true, deposit: { paymentIntentId: paymentIntent.id, amount } };
+    }
+
+    /**
+     * Refund a deposit, fully or only `amount` (MXN) of it
+     * @returns false when the provider rejected the refund
+     */
+    static async refundDeposit(paymentIntentId: string, amount?: number): Promise<boolean> {
+        try {
+            await getPaymentProvider().refund({ paymentIntentId, amount });
+            return true;
+        } catch (error) {
+            console.error(`Error refunding deposit ${paymentIntentId}:`, error);
+            return false;
+        }
+    }
+
+    /**
+     * Insert the reservation in a single transaction guarded by the table overlap constraint
+     */
+    static async createAtomic(input: AtomicReservationInput): Promise<AtomicReservationResult> {
+        const { data, error } = await supabaseAdmin.rpc('create_reservation_atomic', {
+            p_restaurant_id: input.restaurantId,
+            p_user_id: input.userId,
+            p_table_id: input.tableId,
+            p_date: input.date,
+            p_time: input.time,
+            p_end_time: input.endTime,
+            p_buffer_minutes: input.bufferMinutes,
+            p_guest_count: input.guestCount,
+            p_occasion: input.occasion ?? null,
+            p_special_request: input.specialRequest ?? null,
+            p_status: input.status,
+            p_deposit_paid: Boolean(input.deposit),
+            p_deposit_amount: input.deposit?.amount ?? 0,
+            p_payment_intent_id: input.deposit?.paymentIntentId ?? null,
+            p_qr_code: input.qrCode,
+            p_linked_table_ids: input.linkedTableIds || [],
+            p_offer_id: input.offer?.offerId ?? null,
+            p_offer_discount: input.offer?.discount ?? 0,
+            p_offer_code_id: input.offer?.codeId ?? null,
+            p_dietary_restrictions: input.dietary?.restrictions ?? [],
+            p_allergies: input.dietary?.allergies ?? [],
+            p_deposit_hold_amount: input.depositHold?.amount ?? null,
+            p_deposit_due_at: input.depositHold?.dueAt ?? null,
+        });
+
+        if (error) {
+            if (error.code === EXCLUSION_VIOLATION) {
+                return { reservation: null, conflict: true, duplicatePayment: false };
+            }
+            if (error.code === UNIQUE_VIOLATION && error.message?.includes('payment_intent')) {
+                return { reservation: null, conflict: false, duplicatePayment: true };
+            }
+            if (error.code === CHECK_VIOLATION && error.message?.startsWith(OFFER_REJECTED)) {
+                const offerError = error.message.slice(OFFER_REJECTED.length) as OfferRuleError;
+                return { reservation: null, conflict: false, duplicatePayment: false, offerError };
+            }
+            throw error;
+        }
+
+        return { reservation: data, conflict: false, duplicatePayment: false };
+    }
+
+    /**
+     * Move a reservation with the same table locks and overlap check as createAtomic,
+     * covering its linked tables too
+     */
+    static async rescheduleAtomic(input: AtomicRescheduleInput): Promise<{ reservation: any | null; conflict: boolean }> {
+        const { data, error } = await supabaseAdmin.rpc('reschedule_reservation_atomic', {
+            p_reservation_id: input.reservationId,
+            p_date: input.date,
+            p_time: input.time,
+            p_end_time: input.endTime,
+            p_buffer_minutes: input.bufferMinutes,
+            p_guest_count: input.guestCount,
+        });
+
+        if (error) {
+            if (error.code === EXCLUSION_VIOLATION) return { reservation: null, conflict: true };
+            throw error;
+        }
+
+        return { reservation: data, conflict: false };
+    }
+
+    /**
+     * Suggestions returned with a 409 so the guest can rebook without starting over
+     */
+    static async suggestAlternatives(
+        restaurantId: string,
+        date: string,
+        time: string,
+        guestCount: number
+    ): Promise<BookingAlternatives> {
+        const { data: restaurant, error } = await supabaseAdmin
+            .from('restaurants')
+            .select('settings, opening_hours, holidays, open_time, close_time')
+            .eq('id', restaurantId)
+            .single();
+
+        if (error || !restaurant) return { tables: [], times: [] };
+
+        const snapshot = await AvailabilityService.loadSnapshot(restaurantId, date);
+        const requestedTime = time.substring(0, 5);
+
+        const tables = TableAssignmentService.getSingleCandidates(snapshot, date, requestedTime, guestCount)
+            .map(({ tables: [t] }) => ({ id: t.id, number: t.number, capacity: t.capacity, zone: t.zone }));
+
+        const requestedMinutes = timeToMinutes(requestedTime);
+        const times = generateDaySchedule(restaurant, date).slots
+            .filter(slot => slot !== requestedTime)
+            .filter(slot => TableAssignmentService.canSeat(snapshot, date, slot, guestCount))
+            .sort((a, b) => Math.abs(timeToMinutes(a) - requestedMinutes) - Math.abs(timeToMinutes(b) - requestedMinutes))
+            .slice(0, MAX_ALTERNATIVE_TIMES)
+            .sort();
+
+        return { tables, times };
+    }
+}
@@ -0,0 +1,353 @@
+import { supabaseAdmin } from '../config/supabase.js';
+import * as emailService from './email.js';
+import { NotificationService } from './notifications.js';
+import { Logger } from './observability.js';
+import { getLocalNow } from './schedule.js';
+import { WaitlistMatcherService } from './waitlistMatcher.js';
+
+/**
+ * Sittara Reservation Lifecycle
+ * Single place where a reservation changes status: validates the transition, stamps the
+ * matching timestamp, updates the tables, notifies the guest and records reservation_events.
+ */
+
+export type ReservationStatus = 'pending' | 'confirmed' | 'arrived' | 'seated' | 'completed' | 'cancelled' | 'no_show';
+
+export const RESERVATION_STATUSES: ReservationStatus[] = [
+    'pending', 'confirmed', 'arrived', 'seated', 'completed', 'cancelled', 'no_show',
+];
+
+/**
+ * Allowed moves. Steps of the happy path can be skipped (a pending guest may simply walk in),
+ * but never undone; no_show can still become arrived for guests who show up late.
+ */
+export const RESERVATION_TRANSITIONS: Record<ReservationStatus, ReservationStatus[]> = {
+    pending: ['confirmed', 'arrived', 'seated', 'cancelled', 'no_show'],
+    confirmed: ['arrived', 'seated', 'cancelled', 'no_show'],
+    arrived: ['seated', 'completed', 'cancelled'],
+    seated: ['completed'],
+    completed: [],
+    cancelled: [],
+    no_show: ['arrived'],
+};
+
+// Column stamped when entering each status
+const STATUS_TIMESTAMPS: Partial<Record<ReservationStatus, string>> = {
+    confirmed: 'confirmed_at',
+    arrived: 'arrived_at',
+    seated: 'seated_at',
+    completed: 'completed_at',
+    cancelled: 'cancelled_at',
+    no_show: 'no_show_at',
+};
+
+const RELEASING_STATUSES: ReservationStatus[] = ['completed', 'cancelled', 'no_show'];
+// A reservation held for its deposit only moves on once it is paid (webhook) or staff decides
+const UNPAID_DEPOSIT_STATUSES = ['awaiting_payment', 'failed'];
+const DEPOSIT_GATED_STATUSES: ReservationStatus[] = ['confirmed', 'arrived', 'seated'];
+const RESERVATION_SELECT = `
+    *,
+    restaurants (id, name, settings),
+    users:user_id (id, name, email)
+`;
+
+export type TransitionActorType = 'guest' | 'staff' | 'system';
+export type TransitionError = 'NOT_FOUND' | 'INVALID_TRANSITION' | 'CONFLICT' | 'DEPOSIT_PENDING';
+
+export interface TransitionActor {
+    type: TransitionActorType;
+    id?: string;
+}
+
+export interface TransitionOptions {
+    actor: TransitionActor;
+    /** Entry point that asked for the change, e.g. `admin.checkin` */
+    source: string;
+    reason?: string;
+    /** Only act on reservations of this restaurant */
+    restaurantId?: string;
+    /** Extra columns written together with the status */
+    updates?: Record<string, any>;
+    metadata?: Record<string, any>;
+    /** Skip guest notifications (the caller sends its own) */
+    silent?: boolean;
+}
+
+export interface TransitionResult {
+    reservation: any | null;
+    previousStatus?: ReservationStatus;
+    /** false when the reservation already had the requested status */
+    changed: boolean;
+    error?: TransitionError;
+    message?: string;
+}
+
+export const TRANSITION_ERROR_HTTP_STATUS: Record<TransitionError, number> = {
+    NOT_FOUND: 404,
+    INVALID_TRANSITION: 400,
+    CONFLICT: 409,
+    DEPOSIT_PENDING: 402,
+};
+
+export function canTransition(from: ReservationStatus, to: ReservationStatus): boolean {
+    return (RESERVATION_TRANSITIONS[from] || []).includes(to);
+}
+
+/**
+ * Whether the actor must wait for the deposit before moving the reservation forward.
+ * Guests cannot confirm (or check in) a booking whose deposit is still unpaid.
+ */
+export function isBlockedByDeposit(
+    reservation: { deposit_status?: string | null },
+    to: ReservationStatus,
+    actor: TransitionActor
+): boolean {
+    return actor.type === 'guest' &&
+        DEPOSIT_GATED_STATUSES.includes(to) &&
+        UNPAID_DEPOSIT_STATUSES.includes(reservation.deposit_status || 'none');
+}
+
+/**
+ * Columns to write when entering a status
+ */
+export function getTransitionUpdates(
+    reservation: { arrived_at?: string | null; cancelled_by?: string | null },
+    to: ReservationStatus,
+    actor: TransitionActor,
+    now: string,
+    reason?: string
+): Record<string, any> {
+    const updates: Record<string, any> = { status: to, updated_at: now };
+    const column = STATUS_TIMESTAMPS[to];
+    if (column) updates[column] = now;
+
+    // Seating without a separate check-in still records the arrival
+    if (to === 'seated' && !reservation.arrived_at) updates.arrived_at = now;
+
+    if (to === 'cancelled') {
+        updates.cancelled_by = actor.type === 'staff' ? 'restaurant' : actor.type;
+        if (reason) updates.cancellation_reason = reason;
+    }
+
+    return updates;
+}
+
+/**
+ * Table status change for a transition. `onlyIf` protects tables another party is using now:
+ * a reservation only releases the table state it put there itself.
+ */
+export function getTableEffect(
+    from: ReservationStatus,
+    to: ReservationStatus,
+    isToday: boolean
+): { status: string; onlyIf?: string[] } | null {
+    if (to === 'arrived' || to === 'seated') return { status: 'occupied' };
+    if (to === 'confirmed') return isToday ? { status: 'reserved', onlyIf: ['available'] } : null;
+
+    if (RELEASING_STATUSES.includes(to)) {
+        if (from === 'arrived' || from === 'seated') return { status: 'available', onlyIf: ['occupied', 'reserved'] };
+        return { status: 'available', onlyIf: ['reserved'] };
+    }
+    return null;
+}
+
+export class ReservationLifecycleService {
+    /**
+     * Move a reservation to a new status with all its side effects
+     */
+    static async transition(reservationId: string, to: ReservationStatus, options: TransitionOptions): Promise<TransitionResult> {
+        const { data: reservation, error: fetchError } = await supabaseAdmin
+            .from('reservations')
+            .select(RESERVATION_SELECT)
+            .eq('id', reservationId)
+            .maybeSingle();
+
+        if (fetchError || !reservation || (options.restaurantId && reservation.restaurant_id !== options.restaurantId)) {
+            return { reservation: null, changed: false, error: 'NOT_FOUND', message: 'Reservation not found' };
+        }
+
+        const from = reservation.status as ReservationStatus;
+        if (from === to) {
+            return { reservation, previousStatus: from, changed: false };
+        }
+
+        if (!canTransition(from, to)) {
+            return {
+                reservation,
+                previousStatus: from,
+                changed: false,
+                error: 'INVALID_TRANSITION',
+                message: `Cannot change a ${from} reservation to ${to}`,
+            };
+        }
+
+        if (isBlockedByDeposit(reservation, to, options.actor)) {
+            return {
+                reservation,
+                previousStatus: from,
+                changed: false,
+                error: 'DEPOSIT_PENDING',
+                message: 'The deposit must be paid before the reservation is confirmed',
+            };
+        }
+
+        const now = new Date().toISOString();
+        const updates = { ...getTransitionUpdates(reservation, to, options.actor, now, options.reason), ...options.updates };
+        // Cancelling also releases the offers redeemed with the booking, in the same transaction
+        const query = to === 'cancelled'
+            ? supabaseAdmin.rpc('cancel_reservation_atomic', {
+                p_reservation_id: reservationId,
+                p_from_status: from,
+                p_updates: updates,
+            })
+            : supabaseAdmin
+                .from('reservations')
+                .update(updates)
+                .eq('id', reservationId)
+                // Optimistic guard: someone else may have moved it since we read it
+                .eq('status', from);
+        const { data: updated, error } = await query
+            .select(RESERVATION_SELECT)
+            .maybeSingle();
+
+        if (error) throw error;
+        if (!updated) {
+            return {
+                reservation,
+                previousStatus: from,
+                changed: false,
+                error: 'CONFLICT',
+                message: 'Reservation status changed, reload and try again',
+            };
+        }
+
+        await this.applyTableEffect(updated, from, to);
+        await this.recordEvent(updated, from, to, options);
+        if (!options.silent) await this.notifyGuest(updated, from, to, options);
+
+        Logger.persistSystemMetric('reservation_transition', 1, {
+            restaurantId: updated.restaurant_id,
+            reservationId: updated.id,
+            from,
+            to,
+            source: options.source,
+        });
+
+        return { reservation: updated, previousStatus: from, changed: true };
+    }
+
+    /**
+     * First history entry of a new reservation
+     */
+    static async recordCreation(reservation: any, options: Pick<TransitionOptions, 'actor' | 'source' | 'metadata'>): Promise<void> {
+        await this.recordEvent(reservation, null, reservation.status, options);
+    }
+
+    static async getHistory(reservationId: string): Promise<any[]> {
+        const { data, error } = await supabaseAdmin
+            .from('reservation_events')
+            .select(`
+                id, from_status, to_status, actor_type, actor_id, source, reason, metadata, created_at,
+                actor:actor_id (name)
+            `)
+            .eq('reservation_id', reservationId)
+            .order('created_at', { ascending: true });
+
+        if (error) throw error;
+        return data || [];
+    }
+
+    private static async applyTableEffect(reservation: any, from: ReservationStatus, to: ReservationStatus): Promise<void> {
+        const tableIds = [reservation.table_id, ...(reservation.linked_table_ids || [])].filter(Boolean);
+        if (tableIds.length === 0) return;
+
+        const localToday = getLocalNow(reservation.restaurants?.settings?.timezone).date;
+        const effect = getTableEffect(from, to, reservation.date === localToday);
+        if (!effect) return;
+
+        let query = supabaseAdmin
+            .from('tables')
+            .update({ status: effect.status })
+            .in('id', tableIds);
+        if (effect.onlyIf) query = query.in('status', effect.onlyIf);
+
+        const { error } = await query;
+        if (error) {
+            Logger.warn('Error updating tables for reservation transition', { reservationId: reservation.id, error: error.message });
+        } else if (effect.status === 'available') {
+            // Offer the released tables to the waitlist without holding up the response
+            void WaitlistMatcherService.onTablesFreed(reservation.restaurant_id);
+        }
+    }
+
+    private static async recordEvent(
+        reservation: any,
+        from: ReservationStatus | null,
+        to: ReservationStatus,
+        options: Pick<TransitionOptions, 'actor' | 'source' | 'reason' | 'metadata'>
+    ): Promise<void> {
+        const { error } = await supabaseAdmin
+            .from('reservation_events')
+            .insert({
+                reservation_id: reservation.id,
+                restaurant_id: reservation.restaurant_id,
+                from_status: from,
+                to_status: to,
+                actor_type: options.actor.type,
+                actor_id: options.actor.id || null,
+                source: options.source,
+                reason: options.reason || null,
+                metadata: options.metadata || {},
+            });
+
+        if (error) {
+            Logger.warn('Error recording reservation event', { reservationId: reservation.id, error: error.message });
+        }
+    }
+
+    private static async notifyGuest(
+        reservation: any,
+        from: ReservationStatus,
+        to: ReservationStatus,
+        options: TransitionOptions
+    ): Promise<void> {
+        const restaurantName = reservation.restaurants?.name || 'el restaurante';
+        const email = reservation.users?.email;
+
+        try {
+            if (to === 'confirmed' && options.actor.type !== 'guest') {
+                await NotificationService.createNotification({
+                    userId: reservation.user_id,
+                    type: 'reservation_confirmed',
+                    title: 'Reserva confirmada',
+                    message: `${restaurantName} confirmó tu reserva del ${reservation.date} a las ${String(reservation.time).substring(0, 5)}.`,
+                    data: { reservationId: reservation.id },
+                });
+                if (email) {
+                    await emailService.sendReservationConfirmation(email, {
+                        date: reservation.date,
+                        time: reservation.time,
+                        guestCount: reservation.guest_count,
+                        tableId: reservation.table_id,
+                        qrCode: reservation.qr_code,
+                    });
+                }
+            } else if (to === 'cancelled') {
+                if (options.actor.type !== 'guest') {
+                    await NotificationService.createNotification({
+                        userId: reservation.user_id,
+                        type: 'reservation_cancelled',
+                        title: 'Reserva cancelada',
+                        message: `${restaurantName} canceló tu reserva del ${reservation.date}.`,
+                        data: { reservationId: reservation.id, reason: options.reason },
+                    });
+                }
+                if (email) await emailService.sendReservationCancellation(email, reservation);
+            } else if (to === 'completed') {
+                await NotificationService.requestReview(reservation.user_id, reservation.id, restaurantName);
+            }
+        } catch (error: any) {
+            Logger.error('Error notifying guest of reservation transition', { reservationId: reservation.id, from, to, error: error?.message });
+        }
+    }
+}
@@ -0,0 +1,214 @@
+import { AvailabilitySettings, minutesToTime, timeToMinutes } from './availability.js';
+
+/**
+ * Sittara Schedule Engine
+ * Generates bookable time slots from each restaurant's opening_hours, holidays and settings,
+ * so the web and mobile clients always show the same slots.
+ */
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const DEFAULT_SLOT_INTERVAL_MINUTES = 30;
+const DEFAULT_LAST_SEATING_MINUTES = 60;
+export const DEFAULT_TIMEZONE = 'America/Mexico_City';
+
+export interface DayHours {
+    open?: string;
+    close?: string;
+    closed?: boolean;
+}
+
+export interface Holiday {
+    date: string;
+    name?: string;
+    closed?: boolean;
+    /** Special hours for the day; when absent the regular weekday hours apply */
+    open?: string;
+    close?: string;
+}
+
+export interface ScheduleSettings extends AvailabilitySettings {
+    slotIntervalMinutes?: number;
+    /** Minutes before closing time when the last seating may start */
+    lastSeatingMinutesBeforeClose?: number;
+    minAdvanceHours?: number;
+    maxReservationDays?: number;
+    timezone?: string;
+}
+
+export interface ScheduleSource {
+    settings?: ScheduleSettings | null;
+    opening_hours?: Record<string, DayHours> | null;
+    holidays?: Holiday[] | null;
+    open_time?: string | null;
+    close_time?: string | null;
+}
+
+export interface ServiceWindow {
+    open: number;
+    /** Minutes since midnight of the service day; may exceed 1440 for past-midnight closes */
+    close: number;
+}
+
+export interface DaySchedule {
+    date: string;
+    isClosed: boolean;
+    reason?: 'closed' | 'holiday' | 'past' | 'beyond_booking_window';
+    holidayName?: string;
+    slots: string[];
+}
+
+export interface LocalNow {
+    date: string;
+    minutes: number;
+}
+
+/**
+ * Add days to a 'YYYY-MM-DD' date string (UTC-safe)
+ */
+export function addDays(date: string, days: number): string {
+    const d = new Date(`${date}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + days);
+    return d.toISOString().split('T')[0];
+}
+
+/**
+ * Whole days between two 'YYYY-MM-DD' dates
+ */
+export function daysBetween(from: string, to: string): number {
+    return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
+/**
+ * Lowercase English weekday name, matching the opening_hours keys
+ */
+export function getDayName(date: string): string {
+    return DAY_NAMES[new Date(`${date}T00:00:00Z`).getUTCDay()];
+}
+
+/**
+ * Current date and time in the restaurant's timezone
+ */
+export function getLocalNow(timezone: string = DEFAULT_TIMEZONE, now: Date = new Date()): LocalNow {
+    let parts: Intl.DateTimeFormatPart[];
+    try {
+        parts = new Intl.DateTimeFormat('en-CA', {
+            timeZone: timezone,
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+            hour12: false,
+        }).formatToParts(now);
+    } catch {
+        return getLocalNow(DEFAULT_TIMEZONE, now);
+    }
+
+    const get = (type: string) => parts.find(p => p.type === type)?.value || '00';
+    return {
+        date: `${get('year')}-${get('month')}-${get('day')}`,
+        minutes: (Number(get('hour')) % 24) * 60 + Number(get('minute')),
+    };
+}
+
+/**
+ * UTC instant of a local date and time in the restaurant's timezone
+ */
+export function zonedTimeToUtc(date: string, time: string, timezone: string = DEFAULT_TIMEZONE): Date {
+    const asUtc = Date.parse(`${date}T${time.substring(0, 5)}:00Z`);
+    // Offset between the wall clock in the timezone and UTC at that moment
+    const local = getLocalNow(timezone, new Date(asUtc));
+    const localAsUtc = Date.parse(`${local.date}T00:00:00Z`) + local.minutes * 60000;
+    return new Date(asUtc - (localAsUtc - asUtc));
+}
+
+/**
+ * Opening window for a date, taking holidays and special hours into account
+ */
+export function getServiceWindow(source: ScheduleSource, date: string): ServiceWindow | null {
+    const holiday = (source.holidays || []).find(h => h.date === date);
+    if (holiday?.closed) return null;
+
+    let hours: DayHours | undefined;
+    if (holiday?.open && holiday?.close) {
+        hours = { open: holiday.open, close: holiday.close };
+    } else {
+        const openingHours = source.opening_hours || {};
+        hours = Object.keys(openingHours).length > 0
+            ? openingHours[getDayName(date)]
+            : { open: source.open_time || undefined, close: source.close_time || undefined };
+    }
+
+    if (!hours || hours.closed || !hours.open || !hours.close) return null;
+
+    const open = timeToMinutes(hours.open);
+    let close = timeToMinutes(hours.close);
+    // Past-midnight close, e.g. 12:00 → 00:00 or 18:00 → 02:00
+    if (close <= open) close += 1440;
+
+    return { open, close };
+}
+
+/**
+ * Slot start minutes inside a service window, leaving room for the last seating
+ */
+export function getWindowSlots(window: ServiceWindow, settings: ScheduleSettings): number[] {
+    const interval = Number(settings.slotIntervalMinutes) || DEFAULT_SLOT_INTERVAL_MINUTES;
+    const lastSeatingOffset = settings.lastSeatingMinutesBeforeClose ?? DEFAULT_LAST_SEATING_MINUTES;
+    const lastSeating = window.close - Number(lastSeatingOffset);
+
+    const slots: number[] = [];
+    for (let minute = window.open; minute <= lastSeating; minute += interval) {
+        slots.push(minute);
+    }
+    return slots;
+}
+
+/**
+ * Generate the bookable slots of a single date.
+ * Includes the tail of the previous day's service when it runs past midnight.
+ */
+export function generateDaySchedule(source: ScheduleSource, date: string, now?: LocalNow): DaySchedule {
+    const settings = source.settings || {};
+    const localNow = now || getLocalNow(settings.timezone);
+
+    if (date < localNow.date) {
+        return { date, isClosed: true, reason: 'past', slots: [] };
+    }
+
+    // advanceBookingDays is the legacy name of maxReservationDays
+    const maxReservationDays = Number(settings.maxReservationDays ?? settings.advanceBookingDays) || 0;
+    if (maxReservationDays && daysBetween(localNow.date, date) > maxReservationDays) {
+        return { date, isClosed: true, reason: 'beyond_booking_window', slots: [] };
+    }
+
+    const holiday = (source.holidays || []).find(h => h.date === date);
+    const window = getServiceWindow(source, date);
+    const previousWindow = getServiceWindow(source, addDays(date, -1));
+
+    const todaySlots = window ? getWindowSlots(window, settings).filter(m => m < 1440) : [];
+    const overflowSlots = previousWindow
+        ? getWindowSlots(previousWindow, settings).filter(m => m >= 1440).map(m => m - 1440)
+        : [];
+
+    if (todaySlots.length === 0 && overflowSlots.length === 0) {
+        return {
+            date,
+            isClosed: true,
+            reason: holiday?.closed ? 'holiday' : 'closed',
+            holidayName: holiday?.name,
+            slots: [],
+        };
+    }
+
+    // Respect minimum advance notice, measured from "now" in the restaurant's timezone
+    const earliest = localNow.minutes + (Number(settings.minAdvanceHours) || 0) * 60;
+    const dayOffset = daysBetween(localNow.date, date) * 1440;
+
+    const slots = Array.from(new Set([...overflowSlots, ...todaySlots]))
+        .sort((a, b) => a - b)
+        .filter(m => dayOffset + m >= earliest)
+        .map(minutesToTime);
+
+    return { date, isClosed: false, holidayName: holiday?.name, slots };
+}
@@ -0,0 +1,59 @@
+import { isDevelopment } from '../config/env.js';
+
+/**
+ * SMS Service
+ * Sends text messages through Twilio's REST API. Without credentials the messages are
+ * logged to the console in development only; anywhere else the send fails.
+ */
+
+const TWILIO_ACCOUNT_SID = process.env.TWILIO_ACCOUNT_SID;
+const TWILIO_AUTH_TOKEN = process.env.TWILIO_AUTH_TOKEN;
+const TWILIO_FROM_NUMBER = process.env.TWILIO_FROM_NUMBER;
+
+interface SmsResult {
+    success: boolean;
+    error?: any;
+}
+
+const sendSms = async (to: string, body: string): Promise<SmsResult> => {
+    try {
+        if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN || !TWILIO_FROM_NUMBER) {
+            if (!isDevelopment) {
+                throw new Error('SMS provider is not configured');
+            }
+
+            // Dev Mode Fallback
+            console.log(`\n════════════════ [SMS MOCK] ════════════════`);
+            console.log(`To: ${to}`);
+            console.log(`Body: ${body}`);
+            console.log(`════════════════════════════════════════════\n`);
+            return { success: true };
+        }
+
+        const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${TWILIO_ACCOUNT_SID}/Messages.json`, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Basic ${Buffer.from(`${TWILIO_ACCOUNT_SID}:${TWILIO_AUTH_TOKEN}`).toString('base64')}`,
+                'Content-Type': 'application/x-www-form-urlencoded',
+            },
+            body: new URLSearchParams({ To: to, From: TWILIO_FROM_NUMBER, Body: body }).toString(),
+        });
+
+        if (!response.ok) {
+            const detail: any = await response.json().catch(() => ({}));
+            throw new Error(detail.message || `Twilio responded ${response.status}`);
+        }
+
+        console.log(`📱 SMS sent to ${to}`);
+        return { success: true };
+    } catch (error: any) {
+        console.error(`❌ Failed to send SMS to ${to}:`, error);
+        return { success: false, error: error.message || error };
+    }
+};
+
+// Public Methods
+
+export async function sendPhoneVerificationCode({ to, code }: { to: string; code: string }): Promise<SmsResult> {
+    return sendSms(to, `Mesa Feliz: tu código de verificación es ${code}. Expira en 10 minutos.`);
+}
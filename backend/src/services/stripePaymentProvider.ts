@@ -0,0 +1,237 @@
+import Stripe from 'stripe';
+import type { LedgerEntryInput } from './paymentLedger.js';
+import type {
+    CreatePaymentIntentInput,
+    PaymentEvent,
+    PaymentEventType,
+    PaymentIntentStatus,
+    PaymentProvider,
+    ProviderPaymentIntent,
+    ProviderRefund,
+    RefundInput,
+} from './paymentProvider.js';
+
+/**
+ * Stripe implementation of PaymentProvider. Stripe works in centavos; everything
+ * returned from here is already in MXN.
+ */
+
+// Refunds Stripe already committed to; failed and canceled ones never moved money
+const MOVED_REFUND_STATUSES = ['succeeded', 'pending'];
+
+const EVENT_TYPES: Record<string, PaymentEventType> = {
+    'payment_intent.succeeded': 'payment.succeeded',
+    'payment_intent.payment_failed': 'payment.failed',
+    'charge.refunded': 'charge.refunded',
+    'charge.dispute.created': 'dispute.created',
+    'charge.dispute.closed': 'dispute.closed',
+    'charge.dispute.funds_withdrawn': 'dispute.updated',
+    'charge.dispute.funds_reinstated': 'dispute.updated',
+};
+
+const toAmount = (cents: number) => cents / 100;
+const toCents = (amount: number) => Math.round(amount * 100);
+const toIso = (unixSeconds: number) => new Date(unixSeconds * 1000).toISOString();
+const objectId = (value: string | { id: string } | null | undefined) =>
+    !value ? null : typeof value === 'string' ? value : value.id;
+
+/**
+ * PaymentIntent an event is about (intents, charges and disputes all point to one)
+ */
+export function getEventPaymentIntentId(event: Stripe.Event): string | null {
+    const object = event.data.object as { object?: string; id?: string; payment_intent?: string | { id: string } | null };
+    if (object.object === 'payment_intent') return object.id || null;
+    return objectId(object.payment_intent);
+}
+
+export function toProviderIntent(paymentIntent: Stripe.PaymentIntent): ProviderPaymentIntent {
+    return {
+        id: paymentIntent.id,
+        // A manually captured intent is not ours to collect yet
+        status: (paymentIntent.status === 'requires_capture' ? 'processing' : paymentIntent.status) as PaymentIntentStatus,
+        amount: toAmount(paymentIntent.amount),
+        amountReceived: toAmount(paymentIntent.amount_received || 0),
+        currency: paymentIntent.currency,
+        clientSecret: paymentIntent.client_secret,
+        metadata: paymentIntent.metadata || {},
+        lastError: paymentIntent.last_payment_error?.message || null,
+    };
+}
+
+export function toPaymentEvent(event: Stripe.Event): PaymentEvent {
+    const type = EVENT_TYPES[event.type] || 'other';
+    const parsed: PaymentEvent = {
+        id: event.id,
+        provider: 'stripe',
+        type,
+        providerType: event.type,
+        paymentIntentId: getEventPaymentIntentId(event),
+        payload: event,
+    };
+
+    if (type === 'payment.succeeded' || type === 'payment.failed') {
+        parsed.intent = toProviderIntent(event.data.object as Stripe.PaymentIntent);
+    } else if (type === 'charge.refunded') {
+        const charge = event.data.object as Stripe.Charge;
+        parsed.charge = { amount: toAmount(charge.amount), amountRefunded: toAmount(charge.amount_refunded) };
+    } else if (type.startsWith('dispute.')) {
+        parsed.disputeStatus = (event.data.object as Stripe.Dispute).status;
+    }
+    return parsed;
+}
+
+/**
+ * Ledger rows for a charge: the gross amount and, once Stripe settled it, its processing fee
+ */
+export function chargeToEntries(charge: Stripe.Charge): LedgerEntryInput[] {
+    const paymentIntentId = objectId(charge.payment_intent);
+    const entries: LedgerEntryInput[] = [{
+        type: 'charge',
+        amount: toAmount(charge.amount),
+        currency: charge.currency,
+        provider_object_id: charge.id,
+        payment_intent_id: paymentIntentId,
+        description: charge.description || 'Anticipo de reserva',
+        occurred_at: toIso(charge.created),
+    }];
+
+    const balance = charge.balance_transaction;
+    if (balance && typeof balance !== 'string' && balance.fee > 0) {
+        entries.push({
+            type: 'fee',
+            amount: -toAmount(balance.fee),
+            currency: balance.currency,
+            provider_object_id: balance.id,
+            payment_intent_id: paymentIntentId,
+            description: 'Comisión de procesamiento',
+            occurred_at: toIso(balance.created),
+        });
+    }
+    return entries;
+}
+
+export function refundsToEntries(refunds: Stripe.Refund[]): LedgerEntryInput[] {
+    return refunds
+        .filter((refund) => MOVED_REFUND_STATUSES.includes(refund.status || ''))
+        .map((refund) => ({
+            type: 'refund' as const,
+            amount: -toAmount(refund.amount),
+            currency: refund.currency,
+            provider_object_id: refund.id,
+            payment_intent_id: objectId(refund.payment_intent),
+            description: 'Reembolso de anticipo',
+            occurred_at: toIso(refund.created),
+        }));
+}
+
+/**
+ * A dispute moves money through its balance transactions: the withdrawal (plus dispute fee)
+ * when it opens and, if the restaurant wins, the reinstatement
+ */
+export function disputeToEntries(dispute: Stripe.Dispute): LedgerEntryInput[] {
+    const paymentIntentId = objectId(dispute.payment_intent);
+    const entries: LedgerEntryInput[] = [];
+
+    for (const balance of dispute.balance_transactions || []) {
+        entries.push({
+            type: balance.amount < 0 ? 'dispute' : 'dispute_reversal',
+            amount: toAmount(balance.amount),
+            currency: balance.currency,
+            provider_object_id: balance.id,
+            payment_intent_id: paymentIntentId,
+            description: balance.amount < 0 ? 'Contracargo' : 'Contracargo ganado',
+            occurred_at: toIso(balance.created),
+        });
+        if (balance.fee > 0) {
+            entries.push({
+                type: 'fee',
+                amount: -toAmount(balance.fee),
+                currency: balance.currency,
+                provider_object_id: balance.id,
+                payment_intent_id: paymentIntentId,
+                description: 'Comisión por contracargo',
+                occurred_at: toIso(balance.created),
+            });
+        }
+    }
+    return entries;
+}
+
+export class StripePaymentProvider implements PaymentProvider {
+    readonly name = 'stripe' as const;
+    private stripe: Stripe;
+
+    constructor(secretKey: string, private webhookSecret: string) {
+        this.stripe = new Stripe(secretKey, { apiVersion: '2023-10-16' });
+    }
+
+    async createIntent(input: CreatePaymentIntentInput): Promise<ProviderPaymentIntent> {
+        const paymentIntent = await this.stripe.paymentIntents.create({
+            amount: toCents(input.amount),
+            currency: input.currency,
+            automatic_payment_methods: {
+                enabled: true,
+            },
+            metadata: input.metadata,
+        }, input.idempotencyKey ? { idempotencyKey: input.idempotencyKey } : undefined);
+        return toProviderIntent(paymentIntent);
+    }
+
+    async retrieveIntent(paymentIntentId: string): Promise<ProviderPaymentIntent> {
+        return toProviderIntent(await this.stripe.paymentIntents.retrieve(paymentIntentId));
+    }
+
+    async cancelIntent(paymentIntentId: string): Promise<void> {
+        await this.stripe.paymentIntents.cancel(paymentIntentId);
+    }
+
+    async refund(input: RefundInput): Promise<ProviderRefund> {
+        const refund = await this.stripe.refunds.create({
+            payment_intent: input.paymentIntentId,
+            ...(input.amount !== undefined && { amount: toCents(input.amount) }),
+            reason: 'requested_by_customer',
+            ...(input.metadata && { metadata: input.metadata }),
+        });
+        return {
+            id: refund.id,
+            amount: toAmount(refund.amount),
+            currency: refund.currency,
+            status: (refund.status || 'pending') as ProviderRefund['status'],
+        };
+    }
+
+    parseWebhook(rawBody: Buffer, headers: Record<string, string | string[] | undefined>): PaymentEvent {
+        const signature = headers['stripe-signature'];
+        if (!signature) throw new Error('Missing Stripe signature');
+        return toPaymentEvent(this.stripe.webhooks.constructEvent(rawBody, signature, this.webhookSecret));
+    }
+
+    async getLedgerEntries(event: PaymentEvent): Promise<LedgerEntryInput[]> {
+        const stripeEvent = event.payload as Stripe.Event;
+
+        switch (event.type) {
+            case 'payment.succeeded': {
+                const paymentIntent = stripeEvent.data.object as Stripe.PaymentIntent;
+                const chargeId = objectId(paymentIntent.latest_charge);
+                if (!chargeId) return [];
+                // The fee is only on the expanded balance transaction
+                const charge = await this.stripe.charges.retrieve(chargeId, { expand: ['balance_transaction'] });
+                return chargeToEntries(charge);
+            }
+
+            case 'charge.refunded': {
+                const charge = stripeEvent.data.object as Stripe.Charge;
+                const refunds = await this.stripe.refunds.list({ charge: charge.id, limit: 100 });
+                return refundsToEntries(refunds.data);
+            }
+
+            case 'dispute.created':
+            case 'dispute.closed':
+            case 'dispute.updated':
+                return disputeToEntries(stripeEvent.data.object as Stripe.Dispute);
+
+            default:
+                return [];
+        }
+    }
+}
@@ -0,0 +1,206 @@
+import { AvailabilityService, AvailabilitySnapshot, getBufferMinutes, minutesToTime } from './availability.js';
+
+/**
+ * Sittara Table Assignment Engine
+ * Picks the table (or combination of adjacent tables) that fits a party with the
+ * least wasted seats, so bigger tables stay free for bigger parties.
+ */
+
+export interface TablePreferences {
+    zone?: string;
+    isVip?: boolean;
+    isOutdoor?: boolean;
+}
+
+export interface TableCombination {
+    id: string;
+    name?: string | null;
+    table_ids: string[];
+    /** Seats of the combined tables; null means the sum of the tables */
+    capacity?: number | null;
+    min_capacity?: number | null;
+    is_active?: boolean;
+}
+
+export interface TableAssignment {
+    /** Main table stored in reservations.table_id */
+    tableId: string;
+    /** Extra tables stored in reservations.linked_table_ids (combinations only) */
+    linkedTableIds: string[];
+    capacity: number;
+    combinationId?: string;
+    tables: any[];
+}
+
+/**
+ * Whether a table satisfies the guest's seating preferences
+ */
+export function matchesPreferences(table: any, preferences: TablePreferences = {}): boolean {
+    if (preferences.zone && table.zone !== preferences.zone) return false;
+    if (preferences.isVip !== undefined && !!table.is_vip !== preferences.isVip) return false;
+    if (preferences.isOutdoor !== undefined && !!table.is_outdoor !== preferences.isOutdoor) return false;
+    return true;
+}
+
+/**
+ * Whether a party size is within a table's (or combination's) seating range
+ */
+export function fitsParty(capacity: number, minCapacity: number | null | undefined, guestCount: number): boolean {
+    return guestCount <= capacity && guestCount >= (Number(minCapacity) || 1);
+}
+
+export class TableAssignmentService {
+    /**
+     * Single tables that fit the party, respect min_capacity and preferences, and are free
+     */
+    static getSingleCandidates(
+        snapshot: AvailabilitySnapshot,
+        date: string,
+        time: string,
+        guestCount: number,
+        preferences: TablePreferences = {}
+    ): TableAssignment[] {
+        return AvailabilityService.getFreeTables(snapshot, date, time, guestCount)
+            .filter(table => fitsParty(table.capacity, table.min_capacity, guestCount))
+            .filter(table => matchesPreferences(table, preferences))
+            .map(table => ({
+                tableId: table.id,
+                linkedTableIds: [],
+                capacity: table.capacity,
+                tables: [table],
+            }));
+    }
+
+    /**
+     * Combinations whose tables are all active, free and match the preferences
+     */
+    static getCombinationCandidates(
+        snapshot: AvailabilitySnapshot,
+        date: string,
+        time: string,
+        guestCount: number,
+        preferences: TablePreferences = {}
+    ): TableAssignment[] {
+        const tablesById = new Map(snapshot.tables.map(t => [t.id, t]));
+        const candidates: TableAssignment[] = [];
+
+        for (const combination of (snapshot.combinations || []) as TableCombination[]) {
+            if (combination.is_active === false) continue;
+
+            const tables = combination.table_ids.map(id => tablesById.get(id));
+            // A member table was removed or deactivated
+            if (tables.some(t => !t)) continue;
+
+            const capacity = Number(combination.capacity) || tables.reduce((sum, t) => sum + t.capacity, 0);
+            if (!fitsParty(capacity, combination.min_capacity, guestCount)) continue;
+            if (!tables.every(t => matchesPreferences(t, preferences))) continue;
+
+            const allFree = tables.every(t =>
+                AvailabilityService.isTableFree(snapshot, t.id, date, time, guestCount)
+            );
+            if (!allFree) continue;
+
+            // The largest table anchors the reservation
+            const [main, ...linked] = [...tables].sort((a, b) => b.capacity - a.capacity);
+            candidates.push({
+                tableId: main.id,
+                linkedTableIds: linked.map(t => t.id),
+                capacity,
+                combinationId: combination.id,
+                tables,
+            });
+        }
+
+        return candidates;
+    }
+
+    /**
+     * Best assignment for a party: the single table with the fewest empty seats,
+     * falling back to a combination only when no single table fits.
+     */
+    static findBestAssignment(
+        snapshot: AvailabilitySnapshot,
+        date: string,
+        time: string,
+        guestCount: number,
+        preferences: TablePreferences = {}
+    ): TableAssignment | null {
+        const byFit = (a: TableAssignment, b: TableAssignment) =>
+            (a.capacity - b.capacity) ||
+            (a.tables.length - b.tables.length) ||
+            (Number(a.tables[0]?.number) || 0) - (Number(b.tables[0]?.number) || 0);
+
+        const singles = this.getSingleCandidates(snapshot, date, time, guestCount, preferences).sort(byFit);
+        if (singles.length > 0) return singles[0];
+
+        const combinations = this.getCombinationCandidates(snapshot, date, time, guestCount, preferences).sort(byFit);
+        return combinations[0] || null;
+    }
+
+    /**
+     * Whether the restaurant can seat the party at all at this time (any table or combination)
+     */
+    static canSeat(snapshot: AvailabilitySnapshot, date: string, time: string, guestCount: number): boolean {
+        return this.findBestAssignment(snapshot, date, time, guestCount) !== null;
+    }
+
+    /**
+     * Seats of a reservation's tables: the combination's capacity when the tables form one,
+     * otherwise the sum of the tables. null when one of them is no longer active.
+     */
+    static getSeatingCapacity(snapshot: AvailabilitySnapshot, tableIds: string[]): number | null {
+        const tablesById = new Map(snapshot.tables.map(t => [t.id, t]));
+        const tables = tableIds.map(id => tablesById.get(id));
+        if (tables.length === 0 || tables.some(t => !t)) return null;
+
+        const combination = ((snapshot.combinations || []) as TableCombination[]).find(c =>
+            c.table_ids.length === tableIds.length && tableIds.every(id => c.table_ids.includes(id))
+        );
+        return Number(combination?.capacity) || tables.reduce((sum, t) => sum + t.capacity, 0);
+    }
+
+    /**
+     * Load availability and check a reservation's whole seating (main and linked tables)
+     * for new values: every table must be free, ignoring the reservation itself when given
+     */
+    static async checkSeating(
+        restaurantId: string,
+        tableIds: string[],
+        date: string,
+        time: string,
+        guestCount: number,
+        excludeReservationId?: string
+    ): Promise<{ available: boolean; capacity: number | null; endTime: string; bufferMinutes: number }> {
+        const snapshot = await AvailabilityService.loadSnapshot(restaurantId, date);
+        const requested = AvailabilityService.buildRequestedInterval(snapshot, date, time, guestCount);
+
+        return {
+            available: tableIds.every(id =>
+                AvailabilityService.isTableFree(snapshot, id, date, time, guestCount, excludeReservationId)
+            ),
+            capacity: this.getSeatingCapacity(snapshot, tableIds),
+            endTime: minutesToTime(requested.end),
+            bufferMinutes: getBufferMinutes(snapshot.settings),
+        };
+    }
+
+    /**
+     * Load availability and pick the best table for a new "any table" reservation
+     */
+    static async assign(
+        restaurantId: string,
+        date: string,
+        time: string,
+        guestCount: number,
+        preferences: TablePreferences = {}
+    ): Promise<{ assignment: TableAssignment | null; endTime: string; bufferMinutes: number }> {
+        const snapshot = await AvailabilityService.loadSnapshot(restaurantId, date);
+        const requested = AvailabilityService.buildRequestedInterval(snapshot, date, time, guestCount);
+
+        return {
+            assignment: this.findBestAssignment(snapshot, date, time, guestCount, preferences),
+            endTime: minutesToTime(requested.end),
+            bufferMinutes: getBufferMinutes(snapshot.settings),
+        };
+    }
+}
@@ -11,6 +11,10 @@ export enum TableLogicalStatus {
 export interface TableStatusReport {
     tableId: string;
     number: number;
+    capacity: number;
+    zone: string | null;
+    /** Physical status stored on the table (available, occupied, ...) */
+    tableStatus: string;
     logicalStatus: TableLogicalStatus;
     currentReservation?: any;
     nextReservation?: any;
@@ -93,6 +97,9 @@ export class TableStatusService {
             return {
                 tableId: table.id,
                 number: table.number,
+                capacity: table.capacity,
+                zone: table.zone,
+                tableStatus: table.status,
                 logicalStatus,
                 currentReservation: currentRes,
                 nextReservation: nextRes,
@@ -0,0 +1,330 @@
+import { supabaseAdmin } from '../config/supabase.js';
+import { AvailabilitySettings, getBufferMinutes, getTurnMinutes } from './availability.js';
+import { Logger } from './observability.js';
+import { DEFAULT_TIMEZONE, addDays, zonedTimeToUtc } from './schedule.js';
+import { TableLogicalStatus, TableStatusReport, TableStatusService } from './tableStatus.js';
+
+/**
+ * Sittara Wait Time Estimator
+ * Simulates the waitlist queue over the live table report: each party, in order, takes the
+ * first suitable table to turn. Turn times come from the restaurant's own seating history
+ * (seated_at → completed_at by party size), falling back to settings.turnTimes.
+ */
+
+// Party size buckets (largest size of each) used to group seating durations
+const PARTY_SIZE_BUCKETS = [2, 4, 6, 8];
+const LARGE_PARTY_BUCKET = 99;
+const HISTORY_DAYS = 60;
+const HISTORY_LIMIT = 2000;
+// Durations outside this window are data errors (forgotten check-outs, instant completions)
+const MIN_SEATING_MINUTES = 10;
+const MAX_SEATING_MINUTES = 360;
+const MIN_SAMPLES = 5;
+const HIGH_CONFIDENCE_SAMPLES = 20;
+const STATS_CACHE_TTL = 10 * 60 * 1000;
+// Spread around the configured turn time when there is not enough history
+const FALLBACK_SPREAD = 0.25;
+// Legacy estimate when nothing better is available
+const MINUTES_PER_POSITION = 15;
+export const WAITING_STATUSES = ['waiting', 'notified'];
+
+export type WaitScenario = 'low' | 'expected' | 'high';
+export type WaitConfidence = 'high' | 'medium' | 'low';
+
+export interface SeatingDuration {
+    low: number;
+    expected: number;
+    high: number;
+    samples: number;
+}
+
+export interface TableAvailability {
+    tableId: string;
+    capacity: number;
+    /** Minutes from now until the table is free, per scenario */
+    freeIn: Record<WaitScenario, number>;
+    /** Minutes from now until its next booked reservation starts */
+    reservedIn: number | null;
+    /** Expected duration of that reservation, per scenario */
+    reservedFor: Record<WaitScenario, number> | null;
+}
+
+export interface QueuedParty {
+    id: string;
+    partySize: number;
+}
+
+export interface WaitEstimate {
+    /** Expected wait in minutes (null when no table fits the party) */
+    minutes: number | null;
+    low: number | null;
+    high: number | null;
+    confidence: WaitConfidence;
+    partiesAhead: number;
+    /** Seating samples behind the duration used for this party size */
+    samples: number;
+}
+
+export function getPartyBucket(partySize: number): number {
+    return PARTY_SIZE_BUCKETS.find(size => partySize <= size) ?? LARGE_PARTY_BUCKET;
+}
+
+function percentile(sorted: number[], p: number): number {
+    const index = Math.min(sorted.length - 1, Math.max(0, Math.round((sorted.length - 1) * p)));
+    return sorted[index];
+}
+
+/**
+ * Seating duration percentiles by party size bucket
+ */
+export function buildDurationStats(rows: {
+    guest_count: number;
+    seated_at?: string | null;
+    arrived_at?: string | null;
+    completed_at?: string | null;
+}[]): Map<number, SeatingDuration> {
+    const byBucket = new Map<number, number[]>();
+
+    for (const row of rows) {
+        const seatedAt = row.seated_at || row.arrived_at;
+        if (!seatedAt || !row.completed_at) continue;
+
+        const minutes = (Date.parse(row.completed_at) - Date.parse(seatedAt)) / 60000;
+        if (!(minutes >= MIN_SEATING_MINUTES && minutes <= MAX_SEATING_MINUTES)) continue;
+
+        const bucket = getPartyBucket(Number(row.guest_count) || 1);
+        byBucket.set(bucket, [...(byBucket.get(bucket) || []), minutes]);
+    }
+
+    const stats = new Map<number, SeatingDuration>();
+    byBucket.forEach((durations, bucket) => {
+        const sorted = durations.sort((a, b) => a - b);
+        stats.set(bucket, {
+            low: percentile(sorted, 0.25),
+            expected: percentile(sorted, 0.5),
+            high: percentile(sorted, 0.75),
+            samples: sorted.length,
+        });
+    });
+    return stats;
+}
+
+/**
+ * How long a party of this size usually stays; configured turn time if history is thin
+ */
+export function getSeatingDuration(
+    stats: Map<number, SeatingDuration>,
+    settings: AvailabilitySettings,
+    partySize: number
+): SeatingDuration {
+    const history = stats.get(getPartyBucket(partySize));
+    if (history && history.samples >= MIN_SAMPLES) return history;
+
+    const turn = getTurnMinutes(settings, partySize);
+    return {
+        low: turn * (1 - FALLBACK_SPREAD),
+        expected: turn,
+        high: turn * (1 + FALLBACK_SPREAD),
+        samples: history?.samples || 0,
+    };
+}
+
+function roundUpToFive(minutes: number): number {
+    return Math.max(0, Math.ceil(minutes / 5) * 5);
+}
+
+/**
+ * First moment (minutes from now) a party can sit at a table without running into its next reservation
+ */
+function startFor(table: TableAvailability, freeAt: number, scenario: WaitScenario, stay: number, buffer: number): number {
+    if (table.reservedIn === null || freeAt + stay + buffer <= table.reservedIn) return freeAt;
+    return Math.max(freeAt, table.reservedIn + (table.reservedFor?.[scenario] || 0) + buffer);
+}
+
+/**
+ * Estimate the wait of every party in the queue (in order) for one duration scenario each
+ */
+export function estimateQueueWaits(
+    tables: TableAvailability[],
+    queue: QueuedParty[],
+    durationFor: (partySize: number) => SeatingDuration,
+    bufferMinutes: number
+): Map<string, WaitEstimate> {
+    const scenarios: WaitScenario[] = ['low', 'expected', 'high'];
+    const starts = new Map<string, Partial<Record<WaitScenario, number | null>>>();
+
+    for (const scenario of scenarios) {
+        const freeAt = tables.map(table => table.freeIn[scenario]);
+
+        for (const party of queue) {
+            const stay = durationFor(party.partySize)[scenario];
+            let best = -1;
+            let bestStart = Infinity;
+
+            tables.forEach((table, index) => {
+                if (table.capacity < party.partySize) return;
+                const start = startFor(table, freeAt[index], scenario, stay, bufferMinutes);
+                // Prefer the earliest table, then the smallest that fits
+                if (start < bestStart || (start === bestStart && best >= 0 && table.capacity < tables[best].capacity)) {
+                    best = index;
+                    bestStart = start;
+                }
+            });
+
+            const partyStarts = starts.get(party.id) || {};
+            partyStarts[scenario] = best >= 0 ? bestStart : null;
+            starts.set(party.id, partyStarts);
+            if (best >= 0) freeAt[best] = bestStart + stay + bufferMinutes;
+        }
+    }
+
+    const estimates = new Map<string, WaitEstimate>();
+    queue.forEach((party, partiesAhead) => {
+        const start = starts.get(party.id) || {};
+        const samples = durationFor(party.partySize).samples;
+        let confidence: WaitConfidence = samples >= HIGH_CONFIDENCE_SAMPLES ? 'high' : samples >= MIN_SAMPLES ? 'medium' : 'low';
+        // Every party ahead adds its own uncertainty
+        if (partiesAhead > 3 && confidence !== 'low') confidence = confidence === 'high' ? 'medium' : 'low';
+
+        const fits = start.expected !== null && start.expected !== undefined;
+        estimates.set(party.id, {
+            minutes: fits ? roundUpToFive(start.expected!) : null,
+            low: fits ? roundUpToFive(start.low ?? start.expected!) : null,
+            high: fits ? roundUpToFive(start.high ?? start.expected!) : null,
+            confidence,
+            partiesAhead,
+            samples,
+        });
+    });
+    return estimates;
+}
+
+/**
+ * Legacy flat estimate, used when the live data cannot be read
+ */
+export function fallbackEstimate(partiesAhead: number): WaitEstimate {
+    const minutes = (partiesAhead + 1) * MINUTES_PER_POSITION;
+    return { minutes, low: minutes, high: minutes, confidence: 'low', partiesAhead, samples: 0 };
+}
+
+export class WaitTimeService {
+    private static statsCache: Map<string, { stats: Map<number, SeatingDuration>, timestamp: number }> = new Map();
+
+    /**
+     * Estimates for everyone waiting, plus an optional party that has not joined yet (id 'new')
+     */
+    static async estimateQueue(restaurantId: string, newPartySize?: number): Promise<Map<string, WaitEstimate>> {
+        const { data: entries, error } = await supabaseAdmin
+            .from('waitlist')
+            .select('id, party_size, position, created_at')
+            .eq('restaurant_id', restaurantId)
+            .in('status', WAITING_STATUSES)
+            .order('position', { ascending: true, nullsFirst: false })
+            .order('created_at', { ascending: true });
+
+        if (error) throw error;
+
+        const queue: QueuedParty[] = (entries || []).map(entry => ({ id: entry.id, partySize: Number(entry.party_size) || 1 }));
+        if (newPartySize) queue.push({ id: 'new', partySize: newPartySize });
+
+        try {
+            const { data: restaurant } = await supabaseAdmin
+                .from('restaurants')
+                .select('settings')
+                .eq('id', restaurantId)
+                .single();
+
+            const settings: AvailabilitySettings = restaurant?.settings || {};
+            const stats = await this.getDurationStats(restaurantId);
+            const durationFor = (partySize: number) => getSeatingDuration(stats, settings, partySize);
+
+            const report = await TableStatusService.getRestaurantStatusReport(restaurantId);
+            const tables = this.toAvailability(report, durationFor, settings.timezone || DEFAULT_TIMEZONE, new Date());
+
+            return estimateQueueWaits(tables, queue, durationFor, getBufferMinutes(settings));
+        } catch (estimateError: any) {
+            Logger.warn('Wait time estimation failed, using flat estimate', { restaurantId, error: estimateError.message });
+            return new Map(queue.map((party, index) => [party.id, fallbackEstimate(index)]));
+        }
+    }
+
+    static async estimateForEntry(restaurantId: string, entryId: string): Promise<WaitEstimate | null> {
+        return (await this.estimateQueue(restaurantId)).get(entryId) || null;
+    }
+
+    static async estimateForNewParty(restaurantId: string, partySize: number): Promise<WaitEstimate> {
+        return (await this.estimateQueue(restaurantId, partySize)).get('new')!;
+    }
+
+    /**
+     * Seating durations of the last HISTORY_DAYS days, cached per restaurant
+     */
+    static async getDurationStats(restaurantId: string): Promise<Map<number, SeatingDuration>> {
+        const cached = this.statsCache.get(restaurantId);
+        if (cached && Date.now() - cached.timestamp < STATS_CACHE_TTL) return cached.stats;
+
+        const since = addDays(new Date().toISOString().split('T')[0], -HISTORY_DAYS);
+        const { data, error } = await supabaseAdmin
+            .from('reservations')
+            .select('guest_count, seated_at, arrived_at, completed_at')
+            .eq('restaurant_id', restaurantId)
+            .eq('status', 'completed')
+            .not('completed_at', 'is', null)
+            .gte('date', since)
+            .order('date', { ascending: false })
+            .limit(HISTORY_LIMIT);
+
+        if (error) throw error;
+
+        const stats = buildDurationStats(data || []);
+        this.statsCache.set(restaurantId, { stats, timestamp: Date.now() });
+        return stats;
+    }
+
+    /**
+     * When each table of the live report will be free, per scenario
+     */
+    private static toAvailability(
+        report: TableStatusReport[],
+        durationFor: (partySize: number) => SeatingDuration,
+        timezone: string,
+        now: Date
+    ): TableAvailability[] {
+        const minutesUntil = (reservation: any) =>
+            (zonedTimeToUtc(reservation.date, reservation.time, timezone).getTime() - now.getTime()) / 60000;
+
+        return report
+            .filter(table => table.logicalStatus !== TableLogicalStatus.OUT_OF_SERVICE)
+            .map(table => {
+                let freeIn: Record<WaitScenario, number> = { low: 0, expected: 0, high: 0 };
+                const current = table.currentReservation;
+
+                if (current) {
+                    const duration = durationFor(Number(current.guest_count) || 1);
+                    const startedAt = current.seated_at || current.arrived_at;
+                    const elapsed = startedAt
+                        ? (now.getTime() - Date.parse(startedAt)) / 60000
+                        : Math.max(0, -minutesUntil(current));
+                    // Parties past their usual time are expected to leave soon
+                    freeIn = {
+                        low: Math.max(0, duration.low - elapsed),
+                        expected: Math.max(5, duration.expected - elapsed),
+                        high: Math.max(15, duration.high - elapsed),
+                    };
+                } else if (table.tableStatus === 'occupied') {
+                    // Seated without a reservation (e.g. from the waitlist): assume halfway through
+                    const duration = durationFor(table.capacity);
+                    freeIn = { low: 0, expected: duration.expected / 2, high: duration.high };
+                }
+
+                const next = table.nextReservation;
+                return {
+                    tableId: table.tableId,
+                    capacity: table.capacity,
+                    freeIn,
+                    reservedIn: next ? Math.max(0, minutesUntil(next)) : null,
+                    reservedFor: next ? durationFor(Number(next.guest_count) || 1) : null,
+                };
+            });
+    }
+}
@@ -0,0 +1,446 @@
+import crypto from 'crypto';
+import { supabaseAdmin } from '../config/supabase.js';
+import { env } from '../config/env.js';
+import { AvailabilitySettings, getBufferMinutes } from './availability.js';
+import * as emailService from './email.js';
+import { FeatureFlagService } from './featureFlag.js';
+import { JobLockService } from './jobLock.js';
+import { NotificationService } from './notifications.js';
+import { Logger } from './observability.js';
+import { TableLogicalStatus, TableStatusService } from './tableStatus.js';
+import { WaitTimeService, getSeatingDuration } from './waitTime.js';
+
+/**
+ * Sittara Waitlist Matcher
+ * When a table is free, offers it to the best waiting party and gives them
+ * settings.waitlistConfirmMinutes to confirm. Unanswered offers go to the next party;
+ * after settings.waitlistMaxSkips missed offers the party leaves the list as no_show.
+ */
+
+const JOB_NAME = 'waitlist_matcher';
+const FEATURE_FLAG = 'waitlist_auto_match';
+const TICK_INTERVAL_MS = 30 * 1000;
+const LOCK_TTL_SECONDS = 25;
+const DEFAULT_CONFIRM_MINUTES = 5;
+const DEFAULT_MAX_SKIPS = 2;
+const PRIORITY_RANK: Record<string, number> = { vip: 2, priority: 1, normal: 0 };
+// Entries holding an offer (their table must not be offered again)
+const OFFER_STATUSES = ['notified', 'confirmed'];
+
+export interface WaitingParty {
+    id: string;
+    party_size: number;
+    preferred_zone?: string | null;
+    priority?: string | null;
+    position?: number | null;
+    created_at: string;
+}
+
+export interface FreeTable {
+    tableId: string;
+    number: number;
+    capacity: number;
+    zone: string | null;
+    /** Minutes until the next booked reservation of this table */
+    minutesUntilNextReservation: number | null;
+}
+
+export interface TableMatch {
+    table: FreeTable;
+    entry: WaitingParty;
+}
+
+export function getConfirmMinutes(settings: Record<string, any> = {}): number {
+    const minutes = Number(settings.waitlistConfirmMinutes);
+    return Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_CONFIRM_MINUTES;
+}
+
+export function getMaxSkips(settings: Record<string, any> = {}): number {
+    const skips = Number(settings.waitlistMaxSkips);
+    return Number.isInteger(skips) && skips > 0 ? skips : DEFAULT_MAX_SKIPS;
+}
+
+/**
+ * Minutes the party waited, from joining the list to being seated
+ */
+export function getActualWait(createdAt: string, seatedAt: Date = new Date()): number {
+    return Math.max(0, Math.round((seatedAt.getTime() - Date.parse(createdAt)) / 60000));
+}
+
+/**
+ * Parties that can take the table, best first: priority (vip, priority), then those whose
+ * preferred zone matches, then queue order. Parties filling at least half the table go before
+ * smaller ones so large tables are not spent on couples while a group waits.
+ */
+export function rankCandidates(
+    table: FreeTable,
+    entries: WaitingParty[],
+    occupancyMinutes: (partySize: number) => number
+): WaitingParty[] {
+    const fitting = entries.filter(entry =>
+        entry.party_size <= table.capacity &&
+        (table.minutesUntilNextReservation === null || occupancyMinutes(entry.party_size) <= table.minutesUntilNextReservation)
+    );
+
+    const wellSized = fitting.filter(entry => entry.party_size * 2 >= table.capacity);
+    const pool = wellSized.length > 0 ? wellSized : fitting;
+    const zoneMismatch = (entry: WaitingParty) => Boolean(entry.preferred_zone && entry.preferred_zone !== table.zone);
+
+    return [...pool].sort((a, b) =>
+        (PRIORITY_RANK[b.priority || 'normal'] || 0) - (PRIORITY_RANK[a.priority || 'normal'] || 0) ||
+        Number(zoneMismatch(a)) - Number(zoneMismatch(b)) ||
+        (a.position ?? Infinity) - (b.position ?? Infinity) ||
+        a.created_at.localeCompare(b.created_at)
+    );
+}
+
+/**
+ * Pair free tables with waiting parties; smaller tables choose first so they go to smaller parties
+ */
+export function matchTables(
+    tables: FreeTable[],
+    entries: WaitingParty[],
+    occupancyMinutes: (partySize: number) => number
+): TableMatch[] {
+    const remaining = [...entries];
+    const matches: TableMatch[] = [];
+
+    for (const table of [...tables].sort((a, b) => a.capacity - b.capacity)) {
+        const [best] = rankCandidates(table, remaining, occupancyMinutes);
+        if (!best) continue;
+        matches.push({ table, entry: best });
+        remaining.splice(remaining.indexOf(best), 1);
+    }
+    return matches;
+}
+
+export function buildOfferLinks(token: string) {
+    const base = `${env.frontendUrl}/lista-espera/oferta/${token}`;
+    return {
+        confirmUrl: `${base}?accion=confirmar`,
+        declineUrl: `${base}?accion=rechazar`,
+    };
+}
+
+export class WaitlistMatcherService {
+    private static stopJob: (() => void) | null = null;
+
+    /**
+     * Start the background loop; safe to call on every instance thanks to the job lock
+     */
+    static start(intervalMs: number = TICK_INTERVAL_MS): void {
+        if (this.stopJob) return;
+        this.stopJob = JobLockService.startRecurring(JOB_NAME, intervalMs, LOCK_TTL_SECONDS, () => this.runOnce());
+    }
+
+    static stop(): void {
+        this.stopJob?.();
+        this.stopJob = null;
+    }
+
+    /**
+     * Expire unanswered offers and offer free tables, for every restaurant with people waiting
+     * @returns number of offers sent
+     */
+    static async runOnce(now: Date = new Date()): Promise<number> {
+        const { data: entries, error } = await supabaseAdmin
+            .from('waitlist')
+            .select('restaurant_id')
+            .in('status', ['waiting', 'notified']);
+
+        if (error) throw error;
+
+        let offered = 0;
+        const restaurantIds = Array.from(new Set((entries || []).map(entry => entry.restaurant_id)));
+
+        for (const restaurantId of restaurantIds) {
+            if (!(await FeatureFlagService.isEnabled(FEATURE_FLAG, restaurantId))) continue;
+            try {
+                await this.expireOffers(restaurantId, now);
+                offered += (await this.matchRestaurant(restaurantId)).length;
+            } catch (matchError: any) {
+                Logger.error('Error matching waitlist', { restaurantId, error: matchError.message });
+            }
+        }
+        return offered;
+    }
+
+    /**
+     * Called when a table is released; offers it right away instead of waiting for the next tick
+     */
+    static async onTablesFreed(restaurantId: string): Promise<void> {
+        try {
+            if (!(await FeatureFlagService.isEnabled(FEATURE_FLAG, restaurantId))) return;
+            await this.matchRestaurant(restaurantId);
+        } catch (error: any) {
+            Logger.error('Error matching waitlist after table release', { restaurantId, error: error.message });
+        }
+    }
+
+    /**
+     * Find the best party for every free table
+     * @param dryRun only propose, without sending offers
+     */
+    static async matchRestaurant(restaurantId: string, dryRun: boolean = false): Promise<TableMatch[]> {
+        const [{ data: restaurant }, { data: entries, error }, { data: offers }] = await Promise.all([
+            supabaseAdmin.from('restaurants').select('name, settings').eq('id', restaurantId).single(),
+            supabaseAdmin
+                .from('waitlist')
+                .select('id, party_size, preferred_zone, priority, position, created_at')
+                .eq('restaurant_id', restaurantId)
+                .eq('status', 'waiting'),
+            supabaseAdmin
+                .from('waitlist')
+                .select('offered_table_id')
+                .eq('restaurant_id', restaurantId)
+                .in('status', OFFER_STATUSES),
+        ]);
+
+        if (error) throw error;
+        if (!entries || entries.length === 0) return [];
+
+        const settings: AvailabilitySettings = restaurant?.settings || {};
+        const stats = await WaitTimeService.getDurationStats(restaurantId);
+        const buffer = getBufferMinutes(settings);
+        const occupancyMinutes = (partySize: number) => getSeatingDuration(stats, settings, partySize).expected + buffer;
+
+        const heldTables = new Set((offers || []).map(offer => offer.offered_table_id).filter(Boolean));
+        const report = await TableStatusService.getRestaurantStatusReport(restaurantId);
+        // 'reserved' without an offer is a booking later today; the logical status says whether it is far enough
+        const freeTables: FreeTable[] = report
+            .filter(table =>
+                ['available', 'reserved'].includes(table.tableStatus) &&
+                !heldTables.has(table.tableId) &&
+                (table.logicalStatus === TableLogicalStatus.FREE || table.logicalStatus === TableLogicalStatus.NEXT_RESERVATION)
+            )
+            .map(table => ({
+                tableId: table.tableId,
+                number: table.number,
+                capacity: table.capacity,
+                zone: table.zone,
+                minutesUntilNextReservation: table.nextReservation ? table.remainingTimeMinutes ?? null : null,
+            }));
+
+        const matches = matchTables(freeTables, entries, occupancyMinutes);
+        if (dryRun) return matches;
+
+        const sent: TableMatch[] = [];
+        for (const match of matches) {
+            const tableStatus = report.find(table => table.tableId === match.table.tableId)?.tableStatus;
+            if (await this.offer(match.entry.id, match.table, restaurant?.name || 'el restaurante', settings, tableStatus)) {
+                sent.push(match);
+            }
+        }
+        return sent;
+    }
+
+    /**
+     * Offer a table to a waiting party: hold the table and notify the guest
+     * @returns the updated entry, or null if the party or the table was taken meanwhile
+     */
+    static async offer(
+        entryId: string,
+        table: Pick<FreeTable, 'tableId' | 'number'>,
+        restaurantName: string,
+        settings: Record<string, any>,
+        tableStatus: string = 'available'
+    ): Promise<any | null> {
+        // Holding an available table also stops two offers of it from racing
+        const holdsTable = tableStatus === 'available';
+        if (holdsTable) {
+            const { data: held } = await supabaseAdmin
+                .from('tables')
+                .update({ status: 'reserved' })
+                .eq('id', table.tableId)
+                .eq('status', 'available')
+                .select('id')
+                .maybeSingle();
+
+            if (!held) return null;
+        }
+
+        const confirmMinutes = getConfirmMinutes(settings);
+        const now = new Date();
+        const token = crypto.randomBytes(24).toString('hex');
+
+        const { data: entry, error } = await supabaseAdmin
+            .from('waitlist')
+            .update({
+                status: 'notified',
+                notified_at: now.toISOString(),
+                offered_table_id: table.tableId,
+                offer_expires_at: new Date(now.getTime() + confirmMinutes * 60000).toISOString(),
+                action_token: token,
+            })
+            .eq('id', entryId)
+            .eq('status', 'waiting')
+            .select()
+            .maybeSingle();
+
+        if (error || !entry) {
+            if (holdsTable) await this.releaseHeldTable(table.tableId);
+            if (error) throw error;
+            return null;
+        }
+
+        await this.notifyTableReady(entry, table.number, restaurantName, confirmMinutes, token);
+
+        Logger.persistSystemMetric('waitlist_offer_sent', 1, {
+            restaurantId: entry.restaurant_id,
+            waitlistId: entry.id,
+            tableId: table.tableId,
+        });
+        return entry;
+    }
+
+    /**
+     * Guest accepts the offer; the table stays held until staff seats them
+     */
+    static async confirmOffer(entry: any): Promise<any | null> {
+        if (entry.offer_expires_at && Date.parse(entry.offer_expires_at) < Date.now()) return null;
+
+        const { data } = await supabaseAdmin
+            .from('waitlist')
+            .update({ status: 'confirmed', confirmed_at: new Date().toISOString() })
+            .eq('id', entry.id)
+            .eq('status', 'notified')
+            .select()
+            .maybeSingle();
+
+        return data;
+    }
+
+    /**
+     * Guest turns the offer down and leaves the list; the table goes to the next party
+     */
+    static async declineOffer(entry: any): Promise<boolean> {
+        const { data } = await supabaseAdmin
+            .from('waitlist')
+            .update({ status: 'left', offered_table_id: null, offer_expires_at: null })
+            .eq('id', entry.id)
+            .in('status', OFFER_STATUSES)
+            .select('id')
+            .maybeSingle();
+
+        if (!data) return false;
+        if (entry.offered_table_id) {
+            await this.releaseHeldTable(entry.offered_table_id);
+            await this.onTablesFreed(entry.restaurant_id);
+        }
+        return true;
+    }
+
+    /**
+     * Put parties whose offer ran out back in line (keeping their place), or drop them after too many misses
+     * @returns number of skipped parties
+     */
+    static async expireOffers(restaurantId: string, now: Date = new Date()): Promise<number> {
+        const { data: expired, error } = await supabaseAdmin
+            .from('waitlist')
+            .select('id, offered_table_id, skipped_count, restaurants (settings)')
+            .eq('restaurant_id', restaurantId)
+            .eq('status', 'notified')
+            .lt('offer_expires_at', now.toISOString());
+
+        if (error) throw error;
+
+        let skipped = 0;
+        for (const entry of expired || []) {
+            const settings = (entry.restaurants as any)?.settings || {};
+            const skippedCount = (entry.skipped_count || 0) + 1;
+
+            const { data } = await supabaseAdmin
+                .from('waitlist')
+                .update({
+                    status: skippedCount >= getMaxSkips(settings) ? 'no_show' : 'waiting',
+                    skipped_count: skippedCount,
+                    offered_table_id: null,
+                    offer_expires_at: null,
+                })
+                .eq('id', entry.id)
+                .eq('status', 'notified')
+                .select('id')
+                .maybeSingle();
+
+            if (!data) continue;
+            if (entry.offered_table_id) await this.releaseHeldTable(entry.offered_table_id);
+            skipped++;
+
+            Logger.persistSystemMetric('waitlist_offer_expired', 1, { restaurantId, waitlistId: entry.id, skippedCount });
+        }
+        return skipped;
+    }
+
+    /**
+     * Seat a party at a table (the offered one by default) and record how long they waited
+     */
+    static async seat(entry: any, tableId?: string | null): Promise<any> {
+        const seatedAt = new Date();
+        const table = tableId || entry.offered_table_id || null;
+
+        const { data, error } = await supabaseAdmin
+            .from('waitlist')
+            .update({
+                status: 'seated',
+                seated_at: seatedAt.toISOString(),
+                table_id: table,
+                actual_wait: getActualWait(entry.created_at, seatedAt),
+                position: null,
+                offered_table_id: null,
+                offer_expires_at: null,
+            })
+            .eq('id', entry.id)
+            .select()
+            .single();
+
+        if (error) throw error;
+
+        if (table) {
+            await supabaseAdmin
+                .from('tables')
+                .update({ status: 'occupied' })
+                .eq('id', table);
+        }
+        // The held table was not used: give it to someone else
+        if (entry.offered_table_id && entry.offered_table_id !== table) {
+            await this.releaseHeldTable(entry.offered_table_id);
+        }
+        return data;
+    }
+
+    /**
+     * Give back a table held for an offer (only if nobody has been seated at it)
+     */
+    static async releaseHeldTable(tableId: string): Promise<void> {
+        await supabaseAdmin
+            .from('tables')
+            .update({ status: 'available' })
+            .eq('id', tableId)
+            .eq('status', 'reserved');
+    }
+
+    private static async notifyTableReady(entry: any, tableNumber: number, restaurantName: string, confirmMinutes: number, token: string): Promise<void> {
+        try {
+            if (entry.user_id) {
+                await NotificationService.createNotification({
+                    userId: entry.user_id,
+                    type: 'waitlist_table_ready',
+                    title: '¡Tu mesa está lista!',
+                    message: `${restaurantName} tiene tu mesa lista. Confírmala en los próximos ${confirmMinutes} minutos.`,
+                    data: { waitlistId: entry.id, tableNumber, expiresAt: entry.offer_expires_at },
+                });
+            }
+            if (entry.email) {
+                await emailService.sendWaitlistTableReady(entry.email, {
+                    restaurantName,
+                    name: entry.name,
+                    tableNumber,
+                    expiresInMinutes: confirmMinutes,
+                    ...buildOfferLinks(token),
+                });
+            }
+        } catch (error: any) {
+            Logger.error('Error notifying waitlist table ready', { waitlistId: entry.id, error: error?.message });
+        }
+    }
+}
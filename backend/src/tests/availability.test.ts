@@ -0,0 +1,99 @@
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('../config/supabase.js', () => ({
+    supabase: { from: jest.fn() },
+    supabaseAdmin: { from: jest.fn() }
+}));
+
+import {
+    AvailabilityService,
+    AvailabilitySnapshot,
+    getTurnMinutes,
+    getBufferMinutes,
+    minutesToTime,
+    timeToMinutes,
+} from '../services/availability.js';
+
+const buildSnapshot = (overrides: Partial<AvailabilitySnapshot> = {}): AvailabilitySnapshot => ({
+    restaurantId: 'rest123',
+    settings: { turnTimes: { '2': 90, '4': 120 }, defaultTurnMinutes: 150, bufferMinutes: 15 },
+    tables: [
+        { id: 'table1', capacity: 2 },
+        { id: 'table2', capacity: 4 },
+    ],
+    reservations: [],
+    ...overrides,
+});
+
+describe('Availability Engine', () => {
+    describe('time helpers', () => {
+        it('should convert times to minutes and back', () => {
+            expect(timeToMinutes('20:30')).toBe(1230);
+            expect(timeToMinutes('20:30:00')).toBe(1230);
+            expect(minutesToTime(1230)).toBe('20:30');
+            expect(minutesToTime(1500)).toBe('01:00');
+        });
+    });
+
+    describe('turn times and buffer', () => {
+        it('should pick the turn time for the smallest matching party size', () => {
+            const settings = { turnTimes: { '2': 90, '4': 120 }, defaultTurnMinutes: 150 };
+            expect(getTurnMinutes(settings, 2)).toBe(90);
+            expect(getTurnMinutes(settings, 3)).toBe(120);
+            expect(getTurnMinutes(settings, 10)).toBe(150);
+        });
+
+        it('should fall back to defaults when settings are empty', () => {
+            expect(getTurnMinutes({}, 2)).toBe(90);
+            expect(getBufferMinutes({})).toBe(0);
+            // New restaurants are registered with reservationDuration: 120, which is not a buffer
+            expect(getBufferMinutes({ reservationDuration: 120 })).toBe(0);
+            expect(getBufferMinutes({ bufferMinutes: 10, reservationDuration: 120 })).toBe(10);
+        });
+    });
+
+    describe('isTableFree', () => {
+        it('should block a later slot that falls inside an existing seating', () => {
+            const snapshot = buildSnapshot({
+                reservations: [{ id: 'r1', table_id: 'table1', date: '2025-01-01', time: '20:00:00', guest_count: 2 }],
+            });
+
+            expect(AvailabilityService.isTableFree(snapshot, 'table1', '2025-01-01', '20:30', 2)).toBe(false);
+            expect(AvailabilityService.isTableFree(snapshot, 'table2', '2025-01-01', '20:30', 2)).toBe(true);
+        });
+
+        it('should apply the buffer between seatings', () => {
+            const snapshot = buildSnapshot({
+                reservations: [{ id: 'r1', table_id: 'table1', date: '2025-01-01', time: '20:00', end_time: '21:30', guest_count: 2 }],
+            });
+
+            // 21:30 end + 15 min buffer
+            expect(AvailabilityService.isTableFree(snapshot, 'table1', '2025-01-01', '21:30', 2)).toBe(false);
+            expect(AvailabilityService.isTableFree(snapshot, 'table1', '2025-01-01', '21:45', 2)).toBe(true);
+            // A new 18:30 seating of 90 min would run into the 20:00 booking's buffer
+            expect(AvailabilityService.isTableFree(snapshot, 'table1', '2025-01-01', '18:30', 2)).toBe(false);
+            expect(AvailabilityService.isTableFree(snapshot, 'table1', '2025-01-01', '18:15', 2)).toBe(true);
+        });
+
+        it('should ignore the reservation being modified', () => {
+            const snapshot = buildSnapshot({
+                reservations: [{ id: 'r1', table_id: 'table1', date: '2025-01-01', time: '20:00', guest_count: 2 }],
+            });
+
+            expect(AvailabilityService.isTableFree(snapshot, 'table1', '2025-01-01', '20:30', 2, 'r1')).toBe(true);
+        });
+    });
+
+    describe('getFreeTables', () => {
+        it('should only return tables that fit the party and are free', () => {
+            const snapshot = buildSnapshot({
+                reservations: [{ id: 'r1', table_id: 'table2', date: '2025-01-01', time: '20:00', guest_count: 4 }],
+            });
+
+            expect(AvailabilityService.getFreeTables(snapshot, '2025-01-01', '20:00', 3)).toEqual([]);
+            expect(AvailabilityService.getFreeTables(snapshot, '2025-01-01', '20:00', 2)).toEqual([
+                expect.objectContaining({ id: 'table1' }),
+            ]);
+        });
+    });
+});
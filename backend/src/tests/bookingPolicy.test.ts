@@ -0,0 +1,78 @@
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('../config/supabase.js', () => ({
+    supabase: { from: jest.fn() },
+    supabaseAdmin: { from: jest.fn() }
+}));
+
+import {
+    evaluateBookingPolicy,
+    getDepositRequirement,
+    getDepositViolation,
+} from '../services/bookingPolicy.js';
+import { ScheduleSource } from '../services/schedule.js';
+
+// 2025-01-03 is a Friday
+const buildSource = (settings: Record<string, any> = {}): ScheduleSource => ({
+    settings: {
+        maxPartySize: 8,
+        minAdvanceHours: 2,
+        maxReservationDays: 30,
+        depositRequired: true,
+        depositAmount: 200,
+        depositDays: ['friday', 'saturday'],
+        depositHours: ['20:00', '21:00'],
+        ...settings,
+    },
+    opening_hours: {
+        thursday: { open: '13:00', close: '23:00' },
+        friday: { open: '13:00', close: '23:00' },
+        saturday: { open: '13:00', close: '23:00' },
+    },
+    holidays: [{ date: '2025-01-04', name: 'Inventario', closed: true }],
+});
+
+const NOW = { date: '2025-01-02', minutes: 14 * 60 };
+const codes = (source: ScheduleSource, request: { date: string; time: string; guestCount: number }) =>
+    evaluateBookingPolicy(source, request, NOW).violations.map(v => v.code);
+
+describe('Booking Policy', () => {
+    it('should accept a booking that meets every rule', () => {
+        expect(codes(buildSource(), { date: '2025-01-03', time: '19:00', guestCount: 4 })).toEqual([]);
+    });
+
+    it('should enforce party size, including the legacy maxGuestsPerReservation key', () => {
+        expect(codes(buildSource(), { date: '2025-01-03', time: '19:00', guestCount: 10 })).toEqual(['PARTY_SIZE_EXCEEDED']);
+        expect(codes(buildSource({ maxPartySize: undefined, maxGuestsPerReservation: 4 }), { date: '2025-01-03', time: '19:00', guestCount: 5 }))
+            .toEqual(['PARTY_SIZE_EXCEEDED']);
+        expect(codes(buildSource(), { date: '2025-01-03', time: '19:00', guestCount: 0 })).toEqual(['INVALID_PARTY_SIZE']);
+    });
+
+    it('should enforce advance notice and the booking window', () => {
+        expect(codes(buildSource(), { date: '2025-01-02', time: '15:00', guestCount: 2 })).toEqual(['ADVANCE_NOTICE_REQUIRED']);
+        expect(codes(buildSource(), { date: '2025-01-02', time: '13:00', guestCount: 2 })).toEqual(['DATE_IN_PAST']);
+        expect(codes(buildSource(), { date: '2025-02-07', time: '19:00', guestCount: 2 })).toEqual(['BEYOND_BOOKING_WINDOW']);
+    });
+
+    it('should reject closed days and times outside opening hours', () => {
+        expect(codes(buildSource(), { date: '2025-01-04', time: '19:00', guestCount: 2 })).toEqual(['RESTAURANT_CLOSED']);
+        expect(codes(buildSource(), { date: '2025-01-03', time: '22:30', guestCount: 2 })).toEqual(['OUTSIDE_OPENING_HOURS']);
+    });
+
+    describe('deposits', () => {
+        it('should require a deposit only on peak days and hours', () => {
+            const settings = buildSource().settings!;
+            expect(getDepositRequirement(settings, '2025-01-03', '20:00:00')).toEqual({ required: true, amount: 200 });
+            expect(getDepositRequirement(settings, '2025-01-03', '19:00')).toEqual({ required: false, amount: 0 });
+            expect(getDepositRequirement(settings, '2025-01-02', '20:00')).toEqual({ required: false, amount: 0 });
+            expect(getDepositRequirement({ ...settings, depositRequired: false }, '2025-01-03', '20:00').required).toBe(false);
+        });
+
+        it('should report missing or insufficient payments', () => {
+            const deposit = { required: true, amount: 200 };
+            expect(getDepositViolation(deposit, 0)?.code).toBe('DEPOSIT_REQUIRED');
+            expect(getDepositViolation(deposit, 100)?.code).toBe('DEPOSIT_INSUFFICIENT');
+            expect(getDepositViolation(deposit, 200)).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('../config/supabase.js', () => ({
+    supabase: { from: jest.fn() },
+    supabaseAdmin: { from: jest.fn(), rpc: jest.fn() }
+}));
+
+import { evaluateCancellation, getRefundPercent, parseCancellationPolicy } from '../services/cancellationPolicy.js';
+import { calculateNoShowPenalty } from '../services/noShow.js';
+
+const settings = {
+    timezone: 'America/Mexico_City',
+    cancellationPolicy: {
+        tiers: [
+            { minHoursBefore: 2, refundPercent: 50 },
+            { minHoursBefore: 24, refundPercent: 100 },
+        ],
+        noShowPenaltyPercent: 100,
+    },
+};
+
+// 20:00 in Mexico City (UTC-6) on 2026-10-20
+const reservation = { date: '2026-10-20', time: '20:00', deposit_paid: true, deposit_status: 'paid', deposit_amount: 300 };
+const hoursBefore = (hours: number) => new Date(Date.parse('2026-10-21T02:00:00Z') - hours * 3600000);
+
+describe('Cancellation Policy', () => {
+    it('should refund by the tier matching the hours left', () => {
+        expect(evaluateCancellation(reservation, settings, 'guest', hoursBefore(30))).toMatchObject({ refundPercent: 100, refundAmount: 300, feeAmount: 0 });
+        expect(evaluateCancellation(reservation, settings, 'guest', hoursBefore(5))).toMatchObject({ refundPercent: 50, refundAmount: 150, feeAmount: 150 });
+        expect(evaluateCancellation(reservation, settings, 'guest', hoursBefore(1))).toMatchObject({ refundPercent: 0, refundAmount: 0, feeAmount: 300 });
+    });
+
+    it('should refund everything when the restaurant cancels or has no policy', () => {
+        expect(evaluateCancellation(reservation, settings, 'restaurant', hoursBefore(1)).refundAmount).toBe(300);
+        expect(evaluateCancellation(reservation, { timezone: 'America/Mexico_City' }, 'guest', hoursBefore(1)).refundAmount).toBe(300);
+        expect(getRefundPercent(null, -5)).toBe(100);
+    });
+
+    it('should not refund deposits that were never paid or already refunded', () => {
+        const refunded = { ...reservation, deposit_status: 'refunded' };
+        expect(evaluateCancellation(refunded, settings, 'guest', hoursBefore(30)).refundAmount).toBe(0);
+        expect(evaluateCancellation({ ...reservation, deposit_paid: false }, settings, 'guest', hoursBefore(30)).depositAmount).toBe(0);
+    });
+
+    it('should validate and sort the tiers an admin sends', () => {
+        expect(parseCancellationPolicy(settings.cancellationPolicy).policy?.tiers.map((t) => t.minHoursBefore)).toEqual([24, 2]);
+        expect(parseCancellationPolicy({ tiers: [] }).error).toBeDefined();
+        expect(parseCancellationPolicy({ tiers: [{ minHoursBefore: 2, refundPercent: 150 }] }).error).toBeDefined();
+        expect(parseCancellationPolicy({ tiers: [{ minHoursBefore: 2, refundPercent: 50 }, { minHoursBefore: 2, refundPercent: 20 }] }).error).toBeDefined();
+    });
+
+    it('should use the no-show percentage over the fixed penalty', () => {
+        const paid = { deposit_paid: true, deposit_amount: 200 };
+        const halfPolicy = { ...settings.cancellationPolicy, noShowPenaltyPercent: 50 };
+        expect(calculateNoShowPenalty(paid, { noShowPenalty: 20, cancellationPolicy: halfPolicy })).toEqual({ penalty: 100, refund: 100 });
+        expect(calculateNoShowPenalty(paid, { noShowPenalty: 20, cancellationPolicy: { tiers: halfPolicy.tiers } })).toEqual({ penalty: 20, refund: 180 });
+    });
+});
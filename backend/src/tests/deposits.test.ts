@@ -0,0 +1,70 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+jest.mock('../config/supabase.js', () => ({
+    supabase: { from: jest.fn() },
+    supabaseAdmin: { from: jest.fn(), rpc: jest.fn() }
+}));
+
+import { supabaseAdmin } from '../config/supabase.js';
+import { DepositService, getDepositHoldMinutes, getRefundStatus } from '../services/deposits.js';
+import { FakePaymentProvider } from '../services/fakePaymentProvider.js';
+import { PaymentEvent, setPaymentProvider } from '../services/paymentProvider.js';
+
+const event = (type: PaymentEvent['type'], paymentIntentId: string | null, details: Partial<PaymentEvent> = {}): PaymentEvent => ({
+    id: 'evt_1',
+    provider: 'fake',
+    type,
+    providerType: type,
+    paymentIntentId,
+    payload: {},
+    ...details,
+});
+
+describe('Deposits', () => {
+    let provider: FakePaymentProvider;
+
+    beforeEach(() => {
+        (supabaseAdmin.from as jest.Mock).mockReset();
+        provider = new FakePaymentProvider();
+        setPaymentProvider(provider);
+    });
+
+    it('should hold the table for the configured minutes', () => {
+        expect(getDepositHoldMinutes({})).toBe(15);
+        expect(getDepositHoldMinutes({ depositHoldMinutes: 30 })).toBe(30);
+        expect(getDepositHoldMinutes({ depositHoldMinutes: -1 })).toBe(15);
+    });
+
+    it('should tell full refunds from partial ones', () => {
+        expect(getRefundStatus(20000, 20000)).toBe('refunded');
+        expect(getRefundStatus(20000, 5000)).toBe('partially_refunded');
+    });
+
+    it('should acknowledge a redelivered event without processing it again', async () => {
+        const update = jest.fn();
+        (supabaseAdmin.from as jest.Mock).mockReturnValue({
+            insert: () => ({ select: () => ({ single: async () => ({ data: null, error: { code: '23505' } }) }) }),
+            select: () => ({ eq: () => ({ eq: () => ({ single: async () => ({ data: { id: 'row1', status: 'processed' } }) }) }) }),
+            update,
+        });
+
+        const intent = await provider.createIntent({ amount: 200, currency: 'mxn', metadata: {} });
+        const outcome = await DepositService.handleWebhookEvent(provider.completePayment(intent.id));
+
+        expect(outcome).toBe('duplicate');
+        expect(update).not.toHaveBeenCalled();
+    });
+
+    it('should store events it does not act on as ignored', async () => {
+        const update = jest.fn(() => ({ eq: async () => ({ error: null }) }));
+        (supabaseAdmin.from as jest.Mock).mockReturnValue({
+            insert: () => ({ select: () => ({ single: async () => ({ data: { id: 'row1' }, error: null }) }) }),
+            update,
+        });
+
+        const outcome = await DepositService.handleWebhookEvent(event('other', null, { providerType: 'customer.created' }));
+
+        expect(outcome).toBe('ignored');
+        expect(update).toHaveBeenCalledWith(expect.objectContaining({ status: 'ignored' }));
+    });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+jest.mock('../config/supabase.js', () => ({
+    supabase: { from: jest.fn() },
+    supabaseAdmin: { from: jest.fn(), rpc: jest.fn() }
+}));
+
+import { supabaseAdmin } from '../config/supabase.js';
+import {
+    DietaryProfileService,
+    applyDietaryFilter,
+    normalizeAllergen,
+    parseDietaryProfile,
+    parseMenuDietaryFilter,
+} from '../services/dietary.js';
+
+const menu = [
+    { id: 'tacos', allergens: ['Lácteos'], is_spicy: true, spicy_level: 3, is_gluten_free: true },
+    { id: 'ensalada', allergens: ['nueces'], is_vegetarian: true, is_vegan: true, is_gluten_free: true },
+    { id: 'flan', allergens: ['huevo', 'lacteos'], is_vegetarian: true },
+    { id: 'salsa', allergens: [], is_spicy: true },
+];
+
+describe('Dietary Profiles', () => {
+    beforeEach(() => {
+        (supabaseAdmin.from as jest.Mock).mockReset();
+    });
+
+    it('should validate profiles and drop repeated allergies', () => {
+        expect(parseDietaryProfile({ restrictions: ['vegan', 'vegan'], allergies: [' Nueces ', 'nuez', 'nueces', ''], maxSpiceLevel: 2 }))
+            .toEqual({ profile: { restrictions: ['vegan'], allergies: ['Nueces'], maxSpiceLevel: 2 } });
+        expect(parseDietaryProfile({})).toEqual({ profile: { restrictions: [], allergies: [], maxSpiceLevel: null } });
+
+        expect(parseDietaryProfile({ restrictions: ['keto'] }).error).toContain('keto');
+        expect(parseDietaryProfile({ allergies: 'nueces' }).error).toBeUndefined();
+        expect(parseDietaryProfile({ maxSpiceLevel: 6 }).error).toBeDefined();
+        expect(parseDietaryProfile({ allergies: ['x'.repeat(51)] }).error).toBeDefined();
+    });
+
+    it('should read the menu query and keep the legacy dietary flags', () => {
+        expect(parseMenuDietaryFilter({})).toEqual({ filter: null });
+        expect(parseMenuDietaryFilter({ vegan: 'true', excludeAllergens: 'nueces,Lácteos', maxSpiceLevel: '1' })).toEqual({
+            filter: { restrictions: ['vegan'], excludeAllergens: ['nueces', 'Lácteos'], maxSpiceLevel: 1, mode: 'hide' },
+        });
+        expect(parseMenuDietaryFilter({ excludeAllergens: ['huevo', 'soya'], dietaryMode: 'flag' }).filter?.excludeAllergens)
+            .toEqual(['huevo', 'soya']);
+
+        expect(parseMenuDietaryFilter({ maxSpiceLevel: 'mild' }).error).toBeDefined();
+        expect(parseMenuDietaryFilter({ dietaryMode: 'strict' }).error).toBeDefined();
+    });
+
+    it('should hide items with excluded allergens or too much spice', () => {
+        const { filter } = parseMenuDietaryFilter({ excludeAllergens: 'lacteo', maxSpiceLevel: '2' });
+
+        // "Lácteos" and "lacteos" match "lacteo"; tacos are level 3
+        expect(applyDietaryFilter(menu, filter!).map((item) => item.id)).toEqual(['ensalada', 'salsa']);
+
+        // is_spicy alone counts as level 1
+        const { filter: noSpice } = parseMenuDietaryFilter({ maxSpiceLevel: '0' });
+        expect(applyDietaryFilter(menu, noSpice!).map((item) => item.id)).toEqual(['ensalada', 'flan']);
+    });
+
+    it('should match allergen synonyms and irregular plurals', () => {
+        expect(normalizeAllergen('nuez')).toBe(normalizeAllergen('Nueces'));
+        expect(normalizeAllergen('maní')).toBe(normalizeAllergen('cacahuates'));
+        expect(normalizeAllergen('Leche')).toBe(normalizeAllergen('lácteos'));
+        expect(normalizeAllergen('apio')).toBe(normalizeAllergen('apios'));
+        expect(normalizeAllergen('nuez')).not.toBe(normalizeAllergen('soya'));
+
+        // "nueces" on the menu is hidden for a guest allergic to "nuez"
+        const { filter } = parseMenuDietaryFilter({ excludeAllergens: 'nuez' });
+        expect(applyDietaryFilter(menu, filter!).map((item) => item.id)).toEqual(['tacos', 'flan', 'salsa']);
+    });
+
+    it('should flag conflicts instead of hiding in flag mode', () => {
+        const { filter } = parseMenuDietaryFilter({ vegetarian: 'true', excludeAllergens: 'nueces', maxSpiceLevel: '2', dietaryMode: 'flag' });
+        const flagged = applyDietaryFilter(menu, filter!);
+
+        expect(flagged).toHaveLength(4);
+        expect(flagged[0].dietary_conflicts).toEqual({ restrictions: ['vegetarian'], allergens: [], spice_level: 3 });
+        expect(flagged[1].dietary_conflicts).toEqual({ restrictions: [], allergens: ['nueces'], spice_level: null });
+        expect(flagged[2].dietary_conflicts).toBeNull();
+        expect(applyDietaryFilter(menu, null)).toBe(menu);
+    });
+
+    it('should record the booking override or else the saved profile for the party', async () => {
+        const maybeSingle = jest.fn(async () => ({
+            data: { dietary_restrictions: ['gluten_free'], allergies: ['mariscos'], max_spice_level: 1 },
+            error: null,
+        }));
+        const chain: any = { select: () => chain, eq: () => chain, maybeSingle };
+        (supabaseAdmin.from as jest.Mock).mockReturnValue(chain);
+
+        expect(await DietaryProfileService.forReservation('user1'))
+            .toEqual({ dietary: { restrictions: ['gluten_free'], allergies: ['mariscos'] } });
+
+        expect(await DietaryProfileService.forReservation('user1', { allergies: ['nueces'] }))
+            .toEqual({ dietary: { restrictions: [], allergies: ['nueces'] } });
+        expect((await DietaryProfileService.forReservation('user1', { restrictions: 'vegan' })).error).toBeDefined();
+        expect(maybeSingle).toHaveBeenCalledTimes(1);
+    });
+});
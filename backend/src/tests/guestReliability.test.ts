@@ -0,0 +1,64 @@
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('../config/supabase.js', () => ({
+    supabase: { from: jest.fn() },
+    supabaseAdmin: { from: jest.fn(), rpc: jest.fn() }
+}));
+
+import { buildReliability, evaluateGuestStanding } from '../services/guestReliability.js';
+import { applyGuestStanding } from '../services/bookingPolicy.js';
+
+const history = (overrides: Partial<Parameters<typeof buildReliability>[1]> = {}) => ({
+    totalReservations: 0,
+    completed: 0,
+    noShows: 0,
+    cancellations: 0,
+    lateCancellations: 0,
+    lastNoShowDate: null,
+    ...overrides,
+});
+
+describe('Guest Reliability', () => {
+    it('should give new guests a full score', () => {
+        const reliability = buildReliability('u1');
+        expect(reliability.score).toBe(100);
+        expect(reliability.level).toBe('new');
+    });
+
+    it('should weigh no-shows more than late cancellations', () => {
+        const noShow = buildReliability('u1', history({ completed: 3, noShows: 1 }));
+        const lateCancel = buildReliability('u1', history({ completed: 3, lateCancellations: 1 }));
+        expect(noShow.score).toBe(67);
+        expect(lateCancel.score).toBe(80);
+        expect(noShow.level).toBe('regular');
+        expect(lateCancel.level).toBe('reliable');
+    });
+
+    it('should flag repeat no-shows as risky', () => {
+        const reliability = buildReliability('u1', history({ completed: 1, noShows: 3 }));
+        expect(reliability.score).toBe(25);
+        expect(reliability.level).toBe('risky');
+    });
+
+    it('should require a deposit below the restaurant threshold or when flagged', () => {
+        const risky = buildReliability('u1', history({ noShows: 2 }));
+        expect(evaluateGuestStanding(risky, null, { depositBelowReliability: 50 }).depositRequired).toBe(true);
+        expect(evaluateGuestStanding(risky, null, {}).depositRequired).toBe(false);
+
+        const flagged = evaluateGuestStanding(buildReliability('u2'), { restriction: 'deposit_required', reason: null });
+        expect(flagged.depositRequired).toBe(true);
+        expect(flagged.blocked).toBe(false);
+    });
+
+    it('should turn standing into booking policy violations and deposits', () => {
+        const evaluation = { violations: [], deposit: { required: false, amount: 0 } };
+        const blocked = evaluateGuestStanding(buildReliability('u1'), { restriction: 'blocked', reason: 'Abuso' });
+        expect(applyGuestStanding(evaluation, blocked).violations.map(v => v.code)).toEqual(['GUEST_BLOCKED']);
+
+        const flagged = evaluateGuestStanding(buildReliability('u1'), { restriction: 'deposit_required', reason: null });
+        expect(applyGuestStanding(evaluation, flagged, { depositAmount: 200 }).deposit)
+            .toEqual({ required: true, amount: 200, reason: 'guest_reliability' });
+        // Without a configured amount there is nothing to charge
+        expect(applyGuestStanding(evaluation, flagged, {}).deposit.required).toBe(false);
+    });
+});
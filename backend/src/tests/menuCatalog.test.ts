@@ -0,0 +1,119 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+const mockRpc = jest.fn<(...args: any[]) => Promise<any>>();
+
+jest.mock('../config/supabase.js', () => ({
+    supabase: { from: jest.fn() },
+    supabaseAdmin: { from: jest.fn(), rpc: mockRpc }
+}));
+
+import { supabaseAdmin } from '../config/supabase.js';
+import { MenuCatalogService, buildMenuTree, parseMenuReorder } from '../services/menuCatalog.js';
+
+/** Thenable query builder that resolves to `result` whatever the chain */
+const query = (result: Record<string, any>, calls: Record<string, any[]> = {}) => {
+    const chain: any = {};
+    for (const method of ['select', 'eq', 'is', 'in', 'limit', 'insert']) {
+        chain[method] = (...args: any[]) => {
+            (calls[method] ||= []).push(args);
+            return chain;
+        };
+    }
+    chain.single = async () => result;
+    chain.maybeSingle = async () => result;
+    chain.then = (resolve: (value: any) => void) => resolve(result);
+    return chain;
+};
+
+const categories = [
+    { id: 'drinks', name: 'Bebidas', parent_id: null, sort_order: 1 },
+    { id: 'beers', name: 'Cervezas', parent_id: 'drinks', sort_order: 0 },
+    { id: 'mains', name: 'Platos fuertes', parent_id: null, sort_order: 0 },
+];
+
+describe('Menu Catalog', () => {
+    beforeEach(() => {
+        (supabaseAdmin.from as jest.Mock).mockReset();
+        mockRpc.mockReset();
+    });
+
+    it('should nest subcategories and group items by category id', () => {
+        const items = [
+            { id: 'lemonade', category_id: 'drinks', category: 'Bebidas' },
+            { id: 'ipa', category_id: 'beers', category: 'Bebidas', subcategory: 'Cervezas' },
+            // Label out of date: the id is what counts
+            { id: 'steak', category_id: 'mains', category: 'Fuertes' },
+            { id: 'lost', category_id: null, category: 'Borrada' },
+        ];
+
+        const tree = buildMenuTree(categories, items);
+
+        expect(tree.map((category) => category.id)).toEqual(['drinks', 'mains', 'others']);
+        expect(tree[0].items.map((item: any) => item.id)).toEqual(['lemonade', 'ipa']);
+        expect(tree[0].subcategories).toEqual([expect.objectContaining({ id: 'beers', items: [items[1]] })]);
+        expect(tree[1].items).toEqual([items[2]]);
+        expect(tree[2]).toEqual(expect.objectContaining({ name: 'Otros', items: [items[3]] }));
+    });
+
+    it('should parse a bulk reorder payload', () => {
+        expect(parseMenuReorder({
+            categories: [{ id: 'mains', sortOrder: 0 }],
+            items: [{ id: 'ipa', sortOrder: 2, categoryId: 'drinks' }, { id: 'steak', sortOrder: 0 }],
+        })).toEqual({
+            reorder: {
+                categories: [{ id: 'mains', sort_order: 0 }],
+                items: [{ id: 'ipa', sort_order: 2, category_id: 'drinks' }, { id: 'steak', sort_order: 0 }],
+            },
+        });
+        expect(parseMenuReorder({ items: [{ id: 'ipa', sortOrder: '2' }] }).error).toBeDefined();
+        expect(parseMenuReorder({}).error).toBeDefined();
+    });
+
+    it('should resolve the labels of an item from its subcategory', async () => {
+        (supabaseAdmin.from as jest.Mock).mockImplementation(() => query({
+            data: { id: 'beers', name: 'Cervezas', restaurant_id: 'rest1', parent: { name: 'Bebidas' } },
+        }));
+
+        await expect(MenuCatalogService.resolveItemCategory('rest1', { categoryId: 'beers' })).resolves.toEqual({
+            category_id: 'beers', category: 'Bebidas', subcategory: 'Cervezas',
+        });
+        await expect(MenuCatalogService.resolveItemCategory('rest2', { categoryId: 'beers' })).resolves.toBeNull();
+    });
+
+    it('should create the category of an item sent by name', async () => {
+        const calls: Record<string, any[]> = {};
+        // Lookup finds nothing, 3 categories exist, insert returns the new row
+        const results = [{ data: null }, { count: 3 }, { data: { id: 'new', name: 'Postres' } }];
+        (supabaseAdmin.from as jest.Mock).mockImplementation(() => query(results.shift()!, calls));
+
+        const resolved = await MenuCatalogService.resolveItemCategory('rest1', { category: ' Postres ' });
+
+        expect(calls.insert[0][0]).toEqual({ restaurant_id: 'rest1', name: 'Postres', parent_id: null, sort_order: 3, is_active: true });
+        expect(resolved).toEqual({ category_id: 'new', category: 'Postres', subcategory: null });
+    });
+
+    it('should rename through the RPC and report invalid parents', async () => {
+        mockRpc.mockResolvedValueOnce({ data: { id: 'drinks', name: 'Bebidas y cocteles' }, error: null });
+        await expect(MenuCatalogService.updateCategory('drinks', { name: 'Bebidas y cocteles' })).resolves.toEqual({
+            category: { id: 'drinks', name: 'Bebidas y cocteles' },
+        });
+        expect(mockRpc).toHaveBeenCalledWith('update_menu_category', {
+            p_category_id: 'drinks', p_name: 'Bebidas y cocteles', p_change_parent: false, p_parent_id: null, p_fields: {},
+        });
+
+        mockRpc.mockResolvedValueOnce({ data: null, error: { code: '23514', message: 'invalid_menu_category_parent' } });
+        // The other fields go in the same call, so a rejected parent writes nothing
+        await expect(MenuCatalogService.updateCategory('drinks', { parentId: 'beers', fields: { icon: '🍺' } }))
+            .resolves.toEqual({ error: 'INVALID_PARENT' });
+        expect(mockRpc).toHaveBeenLastCalledWith('update_menu_category', expect.objectContaining({ p_fields: { icon: '🍺' } }));
+    });
+
+    it('should keep items when deleting a category unless they are moved', async () => {
+        mockRpc.mockResolvedValueOnce({ data: 'HAS_ITEMS', error: null });
+        await expect(MenuCatalogService.deleteCategory('drinks')).resolves.toBe('HAS_ITEMS');
+
+        mockRpc.mockResolvedValueOnce({ data: 'DELETED', error: null });
+        await expect(MenuCatalogService.deleteCategory('drinks', 'mains')).resolves.toBe('DELETED');
+        expect(mockRpc).toHaveBeenLastCalledWith('delete_menu_category', { p_category_id: 'drinks', p_move_to: 'mains' });
+    });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+const mockRpc = jest.fn<(...args: any[]) => Promise<any>>();
+
+jest.mock('../config/supabase.js', () => ({
+    supabase: { from: jest.fn() },
+    supabaseAdmin: { from: jest.fn(), rpc: mockRpc }
+}));
+
+jest.mock('../services/menuCatalog.js', () => ({
+    MenuCatalogService: {
+        resolveItemCategory: jest.fn(async (_restaurantId: string, input: any) => ({
+            category_id: `cat-${input.category}`, category: input.category, subcategory: input.subcategory ?? null,
+        })),
+    },
+}));
+
+import { supabaseAdmin } from '../config/supabase.js';
+import { MenuImportService, diffMenuImport, parseCsv, readMenuImport, toMenuCsv } from '../services/menuImport.js';
+
+const TACOS_ID = '0f8fad5b-d9cb-469f-a165-70867728950e';
+
+const existing = [
+    {
+        id: TACOS_ID, name: 'Tacos al pastor', description: 'Con piña', price: 95, category: 'Platos fuertes', subcategory: null,
+        allergens: [], is_vegetarian: false, is_vegan: false, is_gluten_free: true, is_spicy: true, image_url: null,
+        is_available: true, category_id: 'mains', sort_order: 0,
+    },
+];
+
+/** Thenable query builder that resolves to `result` whatever the chain */
+const query = (result: Record<string, any>) => {
+    const chain: any = {};
+    for (const method of ['select', 'eq', 'order']) chain[method] = () => chain;
+    chain.then = (resolve: (value: any) => void) => resolve(result);
+    return chain;
+};
+
+describe('Menu Import', () => {
+    beforeEach(() => {
+        (supabaseAdmin.from as jest.Mock).mockReset();
+        mockRpc.mockReset();
+    });
+
+    it('should parse quoted CSV cells and semicolon spreadsheets', () => {
+        expect(parseCsv('\uFEFFnombre,descripcion\r\n"Tacos, 3 piezas","Con ""salsa""\ny limón"\n\nAgua,\n')).toEqual([
+            { line: 1, cells: ['nombre', 'descripcion'] },
+            { line: 2, cells: ['Tacos, 3 piezas', 'Con "salsa"\ny limón'] },
+            { line: 5, cells: ['Agua', ''] },
+        ]);
+        expect(parseCsv('nombre;precio\nFlan;45,50')[1].cells).toEqual(['Flan', '45,50']);
+    });
+
+    it('should map Spanish and English headers and require the key columns', () => {
+        const { rows } = readMenuImport('csv', 'Nombre;Precio;Categoría;Alérgenos;Sin gluten\nFlan;45,50;Postres;Huevo, Lácteos;no');
+        expect(rows).toEqual([{
+            line: 2,
+            raw: { name: 'Flan', price: '45,50', category: 'Postres', allergens: 'Huevo, Lácteos', is_gluten_free: 'no' },
+        }]);
+
+        expect(readMenuImport('json', [{ name: 'Flan', price: 45, isVegan: true }]).rows![0].raw)
+            .toEqual({ name: 'Flan', price: 45, is_vegan: true });
+        expect(readMenuImport('csv', 'nombre,precio\nFlan,45').error).toContain('categoria');
+        expect(readMenuImport('json', '{not json').error).toBeDefined();
+        expect(readMenuImport('json', []).error).toBeDefined();
+    });
+
+    it('should report creates, updates, unchanged and invalid rows', () => {
+        const { rows } = readMenuImport('csv', [
+            'nombre,precio,categoria,alergenos,picante',
+            'Tacos al pastor,$95.00,Platos fuertes,,sí',
+            'tacos al pastor,95,Platos fuertes,,sí',
+            'Flan,45,Postres,huevo|lácteos,no',
+            'Agua de jamaica,gratis,Bebidas,,quizá',
+            'Pozole,180,,,',
+        ].join('\n'));
+
+        const report = diffMenuImport(rows!, existing);
+
+        expect(report.map((row) => row.action)).toEqual(['unchanged', 'invalid', 'create', 'invalid', 'invalid']);
+        expect(report[1].errors).toEqual(['Platillo repetido (fila 2)']);
+        expect(report[2].item).toEqual({
+            name: 'Flan', price: 45, category: 'Postres', allergens: ['huevo', 'lácteos'], is_spicy: false,
+        });
+        expect(report[3].errors).toHaveLength(2);
+        expect(report[4].errors).toEqual(['La categoría es requerida']);
+    });
+
+    it('should only update the columns present in the file', () => {
+        const { rows } = readMenuImport('json', [{ id: TACOS_ID, name: 'Tacos al pastor', price: 99 }]);
+
+        expect(diffMenuImport(rows!, existing)).toEqual([{
+            line: 1, action: 'update', name: 'Tacos al pastor', id: TACOS_ID, changes: ['price'],
+            item: { id: TACOS_ID, name: 'Tacos al pastor', price: 99 },
+        }]);
+
+        const unknown = readMenuImport('json', [{ id: '7c9e6679-7425-40de-944b-e07fc1f90ae7', name: 'X', price: 1, category: 'Y' }]);
+        expect(diffMenuImport(unknown.rows!, existing)[0].errors).toEqual(['El id no corresponde a un platillo de este menú']);
+    });
+
+    it('should apply valid imports in one RPC and never with invalid rows', async () => {
+        (supabaseAdmin.from as jest.Mock).mockImplementation(() => query({ data: existing, error: null }));
+        mockRpc.mockResolvedValue({ data: { created: 1, updated: 1 }, error: null });
+
+        const { rows } = readMenuImport('json', [
+            { name: 'Tacos al pastor', price: 99 },
+            { name: 'Flan', price: 45, category: 'Postres' },
+        ]);
+
+        const dryRun = await MenuImportService.importMenu('rest1', rows!, true);
+        expect(dryRun.applied).toBe(false);
+        expect(mockRpc).not.toHaveBeenCalled();
+
+        const report = await MenuImportService.importMenu('rest1', rows!, false);
+        expect(report.applied).toBe(true);
+        expect(report.summary).toEqual({ total: 2, create: 1, update: 1, unchanged: 0, invalid: 0 });
+
+        const { p_items: items } = mockRpc.mock.calls[0][1] as any;
+        expect(items[0]).toEqual(expect.objectContaining({ id: TACOS_ID, price: 99, description: 'Con piña', category_id: 'cat-Platos fuertes' }));
+        expect(items[0].sort_order).toBeUndefined();
+        expect(items[1]).toEqual({ name: 'Flan', price: 45, category: 'Postres', category_id: 'cat-Postres', subcategory: null });
+
+        mockRpc.mockClear();
+        const invalid = readMenuImport('json', [{ name: 'Flan', price: -1, category: 'Postres' }]);
+        expect((await MenuImportService.importMenu('rest1', invalid.rows!, false)).applied).toBe(false);
+        expect(mockRpc).not.toHaveBeenCalled();
+    });
+
+    it('should export the columns the import reads', () => {
+        const csv = toMenuCsv([{ ...existing[0], allergens: ['cacahuate'], description: 'Con piña, cebolla' }]);
+        const { rows } = readMenuImport('csv', csv);
+
+        expect(csv.startsWith('\uFEFFid,nombre,descripcion,precio')).toBe(true);
+        expect(diffMenuImport(rows!, [{ ...existing[0], allergens: ['cacahuate'], description: 'Con piña, cebolla' }])[0].action)
+            .toBe('unchanged');
+    });
+});
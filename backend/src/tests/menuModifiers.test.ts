@@ -0,0 +1,104 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+const mockRpc = jest.fn<(...args: any[]) => Promise<any>>();
+
+jest.mock('../config/supabase.js', () => ({
+    supabase: { from: jest.fn() },
+    supabaseAdmin: { from: jest.fn(), rpc: mockRpc }
+}));
+
+import { MenuModifierService, parseMenuModifiers, sortMenuItemModifiers } from '../services/menuModifiers.js';
+
+const FILLING_ID = '4b0d3c52-8f1e-4c8a-9d57-0f6d2f0c1a11';
+
+const tacos = {
+    variants: [{ name: 'Orden', price: '90' }, { name: 'Media orden', price: 50, isDefault: true }],
+    modifierGroups: [
+        {
+            name: 'Elige 3 guisos',
+            isRequired: true,
+            minSelections: 3,
+            maxSelections: 3,
+            options: [{ name: 'Pastor' }, { name: 'Suadero' }, { name: 'Chorizo', id: FILLING_ID }, { name: 'Campechano', priceDelta: 10 }],
+        },
+        { name: 'Extras', options: [{ name: 'Queso extra', priceDelta: 20 }] },
+    ],
+};
+
+describe('Menu Modifiers', () => {
+    beforeEach(() => {
+        mockRpc.mockReset();
+    });
+
+    it('should parse variants and modifier groups from the request body', () => {
+        const { modifiers, error } = parseMenuModifiers(tacos);
+
+        expect(error).toBeUndefined();
+        expect(modifiers!.variants).toEqual([
+            { name: 'Orden', price: 90, is_default: false, is_available: true },
+            { name: 'Media orden', price: 50, is_default: true, is_available: true },
+        ]);
+        expect(modifiers!.groups[0]).toEqual(expect.objectContaining({
+            name: 'Elige 3 guisos', is_required: true, min_selections: 3, max_selections: 3,
+        }));
+        expect(modifiers!.groups[0].options[2]).toEqual({
+            id: FILLING_ID, name: 'Chorizo', price_delta: 0, linked_item_id: null, is_default: false, is_available: true,
+        });
+        expect(modifiers!.groups[1]).toEqual(expect.objectContaining({ is_required: false, min_selections: 0, max_selections: null }));
+    });
+
+    it('should default the first variant and a required group to one selection', () => {
+        const { modifiers } = parseMenuModifiers({
+            variants: [{ name: 'Chico', price: 40 }, { name: 'Grande', price: 60 }],
+            modifierGroups: [{ name: 'Salsa', isRequired: true, options: [{ name: 'Verde' }, { name: 'Roja' }] }],
+        });
+
+        expect(modifiers!.variants.map((variant) => variant.is_default)).toEqual([true, false]);
+        expect(modifiers!.groups[0].min_selections).toBe(1);
+        expect(parseMenuModifiers({}).modifiers).toEqual({ variants: [], groups: [] });
+    });
+
+    it('should reject inconsistent selections and prices', () => {
+        const group = (changes: Record<string, any>) => parseMenuModifiers({
+            modifierGroups: [{ name: 'Guisos', options: [{ name: 'Pastor' }, { name: 'Suadero' }], ...changes }],
+        }).error;
+
+        expect(group({ minSelections: 3 })).toContain('solo tiene 2 opciones');
+        expect(group({ isRequired: true, minSelections: 0 })).toContain('obligatorio');
+        expect(group({ minSelections: 2, maxSelections: 1 })).toBeDefined();
+        expect(group({ options: [] })).toBeDefined();
+        expect(parseMenuModifiers({ variants: [{ name: 'Grande', price: -5 }] }).error).toBeDefined();
+        expect(parseMenuModifiers({ variants: [{ name: 'A', price: 1, isDefault: true }, { name: 'B', price: 2, isDefault: true }] }).error)
+            .toContain('predeterminada');
+        expect(parseMenuModifiers({ modifierGroups: [{ name: 'Combo', options: [{ name: 'Refresco', linkedItemId: 'soda' }] }] }).error)
+            .toBeDefined();
+    });
+
+    it('should replace the modifiers through the RPC and report foreign combo dishes', async () => {
+        const { modifiers } = parseMenuModifiers(tacos);
+
+        mockRpc.mockResolvedValueOnce({ data: null, error: null });
+        await expect(MenuModifierService.setModifiers('item1', modifiers!)).resolves.toBe(true);
+        expect(mockRpc).toHaveBeenCalledWith('set_menu_item_modifiers', {
+            p_menu_item_id: 'item1', p_variants: modifiers!.variants, p_groups: modifiers!.groups,
+        });
+
+        mockRpc.mockResolvedValueOnce({ data: null, error: { code: '23514', message: 'invalid_linked_item' } });
+        await expect(MenuModifierService.setModifiers('item1', modifiers!)).resolves.toBe(false);
+    });
+
+    it('should sort embedded variants, groups and options', () => {
+        const item = sortMenuItemModifiers({
+            id: 'item1',
+            variants: [{ id: 'b', sort_order: 1 }, { id: 'a', sort_order: 0 }],
+            modifier_groups: [
+                { id: 'extras', sort_order: 1, options: [] },
+                { id: 'fillings', sort_order: 0, options: [{ id: 'y', sort_order: 1 }, { id: 'x', sort_order: 0 }] },
+            ],
+        });
+
+        expect(item.variants.map((variant: any) => variant.id)).toEqual(['a', 'b']);
+        expect(item.modifier_groups.map((group: any) => group.id)).toEqual(['fillings', 'extras']);
+        expect(item.modifier_groups[0].options.map((option: any) => option.id)).toEqual(['x', 'y']);
+    });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+jest.mock('../config/supabase.js', () => ({
+    supabase: { from: jest.fn() },
+    supabaseAdmin: { from: jest.fn(), rpc: jest.fn() }
+}));
+
+import { supabaseAdmin } from '../config/supabase.js';
+import {
+    MenuPricingRule,
+    MenuPricingService,
+    applyMenuPricing,
+    getCategoryParents,
+    getEffectivePrice,
+    isPricingRuleActive,
+    parseMenuItemIds,
+    parsePricingRule,
+} from '../services/menuPricing.js';
+
+/** Thenable query builder that resolves to `result` whatever the chain */
+const query = (result: Record<string, any>, calls: Record<string, any[]> = {}) => {
+    const chain: any = {};
+    for (const method of ['select', 'eq', 'in', 'delete', 'insert']) {
+        chain[method] = (...args: any[]) => {
+            (calls[method] ||= []).push(args);
+            return chain;
+        };
+    }
+    chain.then = (resolve: (value: any) => void) => resolve(result);
+    return chain;
+};
+
+const happyHour: MenuPricingRule = {
+    id: 'rule1',
+    name: 'Happy hour',
+    valid_days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'],
+    start_time: '17:00:00',
+    end_time: '19:00:00',
+    category_id: 'cat-drinks',
+    category: 'Bebidas',
+    discount_type: 'percentage',
+    discount_value: 50,
+    is_active: true,
+};
+
+const beer = { id: 'item1', name: 'Cerveza', category_id: 'cat-drinks', category: 'Bebidas', price: 80 };
+const tacos = { id: 'item2', name: 'Tacos', category_id: 'cat-mains', category: 'Platos fuertes', price: 150 };
+
+// Monday
+const MONDAY = '2026-10-19';
+
+describe('Menu Pricing', () => {
+    beforeEach(() => {
+        (supabaseAdmin.from as jest.Mock).mockReset();
+    });
+
+    it('should only run a rule on its days and hours', () => {
+        expect(isPricingRuleActive(happyHour, MONDAY, '18:30')).toBe(true);
+        expect(isPricingRuleActive(happyHour, MONDAY, '19:00')).toBe(false);
+        expect(isPricingRuleActive(happyHour, '2026-10-18', '18:00')).toBe(false);
+        expect(isPricingRuleActive({ ...happyHour, is_active: false }, MONDAY, '18:00')).toBe(false);
+    });
+
+    it('should keep a past-midnight window on the day it started', () => {
+        const lateNight = { ...happyHour, valid_days: ['friday'], start_time: '22:00', end_time: '02:00' };
+        expect(isPricingRuleActive(lateNight, '2026-10-23', '23:00')).toBe(true);
+        // Saturday 01:00 is still Friday night
+        expect(isPricingRuleActive(lateNight, '2026-10-24', '01:00')).toBe(true);
+        expect(isPricingRuleActive(lateNight, '2026-10-23', '01:00')).toBe(false);
+    });
+
+    it('should price items by category or item and keep the lowest price', () => {
+        const itemRule: MenuPricingRule = {
+            ...happyHour, id: 'rule2', name: 'Cerveza a $30', category_id: null, category: null, menu_item_id: 'item1', discount_type: 'price', discount_value: 30,
+        };
+
+        expect(getEffectivePrice(beer, [happyHour], MONDAY, '18:00')).toEqual({
+            price: 40,
+            rule: { id: 'rule1', name: 'Happy hour', endsAt: '19:00' },
+        });
+        expect(getEffectivePrice(beer, [happyHour, itemRule], MONDAY, '18:00').price).toBe(30);
+        expect(getEffectivePrice(tacos, [happyHour, itemRule], MONDAY, '18:00')).toEqual({ price: 150, rule: null });
+        expect(getEffectivePrice(beer, [{ ...happyHour, discount_type: 'fixed', discount_value: 100 }], MONDAY, '18:00').price).toBe(0);
+        expect(getEffectivePrice(beer, [{ ...itemRule, discount_value: 120 }], MONDAY, '18:00').price).toBe(80);
+    });
+
+    it('should match category rules by id, including subcategories', () => {
+        const parents = getCategoryParents([
+            { id: 'cat-drinks', parent_id: null },
+            { id: 'cat-cocktails', parent_id: 'cat-drinks' },
+            { id: 'cat-mains' },
+        ]);
+        const margarita = { id: 'item3', category_id: 'cat-cocktails', category: 'Bebidas', subcategory: 'Cocteles', price: 120 };
+
+        expect(getEffectivePrice(margarita, [happyHour], MONDAY, '18:00', parents).price).toBe(60);
+        // A rule on the subcategory does not cover the rest of the parent
+        const cocktails = { ...happyHour, category_id: 'cat-cocktails', category: 'Cocteles' };
+        expect(getEffectivePrice(beer, [cocktails], MONDAY, '18:00', parents).price).toBe(80);
+        // Same name, other category: names are only labels
+        expect(getEffectivePrice({ ...tacos, category: 'Bebidas' }, [happyHour], MONDAY, '18:00', parents).price).toBe(150);
+    });
+
+    it('should add the effective price to every menu item', () => {
+        expect(applyMenuPricing([beer, tacos], [happyHour], MONDAY, '20:00').map((item) => item.effective_price)).toEqual([80, 150]);
+        expect(applyMenuPricing([beer], [happyHour], MONDAY, '17:15')[0]).toEqual(
+            expect.objectContaining({ price: 80, effective_price: 40, pricing_rule: expect.objectContaining({ id: 'rule1' }) })
+        );
+        const sizes = { ...beer, variants: [{ name: 'Tarro', price: 120 }] };
+        expect(applyMenuPricing([sizes], [happyHour], MONDAY, '17:15')[0].variants).toEqual([
+            { name: 'Tarro', price: 120, effective_price: 60 },
+        ]);
+    });
+
+    it('should parse pricing rules from the request body', () => {
+        expect(parsePricingRule({
+            name: 'Happy hour', validDays: ['friday'], startTime: '17:00', endTime: '19:00',
+            categoryId: 'cat-drinks', discountType: 'percentage', discountValue: '50',
+        })).toEqual({
+            rule: {
+                name: 'Happy hour', valid_days: ['friday'], start_time: '17:00', end_time: '19:00',
+                menu_item_id: null, category_id: 'cat-drinks', category: null, discount_type: 'percentage', discount_value: 50,
+            },
+        });
+        expect(parsePricingRule({ isActive: false }, true)).toEqual({ rule: { is_active: false } });
+        expect(parsePricingRule({ name: 'x', startTime: '17:00', endTime: '19:00', discountType: 'price', discountValue: 10 }).error)
+            .toContain('platillo o una categoría');
+        expect(parsePricingRule({ discountType: 'percentage', discountValue: 120 }, true).error).toBeDefined();
+        expect(parsePricingRule({ startTime: '25:00' }, true).error).toBeDefined();
+    });
+
+    it('should replace the dishes an offer covers', async () => {
+        const calls: Record<string, any[]> = {};
+        (supabaseAdmin.from as jest.Mock).mockImplementation(() => query({ error: null }, calls));
+
+        await MenuPricingService.setOfferMenuItems('offer1', ['item1', 'item2']);
+
+        expect(calls.delete).toHaveLength(1);
+        expect(calls.eq[0]).toEqual(['offer_id', 'offer1']);
+        expect(calls.insert[0][0]).toEqual([
+            { offer_id: 'offer1', menu_item_id: 'item1' },
+            { offer_id: 'offer1', menu_item_id: 'item2' },
+        ]);
+        expect(parseMenuItemIds(['item1', 'item1'])).toEqual({ ids: ['item1'] });
+        expect(parseMenuItemIds('item1').error).toBeDefined();
+    });
+});
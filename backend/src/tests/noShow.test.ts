@@ -0,0 +1,44 @@
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('../config/supabase.js', () => ({
+    supabase: { from: jest.fn() },
+    supabaseAdmin: { from: jest.fn(), rpc: jest.fn() }
+}));
+
+import { calculateNoShowPenalty, getGraceMinutes, isPastGracePeriod } from '../services/noShow.js';
+
+const TZ = 'America/Mexico_City'; // UTC-6, no DST
+// Reservation at 2025-01-10 20:00 local = 2025-01-11T02:00:00Z
+const reservation = { date: '2025-01-10', time: '20:00:00' };
+
+describe('No-Show Detection', () => {
+    it('should read noShowGraceMinutes from settings with a 15 minute default', () => {
+        expect(getGraceMinutes({})).toBe(15);
+        expect(getGraceMinutes({ noShowGraceMinutes: '30' })).toBe(30);
+        expect(getGraceMinutes({ noShowGraceMinutes: 0 })).toBe(0);
+        expect(getGraceMinutes({ noShowGraceMinutes: -5 })).toBe(15);
+    });
+
+    it('should only flag reservations once the grace period has elapsed', () => {
+        expect(isPastGracePeriod(reservation, 15, TZ, new Date('2025-01-11T02:14:00Z'))).toBe(false);
+        expect(isPastGracePeriod(reservation, 15, TZ, new Date('2025-01-11T02:15:00Z'))).toBe(true);
+    });
+
+    it('should use the restaurant timezone for the reservation start', () => {
+        expect(isPastGracePeriod(reservation, 15, 'UTC', new Date('2025-01-10T20:20:00Z'))).toBe(true);
+        expect(isPastGracePeriod(reservation, 15, TZ, new Date('2025-01-10T20:20:00Z'))).toBe(false);
+    });
+
+    it('should keep the penalty from the deposit and refund the rest', () => {
+        const paid = { deposit_paid: true, deposit_amount: 200 };
+        expect(calculateNoShowPenalty(paid, { noShowPenalty: 100 })).toEqual({ penalty: 100, refund: 100 });
+        expect(calculateNoShowPenalty(paid, { noShowPenalty: 500 })).toEqual({ penalty: 200, refund: 0 });
+        expect(calculateNoShowPenalty(paid, { noShowPenalty: 0 })).toEqual({ penalty: 0, refund: 200 });
+        expect(calculateNoShowPenalty(paid, {})).toEqual({ penalty: 200, refund: 0 });
+    });
+
+    it('should not charge anything without a paid deposit', () => {
+        expect(calculateNoShowPenalty({ deposit_paid: false, deposit_amount: 200 }, { noShowPenalty: 100 }))
+            .toEqual({ penalty: 0, refund: 0 });
+    });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+jest.mock('../config/supabase.js', () => ({
+    supabase: { from: jest.fn() },
+    supabaseAdmin: { from: jest.fn(), rpc: jest.fn() }
+}));
+
+import { supabaseAdmin } from '../config/supabase.js';
+import { OfferCodeService, generateCode, toOfferCodesCsv, validateBatchInput } from '../services/offerCodes.js';
+import { OfferRulesService, evaluateOfferRules } from '../services/offerRules.js';
+
+/** Thenable query builder that resolves to `result` whatever the chain */
+const query = (result: Record<string, any>, calls: Record<string, any[]> = {}) => {
+    const chain: any = {};
+    for (const method of ['select', 'eq', 'neq', 'in', 'delete', 'order', 'range']) {
+        chain[method] = (...args: any[]) => {
+            (calls[method] ||= []).push(args);
+            return chain;
+        };
+    }
+    chain.insert = (rows: any) => {
+        (calls.insert ||= []).push(rows);
+        return chain;
+    };
+    chain.update = (values: any) => {
+        (calls.update ||= []).push(values);
+        return chain;
+    };
+    chain.single = async () => result;
+    chain.maybeSingle = async () => result;
+    chain.then = (resolve: (value: any) => void) => resolve(result);
+    return chain;
+};
+
+describe('Offer Codes', () => {
+    beforeEach(() => {
+        (supabaseAdmin.from as jest.Mock).mockReset();
+    });
+
+    it('should generate unambiguous codes with the batch prefix', () => {
+        const code = generateCode('FLYER');
+        expect(code).toMatch(/^FLYER-[A-HJKMNP-Z2-9]{8}$/);
+        expect(generateCode()).toMatch(/^[A-HJKMNP-Z2-9]{8}$/);
+    });
+
+    it('should validate batch size and prefix', () => {
+        expect(validateBatchInput({ quantity: 500, prefix: 'otono' })).toBeNull();
+        expect(validateBatchInput({ quantity: 0 })).toContain('entre 1 y 5000');
+        expect(validateBatchInput({ quantity: 5001 })).not.toBeNull();
+        expect(validateBatchInput({ quantity: 10, prefix: 'con espacio' })).not.toBeNull();
+    });
+
+    it('should export who redeemed each code', () => {
+        const csv = toOfferCodesCsv([
+            { code: 'ABCD2345', status: 'available', offer_code_batches: { name: 'Volantes' }, offer_redemptions: [] },
+            {
+                code: 'WXYZ6789',
+                status: 'redeemed',
+                offer_code_batches: { name: 'Volantes' },
+                offer_redemptions: [{ reservation_id: 'res1', created_at: '2026-10-19T20:00:00Z', users: { name: 'Ana, M.', email: 'ana@test.com' } }],
+            },
+        ]);
+
+        expect(csv.split('\n')).toEqual([
+            'codigo,lote,estado,canjeado_por,email,canjeado_el,reserva',
+            'ABCD2345,Volantes,available,,,,',
+            'WXYZ6789,Volantes,redeemed,"Ana, M.",ana@test.com,2026-10-19T20:00:00Z,res1',
+        ]);
+    });
+
+    it('should insert a batch in chunks, retry a colliding chunk and require codes on the offer', async () => {
+        const calls: Record<string, Record<string, any[]>> = { offer_code_batches: {}, offer_codes: {}, offers: {} };
+        let codeInserts = 0;
+        (supabaseAdmin.from as jest.Mock).mockImplementation((table: any) => {
+            if (table === 'offer_code_batches') {
+                return query({ data: { id: 'batch1', name: 'Volantes', prefix: 'FLY', quantity: 700, created_at: '2026-10-19' } }, calls[table]);
+            }
+            if (table === 'offer_codes') {
+                codeInserts++;
+                return query({ error: codeInserts === 1 ? { code: '23505', message: 'duplicate key' } : null }, calls[table]);
+            }
+            return query({ error: null }, calls[table]);
+        });
+
+        const batch = await OfferCodeService.createBatch('offer1', { quantity: 700, name: 'Volantes', prefix: 'fly' });
+
+        expect(batch).toEqual(expect.objectContaining({ id: 'batch1', quantity: 700, available: 700, redeemed: 0 }));
+        expect(calls.offer_code_batches.insert[0]).toEqual(expect.objectContaining({ prefix: 'FLY', quantity: 700 }));
+        // 500 (collided) + 500 (retry) + 200
+        expect(calls.offer_codes.insert.map((rows: any[]) => rows.length)).toEqual([500, 500, 200]);
+        expect(new Set(calls.offer_codes.insert[2].map((row: any) => row.code)).size).toBe(200);
+        expect(calls.offers.update[0]).toEqual({ code_required: true });
+    });
+
+    it('should reject used or revoked codes and offers that need a code', async () => {
+        const offer = { id: 'offer1', restaurant_id: 'rest1', is_active: true, code_required: true, valid_until: '2026-12-31' };
+        (supabaseAdmin.from as jest.Mock).mockImplementation(() =>
+            query({ data: { id: 'code1', code: 'ABCD2345', status: 'redeemed', offer_id: 'offer1', offers: offer } })
+        );
+
+        const { evaluation } = await OfferRulesService.validate({ promoCode: 'abcd2345' }, { userId: 'user1' });
+        expect(evaluation).toEqual(expect.objectContaining({ eligible: false, error: 'CODE_REDEEMED' }));
+
+        const context = { date: '2026-10-19', usage: { byUser: 0, onDay: 0 } };
+        expect(evaluateOfferRules(offer, context).error).toBe('CODE_REQUIRED');
+        expect(evaluateOfferRules(offer, { ...context, hasCode: true }).eligible).toBe(true);
+    });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+const mockRpc = jest.fn<(...args: any[]) => Promise<any>>();
+
+jest.mock('../config/supabase.js', () => ({
+    supabase: { from: jest.fn() },
+    supabaseAdmin: { from: jest.fn(), rpc: mockRpc }
+}));
+
+import { supabaseAdmin } from '../config/supabase.js';
+import {
+    OfferRuleContext,
+    OfferRulesService,
+    applyOfferToDeposit,
+    calculateOfferDiscount,
+    evaluateOfferRules,
+    isWithinHours,
+    parseOfferRules,
+} from '../services/offerRules.js';
+
+const baseOffer = {
+    id: 'offer1',
+    restaurant_id: 'rest1',
+    is_active: true,
+    valid_from: '2026-10-01',
+    valid_until: '2026-12-31',
+    valid_days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'],
+    usage_count: 0,
+    max_uses_per_user: 1,
+};
+
+// Monday
+const baseContext: OfferRuleContext = { date: '2026-10-19', time: '14:00', guestCount: 2, usage: { byUser: 0, onDay: 0 } };
+
+/** Thenable query builder that resolves to `result` whatever the chain */
+const query = (result: Record<string, any>) => {
+    const chain: any = {};
+    for (const method of ['select', 'eq', 'neq', 'in']) chain[method] = () => chain;
+    chain.maybeSingle = async () => result;
+    chain.then = (resolve: (value: any) => void) => resolve(result);
+    return chain;
+};
+
+describe('Offer Rules', () => {
+    beforeEach(() => {
+        (supabaseAdmin.from as jest.Mock).mockReset();
+        mockRpc.mockReset();
+    });
+
+    it('should check hour windows, including ones past midnight', () => {
+        expect(isWithinHours('14:00', '13:00', '17:00')).toBe(true);
+        expect(isWithinHours('17:00', '13:00', '17:00')).toBe(false);
+        expect(isWithinHours('01:30', '22:00', '02:00')).toBe(true);
+        expect(isWithinHours('12:00', '22:00', '02:00')).toBe(false);
+        expect(isWithinHours('09:00', '10:00:00', null)).toBe(false);
+    });
+
+    it('should accept a use that meets every rule', () => {
+        expect(evaluateOfferRules(baseOffer, baseContext)).toEqual({ eligible: true });
+    });
+
+    it('should reject uses outside the dates, days and hours of the offer', () => {
+        expect(evaluateOfferRules(baseOffer, { ...baseContext, date: '2027-01-04' }).error).toBe('OUTSIDE_DATES');
+        expect(evaluateOfferRules(baseOffer, { ...baseContext, date: '2026-10-18' })).toEqual(
+            expect.objectContaining({ error: 'INVALID_DAY', message: expect.stringContaining('lunes') })
+        );
+        expect(evaluateOfferRules(
+            { ...baseOffer, valid_hours_start: '13:00:00', valid_hours_end: '17:00:00' },
+            { ...baseContext, time: '20:00' }
+        )).toEqual(expect.objectContaining({ error: 'OUTSIDE_HOURS', message: 'Esta oferta solo es válida de 13:00 a 17:00' }));
+    });
+
+    it('should enforce party size, first visit and segment rules', () => {
+        expect(evaluateOfferRules({ ...baseOffer, min_party_size: 4 }, baseContext).error).toBe('PARTY_TOO_SMALL');
+        expect(evaluateOfferRules({ ...baseOffer, first_visit_only: true }, { ...baseContext, isFirstVisit: false }).error).toBe('FIRST_VISIT_ONLY');
+        expect(evaluateOfferRules({ ...baseOffer, allowed_segments: ['Platinum VIP'] }, { ...baseContext, segment: 'Nuevo Foodie' }).error).toBe('SEGMENT');
+        expect(evaluateOfferRules({ ...baseOffer, allowed_segments: ['Platinum VIP'] }, { ...baseContext, segment: 'Platinum VIP' }).eligible).toBe(true);
+    });
+
+    it('should enforce global, per-user and per-day caps', () => {
+        expect(evaluateOfferRules({ ...baseOffer, max_usage: 10, usage_count: 10 }, baseContext).error).toBe('USAGE_LIMIT');
+        expect(evaluateOfferRules(baseOffer, { ...baseContext, usage: { byUser: 1, onDay: 0 } }).error).toBe('USER_LIMIT');
+        expect(evaluateOfferRules({ ...baseOffer, max_uses_per_user: 3 }, { ...baseContext, usage: { byUser: 2, onDay: 0 } }).eligible).toBe(true);
+        expect(evaluateOfferRules({ ...baseOffer, max_uses_per_day: 5 }, { ...baseContext, usage: { byUser: 0, onDay: 5 } }).error).toBe('DAILY_LIMIT');
+    });
+
+    it('should only combine offers that both allow stacking', () => {
+        const stackable = { ...baseOffer, stackable: true };
+        expect(evaluateOfferRules(baseOffer, { ...baseContext, stackedOffers: [{ id: 'other', stackable: true }] }).error).toBe('NOT_STACKABLE');
+        expect(evaluateOfferRules(stackable, { ...baseContext, stackedOffers: [{ id: 'other', stackable: false }] }).error).toBe('NOT_STACKABLE');
+        expect(evaluateOfferRules(stackable, { ...baseContext, stackedOffers: [{ id: 'other', stackable: true }] }).eligible).toBe(true);
+        expect(evaluateOfferRules(stackable, { ...baseContext, stackedOffers: [{ id: 'offer1', stackable: true }] }).error).toBe('ALREADY_REDEEMED');
+    });
+
+    it('should parse rule fields from the request body', () => {
+        expect(parseOfferRules({ validHoursStart: '13:00', maxUsesPerDay: '20', allowedSegments: [], stackable: 1 })).toEqual({
+            rules: { valid_hours_start: '13:00', max_uses_per_day: 20, allowed_segments: null, stackable: true },
+        });
+        expect(parseOfferRules({ maxUsesPerUser: 0 }).error).toBeDefined();
+        expect(parseOfferRules({ validDays: ['lunes'] }).error).toBeDefined();
+        expect(parseOfferRules({ minPartySize: 6, maxPartySize: 2 }).error).toBeDefined();
+    });
+
+    it('should compute the discount of each offer type on the deposit', () => {
+        expect(calculateOfferDiscount({ discount_type: 'percentage', discount_value: '20%' }, 300, 2)).toEqual({ discount: 60, amount: 240 });
+        expect(calculateOfferDiscount({ discount_type: 'fixed', discount_value: '$500' }, 300, 2)).toEqual({ discount: 300, amount: 0 });
+        expect(calculateOfferDiscount({ discount_type: 'bogo', discount_value: '2x1' }, 300, 3).discount).toBe(100);
+        expect(calculateOfferDiscount({ discount_type: 'combo', discount_value: '$75' }, 300, 2).discount).toBe(75);
+        expect(calculateOfferDiscount({ discount_type: 'combo', discount_value: '15%' }, 300, 2).discount).toBe(45);
+        expect(calculateOfferDiscount({ discount_type: 'special', discount_value: 'Postre gratis' }, 300, 2).discount).toBe(0);
+    });
+
+    it('should waive a deposit the offer fully covers', () => {
+        const fixed = { discount_type: 'fixed', discount_value: '100' };
+        expect(applyOfferToDeposit({ required: true, amount: 300 }, fixed, 2)).toEqual({ deposit: { required: true, amount: 200 }, discount: 100 });
+        expect(applyOfferToDeposit({ required: true, amount: 80 }, fixed, 2)).toEqual({ deposit: { required: false, amount: 0 }, discount: 80 });
+        expect(applyOfferToDeposit({ required: false, amount: 0 }, fixed, 2)).toEqual({ deposit: { required: false, amount: 0 }, discount: 0 });
+    });
+
+    it('should report the cap the database hit when redeeming', async () => {
+        const tables: Record<string, Record<string, any>> = {
+            reservations: { data: { id: 'res1', user_id: 'user1', restaurant_id: 'rest1', date: '2026-10-19', time: '14:00:00', guest_count: 2, status: 'confirmed', deposit_amount: 0 } },
+            offers: { data: { ...baseOffer, discount_type: 'percentage', discount_value: '20%' } },
+            offer_redemptions: { data: [], count: 0 },
+        };
+        (supabaseAdmin.from as jest.Mock).mockImplementation((table: any) => query(tables[table]));
+        mockRpc.mockResolvedValue({ data: 'USER_LIMIT', error: null });
+
+        const { evaluation } = await OfferRulesService.redeem({ offerId: 'offer1', userId: 'user1', reservationId: 'res1' });
+
+        expect(mockRpc).toHaveBeenCalledWith('redeem_offer_atomic', expect.objectContaining({
+            p_offer_id: 'offer1',
+            p_reservation_id: 'res1',
+            p_reservation_date: '2026-10-19',
+            p_discount_applied: 0,
+        }));
+        expect(evaluation).toEqual(expect.objectContaining({ eligible: false, error: 'USER_LIMIT' }));
+    });
+
+    it('should not redeem offers on a reservation that already has a deposit', async () => {
+        (supabaseAdmin.from as jest.Mock).mockImplementation(() => query({
+            data: { id: 'res1', user_id: 'user1', status: 'pending', deposit_amount: 300, deposit_paid: false },
+        }));
+
+        const { evaluation } = await OfferRulesService.redeem({ offerId: 'offer1', userId: 'user1', reservationId: 'res1' });
+
+        expect(evaluation.error).toBe('RESERVATION_HAS_DEPOSIT');
+        expect(mockRpc).not.toHaveBeenCalled();
+    });
+
+    it('should not redeem offers on someone else\'s reservation', async () => {
+        (supabaseAdmin.from as jest.Mock).mockImplementation(() => query({ data: { id: 'res1', user_id: 'other', status: 'confirmed' } }));
+
+        const { evaluation } = await OfferRulesService.redeem({ offerId: 'offer1', userId: 'user1', reservationId: 'res1' });
+
+        expect(evaluation.error).toBe('FORBIDDEN');
+        expect(mockRpc).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import type Stripe from 'stripe';
+
+jest.mock('../config/supabase.js', () => ({
+    supabase: { from: jest.fn() },
+    supabaseAdmin: { from: jest.fn(), rpc: jest.fn() }
+}));
+
+import { buildReconciliation, toLedgerCsv } from '../services/paymentLedger.js';
+import { chargeToEntries, disputeToEntries, refundsToEntries } from '../services/stripePaymentProvider.js';
+
+// 2026-10-18 13:00 in Mexico City
+const CREATED = Date.parse('2026-10-18T19:00:00Z') / 1000;
+const TZ = 'America/Mexico_City';
+
+describe('Payments Ledger', () => {
+    it('should record a charge and its processing fee', () => {
+        const charge = {
+            id: 'ch_1',
+            amount: 20000,
+            currency: 'mxn',
+            created: CREATED,
+            payment_intent: 'pi_1',
+            balance_transaction: { id: 'txn_1', fee: 780, currency: 'mxn', created: CREATED },
+        } as unknown as Stripe.Charge;
+
+        expect(chargeToEntries(charge)).toEqual([
+            expect.objectContaining({ type: 'charge', amount: 200, provider_object_id: 'ch_1', payment_intent_id: 'pi_1' }),
+            expect.objectContaining({ type: 'fee', amount: -7.8, provider_object_id: 'txn_1' }),
+        ]);
+    });
+
+    it('should only record refunds that moved money', () => {
+        const refunds = [
+            { id: 're_1', amount: 10000, currency: 'mxn', status: 'succeeded', created: CREATED, payment_intent: 'pi_1' },
+            { id: 're_2', amount: 5000, currency: 'mxn', status: 'failed', created: CREATED, payment_intent: 'pi_1' },
+        ] as unknown as Stripe.Refund[];
+
+        expect(refundsToEntries(refunds)).toEqual([expect.objectContaining({ type: 'refund', amount: -100, provider_object_id: 're_1' })]);
+    });
+
+    it('should record dispute withdrawals, fees and reinstatements', () => {
+        const dispute = {
+            payment_intent: 'pi_1',
+            balance_transactions: [
+                { id: 'txn_2', amount: -20000, fee: 25000, currency: 'mxn', created: CREATED },
+                { id: 'txn_3', amount: 20000, fee: 0, currency: 'mxn', created: CREATED },
+            ],
+        } as unknown as Stripe.Dispute;
+
+        expect(disputeToEntries(dispute).map((e) => [e.type, e.amount])).toEqual([
+            ['dispute', -200],
+            ['fee', -250],
+            ['dispute_reversal', 200],
+        ]);
+    });
+
+    it('should flag reservations whose ledger does not match their deposit', () => {
+        const paidAt = new Date(CREATED * 1000).toISOString();
+        const reservations = [
+            { id: 'ok', deposit_status: 'partially_refunded', deposit_amount: 200, deposit_paid_at: paidAt, cancellation_refund_amount: 100 },
+            { id: 'missing', deposit_status: 'paid', deposit_amount: 150, deposit_paid_at: paidAt },
+            { id: 'refund', deposit_status: 'refunded', deposit_amount: 100, deposit_paid_at: paidAt },
+        ];
+        const rows = [
+            { type: 'charge' as const, amount: 200, occurred_at: paidAt, reservation_id: 'ok' },
+            { type: 'refund' as const, amount: -100, occurred_at: paidAt, reservation_id: 'ok' },
+            { type: 'charge' as const, amount: '100', occurred_at: paidAt, reservation_id: 'refund' },
+            { type: 'fee' as const, amount: -7.8, occurred_at: paidAt, reservation_id: 'ok' },
+        ];
+
+        const report = buildReconciliation('2026-10-18', '2026-10-18', TZ, rows, reservations, rows);
+
+        expect(report.days).toEqual([expect.objectContaining({
+            date: '2026-10-18', charges: 300, refunds: -100, fees: -7.8, net: 192.2, reservationDeposits: 450, difference: -150,
+        })]);
+        expect(report.issues).toEqual([
+            expect.objectContaining({ reservationId: 'missing', issue: 'missing_charge', expected: 150, recorded: 0 }),
+            expect.objectContaining({ reservationId: 'refund', issue: 'refund_mismatch', expected: 100, recorded: 0 }),
+        ]);
+        expect(report.balanced).toBe(false);
+    });
+
+    it('should escape CSV fields', () => {
+        const csv = toLedgerCsv([{ occurred_at: '2026-10-18', type: 'charge', amount: 200, currency: 'mxn', description: 'Anticipo, "mesa 4"' }]);
+        expect(csv.split('\n')[1]).toBe('2026-10-18,charge,200,mxn,,,,,"Anticipo, ""mesa 4"""');
+    });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import type Stripe from 'stripe';
+import { FakePaymentProvider } from '../services/fakePaymentProvider.js';
+import { env } from '../config/env.js';
+import { getEventPaymentIntentId, toPaymentEvent } from '../services/stripePaymentProvider.js';
+
+const stripeEvent = (type: string, object: Record<string, any>) => ({
+    id: 'evt_1',
+    type,
+    data: { object },
+}) as unknown as Stripe.Event;
+
+describe('Payment Providers', () => {
+    it('should use the fake provider under Jest unless configured otherwise', () => {
+        expect(env.paymentProvider).toBe('fake');
+    });
+
+    describe('FakePaymentProvider', () => {
+        let provider: FakePaymentProvider;
+
+        beforeEach(() => {
+            provider = new FakePaymentProvider();
+        });
+
+        it('should return the same intent for the same idempotency key', async () => {
+            const input = { amount: 200, currency: 'mxn', metadata: { reservationId: 'res1' }, idempotencyKey: 'deposit:res1:first' };
+            const first = await provider.createIntent(input);
+            const second = await provider.createIntent(input);
+
+            expect(second.id).toBe(first.id);
+            expect(first).toEqual(expect.objectContaining({ status: 'requires_payment_method', amount: 200, amountReceived: 0 }));
+        });
+
+        it('should collect a payment and emit its webhook event and ledger rows', async () => {
+            const intent = await provider.createIntent({ amount: 150, currency: 'mxn', metadata: {} });
+            const event = provider.completePayment(intent.id);
+
+            expect(event).toEqual(expect.objectContaining({ type: 'payment.succeeded', paymentIntentId: intent.id }));
+            expect(event.intent).toEqual(expect.objectContaining({ status: 'succeeded', amountReceived: 150, clientSecret: null }));
+            expect(await provider.getLedgerEntries(event)).toEqual([
+                expect.objectContaining({ type: 'charge', amount: 150, payment_intent_id: intent.id }),
+            ]);
+        });
+
+        it('should refund at most what is left on the payment', async () => {
+            const intent = await provider.createIntent({ amount: 200, currency: 'mxn', metadata: {} });
+            await expect(provider.refund({ paymentIntentId: intent.id })).rejects.toThrow();
+
+            provider.completePayment(intent.id);
+            expect(await provider.refund({ paymentIntentId: intent.id, amount: 50 })).toEqual(
+                expect.objectContaining({ amount: 50, status: 'succeeded' })
+            );
+            await expect(provider.refund({ paymentIntentId: intent.id, amount: 200 })).rejects.toThrow();
+            expect((await provider.refund({ paymentIntentId: intent.id })).amount).toBe(150);
+
+            expect(provider.refundedEvent(intent.id).charge).toEqual({ amount: 200, amountRefunded: 200 });
+        });
+
+        it('should only accept signed webhook deliveries', () => {
+            const body = Buffer.from(JSON.stringify({ id: 'evt_1', type: 'payment.failed', providerType: 'payment.failed', paymentIntentId: 'pi_1' }));
+
+            expect(() => provider.parseWebhook(body, {})).toThrow();
+            expect(provider.parseWebhook(body, { 'fake-signature': 'whsec_fake' })).toEqual(
+                expect.objectContaining({ id: 'evt_1', provider: 'fake', type: 'payment.failed' })
+            );
+        });
+    });
+
+    describe('Stripe events', () => {
+        it('should find the payment intent behind intents, charges and disputes', () => {
+            expect(getEventPaymentIntentId(stripeEvent('payment_intent.succeeded', { object: 'payment_intent', id: 'pi_1' }))).toBe('pi_1');
+            expect(getEventPaymentIntentId(stripeEvent('charge.refunded', { object: 'charge', id: 'ch_1', payment_intent: 'pi_2' }))).toBe('pi_2');
+            expect(getEventPaymentIntentId(stripeEvent('charge.dispute.created', { object: 'dispute', payment_intent: { id: 'pi_3' } }))).toBe('pi_3');
+            expect(getEventPaymentIntentId(stripeEvent('customer.created', { object: 'customer', id: 'cus_1' }))).toBeNull();
+        });
+
+        it('should convert Stripe events to provider events in MXN', () => {
+            const succeeded = toPaymentEvent(stripeEvent('payment_intent.succeeded', {
+                object: 'payment_intent', id: 'pi_1', status: 'succeeded', amount: 20000, amount_received: 20000,
+                currency: 'mxn', client_secret: null, metadata: { reservationId: 'res1' },
+            }));
+            expect(succeeded).toEqual(expect.objectContaining({ provider: 'stripe', type: 'payment.succeeded', paymentIntentId: 'pi_1' }));
+            expect(succeeded.intent).toEqual(expect.objectContaining({ amount: 200, amountReceived: 200, metadata: { reservationId: 'res1' } }));
+
+            const refunded = toPaymentEvent(stripeEvent('charge.refunded', { object: 'charge', payment_intent: 'pi_1', amount: 20000, amount_refunded: 5000 }));
+            expect(refunded.charge).toEqual({ amount: 200, amountRefunded: 50 });
+
+            const closed = toPaymentEvent(stripeEvent('charge.dispute.closed', { object: 'dispute', payment_intent: 'pi_1', status: 'lost' }));
+            expect(closed).toEqual(expect.objectContaining({ type: 'dispute.closed', disputeStatus: 'lost' }));
+
+            expect(toPaymentEvent(stripeEvent('customer.created', { object: 'customer', id: 'cus_1' })).type).toBe('other');
+        });
+    });
+});
@@ -0,0 +1,27 @@
+import { describe, it, expect } from '@jest/globals';
+import jwt from 'jsonwebtoken';
+import { env } from '../config/env.js';
+import { PhoneVerificationService, normalizePhone } from '../services/phoneVerification.js';
+
+describe('Phone Verification', () => {
+    it('should normalize phone numbers the way guests type them', () => {
+        expect(normalizePhone('+52 (55) 1234-5678')).toBe('+525512345678');
+        expect(normalizePhone('55 1234 5678')).toBe('5512345678');
+        expect(normalizePhone('1234')).toBeNull();
+        expect(normalizePhone(undefined)).toBeNull();
+    });
+
+    it('should accept the token only for the phone it was issued for', () => {
+        const token = PhoneVerificationService.issueToken('+525512345678');
+
+        expect(PhoneVerificationService.isVerified(token, '+52 55 1234 5678')).toBe(true);
+        expect(PhoneVerificationService.isVerified(token, '+525599999999')).toBe(false);
+        expect(PhoneVerificationService.isVerified(undefined, '+525512345678')).toBe(false);
+    });
+
+    it('should reject tokens signed for something else', () => {
+        const sessionToken = jwt.sign({ phone: '+525512345678' }, env.jwtSecret);
+        expect(PhoneVerificationService.isVerified(sessionToken, '+525512345678')).toBe(false);
+        expect(PhoneVerificationService.isVerified('not-a-token', '+525512345678')).toBe(false);
+    });
+});
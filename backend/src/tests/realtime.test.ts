@@ -0,0 +1,71 @@
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('../config/supabase.js', () => ({
+    supabase: { from: jest.fn() },
+    supabaseAdmin: { from: jest.fn(), rpc: jest.fn(), channel: jest.fn(), removeChannel: jest.fn() }
+}));
+
+import { RealtimeService, formatSseMessage, toRealtimeEvent } from '../services/realtime.js';
+
+const AT = new Date('2025-01-10T20:00:00Z');
+
+describe('Realtime Events', () => {
+    it('should report reservation status transitions with the previous status', () => {
+        const event = toRealtimeEvent('reservations', {
+            eventType: 'UPDATE',
+            old: { id: 'r1', restaurant_id: 'rest1', status: 'confirmed' },
+            new: { id: 'r1', restaurant_id: 'rest1', status: 'arrived', payment_intent_id: 'pi_1', qr_code: 'MF-1' },
+        }, AT);
+
+        expect(event?.type).toBe('reservation.status_changed');
+        expect(event?.data.previousStatus).toBe('confirmed');
+        expect(event?.data.status).toBe('arrived');
+        // Payment and check-in secrets never reach the screens
+        expect(event?.data.reservation).toEqual({ id: 'r1', restaurant_id: 'rest1', status: 'arrived' });
+    });
+
+    it('should map new bookings, table changes and waitlist changes', () => {
+        const created = toRealtimeEvent('reservations', { eventType: 'INSERT', old: {}, new: { id: 'r2', restaurant_id: 'rest1', status: 'pending' } }, AT);
+        const table = toRealtimeEvent('tables', {
+            eventType: 'UPDATE',
+            old: { id: 't1', restaurant_id: 'rest1', status: 'available' },
+            new: { id: 't1', restaurant_id: 'rest1', status: 'occupied' },
+        }, AT);
+        const moved = toRealtimeEvent('tables', {
+            eventType: 'UPDATE',
+            old: { id: 't1', restaurant_id: 'rest1', status: 'available', position_x: 1 },
+            new: { id: 't1', restaurant_id: 'rest1', status: 'available', position_x: 2 },
+        }, AT);
+        const waitlist = toRealtimeEvent('waitlist', { eventType: 'DELETE', old: { id: 'w1', restaurant_id: 'rest1' }, new: {} }, AT);
+
+        expect(created?.type).toBe('reservation.created');
+        expect(table?.type).toBe('table.status_changed');
+        expect(moved?.type).toBe('table.updated');
+        expect(waitlist).toMatchObject({ type: 'waitlist.updated', restaurantId: 'rest1', data: { action: 'delete' } });
+    });
+
+    it('should ignore changes without a restaurant', () => {
+        expect(toRealtimeEvent('tables', { eventType: 'DELETE', old: { id: 't1' }, new: {} })).toBeNull();
+    });
+
+    it('should only deliver events to clients of the same restaurant', () => {
+        const write = jest.fn();
+        const other = jest.fn();
+        const client = { write } as any;
+        (RealtimeService as any).clients.set('rest1', new Set([client]));
+        (RealtimeService as any).clients.set('rest2', new Set([{ write: other }]));
+
+        const event = toRealtimeEvent('reservations', { eventType: 'INSERT', old: {}, new: { id: 'r3', restaurant_id: 'rest1' } }, AT)!;
+        RealtimeService.publish(event);
+
+        expect(write).toHaveBeenCalledTimes(1);
+        expect(String(write.mock.calls[0][0])).toMatch(/^id: \d+\nevent: reservation\.created\ndata: /);
+        expect(other).not.toHaveBeenCalled();
+        (RealtimeService as any).clients.clear();
+    });
+
+    it('should format events as SSE messages', () => {
+        const event = toRealtimeEvent('waitlist', { eventType: 'INSERT', old: {}, new: { id: 'w1', restaurant_id: 'rest1' } }, AT)!;
+        expect(formatSseMessage(7, event)).toBe(`id: 7\nevent: waitlist.updated\ndata: ${JSON.stringify(event)}\n\n`);
+    });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('../config/supabase.js', () => ({
+    supabase: { from: jest.fn() },
+    supabaseAdmin: { from: jest.fn(), rpc: jest.fn() }
+}));
+
+import { getReminderHours, planReminders } from '../services/reminders.js';
+import { zonedTimeToUtc } from '../services/schedule.js';
+
+const TZ = 'America/Mexico_City'; // UTC-6, no DST
+// Reservation at 2025-01-10 20:00 local = 2025-01-11T02:00:00Z
+const reservation = { date: '2025-01-10', time: '20:00:00', created_at: '2025-01-01T12:00:00Z' };
+
+describe('Reminder Scheduler', () => {
+    it('should convert local reservation times to UTC', () => {
+        expect(zonedTimeToUtc('2025-01-10', '20:00', TZ).toISOString()).toBe('2025-01-11T02:00:00.000Z');
+    });
+
+    it('should read reminderHours from settings with the [24, 2] default', () => {
+        expect(getReminderHours({})).toEqual([24, 2]);
+        expect(getReminderHours({ reminderHours: [48, '3', -1, 3] })).toEqual([48, 3]);
+    });
+
+    it('should send nothing before the first offset', () => {
+        const plan = planReminders(reservation, [24, 2], TZ, new Date('2025-01-10T01:00:00Z'));
+        expect(plan).toEqual({ send: null, skip: [] });
+    });
+
+    it('should send each offset once it is due', () => {
+        expect(planReminders(reservation, [24, 2], TZ, new Date('2025-01-10T03:00:00Z')).send).toBe(24);
+        expect(planReminders(reservation, [24, 2], TZ, new Date('2025-01-11T00:30:00Z'), [24]).send).toBe(2);
+        expect(planReminders(reservation, [24, 2], TZ, new Date('2025-01-11T00:30:00Z'), [24, 2]).send).toBeNull();
+    });
+
+    it('should only send the closest reminder after downtime and skip the rest', () => {
+        const plan = planReminders(reservation, [24, 2], TZ, new Date('2025-01-11T00:30:00Z'));
+        expect(plan).toEqual({ send: 2, skip: [24] });
+    });
+
+    it('should skip reminders whose moment passed before the reservation was made', () => {
+        const lateBooking = { ...reservation, created_at: '2025-01-10T20:00:00Z' };
+        expect(planReminders(lateBooking, [24, 2], TZ, new Date('2025-01-10T21:00:00Z'))).toEqual({ send: null, skip: [24] });
+    });
+
+    it('should not send reminders for reservations that already started', () => {
+        expect(planReminders(reservation, [24, 2], TZ, new Date('2025-01-11T02:30:00Z'))).toEqual({ send: null, skip: [] });
+    });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+const mockRpc = jest.fn<(...args: any[]) => Promise<any>>();
+
+jest.mock('../config/supabase.js', () => ({
+    supabase: { from: jest.fn() },
+    supabaseAdmin: { from: jest.fn(), rpc: mockRpc }
+}));
+
+import { supabaseAdmin } from '../config/supabase.js';
+import { FakePaymentProvider } from '../services/fakePaymentProvider.js';
+import { setPaymentProvider } from '../services/paymentProvider.js';
+import { ReservationBookingService } from '../services/reservationBooking.js';
+
+const provider = new FakePaymentProvider();
+setPaymentProvider(provider);
+
+const createIntent = async (options: { amount?: number; userId?: string; paid?: boolean } = {}) => {
+    const intent = await provider.createIntent({
+        amount: options.amount ?? 200,
+        currency: 'mxn',
+        metadata: { userId: options.userId ?? 'user123', restaurantId: 'rest123' },
+    });
+    if (options.paid !== false) provider.completePayment(intent.id);
+    return intent.id;
+};
+
+const baseInput = {
+    restaurantId: 'rest123',
+    userId: 'user123',
+    tableId: 'table1',
+    date: '2025-01-01',
+    time: '20:00',
+    endTime: '21:30',
+    bufferMinutes: 15,
+    guestCount: 2,
+    status: 'pending' as const,
+    qrCode: 'MF-TEST',
+};
+
+describe('Reservation Booking', () => {
+    beforeEach(() => {
+        provider.reset();
+        mockRpc.mockReset();
+    });
+
+    describe('verifyDeposit', () => {
+        const expected = { userId: 'user123', restaurantId: 'rest123' };
+
+        it('should accept a succeeded payment intent from the same user and restaurant', async () => {
+            const paymentIntentId = await createIntent();
+
+            const result = await ReservationBookingService.verifyDeposit(paymentIntentId, expected);
+            expect(result).toEqual({ valid: true, deposit: { paymentIntentId, amount: 200 } });
+        });
+
+        it('should reject unpaid, foreign or insufficient payments', async () => {
+            const unpaid = await createIntent({ paid: false });
+            expect((await ReservationBookingService.verifyDeposit(unpaid, expected)).valid).toBe(false);
+
+            const foreign = await createIntent({ userId: 'other' });
+            expect((await ReservationBookingService.verifyDeposit(foreign, expected)).valid).toBe(false);
+
+            const short = await createIntent({ amount: 50 });
+            expect((await ReservationBookingService.verifyDeposit(short, { ...expected, minimumAmount: 100 })).valid).toBe(false);
+
+            expect((await ReservationBookingService.verifyDeposit('pi_missing', expected)).valid).toBe(false);
+        });
+    });
+
+    describe('createAtomic', () => {
+        it('should report a conflict when the overlap constraint fires', async () => {
+            mockRpc.mockResolvedValue({ data: null, error: { code: '23P01', message: 'conflicting key value violates exclusion constraint' } });
+
+            const result = await ReservationBookingService.createAtomic(baseInput);
+            expect(result).toEqual({ reservation: null, conflict: true, duplicatePayment: false });
+        });
+
+        it('should pass the verified deposit to the RPC', async () => {
+            mockRpc.mockResolvedValue({ data: { id: 'res1', status: 'confirmed' }, error: null });
+
+            const result = await ReservationBookingService.createAtomic({
+                ...baseInput,
+                status: 'confirmed',
+                deposit: { paymentIntentId: 'pi_123', amount: 200 },
+            });
+
+            expect(result.reservation).toEqual({ id: 'res1', status: 'confirmed' });
+            expect(mockRpc).toHaveBeenCalledWith('create_reservation_atomic', expect.objectContaining({
+                p_deposit_paid: true,
+                p_deposit_amount: 200,
+                p_payment_intent_id: 'pi_123',
+                p_buffer_minutes: 15,
+            }));
+            // The RPC stores deposit_status = 'paid' in the same insert: no follow-up write
+            expect(supabaseAdmin.from).not.toHaveBeenCalled();
+        });
+
+        it('should hold an unpaid reservation for its deposit in the same insert', async () => {
+            mockRpc.mockResolvedValue({ data: { id: 'res1', deposit_status: 'awaiting_payment' }, error: null });
+
+            await ReservationBookingService.createAtomic({
+                ...baseInput,
+                depositHold: { amount: 150, dueAt: '2025-01-01T18:15:00.000Z' },
+            });
+
+            expect(mockRpc).toHaveBeenCalledWith('create_reservation_atomic', expect.objectContaining({
+                p_deposit_paid: false,
+                p_deposit_hold_amount: 150,
+                p_deposit_due_at: '2025-01-01T18:15:00.000Z',
+            }));
+            expect(supabaseAdmin.from).not.toHaveBeenCalled();
+        });
+
+        it('should store the party dietary profile in the same insert', async () => {
+            mockRpc.mockResolvedValue({ data: { id: 'res1', allergies: ['nueces'] }, error: null });
+
+            await ReservationBookingService.createAtomic({
+                ...baseInput,
+                dietary: { restrictions: ['vegan'], allergies: ['nueces'] },
+            });
+            await ReservationBookingService.createAtomic(baseInput);
+
+            expect(mockRpc).toHaveBeenNthCalledWith(1, 'create_reservation_atomic', expect.objectContaining({
+                p_dietary_restrictions: ['vegan'],
+                p_allergies: ['nueces'],
+            }));
+            expect(mockRpc).toHaveBeenNthCalledWith(2, 'create_reservation_atomic', expect.objectContaining({
+                p_dietary_restrictions: [],
+                p_allergies: [],
+            }));
+            expect(supabaseAdmin.from).not.toHaveBeenCalled();
+        });
+
+        it('should redeem the offer with the reservation and report its rejected cap', async () => {
+            mockRpc.mockResolvedValue({ data: null, error: { code: '23514', message: 'offer_rejected:DAILY_LIMIT' } });
+
+            const result = await ReservationBookingService.createAtomic({
+                ...baseInput,
+                offer: { offerId: 'offer1', discount: 50 },
+            });
+
+            expect(mockRpc).toHaveBeenCalledWith('create_reservation_atomic', expect.objectContaining({
+                p_offer_id: 'offer1',
+                p_offer_discount: 50,
+            }));
+            expect(result).toEqual({ reservation: null, conflict: false, duplicatePayment: false, offerError: 'DAILY_LIMIT' });
+        });
+    });
+
+    describe('rescheduleAtomic', () => {
+        it('should move the reservation through the RPC and report a conflict on any of its tables', async () => {
+            const input = { reservationId: 'res1', date: '2025-01-02', time: '21:00', endTime: '22:30', bufferMinutes: 15, guestCount: 6 };
+
+            mockRpc.mockResolvedValueOnce({ data: { id: 'res1', guest_count: 6 }, error: null });
+            expect(await ReservationBookingService.rescheduleAtomic(input))
+                .toEqual({ reservation: { id: 'res1', guest_count: 6 }, conflict: false });
+            expect(mockRpc).toHaveBeenCalledWith('reschedule_reservation_atomic', expect.objectContaining({
+                p_reservation_id: 'res1',
+                p_guest_count: 6,
+            }));
+
+            mockRpc.mockResolvedValueOnce({ data: null, error: { code: '23P01', message: 'Table already reserved for the requested period' } });
+            expect(await ReservationBookingService.rescheduleAtomic(input)).toEqual({ reservation: null, conflict: true });
+        });
+    });
+});
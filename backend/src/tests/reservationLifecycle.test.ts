@@ -0,0 +1,118 @@
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('../config/supabase.js', () => ({
+    supabase: { from: jest.fn() },
+    supabaseAdmin: { from: jest.fn(), rpc: jest.fn() }
+}));
+
+import { supabaseAdmin } from '../config/supabase.js';
+import {
+    ReservationLifecycleService,
+    canTransition,
+    getTableEffect,
+    getTransitionUpdates,
+    isBlockedByDeposit,
+} from '../services/reservationLifecycle.js';
+
+const NOW = '2025-01-10T20:00:00.000Z';
+
+describe('Reservation Lifecycle', () => {
+    it('should follow the service flow and never go back', () => {
+        expect(canTransition('pending', 'confirmed')).toBe(true);
+        expect(canTransition('confirmed', 'arrived')).toBe(true);
+        expect(canTransition('arrived', 'seated')).toBe(true);
+        expect(canTransition('seated', 'completed')).toBe(true);
+
+        expect(canTransition('seated', 'confirmed')).toBe(false);
+        expect(canTransition('completed', 'cancelled')).toBe(false);
+        expect(canTransition('cancelled', 'confirmed')).toBe(false);
+        expect(canTransition('seated', 'no_show')).toBe(false);
+        // Late guests can still be checked in after a no-show
+        expect(canTransition('no_show', 'arrived')).toBe(true);
+    });
+
+    it('should stamp the timestamp of the new status', () => {
+        const staff = { type: 'staff' as const, id: 'u1' };
+        expect(getTransitionUpdates({}, 'confirmed', staff, NOW)).toEqual({ status: 'confirmed', confirmed_at: NOW, updated_at: NOW });
+        expect(getTransitionUpdates({}, 'seated', staff, NOW)).toMatchObject({ seated_at: NOW, arrived_at: NOW });
+        expect(getTransitionUpdates({ arrived_at: '2025-01-10T19:50:00Z' }, 'seated', staff, NOW)).not.toHaveProperty('arrived_at');
+    });
+
+    it('should record who cancelled and why', () => {
+        expect(getTransitionUpdates({}, 'cancelled', { type: 'staff' }, NOW, 'Cocina cerrada'))
+            .toMatchObject({ cancelled_at: NOW, cancelled_by: 'restaurant', cancellation_reason: 'Cocina cerrada' });
+        expect(getTransitionUpdates({}, 'cancelled', { type: 'guest' }, NOW).cancelled_by).toBe('guest');
+    });
+
+    it('should only release the table state the reservation holds', () => {
+        expect(getTableEffect('confirmed', 'seated', true)).toEqual({ status: 'occupied' });
+        expect(getTableEffect('pending', 'confirmed', true)).toEqual({ status: 'reserved', onlyIf: ['available'] });
+        expect(getTableEffect('pending', 'confirmed', false)).toBeNull();
+        expect(getTableEffect('seated', 'completed', true)).toEqual({ status: 'available', onlyIf: ['occupied', 'reserved'] });
+        // Cancelling a future booking must not free a table a walk-in is sitting at
+        expect(getTableEffect('confirmed', 'cancelled', false)).toEqual({ status: 'available', onlyIf: ['reserved'] });
+    });
+
+    it('should reject invalid transitions without writing', async () => {
+        const update = jest.fn();
+        (supabaseAdmin.from as jest.Mock).mockReturnValue({
+            select: () => ({ eq: () => ({ maybeSingle: async () => ({ data: { id: 'r1', restaurant_id: 'rest1', status: 'completed' }, error: null }) }) }),
+            update,
+        });
+
+        const result = await ReservationLifecycleService.transition('r1', 'cancelled', { actor: { type: 'staff' }, source: 'test' });
+        expect(result).toMatchObject({ changed: false, error: 'INVALID_TRANSITION', previousStatus: 'completed' });
+        expect(update).not.toHaveBeenCalled();
+
+        const otherRestaurant = await ReservationLifecycleService.transition('r1', 'cancelled', {
+            actor: { type: 'staff' }, source: 'test', restaurantId: 'rest2',
+        });
+        expect(otherRestaurant.error).toBe('NOT_FOUND');
+    });
+
+    it('should not let a guest confirm a booking held for an unpaid deposit', async () => {
+        const guest = { type: 'guest' as const, id: 'u1' };
+        expect(isBlockedByDeposit({ deposit_status: 'awaiting_payment' }, 'confirmed', guest)).toBe(true);
+        expect(isBlockedByDeposit({ deposit_status: 'failed' }, 'seated', guest)).toBe(true);
+        expect(isBlockedByDeposit({ deposit_status: 'awaiting_payment' }, 'cancelled', guest)).toBe(false);
+        expect(isBlockedByDeposit({ deposit_status: 'paid' }, 'confirmed', guest)).toBe(false);
+        // The deposit webhook and the staff can still confirm it
+        expect(isBlockedByDeposit({ deposit_status: 'awaiting_payment' }, 'confirmed', { type: 'system' })).toBe(false);
+        expect(isBlockedByDeposit({ deposit_status: 'awaiting_payment' }, 'confirmed', { type: 'staff' })).toBe(false);
+
+        const update = jest.fn();
+        (supabaseAdmin.from as jest.Mock).mockReturnValue({
+            select: () => ({ eq: () => ({ maybeSingle: async () => ({
+                data: { id: 'r1', restaurant_id: 'rest1', status: 'pending', deposit_status: 'awaiting_payment' }, error: null,
+            }) }) }),
+            update,
+        });
+
+        const result = await ReservationLifecycleService.transition('r1', 'confirmed', { actor: guest, source: 'test' });
+        expect(result).toMatchObject({ changed: false, error: 'DEPOSIT_PENDING' });
+        expect(update).not.toHaveBeenCalled();
+    });
+
+    it('should cancel through the RPC that releases the redeemed offers', async () => {
+        const update = jest.fn();
+        (supabaseAdmin.from as jest.Mock).mockReturnValue({
+            select: () => ({ eq: () => ({ maybeSingle: async () => ({ data: { id: 'r1', restaurant_id: 'rest1', status: 'pending' }, error: null }) }) }),
+            update,
+        });
+        // Someone moved it first: the RPC returns no row
+        (supabaseAdmin.rpc as jest.Mock).mockReturnValue({
+            select: () => ({ maybeSingle: async () => ({ data: null, error: null }) }),
+        });
+
+        const result = await ReservationLifecycleService.transition('r1', 'cancelled', {
+            actor: { type: 'system' }, source: 'test', updates: { deposit_status: 'expired' },
+        });
+        expect(result).toMatchObject({ changed: false, error: 'CONFLICT' });
+        expect(supabaseAdmin.rpc).toHaveBeenCalledWith('cancel_reservation_atomic', {
+            p_reservation_id: 'r1',
+            p_from_status: 'pending',
+            p_updates: expect.objectContaining({ status: 'cancelled', cancelled_by: 'system', deposit_status: 'expired' }),
+        });
+        expect(update).not.toHaveBeenCalled();
+    });
+});
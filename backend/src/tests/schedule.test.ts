@@ -0,0 +1,102 @@
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('../config/supabase.js', () => ({
+    supabase: { from: jest.fn() },
+    supabaseAdmin: { from: jest.fn() }
+}));
+
+import {
+    addDays,
+    generateDaySchedule,
+    getDayName,
+    getLocalNow,
+    getServiceWindow,
+    ScheduleSource,
+} from '../services/schedule.js';
+
+// 2025-01-03 is a Friday
+const buildSource = (overrides: Partial<ScheduleSource> = {}): ScheduleSource => ({
+    settings: { slotIntervalMinutes: 30, lastSeatingMinutesBeforeClose: 60 },
+    opening_hours: {
+        thursday: { open: '13:00', close: '17:00' },
+        friday: { open: '20:00', close: '02:00' },
+        saturday: { open: '13:00', close: '16:00' },
+        sunday: { open: '13:00', close: '16:00', closed: true },
+    },
+    holidays: [],
+    ...overrides,
+});
+
+const EARLY_NOW = { date: '2025-01-01', minutes: 8 * 60 };
+
+describe('Schedule Engine', () => {
+    describe('date helpers', () => {
+        it('should resolve weekday names and add days across months', () => {
+            expect(getDayName('2025-01-03')).toBe('friday');
+            expect(addDays('2025-01-31', 1)).toBe('2025-02-01');
+            expect(addDays('2025-03-01', -1)).toBe('2025-02-28');
+        });
+
+        it('should compute the local date and time in the restaurant timezone', () => {
+            const now = new Date('2025-01-03T05:30:00Z');
+            expect(getLocalNow('America/Mexico_City', now)).toEqual({ date: '2025-01-02', minutes: 23 * 60 + 30 });
+        });
+    });
+
+    describe('getServiceWindow', () => {
+        it('should treat a close at or before the opening time as past midnight', () => {
+            expect(getServiceWindow(buildSource(), '2025-01-03')).toEqual({ open: 1200, close: 1560 });
+            const midnight = buildSource({ opening_hours: { friday: { open: '12:00', close: '00:00' } } });
+            expect(getServiceWindow(midnight, '2025-01-03')).toEqual({ open: 720, close: 1440 });
+        });
+
+        it('should apply holiday closures and special hours', () => {
+            const source = buildSource({
+                holidays: [
+                    { date: '2025-01-02', name: 'Cerrado', closed: true },
+                    { date: '2025-01-04', name: 'Horario especial', open: '18:00', close: '20:00' },
+                ],
+            });
+
+            expect(getServiceWindow(source, '2025-01-02')).toBeNull();
+            expect(getServiceWindow(source, '2025-01-04')).toEqual({ open: 1080, close: 1200 });
+        });
+    });
+
+    describe('generateDaySchedule', () => {
+        it('should generate slots up to the last seating before close', () => {
+            const schedule = generateDaySchedule(buildSource(), '2025-01-02', EARLY_NOW);
+            expect(schedule.isClosed).toBe(false);
+            expect(schedule.slots).toEqual(['13:00', '13:30', '14:00', '14:30', '15:00', '15:30', '16:00']);
+        });
+
+        it('should carry past-midnight slots over to the next calendar day', () => {
+            const friday = generateDaySchedule(buildSource(), '2025-01-03', EARLY_NOW);
+            expect(friday.slots).toEqual(['20:00', '20:30', '21:00', '21:30', '22:00', '22:30', '23:00', '23:30']);
+
+            const saturday = generateDaySchedule(buildSource(), '2025-01-04', EARLY_NOW);
+            expect(saturday.slots.slice(0, 3)).toEqual(['00:00', '00:30', '01:00']);
+            expect(saturday.slots).toContain('15:00');
+        });
+
+        it('should report closed days and holidays', () => {
+            expect(generateDaySchedule(buildSource(), '2025-01-05', EARLY_NOW)).toMatchObject({ isClosed: true, reason: 'closed' });
+
+            const holiday = buildSource({ holidays: [{ date: '2025-01-02', name: 'Año nuevo', closed: true }] });
+            expect(generateDaySchedule(holiday, '2025-01-02', EARLY_NOW)).toMatchObject({
+                isClosed: true,
+                reason: 'holiday',
+                holidayName: 'Año nuevo',
+            });
+        });
+
+        it('should enforce minimum advance hours and the booking window', () => {
+            const source = buildSource({ settings: { minAdvanceHours: 2, maxReservationDays: 30 } });
+            const now = { date: '2025-01-02', minutes: 13 * 60 + 15 };
+
+            expect(generateDaySchedule(source, '2025-01-02', now).slots[0]).toBe('15:30');
+            expect(generateDaySchedule(source, '2025-01-01', now)).toMatchObject({ isClosed: true, reason: 'past' });
+            expect(generateDaySchedule(source, '2025-03-01', now)).toMatchObject({ isClosed: true, reason: 'beyond_booking_window' });
+        });
+    });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('../config/supabase.js', () => ({
+    supabase: { from: jest.fn() },
+    supabaseAdmin: { from: jest.fn() }
+}));
+
+import { AvailabilitySnapshot } from '../services/availability.js';
+import { TableAssignmentService } from '../services/tableAssignment.js';
+
+const buildSnapshot = (overrides: Partial<AvailabilitySnapshot> = {}): AvailabilitySnapshot => ({
+    restaurantId: 'rest123',
+    settings: { bufferMinutes: 15 },
+    tables: [
+        { id: 't1', number: 1, capacity: 2, zone: 'main' },
+        { id: 't2', number: 2, capacity: 4, zone: 'main' },
+        { id: 't3', number: 3, capacity: 4, zone: 'terrace', is_outdoor: true },
+        { id: 't4', number: 4, capacity: 8, min_capacity: 6, zone: 'main', is_vip: true },
+    ],
+    reservations: [],
+    combinations: [
+        { id: 'c1', table_ids: ['t2', 't3'] },
+    ],
+    ...overrides,
+});
+
+describe('Table Assignment Engine', () => {
+    describe('findBestAssignment', () => {
+        it('should pick the single table with the fewest empty seats', () => {
+            const best = TableAssignmentService.findBestAssignment(buildSnapshot(), '2025-01-01', '20:00', 2);
+            expect(best).toMatchObject({ tableId: 't1', linkedTableIds: [] });
+        });
+
+        it('should respect min_capacity', () => {
+            // t4 is an 8-top reserved for 6+ guests, so 5 guests need a combination
+            const best = TableAssignmentService.findBestAssignment(buildSnapshot(), '2025-01-01', '20:00', 5);
+            expect(best).toMatchObject({ combinationId: 'c1', capacity: 8 });
+            expect([best!.tableId, ...best!.linkedTableIds].sort()).toEqual(['t2', 't3']);
+        });
+
+        it('should apply zone, VIP and outdoor preferences', () => {
+            const snapshot = buildSnapshot();
+            expect(TableAssignmentService.findBestAssignment(snapshot, '2025-01-01', '20:00', 3, { isOutdoor: true })?.tableId).toBe('t3');
+            expect(TableAssignmentService.findBestAssignment(snapshot, '2025-01-01', '20:00', 6, { isVip: true })?.tableId).toBe('t4');
+            expect(TableAssignmentService.findBestAssignment(snapshot, '2025-01-01', '20:00', 2, { zone: 'patio' })).toBeNull();
+        });
+
+        it('should not combine tables when one of them is booked', () => {
+            const snapshot = buildSnapshot({
+                tables: buildSnapshot().tables.filter(t => t.id !== 't4'),
+                reservations: [{ id: 'r1', table_id: 't3', date: '2025-01-01', time: '19:30', guest_count: 4 }],
+            });
+
+            expect(TableAssignmentService.findBestAssignment(snapshot, '2025-01-01', '20:00', 7)).toBeNull();
+        });
+    });
+
+    describe('combined reservations', () => {
+        it('should block every linked table of a combined reservation', () => {
+            const snapshot = buildSnapshot({
+                reservations: [{ id: 'r1', table_id: 't2', linked_table_ids: ['t3'], date: '2025-01-01', time: '20:00', guest_count: 7 }],
+            });
+
+            const best = TableAssignmentService.findBestAssignment(snapshot, '2025-01-01', '20:00', 3);
+            expect(best).toBeNull();
+            expect(TableAssignmentService.canSeat(snapshot, '2025-01-01', '20:00', 2)).toBe(true);
+        });
+
+        it('should use the combined capacity of a reservation\'s tables', () => {
+            const snapshot = buildSnapshot({ combinations: [{ id: 'c1', table_ids: ['t2', 't3'], capacity: 7 }] });
+
+            expect(TableAssignmentService.getSeatingCapacity(snapshot, ['t3', 't2'])).toBe(7);
+            // Tables outside a combination add up their seats
+            expect(TableAssignmentService.getSeatingCapacity(snapshot, ['t1', 't2'])).toBe(6);
+            expect(TableAssignmentService.getSeatingCapacity(snapshot, ['t1'])).toBe(2);
+            expect(TableAssignmentService.getSeatingCapacity(snapshot, ['t2', 'removed'])).toBeNull();
+        });
+    });
+});
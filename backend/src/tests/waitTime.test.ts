@@ -0,0 +1,77 @@
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('../config/supabase.js', () => ({
+    supabase: { from: jest.fn() },
+    supabaseAdmin: { from: jest.fn(), rpc: jest.fn() }
+}));
+
+import {
+    TableAvailability,
+    buildDurationStats,
+    estimateQueueWaits,
+    getSeatingDuration,
+} from '../services/waitTime.js';
+
+const seating = (guestCount: number, minutes: number) => ({
+    guest_count: guestCount,
+    seated_at: '2025-01-10T20:00:00Z',
+    completed_at: new Date(Date.parse('2025-01-10T20:00:00Z') + minutes * 60000).toISOString(),
+});
+
+const table = (tableId: string, capacity: number, freeIn = 0, reservedIn: number | null = null): TableAvailability => ({
+    tableId,
+    capacity,
+    freeIn: { low: freeIn, expected: freeIn, high: freeIn },
+    reservedIn,
+    reservedFor: reservedIn === null ? null : { low: 60, expected: 60, high: 60 },
+});
+
+const fixed = (minutes: number) => () => ({ low: minutes, expected: minutes, high: minutes, samples: 20 });
+
+describe('Wait Time Estimation', () => {
+    it('should learn seating durations by party size and drop outliers', () => {
+        const stats = buildDurationStats([
+            seating(2, 50), seating(2, 60), seating(2, 70), seating(2, 80), seating(2, 90),
+            seating(2, 2), seating(2, 900),
+            seating(5, 120),
+        ]);
+
+        expect(stats.get(2)).toEqual({ low: 60, expected: 70, high: 80, samples: 5 });
+        expect(stats.get(6)?.samples).toBe(1);
+    });
+
+    it('should fall back to the configured turn time without enough history', () => {
+        const stats = buildDurationStats([seating(6, 120)]);
+        const duration = getSeatingDuration(stats, { turnTimes: { '6': 100 } }, 5);
+        expect(duration).toEqual({ low: 75, expected: 100, high: 125, samples: 1 });
+    });
+
+    it('should seat a party right away when a suitable table is free', () => {
+        const estimates = estimateQueueWaits([table('t1', 4)], [{ id: 'w1', partySize: 2 }], fixed(60), 10);
+        expect(estimates.get('w1')).toMatchObject({ minutes: 0, partiesAhead: 0, confidence: 'high' });
+    });
+
+    it('should queue parties behind earlier ones on the tables that fit them', () => {
+        const tables = [table('t1', 2, 20), table('t2', 6, 40)];
+        const queue = [
+            { id: 'w1', partySize: 2 },
+            { id: 'w2', partySize: 2 },
+            { id: 'w3', partySize: 5 },
+        ];
+        const estimates = estimateQueueWaits(tables, queue, fixed(60), 10);
+
+        expect(estimates.get('w1')?.minutes).toBe(20);
+        // The 2-top comes back at 20 + 60 + 10, the 6-top frees at 40
+        expect(estimates.get('w2')?.minutes).toBe(40);
+        expect(estimates.get('w3')?.minutes).toBe(110);
+    });
+
+    it('should not promise a table that is booked before the party would leave', () => {
+        const estimates = estimateQueueWaits([table('t1', 4, 0, 30)], [{ id: 'w1', partySize: 2 }], fixed(60), 10);
+        // Booked in 30 min for 60 min plus cleanup
+        expect(estimates.get('w1')?.minutes).toBe(100);
+
+        const tooBig = estimateQueueWaits([table('t1', 4)], [{ id: 'w2', partySize: 8 }], fixed(60), 10);
+        expect(tooBig.get('w2')?.minutes).toBeNull();
+    });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('../config/supabase.js', () => ({
+    supabase: { from: jest.fn() },
+    supabaseAdmin: { from: jest.fn(), rpc: jest.fn() }
+}));
+
+import {
+    FreeTable,
+    WaitingParty,
+    getActualWait,
+    getConfirmMinutes,
+    getMaxSkips,
+    matchTables,
+    rankCandidates,
+} from '../services/waitlistMatcher.js';
+
+const table = (tableId: string, capacity: number, zone: string | null = null, minutesUntilNextReservation: number | null = null): FreeTable => ({
+    tableId,
+    number: Number(tableId.replace(/\D/g, '')) || 1,
+    capacity,
+    zone,
+    minutesUntilNextReservation,
+});
+
+const party = (id: string, partySize: number, extra: Partial<WaitingParty> = {}): WaitingParty => ({
+    id,
+    party_size: partySize,
+    position: Number(id.replace(/\D/g, '')),
+    created_at: '2025-01-10T19:00:00Z',
+    ...extra,
+});
+
+const ninetyMinutes = () => 90;
+const ids = (entries: WaitingParty[]) => entries.map(entry => entry.id);
+
+describe('Waitlist Matcher', () => {
+    it('should offer the table to the first party that fits', () => {
+        const ranked = rankCandidates(table('t1', 4), [party('w1', 6), party('w2', 4), party('w3', 3)], ninetyMinutes);
+        expect(ids(ranked)).toEqual(['w2', 'w3']);
+    });
+
+    it('should put vip and priority parties first, then the preferred zone', () => {
+        const entries = [
+            party('w1', 2, { preferred_zone: 'terraza' }),
+            party('w2', 2),
+            party('w3', 2, { priority: 'priority' }),
+            party('w4', 2, { priority: 'vip' }),
+        ];
+        expect(ids(rankCandidates(table('t1', 2, 'salon'), entries, ninetyMinutes))).toEqual(['w4', 'w3', 'w2', 'w1']);
+    });
+
+    it('should keep big tables for groups and skip tables booked too soon', () => {
+        expect(ids(rankCandidates(table('t1', 8), [party('w1', 2), party('w2', 6)], ninetyMinutes))).toEqual(['w2']);
+        // Only small parties waiting: the big table still goes to them
+        expect(ids(rankCandidates(table('t1', 8), [party('w1', 2)], ninetyMinutes))).toEqual(['w1']);
+        expect(rankCandidates(table('t1', 4, null, 60), [party('w1', 2)], ninetyMinutes)).toEqual([]);
+    });
+
+    it('should give each party a single table, smaller tables first', () => {
+        const matches = matchTables([table('t6', 6), table('t2', 2)], [party('w1', 2), party('w2', 5), party('w3', 2)], ninetyMinutes);
+        expect(matches.map(match => [match.table.tableId, match.entry.id])).toEqual([['t2', 'w1'], ['t6', 'w2']]);
+    });
+
+    it('should read offer settings and measure the actual wait', () => {
+        expect(getConfirmMinutes({})).toBe(5);
+        expect(getConfirmMinutes({ waitlistConfirmMinutes: 10 })).toBe(10);
+        expect(getMaxSkips({ waitlistMaxSkips: 0 })).toBe(2);
+        expect(getActualWait('2025-01-10T19:00:00Z', new Date('2025-01-10T19:42:20Z'))).toBe(42);
+    });
+});
@@ -24,6 +24,9 @@ export interface Database {
                     phone: string | null;
                     avatar_url: string | null;
                     role: 'customer' | 'restaurant_admin' | 'restaurant_staff' | 'super_admin';
+                    dietary_restrictions: ('vegetarian' | 'vegan' | 'gluten_free')[];
+                    allergies: string[];
+                    max_spice_level: number | null;
                     created_at: string;
                     updated_at: string | null;
                 };
@@ -34,6 +37,9 @@ export interface Database {
                     phone?: string | null;
                     avatar_url?: string | null;
                     role?: 'customer' | 'restaurant_admin' | 'restaurant_staff' | 'super_admin';
+                    dietary_restrictions?: ('vegetarian' | 'vegan' | 'gluten_free')[];
+                    allergies?: string[];
+                    max_spice_level?: number | null;
                     created_at?: string;
                     updated_at?: string | null;
                 };
@@ -44,6 +50,9 @@ export interface Database {
                     phone?: string | null;
                     avatar_url?: string | null;
                     role?: 'customer' | 'restaurant_admin' | 'restaurant_staff' | 'super_admin';
+                    dietary_restrictions?: ('vegetarian' | 'vegan' | 'gluten_free')[];
+                    allergies?: string[];
+                    max_spice_level?: number | null;
                     created_at?: string;
                     updated_at?: string | null;
                 };
@@ -160,6 +169,8 @@ export interface Database {
                     status: 'pending' | 'confirmed' | 'arrived' | 'completed' | 'cancelled' | 'no_show';
                     occasion: string | null;
                     special_request: string | null;
+                    dietary_restrictions: ('vegetarian' | 'vegan' | 'gluten_free')[];
+                    allergies: string[];
                     deposit_amount: number | null;
                     deposit_paid: boolean;
                     qr_code: string;
@@ -177,6 +188,8 @@ export interface Database {
                     status?: 'pending' | 'confirmed' | 'arrived' | 'completed' | 'cancelled' | 'no_show';
                     occasion?: string | null;
                     special_request?: string | null;
+                    dietary_restrictions?: ('vegetarian' | 'vegan' | 'gluten_free')[];
+                    allergies?: string[];
                     deposit_amount?: number | null;
                     deposit_paid?: boolean;
                     qr_code?: string;
@@ -194,6 +207,8 @@ export interface Database {
                     status?: 'pending' | 'confirmed' | 'arrived' | 'completed' | 'cancelled' | 'no_show';
                     occasion?: string | null;
                     special_request?: string | null;
+                    dietary_restrictions?: ('vegetarian' | 'vegan' | 'gluten_free')[];
+                    allergies?: string[];
                     deposit_amount?: number | null;
                     deposit_paid?: boolean;
                     qr_code?: string;
@@ -207,7 +222,7 @@ export interface Database {
                     restaurant_id: string;
                     title: string;
                     description: string | null;
-                    discount_type: 'percentage' | 'fixed' | 'bogo' | 'special';
+                    discount_type: 'percentage' | 'fixed' | 'bogo' | 'special' | 'combo';
                     discount_value: string;
                     valid_from: string | null;
                     valid_until: string;
@@ -222,7 +237,7 @@ export interface Database {
                     restaurant_id: string;
                     title: string;
                     description?: string | null;
-                    discount_type?: 'percentage' | 'fixed' | 'bogo' | 'special';
+                    discount_type?: 'percentage' | 'fixed' | 'bogo' | 'special' | 'combo';
                     discount_value: string;
                     valid_from?: string | null;
                     valid_until: string;
@@ -237,7 +252,7 @@ export interface Database {
                     restaurant_id?: string;
                     title?: string;
                     description?: string | null;
-                    discount_type?: 'percentage' | 'fixed' | 'bogo' | 'special';
+                    discount_type?: 'percentage' | 'fixed' | 'bogo' | 'special' | 'combo';
                     discount_value?: string;
                     valid_from?: string | null;
                     valid_until?: string;
@@ -353,6 +368,8 @@ export interface Database {
                     description: string | null;
                     price: number;
                     category: string;
+                    subcategory: string | null;
+                    category_id: string | null;
                     image_url: string | null;
                     is_highlighted: boolean;
                     is_available: boolean;
@@ -365,6 +382,8 @@ export interface Database {
                     description?: string | null;
                     price: number;
                     category: string;
+                    subcategory?: string | null;
+                    category_id?: string | null;
                     image_url?: string | null;
                     is_highlighted?: boolean;
                     is_available?: boolean;
@@ -377,6 +396,8 @@ export interface Database {
                     description?: string | null;
                     price?: number;
                     category?: string;
+                    subcategory?: string | null;
+                    category_id?: string | null;
                     image_url?: string | null;
                     is_highlighted?: boolean;
                     is_available?: boolean;
@@ -0,0 +1,92 @@
+-- ============================================
+-- Creación atómica de reservas
+-- Evita dobles reservas a nivel base de datos: cada reserva ocupa un rango
+-- de tiempo en su mesa y dos rangos activos no pueden traslaparse.
+-- ============================================
+
+-- Necesario para combinar igualdad (table_id) y traslape (tsrange) en un índice GiST
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+-- Minutos de limpieza después de la reserva (se copia de settings.bufferMinutes al crearla)
+ALTER TABLE public.reservations ADD COLUMN IF NOT EXISTS buffer_minutes INTEGER DEFAULT 0;
+
+-- Rango ocupado: [fecha+hora, fecha+hora_fin + buffer). Si end_time <= time la reserva termina al día siguiente.
+-- Reservas antiguas sin end_time ocupan 2 horas.
+ALTER TABLE public.reservations ADD COLUMN IF NOT EXISTS occupied_during TSRANGE
+    GENERATED ALWAYS AS (
+        tsrange(
+            date + time,
+            CASE
+                WHEN COALESCE(end_time, time + INTERVAL '2 hours') <= time
+                    THEN (date + 1) + COALESCE(end_time, time + INTERVAL '2 hours')
+                ELSE date + COALESCE(end_time, time + INTERVAL '2 hours')
+            END + make_interval(mins => COALESCE(buffer_minutes, 0))
+        )
+    ) STORED;
+
+-- IMPORTANTE: si existen reservas activas traslapadas esta restricción fallará;
+-- resolverlas (reasignar mesa o cancelar) antes de aplicar la migración.
+ALTER TABLE public.reservations DROP CONSTRAINT IF EXISTS reservations_no_table_overlap;
+ALTER TABLE public.reservations ADD CONSTRAINT reservations_no_table_overlap
+    EXCLUDE USING gist (table_id WITH =, occupied_during WITH &&)
+    WHERE (table_id IS NOT NULL AND status NOT IN ('cancelled', 'no_show'));
+
+-- Un mismo PaymentIntent no puede confirmar dos reservas
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reservations_payment_intent
+    ON public.reservations(payment_intent_id)
+    WHERE payment_intent_id IS NOT NULL;
+
+-- ============================================
+-- RPC: create_reservation_atomic
+-- Inserta la reserva en una sola transacción. Si la mesa ya está ocupada en ese
+-- rango se lanza exclusion_violation (23P01) y el backend responde 409.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.create_reservation_atomic(
+    p_restaurant_id UUID,
+    p_user_id UUID,
+    p_table_id UUID,
+    p_date DATE,
+    p_time TIME,
+    p_end_time TIME,
+    p_buffer_minutes INTEGER,
+    p_guest_count INTEGER,
+    p_occasion VARCHAR,
+    p_special_request TEXT,
+    p_status VARCHAR,
+    p_deposit_paid BOOLEAN,
+    p_deposit_amount NUMERIC,
+    p_payment_intent_id VARCHAR,
+    p_qr_code VARCHAR
+)
+RETURNS public.reservations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_reservation public.reservations;
+BEGIN
+    -- Serializa reservas simultáneas de la misma mesa y día para que el segundo
+    -- intento vea la fila del primero en lugar de esperar al índice
+    PERFORM pg_advisory_xact_lock(hashtextextended(COALESCE(p_table_id::text, '') || p_date::text, 0));
+
+    INSERT INTO public.reservations (
+        restaurant_id, user_id, table_id, date, time, end_time, buffer_minutes,
+        guest_count, occasion, special_request, status,
+        deposit_paid, deposit_amount, deposit_paid_at, payment_intent_id,
+        qr_code, created_at
+    ) VALUES (
+        p_restaurant_id, p_user_id, p_table_id, p_date, p_time, p_end_time, COALESCE(p_buffer_minutes, 0),
+        p_guest_count, p_occasion, p_special_request, COALESCE(p_status, 'pending'),
+        COALESCE(p_deposit_paid, false), COALESCE(p_deposit_amount, 0),
+        CASE WHEN p_deposit_paid THEN NOW() ELSE NULL END, p_payment_intent_id,
+        p_qr_code, NOW()
+    )
+    RETURNING * INTO v_reservation;
+
+    RETURN v_reservation;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.create_reservation_atomic FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_reservation_atomic TO service_role;
@@ -0,0 +1,104 @@
+-- ============================================
+-- Combinación de mesas para grupos grandes
+-- Grupos de mesas adyacentes (definidos en el plano) que pueden unirse en una sola reserva.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.table_combinations (
+    id UUID NOT NULL DEFAULT uuid_generate_v4(),
+    restaurant_id UUID NOT NULL,
+    name VARCHAR,
+    table_ids UUID[] NOT NULL CHECK (array_length(table_ids, 1) >= 2),
+    -- Capacidad de la combinación; si es NULL se usa la suma de las mesas
+    capacity INTEGER CHECK (capacity IS NULL OR capacity > 0),
+    min_capacity INTEGER DEFAULT 1,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT table_combinations_pkey PRIMARY KEY (id),
+    CONSTRAINT table_combinations_restaurant_id_fkey FOREIGN KEY (restaurant_id) REFERENCES public.restaurants(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_table_combinations_restaurant ON public.table_combinations(restaurant_id);
+
+-- Mesas adicionales ocupadas por una reserva combinada (table_id sigue siendo la mesa principal)
+ALTER TABLE public.reservations ADD COLUMN IF NOT EXISTS linked_table_ids UUID[] DEFAULT '{}';
+CREATE INDEX IF NOT EXISTS idx_reservations_linked_tables ON public.reservations USING gin (linked_table_ids);
+
+-- ============================================
+-- RPC: create_reservation_atomic (v2)
+-- La restricción de exclusión solo cubre table_id, así que el RPC bloquea cada mesa
+-- involucrada y verifica también las mesas enlazadas de otras reservas.
+-- ============================================
+DROP FUNCTION IF EXISTS public.create_reservation_atomic(
+    UUID, UUID, UUID, DATE, TIME, TIME, INTEGER, INTEGER, VARCHAR, TEXT, VARCHAR, BOOLEAN, NUMERIC, VARCHAR, VARCHAR
+);
+
+CREATE OR REPLACE FUNCTION public.create_reservation_atomic(
+    p_restaurant_id UUID,
+    p_user_id UUID,
+    p_table_id UUID,
+    p_date DATE,
+    p_time TIME,
+    p_end_time TIME,
+    p_buffer_minutes INTEGER,
+    p_guest_count INTEGER,
+    p_occasion VARCHAR,
+    p_special_request TEXT,
+    p_status VARCHAR,
+    p_deposit_paid BOOLEAN,
+    p_deposit_amount NUMERIC,
+    p_payment_intent_id VARCHAR,
+    p_qr_code VARCHAR,
+    p_linked_table_ids UUID[] DEFAULT '{}'
+)
+RETURNS public.reservations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_reservation public.reservations;
+    v_all_tables UUID[];
+    v_table UUID;
+    v_start TIMESTAMP;
+    v_end TIMESTAMP;
+BEGIN
+    v_all_tables := array_remove(ARRAY[p_table_id] || COALESCE(p_linked_table_ids, '{}'), NULL);
+
+    -- Bloqueo por mesa y día, en orden para evitar deadlocks entre reservas combinadas
+    FOR v_table IN SELECT DISTINCT t FROM unnest(v_all_tables) AS t ORDER BY t LOOP
+        PERFORM pg_advisory_xact_lock(hashtextextended(v_table::text || p_date::text, 0));
+    END LOOP;
+
+    v_start := p_date + p_time;
+    v_end := CASE WHEN p_end_time <= p_time THEN (p_date + 1) + p_end_time ELSE p_date + p_end_time END
+        + make_interval(mins => COALESCE(p_buffer_minutes, 0));
+
+    IF EXISTS (
+        SELECT 1 FROM public.reservations r
+        WHERE r.status NOT IN ('cancelled', 'no_show')
+          AND (r.table_id = ANY(v_all_tables) OR r.linked_table_ids && v_all_tables)
+          AND r.occupied_during && tsrange(v_start, v_end)
+    ) THEN
+        RAISE EXCEPTION 'Table already reserved for the requested period' USING ERRCODE = 'exclusion_violation';
+    END IF;
+
+    INSERT INTO public.reservations (
+        restaurant_id, user_id, table_id, linked_table_ids, date, time, end_time, buffer_minutes,
+        guest_count, occasion, special_request, status,
+        deposit_paid, deposit_amount, deposit_paid_at, payment_intent_id,
+        qr_code, created_at
+    ) VALUES (
+        p_restaurant_id, p_user_id, p_table_id, COALESCE(p_linked_table_ids, '{}'), p_date, p_time, p_end_time, COALESCE(p_buffer_minutes, 0),
+        p_guest_count, p_occasion, p_special_request, COALESCE(p_status, 'pending'),
+        COALESCE(p_deposit_paid, false), COALESCE(p_deposit_amount, 0),
+        CASE WHEN p_deposit_paid THEN NOW() ELSE NULL END, p_payment_intent_id,
+        p_qr_code, NOW()
+    )
+    RETURNING * INTO v_reservation;
+
+    RETURN v_reservation;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.create_reservation_atomic FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_reservation_atomic TO service_role;
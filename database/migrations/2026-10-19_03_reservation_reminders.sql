@@ -0,0 +1,77 @@
+-- ============================================
+-- Recordatorios automáticos de reservas
+-- ============================================
+
+-- Bloqueos de trabajos en segundo plano: evita que varias instancias del backend
+-- ejecuten el mismo job al mismo tiempo (lease con expiración).
+CREATE TABLE IF NOT EXISTS public.job_locks (
+    job_name VARCHAR NOT NULL,
+    locked_by VARCHAR NOT NULL,
+    locked_until TIMESTAMP WITH TIME ZONE NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT job_locks_pkey PRIMARY KEY (job_name)
+);
+
+-- Devuelve true si p_holder obtuvo (o renovó) el bloqueo
+CREATE OR REPLACE FUNCTION public.acquire_job_lock(p_job_name VARCHAR, p_holder VARCHAR, p_ttl_seconds INTEGER)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_acquired BOOLEAN;
+BEGIN
+    INSERT INTO public.job_locks (job_name, locked_by, locked_until, updated_at)
+    VALUES (p_job_name, p_holder, NOW() + make_interval(secs => p_ttl_seconds), NOW())
+    ON CONFLICT (job_name) DO UPDATE
+        SET locked_by = EXCLUDED.locked_by,
+            locked_until = EXCLUDED.locked_until,
+            updated_at = NOW()
+        WHERE public.job_locks.locked_until < NOW() OR public.job_locks.locked_by = EXCLUDED.locked_by
+    RETURNING true INTO v_acquired;
+
+    RETURN COALESCE(v_acquired, false);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.release_job_lock(p_job_name VARCHAR, p_holder VARCHAR)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    DELETE FROM public.job_locks WHERE job_name = p_job_name AND locked_by = p_holder;
+$$;
+
+REVOKE ALL ON FUNCTION public.acquire_job_lock FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.release_job_lock FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.acquire_job_lock TO service_role;
+GRANT EXECUTE ON FUNCTION public.release_job_lock TO service_role;
+
+-- Registro de recordatorios enviados; la restricción única evita duplicados
+CREATE TABLE IF NOT EXISTS public.reservation_reminders (
+    id UUID NOT NULL DEFAULT uuid_generate_v4(),
+    reservation_id UUID NOT NULL,
+    offset_hours INTEGER NOT NULL,
+    status VARCHAR NOT NULL DEFAULT 'sent' CHECK (status IN ('sent', 'skipped', 'failed')),
+    email_sent BOOLEAN DEFAULT false,
+    -- Token de un solo uso para confirmar/cancelar desde el enlace del recordatorio
+    action_token VARCHAR UNIQUE,
+    action_taken VARCHAR CHECK (action_taken IN ('confirmed', 'cancelled')),
+    action_taken_at TIMESTAMP WITH TIME ZONE,
+    sent_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT reservation_reminders_pkey PRIMARY KEY (id),
+    CONSTRAINT reservation_reminders_reservation_id_fkey FOREIGN KEY (reservation_id) REFERENCES public.reservations(id) ON DELETE CASCADE,
+    CONSTRAINT reservation_reminders_unique_offset UNIQUE (reservation_id, offset_hours)
+);
+
+-- El invitado confirmó su asistencia desde el recordatorio
+ALTER TABLE public.reservations ADD COLUMN IF NOT EXISTS guest_confirmed_at TIMESTAMP WITH TIME ZONE;
+
+-- Kill-switch global (se puede desactivar por restaurante en feature_flags)
+INSERT INTO public.feature_flags (restaurant_id, key, is_enabled, description)
+SELECT NULL, 'reservation_reminders', true, 'Envío automático de recordatorios según settings.reminderHours'
+WHERE NOT EXISTS (
+    SELECT 1 FROM public.feature_flags WHERE restaurant_id IS NULL AND key = 'reservation_reminders'
+);
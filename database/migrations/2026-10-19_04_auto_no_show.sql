@@ -0,0 +1,20 @@
+-- ============================================
+-- Detección automática de no-shows
+-- ============================================
+
+-- Penalización retenida del depósito y monto devuelto al marcar no-show
+ALTER TABLE public.reservations ADD COLUMN IF NOT EXISTS no_show_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.reservations ADD COLUMN IF NOT EXISTS no_show_penalty_amount NUMERIC DEFAULT 0;
+ALTER TABLE public.reservations ADD COLUMN IF NOT EXISTS no_show_refund_amount NUMERIC DEFAULT 0;
+
+-- El job recorre reservas activas recientes por fecha
+CREATE INDEX IF NOT EXISTS reservations_active_date_idx
+    ON public.reservations (date)
+    WHERE status IN ('pending', 'confirmed');
+
+-- Kill-switch global (se puede desactivar por restaurante en feature_flags)
+INSERT INTO public.feature_flags (restaurant_id, key, is_enabled, description)
+SELECT NULL, 'auto_no_show', true, 'Marca no-show tras settings.noShowGraceMinutes sin llegada del invitado'
+WHERE NOT EXISTS (
+    SELECT 1 FROM public.feature_flags WHERE restaurant_id IS NULL AND key = 'auto_no_show'
+);
@@ -0,0 +1,65 @@
+-- ============================================
+-- Confiabilidad de invitados y lista de bloqueo por restaurante
+-- ============================================
+
+-- Quién canceló: solo las cancelaciones del invitado cuentan en su confiabilidad
+ALTER TABLE public.reservations ADD COLUMN IF NOT EXISTS cancelled_by VARCHAR
+    CHECK (cancelled_by IN ('guest', 'restaurant', 'system'));
+
+-- Restricciones de un restaurante sobre un invitado concreto
+CREATE TABLE IF NOT EXISTS public.guest_restrictions (
+    id UUID NOT NULL DEFAULT uuid_generate_v4(),
+    restaurant_id UUID NOT NULL,
+    user_id UUID NOT NULL,
+    -- blocked: no puede reservar; deposit_required: siempre debe pagar depósito
+    restriction VARCHAR NOT NULL CHECK (restriction IN ('blocked', 'deposit_required')),
+    reason TEXT,
+    created_by UUID,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE,
+    CONSTRAINT guest_restrictions_pkey PRIMARY KEY (id),
+    CONSTRAINT guest_restrictions_restaurant_id_fkey FOREIGN KEY (restaurant_id) REFERENCES public.restaurants(id) ON DELETE CASCADE,
+    CONSTRAINT guest_restrictions_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.users(id) ON DELETE CASCADE,
+    CONSTRAINT guest_restrictions_unique_guest UNIQUE (restaurant_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS reservations_user_id_idx ON public.reservations (user_id);
+
+-- Historial agregado de cada invitado en todos los restaurantes.
+-- Cancelación tardía: hecha por el invitado a menos de p_late_cancel_hours de la reserva.
+-- Reservas antiguas sin cancelled_by: el panel admin siempre guardaba cancelled_at, el invitado no.
+CREATE OR REPLACE FUNCTION public.get_guest_reliability(p_user_ids UUID[], p_late_cancel_hours INTEGER DEFAULT 24)
+RETURNS TABLE (
+    user_id UUID,
+    total_reservations BIGINT,
+    completed BIGINT,
+    no_shows BIGINT,
+    cancellations BIGINT,
+    late_cancellations BIGINT,
+    last_no_show_date DATE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        r.user_id,
+        COUNT(*),
+        COUNT(*) FILTER (WHERE r.status = 'completed'),
+        COUNT(*) FILTER (WHERE r.status = 'no_show'),
+        COUNT(*) FILTER (WHERE r.status = 'cancelled'),
+        COUNT(*) FILTER (
+            WHERE r.status = 'cancelled'
+              AND COALESCE(r.cancelled_by, CASE WHEN r.cancelled_at IS NULL THEN 'guest' ELSE 'restaurant' END) = 'guest'
+              AND COALESCE(r.cancelled_at, r.updated_at) > (r.date + r.time) - make_interval(hours => p_late_cancel_hours)
+        ),
+        MAX(r.date) FILTER (WHERE r.status = 'no_show')
+    FROM public.reservations r
+    WHERE r.user_id = ANY(p_user_ids)
+    GROUP BY r.user_id;
+$$;
+
+-- Historial de otros usuarios: solo el backend (service_role) puede consultarlo
+REVOKE ALL ON FUNCTION public.get_guest_reliability(UUID[], INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_guest_reliability(UUID[], INTEGER) TO service_role;
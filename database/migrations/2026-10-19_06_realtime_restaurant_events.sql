@@ -0,0 +1,36 @@
+-- ============================================
+-- Eventos en tiempo real para pantallas de admin y staff
+-- ============================================
+
+-- El backend escucha los cambios de estas tablas (Supabase Realtime) y los reenvía
+-- por SSE a las pantallas del restaurante. REPLICA IDENTITY FULL incluye la fila
+-- anterior en los UPDATE, necesaria para detectar transiciones de estado.
+ALTER TABLE public.reservations REPLICA IDENTITY FULL;
+ALTER TABLE public.tables REPLICA IDENTITY FULL;
+ALTER TABLE public.waitlist REPLICA IDENTITY FULL;
+
+DO $$
+DECLARE
+    v_table TEXT;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+        CREATE PUBLICATION supabase_realtime;
+    END IF;
+
+    FOREACH v_table IN ARRAY ARRAY['reservations', 'tables', 'waitlist'] LOOP
+        IF NOT EXISTS (
+            SELECT 1 FROM pg_publication_tables
+            WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = v_table
+        ) THEN
+            EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', v_table);
+        END IF;
+    END LOOP;
+END;
+$$;
+
+-- Kill-switch global del canal en tiempo real
+INSERT INTO public.feature_flags (restaurant_id, key, is_enabled, description)
+SELECT NULL, 'realtime_events', true, 'Envío de cambios de mesas, reservas y lista de espera por SSE'
+WHERE NOT EXISTS (
+    SELECT 1 FROM public.feature_flags WHERE restaurant_id IS NULL AND key = 'realtime_events'
+);
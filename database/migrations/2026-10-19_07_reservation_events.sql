@@ -0,0 +1,29 @@
+-- ============================================
+-- Ciclo de vida de reservas e historial de transiciones
+-- ============================================
+
+ALTER TABLE public.reservations ADD COLUMN IF NOT EXISTS confirmed_at TIMESTAMP WITH TIME ZONE;
+
+-- Una fila por cada cambio de estado (y por la creación, con from_status NULL)
+CREATE TABLE IF NOT EXISTS public.reservation_events (
+    id UUID NOT NULL DEFAULT uuid_generate_v4(),
+    reservation_id UUID NOT NULL,
+    restaurant_id UUID NOT NULL,
+    from_status VARCHAR,
+    to_status VARCHAR NOT NULL,
+    -- guest: el invitado; staff: personal/admin del restaurante; system: jobs automáticos
+    actor_type VARCHAR NOT NULL CHECK (actor_type IN ('guest', 'staff', 'system')),
+    actor_id UUID,
+    -- Punto de entrada que originó el cambio (p. ej. admin.checkin, staff.arrive, verify_qr)
+    source VARCHAR NOT NULL,
+    reason TEXT,
+    metadata JSONB DEFAULT '{}'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT reservation_events_pkey PRIMARY KEY (id),
+    CONSTRAINT reservation_events_reservation_id_fkey FOREIGN KEY (reservation_id) REFERENCES public.reservations(id) ON DELETE CASCADE,
+    CONSTRAINT reservation_events_restaurant_id_fkey FOREIGN KEY (restaurant_id) REFERENCES public.restaurants(id) ON DELETE CASCADE,
+    CONSTRAINT reservation_events_actor_id_fkey FOREIGN KEY (actor_id) REFERENCES public.users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS reservation_events_reservation_idx
+    ON public.reservation_events (reservation_id, created_at);
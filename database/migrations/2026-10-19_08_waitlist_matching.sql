@@ -0,0 +1,30 @@
+-- ============================================
+-- Asignación automática de mesas a la lista de espera
+-- ============================================
+
+-- Oferta vigente: mesa propuesta y hasta cuándo puede confirmarla el invitado
+ALTER TABLE public.waitlist ADD COLUMN IF NOT EXISTS offered_table_id UUID REFERENCES public.tables(id) ON DELETE SET NULL;
+ALTER TABLE public.waitlist ADD COLUMN IF NOT EXISTS offer_expires_at TIMESTAMP WITH TIME ZONE;
+-- Veces que dejó vencer una oferta; al llegar a settings.waitlistMaxSkips sale de la lista
+ALTER TABLE public.waitlist ADD COLUMN IF NOT EXISTS skipped_count INTEGER NOT NULL DEFAULT 0;
+-- Token del enlace "confirmar / rechazar" enviado por correo
+ALTER TABLE public.waitlist ADD COLUMN IF NOT EXISTS action_token VARCHAR UNIQUE;
+
+-- El job busca ofertas vencidas
+CREATE INDEX IF NOT EXISTS waitlist_offer_expires_idx
+    ON public.waitlist (offer_expires_at)
+    WHERE status = 'notified';
+
+-- Nuevo tipo de notificación "tu mesa está lista"
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check CHECK (type::text = ANY (ARRAY[
+    'reservation_confirmed', 'reservation_reminder', 'reservation_cancelled',
+    'review_request', 'offer', 'system', 'waitlist_table_ready'
+]::text[]));
+
+-- Kill-switch global (se puede desactivar por restaurante en feature_flags)
+INSERT INTO public.feature_flags (restaurant_id, key, is_enabled, description)
+SELECT NULL, 'waitlist_auto_match', true, 'Ofrece automáticamente las mesas libres a la lista de espera'
+WHERE NOT EXISTS (
+    SELECT 1 FROM public.feature_flags WHERE restaurant_id IS NULL AND key = 'waitlist_auto_match'
+);
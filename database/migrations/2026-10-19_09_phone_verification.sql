@@ -0,0 +1,11 @@
+-- ============================================
+-- Verificación de teléfono por SMS (lista de espera desde la puerta)
+-- ============================================
+
+-- Un código puede ser para un correo o para un teléfono
+ALTER TABLE public.verification_codes ALTER COLUMN email DROP NOT NULL;
+ALTER TABLE public.verification_codes ADD COLUMN IF NOT EXISTS phone VARCHAR UNIQUE;
+
+ALTER TABLE public.verification_codes DROP CONSTRAINT IF EXISTS verification_codes_target_check;
+ALTER TABLE public.verification_codes ADD CONSTRAINT verification_codes_target_check
+    CHECK (email IS NOT NULL OR phone IS NOT NULL);
@@ -0,0 +1,46 @@
+-- ============================================
+-- Ciclo de vida del anticipo (Stripe) y webhooks idempotentes
+-- ============================================
+
+-- Estado del anticipo, independiente del estado de la reserva
+ALTER TABLE public.reservations ADD COLUMN IF NOT EXISTS deposit_status VARCHAR NOT NULL DEFAULT 'none';
+ALTER TABLE public.reservations DROP CONSTRAINT IF EXISTS reservations_deposit_status_check;
+ALTER TABLE public.reservations ADD CONSTRAINT reservations_deposit_status_check CHECK (deposit_status IN (
+    'none', 'awaiting_payment', 'paid', 'failed', 'expired',
+    'refunded', 'partially_refunded', 'disputed', 'dispute_lost'
+));
+
+-- Límite para pagar el anticipo; al vencer, la reserva pendiente se cancela y la mesa se libera
+ALTER TABLE public.reservations ADD COLUMN IF NOT EXISTS deposit_due_at TIMESTAMP WITH TIME ZONE;
+
+-- Reservas existentes con anticipo pagado
+UPDATE public.reservations SET deposit_status = 'paid' WHERE deposit_paid = true AND deposit_status = 'none';
+
+CREATE INDEX IF NOT EXISTS idx_reservations_deposit_due
+    ON public.reservations (deposit_due_at)
+    WHERE deposit_status = 'awaiting_payment';
+
+-- Eventos recibidos de Stripe: el id del evento hace que los reintentos no se procesen dos veces
+CREATE TABLE IF NOT EXISTS public.payment_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    provider VARCHAR NOT NULL DEFAULT 'stripe',
+    provider_event_id VARCHAR NOT NULL,
+    type VARCHAR NOT NULL,
+    payment_intent_id VARCHAR,
+    reservation_id UUID REFERENCES public.reservations(id) ON DELETE SET NULL,
+    status VARCHAR NOT NULL DEFAULT 'received' CHECK (status IN ('received', 'processed', 'ignored', 'failed')),
+    error TEXT,
+    payload JSONB NOT NULL,
+    received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    processed_at TIMESTAMP WITH TIME ZONE,
+    CONSTRAINT payment_events_provider_event_key UNIQUE (provider, provider_event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_events_payment_intent ON public.payment_events (payment_intent_id);
+
+-- Kill-switch global de la expiración automática (se puede desactivar por restaurante)
+INSERT INTO public.feature_flags (restaurant_id, key, is_enabled, description)
+SELECT NULL, 'deposit_expiry', true, 'Cancela las reservas pendientes cuyo anticipo no se pagó a tiempo'
+WHERE NOT EXISTS (
+    SELECT 1 FROM public.feature_flags WHERE restaurant_id IS NULL AND key = 'deposit_expiry'
+);
@@ -0,0 +1,21 @@
+-- ============================================
+-- Política de cancelación: reembolso parcial del anticipo según la anticipación
+-- ============================================
+
+-- Resultado de aplicar la política (settings.cancellationPolicy) al cancelar
+ALTER TABLE public.reservations ADD COLUMN IF NOT EXISTS cancellation_refund_percent NUMERIC;
+ALTER TABLE public.reservations ADD COLUMN IF NOT EXISTS cancellation_refund_amount NUMERIC;
+-- Parte del anticipo que conserva el restaurante
+ALTER TABLE public.reservations ADD COLUMN IF NOT EXISTS cancellation_fee_amount NUMERIC;
+
+-- Estado del reembolso emitido en Stripe contra el payment_intent_id de la reserva
+ALTER TABLE public.reservations ADD COLUMN IF NOT EXISTS cancellation_refund_status VARCHAR;
+ALTER TABLE public.reservations DROP CONSTRAINT IF EXISTS reservations_cancellation_refund_status_check;
+ALTER TABLE public.reservations ADD CONSTRAINT reservations_cancellation_refund_status_check CHECK (
+    cancellation_refund_status IS NULL OR cancellation_refund_status IN ('none', 'pending', 'succeeded', 'failed')
+);
+
+-- Reembolsos que fallaron y el restaurante debe reintentar
+CREATE INDEX IF NOT EXISTS idx_reservations_cancellation_refund_failed
+    ON public.reservations (restaurant_id)
+    WHERE cancellation_refund_status = 'failed';
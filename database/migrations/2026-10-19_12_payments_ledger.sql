@@ -0,0 +1,60 @@
+-- ============================================
+-- Libro de pagos: movimientos reales de dinero (Stripe) por restaurante y reserva
+-- ============================================
+
+-- Un renglón por movimiento: cobro, reembolso, comisión o disputa.
+-- amount lleva signo (MXN): entradas positivas, salidas negativas.
+CREATE TABLE IF NOT EXISTS public.payments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    restaurant_id UUID REFERENCES public.restaurants(id) ON DELETE CASCADE,
+    reservation_id UUID REFERENCES public.reservations(id) ON DELETE SET NULL,
+    provider VARCHAR NOT NULL DEFAULT 'stripe',
+    type VARCHAR NOT NULL CHECK (type IN ('charge', 'refund', 'fee', 'dispute', 'dispute_reversal')),
+    amount NUMERIC NOT NULL,
+    currency VARCHAR NOT NULL DEFAULT 'mxn',
+    -- Objeto del proveedor que originó el movimiento (ch_, re_, txn_...); evita registrarlo dos veces
+    provider_object_id VARCHAR NOT NULL,
+    payment_intent_id VARCHAR,
+    provider_event_id VARCHAR,
+    description TEXT,
+    occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT payments_provider_object_key UNIQUE (provider, type, provider_object_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payments_restaurant_occurred ON public.payments (restaurant_id, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_payments_reservation ON public.payments (reservation_id);
+CREATE INDEX IF NOT EXISTS idx_payments_payment_intent ON public.payments (payment_intent_id);
+
+-- Anticipos cobrados antes del libro: se registran con el PaymentIntent como referencia
+-- (sin comisión, que solo conoce Stripe) para que la conciliación no los marque como faltantes
+INSERT INTO public.payments (
+    restaurant_id, reservation_id, provider, type, amount, provider_object_id, payment_intent_id, description, occurred_at
+)
+SELECT
+    r.restaurant_id, r.id, 'stripe', 'charge', r.deposit_amount, r.payment_intent_id, r.payment_intent_id,
+    'Anticipo registrado antes del libro de pagos', COALESCE(r.deposit_paid_at, r.created_at)
+FROM public.reservations r
+WHERE r.payment_intent_id IS NOT NULL
+  AND r.deposit_amount > 0
+  AND r.deposit_status IN ('paid', 'refunded', 'partially_refunded', 'disputed', 'dispute_lost')
+ON CONFLICT (provider, type, provider_object_id) DO NOTHING;
+
+-- Reembolsos de esos anticipos (el parcial, según lo que registró la cancelación o el no-show)
+INSERT INTO public.payments (
+    restaurant_id, reservation_id, provider, type, amount, provider_object_id, payment_intent_id, description, occurred_at
+)
+SELECT
+    r.restaurant_id, r.id, 'stripe', 'refund',
+    -CASE WHEN r.deposit_status = 'refunded' THEN r.deposit_amount
+          ELSE COALESCE(NULLIF(r.cancellation_refund_amount, 0), r.no_show_refund_amount) END,
+    r.payment_intent_id, r.payment_intent_id,
+    'Reembolso registrado antes del libro de pagos', COALESCE(r.cancelled_at, r.updated_at, r.created_at)
+FROM public.reservations r
+WHERE r.payment_intent_id IS NOT NULL
+  AND r.deposit_amount > 0
+  AND (
+      r.deposit_status = 'refunded'
+      OR (r.deposit_status = 'partially_refunded' AND COALESCE(NULLIF(r.cancellation_refund_amount, 0), r.no_show_refund_amount) > 0)
+  )
+ON CONFLICT (provider, type, provider_object_id) DO NOTHING;
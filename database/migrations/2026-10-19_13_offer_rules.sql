@@ -0,0 +1,110 @@
+-- ============================================
+-- Reglas de ofertas: límites por usuario y por día, primera visita,
+-- segmentos de lealtad y combinación con otras ofertas
+-- ============================================
+
+-- NULL en un límite significa "sin límite"
+ALTER TABLE public.offers ADD COLUMN IF NOT EXISTS max_uses_per_user INTEGER DEFAULT 1;
+ALTER TABLE public.offers ADD COLUMN IF NOT EXISTS max_uses_per_day INTEGER;
+ALTER TABLE public.offers ADD COLUMN IF NOT EXISTS first_visit_only BOOLEAN DEFAULT false;
+-- Segmentos de /api/user/growth-perks ('Nuevo Foodie', 'Foodie Activo', 'Gourmet Pro', 'Platinum VIP'); NULL = todos
+ALTER TABLE public.offers ADD COLUMN IF NOT EXISTS allowed_segments TEXT[];
+-- Solo se combinan en una reserva ofertas que lo permiten las dos
+ALTER TABLE public.offers ADD COLUMN IF NOT EXISTS stackable BOOLEAN DEFAULT false;
+
+ALTER TABLE public.offers DROP CONSTRAINT IF EXISTS offers_rule_limits_check;
+ALTER TABLE public.offers ADD CONSTRAINT offers_rule_limits_check CHECK (
+    (max_uses_per_user IS NULL OR max_uses_per_user > 0)
+    AND (max_uses_per_day IS NULL OR max_uses_per_day > 0)
+);
+
+-- El límite diario cuenta por la fecha de la reserva, no por el momento del canje
+ALTER TABLE public.offer_redemptions ADD COLUMN IF NOT EXISTS reservation_date DATE;
+
+UPDATE public.offer_redemptions r
+SET reservation_date = res.date
+FROM public.reservations res
+WHERE r.reservation_id = res.id AND r.reservation_date IS NULL;
+
+UPDATE public.offer_redemptions
+SET reservation_date = created_at::date
+WHERE reservation_date IS NULL;
+
+-- Una oferta se canjea una sola vez por reserva
+CREATE UNIQUE INDEX IF NOT EXISTS idx_offer_redemptions_offer_reservation
+    ON public.offer_redemptions (offer_id, reservation_id)
+    WHERE reservation_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_offer_redemptions_offer_user ON public.offer_redemptions (offer_id, user_id);
+CREATE INDEX IF NOT EXISTS idx_offer_redemptions_offer_date ON public.offer_redemptions (offer_id, reservation_date);
+
+-- ============================================
+-- RPC: redeem_offer_atomic
+-- Vuelve a revisar los límites con la oferta bloqueada y registra el canje en la misma
+-- transacción, para que dos canjes simultáneos no rebasen ningún límite.
+-- Devuelve 'REDEEMED' o el código de la regla que falló.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.redeem_offer_atomic(
+    p_offer_id UUID,
+    p_user_id UUID,
+    p_reservation_id UUID,
+    p_reservation_date DATE,
+    p_discount_applied NUMERIC
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_offer public.offers;
+BEGIN
+    -- Serializa los canjes de una misma reserva (reglas de combinación)
+    PERFORM pg_advisory_xact_lock(hashtextextended(p_reservation_id::text, 0));
+
+    SELECT * INTO v_offer FROM public.offers WHERE id = p_offer_id FOR UPDATE;
+
+    IF NOT FOUND OR NOT COALESCE(v_offer.is_active, false) THEN
+        RETURN 'NOT_ACTIVE';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.offer_redemptions WHERE offer_id = p_offer_id AND reservation_id = p_reservation_id) THEN
+        RETURN 'ALREADY_REDEEMED';
+    END IF;
+
+    IF v_offer.max_usage IS NOT NULL AND COALESCE(v_offer.usage_count, 0) >= v_offer.max_usage THEN
+        RETURN 'USAGE_LIMIT';
+    END IF;
+
+    IF v_offer.max_uses_per_user IS NOT NULL AND (
+        SELECT COUNT(*) FROM public.offer_redemptions WHERE offer_id = p_offer_id AND user_id = p_user_id
+    ) >= v_offer.max_uses_per_user THEN
+        RETURN 'USER_LIMIT';
+    END IF;
+
+    IF v_offer.max_uses_per_day IS NOT NULL AND (
+        SELECT COUNT(*) FROM public.offer_redemptions WHERE offer_id = p_offer_id AND reservation_date = p_reservation_date
+    ) >= v_offer.max_uses_per_day THEN
+        RETURN 'DAILY_LIMIT';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1
+        FROM public.offer_redemptions r
+        JOIN public.offers o ON o.id = r.offer_id
+        WHERE r.reservation_id = p_reservation_id
+          AND (NOT COALESCE(o.stackable, false) OR NOT COALESCE(v_offer.stackable, false))
+    ) THEN
+        RETURN 'NOT_STACKABLE';
+    END IF;
+
+    INSERT INTO public.offer_redemptions (offer_id, user_id, reservation_id, reservation_date, discount_applied)
+    VALUES (p_offer_id, p_user_id, p_reservation_id, p_reservation_date, COALESCE(p_discount_applied, 0));
+
+    UPDATE public.offers SET usage_count = COALESCE(usage_count, 0) + 1 WHERE id = p_offer_id;
+
+    RETURN 'REDEEMED';
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.redeem_offer_atomic FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.redeem_offer_atomic TO service_role;
@@ -0,0 +1,230 @@
+-- ============================================
+-- Códigos promocionales únicos de un solo uso
+-- Un restaurante genera lotes de códigos para una oferta (p. ej. 500 para una
+-- campaña de volantes). Cada código se canjea una sola vez y el canje queda en
+-- offer_redemptions.offer_code_id (quién, cuándo y en qué reserva).
+-- ============================================
+
+-- Con true la oferta solo se usa con uno de sus códigos únicos (se activa al generar el primer lote)
+ALTER TABLE public.offers ADD COLUMN IF NOT EXISTS code_required BOOLEAN DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS public.offer_code_batches (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    offer_id UUID NOT NULL REFERENCES public.offers(id) ON DELETE CASCADE,
+    name VARCHAR NOT NULL,
+    prefix VARCHAR,
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_offer_code_batches_offer ON public.offer_code_batches (offer_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.offer_codes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    offer_id UUID NOT NULL REFERENCES public.offers(id) ON DELETE CASCADE,
+    batch_id UUID NOT NULL REFERENCES public.offer_code_batches(id) ON DELETE CASCADE,
+    -- Siempre en mayúsculas
+    code VARCHAR NOT NULL,
+    status VARCHAR NOT NULL DEFAULT 'available' CHECK (status IN ('available', 'redeemed', 'revoked')),
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Únicos en toda la plataforma: el código basta para encontrar la oferta
+CREATE UNIQUE INDEX IF NOT EXISTS idx_offer_codes_code ON public.offer_codes (code);
+CREATE INDEX IF NOT EXISTS idx_offer_codes_offer_status ON public.offer_codes (offer_id, status);
+CREATE INDEX IF NOT EXISTS idx_offer_codes_batch ON public.offer_codes (batch_id);
+
+ALTER TABLE public.offer_redemptions ADD COLUMN IF NOT EXISTS offer_code_id UUID REFERENCES public.offer_codes(id);
+
+-- Un código, un canje
+CREATE UNIQUE INDEX IF NOT EXISTS idx_offer_redemptions_code
+    ON public.offer_redemptions (offer_code_id)
+    WHERE offer_code_id IS NOT NULL;
+
+-- ============================================
+-- RPC: redeem_offer_atomic (v2)
+-- Igual que v1 y, con p_offer_code_id, bloquea el código, verifica que sea de la
+-- oferta y siga disponible, y lo marca como canjeado en la misma transacción.
+-- Las ofertas con code_required no se canjean sin código.
+-- ============================================
+DROP FUNCTION IF EXISTS public.redeem_offer_atomic(UUID, UUID, UUID, DATE, NUMERIC);
+
+CREATE OR REPLACE FUNCTION public.redeem_offer_atomic(
+    p_offer_id UUID,
+    p_user_id UUID,
+    p_reservation_id UUID,
+    p_reservation_date DATE,
+    p_discount_applied NUMERIC,
+    p_offer_code_id UUID DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_offer public.offers;
+    v_code public.offer_codes;
+BEGIN
+    -- Serializa los canjes de una misma reserva (reglas de combinación)
+    PERFORM pg_advisory_xact_lock(hashtextextended(p_reservation_id::text, 0));
+
+    SELECT * INTO v_offer FROM public.offers WHERE id = p_offer_id FOR UPDATE;
+
+    IF NOT FOUND OR NOT COALESCE(v_offer.is_active, false) THEN
+        RETURN 'NOT_ACTIVE';
+    END IF;
+
+    IF p_offer_code_id IS NOT NULL THEN
+        SELECT * INTO v_code FROM public.offer_codes WHERE id = p_offer_code_id FOR UPDATE;
+
+        IF NOT FOUND OR v_code.offer_id <> p_offer_id THEN
+            RETURN 'NOT_FOUND';
+        END IF;
+        IF v_code.status = 'revoked' THEN
+            RETURN 'CODE_REVOKED';
+        END IF;
+        IF v_code.status <> 'available' THEN
+            RETURN 'CODE_REDEEMED';
+        END IF;
+    ELSIF COALESCE(v_offer.code_required, false) THEN
+        RETURN 'CODE_REQUIRED';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.offer_redemptions WHERE offer_id = p_offer_id AND reservation_id = p_reservation_id) THEN
+        RETURN 'ALREADY_REDEEMED';
+    END IF;
+
+    IF v_offer.max_usage IS NOT NULL AND COALESCE(v_offer.usage_count, 0) >= v_offer.max_usage THEN
+        RETURN 'USAGE_LIMIT';
+    END IF;
+
+    IF v_offer.max_uses_per_user IS NOT NULL AND (
+        SELECT COUNT(*) FROM public.offer_redemptions WHERE offer_id = p_offer_id AND user_id = p_user_id
+    ) >= v_offer.max_uses_per_user THEN
+        RETURN 'USER_LIMIT';
+    END IF;
+
+    IF v_offer.max_uses_per_day IS NOT NULL AND (
+        SELECT COUNT(*) FROM public.offer_redemptions WHERE offer_id = p_offer_id AND reservation_date = p_reservation_date
+    ) >= v_offer.max_uses_per_day THEN
+        RETURN 'DAILY_LIMIT';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1
+        FROM public.offer_redemptions r
+        JOIN public.offers o ON o.id = r.offer_id
+        WHERE r.reservation_id = p_reservation_id
+          AND (NOT COALESCE(o.stackable, false) OR NOT COALESCE(v_offer.stackable, false))
+    ) THEN
+        RETURN 'NOT_STACKABLE';
+    END IF;
+
+    INSERT INTO public.offer_redemptions (offer_id, user_id, reservation_id, reservation_date, discount_applied, offer_code_id)
+    VALUES (p_offer_id, p_user_id, p_reservation_id, p_reservation_date, COALESCE(p_discount_applied, 0), p_offer_code_id);
+
+    UPDATE public.offers SET usage_count = COALESCE(usage_count, 0) + 1 WHERE id = p_offer_id;
+
+    IF p_offer_code_id IS NOT NULL THEN
+        UPDATE public.offer_codes SET status = 'redeemed' WHERE id = p_offer_code_id;
+    END IF;
+
+    RETURN 'REDEEMED';
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.redeem_offer_atomic FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.redeem_offer_atomic TO service_role;
+
+-- ============================================
+-- RPC: create_reservation_atomic (v4)
+-- Igual que v3, pasando el código de un solo uso al canje de la oferta.
+-- ============================================
+DROP FUNCTION IF EXISTS public.create_reservation_atomic(
+    UUID, UUID, UUID, DATE, TIME, TIME, INTEGER, INTEGER, VARCHAR, TEXT, VARCHAR, BOOLEAN, NUMERIC, VARCHAR, VARCHAR, UUID[], UUID, NUMERIC
+);
+
+CREATE OR REPLACE FUNCTION public.create_reservation_atomic(
+    p_restaurant_id UUID,
+    p_user_id UUID,
+    p_table_id UUID,
+    p_date DATE,
+    p_time TIME,
+    p_end_time TIME,
+    p_buffer_minutes INTEGER,
+    p_guest_count INTEGER,
+    p_occasion VARCHAR,
+    p_special_request TEXT,
+    p_status VARCHAR,
+    p_deposit_paid BOOLEAN,
+    p_deposit_amount NUMERIC,
+    p_payment_intent_id VARCHAR,
+    p_qr_code VARCHAR,
+    p_linked_table_ids UUID[] DEFAULT '{}',
+    p_offer_id UUID DEFAULT NULL,
+    p_offer_discount NUMERIC DEFAULT 0,
+    p_offer_code_id UUID DEFAULT NULL
+)
+RETURNS public.reservations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_reservation public.reservations;
+    v_all_tables UUID[];
+    v_table UUID;
+    v_start TIMESTAMP;
+    v_end TIMESTAMP;
+    v_offer_result TEXT;
+BEGIN
+    v_all_tables := array_remove(ARRAY[p_table_id] || COALESCE(p_linked_table_ids, '{}'), NULL);
+
+    -- Bloqueo por mesa y día, en orden para evitar deadlocks entre reservas combinadas
+    FOR v_table IN SELECT DISTINCT t FROM unnest(v_all_tables) AS t ORDER BY t LOOP
+        PERFORM pg_advisory_xact_lock(hashtextextended(v_table::text || p_date::text, 0));
+    END LOOP;
+
+    v_start := p_date + p_time;
+    v_end := CASE WHEN p_end_time <= p_time THEN (p_date + 1) + p_end_time ELSE p_date + p_end_time END
+        + make_interval(mins => COALESCE(p_buffer_minutes, 0));
+
+    IF EXISTS (
+        SELECT 1 FROM public.reservations r
+        WHERE r.status NOT IN ('cancelled', 'no_show')
+          AND (r.table_id = ANY(v_all_tables) OR r.linked_table_ids && v_all_tables)
+          AND r.occupied_during && tsrange(v_start, v_end)
+    ) THEN
+        RAISE EXCEPTION 'Table already reserved for the requested period' USING ERRCODE = 'exclusion_violation';
+    END IF;
+
+    INSERT INTO public.reservations (
+        restaurant_id, user_id, table_id, linked_table_ids, date, time, end_time, buffer_minutes,
+        guest_count, occasion, special_request, status,
+        deposit_paid, deposit_amount, deposit_paid_at, payment_intent_id,
+        offer_id, offer_discount, qr_code, created_at
+    ) VALUES (
+        p_restaurant_id, p_user_id, p_table_id, COALESCE(p_linked_table_ids, '{}'), p_date, p_time, p_end_time, COALESCE(p_buffer_minutes, 0),
+        p_guest_count, p_occasion, p_special_request, COALESCE(p_status, 'pending'),
+        COALESCE(p_deposit_paid, false), COALESCE(p_deposit_amount, 0),
+        CASE WHEN p_deposit_paid THEN NOW() ELSE NULL END, p_payment_intent_id,
+        p_offer_id, CASE WHEN p_offer_id IS NULL THEN 0 ELSE COALESCE(p_offer_discount, 0) END, p_qr_code, NOW()
+    )
+    RETURNING * INTO v_reservation;
+
+    IF p_offer_id IS NOT NULL THEN
+        v_offer_result := public.redeem_offer_atomic(p_offer_id, p_user_id, v_reservation.id, p_date, p_offer_discount, p_offer_code_id);
+        IF v_offer_result <> 'REDEEMED' THEN
+            RAISE EXCEPTION 'offer_rejected:%', v_offer_result USING ERRCODE = 'check_violation';
+        END IF;
+    END IF;
+
+    RETURN v_reservation;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.create_reservation_atomic FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_reservation_atomic TO service_role;
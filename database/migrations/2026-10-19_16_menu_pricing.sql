@@ -0,0 +1,41 @@
+-- ============================================
+-- Precios por horario del menú y platillos de cada oferta
+-- Reglas tipo "happy hour": en ciertos días y horas un platillo o una categoría
+-- completa baja de precio. GET /api/restaurants/:id/menu devuelve el precio
+-- vigente a la hora consultada. Las ofertas pueden indicar qué platillos cubren
+-- (útil para combos y 2x1).
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.menu_pricing_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    restaurant_id UUID NOT NULL REFERENCES public.restaurants(id) ON DELETE CASCADE,
+    name VARCHAR NOT NULL,
+    -- Días en inglés ('monday'...); NULL = todos los días
+    valid_days TEXT[],
+    -- Ventana [start_time, end_time); si start_time > end_time cruza la medianoche
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    -- Exactamente uno: un platillo o una categoría (menu_items.category)
+    menu_item_id UUID REFERENCES public.menu_items(id) ON DELETE CASCADE,
+    category VARCHAR,
+    -- percentage: % de descuento; fixed: monto a restar; price: precio final
+    discount_type VARCHAR NOT NULL CHECK (discount_type IN ('percentage', 'fixed', 'price')),
+    discount_value NUMERIC NOT NULL CHECK (discount_value >= 0),
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE,
+    CONSTRAINT menu_pricing_rules_target CHECK (num_nonnulls(menu_item_id, category) = 1),
+    CONSTRAINT menu_pricing_rules_percentage CHECK (discount_type <> 'percentage' OR discount_value <= 100)
+);
+
+CREATE INDEX IF NOT EXISTS idx_menu_pricing_rules_restaurant ON public.menu_pricing_rules (restaurant_id, is_active);
+
+CREATE TABLE IF NOT EXISTS public.offer_menu_items (
+    offer_id UUID NOT NULL REFERENCES public.offers(id) ON DELETE CASCADE,
+    menu_item_id UUID NOT NULL REFERENCES public.menu_items(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (offer_id, menu_item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_offer_menu_items_item ON public.offer_menu_items (menu_item_id);
+
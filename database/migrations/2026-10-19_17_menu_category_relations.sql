@@ -0,0 +1,264 @@
+-- ============================================
+-- Relación real entre platillos y categorías del menú
+-- menu_items.category_id apunta a menu_categories y las categorías pueden tener
+-- subcategorías (un nivel, parent_id). Las columnas de texto category/subcategory
+-- se conservan como etiquetas para clientes anteriores y las mantienen al día los
+-- RPCs de este archivo: renombrar una categoría ya no deja platillos en "Otros".
+-- ============================================
+
+ALTER TABLE public.menu_categories
+    ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES public.menu_categories(id) ON DELETE CASCADE;
+
+ALTER TABLE public.menu_items
+    ADD COLUMN IF NOT EXISTS category_id UUID REFERENCES public.menu_categories(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_menu_categories_restaurant_parent ON public.menu_categories (restaurant_id, parent_id, sort_order);
+CREATE INDEX IF NOT EXISTS idx_menu_items_category ON public.menu_items (category_id, sort_order);
+
+-- ============================================
+-- Backfill desde los textos existentes
+-- ============================================
+
+-- 1. Categorías que solo existían como texto en menu_items
+INSERT INTO public.menu_categories (restaurant_id, name, sort_order, is_active)
+SELECT m.restaurant_id, m.category,
+       COALESCE((SELECT MAX(sort_order) FROM public.menu_categories c WHERE c.restaurant_id = m.restaurant_id), 0)
+           + ROW_NUMBER() OVER (PARTITION BY m.restaurant_id ORDER BY m.category),
+       true
+FROM (SELECT DISTINCT restaurant_id, category FROM public.menu_items WHERE category IS NOT NULL AND category <> '') m
+WHERE NOT EXISTS (
+    SELECT 1 FROM public.menu_categories c
+    WHERE c.restaurant_id = m.restaurant_id AND c.name = m.category AND c.parent_id IS NULL
+);
+
+-- 2. Subcategorías, como hijas de la categoría del platillo
+INSERT INTO public.menu_categories (restaurant_id, name, parent_id, sort_order, is_active)
+SELECT m.restaurant_id, m.subcategory, parent.id,
+       ROW_NUMBER() OVER (PARTITION BY parent.id ORDER BY m.subcategory),
+       true
+FROM (
+    SELECT DISTINCT restaurant_id, category, subcategory
+    FROM public.menu_items
+    WHERE subcategory IS NOT NULL AND subcategory <> '' AND subcategory <> category
+) m
+JOIN public.menu_categories parent
+  ON parent.restaurant_id = m.restaurant_id AND parent.name = m.category AND parent.parent_id IS NULL
+WHERE NOT EXISTS (
+    SELECT 1 FROM public.menu_categories c
+    WHERE c.parent_id = parent.id AND c.name = m.subcategory
+);
+
+-- 3. Cada platillo a su subcategoría o, si no tiene, a su categoría
+UPDATE public.menu_items i
+SET category_id = COALESCE(
+    (SELECT sub.id FROM public.menu_categories sub
+     JOIN public.menu_categories parent ON parent.id = sub.parent_id
+     WHERE parent.restaurant_id = i.restaurant_id AND parent.name = i.category AND sub.name = i.subcategory
+     LIMIT 1),
+    (SELECT c.id FROM public.menu_categories c
+     WHERE c.restaurant_id = i.restaurant_id AND c.name = i.category AND c.parent_id IS NULL
+     LIMIT 1)
+)
+WHERE i.category_id IS NULL;
+
+-- ============================================
+-- refresh_menu_item_labels (interna)
+-- Recalcula category/subcategory de los platillos de las categorías dadas (y de sus
+-- subcategorías) a partir de category_id.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.refresh_menu_item_labels(p_category_ids UUID[])
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    UPDATE public.menu_items i
+    SET category = COALESCE(parent.name, c.name),
+        subcategory = CASE WHEN c.parent_id IS NULL THEN NULL ELSE c.name END,
+        updated_at = NOW()
+    FROM public.menu_categories c
+    LEFT JOIN public.menu_categories parent ON parent.id = c.parent_id
+    WHERE i.category_id = c.id
+      AND (c.id = ANY(p_category_ids) OR c.parent_id = ANY(p_category_ids));
+$$;
+
+REVOKE ALL ON FUNCTION public.refresh_menu_item_labels FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- RPC: update_menu_category
+-- Renombra y/o mueve una categoría y actualiza en la misma transacción las etiquetas
+-- de sus platillos y las reglas de precio por horario que usaban el nombre anterior.
+-- p_change_parent distingue "sin cambio" de "convertir en categoría principal" (NULL).
+-- ============================================
+CREATE OR REPLACE FUNCTION public.update_menu_category(
+    p_category_id UUID,
+    p_name VARCHAR DEFAULT NULL,
+    p_change_parent BOOLEAN DEFAULT false,
+    p_parent_id UUID DEFAULT NULL
+)
+RETURNS public.menu_categories
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_category public.menu_categories;
+    v_parent public.menu_categories;
+BEGIN
+    SELECT * INTO v_category FROM public.menu_categories WHERE id = p_category_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'menu_category_not_found' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF p_change_parent AND p_parent_id IS NOT NULL THEN
+        SELECT * INTO v_parent FROM public.menu_categories WHERE id = p_parent_id;
+        -- Un solo nivel de anidación y siempre dentro del mismo restaurante
+        IF NOT FOUND
+           OR v_parent.restaurant_id <> v_category.restaurant_id
+           OR v_parent.parent_id IS NOT NULL
+           OR v_parent.id = v_category.id
+           OR EXISTS (SELECT 1 FROM public.menu_categories WHERE parent_id = v_category.id) THEN
+            RAISE EXCEPTION 'invalid_menu_category_parent' USING ERRCODE = 'check_violation';
+        END IF;
+    END IF;
+
+    IF p_name IS NOT NULL AND p_name <> v_category.name THEN
+        UPDATE public.menu_pricing_rules
+        SET category = p_name, updated_at = NOW()
+        WHERE restaurant_id = v_category.restaurant_id AND category = v_category.name;
+    END IF;
+
+    UPDATE public.menu_categories
+    SET name = COALESCE(p_name, name),
+        parent_id = CASE WHEN p_change_parent THEN p_parent_id ELSE parent_id END
+    WHERE id = p_category_id
+    RETURNING * INTO v_category;
+
+    PERFORM public.refresh_menu_item_labels(ARRAY[p_category_id]);
+
+    RETURN v_category;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.update_menu_category FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.update_menu_category TO service_role;
+
+-- ============================================
+-- RPC: delete_menu_category
+-- Borra una categoría (y sus subcategorías). Si tiene platillos solo se borra con
+-- p_move_to, la categoría a la que pasan; las reglas de precio de la categoría
+-- borrada se desactivan en lugar de aplicarse a otra.
+-- Devuelve DELETED, HAS_ITEMS o INVALID_TARGET.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.delete_menu_category(
+    p_category_id UUID,
+    p_move_to UUID DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_category public.menu_categories;
+    v_ids UUID[];
+BEGIN
+    SELECT * INTO v_category FROM public.menu_categories WHERE id = p_category_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN 'DELETED';
+    END IF;
+
+    SELECT array_agg(id) INTO v_ids
+    FROM public.menu_categories
+    WHERE id = p_category_id OR parent_id = p_category_id;
+
+    IF p_move_to IS NOT NULL AND (
+        p_move_to = ANY(v_ids) OR NOT EXISTS (
+            SELECT 1 FROM public.menu_categories WHERE id = p_move_to AND restaurant_id = v_category.restaurant_id
+        )
+    ) THEN
+        RETURN 'INVALID_TARGET';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.menu_items WHERE category_id = ANY(v_ids)) THEN
+        IF p_move_to IS NULL THEN
+            RETURN 'HAS_ITEMS';
+        END IF;
+
+        UPDATE public.menu_items SET category_id = p_move_to WHERE category_id = ANY(v_ids);
+        PERFORM public.refresh_menu_item_labels(ARRAY[p_move_to]);
+    END IF;
+
+    UPDATE public.menu_pricing_rules
+    SET is_active = false, updated_at = NOW()
+    WHERE restaurant_id = v_category.restaurant_id
+      AND category IN (SELECT name FROM public.menu_categories WHERE id = ANY(v_ids));
+
+    DELETE FROM public.menu_categories WHERE id = p_category_id;
+
+    RETURN 'DELETED';
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.delete_menu_category FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_menu_category TO service_role;
+
+-- ============================================
+-- RPC: reorder_menu
+-- Reordenamiento masivo (arrastrar y soltar): p_categories = [{id, sort_order}],
+-- p_items = [{id, sort_order, category_id?}]. Solo toca filas del restaurante y un
+-- platillo solo puede pasar a una categoría del mismo restaurante.
+-- Devuelve el número de filas actualizadas.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.reorder_menu(
+    p_restaurant_id UUID,
+    p_categories JSONB DEFAULT '[]',
+    p_items JSONB DEFAULT '[]'
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_categories INTEGER;
+    v_items INTEGER;
+    v_moved_to UUID[];
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM jsonb_to_recordset(COALESCE(p_items, '[]')) AS x(id UUID, sort_order INTEGER, category_id UUID)
+        WHERE x.category_id IS NOT NULL AND NOT EXISTS (
+            SELECT 1 FROM public.menu_categories c WHERE c.id = x.category_id AND c.restaurant_id = p_restaurant_id
+        )
+    ) THEN
+        RAISE EXCEPTION 'invalid_menu_category' USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE public.menu_categories c
+    SET sort_order = x.sort_order
+    FROM jsonb_to_recordset(COALESCE(p_categories, '[]')) AS x(id UUID, sort_order INTEGER)
+    WHERE c.id = x.id AND c.restaurant_id = p_restaurant_id;
+    GET DIAGNOSTICS v_categories = ROW_COUNT;
+
+    SELECT array_agg(DISTINCT x.category_id) INTO v_moved_to
+    FROM jsonb_to_recordset(COALESCE(p_items, '[]')) AS x(id UUID, sort_order INTEGER, category_id UUID)
+    JOIN public.menu_items i ON i.id = x.id AND i.restaurant_id = p_restaurant_id
+    WHERE x.category_id IS NOT NULL AND x.category_id IS DISTINCT FROM i.category_id;
+
+    UPDATE public.menu_items i
+    SET sort_order = x.sort_order,
+        category_id = COALESCE(x.category_id, i.category_id)
+    FROM jsonb_to_recordset(COALESCE(p_items, '[]')) AS x(id UUID, sort_order INTEGER, category_id UUID)
+    WHERE i.id = x.id AND i.restaurant_id = p_restaurant_id;
+    GET DIAGNOSTICS v_items = ROW_COUNT;
+
+    IF v_moved_to IS NOT NULL THEN
+        PERFORM public.refresh_menu_item_labels(v_moved_to);
+    END IF;
+
+    RETURN v_categories + v_items;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.reorder_menu FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reorder_menu TO service_role;
@@ -0,0 +1,152 @@
+-- ============================================
+-- Variantes, modificadores y combos de platillos
+-- Variantes: tamaños o presentaciones con su propio precio (reemplazan a
+-- menu_items.price). Grupos de modificadores: opciones con un cargo extra
+-- (price_delta), obligatorios u opcionales, con mínimo y máximo de selecciones
+-- ("tacos: elige 3 guisos", "queso extra +$20"). Un combo es un platillo cuyos
+-- grupos ofrecen otros platillos del menú (linked_item_id).
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.menu_item_variants (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    menu_item_id UUID NOT NULL REFERENCES public.menu_items(id) ON DELETE CASCADE,
+    name VARCHAR NOT NULL,
+    price NUMERIC(10,2) NOT NULL CHECK (price >= 0),
+    -- La variante que se muestra (y se cobra) si el cliente no elige otra
+    is_default BOOLEAN DEFAULT false,
+    is_available BOOLEAN DEFAULT true,
+    sort_order INTEGER DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_menu_item_variants_item ON public.menu_item_variants (menu_item_id, sort_order);
+
+CREATE TABLE IF NOT EXISTS public.menu_modifier_groups (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    menu_item_id UUID NOT NULL REFERENCES public.menu_items(id) ON DELETE CASCADE,
+    name VARCHAR NOT NULL,
+    is_required BOOLEAN DEFAULT false,
+    min_selections INTEGER NOT NULL DEFAULT 0 CHECK (min_selections >= 0),
+    -- NULL = sin límite
+    max_selections INTEGER,
+    sort_order INTEGER DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT menu_modifier_groups_required CHECK (NOT is_required OR min_selections >= 1),
+    CONSTRAINT menu_modifier_groups_max CHECK (max_selections IS NULL OR max_selections >= GREATEST(min_selections, 1))
+);
+
+CREATE INDEX IF NOT EXISTS idx_menu_modifier_groups_item ON public.menu_modifier_groups (menu_item_id, sort_order);
+
+CREATE TABLE IF NOT EXISTS public.menu_modifier_options (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    group_id UUID NOT NULL REFERENCES public.menu_modifier_groups(id) ON DELETE CASCADE,
+    name VARCHAR NOT NULL,
+    -- Cargo (o descuento, si es negativo) sobre el precio del platillo o variante
+    price_delta NUMERIC(10,2) NOT NULL DEFAULT 0,
+    -- Platillo que representa la opción, en combos
+    linked_item_id UUID REFERENCES public.menu_items(id) ON DELETE SET NULL,
+    is_default BOOLEAN DEFAULT false,
+    is_available BOOLEAN DEFAULT true,
+    sort_order INTEGER DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_menu_modifier_options_group ON public.menu_modifier_options (group_id, sort_order);
+
+-- ============================================
+-- RPC: set_menu_item_modifiers
+-- Reemplaza en una transacción las variantes y los grupos de modificadores de un
+-- platillo. Los elementos que traen su id actual lo conservan, para que carritos y
+-- apps no pierdan la referencia al editar; el orden del arreglo es el sort_order.
+-- p_variants = [{id?, name, price, is_default, is_available}]
+-- p_groups = [{id?, name, is_required, min_selections, max_selections,
+--              options: [{id?, name, price_delta, linked_item_id, is_default, is_available}]}]
+-- ============================================
+CREATE OR REPLACE FUNCTION public.set_menu_item_modifiers(
+    p_menu_item_id UUID,
+    p_variants JSONB DEFAULT '[]',
+    p_groups JSONB DEFAULT '[]'
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_restaurant_id UUID;
+    v_group JSONB;
+    v_position INTEGER;
+    v_group_id UUID;
+    v_variant_ids UUID[];
+    v_group_ids UUID[];
+    v_option_ids UUID[];
+BEGIN
+    SELECT restaurant_id INTO v_restaurant_id FROM public.menu_items WHERE id = p_menu_item_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'menu_item_not_found' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    -- Un combo solo puede ofrecer otros platillos del mismo restaurante
+    IF EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(COALESCE(p_groups, '[]')) AS g(value),
+             jsonb_to_recordset(COALESCE(g.value->'options', '[]')) AS o(linked_item_id UUID)
+        WHERE o.linked_item_id IS NOT NULL AND (
+            o.linked_item_id = p_menu_item_id OR NOT EXISTS (
+                SELECT 1 FROM public.menu_items i WHERE i.id = o.linked_item_id AND i.restaurant_id = v_restaurant_id
+            )
+        )
+    ) THEN
+        RAISE EXCEPTION 'invalid_linked_item' USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Solo se reutilizan ids que ya eran de este platillo
+    SELECT array_agg(id) INTO v_variant_ids FROM public.menu_item_variants WHERE menu_item_id = p_menu_item_id;
+    SELECT array_agg(id) INTO v_group_ids FROM public.menu_modifier_groups WHERE menu_item_id = p_menu_item_id;
+    SELECT array_agg(o.id) INTO v_option_ids
+    FROM public.menu_modifier_options o
+    JOIN public.menu_modifier_groups g ON g.id = o.group_id
+    WHERE g.menu_item_id = p_menu_item_id;
+
+    DELETE FROM public.menu_item_variants WHERE menu_item_id = p_menu_item_id;
+    DELETE FROM public.menu_modifier_groups WHERE menu_item_id = p_menu_item_id;
+
+    INSERT INTO public.menu_item_variants (id, menu_item_id, name, price, is_default, is_available, sort_order)
+    SELECT CASE WHEN (v.value->>'id')::UUID = ANY(v_variant_ids) THEN (v.value->>'id')::UUID ELSE uuid_generate_v4() END,
+           p_menu_item_id,
+           v.value->>'name', (v.value->>'price')::NUMERIC,
+           COALESCE((v.value->>'is_default')::BOOLEAN, false), COALESCE((v.value->>'is_available')::BOOLEAN, true),
+           (v.ordinality - 1)::INTEGER
+    FROM jsonb_array_elements(COALESCE(p_variants, '[]')) WITH ORDINALITY AS v(value, ordinality);
+
+    FOR v_group, v_position IN
+        SELECT g.value, (g.ordinality - 1)::INTEGER
+        FROM jsonb_array_elements(COALESCE(p_groups, '[]')) WITH ORDINALITY AS g(value, ordinality)
+    LOOP
+        INSERT INTO public.menu_modifier_groups (id, menu_item_id, name, is_required, min_selections, max_selections, sort_order)
+        VALUES (
+            CASE WHEN (v_group->>'id')::UUID = ANY(v_group_ids) THEN (v_group->>'id')::UUID ELSE uuid_generate_v4() END,
+            p_menu_item_id,
+            v_group->>'name',
+            COALESCE((v_group->>'is_required')::BOOLEAN, false),
+            COALESCE((v_group->>'min_selections')::INTEGER, 0),
+            (v_group->>'max_selections')::INTEGER,
+            v_position
+        )
+        RETURNING id INTO v_group_id;
+
+        INSERT INTO public.menu_modifier_options (id, group_id, name, price_delta, linked_item_id, is_default, is_available, sort_order)
+        SELECT CASE WHEN (o.value->>'id')::UUID = ANY(v_option_ids) THEN (o.value->>'id')::UUID ELSE uuid_generate_v4() END,
+               v_group_id,
+               o.value->>'name', COALESCE((o.value->>'price_delta')::NUMERIC, 0), (o.value->>'linked_item_id')::UUID,
+               COALESCE((o.value->>'is_default')::BOOLEAN, false), COALESCE((o.value->>'is_available')::BOOLEAN, true),
+               (o.ordinality - 1)::INTEGER
+        FROM jsonb_array_elements(COALESCE(v_group->'options', '[]')) WITH ORDINALITY AS o(value, ordinality);
+    END LOOP;
+
+    UPDATE public.menu_items SET updated_at = NOW() WHERE id = p_menu_item_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.set_menu_item_modifiers FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.set_menu_item_modifiers TO service_role;
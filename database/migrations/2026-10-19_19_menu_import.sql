@@ -0,0 +1,70 @@
+-- ============================================
+-- Importación masiva del menú (CSV/JSON)
+-- POST /api/admin/menu/import valida y compara el archivo con el menú actual;
+-- al confirmar, este RPC aplica todas las filas en una sola transacción: o se
+-- importan todos los platillos o ninguno. Nunca borra platillos.
+-- ============================================
+
+-- ============================================
+-- RPC: import_menu_items
+-- p_items = [{id?, name, description, price, category, subcategory, category_id,
+--             allergens, is_vegetarian, is_vegan, is_gluten_free, is_spicy,
+--             image_url, is_available}]
+-- Con id actualiza ese platillo (solo si es del restaurante); sin id lo crea al
+-- final del menú. Devuelve {created, updated}.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.import_menu_items(
+    p_restaurant_id UUID,
+    p_items JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_updated INTEGER;
+    v_created INTEGER;
+    v_next_order INTEGER;
+BEGIN
+    UPDATE public.menu_items m
+    SET name = x.name,
+        description = x.description,
+        price = x.price,
+        category = x.category,
+        subcategory = x.subcategory,
+        category_id = x.category_id,
+        allergens = COALESCE(x.allergens, '{}'),
+        is_vegetarian = COALESCE(x.is_vegetarian, false),
+        is_vegan = COALESCE(x.is_vegan, false),
+        is_gluten_free = COALESCE(x.is_gluten_free, false),
+        is_spicy = COALESCE(x.is_spicy, false),
+        image_url = x.image_url,
+        is_available = COALESCE(x.is_available, true),
+        updated_at = NOW()
+    FROM jsonb_populate_recordset(NULL::public.menu_items, p_items) x
+    WHERE x.id IS NOT NULL AND m.id = x.id AND m.restaurant_id = p_restaurant_id;
+    GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+    SELECT COALESCE(MAX(sort_order), -1) + 1 INTO v_next_order
+    FROM public.menu_items
+    WHERE restaurant_id = p_restaurant_id;
+
+    INSERT INTO public.menu_items (
+        restaurant_id, name, description, price, category, subcategory, category_id, allergens,
+        is_vegetarian, is_vegan, is_gluten_free, is_spicy, image_url, is_available, sort_order
+    )
+    SELECT p_restaurant_id, x.name, x.description, x.price, x.category, x.subcategory, x.category_id,
+           COALESCE(x.allergens, '{}'), COALESCE(x.is_vegetarian, false), COALESCE(x.is_vegan, false),
+           COALESCE(x.is_gluten_free, false), COALESCE(x.is_spicy, false), x.image_url,
+           COALESCE(x.is_available, true), v_next_order + (x.ordinality - 1)::INTEGER
+    FROM jsonb_populate_recordset(NULL::public.menu_items, p_items) WITH ORDINALITY x
+    WHERE x.id IS NULL;
+    GET DIAGNOSTICS v_created = ROW_COUNT;
+
+    RETURN jsonb_build_object('created', v_created, 'updated', v_updated);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.import_menu_items FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.import_menu_items TO service_role;
@@ -0,0 +1,19 @@
+-- ============================================
+-- Perfil alimentario de los comensales
+-- El cliente guarda sus restricciones (vegetariano, vegano, sin gluten), sus
+-- alergias y el nivel de picante máximo que tolera. El menú público puede
+-- ocultar o marcar los platillos que no le convienen, y cada reservación guarda
+-- una copia de las restricciones del grupo para que el personal las vea.
+-- ============================================
+
+ALTER TABLE public.users ADD COLUMN IF NOT EXISTS dietary_restrictions TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (dietary_restrictions <@ ARRAY['vegetarian', 'vegan', 'gluten_free']::TEXT[]);
+ALTER TABLE public.users ADD COLUMN IF NOT EXISTS allergies TEXT[] NOT NULL DEFAULT '{}';
+-- NULL: sin límite de picante
+ALTER TABLE public.users ADD COLUMN IF NOT EXISTS max_spice_level INTEGER
+    CHECK (max_spice_level >= 0 AND max_spice_level <= 5);
+
+-- Copia al reservar: cambiar el perfil después no altera reservaciones existentes
+ALTER TABLE public.reservations ADD COLUMN IF NOT EXISTS dietary_restrictions TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (dietary_restrictions <@ ARRAY['vegetarian', 'vegan', 'gluten_free']::TEXT[]);
+ALTER TABLE public.reservations ADD COLUMN IF NOT EXISTS allergies TEXT[] NOT NULL DEFAULT '{}';
@@ -0,0 +1,95 @@
+-- ============================================
+-- RPC: create_reservation_atomic (v6)
+-- Igual que v5, guardando las restricciones y alergias del grupo en el mismo INSERT.
+-- Antes se actualizaban después de crear la reserva: si ese UPDATE fallaba, la reserva
+-- quedaba sin las alergias que el personal necesita ver.
+-- ============================================
+DROP FUNCTION IF EXISTS public.create_reservation_atomic(
+    UUID, UUID, UUID, DATE, TIME, TIME, INTEGER, INTEGER, VARCHAR, TEXT, VARCHAR, BOOLEAN, NUMERIC, VARCHAR, VARCHAR, UUID[], UUID, NUMERIC, UUID
+);
+
+CREATE OR REPLACE FUNCTION public.create_reservation_atomic(
+    p_restaurant_id UUID,
+    p_user_id UUID,
+    p_table_id UUID,
+    p_date DATE,
+    p_time TIME,
+    p_end_time TIME,
+    p_buffer_minutes INTEGER,
+    p_guest_count INTEGER,
+    p_occasion VARCHAR,
+    p_special_request TEXT,
+    p_status VARCHAR,
+    p_deposit_paid BOOLEAN,
+    p_deposit_amount NUMERIC,
+    p_payment_intent_id VARCHAR,
+    p_qr_code VARCHAR,
+    p_linked_table_ids UUID[] DEFAULT '{}',
+    p_offer_id UUID DEFAULT NULL,
+    p_offer_discount NUMERIC DEFAULT 0,
+    p_offer_code_id UUID DEFAULT NULL,
+    p_dietary_restrictions TEXT[] DEFAULT '{}',
+    p_allergies TEXT[] DEFAULT '{}'
+)
+RETURNS public.reservations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_reservation public.reservations;
+    v_all_tables UUID[];
+    v_table UUID;
+    v_start TIMESTAMP;
+    v_end TIMESTAMP;
+    v_offer_result TEXT;
+BEGIN
+    v_all_tables := array_remove(ARRAY[p_table_id] || COALESCE(p_linked_table_ids, '{}'), NULL);
+
+    -- Bloqueo por mesa y día, en orden para evitar deadlocks entre reservas combinadas
+    FOR v_table IN SELECT DISTINCT t FROM unnest(v_all_tables) AS t ORDER BY t LOOP
+        PERFORM pg_advisory_xact_lock(hashtextextended(v_table::text || p_date::text, 0));
+    END LOOP;
+
+    v_start := p_date + p_time;
+    v_end := CASE WHEN p_end_time <= p_time THEN (p_date + 1) + p_end_time ELSE p_date + p_end_time END
+        + make_interval(mins => COALESCE(p_buffer_minutes, 0));
+
+    IF EXISTS (
+        SELECT 1 FROM public.reservations r
+        WHERE r.status NOT IN ('cancelled', 'no_show')
+          AND (r.table_id = ANY(v_all_tables) OR r.linked_table_ids && v_all_tables)
+          AND r.occupied_during && tsrange(v_start, v_end)
+    ) THEN
+        RAISE EXCEPTION 'Table already reserved for the requested period' USING ERRCODE = 'exclusion_violation';
+    END IF;
+
+    INSERT INTO public.reservations (
+        restaurant_id, user_id, table_id, linked_table_ids, date, time, end_time, buffer_minutes,
+        guest_count, occasion, special_request, status,
+        deposit_paid, deposit_amount, deposit_paid_at, deposit_status, payment_intent_id,
+        offer_id, offer_discount, dietary_restrictions, allergies, qr_code, created_at
+    ) VALUES (
+        p_restaurant_id, p_user_id, p_table_id, COALESCE(p_linked_table_ids, '{}'), p_date, p_time, p_end_time, COALESCE(p_buffer_minutes, 0),
+        p_guest_count, p_occasion, p_special_request, COALESCE(p_status, 'pending'),
+        COALESCE(p_deposit_paid, false), COALESCE(p_deposit_amount, 0),
+        CASE WHEN p_deposit_paid THEN NOW() ELSE NULL END,
+        CASE WHEN p_deposit_paid THEN 'paid' ELSE 'none' END, p_payment_intent_id,
+        p_offer_id, CASE WHEN p_offer_id IS NULL THEN 0 ELSE COALESCE(p_offer_discount, 0) END,
+        COALESCE(p_dietary_restrictions, '{}'), COALESCE(p_allergies, '{}'), p_qr_code, NOW()
+    )
+    RETURNING * INTO v_reservation;
+
+    IF p_offer_id IS NOT NULL THEN
+        v_offer_result := public.redeem_offer_atomic(p_offer_id, p_user_id, v_reservation.id, p_date, p_offer_discount, p_offer_code_id);
+        IF v_offer_result <> 'REDEEMED' THEN
+            RAISE EXCEPTION 'offer_rejected:%', v_offer_result USING ERRCODE = 'check_violation';
+        END IF;
+    END IF;
+
+    RETURN v_reservation;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.create_reservation_atomic FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_reservation_atomic TO service_role;
@@ -0,0 +1,69 @@
+-- ============================================
+-- RPC: reschedule_reservation_atomic
+-- Cambia fecha, hora y número de personas de una reserva con el mismo bloqueo y la misma
+-- verificación de traslapes que create_reservation_atomic. La restricción de exclusión solo
+-- cubre table_id, así que sin esto una reserva combinada podía moverse a un horario en el
+-- que alguna de sus mesas enlazadas ya estaba ocupada.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.reschedule_reservation_atomic(
+    p_reservation_id UUID,
+    p_date DATE,
+    p_time TIME,
+    p_end_time TIME,
+    p_buffer_minutes INTEGER,
+    p_guest_count INTEGER
+)
+RETURNS public.reservations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_reservation public.reservations;
+    v_all_tables UUID[];
+    v_table UUID;
+    v_start TIMESTAMP;
+    v_end TIMESTAMP;
+BEGIN
+    SELECT * INTO v_reservation FROM public.reservations WHERE id = p_reservation_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Reservation not found' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    v_all_tables := array_remove(ARRAY[v_reservation.table_id] || COALESCE(v_reservation.linked_table_ids, '{}'), NULL);
+
+    -- Bloqueo por mesa y día, en orden para evitar deadlocks entre reservas combinadas
+    FOR v_table IN SELECT DISTINCT t FROM unnest(v_all_tables) AS t ORDER BY t LOOP
+        PERFORM pg_advisory_xact_lock(hashtextextended(v_table::text || p_date::text, 0));
+    END LOOP;
+
+    v_start := p_date + p_time;
+    v_end := CASE WHEN p_end_time <= p_time THEN (p_date + 1) + p_end_time ELSE p_date + p_end_time END
+        + make_interval(mins => COALESCE(p_buffer_minutes, 0));
+
+    IF EXISTS (
+        SELECT 1 FROM public.reservations r
+        WHERE r.id <> p_reservation_id
+          AND r.status NOT IN ('cancelled', 'no_show')
+          AND (r.table_id = ANY(v_all_tables) OR r.linked_table_ids && v_all_tables)
+          AND r.occupied_during && tsrange(v_start, v_end)
+    ) THEN
+        RAISE EXCEPTION 'Table already reserved for the requested period' USING ERRCODE = 'exclusion_violation';
+    END IF;
+
+    UPDATE public.reservations
+    SET date = p_date,
+        time = p_time,
+        end_time = p_end_time,
+        buffer_minutes = COALESCE(p_buffer_minutes, 0),
+        guest_count = p_guest_count,
+        updated_at = NOW()
+    WHERE id = p_reservation_id
+    RETURNING * INTO v_reservation;
+
+    RETURN v_reservation;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.reschedule_reservation_atomic FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reschedule_reservation_atomic TO service_role;
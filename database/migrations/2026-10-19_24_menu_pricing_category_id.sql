@@ -0,0 +1,150 @@
+-- ============================================
+-- Reglas de precio por horario ligadas a la categoría por id
+-- Las reglas de categoría guardaban solo el nombre y se comparaban con las etiquetas
+-- de texto de los platillos. Ahora apuntan a menu_categories con category_id y cubren
+-- los platillos de esa categoría y de sus subcategorías; category queda como etiqueta.
+-- ============================================
+
+-- Si la categoría se borra, la regla se queda sin objetivo (delete_menu_category ya la desactiva)
+ALTER TABLE public.menu_pricing_rules
+    ADD COLUMN IF NOT EXISTS category_id UUID REFERENCES public.menu_categories(id) ON DELETE SET NULL;
+
+-- Backfill por nombre, prefiriendo la categoría principal sobre una subcategoría homónima
+UPDATE public.menu_pricing_rules r
+SET category_id = (
+    SELECT c.id FROM public.menu_categories c
+    WHERE c.restaurant_id = r.restaurant_id AND c.name = r.category
+    ORDER BY (c.parent_id IS NULL) DESC, c.sort_order
+    LIMIT 1
+)
+WHERE r.category IS NOT NULL AND r.category_id IS NULL;
+
+-- Reglas de una categoría que ya no existe: nunca aplicarían
+UPDATE public.menu_pricing_rules
+SET is_active = false, updated_at = NOW()
+WHERE category IS NOT NULL AND category_id IS NULL AND is_active;
+
+-- A lo más un objetivo: un platillo o una categoría (ninguno tras borrar la categoría)
+ALTER TABLE public.menu_pricing_rules DROP CONSTRAINT IF EXISTS menu_pricing_rules_target;
+ALTER TABLE public.menu_pricing_rules
+    ADD CONSTRAINT menu_pricing_rules_target CHECK (menu_item_id IS NULL OR category_id IS NULL);
+
+CREATE INDEX IF NOT EXISTS idx_menu_pricing_rules_category ON public.menu_pricing_rules (category_id);
+
+-- ============================================
+-- RPC: update_menu_category (v2)
+-- Renombra y/o mueve una categoría y actualiza en la misma transacción las etiquetas
+-- de sus platillos y de sus reglas de precio por horario.
+-- p_change_parent distingue "sin cambio" de "convertir en categoría principal" (NULL).
+-- ============================================
+CREATE OR REPLACE FUNCTION public.update_menu_category(
+    p_category_id UUID,
+    p_name VARCHAR DEFAULT NULL,
+    p_change_parent BOOLEAN DEFAULT false,
+    p_parent_id UUID DEFAULT NULL
+)
+RETURNS public.menu_categories
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_category public.menu_categories;
+    v_parent public.menu_categories;
+BEGIN
+    SELECT * INTO v_category FROM public.menu_categories WHERE id = p_category_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'menu_category_not_found' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF p_change_parent AND p_parent_id IS NOT NULL THEN
+        SELECT * INTO v_parent FROM public.menu_categories WHERE id = p_parent_id;
+        -- Un solo nivel de anidación y siempre dentro del mismo restaurante
+        IF NOT FOUND
+           OR v_parent.restaurant_id <> v_category.restaurant_id
+           OR v_parent.parent_id IS NOT NULL
+           OR v_parent.id = v_category.id
+           OR EXISTS (SELECT 1 FROM public.menu_categories WHERE parent_id = v_category.id) THEN
+            RAISE EXCEPTION 'invalid_menu_category_parent' USING ERRCODE = 'check_violation';
+        END IF;
+    END IF;
+
+    IF p_name IS NOT NULL AND p_name <> v_category.name THEN
+        UPDATE public.menu_pricing_rules
+        SET category = p_name, updated_at = NOW()
+        WHERE category_id = p_category_id;
+    END IF;
+
+    UPDATE public.menu_categories
+    SET name = COALESCE(p_name, name),
+        parent_id = CASE WHEN p_change_parent THEN p_parent_id ELSE parent_id END
+    WHERE id = p_category_id
+    RETURNING * INTO v_category;
+
+    PERFORM public.refresh_menu_item_labels(ARRAY[p_category_id]);
+
+    RETURN v_category;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.update_menu_category FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.update_menu_category TO service_role;
+
+-- ============================================
+-- RPC: delete_menu_category (v2)
+-- Borra una categoría (y sus subcategorías). Si tiene platillos solo se borra con
+-- p_move_to, la categoría a la que pasan; las reglas de precio de la categoría
+-- borrada se desactivan en lugar de aplicarse a otra.
+-- Devuelve DELETED, HAS_ITEMS o INVALID_TARGET.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.delete_menu_category(
+    p_category_id UUID,
+    p_move_to UUID DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_category public.menu_categories;
+    v_ids UUID[];
+BEGIN
+    SELECT * INTO v_category FROM public.menu_categories WHERE id = p_category_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN 'DELETED';
+    END IF;
+
+    SELECT array_agg(id) INTO v_ids
+    FROM public.menu_categories
+    WHERE id = p_category_id OR parent_id = p_category_id;
+
+    IF p_move_to IS NOT NULL AND (
+        p_move_to = ANY(v_ids) OR NOT EXISTS (
+            SELECT 1 FROM public.menu_categories WHERE id = p_move_to AND restaurant_id = v_category.restaurant_id
+        )
+    ) THEN
+        RETURN 'INVALID_TARGET';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.menu_items WHERE category_id = ANY(v_ids)) THEN
+        IF p_move_to IS NULL THEN
+            RETURN 'HAS_ITEMS';
+        END IF;
+
+        UPDATE public.menu_items SET category_id = p_move_to WHERE category_id = ANY(v_ids);
+        PERFORM public.refresh_menu_item_labels(ARRAY[p_move_to]);
+    END IF;
+
+    UPDATE public.menu_pricing_rules
+    SET is_active = false, updated_at = NOW()
+    WHERE category_id = ANY(v_ids);
+
+    DELETE FROM public.menu_categories WHERE id = p_category_id;
+
+    RETURN 'DELETED';
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.delete_menu_category FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_menu_category TO service_role;
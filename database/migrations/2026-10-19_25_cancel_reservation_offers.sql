@@ -0,0 +1,74 @@
+-- ============================================
+-- RPC: cancel_reservation_atomic
+-- Cancela una reserva y libera en la misma transacción las ofertas canjeadas con ella:
+-- borra el canje (los límites por usuario y por día cuentan filas de offer_redemptions),
+-- devuelve el usage_count de la oferta y deja el código de un solo uso disponible otra vez.
+-- Antes la oferta seguía consumida aunque la reserva se cancelara o venciera su anticipo.
+-- p_from_status es la guarda optimista de ReservationLifecycleService: si la reserva ya
+-- cambió de estado no se toca nada y no se devuelve ninguna fila.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.cancel_reservation_atomic(
+    p_reservation_id UUID,
+    p_from_status VARCHAR,
+    p_updates JSONB
+)
+RETURNS SETOF public.reservations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_reservation public.reservations;
+    v_changes public.reservations;
+    v_redemption public.offer_redemptions;
+BEGIN
+    SELECT * INTO v_reservation FROM public.reservations WHERE id = p_reservation_id FOR UPDATE;
+    IF NOT FOUND OR v_reservation.status IS DISTINCT FROM p_from_status THEN
+        RETURN;
+    END IF;
+
+    -- Las columnas que no vienen en p_updates conservan su valor actual
+    v_changes := jsonb_populate_record(v_reservation, p_updates || jsonb_build_object('status', 'cancelled'));
+
+    UPDATE public.reservations
+    SET status = v_changes.status,
+        updated_at = v_changes.updated_at,
+        cancelled_at = v_changes.cancelled_at,
+        cancelled_by = v_changes.cancelled_by,
+        cancellation_reason = v_changes.cancellation_reason,
+        cancellation_refund_percent = v_changes.cancellation_refund_percent,
+        cancellation_refund_amount = v_changes.cancellation_refund_amount,
+        cancellation_fee_amount = v_changes.cancellation_fee_amount,
+        cancellation_refund_status = v_changes.cancellation_refund_status,
+        deposit_status = v_changes.deposit_status,
+        deposit_due_at = v_changes.deposit_due_at
+    WHERE id = p_reservation_id
+    RETURNING * INTO v_reservation;
+
+    -- Mismo bloqueo por reserva que redeem_offer_atomic
+    PERFORM pg_advisory_xact_lock(hashtextextended(p_reservation_id::text, 0));
+
+    FOR v_redemption IN
+        SELECT * FROM public.offer_redemptions WHERE reservation_id = p_reservation_id ORDER BY offer_id
+    LOOP
+        PERFORM 1 FROM public.offers WHERE id = v_redemption.offer_id FOR UPDATE;
+
+        UPDATE public.offers
+        SET usage_count = GREATEST(COALESCE(usage_count, 0) - 1, 0)
+        WHERE id = v_redemption.offer_id;
+
+        IF v_redemption.offer_code_id IS NOT NULL THEN
+            UPDATE public.offer_codes
+            SET status = 'available'
+            WHERE id = v_redemption.offer_code_id AND status = 'redeemed';
+        END IF;
+
+        DELETE FROM public.offer_redemptions WHERE id = v_redemption.id;
+    END LOOP;
+
+    RETURN NEXT v_reservation;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.cancel_reservation_atomic FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_reservation_atomic TO service_role;
@@ -0,0 +1,70 @@
+-- ============================================
+-- RPC: update_menu_category (v3)
+-- Igual que v2, guardando también descripción, ícono, orden y estado (p_fields) en la
+-- misma transacción. Antes la ruta los guardaba por separado antes de llamar a la RPC:
+-- si el nuevo padre no era válido, la respuesta era un error pero esos campos ya
+-- se habían escrito.
+-- ============================================
+DROP FUNCTION IF EXISTS public.update_menu_category(UUID, VARCHAR, BOOLEAN, UUID);
+
+CREATE OR REPLACE FUNCTION public.update_menu_category(
+    p_category_id UUID,
+    p_name VARCHAR DEFAULT NULL,
+    p_change_parent BOOLEAN DEFAULT false,
+    p_parent_id UUID DEFAULT NULL,
+    p_fields JSONB DEFAULT '{}'
+)
+RETURNS public.menu_categories
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_category public.menu_categories;
+    v_parent public.menu_categories;
+    v_fields public.menu_categories;
+BEGIN
+    SELECT * INTO v_category FROM public.menu_categories WHERE id = p_category_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'menu_category_not_found' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF p_change_parent AND p_parent_id IS NOT NULL THEN
+        SELECT * INTO v_parent FROM public.menu_categories WHERE id = p_parent_id;
+        -- Un solo nivel de anidación y siempre dentro del mismo restaurante
+        IF NOT FOUND
+           OR v_parent.restaurant_id <> v_category.restaurant_id
+           OR v_parent.parent_id IS NOT NULL
+           OR v_parent.id = v_category.id
+           OR EXISTS (SELECT 1 FROM public.menu_categories WHERE parent_id = v_category.id) THEN
+            RAISE EXCEPTION 'invalid_menu_category_parent' USING ERRCODE = 'check_violation';
+        END IF;
+    END IF;
+
+    IF p_name IS NOT NULL AND p_name <> v_category.name THEN
+        UPDATE public.menu_pricing_rules
+        SET category = p_name, updated_at = NOW()
+        WHERE category_id = p_category_id;
+    END IF;
+
+    -- Los campos que no vienen en p_fields conservan su valor actual
+    v_fields := jsonb_populate_record(v_category, COALESCE(p_fields, '{}'));
+
+    UPDATE public.menu_categories
+    SET name = COALESCE(p_name, name),
+        parent_id = CASE WHEN p_change_parent THEN p_parent_id ELSE parent_id END,
+        description = v_fields.description,
+        icon = v_fields.icon,
+        sort_order = v_fields.sort_order,
+        is_active = v_fields.is_active
+    WHERE id = p_category_id
+    RETURNING * INTO v_category;
+
+    PERFORM public.refresh_menu_item_labels(ARRAY[p_category_id]);
+
+    RETURN v_category;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.update_menu_category FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.update_menu_category TO service_role;
@@ -18,6 +18,9 @@ import RateRestaurantPage from "./pages/RateRestaurantPage";
 import PaymentPage from "./pages/PaymentPage";
 import ClientLoginPage from "./pages/ClientLoginPage";
 import OffersPage from "./pages/OffersPage";
+import ReminderActionPage from "./pages/ReminderActionPage";
+import WaitlistOfferPage from "./pages/WaitlistOfferPage";
+import WaitlistKioskPage from "./pages/WaitlistKioskPage";
 import NotFound from "./pages/NotFound";
 
 // Admin Pages
@@ -72,6 +75,9 @@ const App = () => (
                 <Route path="/perfil" element={<ClientProfilePage />} />
                 <Route path="/calificar/:id/:reservationId" element={<RateRestaurantPage />} />
                 <Route path="/calificar/:id" element={<RateRestaurantPage />} />
+                <Route path="/recordatorio/:token" element={<ReminderActionPage />} />
+                <Route path="/lista-espera/:restaurantId" element={<WaitlistKioskPage />} />
+                <Route path="/lista-espera/oferta/:token" element={<WaitlistOfferPage />} />
 
                 {/* Admin Routes */}
                 <Route path="/registro-restaurante" element={<RestaurantRegisterPage />} />
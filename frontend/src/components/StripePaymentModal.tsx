@@ -18,7 +18,7 @@ const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api'
 
 interface PaymentFormProps {
     amount: number;
-    onSuccess: () => void;
+    onSuccess: (paymentIntentId: string) => void;
     onCancel: () => void;
 }
 
@@ -38,7 +38,7 @@ const PaymentForm = ({ amount, onSuccess, onCancel }: PaymentFormProps) => {
         setIsProcessing(true);
         setError(null);
 
-        const { error: submitError } = await stripe.confirmPayment({
+        const { error: submitError, paymentIntent } = await stripe.confirmPayment({
             elements,
             confirmParams: {
                 return_url: `${window.location.origin}/mis-reservas`,
@@ -49,8 +49,8 @@ const PaymentForm = ({ amount, onSuccess, onCancel }: PaymentFormProps) => {
         if (submitError) {
             setError(submitError.message || 'Error processing payment');
             setIsProcessing(false);
-        } else {
-            onSuccess();
+        } else if (paymentIntent) {
+            onSuccess(paymentIntent.id);
         }
     };
 
@@ -134,9 +134,12 @@ const PaymentForm = ({ amount, onSuccess, onCancel }: PaymentFormProps) => {
 interface StripePaymentModalProps {
     isOpen: boolean;
     onClose: () => void;
-    onSuccess: () => void;
+    /** Receives the PaymentIntent id, which the backend verifies before confirming the reservation */
+    onSuccess: (paymentIntentId: string) => void;
     amount: number;
     restaurantName: string;
+    /** Pending reservation the deposit is for; the backend takes the amount from it */
+    reservationId: string | null;
     reservationData: {
         restaurantId: string;
         date: string;
@@ -151,6 +154,7 @@ export const StripePaymentModal = ({
     onSuccess,
     amount,
     restaurantName,
+    reservationId,
     reservationData,
 }: StripePaymentModalProps) => {
     const [clientSecret, setClientSecret] = useState<string | null>(null);
@@ -158,15 +162,18 @@ export const StripePaymentModal = ({
     const [paymentSuccess, setPaymentSuccess] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
+    // Amount held on the reservation, as returned with the intent
+    const [intentAmount, setIntentAmount] = useState<number | null>(null);
+
     // Ensure minimum amount of $10 MXN (Stripe requirement)
-    const finalAmount = Math.max(amount, 10);
+    const finalAmount = intentAmount ?? Math.max(amount, 10);
 
     // Auto-create PaymentIntent when modal opens
     useEffect(() => {
-        if (isOpen && !clientSecret && !isLoading) {
+        if (isOpen && reservationId && !clientSecret && !isLoading) {
             createPaymentIntent();
         }
-    }, [isOpen]);
+    }, [isOpen, reservationId]);
 
     const createPaymentIntent = async () => {
         setIsLoading(true);
@@ -189,16 +196,13 @@ export const StripePaymentModal = ({
                     'Content-Type': 'application/json',
                     ...(token && { 'Authorization': `Bearer ${token}` }),
                 },
-                body: JSON.stringify({
-                    amount: finalAmount,
-                    currency: 'mxn',
-                    reservationData,
-                }),
+                body: JSON.stringify({ reservationId }),
             });
 
             const data = await response.json();
             if (data.success) {
                 setClientSecret(data.clientSecret);
+                setIntentAmount(data.amount);
             } else {
                 setError(data.error || 'Error al preparar el pago');
                 console.error('Failed to create payment intent:', data.error);
@@ -211,16 +215,17 @@ export const StripePaymentModal = ({
         }
     };
 
-    const handleSuccess = () => {
+    const handleSuccess = (paymentIntentId: string) => {
         setPaymentSuccess(true);
         setTimeout(() => {
-            onSuccess();
+            onSuccess(paymentIntentId);
         }, 2500);
     };
 
     // Reset state when modal closes
     const handleClose = () => {
         setClientSecret(null);
+        setIntentAmount(null);
         setPaymentSuccess(false);
         setError(null);
         onClose();
@@ -0,0 +1,204 @@
+import { ChangeEvent, useRef, useState } from 'react';
+import { Download, FileUp, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle
+} from '@/components/ui/dialog';
+import { useImportMenu } from '@/hooks/useData';
+import { menuService } from '@/services/api';
+import { MenuImportFormat, MenuImportReport, MenuImportRow } from '@/types';
+import { toast } from 'sonner';
+
+interface MenuImportDialogProps {
+    open: boolean;
+    onClose: () => void;
+}
+
+const ACTION_LABELS: Record<MenuImportRow['action'], { label: string; className: string }> = {
+    create: { label: 'Nuevo', className: 'bg-success/15 text-success' },
+    update: { label: 'Cambia', className: 'bg-primary/15 text-primary' },
+    unchanged: { label: 'Igual', className: 'bg-muted text-muted-foreground' },
+    invalid: { label: 'Error', className: 'bg-destructive/15 text-destructive' },
+};
+
+const FIELD_LABELS: Record<string, string> = {
+    name: 'nombre',
+    description: 'descripción',
+    price: 'precio',
+    category: 'categoría',
+    subcategory: 'subcategoría',
+    allergens: 'alérgenos',
+    is_vegetarian: 'vegetariano',
+    is_vegan: 'vegano',
+    is_gluten_free: 'sin gluten',
+    is_spicy: 'picante',
+    image_url: 'imagen',
+    is_available: 'disponible',
+};
+
+const MenuImportDialog = ({ open, onClose }: MenuImportDialogProps) => {
+    const [file, setFile] = useState<{ name: string; format: MenuImportFormat; content: string } | null>(null);
+    const [report, setReport] = useState<MenuImportReport | null>(null);
+    const [exporting, setExporting] = useState<MenuImportFormat | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const importMutation = useImportMenu();
+
+    const reset = () => {
+        setFile(null);
+        setReport(null);
+        if (fileInputRef.current) fileInputRef.current.value = '';
+    };
+
+    const handleClose = () => {
+        reset();
+        onClose();
+    };
+
+    // Every selected file is checked right away (dry run)
+    const handleFileSelect = async (e: ChangeEvent<HTMLInputElement>) => {
+        const selected = e.target.files?.[0];
+        if (!selected) return;
+
+        const format: MenuImportFormat = selected.name.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+        const content = await selected.text();
+        setFile({ name: selected.name, format, content });
+        setReport(null);
+
+        try {
+            setReport(await importMutation.mutateAsync({ format, content, dryRun: true }));
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'No se pudo leer el archivo');
+        }
+    };
+
+    const handleImport = async () => {
+        if (!file) return;
+        try {
+            const result = await importMutation.mutateAsync({ format: file.format, content: file.content, dryRun: false });
+            toast.success(`Menú importado: ${result.summary.create} nuevos, ${result.summary.update} actualizados`);
+            handleClose();
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Error al importar el menú');
+        }
+    };
+
+    const handleExport = async (format: MenuImportFormat) => {
+        setExporting(format);
+        try {
+            const blob = await menuService.exportMenu(format);
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.setAttribute('href', url);
+            link.setAttribute('download', `menu.${format}`);
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            URL.revokeObjectURL(url);
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Error al exportar el menú');
+        } finally {
+            setExporting(null);
+        }
+    };
+
+    const pending = report ? report.summary.create + report.summary.update : 0;
+    const canImport = !!report && report.summary.invalid === 0 && pending > 0;
+    // Rows that need attention first
+    const rows = report
+        ? [...report.rows].sort((a, b) => Number(b.action === 'invalid') - Number(a.action === 'invalid') || a.line - b.line)
+        : [];
+
+    return (
+        <Dialog open={open} onOpenChange={(isOpen) => !isOpen && handleClose()}>
+            <DialogContent className="sm:max-w-[680px] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <FileUp className="w-5 h-5 text-primary" />
+                        Importar y exportar menú
+                    </DialogTitle>
+                    <DialogDescription>
+                        Descarga tu menú, edítalo en una hoja de cálculo y vuelve a subirlo. Columnas: nombre, precio y
+                        categoría (obligatorias), descripcion, subcategoria, alergenos (separados por |), vegetariano,
+                        vegano, sin_gluten, picante (sí/no), imagen_url y disponible. Los platillos se reconocen por id
+                        o por nombre; nunca se borra ninguno.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="flex gap-2">
+                    {(['csv', 'json'] as MenuImportFormat[]).map(format => (
+                        <Button key={format} variant="outline" size="sm" className="gap-2" onClick={() => handleExport(format)} disabled={!!exporting}>
+                            {exporting === format ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                            Descargar {format.toUpperCase()}
+                        </Button>
+                    ))}
+                </div>
+
+                <label className="flex flex-col items-center justify-center w-full h-28 border-2 border-dashed border-muted-foreground/30 rounded-lg cursor-pointer hover:border-primary/50 hover:bg-primary/5 transition-all">
+                    <FileUp className="w-8 h-8 text-muted-foreground mb-2" />
+                    <p className="text-sm text-muted-foreground">
+                        {file ? file.name : <span className="font-semibold text-primary">Elige un archivo CSV o JSON</span>}
+                    </p>
+                    <input ref={fileInputRef} type="file" className="hidden" accept=".csv,.json,text/csv,application/json" onChange={handleFileSelect} />
+                </label>
+
+                {importMutation.isPending && !report && (
+                    <div className="flex justify-center py-4">
+                        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+                    </div>
+                )}
+
+                {report && (
+                    <div className="space-y-3">
+                        <div className="flex flex-wrap gap-2 text-sm">
+                            <Badge variant="outline">{report.summary.total} filas</Badge>
+                            <Badge className={ACTION_LABELS.create.className}>{report.summary.create} nuevos</Badge>
+                            <Badge className={ACTION_LABELS.update.className}>{report.summary.update} con cambios</Badge>
+                            <Badge className={ACTION_LABELS.unchanged.className}>{report.summary.unchanged} sin cambios</Badge>
+                            {report.summary.invalid > 0 && (
+                                <Badge className={ACTION_LABELS.invalid.className}>{report.summary.invalid} con errores</Badge>
+                            )}
+                        </div>
+                        <div className="border border-border rounded-lg divide-y divide-border max-h-72 overflow-y-auto">
+                            {rows.map(row => (
+                                <div key={row.line} className="flex items-start gap-3 px-3 py-2 text-sm">
+                                    <span className="text-xs text-muted-foreground w-10 flex-shrink-0">#{row.line}</span>
+                                    <Badge className={`${ACTION_LABELS[row.action].className} flex-shrink-0`}>{ACTION_LABELS[row.action].label}</Badge>
+                                    <div className="min-w-0">
+                                        <p className="font-medium truncate">{row.name || 'Sin nombre'}</p>
+                                        {row.errors?.map(error => (
+                                            <p key={error} className="text-xs text-destructive">{error}</p>
+                                        ))}
+                                        {row.changes && (
+                                            <p className="text-xs text-muted-foreground">
+                                                Cambia: {row.changes.map(field => FIELD_LABELS[field] || field).join(', ')}
+                                            </p>
+                                        )}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                        {report.summary.invalid > 0 && (
+                            <p className="text-xs text-destructive">Corrige las filas con errores y vuelve a subir el archivo.</p>
+                        )}
+                    </div>
+                )}
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={handleClose}>Cerrar</Button>
+                    <Button onClick={handleImport} disabled={!canImport || importMutation.isPending}>
+                        {importMutation.isPending && report && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                        Importar {pending} platillos
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default MenuImportDialog;
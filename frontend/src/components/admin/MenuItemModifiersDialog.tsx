@@ -0,0 +1,327 @@
+import { useEffect, useState } from 'react';
+import { Layers, Loader2, Plus, Star, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useSetMenuItemModifiers } from '@/hooks/useData';
+import { MenuItem } from '@/types';
+import { toast } from 'sonner';
+
+interface MenuItemModifiersDialogProps {
+    open: boolean;
+    onClose: () => void;
+    item: MenuItem | null;
+    /** Dishes a combo option can stand for */
+    items: MenuItem[];
+}
+
+// Drafts keep numbers as typed so fields can be left empty while editing
+interface VariantDraft {
+    id?: string;
+    name: string;
+    price: string;
+    isDefault: boolean;
+    isAvailable: boolean;
+}
+
+interface OptionDraft {
+    id?: string;
+    name: string;
+    priceDelta: string;
+    linkedItemId: string | null;
+    isDefault: boolean;
+    isAvailable: boolean;
+}
+
+interface GroupDraft {
+    id?: string;
+    name: string;
+    isRequired: boolean;
+    minSelections: string;
+    maxSelections: string;
+    options: OptionDraft[];
+}
+
+// Value of the combo select for an option that is not a dish
+const NO_DISH = 'none';
+
+const emptyOption = (): OptionDraft => ({ name: '', priceDelta: '0', linkedItemId: null, isDefault: false, isAvailable: true });
+
+const MenuItemModifiersDialog = ({ open, onClose, item, items }: MenuItemModifiersDialogProps) => {
+    const [variants, setVariants] = useState<VariantDraft[]>([]);
+    const [groups, setGroups] = useState<GroupDraft[]>([]);
+    const saveMutation = useSetMenuItemModifiers();
+
+    useEffect(() => {
+        if (!open || !item) return;
+        setVariants((item.variants || []).map(variant => ({
+            id: variant.id,
+            name: variant.name,
+            price: String(variant.price),
+            isDefault: variant.isDefault,
+            isAvailable: variant.isAvailable,
+        })));
+        setGroups((item.modifierGroups || []).map(group => ({
+            id: group.id,
+            name: group.name,
+            isRequired: group.isRequired,
+            minSelections: String(group.minSelections),
+            maxSelections: group.maxSelections === null ? '' : String(group.maxSelections),
+            options: group.options.map(option => ({ ...option, priceDelta: String(option.priceDelta) })),
+        })));
+    }, [open, item]);
+
+    const updateVariant = (index: number, changes: Partial<VariantDraft>) =>
+        setVariants(list => list.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)));
+
+    const setDefaultVariant = (index: number) =>
+        setVariants(list => list.map((variant, i) => ({ ...variant, isDefault: i === index })));
+
+    const updateGroup = (index: number, changes: Partial<GroupDraft>) =>
+        setGroups(list => list.map((group, i) => (i === index ? { ...group, ...changes } : group)));
+
+    const updateOption = (groupIndex: number, optionIndex: number, changes: Partial<OptionDraft>) =>
+        updateGroup(groupIndex, {
+            options: groups[groupIndex].options.map((option, i) => (i === optionIndex ? { ...option, ...changes } : option)),
+        });
+
+    const handleSave = async () => {
+        if (!item) return;
+        try {
+            await saveMutation.mutateAsync({
+                itemId: item.id,
+                modifiers: {
+                    variants: variants.map(variant => ({ ...variant, price: Number(variant.price) })),
+                    modifierGroups: groups.map(group => ({
+                        ...group,
+                        minSelections: group.minSelections === '' ? (group.isRequired ? 1 : 0) : Number(group.minSelections),
+                        maxSelections: group.maxSelections === '' ? null : Number(group.maxSelections),
+                        options: group.options.map(option => ({ ...option, priceDelta: Number(option.priceDelta) || 0 })),
+                    })),
+                },
+            });
+            toast.success('Variantes y extras guardados');
+            onClose();
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Error al guardar variantes y extras');
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+            <DialogContent className="sm:max-w-[680px] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <Layers className="w-5 h-5 text-primary" />
+                        Variantes y extras · {item?.name}
+                    </DialogTitle>
+                    <DialogDescription>
+                        Tamaños con su propio precio, extras con cargo y elecciones obligatorias
+                        (por ejemplo "elige 3 guisos"). Para un combo, liga cada opción a un platillo.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {/* Variants */}
+                <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                        <p className="text-sm font-medium">Tamaños o presentaciones</p>
+                        <Button
+                            size="sm"
+                            variant="outline"
+                            className="gap-1"
+                            onClick={() => setVariants(list => [...list, { name: '', price: '', isDefault: list.length === 0, isAvailable: true }])}
+                        >
+                            <Plus className="w-4 h-4" />Variante
+                        </Button>
+                    </div>
+                    {variants.length === 0 && (
+                        <p className="text-xs text-muted-foreground">Sin variantes: se cobra el precio del platillo (${item?.price}).</p>
+                    )}
+                    {variants.map((variant, index) => (
+                        <div key={variant.id || index} className="flex items-center gap-2">
+                            <Input
+                                placeholder="Media orden"
+                                value={variant.name}
+                                onChange={(e) => updateVariant(index, { name: e.target.value })}
+                                className="h-9"
+                            />
+                            <Input
+                                type="number"
+                                min={0}
+                                step="0.01"
+                                placeholder="Precio"
+                                value={variant.price}
+                                onChange={(e) => updateVariant(index, { price: e.target.value })}
+                                className="h-9 w-28"
+                            />
+                            <Button size="icon" variant="ghost" className="h-9 w-9" title="Predeterminada" onClick={() => setDefaultVariant(index)}>
+                                <Star className={`w-4 h-4 ${variant.isDefault ? 'fill-warning text-warning' : ''}`} />
+                            </Button>
+                            <Switch
+                                checked={variant.isAvailable}
+                                onCheckedChange={(checked) => updateVariant(index, { isAvailable: checked })}
+                                title="Disponible"
+                            />
+                            <Button
+                                size="icon"
+                                variant="ghost"
+                                className="h-9 w-9 text-destructive"
+                                onClick={() => setVariants(list => list.filter((_, i) => i !== index))}
+                            >
+                                <Trash2 className="w-4 h-4" />
+                            </Button>
+                        </div>
+                    ))}
+                </div>
+
+                {/* Modifier groups */}
+                <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                        <p className="text-sm font-medium">Extras y elecciones</p>
+                        <Button
+                            size="sm"
+                            variant="outline"
+                            className="gap-1"
+                            onClick={() => setGroups(list => [
+                                ...list,
+                                { name: '', isRequired: false, minSelections: '0', maxSelections: '', options: [emptyOption()] },
+                            ])}
+                        >
+                            <Plus className="w-4 h-4" />Grupo
+                        </Button>
+                    </div>
+                    {groups.map((group, groupIndex) => (
+                        <div key={group.id || groupIndex} className="rounded-lg border border-border bg-muted/30 p-3 space-y-3">
+                            <div className="flex items-center gap-2">
+                                <Input
+                                    placeholder="Elige tus guisos"
+                                    value={group.name}
+                                    onChange={(e) => updateGroup(groupIndex, { name: e.target.value })}
+                                    className="h-9"
+                                />
+                                <Button
+                                    size="icon"
+                                    variant="ghost"
+                                    className="h-9 w-9 text-destructive"
+                                    onClick={() => setGroups(list => list.filter((_, i) => i !== groupIndex))}
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </Button>
+                            </div>
+                            <div className="grid grid-cols-3 gap-3 items-end">
+                                <div className="flex items-center gap-2 h-9">
+                                    <Switch
+                                        checked={group.isRequired}
+                                        onCheckedChange={(checked) => updateGroup(groupIndex, {
+                                            isRequired: checked,
+                                            minSelections: checked && Number(group.minSelections) < 1 ? '1' : group.minSelections,
+                                        })}
+                                    />
+                                    <Label className="text-xs">Obligatorio</Label>
+                                </div>
+                                <div>
+                                    <Label className="text-xs mb-1 block">Mínimo</Label>
+                                    <Input
+                                        type="number"
+                                        min={0}
+                                        value={group.minSelections}
+                                        onChange={(e) => updateGroup(groupIndex, { minSelections: e.target.value })}
+                                        className="h-9"
+                                    />
+                                </div>
+                                <div>
+                                    <Label className="text-xs mb-1 block">Máximo</Label>
+                                    <Input
+                                        type="number"
+                                        min={1}
+                                        placeholder="Sin límite"
+                                        value={group.maxSelections}
+                                        onChange={(e) => updateGroup(groupIndex, { maxSelections: e.target.value })}
+                                        className="h-9"
+                                    />
+                                </div>
+                            </div>
+                            <div className="space-y-2">
+                                {group.options.map((option, optionIndex) => (
+                                    <div key={option.id || optionIndex} className="flex items-center gap-2">
+                                        <Input
+                                            placeholder="Queso extra"
+                                            value={option.name}
+                                            onChange={(e) => updateOption(groupIndex, optionIndex, { name: e.target.value })}
+                                            className="h-9"
+                                        />
+                                        <Input
+                                            type="number"
+                                            step="0.01"
+                                            title="Cargo extra (MXN)"
+                                            value={option.priceDelta}
+                                            onChange={(e) => updateOption(groupIndex, optionIndex, { priceDelta: e.target.value })}
+                                            className="h-9 w-24"
+                                        />
+                                        <Select
+                                            value={option.linkedItemId || NO_DISH}
+                                            onValueChange={(value) => updateOption(groupIndex, optionIndex, {
+                                                linkedItemId: value === NO_DISH ? null : value,
+                                            })}
+                                        >
+                                            <SelectTrigger className="h-9 w-40"><SelectValue /></SelectTrigger>
+                                            <SelectContent>
+                                                <SelectItem value={NO_DISH}>Sin platillo</SelectItem>
+                                                {items
+                                                    .filter(entry => entry.id !== item?.id)
+                                                    .map(entry => <SelectItem key={entry.id} value={entry.id}>{entry.name}</SelectItem>)}
+                                            </SelectContent>
+                                        </Select>
+                                        <Switch
+                                            checked={option.isAvailable}
+                                            onCheckedChange={(checked) => updateOption(groupIndex, optionIndex, { isAvailable: checked })}
+                                            title="Disponible"
+                                        />
+                                        <Button
+                                            size="icon"
+                                            variant="ghost"
+                                            className="h-9 w-9 text-destructive"
+                                            onClick={() => updateGroup(groupIndex, {
+                                                options: group.options.filter((_, i) => i !== optionIndex),
+                                            })}
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </Button>
+                                    </div>
+                                ))}
+                                <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    className="gap-1"
+                                    onClick={() => updateGroup(groupIndex, { options: [...group.options, emptyOption()] })}
+                                >
+                                    <Plus className="w-4 h-4" />Opción
+                                </Button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={onClose}>Cancelar</Button>
+                    <Button onClick={handleSave} disabled={saveMutation.isPending}>
+                        {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                        Guardar
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default MenuItemModifiersDialog;
@@ -0,0 +1,342 @@
+import { DragEvent, useEffect, useState } from 'react';
+import { Check, GripVertical, ListTree, Loader2, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCreateMenuCategory, useUpdateMenuCategory, useDeleteMenuCategory, useReorderMenu } from '@/hooks/useData';
+import { MenuCategory, MenuItem } from '@/types';
+import { toast } from 'sonner';
+
+interface MenuOrganizerDialogProps {
+    open: boolean;
+    onClose: () => void;
+    restaurantId: string | undefined;
+    categories: MenuCategory[];
+    items: MenuItem[];
+}
+
+type Dragged = { kind: 'category' | 'item'; id: string };
+
+// Value of the parent select for a top-level category
+const TOP_LEVEL = 'none';
+// Group of items without a category (not backfilled yet)
+const UNCATEGORIZED = 'uncategorized';
+
+const byOrder = (a: MenuCategory, b: MenuCategory) => a.order - b.order;
+const bySortOrder = (a: MenuItem, b: MenuItem) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0);
+
+/** Put `moved` in front of `beforeId`, or at the end */
+const moveBefore = <T extends { id: string }>(list: T[], moved: T, beforeId?: string): T[] => {
+    const rest = list.filter(entry => entry.id !== moved.id);
+    const index = beforeId ? rest.findIndex(entry => entry.id === beforeId) : -1;
+    return index === -1 ? [...rest, moved] : [...rest.slice(0, index), moved, ...rest.slice(index)];
+};
+
+const MenuOrganizerDialog = ({ open, onClose, restaurantId, categories, items }: MenuOrganizerDialogProps) => {
+    // Local copies so a drop shows right away, before the menu is refetched
+    const [categoryList, setCategoryList] = useState<MenuCategory[]>(categories);
+    const [itemList, setItemList] = useState<MenuItem[]>(items);
+    const [dragged, setDragged] = useState<Dragged | null>(null);
+    const [newName, setNewName] = useState('');
+    const [newParentId, setNewParentId] = useState(TOP_LEVEL);
+    const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+    const [deleting, setDeleting] = useState<MenuCategory | null>(null);
+    const [moveTo, setMoveTo] = useState('');
+
+    const createMutation = useCreateMenuCategory();
+    const updateMutation = useUpdateMenuCategory();
+    const deleteMutation = useDeleteMenuCategory();
+    const reorderMutation = useReorderMenu();
+
+    useEffect(() => setCategoryList(categories), [categories]);
+    useEffect(() => setItemList(items), [items]);
+
+    const topLevel = categoryList.filter(category => !category.parentId).sort(byOrder);
+    const childrenOf = (parentId: string) => categoryList.filter(category => category.parentId === parentId).sort(byOrder);
+    const itemsOf = (categoryId: string) => itemList
+        .filter(item => (item.categoryId || UNCATEGORIZED) === categoryId)
+        .sort(bySortOrder);
+    const uncategorized = itemsOf(UNCATEGORIZED);
+
+    const saveOrder = async (reorder: Parameters<typeof reorderMutation.mutateAsync>[0]) => {
+        try {
+            await reorderMutation.mutateAsync(reorder);
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'No se pudo guardar el orden');
+            setCategoryList(categories);
+            setItemList(items);
+        }
+    };
+
+    const dropOnCategory = (target: MenuCategory) => {
+        if (!dragged || dragged.kind !== 'category' || dragged.id === target.id) return;
+        const moved = categoryList.find(category => category.id === dragged.id);
+        // Categories are only reordered among their siblings
+        if (!moved || moved.parentId !== target.parentId) return;
+
+        const siblings = moveBefore(
+            categoryList.filter(category => category.parentId === target.parentId).sort(byOrder),
+            moved,
+            target.id
+        ).map((category, index) => ({ ...category, order: index }));
+
+        setCategoryList(list => list.map(category => siblings.find(sibling => sibling.id === category.id) || category));
+        saveOrder({ categories: siblings.map(category => ({ id: category.id, sortOrder: category.order })), items: [] });
+    };
+
+    const dropOnItems = (categoryId: string, beforeItemId?: string) => {
+        if (!dragged || dragged.kind !== 'item' || dragged.id === beforeItemId || categoryId === UNCATEGORIZED) return;
+        const moved = itemList.find(item => item.id === dragged.id);
+        if (!moved) return;
+
+        const changesCategory = moved.categoryId !== categoryId;
+        const target = moveBefore(itemsOf(categoryId), { ...moved, categoryId }, beforeItemId)
+            .map((item, index) => ({ ...item, sortOrder: index }));
+
+        setItemList(list => list.map(item => target.find(entry => entry.id === item.id) || item));
+        saveOrder({
+            categories: [],
+            items: target.map(item => ({
+                id: item.id,
+                sortOrder: item.sortOrder,
+                ...(changesCategory && item.id === moved.id ? { categoryId } : {}),
+            })),
+        });
+    };
+
+    const handleDragStart = (event: DragEvent, entry: Dragged) => {
+        event.stopPropagation();
+        event.dataTransfer.effectAllowed = 'move';
+        setDragged(entry);
+    };
+
+    const allowDrop = (event: DragEvent) => {
+        event.preventDefault();
+        event.dataTransfer.dropEffect = 'move';
+    };
+
+    const handleCreate = async () => {
+        if (!restaurantId || !newName.trim()) return;
+        try {
+            await createMutation.mutateAsync({
+                restaurantId,
+                name: newName.trim(),
+                parentId: newParentId === TOP_LEVEL ? null : newParentId,
+            });
+            toast.success('Categoría creada');
+            setNewName('');
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Error al crear la categoría');
+        }
+    };
+
+    const handleRename = async () => {
+        if (!editing || !editing.name.trim()) return;
+        try {
+            await updateMutation.mutateAsync({ categoryId: editing.id, updates: { name: editing.name.trim() } });
+            toast.success('Categoría renombrada');
+            setEditing(null);
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Error al renombrar la categoría');
+        }
+    };
+
+    const countItems = (category: MenuCategory) =>
+        [category, ...childrenOf(category.id)].reduce((total, entry) => total + itemsOf(entry.id).length, 0);
+
+    const handleDelete = async () => {
+        if (!deleting) return;
+        if (countItems(deleting) > 0 && !moveTo) {
+            toast.error('Elige a qué categoría pasan sus platillos');
+            return;
+        }
+        try {
+            await deleteMutation.mutateAsync({ categoryId: deleting.id, moveTo: moveTo || undefined });
+            toast.success('Categoría eliminada');
+            setDeleting(null);
+            setMoveTo('');
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Error al eliminar la categoría');
+        }
+    };
+
+    const renderItems = (categoryId: string) => (
+        <div
+            className="space-y-1 min-h-[2rem] rounded-md p-1"
+            onDragOver={dragged?.kind === 'item' ? allowDrop : undefined}
+            onDrop={(event) => { event.preventDefault(); dropOnItems(categoryId); }}
+        >
+            {itemsOf(categoryId).map(item => (
+                <div
+                    key={item.id}
+                    draggable
+                    onDragStart={(event) => handleDragStart(event, { kind: 'item', id: item.id })}
+                    onDragEnd={() => setDragged(null)}
+                    onDragOver={dragged?.kind === 'item' ? allowDrop : undefined}
+                    onDrop={(event) => { event.preventDefault(); event.stopPropagation(); dropOnItems(categoryId, item.id); }}
+                    className={`flex items-center gap-2 rounded-md bg-background px-2 py-1.5 text-sm cursor-grab ${dragged?.id === item.id ? 'opacity-50' : ''}`}
+                >
+                    <GripVertical className="w-3.5 h-3.5 text-muted-foreground" />
+                    <span className="truncate">{item.name}</span>
+                </div>
+            ))}
+            {itemsOf(categoryId).length === 0 && (
+                <p className="text-xs text-muted-foreground px-2 py-1">Arrastra platillos aquí</p>
+            )}
+        </div>
+    );
+
+    const renderCategory = (category: MenuCategory, isSubcategory = false) => (
+        <div
+            key={category.id}
+            draggable
+            onDragStart={(event) => handleDragStart(event, { kind: 'category', id: category.id })}
+            onDragEnd={() => setDragged(null)}
+            onDragOver={dragged?.kind === 'category' ? allowDrop : undefined}
+            onDrop={(event) => {
+                if (dragged?.kind !== 'category') return;
+                event.preventDefault();
+                event.stopPropagation();
+                dropOnCategory(category);
+            }}
+            className={`rounded-lg border border-border p-3 space-y-2 ${isSubcategory ? 'ml-6 bg-muted/20' : 'bg-muted/40'} ${dragged?.id === category.id ? 'opacity-50' : ''}`}
+        >
+            <div className="flex items-center gap-2">
+                <GripVertical className="w-4 h-4 text-muted-foreground cursor-grab" />
+                {editing?.id === category.id ? (
+                    <>
+                        <Input
+                            value={editing.name}
+                            onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                            onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+                            className="h-8"
+                            autoFocus
+                        />
+                        <Button size="icon" variant="ghost" className="h-8 w-8" onClick={handleRename} disabled={updateMutation.isPending}>
+                            <Check className="w-4 h-4" />
+                        </Button>
+                        <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => setEditing(null)}>
+                            <X className="w-4 h-4" />
+                        </Button>
+                    </>
+                ) : (
+                    <>
+                        <p className="font-medium flex-1">{category.name}</p>
+                        <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => setEditing({ id: category.id, name: category.name })}>
+                            <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-8 w-8 text-destructive"
+                            onClick={() => { setDeleting(category); setMoveTo(''); }}
+                        >
+                            <Trash2 className="w-4 h-4" />
+                        </Button>
+                    </>
+                )}
+            </div>
+
+            {deleting?.id === category.id && (
+                <div className="rounded-md border border-destructive/40 bg-destructive/5 p-3 space-y-2">
+                    <p className="text-sm">
+                        {countItems(category) > 0
+                            ? `Tiene ${countItems(category)} platillos. ¿A qué categoría los pasamos?`
+                            : '¿Eliminar esta categoría?'}
+                    </p>
+                    {countItems(category) > 0 && (
+                        <Select value={moveTo} onValueChange={setMoveTo}>
+                            <SelectTrigger className="h-9"><SelectValue placeholder="Elige una categoría" /></SelectTrigger>
+                            <SelectContent>
+                                {categoryList
+                                    .filter(entry => entry.id !== category.id && entry.parentId !== category.id)
+                                    .map(entry => <SelectItem key={entry.id} value={entry.id}>{entry.name}</SelectItem>)}
+                            </SelectContent>
+                        </Select>
+                    )}
+                    <div className="flex justify-end gap-2">
+                        <Button size="sm" variant="outline" onClick={() => setDeleting(null)}>Cancelar</Button>
+                        <Button size="sm" variant="destructive" onClick={handleDelete} disabled={deleteMutation.isPending}>
+                            {deleteMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                            Eliminar
+                        </Button>
+                    </div>
+                </div>
+            )}
+
+            {renderItems(category.id)}
+            {!isSubcategory && childrenOf(category.id).map(sub => renderCategory(sub, true))}
+        </div>
+    );
+
+    return (
+        <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+            <DialogContent className="sm:max-w-[620px] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <ListTree className="w-5 h-5 text-primary" />
+                        Organizar menú
+                        {reorderMutation.isPending && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+                    </DialogTitle>
+                    <DialogDescription>
+                        Arrastra categorías y platillos para cambiar el orden en que los ven tus clientes.
+                        Suelta un platillo en otra categoría para moverlo.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {/* New category */}
+                <div className="bg-muted/30 rounded-lg p-4 space-y-3">
+                    <p className="text-sm font-medium text-muted-foreground">Nueva categoría</p>
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <Label className="text-xs mb-1 block">Nombre</Label>
+                            <Input
+                                placeholder="Cervezas"
+                                value={newName}
+                                onChange={(e) => setNewName(e.target.value)}
+                                className="h-10 border-2"
+                            />
+                        </div>
+                        <div>
+                            <Label className="text-xs mb-1 block">Dentro de</Label>
+                            <Select value={newParentId} onValueChange={setNewParentId}>
+                                <SelectTrigger className="h-10 border-2"><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={TOP_LEVEL}>Categoría principal</SelectItem>
+                                    {topLevel.map(category => <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>)}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
+                    <Button onClick={handleCreate} disabled={createMutation.isPending || !newName.trim()} className="w-full gap-2">
+                        {createMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                        Agregar categoría
+                    </Button>
+                </div>
+
+                <div className="space-y-3">
+                    {topLevel.length === 0 ? (
+                        <p className="text-sm text-muted-foreground text-center py-6">Aún no tienes categorías.</p>
+                    ) : topLevel.map(category => renderCategory(category))}
+
+                    {uncategorized.length > 0 && (
+                        <div className="rounded-lg border border-dashed border-border p-3 space-y-2">
+                            <p className="font-medium text-muted-foreground">Sin categoría</p>
+                            {renderItems(UNCATEGORIZED)}
+                        </div>
+                    )}
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default MenuOrganizerDialog;
@@ -0,0 +1,262 @@
+import { useState } from 'react';
+import { Clock, Loader2, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { usePricingRules, useCreatePricingRule, useUpdatePricingRule, useDeletePricingRule } from '@/hooks/useData';
+import { MenuItem, MenuPricingDiscountType, MenuPricingRule, WeekDay } from '@/types';
+import { toast } from 'sonner';
+
+interface MenuPricingRulesDialogProps {
+    open: boolean;
+    onClose: () => void;
+    restaurantId: string | undefined;
+    items: MenuItem[];
+    /** Categories and subcategories, by id */
+    categories: { value: string; label: string }[];
+}
+
+const WEEK_DAYS: { value: WeekDay; label: string }[] = [
+    { value: 'monday', label: 'L' },
+    { value: 'tuesday', label: 'M' },
+    { value: 'wednesday', label: 'Mi' },
+    { value: 'thursday', label: 'J' },
+    { value: 'friday', label: 'V' },
+    { value: 'saturday', label: 'S' },
+    { value: 'sunday', label: 'D' },
+];
+
+const describeDiscount = (rule: Pick<MenuPricingRule, 'discountType' | 'discountValue'>) => {
+    if (rule.discountType === 'percentage') return `-${rule.discountValue}%`;
+    if (rule.discountType === 'fixed') return `-$${rule.discountValue}`;
+    return `$${rule.discountValue}`;
+};
+
+const MenuPricingRulesDialog = ({ open, onClose, restaurantId, items, categories }: MenuPricingRulesDialogProps) => {
+    const [name, setName] = useState('');
+    const [target, setTarget] = useState<'category' | 'item'>('category');
+    const [categoryId, setCategoryId] = useState(categories[0]?.value || '');
+    const [menuItemId, setMenuItemId] = useState('');
+    const [validDays, setValidDays] = useState<WeekDay[] | null>(null);
+    const [startTime, setStartTime] = useState('17:00');
+    const [endTime, setEndTime] = useState('19:00');
+    const [discountType, setDiscountType] = useState<MenuPricingDiscountType>('percentage');
+    const [discountValue, setDiscountValue] = useState('');
+
+    const { data: rules = [], isLoading } = usePricingRules(open ? restaurantId : undefined);
+    const createMutation = useCreatePricingRule();
+    const updateMutation = useUpdatePricingRule();
+    const deleteMutation = useDeletePricingRule();
+
+    const toggleDay = (day: WeekDay) => {
+        const current = validDays?.length ? validDays : WEEK_DAYS.map(d => d.value);
+        const next = current.includes(day) ? current.filter(d => d !== day) : [...current, day];
+        // Every day (or none) means no restriction
+        setValidDays(next.length === 0 || next.length === WEEK_DAYS.length ? null : next);
+    };
+
+    const describeTarget = (rule: MenuPricingRule) =>
+        rule.menuItemId ? (items.find(item => item.id === rule.menuItemId)?.name || 'Platillo') : `Categoría ${rule.category}`;
+
+    const handleCreate = async () => {
+        if (!name.trim() || discountValue === '' || (target === 'item' ? !menuItemId : !categoryId)) {
+            toast.error('Por favor completa todos los campos requeridos');
+            return;
+        }
+
+        try {
+            await createMutation.mutateAsync({
+                name: name.trim(),
+                validDays,
+                startTime,
+                endTime,
+                menuItemId: target === 'item' ? menuItemId : null,
+                categoryId: target === 'category' ? categoryId : null,
+                discountType,
+                discountValue: Number(discountValue),
+                isActive: true,
+            });
+            toast.success('Regla de precio creada');
+            setName('');
+            setDiscountValue('');
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Error al crear la regla de precio');
+        }
+    };
+
+    const handleToggle = async (rule: MenuPricingRule) => {
+        try {
+            await updateMutation.mutateAsync({ ruleId: rule.id, updates: { isActive: !rule.isActive } });
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Error al actualizar la regla de precio');
+        }
+    };
+
+    const handleDelete = async (rule: MenuPricingRule) => {
+        if (!confirm(`¿Eliminar la regla "${rule.name}"?`)) return;
+        try {
+            await deleteMutation.mutateAsync(rule.id);
+            toast.success('Regla de precio eliminada');
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Error al eliminar la regla de precio');
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+            <DialogContent className="sm:max-w-[620px] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <Clock className="w-5 h-5 text-primary" />
+                        Precios por horario
+                    </DialogTitle>
+                    <DialogDescription>
+                        Baja el precio de un platillo o de una categoría en ciertos días y horas (happy hour).
+                        Si varias reglas aplican, tus clientes ven el precio más bajo.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {/* New rule */}
+                <div className="bg-muted/30 rounded-lg p-4 space-y-3">
+                    <p className="text-sm font-medium text-muted-foreground">Nueva regla</p>
+                    <div>
+                        <Label className="text-xs mb-1 block">Nombre</Label>
+                        <Input
+                            placeholder="Happy hour"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            className="h-10 border-2"
+                        />
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <Label className="text-xs mb-1 block">Aplica a</Label>
+                            <Select value={target} onValueChange={(value) => setTarget(value as 'category' | 'item')}>
+                                <SelectTrigger className="h-10 border-2"><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="category">Una categoría</SelectItem>
+                                    <SelectItem value="item">Un platillo</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div>
+                            <Label className="text-xs mb-1 block">{target === 'item' ? 'Platillo' : 'Categoría'}</Label>
+                            {target === 'item' ? (
+                                <Select value={menuItemId} onValueChange={setMenuItemId}>
+                                    <SelectTrigger className="h-10 border-2"><SelectValue placeholder="Elige un platillo" /></SelectTrigger>
+                                    <SelectContent>
+                                        {items.map(item => <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>)}
+                                    </SelectContent>
+                                </Select>
+                            ) : (
+                                <Select value={categoryId} onValueChange={setCategoryId}>
+                                    <SelectTrigger className="h-10 border-2"><SelectValue placeholder="Elige una categoría" /></SelectTrigger>
+                                    <SelectContent>
+                                        {categories.map(c => <SelectItem key={c.value} value={c.value}>{c.label}</SelectItem>)}
+                                    </SelectContent>
+                                </Select>
+                            )}
+                        </div>
+                    </div>
+                    <div>
+                        <Label className="text-xs mb-1 block">Días</Label>
+                        <div className="flex gap-1">
+                            {WEEK_DAYS.map(day => (
+                                <Button
+                                    key={day.value}
+                                    type="button"
+                                    size="sm"
+                                    variant={!validDays?.length || validDays.includes(day.value) ? 'default' : 'outline'}
+                                    className="h-8 w-9 px-0"
+                                    onClick={() => toggleDay(day.value)}
+                                >
+                                    {day.label}
+                                </Button>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <Label className="text-xs mb-1 block">Desde las</Label>
+                            <Input type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} className="h-10 border-2" />
+                        </div>
+                        <div>
+                            <Label className="text-xs mb-1 block">Hasta las</Label>
+                            <Input type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} className="h-10 border-2" />
+                        </div>
+                        <div>
+                            <Label className="text-xs mb-1 block">Descuento</Label>
+                            <Select value={discountType} onValueChange={(value) => setDiscountType(value as MenuPricingDiscountType)}>
+                                <SelectTrigger className="h-10 border-2"><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="percentage">Porcentaje</SelectItem>
+                                    <SelectItem value="fixed">Monto a restar</SelectItem>
+                                    <SelectItem value="price">Precio especial</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div>
+                            <Label className="text-xs mb-1 block">{discountType === 'percentage' ? 'Porcentaje' : 'Monto (MXN)'}</Label>
+                            <Input
+                                type="number"
+                                min={0}
+                                max={discountType === 'percentage' ? 100 : undefined}
+                                value={discountValue}
+                                onChange={(e) => setDiscountValue(e.target.value)}
+                                className="h-10 border-2"
+                            />
+                        </div>
+                    </div>
+                    <Button onClick={handleCreate} disabled={createMutation.isPending} className="w-full">
+                        {createMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                        Agregar regla
+                    </Button>
+                </div>
+
+                {/* Rules */}
+                <div className="space-y-3">
+                    {isLoading ? (
+                        <div className="flex justify-center py-6">
+                            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+                        </div>
+                    ) : rules.length === 0 ? (
+                        <p className="text-sm text-muted-foreground text-center py-6">Aún no tienes precios por horario.</p>
+                    ) : rules.map(rule => (
+                        <div key={rule.id} className="border border-border rounded-lg p-4 flex items-start justify-between gap-3">
+                            <div className="space-y-1">
+                                <div className="flex items-center gap-2">
+                                    <p className="font-medium">{rule.name}</p>
+                                    <Badge variant="outline" className="text-[10px]">{describeDiscount(rule)}</Badge>
+                                </div>
+                                <p className="text-xs text-muted-foreground">
+                                    {describeTarget(rule)} · {rule.startTime} - {rule.endTime}
+                                    {rule.validDays?.length
+                                        ? ` · ${WEEK_DAYS.filter(d => rule.validDays?.includes(d.value)).map(d => d.label).join(' ')}`
+                                        : ' · Todos los días'}
+                                </p>
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <Switch checked={rule.isActive} onCheckedChange={() => handleToggle(rule)} />
+                                <Button variant="ghost" size="icon" className="text-destructive" onClick={() => handleDelete(rule)}>
+                                    <Trash2 className="w-4 h-4" />
+                                </Button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default MenuPricingRulesDialog;
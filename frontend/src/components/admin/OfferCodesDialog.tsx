@@ -0,0 +1,233 @@
+import { useState } from 'react';
+import { Download, Ban, Loader2, Ticket, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle
+} from '@/components/ui/dialog';
+import { useOfferCodeBatches, useCreateOfferCodeBatch, useRevokeOfferCodes, useOfferCodes } from '@/hooks/useData';
+import { offerService } from '@/services/api';
+import { Offer } from '@/types';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { toast } from 'sonner';
+
+interface OfferCodesDialogProps {
+    offer: Offer | null;
+    onClose: () => void;
+}
+
+const MAX_BATCH_SIZE = 5000;
+
+const OfferCodesDialog = ({ offer, onClose }: OfferCodesDialogProps) => {
+    const [quantity, setQuantity] = useState('100');
+    const [name, setName] = useState('');
+    const [prefix, setPrefix] = useState('');
+    const [exportingBatchId, setExportingBatchId] = useState<string | null>(null);
+    // Batch whose redeemed codes are listed
+    const [selectedBatchId, setSelectedBatchId] = useState<string | null>(null);
+
+    const { data: batches = [], isLoading } = useOfferCodeBatches(offer?.id);
+    const { data: redeemedCodes = [], isLoading: codesLoading } = useOfferCodes(offer?.id, {
+        batchId: selectedBatchId || undefined,
+        status: 'redeemed',
+    });
+    const createBatchMutation = useCreateOfferCodeBatch();
+    const revokeMutation = useRevokeOfferCodes();
+
+    const handleGenerate = async () => {
+        if (!offer) return;
+        const amount = Number(quantity);
+        if (!Number.isInteger(amount) || amount < 1 || amount > MAX_BATCH_SIZE) {
+            toast.error(`La cantidad debe estar entre 1 y ${MAX_BATCH_SIZE}`);
+            return;
+        }
+
+        try {
+            const batch = await createBatchMutation.mutateAsync({
+                offerId: offer.id,
+                batch: { quantity: amount, name: name.trim() || undefined, prefix: prefix.trim() || undefined },
+            });
+            toast.success(`Se generaron ${batch.quantity} códigos`);
+            setName('');
+            setPrefix('');
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Error al generar los códigos');
+        }
+    };
+
+    const handleExport = async (batchId: string, batchName: string) => {
+        if (!offer) return;
+        setExportingBatchId(batchId);
+        try {
+            const blob = await offerService.exportCodes(offer.id, batchId);
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.setAttribute('href', url);
+            link.setAttribute('download', `codigos_${batchName.replace(/\s+/g, '_')}.csv`);
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            URL.revokeObjectURL(url);
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Error al exportar los códigos');
+        } finally {
+            setExportingBatchId(null);
+        }
+    };
+
+    const handleRevoke = async (batchId: string, available: number) => {
+        if (!offer) return;
+        if (!confirm(`¿Revocar los ${available} códigos sin usar de este lote? Ya no podrán canjearse.`)) return;
+
+        try {
+            const revoked = await revokeMutation.mutateAsync({ offerId: offer.id, target: { batchId } });
+            toast.success(`Se revocaron ${revoked} códigos`);
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Error al revocar los códigos');
+        }
+    };
+
+    return (
+        <Dialog open={offer !== null} onOpenChange={(open) => !open && onClose()}>
+            <DialogContent className="sm:max-w-[620px] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <Ticket className="w-5 h-5 text-primary" />
+                        Códigos únicos
+                    </DialogTitle>
+                    <DialogDescription>
+                        {offer?.title}: cada código se puede usar una sola vez. Al generar códigos,
+                        la oferta solo podrá usarse con uno de ellos.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {/* New batch */}
+                <div className="bg-muted/30 rounded-lg p-4 space-y-3">
+                    <p className="text-sm font-medium text-muted-foreground">Nuevo lote</p>
+                    <div className="grid grid-cols-3 gap-3">
+                        <div>
+                            <Label className="text-xs mb-1 block">Cantidad</Label>
+                            <Input
+                                type="number"
+                                min={1}
+                                max={MAX_BATCH_SIZE}
+                                value={quantity}
+                                onChange={(e) => setQuantity(e.target.value)}
+                                className="h-10 border-2"
+                            />
+                        </div>
+                        <div>
+                            <Label className="text-xs mb-1 block">Nombre</Label>
+                            <Input
+                                placeholder="Volantes octubre"
+                                value={name}
+                                onChange={(e) => setName(e.target.value)}
+                                className="h-10 border-2"
+                            />
+                        </div>
+                        <div>
+                            <Label className="text-xs mb-1 block">Prefijo</Label>
+                            <Input
+                                placeholder="OTONO"
+                                value={prefix}
+                                onChange={(e) => setPrefix(e.target.value.toUpperCase())}
+                                maxLength={12}
+                                className="h-10 border-2"
+                            />
+                        </div>
+                    </div>
+                    <Button onClick={handleGenerate} disabled={createBatchMutation.isPending} className="w-full">
+                        {createBatchMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                        Generar códigos
+                    </Button>
+                </div>
+
+                {/* Batches */}
+                <div className="space-y-3">
+                    {isLoading ? (
+                        <div className="flex justify-center py-6">
+                            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+                        </div>
+                    ) : batches.length === 0 ? (
+                        <p className="text-sm text-muted-foreground text-center py-6">Esta oferta aún no tiene códigos.</p>
+                    ) : batches.map(batch => (
+                        <div key={batch.id} className="border border-border rounded-lg p-4 space-y-3">
+                            <div className="flex items-start justify-between gap-3">
+                                <div>
+                                    <p className="font-medium">{batch.name}</p>
+                                    <p className="text-xs text-muted-foreground">
+                                        {batch.quantity} códigos{batch.prefix ? ` · ${batch.prefix}-` : ''} · {format(new Date(batch.createdAt), 'd MMM yyyy', { locale: es })}
+                                    </p>
+                                </div>
+                                <div className="flex flex-wrap justify-end gap-1">
+                                    <Badge variant="outline" className="text-[10px]">{batch.available} disponibles</Badge>
+                                    <Badge variant="outline" className="text-[10px]">{batch.redeemed} canjeados</Badge>
+                                    {batch.revoked > 0 && <Badge variant="outline" className="text-[10px]">{batch.revoked} revocados</Badge>}
+                                </div>
+                            </div>
+                            <div className="flex flex-wrap gap-2">
+                                <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => handleExport(batch.id, batch.name)}
+                                    disabled={exportingBatchId === batch.id}
+                                >
+                                    {exportingBatchId === batch.id
+                                        ? <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                                        : <Download className="w-4 h-4 mr-1" />}
+                                    Exportar CSV
+                                </Button>
+                                <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => setSelectedBatchId(selectedBatchId === batch.id ? null : batch.id)}
+                                    disabled={batch.redeemed === 0}
+                                >
+                                    <Users className="w-4 h-4 mr-1" />
+                                    {selectedBatchId === batch.id ? 'Ocultar canjes' : 'Ver canjes'}
+                                </Button>
+                                <Button
+                                    size="sm"
+                                    variant="outline"
+                                    className="text-destructive hover:text-destructive"
+                                    onClick={() => handleRevoke(batch.id, batch.available)}
+                                    disabled={batch.available === 0 || revokeMutation.isPending}
+                                >
+                                    <Ban className="w-4 h-4 mr-1" />
+                                    Revocar no usados
+                                </Button>
+                            </div>
+
+                            {selectedBatchId === batch.id && (
+                                codesLoading ? (
+                                    <Loader2 className="w-4 h-4 animate-spin text-primary" />
+                                ) : (
+                                    <div className="divide-y divide-border text-sm">
+                                        {redeemedCodes.map(code => (
+                                            <div key={code.id} className="flex justify-between py-2">
+                                                <span className="font-mono">{code.code}</span>
+                                                <span className="text-muted-foreground">
+                                                    {code.redeemedBy || 'Cliente'}
+                                                    {code.redeemedAt && ` · ${format(new Date(code.redeemedAt), 'd MMM HH:mm', { locale: es })}`}
+                                                </span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )
+                            )}
+                        </div>
+                    ))}
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default OfferCodesDialog;
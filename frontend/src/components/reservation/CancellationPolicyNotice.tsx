@@ -0,0 +1,67 @@
+import { ShieldCheck } from 'lucide-react';
+import { CancellationPolicy } from '@/types';
+
+interface CancellationPolicyNoticeProps {
+    policy: CancellationPolicy | null;
+    /** Fixed no-show penalty (MXN) used when the policy sets no percentage */
+    noShowPenalty?: number | null;
+    className?: string;
+}
+
+const hoursLabel = (hours: number) => hours === 1 ? '1 hora' : `${hours} horas`;
+
+const refundLabel = (percent: number) => {
+    if (percent === 100) return 'reembolso total del anticipo';
+    if (percent === 0) return 'sin reembolso';
+    return `reembolso del ${percent}% del anticipo`;
+};
+
+/**
+ * One line per tier of a restaurant's cancellation policy, e.g. "Con 24 horas o más: reembolso total del anticipo"
+ */
+const describeCancellationPolicy = (policy: CancellationPolicy | null, noShowPenalty?: number | null): string[] => {
+    if (!policy) {
+        return ['Si cancelas, te devolvemos el anticipo completo.'];
+    }
+
+    const lines = policy.tiers.map((tier, index) => {
+        const previous = policy.tiers[index - 1];
+        if (tier.minHoursBefore === 0) {
+            return previous
+                ? `Con menos de ${hoursLabel(previous.minHoursBefore)}: ${refundLabel(tier.refundPercent)}`
+                : `En cualquier momento antes de tu reserva: ${refundLabel(tier.refundPercent)}`;
+        }
+        return `Con ${hoursLabel(tier.minHoursBefore)} o más de anticipación: ${refundLabel(tier.refundPercent)}`;
+    });
+
+    const last = policy.tiers[policy.tiers.length - 1];
+    if (last && last.minHoursBefore > 0) {
+        lines.push(`Con menos de ${hoursLabel(last.minHoursBefore)}: sin reembolso`);
+    }
+
+    if (policy.noShowPenaltyPercent !== null && policy.noShowPenaltyPercent !== undefined) {
+        lines.push(`Si no te presentas, el restaurante conserva el ${policy.noShowPenaltyPercent}% del anticipo`);
+    } else if (noShowPenalty) {
+        lines.push(`Si no te presentas, el restaurante conserva hasta $${noShowPenalty} MXN del anticipo`);
+    }
+
+    return lines;
+};
+
+const CancellationPolicyNotice = ({ policy, noShowPenalty, className }: CancellationPolicyNoticeProps) => (
+    <div className={className}>
+        <div className="flex items-start gap-3">
+            <ShieldCheck className="h-5 w-5 text-primary mt-0.5" />
+            <div>
+                <h4 className="font-semibold text-foreground">Política de cancelación</h4>
+                <ul className="text-sm text-muted-foreground mt-1 space-y-1">
+                    {describeCancellationPolicy(policy, noShowPenalty).map((line) => (
+                        <li key={line}>{line}</li>
+                    ))}
+                </ul>
+            </div>
+        </div>
+    </div>
+);
+
+export default CancellationPolicyNotice;
@@ -1,5 +1,5 @@
 import { motion } from 'framer-motion';
-import { Tag, Clock, Percent, ArrowRight, Sparkles } from 'lucide-react';
+import { Tag, Clock, Percent, ArrowRight, Sparkles, UtensilsCrossed } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
@@ -13,6 +13,8 @@ interface Offer {
     validHours?: string;
     validUntil?: string;
     code?: string;
+    /** Dishes the offer covers */
+    menuItems?: { id: string; name: string; price: number }[];
 }
 
 interface OffersSectionProps {
@@ -78,6 +80,24 @@ const OffersSection = ({ offers, onReserve }: OffersSectionProps) => {
                                 </div>
                             </div>
 
+                            {/* Covered Dishes */}
+                            {offer.menuItems && offer.menuItems.length > 0 && (
+                                <div className="mb-3">
+                                    <div className="flex items-center gap-2 text-xs font-medium text-muted-foreground mb-1">
+                                        <UtensilsCrossed className="h-3.5 w-3.5" />
+                                        <span>Aplica en:</span>
+                                    </div>
+                                    <ul className="space-y-1">
+                                        {offer.menuItems.map((item) => (
+                                            <li key={item.id} className="flex justify-between gap-2 text-sm">
+                                                <span>{item.name}</span>
+                                                <span className="text-muted-foreground">${item.price}</span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            )}
+
                             {/* Valid Days */}
                             {offer.validDays && offer.validDays.length > 0 && (
                                 <div className="flex flex-wrap gap-1 mb-2">
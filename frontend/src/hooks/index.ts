@@ -1,4 +1,5 @@
 // Re-export all hooks for convenience
 export * from './useData';
+export { useRestaurantEvents } from './useRestaurantEvents';
 export { useToast } from './use-toast';
 export { useIsMobile } from './use-mobile';
@@ -17,16 +17,24 @@ import {
     dashboardService,
     menuService,
     timeSlotService,
-    notificationService
+    notificationService,
+    userService
 } from '@/services/api';
 import {
     Restaurant,
     Table,
     Reservation,
     Offer,
+    OfferRules,
+    OfferCodeStatus,
     Review,
     WaitlistEntry,
+    DietaryProfile,
     MenuItem,
+    MenuImportFormat,
+    MenuItemModifiersInput,
+    MenuPricingRuleInput,
+    MenuReorder,
     TimeSlot,
     DashboardMetrics,
     AISuggestion,
@@ -55,6 +63,15 @@ export const useRestaurant = (id: string | undefined) => {
     });
 };
 
+export const useCancellationPolicy = (restaurantId: string | undefined) => {
+    return useQuery({
+        queryKey: ['restaurant', restaurantId, 'cancellationPolicy'],
+        queryFn: () => restaurantService.getCancellationPolicy(restaurantId!),
+        enabled: !!restaurantId,
+        staleTime: 5 * 60 * 1000,
+    });
+};
+
 export const useFeaturedRestaurants = () => {
     return useQuery({
         queryKey: ['restaurants', 'featured'],
@@ -177,11 +194,20 @@ export const useRestaurantReservations = (
     });
 };
 
+export const useReservationHistory = (reservationId: string | undefined) => {
+    return useQuery({
+        queryKey: ['reservations', 'history', reservationId],
+        queryFn: () => reservationService.getHistory(reservationId!),
+        enabled: !!reservationId,
+        staleTime: 30 * 1000,
+    });
+};
+
 export const useCreateReservation = () => {
     const queryClient = useQueryClient();
 
     return useMutation({
-        mutationFn: (reservation: Omit<Reservation, 'id' | 'qrCode' | 'createdAt'>) =>
+        mutationFn: (reservation: Omit<Reservation, 'id' | 'qrCode' | 'createdAt'> & { promoCode?: string }) =>
             reservationService.create(reservation),
         onSuccess: (_, variables) => {
             queryClient.invalidateQueries({ queryKey: ['reservations'] });
@@ -216,6 +242,16 @@ export const useCancelReservation = () => {
     });
 };
 
+// Refetched every time the cancel dialog opens: the refund depends on the time left
+export const useCancellationQuote = (reservationId: string | undefined) => {
+    return useQuery({
+        queryKey: ['reservations', reservationId, 'cancellationQuote'],
+        queryFn: () => reservationService.getCancellationQuote(reservationId!),
+        enabled: !!reservationId,
+        staleTime: 0,
+    });
+};
+
 export const useConfirmArrival = () => {
     const queryClient = useQueryClient();
 
@@ -261,11 +297,18 @@ export const useRestaurantOffers = (restaurantId: string | undefined) => {
     });
 };
 
+export const useValidateOffer = () => {
+    return useMutation({
+        mutationFn: (input: { offerId?: string; promoCode?: string; restaurantId: string; date?: string; time?: string; guestCount?: number }) =>
+            offerService.validate(input),
+    });
+};
+
 export const useCreateOffer = () => {
     const queryClient = useQueryClient();
 
     return useMutation({
-        mutationFn: ({ restaurantId, offer }: { restaurantId: string; offer: { title: string; description: string; discount: string; discountType: string; validFrom?: string; validUntil?: string } }) =>
+        mutationFn: ({ restaurantId, offer }: { restaurantId: string; offer: { title: string; description: string; discount: string; discountType: string; validFrom?: string; validUntil?: string; menuItemIds?: string[] } & OfferRules }) =>
             offerService.create(restaurantId, offer),
         onSuccess: (_, variables) => {
             queryClient.invalidateQueries({ queryKey: ['offers'] });
@@ -278,7 +321,7 @@ export const useUpdateOffer = () => {
     const queryClient = useQueryClient();
 
     return useMutation({
-        mutationFn: ({ offerId, updates }: { offerId: string; updates: Partial<Offer> }) =>
+        mutationFn: ({ offerId, updates }: { offerId: string; updates: Partial<Offer> & { menuItemIds?: string[] } }) =>
             offerService.update(offerId, updates),
         onSuccess: () => {
             queryClient.invalidateQueries({ queryKey: ['offers'] });
@@ -286,6 +329,47 @@ export const useUpdateOffer = () => {
     });
 };
 
+export const useOfferCodeBatches = (offerId: string | undefined) => {
+    return useQuery({
+        queryKey: ['offer-codes', offerId],
+        queryFn: () => offerService.getCodeBatches(offerId!),
+        enabled: !!offerId,
+    });
+};
+
+export const useOfferCodes = (offerId: string | undefined, filters?: { batchId?: string; status?: OfferCodeStatus }) => {
+    return useQuery({
+        queryKey: ['offer-codes', offerId, filters],
+        queryFn: () => offerService.getCodes(offerId!, filters),
+        enabled: !!offerId && !!filters?.batchId,
+    });
+};
+
+export const useCreateOfferCodeBatch = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({ offerId, batch }: { offerId: string; batch: { quantity: number; name?: string; prefix?: string } }) =>
+            offerService.createCodeBatch(offerId, batch),
+        onSuccess: (_, variables) => {
+            queryClient.invalidateQueries({ queryKey: ['offer-codes', variables.offerId] });
+            queryClient.invalidateQueries({ queryKey: ['offers'] });
+        },
+    });
+};
+
+export const useRevokeOfferCodes = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({ offerId, target }: { offerId: string; target: { batchId?: string; codeIds?: string[] } }) =>
+            offerService.revokeCodes(offerId, target),
+        onSuccess: (_, variables) => {
+            queryClient.invalidateQueries({ queryKey: ['offer-codes', variables.offerId] });
+        },
+    });
+};
+
 export const useDeleteOffer = () => {
     const queryClient = useQueryClient();
 
@@ -301,10 +385,10 @@ export const useDeleteOffer = () => {
 // TIME SLOT HOOKS
 // ============================================
 
-export const useTimeSlots = (restaurantId: string | undefined, date: string | undefined) => {
+export const useTimeSlots = (restaurantId: string | undefined, date: string | undefined, guestCount?: number) => {
     return useQuery({
-        queryKey: ['timeSlots', restaurantId, date],
-        queryFn: () => timeSlotService.getAvailable(restaurantId!, date!),
+        queryKey: ['timeSlots', restaurantId, date, guestCount],
+        queryFn: () => timeSlotService.getAvailable(restaurantId!, date!, guestCount),
         enabled: !!restaurantId && !!date,
         staleTime: 5 * 60 * 1000,
     });
@@ -314,10 +398,11 @@ export const useTimeSlots = (restaurantId: string | undefined, date: string | un
 // MENU HOOKS
 // ============================================
 
-export const useMenu = (restaurantId: string | undefined) => {
+/** With a dietary profile, items are flagged with the conflicts they have with it */
+export const useMenu = (restaurantId: string | undefined, dietary?: DietaryProfile) => {
     return useQuery({
-        queryKey: ['menu', restaurantId],
-        queryFn: () => menuService.getByRestaurant(restaurantId!),
+        queryKey: ['menu', restaurantId, dietary ?? null],
+        queryFn: () => menuService.getByRestaurant(restaurantId!, dietary),
         enabled: !!restaurantId,
         staleTime: 10 * 60 * 1000,
     });
@@ -357,6 +442,140 @@ export const useDeleteMenuItem = () => {
     });
 };
 
+export const useSetMenuItemModifiers = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({ itemId, modifiers }: { itemId: string; modifiers: MenuItemModifiersInput }) =>
+            menuService.setModifiers(itemId, modifiers),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['menu'] });
+        },
+    });
+};
+
+export const useImportMenu = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({ format, content, dryRun }: { format: MenuImportFormat; content: string; dryRun: boolean }) =>
+            menuService.importMenu(format, content, dryRun),
+        onSuccess: (report) => {
+            if (!report.applied) return;
+            // New categories may have been created along with the dishes
+            queryClient.invalidateQueries({ queryKey: ['menu'] });
+            queryClient.invalidateQueries({ queryKey: ['menu-categories'] });
+        },
+    });
+};
+
+export const useMenuCategories = (restaurantId: string | undefined) => {
+    return useQuery({
+        queryKey: ['menu-categories', restaurantId],
+        queryFn: () => menuService.getCategories(restaurantId!),
+        enabled: !!restaurantId,
+        staleTime: 10 * 60 * 1000,
+    });
+};
+
+export const useCreateMenuCategory = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({ restaurantId, name, parentId }: { restaurantId: string; name: string; parentId?: string | null }) =>
+            menuService.createCategory(restaurantId, name, parentId),
+        onSuccess: (_, variables) => {
+            queryClient.invalidateQueries({ queryKey: ['menu-categories', variables.restaurantId] });
+        },
+    });
+};
+
+export const useUpdateMenuCategory = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({ categoryId, updates }: { categoryId: string; updates: { name?: string; parentId?: string | null } }) =>
+            menuService.updateCategory(categoryId, updates),
+        onSuccess: () => {
+            // Items and pricing rules are relabeled with the category
+            queryClient.invalidateQueries({ queryKey: ['menu-categories'] });
+            queryClient.invalidateQueries({ queryKey: ['menu'] });
+            queryClient.invalidateQueries({ queryKey: ['menu-pricing-rules'] });
+        },
+    });
+};
+
+export const useDeleteMenuCategory = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({ categoryId, moveTo }: { categoryId: string; moveTo?: string }) =>
+            menuService.deleteCategory(categoryId, moveTo),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['menu-categories'] });
+            queryClient.invalidateQueries({ queryKey: ['menu'] });
+            queryClient.invalidateQueries({ queryKey: ['menu-pricing-rules'] });
+        },
+    });
+};
+
+export const useReorderMenu = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (reorder: MenuReorder) => menuService.reorder(reorder),
+        onSettled: () => {
+            queryClient.invalidateQueries({ queryKey: ['menu-categories'] });
+            queryClient.invalidateQueries({ queryKey: ['menu'] });
+        },
+    });
+};
+
+export const usePricingRules = (restaurantId: string | undefined) => {
+    return useQuery({
+        queryKey: ['menu-pricing-rules', restaurantId],
+        queryFn: () => menuService.getPricingRules(),
+        enabled: !!restaurantId,
+    });
+};
+
+export const useCreatePricingRule = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (rule: MenuPricingRuleInput) => menuService.createPricingRule(rule),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['menu-pricing-rules'] });
+            queryClient.invalidateQueries({ queryKey: ['menu'] });
+        },
+    });
+};
+
+export const useUpdatePricingRule = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({ ruleId, updates }: { ruleId: string; updates: Partial<MenuPricingRuleInput> }) =>
+            menuService.updatePricingRule(ruleId, updates),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['menu-pricing-rules'] });
+            queryClient.invalidateQueries({ queryKey: ['menu'] });
+        },
+    });
+};
+
+export const useDeletePricingRule = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (ruleId: string) => menuService.deletePricingRule(ruleId),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['menu-pricing-rules'] });
+            queryClient.invalidateQueries({ queryKey: ['menu'] });
+        },
+    });
+};
+
 // ============================================
 // REVIEW HOOKS
 // ============================================
@@ -473,6 +692,14 @@ export const useReports = (period: 'week' | 'month' | 'quarter') => {
     });
 };
 
+export const usePaymentReconciliation = (from?: string, to?: string) => {
+    return useQuery({
+        queryKey: ['dashboard', 'paymentReconciliation', from, to],
+        queryFn: () => dashboardService.getPaymentReconciliation(from, to),
+        staleTime: 5 * 60 * 1000,
+    });
+};
+
 export const useNotifications = (limit = 20) => {
     return useQuery({
         queryKey: ['notifications', limit],
@@ -513,6 +740,29 @@ export const useMarkAllNotificationsRead = () => {
     });
 };
 
+// ============================================
+// USER HOOKS
+// ============================================
+
+export const useDietaryProfile = (enabled = true) => {
+    return useQuery({
+        queryKey: ['dietary-profile'],
+        queryFn: () => userService.getDietaryProfile(),
+        enabled,
+    });
+};
+
+export const useUpdateDietaryProfile = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (profile: DietaryProfile) => userService.updateDietaryProfile(profile),
+        onSuccess: (profile) => {
+            queryClient.setQueryData(['dietary-profile'], profile);
+        },
+    });
+};
+
 // ============================================
 // UTILITY HOOKS
 // ============================================
@@ -0,0 +1,108 @@
+import { useEffect, useRef, useState } from 'react';
+import { API_BASE_URL } from '@/services/api';
+import { RestaurantEvent } from '@/types';
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+const getRestaurantSessionToken = (): string | null => {
+    try {
+        const session = localStorage.getItem('mesafeliz_restaurant_session');
+        return session ? JSON.parse(session).token || null : null;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Parse complete SSE messages out of the buffer; returns the unparsed remainder
+ */
+const parseEvents = (buffer: string, onEvent: (event: RestaurantEvent) => void): string => {
+    const messages = buffer.split('\n\n');
+    const rest = messages.pop() || '';
+
+    for (const message of messages) {
+        const data = message
+            .split('\n')
+            .filter(line => line.startsWith('data:'))
+            .map(line => line.slice(5).trim())
+            .join('\n');
+        if (!data) continue;
+        try {
+            onEvent(JSON.parse(data));
+        } catch {
+            // Ignore malformed messages
+        }
+    }
+    return rest;
+};
+
+/**
+ * Subscribe to the restaurant's real-time channel (reservations, tables, waitlist).
+ * Uses fetch instead of EventSource so the JWT travels in the Authorization header,
+ * and reconnects with backoff. Without a token it uses the restaurant admin session.
+ */
+export const useRestaurantEvents = (
+    restaurantId: string | undefined,
+    onEvent: (event: RestaurantEvent) => void,
+    token?: string | null
+) => {
+    const [isConnected, setIsConnected] = useState(false);
+    const onEventRef = useRef(onEvent);
+    onEventRef.current = onEvent;
+
+    useEffect(() => {
+        const authToken = token || getRestaurantSessionToken();
+        if (!restaurantId || !authToken) return;
+
+        const controller = new AbortController();
+        let retryTimer: ReturnType<typeof setTimeout> | undefined;
+        let attempt = 0;
+
+        const connect = async () => {
+            try {
+                const response = await fetch(`${API_BASE_URL}/realtime/restaurants/${restaurantId}/events`, {
+                    headers: { Authorization: `Bearer ${authToken}`, Accept: 'text/event-stream' },
+                    signal: controller.signal,
+                });
+
+                // Auth errors or the feature being off will not fix themselves by retrying
+                if (response.status === 401 || response.status === 403 || response.status === 404) return;
+                if (!response.ok || !response.body) throw new Error(`HTTP ${response.status}`);
+
+                setIsConnected(true);
+                attempt = 0;
+
+                const reader = response.body.getReader();
+                const decoder = new TextDecoder();
+                let buffer = '';
+
+                for (;;) {
+                    const { done, value } = await reader.read();
+                    if (done) break;
+                    buffer = parseEvents(buffer + decoder.decode(value, { stream: true }), event => onEventRef.current(event));
+                }
+            } catch (error) {
+                if (controller.signal.aborted) return;
+                console.warn('Realtime connection lost:', error);
+            }
+
+            setIsConnected(false);
+            if (controller.signal.aborted) return;
+
+            const delay = Math.min(RECONNECT_BASE_MS * 2 ** attempt, RECONNECT_MAX_MS);
+            attempt++;
+            retryTimer = setTimeout(connect, delay);
+        };
+
+        connect();
+
+        return () => {
+            controller.abort();
+            if (retryTimer) clearTimeout(retryTimer);
+            setIsConnected(false);
+        };
+    }, [restaurantId, token]);
+
+    return { isConnected };
+};
@@ -4,7 +4,7 @@ import { motion } from 'framer-motion';
 import {
   User, Mail, Phone, MapPin, Bell, Heart, Star,
   ChevronRight, Settings, LogOut, Camera, Shield,
-  Calendar, Check, X, Edit2
+  Calendar, Check, X, Edit2, Leaf, Flame, Plus
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -16,13 +16,29 @@ import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import Header from '@/components/Header';
 import Footer from '@/components/Footer';
-import { useRestaurants } from '@/hooks/useData';
+import { useRestaurants, useDietaryProfile, useUpdateDietaryProfile } from '@/hooks/useData';
 import { useAuth } from '@/contexts/AuthContext';
-import { User as UserType } from '@/types';
+import { DietaryProfile, DietaryRestriction, User as UserType } from '@/types';
 import { favoriteService, uploadService } from '@/services/api';
 import { useToast } from '@/hooks/use-toast';
 import { useRef } from 'react';
 
+const DIETARY_RESTRICTIONS: { value: DietaryRestriction; label: string }[] = [
+  { value: 'vegetarian', label: 'Vegetariano' },
+  { value: 'vegan', label: 'Vegano' },
+  { value: 'gluten_free', label: 'Sin gluten' },
+];
+
+const COMMON_ALLERGIES = ['Gluten', 'Lácteos', 'Huevo', 'Nueces', 'Cacahuate', 'Mariscos', 'Pescado', 'Soya', 'Ajonjolí'];
+
+const SPICE_LEVELS = [
+  { value: '', label: 'Sin límite' },
+  { value: '0', label: 'Nada picante' },
+  { value: '1', label: 'Muy suave' },
+  { value: '2', label: 'Suave' },
+  { value: '3', label: 'Medio' },
+  { value: '4', label: 'Picante' },
+];
 
 const ClientProfilePage = () => {
   const navigate = useNavigate();
@@ -63,6 +79,61 @@ const ClientProfilePage = () => {
     marketing: true,
   });
 
+  // Dietary profile: saved on the server, copied to each new reservation
+  const { data: savedDietary } = useDietaryProfile(isAuthenticated);
+  const updateDietary = useUpdateDietaryProfile();
+  const [dietary, setDietary] = useState<DietaryProfile>({ restrictions: [], allergies: [], maxSpiceLevel: null });
+  const [newAllergy, setNewAllergy] = useState('');
+
+  useEffect(() => {
+    if (savedDietary) setDietary(savedDietary);
+  }, [savedDietary]);
+
+  const toggleRestriction = (restriction: DietaryRestriction) => {
+    setDietary(current => ({
+      ...current,
+      restrictions: current.restrictions.includes(restriction)
+        ? current.restrictions.filter(r => r !== restriction)
+        : [...current.restrictions, restriction],
+    }));
+  };
+
+  const toggleAllergy = (allergy: string) => {
+    setDietary(current => {
+      const exists = current.allergies.some(a => a.toLowerCase() === allergy.toLowerCase());
+      return {
+        ...current,
+        allergies: exists
+          ? current.allergies.filter(a => a.toLowerCase() !== allergy.toLowerCase())
+          : [...current.allergies, allergy],
+      };
+    });
+  };
+
+  const handleAddAllergy = () => {
+    const allergy = newAllergy.trim();
+    if (allergy && !dietary.allergies.some(a => a.toLowerCase() === allergy.toLowerCase())) {
+      toggleAllergy(allergy);
+    }
+    setNewAllergy('');
+  };
+
+  const handleSaveDietary = async () => {
+    try {
+      await updateDietary.mutateAsync(dietary);
+      toast({
+        title: "Perfil alimentario guardado",
+        description: "Lo usaremos en los menús y lo compartiremos con el restaurante al reservar",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo guardar tu perfil alimentario",
+        variant: "destructive"
+      });
+    }
+  };
+
   useEffect(() => {
     if (!isLoading && !isAuthenticated) {
       navigate('/login');
@@ -465,6 +536,84 @@ const ClientProfilePage = () => {
                   </div>
                 </div>
 
+                {/* Dietary Profile */}
+                <div className="bg-card rounded-2xl p-6 shadow-card space-y-6">
+                  <div className="flex items-center gap-3">
+                    <Leaf className="w-5 h-5 text-primary" />
+                    <div>
+                      <h3 className="text-xl font-display font-semibold">Restricciones alimentarias</h3>
+                      <p className="text-sm text-muted-foreground">
+                        Marcamos en los menús lo que no te conviene y el restaurante lo verá en tus reservaciones
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className="space-y-4">
+                    {DIETARY_RESTRICTIONS.map(({ value, label }) => (
+                      <div key={value} className="flex items-center justify-between py-1">
+                        <p className="font-medium">{label}</p>
+                        <Switch
+                          checked={dietary.restrictions.includes(value)}
+                          onCheckedChange={() => toggleRestriction(value)}
+                        />
+                      </div>
+                    ))}
+                    <Separator />
+
+                    <div>
+                      <Label className="mb-2 block">Alergias</Label>
+                      <div className="flex flex-wrap gap-2">
+                        {[...COMMON_ALLERGIES, ...dietary.allergies.filter(a => !COMMON_ALLERGIES.some(c => c.toLowerCase() === a.toLowerCase()))]
+                          .map(allergy => {
+                            const selected = dietary.allergies.some(a => a.toLowerCase() === allergy.toLowerCase());
+                            return (
+                              <Badge
+                                key={allergy}
+                                variant={selected ? 'destructive' : 'outline'}
+                                className="cursor-pointer px-3 py-1"
+                                onClick={() => toggleAllergy(allergy)}
+                              >
+                                {allergy}
+                              </Badge>
+                            );
+                          })}
+                      </div>
+                      <div className="flex gap-2 mt-3">
+                        <Input
+                          value={newAllergy}
+                          onChange={(e) => setNewAllergy(e.target.value)}
+                          onKeyDown={(e) => e.key === 'Enter' && handleAddAllergy()}
+                          placeholder="Otra alergia"
+                          className="bg-background"
+                        />
+                        <Button variant="outline" size="icon" onClick={handleAddAllergy}>
+                          <Plus className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+
+                    <div>
+                      <Label className="mb-2 flex items-center gap-2">
+                        <Flame className="w-4 h-4 text-destructive" />
+                        Picante máximo
+                      </Label>
+                      <select
+                        value={dietary.maxSpiceLevel === null ? '' : String(dietary.maxSpiceLevel)}
+                        onChange={(e) => setDietary({ ...dietary, maxSpiceLevel: e.target.value === '' ? null : Number(e.target.value) })}
+                        className="w-full px-4 py-3 rounded-lg border bg-background"
+                      >
+                        {SPICE_LEVELS.map(level => (
+                          <option key={level.value} value={level.value}>{level.label}</option>
+                        ))}
+                      </select>
+                    </div>
+
+                    <Button onClick={handleSaveDietary} disabled={updateDietary.isPending} className="w-full">
+                      Guardar restricciones
+                    </Button>
+                  </div>
+                </div>
+
                 {/* Dining Preferences */}
                 <div className="bg-card rounded-2xl p-6 shadow-card space-y-6">
                   <div className="flex items-center gap-3">
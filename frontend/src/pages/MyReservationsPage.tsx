@@ -13,7 +13,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } f
 import Header from '@/components/Header';
 import Footer from '@/components/Footer';
 import RatingModal from '@/components/rating/RatingModal';
-import { useRestaurants, useUserReservations, useCancelReservation, useCreateReview } from '@/hooks/useData';
+import { useRestaurants, useUserReservations, useCancelReservation, useCancellationQuote, useCreateReview } from '@/hooks/useData';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
 import { Reservation } from '@/types';
@@ -29,6 +29,9 @@ const MyReservationsPage = () => {
   const [cancelDialogOpen, setCancelDialogOpen] = useState(false);
   const [qrDialogOpen, setQrDialogOpen] = useState(false);
   const [selectedReservation, setSelectedReservation] = useState<Reservation | null>(null);
+  const { data: cancellationQuote, isLoading: quoteLoading } = useCancellationQuote(
+    cancelDialogOpen ? selectedReservation?.id : undefined
+  );
   const [ratingModalOpen, setRatingModalOpen] = useState(false);
   const [ratingReservation, setRatingReservation] = useState<Reservation | null>(null);
   const createReview = useCreateReview();
@@ -68,8 +71,14 @@ const MyReservationsPage = () => {
   const handleConfirmCancel = async () => {
     if (!selectedReservation) return;
     try {
-      await cancelReservation.mutateAsync({ reservationId: selectedReservation.id });
-      toast.success('Reserva cancelada exitosamente');
+      const outcome = await cancelReservation.mutateAsync({ reservationId: selectedReservation.id });
+      if (outcome?.refunded === false) {
+        toast.warning('Reserva cancelada', { description: 'No pudimos procesar tu reembolso; el restaurante te contactará.' });
+      } else if (outcome?.refundAmount > 0) {
+        toast.success('Reserva cancelada exitosamente', { description: `Te reembolsaremos $${outcome.refundAmount} MXN de tu anticipo.` });
+      } else {
+        toast.success('Reserva cancelada exitosamente');
+      }
       refetch();
     } catch {
       toast.error('Error al cancelar la reserva');
@@ -432,6 +441,19 @@ const MyReservationsPage = () => {
             </DialogTitle>
           </DialogHeader>
           <p className="text-muted-foreground text-sm">Esta acción no se puede deshacer.</p>
+          {quoteLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          {cancellationQuote && cancellationQuote.depositAmount > 0 && (
+            <div className={cn(
+              'p-3 rounded-lg text-sm',
+              cancellationQuote.refundPercent === 100 ? 'bg-green-50 text-green-800' : 'bg-yellow-50 text-yellow-800'
+            )}>
+              {cancellationQuote.refundPercent === 100
+                ? `Te devolveremos tu anticipo completo de $${cancellationQuote.depositAmount} MXN.`
+                : cancellationQuote.refundAmount > 0
+                  ? `Según la política del restaurante te devolveremos $${cancellationQuote.refundAmount} MXN (${cancellationQuote.refundPercent}%) de tu anticipo de $${cancellationQuote.depositAmount} MXN.`
+                  : `Según la política del restaurante, a esta hora tu anticipo de $${cancellationQuote.depositAmount} MXN no es reembolsable.`}
+            </div>
+          )}
           {selectedReservation && (
             <div className="p-3 bg-muted rounded-lg text-sm">
               <p className="font-medium">Código: {selectedReservation.qrCode?.slice(-8) || selectedReservation.id.slice(0, 8).toUpperCase()}</p>
@@ -195,7 +195,7 @@ const OffersPage = () => {
                                                 </div>
 
                                                 {!isExpired && (
-                                                    <Link to={`/restaurante/${offer.restaurantId}`}>
+                                                    <Link to={`/reservar/${offer.restaurantId}?oferta=${offer.id}`}>
                                                         <Button size="sm" className="gap-1">
                                                             Reservar
                                                             <ArrowRight className="w-4 h-4" />
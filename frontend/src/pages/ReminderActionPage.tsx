@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import { useParams, useSearchParams, Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { motion } from 'framer-motion';
+import { Calendar, Clock, Users, Check, X, AlertCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import Header from '@/components/Header';
+import Footer from '@/components/Footer';
+import { reminderService } from '@/services/api';
+import { toast } from 'sonner';
+
+/**
+ * Landing page of the links in reminder emails.
+ * Loading the page never changes the reservation; the guest has to press a button.
+ */
+const ReminderActionPage = () => {
+  const { token } = useParams();
+  const [searchParams] = useSearchParams();
+  const requestedAction = searchParams.get('accion');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [result, setResult] = useState<'confirmed' | 'cancelled' | null>(null);
+
+  const { data: reminder, isLoading, isError } = useQuery({
+    queryKey: ['reminder', token],
+    queryFn: () => reminderService.get(token!),
+    enabled: !!token,
+    retry: false,
+  });
+
+  const handleAction = async (action: 'confirmed' | 'cancelled') => {
+    if (!token) return;
+    setIsSubmitting(true);
+    try {
+      if (action === 'confirmed') {
+        await reminderService.confirm(token);
+      } else {
+        await reminderService.cancel(token);
+      }
+      setResult(action);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'No fue posible actualizar tu reserva');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const finalState = result || reminder?.actionTaken || (reminder?.status === 'cancelled' ? 'cancelled' : null);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <main className="container mx-auto px-4 py-16 max-w-lg">
+        {isLoading && <p className="text-center text-muted-foreground">Cargando tu reserva...</p>}
+
+        {(isError || (!isLoading && !reminder)) && (
+          <div className="text-center space-y-4">
+            <AlertCircle className="h-12 w-12 mx-auto text-destructive" />
+            <h1 className="text-2xl font-display font-bold">Enlace no válido</h1>
+            <p className="text-muted-foreground">Este recordatorio no existe o ya expiró.</p>
+            <Button asChild>
+              <Link to="/mis-reservas">Ver mis reservas</Link>
+            </Button>
+          </div>
+        )}
+
+        {reminder && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-card rounded-2xl p-8 shadow-card space-y-6"
+          >
+            <div className="text-center">
+              <h1 className="text-2xl font-display font-bold">{reminder.restaurant?.name}</h1>
+              <p className="text-muted-foreground">Recordatorio de tu reserva</p>
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center gap-3">
+                <Calendar className="h-5 w-5 text-primary" />
+                <span>{new Date(`${reminder.date}T00:00:00`).toLocaleDateString('es-MX', { weekday: 'long', day: 'numeric', month: 'long' })}</span>
+              </div>
+              <div className="flex items-center gap-3">
+                <Clock className="h-5 w-5 text-primary" />
+                <span>{reminder.time.substring(0, 5)}</span>
+              </div>
+              <div className="flex items-center gap-3">
+                <Users className="h-5 w-5 text-primary" />
+                <span>{reminder.guestCount} personas</span>
+              </div>
+            </div>
+
+            {finalState === 'confirmed' && (
+              <div className="p-4 rounded-xl bg-green-500/10 text-green-700 text-center font-medium">
+                <Check className="h-5 w-5 inline mr-2" />
+                ¡Gracias! Tu asistencia está confirmada.
+              </div>
+            )}
+
+            {finalState === 'cancelled' && (
+              <div className="p-4 rounded-xl bg-destructive/10 text-destructive text-center font-medium">
+                <X className="h-5 w-5 inline mr-2" />
+                Tu reserva fue cancelada.
+              </div>
+            )}
+
+            {!finalState && reminder.canAct && (
+              <div className="flex flex-col gap-3">
+                <Button
+                  size="lg"
+                  variant={requestedAction === 'cancelar' ? 'outline' : 'default'}
+                  disabled={isSubmitting}
+                  onClick={() => handleAction('confirmed')}
+                >
+                  Confirmar asistencia
+                </Button>
+                <Button
+                  size="lg"
+                  variant={requestedAction === 'cancelar' ? 'destructive' : 'outline'}
+                  disabled={isSubmitting}
+                  onClick={() => handleAction('cancelled')}
+                >
+                  Cancelar reserva
+                </Button>
+              </div>
+            )}
+
+            {!finalState && !reminder.canAct && (
+              <p className="text-center text-muted-foreground">Esta reserva ya no puede modificarse.</p>
+            )}
+          </motion.div>
+        )}
+      </main>
+      <Footer />
+    </div>
+  );
+};
+
+export default ReminderActionPage;
@@ -1,8 +1,9 @@
 import { useState, useEffect } from 'react';
-import { useParams, Link, useNavigate } from 'react-router-dom';
+import { useParams, Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { ChevronLeft, Calendar, Users, Heart, Gift, Briefcase, PartyPopper, MessageSquare, CreditCard, Check, LogIn } from 'lucide-react';
+import { ChevronLeft, Calendar, Users, Heart, Gift, Briefcase, PartyPopper, MessageSquare, CreditCard, Check, LogIn, Tag, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Calendar as CalendarComponent } from '@/components/ui/calendar';
@@ -11,8 +12,10 @@ import Footer from '@/components/Footer';
 import TableMap from '@/components/TableMap';
 import TimeSlotPicker from '@/components/TimeSlotPicker';
 import StripePaymentModal from '@/components/StripePaymentModal';
-import { useRestaurant, useAvailableTables, useTimeSlots, useCreateReservation } from '@/hooks/useData';
-import { Table } from '@/types';
+import CancellationPolicyNotice from '@/components/reservation/CancellationPolicyNotice';
+import { useRestaurant, useAvailableTables, useTimeSlots, useCreateReservation, useCancellationPolicy, useValidateOffer } from '@/hooks/useData';
+import { paymentService } from '@/services/api';
+import { BookingPolicyViolation, OfferValidation, Table } from '@/types';
 import { cn } from '@/lib/utils';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
@@ -26,8 +29,26 @@ const occasions = [
   { id: 'other', label: 'Ocasión especial', icon: Gift },
 ];
 
+const policyViolationMessage = (violation: BookingPolicyViolation): string => {
+  const details = violation.details || {};
+  switch (violation.code) {
+    case 'PARTY_SIZE_EXCEEDED': return `El restaurante acepta reservas de hasta ${details.maxPartySize} personas.`;
+    case 'INVALID_PARTY_SIZE': return 'Selecciona al menos una persona.';
+    case 'DATE_IN_PAST': return 'La fecha y hora seleccionadas ya pasaron.';
+    case 'ADVANCE_NOTICE_REQUIRED': return `Debes reservar con al menos ${details.minAdvanceHours} horas de anticipación.`;
+    case 'BEYOND_BOOKING_WINDOW': return `Solo se puede reservar con hasta ${details.maxReservationDays} días de anticipación.`;
+    case 'RESTAURANT_CLOSED': return details.holidayName ? `El restaurante está cerrado ese día (${details.holidayName}).` : 'El restaurante está cerrado ese día.';
+    case 'OUTSIDE_OPENING_HOURS': return 'El horario seleccionado no está disponible para reservas.';
+    case 'DEPOSIT_REQUIRED': return `Este horario requiere un anticipo de $${details.amount} MXN.`;
+    case 'DEPOSIT_INSUFFICIENT': return `El anticipo pagado no cubre los $${details.amount} MXN requeridos.`;
+    case 'GUEST_BLOCKED': return 'No es posible reservar en este restaurante. Contáctalo directamente para más información.';
+    default: return violation.message;
+  }
+};
+
 const ReservationPage = () => {
   const { id } = useParams();
+  const [searchParams] = useSearchParams();
   const navigate = useNavigate();
   const { user, isAuthenticated, isLoading: authLoading } = useAuth();
 
@@ -38,25 +59,34 @@ const ReservationPage = () => {
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(undefined);
   const [selectedTime, setSelectedTime] = useState<string | null>(null);
   const [selectedMesa, setSelectedMesa] = useState<Table | null>(null);
+  // Let the restaurant pick the best-fit table (or a combination for large parties)
+  const [autoAssignTable, setAutoAssignTable] = useState(false);
   const [guestCount, setGuestCount] = useState(2);
   const [selectedOccasion, setSelectedOccasion] = useState<string | null>(null);
   const [specialRequest, setSpecialRequest] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isConfirmed, setIsConfirmed] = useState(false);
   const [showPaymentModal, setShowPaymentModal] = useState(false);
+  // Reservation held by the restaurant until its deposit is paid (the amount may come from reliability rules)
+  const [heldReservation, setHeldReservation] = useState<{ id: string; amount: number } | null>(null);
+  // Offer from /ofertas (?oferta=) or a promo code; it is validated for the chosen slot and redeemed with the booking
+  const offerFromLink = searchParams.get('oferta');
+  const [promoCode, setPromoCode] = useState('');
+  const [appliedOffer, setAppliedOffer] = useState<OfferValidation | null>(null);
 
   // Auto-scroll to bottom when a table is selected to show the "Continue" button
   useEffect(() => {
-    if (selectedMesa && step === 'table') {
+    if ((selectedMesa || autoAssignTable) && step === 'table') {
       setTimeout(() => {
         window.scrollTo({ top: document.documentElement.scrollHeight, behavior: 'smooth' });
       }, 100);
     }
-  }, [selectedMesa, step]);
+  }, [selectedMesa, autoAssignTable, step]);
 
   // Fetch time slots for selected date
   const dateStr = selectedDate ? selectedDate.toISOString().split('T')[0] : '';
-  const { data: timeSlots = [] } = useTimeSlots(id || '', dateStr);
+  const { data: timeSlots = [] } = useTimeSlots(id || '', dateStr, guestCount);
+  const { data: cancellationPolicy } = useCancellationPolicy(id);
 
   // Fetch available tables based on date, time, and guest count
   const { data: availableTables = [], isLoading: tablesLoading } = useAvailableTables(
@@ -68,6 +98,7 @@ const ReservationPage = () => {
 
   // Create reservation mutation
   const createReservation = useCreateReservation();
+  const validateOffer = useValidateOffer();
 
   const isLoading = authLoading || restaurantLoading;
 
@@ -132,8 +163,29 @@ const ReservationPage = () => {
 
   // Find selected time slot and check if deposit is required
   const selectedSlot = selectedTime ? timeSlots.find(s => s.time === selectedTime) : null;
-  const requiresDeposit = selectedSlot?.requiresDeposit || false;
-  const depositAmount = selectedSlot?.depositAmount || 0;
+  const depositQuote = appliedOffer?.depositQuote;
+  const slotRequiresDeposit = depositQuote ? depositQuote.required : Boolean(selectedSlot?.requiresDeposit);
+  const requiresDeposit = slotRequiresDeposit || heldReservation !== null;
+  const depositAmount = heldReservation?.amount ?? (depositQuote
+    ? depositQuote.amount
+    : (selectedSlot?.requiresDeposit ? selectedSlot.depositAmount || 0 : 0));
+
+  const applyOffer = async (reference: { offerId?: string; promoCode?: string }) => {
+    try {
+      const validation = await validateOffer.mutateAsync({
+        ...reference,
+        restaurantId: id!,
+        date: dateStr,
+        time: selectedTime || undefined,
+        guestCount,
+      });
+      setAppliedOffer(validation);
+      toast.success(`Promoción aplicada: ${validation.offer.title}`);
+    } catch (error) {
+      setAppliedOffer(null);
+      toast.error(error instanceof Error ? error.message : 'Promoción no válida');
+    }
+  };
 
 
   const handleNext = () => {
@@ -141,6 +193,10 @@ const ReservationPage = () => {
     const currentIndex = steps.indexOf(step);
     if (currentIndex < steps.length - 1) {
       setStep(steps[currentIndex + 1]);
+      // The offer from the link is checked once the whole booking is known
+      if (steps[currentIndex + 1] === 'confirm' && offerFromLink && !appliedOffer && !heldReservation) {
+        applyOffer({ offerId: offerFromLink });
+      }
     }
   };
 
@@ -149,63 +205,108 @@ const ReservationPage = () => {
     const currentIndex = steps.indexOf(step);
     if (currentIndex > 0) {
       setStep(steps[currentIndex - 1]);
+      // Date, time or party may change: the offer is checked again on the confirm step
+      if (step === 'confirm' && !heldReservation) setAppliedOffer(null);
     }
   };
 
   const handleConfirm = async () => {
-    if (!user || !selectedMesa || !selectedDate || !selectedTime) {
+    if (!user || (!selectedMesa && !autoAssignTable) || !selectedDate || !selectedTime) {
       toast.error('Faltan datos para completar la reserva');
       return;
     }
 
-    // If deposit is required, open payment modal first
-    if (requiresDeposit && depositAmount && depositAmount > 0) {
+    // The table is already held: just pay its deposit
+    if (heldReservation) {
       setShowPaymentModal(true);
       return;
     }
 
-    // No deposit required, create reservation directly
     await createReservationDirectly();
   };
 
-  const createReservationDirectly = async (depositPaid = false) => {
-    if (!user || !selectedMesa || !selectedDate || !selectedTime) return;
+  // Creates the reservation; when a deposit is due the restaurant holds it as pending and we ask for the payment
+  const createReservationDirectly = async () => {
+    if (!user || (!selectedMesa && !autoAssignTable) || !selectedDate || !selectedTime) return;
 
     setIsSubmitting(true);
     try {
-      await createReservation.mutateAsync({
+      const reservation = await createReservation.mutateAsync({
         restaurantId: id!,
         userId: user.id,
-        tableId: selectedMesa.id,
+        tableId: autoAssignTable || !selectedMesa ? 'any' : selectedMesa.id,
         date: dateStr,
         time: selectedTime,
         guestCount: guestCount,
-        status: depositPaid ? 'confirmed' : 'pending',
+        status: 'pending',
         specialRequest: specialRequest || undefined,
         occasion: selectedOccasion || undefined,
-        depositPaid,
-        depositAmount: depositPaid ? depositAmount : 0,
+        depositPaid: false,
+        depositAmount: 0,
+        offerId: appliedOffer?.offer.id,
       });
+
+      if (reservation.depositStatus === 'awaiting_payment') {
+        setHeldReservation({ id: reservation.id, amount: Number(reservation.depositAmount) || depositAmount });
+        const dueTime = reservation.depositDueAt
+          ? new Date(reservation.depositDueAt).toLocaleTimeString('es-MX', { hour: '2-digit', minute: '2-digit' })
+          : null;
+        toast.info('Te apartamos la mesa', {
+          description: `Paga el anticipo de $${reservation.depositAmount} MXN${dueTime ? ` antes de las ${dueTime}` : ''} para confirmarla.`,
+        });
+        setShowPaymentModal(true);
+        return;
+      }
+
       toast.success('¡Reserva creada exitosamente!');
       setIsConfirmed(true);
     } catch (error: any) {
       console.error('Error creating reservation:', error);
+      const alternativeTimes: string[] = error.details?.alternatives?.times || [];
+      const violations: BookingPolicyViolation[] = error.details?.violations || [];
+      // Offer rule codes (e.g. DAILY_LIMIT): the booking can go ahead without the offer
+      if (error.details?.code) {
+        setAppliedOffer(null);
+        toast.error('No pudimos aplicar la promoción', {
+          description: `${error.message}. Puedes confirmar tu reserva sin ella.`,
+        });
+        return;
+      }
+      if (violations.length > 0) {
+        toast.error('No es posible completar la reserva', {
+          description: violations.map(policyViolationMessage).join(' '),
+        });
+        return;
+      }
+      if (error.status === 409) {
+        toast.error('Este horario acaba de ser reservado', {
+          description: alternativeTimes.length > 0 ? `Horarios disponibles: ${alternativeTimes.join(', ')}` : 'Por favor elige otro horario.',
+        });
+        return;
+      }
       toast.error(error.message || 'Error al crear la reserva');
     } finally {
       setIsSubmitting(false);
     }
   };
 
-  const handlePaymentSuccess = () => {
+  const handlePaymentSuccess = async (paymentIntentId: string) => {
     setShowPaymentModal(false);
-    createReservationDirectly(true);
+    try {
+      // The webhook confirms it too; this just avoids waiting for it
+      await paymentService.confirmDeposit(paymentIntentId);
+    } catch (error) {
+      console.error('Error confirming deposit:', error);
+    }
+    toast.success('¡Reserva confirmada!');
+    setIsConfirmed(true);
   };
 
   const canProceed = () => {
     switch (step) {
       case 'date': return !!selectedDate;
       case 'time': return !!selectedTime;
-      case 'table': return !!selectedMesa;
+      case 'table': return !!selectedMesa || autoAssignTable;
       case 'details': return guestCount >= 1;
       default: return true;
     }
@@ -255,7 +356,9 @@ const ReservationPage = () => {
                   </div>
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">Mesa</span>
-                    <span className="font-medium">Mesa {selectedMesa?.number} ({selectedMesa?.capacity} personas)</span>
+                    <span className="font-medium">
+                      {autoAssignTable ? 'Asignada por el restaurante' : `Mesa ${selectedMesa?.number} (${selectedMesa?.capacity} personas)`}
+                    </span>
                   </div>
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">Personas</span>
@@ -424,8 +527,8 @@ const ReservationPage = () => {
                     <Users className="h-5 w-5 text-primary" />
                     <Label className="text-base font-medium">¿Cuántas personas?</Label>
                   </div>
-                  <div className="flex gap-2">
-                    {[1, 2, 3, 4, 5, 6, 7, 8].map((num) => (
+                  <div className="flex flex-wrap gap-2">
+                    {[1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12].map((num) => (
                       <button
                         key={num}
                         onClick={() => setGuestCount(num)}
@@ -442,10 +545,32 @@ const ReservationPage = () => {
                   </div>
                 </div>
 
+                <button
+                  type="button"
+                  onClick={() => {
+                    setAutoAssignTable(!autoAssignTable);
+                    setSelectedMesa(null);
+                  }}
+                  className={cn(
+                    'w-full text-left rounded-2xl p-5 border-2 transition-all duration-200',
+                    autoAssignTable ? 'border-primary bg-primary/5' : 'border-border bg-card hover:border-primary/40'
+                  )}
+                >
+                  <p className="font-semibold">Cualquier mesa</p>
+                  <p className="text-sm text-muted-foreground">
+                    {availableTables.length === 0 && !tablesLoading
+                      ? 'No hay una mesa individual para tu grupo; el restaurante puede unir mesas para ti.'
+                      : 'El restaurante te asignará la mejor mesa disponible para tu grupo.'}
+                  </p>
+                </button>
+
                 <TableMap
                   tables={availableTables}
                   selectedTableId={selectedMesa?.id}
-                  onTableSelect={(table) => setSelectedMesa(table)}
+                  onTableSelect={(table) => {
+                    setSelectedMesa(table);
+                    setAutoAssignTable(false);
+                  }}
                   isLoading={tablesLoading}
                 />
               </div>
@@ -518,7 +643,7 @@ const ReservationPage = () => {
                     </div>
                     <div className="flex justify-between py-2 border-b border-border">
                       <span className="text-muted-foreground">Mesa</span>
-                      <span className="font-medium">Mesa {selectedMesa?.number}</span>
+                      <span className="font-medium">{autoAssignTable ? 'Mejor mesa disponible' : `Mesa ${selectedMesa?.number}`}</span>
                     </div>
                     <div className="flex justify-between py-2 border-b border-border">
                       <span className="text-muted-foreground">Personas</span>
@@ -532,6 +657,17 @@ const ReservationPage = () => {
                         </span>
                       </div>
                     )}
+                    {appliedOffer && (
+                      <div className="flex justify-between py-2 border-b border-border">
+                        <span className="text-muted-foreground">Promoción</span>
+                        <span className="font-medium text-right">
+                          {appliedOffer.offer.title}
+                          {depositQuote && depositQuote.discount > 0 && (
+                            <span className="block text-sm text-success">-${depositQuote.discount} MXN en el anticipo</span>
+                          )}
+                        </span>
+                      </div>
+                    )}
                     {specialRequest && (
                       <div className="py-2">
                         <span className="text-muted-foreground block mb-1">Solicitud especial</span>
@@ -541,6 +677,42 @@ const ReservationPage = () => {
                   </div>
                 </div>
 
+                {/* Promo Code */}
+                {!heldReservation && (
+                  <div className="bg-card rounded-2xl p-6 shadow-card">
+                    <div className="flex items-center gap-2 mb-4">
+                      <Tag className="h-5 w-5 text-primary" />
+                      <Label className="text-base font-medium">¿Tienes una promoción?</Label>
+                    </div>
+                    {appliedOffer ? (
+                      <div className="flex items-center justify-between gap-4 rounded-xl bg-primary/5 p-4">
+                        <div>
+                          <p className="font-medium">{appliedOffer.offer.title}</p>
+                          <p className="text-sm text-muted-foreground">{appliedOffer.offer.discount}</p>
+                        </div>
+                        <Button variant="ghost" size="icon" onClick={() => setAppliedOffer(null)} aria-label="Quitar promoción">
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <div className="flex gap-2">
+                        <Input
+                          placeholder="Código promocional"
+                          value={promoCode}
+                          onChange={(e) => setPromoCode(e.target.value.toUpperCase())}
+                        />
+                        <Button
+                          variant="outline"
+                          onClick={() => applyOffer({ promoCode: promoCode.trim() })}
+                          disabled={!promoCode.trim() || validateOffer.isPending}
+                        >
+                          {validateOffer.isPending ? 'Validando...' : 'Aplicar'}
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 {/* Deposit Notice */}
                 {requiresDeposit && (
                   <div className="bg-warning/10 rounded-2xl p-6 border border-warning/20">
@@ -556,6 +728,13 @@ const ReservationPage = () => {
                         </p>
                       </div>
                     </div>
+                    {cancellationPolicy && (
+                      <CancellationPolicyNotice
+                        policy={cancellationPolicy.policy}
+                        noShowPenalty={cancellationPolicy.noShowPenalty}
+                        className="mt-4 pt-4 border-t border-warning/20"
+                      />
+                    )}
                   </div>
                 )}
               </div>
@@ -597,6 +776,7 @@ const ReservationPage = () => {
         onSuccess={handlePaymentSuccess}
         amount={depositAmount || 0}
         restaurantName={restaurant.name}
+        reservationId={heldReservation?.id ?? null}
         reservationData={{
           restaurantId: id!,
           date: dateStr,
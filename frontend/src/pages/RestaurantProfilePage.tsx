@@ -1,28 +1,41 @@
 import { useState, useEffect } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { Star, ChevronLeft, Heart, Users, Calendar, Clock, ArrowRight } from 'lucide-react';
+import { Star, ChevronLeft, Heart, Users, Calendar, Clock, ArrowRight, AlertTriangle, Leaf } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Switch } from '@/components/ui/switch';
 import Header from '@/components/Header';
 import Footer from '@/components/Footer';
 import PhotoGallery from '@/components/restaurant/PhotoGallery';
 import RestaurantInfo from '@/components/restaurant/RestaurantInfo';
 import OffersSection from '@/components/restaurant/OffersSection';
 import ReviewsList from '@/components/restaurant/ReviewsList';
-import { useRestaurant, useMenu, useRestaurantOffers, useReviews } from '@/hooks/useData';
+import { useRestaurant, useMenu, useRestaurantOffers, useReviews, useDietaryProfile } from '@/hooks/useData';
+import { MenuDietaryConflicts } from '@/types';
 import { favoriteService } from '@/services/api';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 
+const RESTRICTION_WARNINGS: Record<string, string> = {
+  vegetarian: 'No es vegetariano',
+  vegan: 'No es vegano',
+  gluten_free: 'Contiene gluten',
+};
+
 const RestaurantProfilePage = () => {
   const { id } = useParams();
   const navigate = useNavigate();
   const { isAuthenticated } = useAuth();
   const { toast } = useToast();
   const { data: restaurant, isLoading } = useRestaurant(id);
-  const { data: menuItems = [] } = useMenu(id);
+  const { data: dietaryProfile } = useDietaryProfile(isAuthenticated);
+  const hasDietaryProfile = !!dietaryProfile && (
+    dietaryProfile.restrictions.length > 0 || dietaryProfile.allergies.length > 0 || dietaryProfile.maxSpiceLevel !== null
+  );
+  const [checkDietary, setCheckDietary] = useState(true);
+  const { data: menuItems = [] } = useMenu(id, hasDietaryProfile && checkDietary ? dietaryProfile : undefined);
   const { data: restaurantOffers = [] } = useRestaurantOffers(id);
   const { data: reviews = [] } = useReviews(id); // Fetch real reviews from API
   const [isFavorite, setIsFavorite] = useState(false);
@@ -123,6 +136,12 @@ const RestaurantProfilePage = () => {
 
   const menuCategories = [...new Set(menuItems.map(item => item.category))];
 
+  const describeConflicts = (conflicts: MenuDietaryConflicts) => [
+    ...conflicts.restrictions.map(restriction => RESTRICTION_WARNINGS[restriction]),
+    ...(conflicts.allergens.length ? [`Contiene ${conflicts.allergens.join(', ')}`] : []),
+    ...(conflicts.spiceLevel !== null ? [`Picante nivel ${conflicts.spiceLevel}`] : []),
+  ].join(' · ');
+
   // Build photos array
   const photos = restaurant.image
     ? [restaurant.image, ...(restaurant.photos || [])]
@@ -137,6 +156,7 @@ const RestaurantProfilePage = () => {
     validDays: offer.validDays,
     validHours: offer.validHours,
     validUntil: offer.validUntil,
+    menuItems: offer.menuItems,
   }));
 
   return (
@@ -261,6 +281,18 @@ const RestaurantProfilePage = () => {
                     animate={{ opacity: 1 }}
                     className="space-y-6"
                   >
+                    {hasDietaryProfile && (
+                      <div className="bg-card rounded-2xl px-6 py-4 shadow-card flex items-center justify-between gap-4">
+                        <div className="flex items-center gap-3">
+                          <Leaf className="w-5 h-5 text-primary" />
+                          <div>
+                            <p className="font-medium">Revisar con mi perfil alimentario</p>
+                            <p className="text-sm text-muted-foreground">Marca los platillos con tus alergias o restricciones</p>
+                          </div>
+                        </div>
+                        <Switch checked={checkDietary} onCheckedChange={setCheckDietary} />
+                      </div>
+                    )}
                     {menuCategories.length > 0 ? (
                       menuCategories.map((category) => (
                         <div key={category} className="bg-card rounded-2xl p-6 shadow-card">
@@ -271,7 +303,7 @@ const RestaurantProfilePage = () => {
                               .map((item) => (
                                 <div
                                   key={item.id}
-                                  className="flex gap-4 border-b border-border pb-4 last:border-0 last:pb-0"
+                                  className={`flex gap-4 border-b border-border pb-4 last:border-0 last:pb-0 ${item.dietaryConflicts ? 'opacity-60' : ''}`}
                                 >
                                   {item.image && (
                                     <img
@@ -288,8 +320,37 @@ const RestaurantProfilePage = () => {
                                       )}
                                     </div>
                                     <p className="text-sm text-muted-foreground mt-1 line-clamp-2">{item.description}</p>
+                                    {!!item.variants?.length && (
+                                      <p className="text-xs text-muted-foreground mt-1">
+                                        {item.variants
+                                          .filter(variant => variant.isAvailable)
+                                          .map(variant => `${variant.name} $${variant.effectivePrice ?? variant.price}`)
+                                          .join(' · ')}
+                                      </p>
+                                    )}
+                                    {!!item.modifierGroups?.length && (
+                                      <p className="text-xs text-muted-foreground mt-1">
+                                        {item.modifierGroups.map(group => group.name).join(' · ')}
+                                      </p>
+                                    )}
+                                    {item.dietaryConflicts && (
+                                      <p className="text-xs text-destructive mt-1 flex items-center gap-1">
+                                        <AlertTriangle className="w-3 h-3" />
+                                        {describeConflicts(item.dietaryConflicts)}
+                                      </p>
+                                    )}
                                   </div>
-                                  <p className="font-semibold text-primary text-lg">${item.price}</p>
+                                  {item.pricingRule && item.effectivePrice !== undefined ? (
+                                    <div className="text-right flex-shrink-0">
+                                      <p className="font-semibold text-primary text-lg">${item.effectivePrice}</p>
+                                      <p className="text-xs text-muted-foreground line-through">${item.price}</p>
+                                      <Badge variant="secondary" className="text-[10px] mt-1">
+                                        {item.pricingRule.name} · hasta {item.pricingRule.endsAt}
+                                      </Badge>
+                                    </div>
+                                  ) : (
+                                    <p className="font-semibold text-primary text-lg">${item.price}</p>
+                                  )}
                                 </div>
                               ))}
                           </div>
@@ -0,0 +1,283 @@
+import { useEffect, useState } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { motion } from 'framer-motion';
+import { Users, Clock, Check, AlertCircle, Phone, ListOrdered } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import Header from '@/components/Header';
+import Footer from '@/components/Footer';
+import { verificationService, waitlistService } from '@/services/api';
+import { toast } from 'sonner';
+
+type Step = 'form' | 'code' | 'joined';
+
+// Seconds the kiosk shows the confirmation before getting ready for the next guest
+const KIOSK_RESET_SECONDS = 15;
+const ACTIVE_STATUSES = ['waiting', 'notified', 'confirmed'];
+
+const storageKey = (restaurantId: string) => `mesafeliz_waitlist_${restaurantId}`;
+
+/**
+ * Public waitlist page for walk-ins: opened from the QR at the door or on a tablet in kiosk mode (?modo=kiosco).
+ * The guest verifies their phone by SMS, joins, and (on their own phone) follows their place in line.
+ */
+const WaitlistKioskPage = () => {
+  const { restaurantId } = useParams();
+  const [searchParams] = useSearchParams();
+  const isKiosk = searchParams.get('modo') === 'kiosco';
+
+  const [step, setStep] = useState<Step>('form');
+  const [form, setForm] = useState({ name: '', phone: '', email: '', partySize: '2' });
+  const [code, setCode] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  // On a guest's own phone, remember the entry so reloading the page keeps showing their place
+  const [entry, setEntry] = useState<{ id: string; phone: string } | null>(() => {
+    if (isKiosk || !restaurantId) return null;
+    const saved = localStorage.getItem(storageKey(restaurantId));
+    return saved ? JSON.parse(saved) : null;
+  });
+
+  const { data: kiosk, isLoading, isError } = useQuery({
+    queryKey: ['waitlist-kiosk', restaurantId],
+    queryFn: () => waitlistService.getKiosk(restaurantId!),
+    enabled: !!restaurantId,
+    refetchInterval: 60000,
+  });
+
+  const { data: position } = useQuery({
+    queryKey: ['waitlist-position', entry?.id],
+    queryFn: () => waitlistService.getStatus(entry!.id),
+    enabled: !!entry,
+    refetchInterval: 20000,
+  });
+
+  useEffect(() => {
+    if (entry && !isKiosk) setStep('joined');
+  }, [entry, isKiosk]);
+
+  // Kiosk: clear everything after a while so the next guest starts from scratch
+  useEffect(() => {
+    if (!isKiosk || step !== 'joined') return;
+    const timer = setTimeout(() => {
+      setEntry(null);
+      setForm({ name: '', phone: '', email: '', partySize: '2' });
+      setCode('');
+      setStep('form');
+    }, KIOSK_RESET_SECONDS * 1000);
+    return () => clearTimeout(timer);
+  }, [isKiosk, step]);
+
+  const isFinished = !!position && !ACTIVE_STATUSES.includes(position.status);
+
+  useEffect(() => {
+    if (isFinished && restaurantId) localStorage.removeItem(storageKey(restaurantId));
+  }, [isFinished, restaurantId]);
+
+  const handleSendCode = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    try {
+      await verificationService.sendPhoneCode(form.phone);
+      setStep('code');
+      toast.success('Te enviamos un código por SMS');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'No fue posible enviar el código');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleJoin = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!restaurantId) return;
+    setIsSubmitting(true);
+    try {
+      const verificationToken = await verificationService.verifyPhoneCode(form.phone, code);
+      const joined = await waitlistService.join({
+        restaurantId,
+        name: form.name,
+        phone: form.phone,
+        email: form.email || undefined,
+        partySize: Number(form.partySize),
+        verificationToken,
+      });
+      const saved = { id: joined.id, phone: joined.phone };
+      if (!isKiosk) localStorage.setItem(storageKey(restaurantId), JSON.stringify(saved));
+      setEntry(saved);
+      setStep('joined');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'No fue posible unirte a la lista de espera');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!entry || !restaurantId) return;
+    setIsSubmitting(true);
+    try {
+      await waitlistService.leave(entry.id, entry.phone);
+      localStorage.removeItem(storageKey(restaurantId));
+      setEntry(null);
+      setStep('form');
+      toast.success('Saliste de la lista de espera');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'No fue posible salir de la lista de espera');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const startOver = () => {
+    if (restaurantId) localStorage.removeItem(storageKey(restaurantId));
+    setEntry(null);
+    setCode('');
+    setStep('form');
+  };
+
+  const waitText = (minutes: number | null | undefined) => {
+    if (minutes === null || minutes === undefined) return 'Por confirmar';
+    return minutes === 0 ? 'Menos de 5 min' : `~${minutes} min`;
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {!isKiosk && <Header />}
+      <main className="container mx-auto px-4 py-16 max-w-lg">
+        {isLoading && <p className="text-center text-muted-foreground">Cargando...</p>}
+
+        {(isError || (!isLoading && !kiosk)) && (
+          <div className="text-center space-y-4">
+            <AlertCircle className="h-12 w-12 mx-auto text-destructive" />
+            <h1 className="text-2xl font-display font-bold">Restaurante no encontrado</h1>
+            <p className="text-muted-foreground">Este código ya no es válido.</p>
+          </div>
+        )}
+
+        {kiosk && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-card rounded-2xl p-8 shadow-card space-y-6"
+          >
+            <div className="text-center">
+              <h1 className="text-2xl font-display font-bold">{kiosk.name}</h1>
+              <p className="text-muted-foreground">Lista de espera</p>
+            </div>
+
+            {!kiosk.acceptingWalkIns && step !== 'joined' && (
+              <p className="text-center text-muted-foreground">Por ahora no estamos recibiendo clientes sin reserva.</p>
+            )}
+
+            {kiosk.acceptingWalkIns && step === 'form' && (
+              <form onSubmit={handleSendCode} className="space-y-4">
+                <div className="flex items-center gap-3 text-sm text-muted-foreground">
+                  <ListOrdered className="h-5 w-5 text-primary" />
+                  <span>{kiosk.partiesWaiting} grupos esperando</span>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="name">Nombre</Label>
+                  <Input id="name" required value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="phone">Teléfono</Label>
+                  <Input id="phone" type="tel" required value={form.phone} onChange={(e) => setForm({ ...form, phone: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="email">Correo (opcional, te avisamos cuando tu mesa esté lista)</Label>
+                  <Input id="email" type="email" value={form.email} onChange={(e) => setForm({ ...form, email: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="partySize">Personas</Label>
+                  <Input
+                    id="partySize"
+                    type="number"
+                    min={1}
+                    max={kiosk.maxPartySize || undefined}
+                    required
+                    value={form.partySize}
+                    onChange={(e) => setForm({ ...form, partySize: e.target.value })}
+                  />
+                </div>
+                <Button type="submit" size="lg" className="w-full" disabled={isSubmitting}>
+                  <Phone className="h-4 w-4 mr-2" />
+                  Enviar código por SMS
+                </Button>
+              </form>
+            )}
+
+            {kiosk.acceptingWalkIns && step === 'code' && (
+              <form onSubmit={handleJoin} className="space-y-4">
+                <p className="text-sm text-muted-foreground text-center">
+                  Escribe el código de 6 dígitos que enviamos a {form.phone}.
+                </p>
+                <Input
+                  inputMode="numeric"
+                  maxLength={6}
+                  required
+                  value={code}
+                  onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+                  className="text-center text-2xl tracking-[0.5em] h-14"
+                />
+                <Button type="submit" size="lg" className="w-full" disabled={isSubmitting || code.length !== 6}>
+                  Unirme a la lista
+                </Button>
+                <Button type="button" variant="ghost" className="w-full" onClick={() => setStep('form')}>
+                  Cambiar datos
+                </Button>
+              </form>
+            )}
+
+            {step === 'joined' && position && !isFinished && (
+              <div className="space-y-4">
+                <div className="p-4 rounded-xl bg-green-500/10 text-green-700 text-center font-medium">
+                  <Check className="h-5 w-5 inline mr-2" />
+                  {position.status === 'waiting'
+                    ? `¡Listo, ${position.name}! Ya estás en la lista.`
+                    : '¡Tu mesa está lista! Acércate con el anfitrión.'}
+                </div>
+                <div className="grid grid-cols-2 gap-4 text-center">
+                  <div className="p-4 rounded-xl bg-muted">
+                    <ListOrdered className="h-5 w-5 mx-auto text-primary mb-1" />
+                    <p className="text-3xl font-bold">{position.currentPosition}</p>
+                    <p className="text-xs text-muted-foreground">Tu lugar</p>
+                  </div>
+                  <div className="p-4 rounded-xl bg-muted">
+                    <Clock className="h-5 w-5 mx-auto text-primary mb-1" />
+                    <p className="text-3xl font-bold">{waitText(position.estimatedWait)}</p>
+                    <p className="text-xs text-muted-foreground">Espera estimada</p>
+                  </div>
+                </div>
+                <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+                  <Users className="h-4 w-4" />
+                  <span>{position.partySize} personas</span>
+                </div>
+                {isKiosk ? (
+                  <p className="text-center text-xs text-muted-foreground">Te avisaremos cuando tu mesa esté lista.</p>
+                ) : (
+                  <Button variant="outline" className="w-full" disabled={isSubmitting} onClick={handleLeave}>
+                    Salir de la lista
+                  </Button>
+                )}
+              </div>
+            )}
+
+            {step === 'joined' && isFinished && (
+              <div className="space-y-4 text-center">
+                <p className="text-muted-foreground">
+                  {position?.status === 'seated' ? '¡Buen provecho! Ya estás en tu mesa.' : 'Ya no estás en la lista de espera.'}
+                </p>
+                <Button className="w-full" onClick={startOver}>Volver a anotarme</Button>
+              </div>
+            )}
+          </motion.div>
+        )}
+      </main>
+      {!isKiosk && <Footer />}
+    </div>
+  );
+};
+
+export default WaitlistKioskPage;
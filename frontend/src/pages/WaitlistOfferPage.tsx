@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { useParams, useSearchParams, Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { motion } from 'framer-motion';
+import { Clock, Users, Check, X, AlertCircle, UtensilsCrossed } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import Header from '@/components/Header';
+import Footer from '@/components/Footer';
+import { waitlistService } from '@/services/api';
+import { toast } from 'sonner';
+
+/**
+ * Landing page of the "your table is ready" link sent to waitlist guests.
+ * Loading the page never answers the offer; the guest has to press a button.
+ */
+const WaitlistOfferPage = () => {
+  const { token } = useParams();
+  const [searchParams] = useSearchParams();
+  const requestedAction = searchParams.get('accion');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [result, setResult] = useState<'confirmed' | 'declined' | null>(null);
+
+  const { data: offer, isLoading, isError } = useQuery({
+    queryKey: ['waitlist-offer', token],
+    queryFn: () => waitlistService.getOffer(token!),
+    enabled: !!token,
+    retry: false,
+  });
+
+  const handleAction = async (action: 'confirmed' | 'declined') => {
+    if (!token) return;
+    setIsSubmitting(true);
+    try {
+      if (action === 'confirmed') {
+        await waitlistService.confirmOffer(token);
+      } else {
+        await waitlistService.declineOffer(token);
+      }
+      setResult(action);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'No fue posible responder a la oferta');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const expired = !!offer?.expiresAt && new Date(offer.expiresAt).getTime() < Date.now();
+  const finalState = result || (offer?.status === 'confirmed' ? 'confirmed' : null);
+  const canAct = offer?.status === 'notified' && !expired;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <main className="container mx-auto px-4 py-16 max-w-lg">
+        {isLoading && <p className="text-center text-muted-foreground">Cargando tu mesa...</p>}
+
+        {(isError || (!isLoading && !offer)) && (
+          <div className="text-center space-y-4">
+            <AlertCircle className="h-12 w-12 mx-auto text-destructive" />
+            <h1 className="text-2xl font-display font-bold">Enlace no válido</h1>
+            <p className="text-muted-foreground">Esta oferta no existe o ya expiró.</p>
+            <Button asChild>
+              <Link to="/">Volver al inicio</Link>
+            </Button>
+          </div>
+        )}
+
+        {offer && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-card rounded-2xl p-8 shadow-card space-y-6"
+          >
+            <div className="text-center">
+              <h1 className="text-2xl font-display font-bold">{offer.restaurant?.name}</h1>
+              <p className="text-muted-foreground">¡Tu mesa está lista, {offer.name}!</p>
+            </div>
+
+            <div className="space-y-3">
+              {offer.table && (
+                <div className="flex items-center gap-3">
+                  <UtensilsCrossed className="h-5 w-5 text-primary" />
+                  <span>Mesa {offer.table.number}{offer.table.zone ? ` · ${offer.table.zone}` : ''}</span>
+                </div>
+              )}
+              <div className="flex items-center gap-3">
+                <Users className="h-5 w-5 text-primary" />
+                <span>{offer.partySize} personas</span>
+              </div>
+              {offer.expiresAt && canAct && !finalState && (
+                <div className="flex items-center gap-3">
+                  <Clock className="h-5 w-5 text-primary" />
+                  <span>
+                    Confirma antes de las{' '}
+                    {new Date(offer.expiresAt).toLocaleTimeString('es-MX', { hour: '2-digit', minute: '2-digit' })}
+                  </span>
+                </div>
+              )}
+            </div>
+
+            {finalState === 'confirmed' && (
+              <div className="p-4 rounded-xl bg-green-500/10 text-green-700 text-center font-medium">
+                <Check className="h-5 w-5 inline mr-2" />
+                ¡Listo! Preséntate con el anfitrión para pasar a tu mesa.
+              </div>
+            )}
+
+            {finalState === 'declined' && (
+              <div className="p-4 rounded-xl bg-destructive/10 text-destructive text-center font-medium">
+                <X className="h-5 w-5 inline mr-2" />
+                Saliste de la lista de espera.
+              </div>
+            )}
+
+            {!finalState && canAct && (
+              <div className="flex flex-col gap-3">
+                <Button
+                  size="lg"
+                  variant={requestedAction === 'rechazar' ? 'outline' : 'default'}
+                  disabled={isSubmitting}
+                  onClick={() => handleAction('confirmed')}
+                >
+                  Voy en camino
+                </Button>
+                <Button
+                  size="lg"
+                  variant={requestedAction === 'rechazar' ? 'destructive' : 'outline'}
+                  disabled={isSubmitting}
+                  onClick={() => handleAction('declined')}
+                >
+                  Ya no necesito la mesa
+                </Button>
+              </div>
+            )}
+
+            {!finalState && !canAct && (
+              <p className="text-center text-muted-foreground">
+                {expired ? 'El tiempo para confirmar esta mesa terminó.' : 'Esta oferta ya no está disponible.'}
+              </p>
+            )}
+          </motion.div>
+        )}
+      </main>
+      <Footer />
+    </div>
+  );
+};
+
+export default WaitlistOfferPage;
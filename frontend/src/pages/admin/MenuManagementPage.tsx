@@ -1,6 +1,6 @@
 import { useState, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { UtensilsCrossed, Plus, Edit, Trash2, Star, Eye, EyeOff, Loader2, ExternalLink, Upload, X, ImageIcon } from 'lucide-react';
+import { UtensilsCrossed, Plus, Edit, Trash2, Star, Eye, EyeOff, Loader2, ExternalLink, Upload, X, ImageIcon, Clock, ListTree, Layers, FileUp } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -11,13 +11,18 @@ import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import AdminLayout from '@/components/admin/AdminLayout';
-import { useMenu, useUpdateMenuItem, useCreateMenuItem, useDeleteMenuItem } from '@/hooks/useData';
+import MenuPricingRulesDialog from '@/components/admin/MenuPricingRulesDialog';
+import MenuOrganizerDialog from '@/components/admin/MenuOrganizerDialog';
+import MenuItemModifiersDialog from '@/components/admin/MenuItemModifiersDialog';
+import MenuImportDialog from '@/components/admin/MenuImportDialog';
+import { useMenu, useMenuCategories, useUpdateMenuItem, useCreateMenuItem, useDeleteMenuItem } from '@/hooks/useData';
 import { useRestaurantAuth } from '@/contexts/RestaurantAuthContext';
 import { MenuItem } from '@/types';
 import { toast } from '@/components/ui/use-toast';
 import { API_BASE_URL } from '@/services/api';
 
-const categories = ['Entradas', 'Platillos Principales', 'Mariscos', 'Postres', 'Bebidas'];
+// Suggested until the restaurant creates its own; the backend creates them on first use
+const DEFAULT_CATEGORIES = ['Entradas', 'Platillos Principales', 'Mariscos', 'Postres', 'Bebidas'];
 
 const MenuManagementPage = () => {
     const { restaurant } = useRestaurantAuth();
@@ -25,6 +30,7 @@ const MenuManagementPage = () => {
 
     // Fetch menu items from API
     const { data: items = [], isLoading, error } = useMenu(restaurantId);
+    const { data: menuCategories = [] } = useMenuCategories(restaurantId);
 
     // API mutations
     const updateMutation = useUpdateMenuItem();
@@ -34,6 +40,10 @@ const MenuManagementPage = () => {
     const [isDialogOpen, setIsDialogOpen] = useState(false);
     const [editingItem, setEditingItem] = useState<MenuItem | null>(null);
     const [activeCategory, setActiveCategory] = useState('all');
+    const [isPricingOpen, setIsPricingOpen] = useState(false);
+    const [isOrganizerOpen, setIsOrganizerOpen] = useState(false);
+    const [modifiersItem, setModifiersItem] = useState<MenuItem | null>(null);
+    const [isImportOpen, setIsImportOpen] = useState(false);
 
     // Image upload states
     const [imageFile, setImageFile] = useState<File | null>(null);
@@ -44,6 +54,19 @@ const MenuManagementPage = () => {
     // Form states
     const [formData, setFormData] = useState<Partial<MenuItem>>({});
 
+    const topCategories = menuCategories.filter(c => !c.parentId).sort((a, b) => a.order - b.order);
+    const categories = topCategories.length > 0 ? topCategories.map(c => c.name) : DEFAULT_CATEGORIES;
+    // Items pick a category or subcategory by id; by name while there are none yet
+    const categoryOptions = topCategories.length > 0
+        ? topCategories.flatMap(parent => [
+            { value: parent.id, label: parent.name },
+            ...menuCategories
+                .filter(c => c.parentId === parent.id)
+                .sort((a, b) => a.order - b.order)
+                .map(sub => ({ value: sub.id, label: `${parent.name} › ${sub.name}` })),
+        ])
+        : DEFAULT_CATEGORIES.map(name => ({ value: name, label: name }));
+
     const filteredItems = activeCategory === 'all'
         ? items
         : items.filter(i => i.category === activeCategory);
@@ -174,7 +197,9 @@ const MenuManagementPage = () => {
             name: (form.elements.namedItem('name') as HTMLInputElement).value,
             description: (form.elements.namedItem('description') as HTMLTextAreaElement).value,
             price: parseFloat((form.elements.namedItem('price') as HTMLInputElement).value),
-            category: formData.category || editingItem?.category || categories[0],
+            ...(topCategories.length > 0
+                ? { categoryId: formData.categoryId || editingItem?.categoryId || categoryOptions[0].value }
+                : { category: formData.category || editingItem?.category || categories[0] }),
             image: imageUrl,
             isHighlighted: (form.elements.namedItem('isHighlighted') as any).checked,
             isAvailable: true
@@ -250,6 +275,18 @@ const MenuManagementPage = () => {
                                 Ver página pública
                             </a>
                         </Button>
+                        <Button variant="outline" onClick={() => setIsImportOpen(true)} className="gap-2">
+                            <FileUp className="w-4 h-4" />
+                            Importar
+                        </Button>
+                        <Button variant="outline" onClick={() => setIsOrganizerOpen(true)} className="gap-2">
+                            <ListTree className="w-4 h-4" />
+                            Organizar
+                        </Button>
+                        <Button variant="outline" onClick={() => setIsPricingOpen(true)} className="gap-2">
+                            <Clock className="w-4 h-4" />
+                            Precios por horario
+                        </Button>
                         <Button onClick={() => openDialog(null)} className="gap-2">
                             <Plus className="w-4 h-4" />Nuevo platillo
                         </Button>
@@ -308,8 +345,24 @@ const MenuManagementPage = () => {
                                 </div>
                                 <div className="flex items-center justify-between">
                                     <div>
-                                        <Badge variant="outline">{item.category}</Badge>
-                                        <p className="text-lg font-bold mt-1">${item.price}</p>
+                                        <Badge variant="outline">
+                                            {item.subcategory ? `${item.category} › ${item.subcategory}` : item.category}
+                                        </Badge>
+                                        <p className="text-lg font-bold mt-1">
+                                            {item.variants?.length
+                                                ? `Desde $${Math.min(...item.variants.map(v => v.price))}`
+                                                : `$${item.price}`}
+                                        </p>
+                                        {(item.variants?.length || item.modifierGroups?.length) ? (
+                                            <p className="text-xs text-muted-foreground">
+                                                {item.variants?.length || 0} variantes · {item.modifierGroups?.length || 0} grupos de extras
+                                            </p>
+                                        ) : null}
+                                        {item.pricingRule && (
+                                            <p className="text-xs text-success">
+                                                ${item.effectivePrice} ahora · {item.pricingRule.name}
+                                            </p>
+                                        )}
                                     </div>
                                     <div className="flex gap-1">
                                         <Button variant="ghost" size="icon" onClick={() => toggleHighlight(item)} title="Destacar">
@@ -318,6 +371,9 @@ const MenuManagementPage = () => {
                                         <Button variant="ghost" size="icon" onClick={() => toggleVisibility(item)} title="Visibilidad">
                                             {item.isAvailable ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
                                         </Button>
+                                        <Button variant="ghost" size="icon" onClick={() => setModifiersItem(item)} title="Variantes y extras">
+                                            <Layers className="w-4 h-4" />
+                                        </Button>
                                         <Button variant="ghost" size="icon" onClick={() => openDialog(item)}>
                                             <Edit className="w-4 h-4" />
                                         </Button>
@@ -354,12 +410,17 @@ const MenuManagementPage = () => {
                                     <div>
                                         <Label>Categoría</Label>
                                         <Select
-                                            defaultValue={editingItem?.category || categories[0]}
-                                            onValueChange={(val) => setFormData({ ...formData, category: val })}
+                                            defaultValue={
+                                                (topCategories.length > 0 ? editingItem?.categoryId : editingItem?.category)
+                                                || categoryOptions[0].value
+                                            }
+                                            onValueChange={(val) => setFormData(
+                                                topCategories.length > 0 ? { ...formData, categoryId: val } : { ...formData, category: val }
+                                            )}
                                         >
                                             <SelectTrigger><SelectValue /></SelectTrigger>
                                             <SelectContent>
-                                                {categories.map(c => <SelectItem key={c} value={c}>{c}</SelectItem>)}
+                                                {categoryOptions.map(c => <SelectItem key={c.value} value={c.value}>{c.label}</SelectItem>)}
                                             </SelectContent>
                                         </Select>
                                     </div>
@@ -419,6 +480,31 @@ const MenuManagementPage = () => {
                         </form>
                     </DialogContent>
                 </Dialog>
+
+                <MenuPricingRulesDialog
+                    open={isPricingOpen}
+                    onClose={() => setIsPricingOpen(false)}
+                    restaurantId={restaurantId}
+                    items={items}
+                    categories={topCategories.length > 0 ? categoryOptions : []}
+                />
+
+                <MenuItemModifiersDialog
+                    open={!!modifiersItem}
+                    onClose={() => setModifiersItem(null)}
+                    item={modifiersItem}
+                    items={items}
+                />
+
+                <MenuImportDialog open={isImportOpen} onClose={() => setIsImportOpen(false)} />
+
+                <MenuOrganizerDialog
+                    open={isOrganizerOpen}
+                    onClose={() => setIsOrganizerOpen(false)}
+                    restaurantId={restaurantId}
+                    categories={menuCategories}
+                    items={items}
+                />
             </div>
         </AdminLayout >
     );
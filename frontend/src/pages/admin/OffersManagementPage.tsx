@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Tag, Plus, Calendar, Percent, Edit, Trash2, Eye, EyeOff, Clock, Loader2 } from 'lucide-react';
+import { Tag, Plus, Calendar, Percent, Edit, Trash2, Eye, EyeOff, Clock, Loader2, Ticket, UtensilsCrossed } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -17,24 +17,44 @@ import {
 } from '@/components/ui/dialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import AdminLayout from '@/components/admin/AdminLayout';
-import { useRestaurantOffers, useCreateOffer, useUpdateOffer, useDeleteOffer } from '@/hooks/useData';
+import OfferCodesDialog from '@/components/admin/OfferCodesDialog';
+import { useRestaurantOffers, useCreateOffer, useUpdateOffer, useDeleteOffer, useMenu } from '@/hooks/useData';
 import { useRestaurantAuth } from '@/contexts/RestaurantAuthContext';
-import { Offer } from '@/types';
+import { LoyaltySegment, Offer, OfferRules, WeekDay } from '@/types';
 import { format } from 'date-fns';
 import { es } from 'date-fns/locale';
 import { toast } from 'sonner';
 
+const WEEK_DAYS: { value: WeekDay; label: string }[] = [
+    { value: 'monday', label: 'L' },
+    { value: 'tuesday', label: 'M' },
+    { value: 'wednesday', label: 'Mi' },
+    { value: 'thursday', label: 'J' },
+    { value: 'friday', label: 'V' },
+    { value: 'saturday', label: 'S' },
+    { value: 'sunday', label: 'D' },
+];
+
+const LOYALTY_SEGMENTS: LoyaltySegment[] = ['Nuevo Foodie', 'Foodie Activo', 'Gourmet Pro', 'Platinum VIP'];
+
+// Same defaults as the offers table: one use per customer, everything else unrestricted
+const DEFAULT_RULES: OfferRules = { maxUsesPerUser: 1, firstVisitOnly: false, stackable: false };
+
+const numberOrNull = (value: string) => value === '' ? null : Number(value);
+
 const OffersManagementPage = () => {
     const { restaurant } = useRestaurantAuth();
     const restaurantId = restaurant?.id;
 
     const { data: offers = [], isLoading, error, refetch } = useRestaurantOffers(restaurantId);
+    const { data: menuItems = [] } = useMenu(restaurantId);
     const createOfferMutation = useCreateOffer();
     const updateOfferMutation = useUpdateOffer();
     const deleteOfferMutation = useDeleteOffer();
 
     const [isCreateOpen, setIsCreateOpen] = useState(false);
     const [editingOffer, setEditingOffer] = useState<Offer | null>(null);
+    const [codesOffer, setCodesOffer] = useState<Offer | null>(null);
 
     // Form state
     const [title, setTitle] = useState('');
@@ -43,6 +63,28 @@ const OffersManagementPage = () => {
     const [discountType, setDiscountType] = useState('percentage');
     const [validFrom, setValidFrom] = useState('');
     const [validUntil, setValidUntil] = useState('');
+    const [rules, setRules] = useState<OfferRules>(DEFAULT_RULES);
+    // Dishes the offer covers (combos, 2x1...); none means the whole bill
+    const [menuItemIds, setMenuItemIds] = useState<string[]>([]);
+
+    const updateRules = (changes: OfferRules) => setRules(prev => ({ ...prev, ...changes }));
+
+    const toggleDay = (day: WeekDay) => {
+        const current = rules.validDays?.length ? rules.validDays : WEEK_DAYS.map(d => d.value);
+        const next = current.includes(day) ? current.filter(d => d !== day) : [...current, day];
+        // Every day (or none) means no restriction
+        updateRules({ validDays: next.length === 0 || next.length === WEEK_DAYS.length ? null : next });
+    };
+
+    const toggleSegment = (segment: LoyaltySegment) => {
+        const current = rules.allowedSegments || [];
+        const next = current.includes(segment) ? current.filter(s => s !== segment) : [...current, segment];
+        updateRules({ allowedSegments: next.length ? next : null });
+    };
+
+    const toggleMenuItem = (itemId: string) => {
+        setMenuItemIds(prev => prev.includes(itemId) ? prev.filter(id => id !== itemId) : [...prev, itemId]);
+    };
 
     const resetForm = () => {
         setTitle('');
@@ -51,6 +93,8 @@ const OffersManagementPage = () => {
         setDiscountType('percentage');
         setValidFrom('');
         setValidUntil('');
+        setRules(DEFAULT_RULES);
+        setMenuItemIds([]);
     };
 
     const handleOpenCreate = () => {
@@ -66,6 +110,21 @@ const OffersManagementPage = () => {
         setDiscountType(offer.discountType || 'percentage');
         setValidFrom(offer.validFrom || '');
         setValidUntil(offer.validUntil || '');
+        setRules({
+            validDays: offer.validDays?.length === WEEK_DAYS.length ? null : offer.validDays,
+            validHoursStart: offer.validHoursStart,
+            validHoursEnd: offer.validHoursEnd,
+            minPartySize: offer.minPartySize,
+            maxPartySize: offer.maxPartySize,
+            maxUsage: offer.maxUsage,
+            maxUsesPerUser: offer.maxUsesPerUser,
+            maxUsesPerDay: offer.maxUsesPerDay,
+            firstVisitOnly: offer.firstVisitOnly,
+            allowedSegments: offer.allowedSegments,
+            stackable: offer.stackable,
+            codeRequired: offer.codeRequired,
+        });
+        setMenuItemIds(offer.menuItems?.map(item => item.id) || []);
         setEditingOffer(offer);
         setIsCreateOpen(false);
     };
@@ -99,6 +158,8 @@ const OffersManagementPage = () => {
                         discountType,
                         validFrom: validFrom || undefined,
                         validUntil: validUntil || undefined,
+                        ...rules,
+                        menuItemIds,
                     }
                 });
                 toast.success('Oferta actualizada exitosamente');
@@ -112,6 +173,8 @@ const OffersManagementPage = () => {
                         discountType,
                         validFrom: validFrom || undefined,
                         validUntil: validUntil || undefined,
+                        ...rules,
+                        menuItemIds,
                     }
                 });
                 toast.success('Oferta creada exitosamente');
@@ -119,7 +182,8 @@ const OffersManagementPage = () => {
             handleClose();
             refetch();
         } catch (err) {
-            toast.error(editingOffer ? 'Error al actualizar la oferta' : 'Error al crear la oferta');
+            const fallback = editingOffer ? 'Error al actualizar la oferta' : 'Error al crear la oferta';
+            toast.error(err instanceof Error && err.message ? err.message : fallback);
             console.error('Error submitting offer:', err);
         }
     };
@@ -231,15 +295,44 @@ const OffersManagementPage = () => {
                                             {offer.validFrom ? format(new Date(offer.validFrom), 'PP', { locale: es }) : 'Cualquier fecha'} - {offer.validUntil ? format(new Date(offer.validUntil), 'PP', { locale: es }) : 'Sin límite'}
                                         </span>
                                     </div>
+                                    {(offer.validHoursStart || offer.validHoursEnd) && (
+                                        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                                            <Clock className="w-3 h-3" />
+                                            <span>{offer.validHoursStart || '00:00'} - {offer.validHoursEnd || '24:00'}</span>
+                                        </div>
+                                    )}
                                     <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                                        <Clock className="w-3 h-3" />
-                                        <span>{offer.usageCount || 0} usos reales</span>
+                                        <Percent className="w-3 h-3" />
+                                        <span>
+                                            {offer.usageCount || 0}{offer.maxUsage ? ` / ${offer.maxUsage}` : ''} usos reales
+                                            {offer.maxUsesPerUser ? ` · ${offer.maxUsesPerUser} por cliente` : ''}
+                                            {offer.maxUsesPerDay ? ` · ${offer.maxUsesPerDay} por día` : ''}
+                                        </span>
                                     </div>
+                                    {offer.menuItems && offer.menuItems.length > 0 && (
+                                        <div className="flex items-start gap-2 text-xs text-muted-foreground">
+                                            <UtensilsCrossed className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                                            <span>{offer.menuItems.map(item => item.name).join(', ')}</span>
+                                        </div>
+                                    )}
+                                    {(offer.firstVisitOnly || offer.stackable || offer.codeRequired || offer.allowedSegments?.length) && (
+                                        <div className="flex flex-wrap gap-1">
+                                            {offer.codeRequired && <Badge variant="outline" className="text-[10px]">Solo con código</Badge>}
+                                            {offer.firstVisitOnly && <Badge variant="outline" className="text-[10px]">Primera visita</Badge>}
+                                            {offer.stackable && <Badge variant="outline" className="text-[10px]">Combinable</Badge>}
+                                            {offer.allowedSegments?.map(segment => (
+                                                <Badge key={segment} variant="outline" className="text-[10px]">{segment}</Badge>
+                                            ))}
+                                        </div>
+                                    )}
                                 </div>
                                 <div className="flex gap-2">
                                     <Button variant="outline" size="sm" className="flex-1" onClick={() => handleOpenEdit(offer)}>
                                         <Edit className="w-4 h-4 mr-1" />Editar
                                     </Button>
+                                    <Button variant="outline" size="sm" onClick={() => setCodesOffer(offer)}>
+                                        <Ticket className="w-4 h-4 mr-1" />Códigos
+                                    </Button>
                                     <Button variant="ghost" size="sm" className="text-destructive" onClick={() => handleDeleteOffer(offer.id)}>
                                         <Trash2 className="w-4 h-4" />
                                     </Button>
@@ -250,7 +343,7 @@ const OffersManagementPage = () => {
                 )}
 
                 <Dialog open={isCreateOpen || !!editingOffer} onOpenChange={(open) => { if (!open) handleClose(); }}>
-                    <DialogContent className="sm:max-w-[550px] p-0 overflow-hidden">
+                    <DialogContent className="sm:max-w-[550px] p-0 max-h-[90vh] overflow-y-auto">
                         {/* Gradient Header */}
                         <div className="bg-gradient-to-r from-primary to-primary/80 p-6 text-white">
                             <DialogHeader>
@@ -295,7 +388,9 @@ const OffersManagementPage = () => {
                                         <SelectContent>
                                             <SelectItem value="percentage">💯 Porcentaje</SelectItem>
                                             <SelectItem value="fixed">💵 Monto fijo</SelectItem>
-                                            <SelectItem value="2x1">🎁 2x1</SelectItem>
+                                            <SelectItem value="bogo">🎁 2x1</SelectItem>
+                                            <SelectItem value="combo">🍽️ Combo</SelectItem>
+                                            <SelectItem value="special">✨ Especial</SelectItem>
                                         </SelectContent>
                                     </Select>
                                 </div>
@@ -310,6 +405,30 @@ const OffersManagementPage = () => {
                                 </div>
                             </div>
 
+                            {/* Covered Dishes */}
+                            {menuItems.length > 0 && (
+                                <div className="bg-muted/30 rounded-lg p-4 space-y-2">
+                                    <p className="text-sm font-medium text-muted-foreground">🍽️ Platillos incluidos (Opcional)</p>
+                                    <div className="flex flex-wrap gap-1 max-h-40 overflow-y-auto">
+                                        {menuItems.map(item => (
+                                            <Button
+                                                key={item.id}
+                                                type="button"
+                                                size="sm"
+                                                variant={menuItemIds.includes(item.id) ? 'default' : 'outline'}
+                                                className="h-8 text-xs"
+                                                onClick={() => toggleMenuItem(item.id)}
+                                            >
+                                                {item.name}
+                                            </Button>
+                                        ))}
+                                    </div>
+                                    <p className="text-[11px] text-muted-foreground">
+                                        Sin selección, la oferta aplica a toda la cuenta.
+                                    </p>
+                                </div>
+                            )}
+
                             {/* Date Range */}
                             <div className="bg-muted/30 rounded-lg p-4 space-y-3">
                                 <p className="text-sm font-medium text-muted-foreground">📅 Vigencia (Opcional)</p>
@@ -334,6 +453,143 @@ const OffersManagementPage = () => {
                                     </div>
                                 </div>
                             </div>
+
+                            {/* Usage Rules */}
+                            <div className="bg-muted/30 rounded-lg p-4 space-y-4">
+                                <p className="text-sm font-medium text-muted-foreground">🎯 Reglas de uso (Opcional)</p>
+
+                                <div>
+                                    <Label className="text-xs mb-1 block">Días válidos</Label>
+                                    <div className="flex gap-1">
+                                        {WEEK_DAYS.map(day => {
+                                            const active = !rules.validDays?.length || rules.validDays.includes(day.value);
+                                            return (
+                                                <Button
+                                                    key={day.value}
+                                                    type="button"
+                                                    size="sm"
+                                                    variant={active ? 'default' : 'outline'}
+                                                    className="h-8 w-9 px-0"
+                                                    onClick={() => toggleDay(day.value)}
+                                                >
+                                                    {day.label}
+                                                </Button>
+                                            );
+                                        })}
+                                    </div>
+                                </div>
+
+                                <div className="grid grid-cols-2 gap-3">
+                                    <div>
+                                        <Label className="text-xs mb-1 block">Desde las</Label>
+                                        <Input
+                                            type="time"
+                                            value={rules.validHoursStart || ''}
+                                            onChange={(e) => updateRules({ validHoursStart: e.target.value || null })}
+                                            className="h-10 border-2"
+                                        />
+                                    </div>
+                                    <div>
+                                        <Label className="text-xs mb-1 block">Hasta las</Label>
+                                        <Input
+                                            type="time"
+                                            value={rules.validHoursEnd || ''}
+                                            onChange={(e) => updateRules({ validHoursEnd: e.target.value || null })}
+                                            className="h-10 border-2"
+                                        />
+                                    </div>
+                                </div>
+
+                                <div className="grid grid-cols-2 gap-3">
+                                    <div>
+                                        <Label className="text-xs mb-1 block">Mínimo de personas</Label>
+                                        <Input
+                                            type="number"
+                                            min={1}
+                                            placeholder="Sin mínimo"
+                                            value={rules.minPartySize ?? ''}
+                                            onChange={(e) => updateRules({ minPartySize: numberOrNull(e.target.value) })}
+                                            className="h-10 border-2"
+                                        />
+                                    </div>
+                                    <div>
+                                        <Label className="text-xs mb-1 block">Usos por cliente</Label>
+                                        <Input
+                                            type="number"
+                                            min={1}
+                                            placeholder="Sin límite"
+                                            value={rules.maxUsesPerUser ?? ''}
+                                            onChange={(e) => updateRules({ maxUsesPerUser: numberOrNull(e.target.value) })}
+                                            className="h-10 border-2"
+                                        />
+                                    </div>
+                                    <div>
+                                        <Label className="text-xs mb-1 block">Usos por día</Label>
+                                        <Input
+                                            type="number"
+                                            min={1}
+                                            placeholder="Sin límite"
+                                            value={rules.maxUsesPerDay ?? ''}
+                                            onChange={(e) => updateRules({ maxUsesPerDay: numberOrNull(e.target.value) })}
+                                            className="h-10 border-2"
+                                        />
+                                    </div>
+                                    <div>
+                                        <Label className="text-xs mb-1 block">Usos totales</Label>
+                                        <Input
+                                            type="number"
+                                            min={1}
+                                            placeholder="Sin límite"
+                                            value={rules.maxUsage ?? ''}
+                                            onChange={(e) => updateRules({ maxUsage: numberOrNull(e.target.value) })}
+                                            className="h-10 border-2"
+                                        />
+                                    </div>
+                                </div>
+
+                                <div>
+                                    <Label className="text-xs mb-1 block">Solo para clientes</Label>
+                                    <div className="flex flex-wrap gap-1">
+                                        {LOYALTY_SEGMENTS.map(segment => (
+                                            <Button
+                                                key={segment}
+                                                type="button"
+                                                size="sm"
+                                                variant={rules.allowedSegments?.includes(segment) ? 'default' : 'outline'}
+                                                className="h-8 text-xs"
+                                                onClick={() => toggleSegment(segment)}
+                                            >
+                                                {segment}
+                                            </Button>
+                                        ))}
+                                    </div>
+                                    <p className="text-[11px] text-muted-foreground mt-1">Sin selección, la oferta es para todos.</p>
+                                </div>
+
+                                <div className="flex items-center justify-between">
+                                    <Label className="text-sm">Solo en la primera visita</Label>
+                                    <Switch
+                                        checked={Boolean(rules.firstVisitOnly)}
+                                        onCheckedChange={(checked) => updateRules({ firstVisitOnly: checked })}
+                                    />
+                                </div>
+                                {editingOffer?.codeRequired && (
+                                    <div className="flex items-center justify-between">
+                                        <Label className="text-sm">Solo con código único</Label>
+                                        <Switch
+                                            checked={Boolean(rules.codeRequired)}
+                                            onCheckedChange={(checked) => updateRules({ codeRequired: checked })}
+                                        />
+                                    </div>
+                                )}
+                                <div className="flex items-center justify-between">
+                                    <Label className="text-sm">Combinable con otras ofertas</Label>
+                                    <Switch
+                                        checked={Boolean(rules.stackable)}
+                                        onCheckedChange={(checked) => updateRules({ stackable: checked })}
+                                    />
+                                </div>
+                            </div>
                         </div>
 
                         {/* Footer Actions */}
@@ -352,6 +608,8 @@ const OffersManagementPage = () => {
                         </div>
                     </DialogContent>
                 </Dialog>
+
+                <OfferCodesDialog offer={codesOffer} onClose={() => setCodesOffer(null)} />
             </div>
         </AdminLayout>
     );
@@ -1,15 +1,33 @@
 import { useState } from 'react';
 import { motion } from 'framer-motion';
-import { BarChart3, TrendingUp, TrendingDown, Users, Calendar, DollarSign, Clock, PieChart, Loader2 } from 'lucide-react';
+import { BarChart3, TrendingUp, TrendingDown, Users, Calendar, DollarSign, Clock, PieChart, Loader2, Download, CheckCircle2, AlertTriangle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import AdminLayout from '@/components/admin/AdminLayout';
 import { cn } from '@/lib/utils';
-import { useDashboardMetrics, useRestaurantOffers, useRestaurantReservations, useReports } from '@/hooks/useData';
+import { useDashboardMetrics, useRestaurantOffers, useRestaurantReservations, useReports, usePaymentReconciliation } from '@/hooks/useData';
+import { dashboardService } from '@/services/api';
+import { ReconciliationIssue } from '@/types';
+import { toast } from 'sonner';
 import { useRestaurantAuth } from '@/contexts/RestaurantAuthContext';
 
+const PERIOD_DAYS = { week: 7, month: 30, quarter: 90 } as const;
+
+const ISSUE_LABELS: Record<ReconciliationIssue['issue'], string> = {
+    missing_charge: 'Anticipo sin cobro registrado',
+    unexpected_charge: 'Cobro sin anticipo en la reserva',
+    charge_mismatch: 'El monto cobrado no coincide',
+    refund_mismatch: 'El reembolso no coincide',
+    unlinked_payment: 'Cobro sin reserva asociada',
+};
+
+const toDateString = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const money = (amount: number) => `$${amount.toLocaleString('es-MX', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
 const ReportsPage = () => {
     const { restaurant } = useRestaurantAuth();
     const restaurantId = restaurant?.id;
@@ -19,6 +37,33 @@ const ReportsPage = () => {
     const { data: offers = [], isLoading: isOffersLoading } = useRestaurantOffers(restaurantId);
     const { data: reports = [], isLoading: isReportsLoading } = useReports(period);
 
+    // Payments ledger for the same period, reconciled against the reservations' deposits
+    const to = toDateString(new Date());
+    const fromDate = new Date();
+    fromDate.setDate(fromDate.getDate() - PERIOD_DAYS[period] + 1);
+    const from = toDateString(fromDate);
+    const { data: reconciliation } = usePaymentReconciliation(from, to);
+    const [isExporting, setIsExporting] = useState(false);
+
+    const handleExportPayments = async () => {
+        setIsExporting(true);
+        try {
+            const blob = await dashboardService.exportPayments(from, to);
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.setAttribute('href', url);
+            link.setAttribute('download', `pagos_${from}_${to}.csv`);
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            URL.revokeObjectURL(url);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'No fue posible exportar los pagos');
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
     // Use real data or empty array if loading
     const weeklyData = reports;
 
@@ -97,8 +142,8 @@ const ReportsPage = () => {
                                 {Math.abs(stats.revenueChange)}%
                             </span>
                         </div>
-                        <p className="text-3xl font-bold">${(stats.expectedRevenue * 25 / 1000).toFixed(0)}k</p>
-                        <p className="text-xs text-muted-foreground uppercase tracking-widest font-semibold">Ingresos Mensuales</p>
+                        <p className="text-3xl font-bold">{money(reconciliation?.totals.net ?? 0)}</p>
+                        <p className="text-xs text-muted-foreground uppercase tracking-widest font-semibold">Ingresos Netos (Pagos)</p>
                     </motion.div>
 
                     <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.3 }} className="bg-card rounded-xl p-6 shadow-card border">
@@ -165,6 +210,73 @@ const ReportsPage = () => {
                     </div>
                 </div>
 
+                {reconciliation && (
+                    <div className="bg-card rounded-xl p-6 shadow-card border space-y-6">
+                        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                            <div>
+                                <h3 className="text-xl font-display font-semibold">Pagos y Conciliación</h3>
+                                <p className="text-sm text-muted-foreground">Movimientos reales de Stripe comparados con los anticipos de tus reservas</p>
+                            </div>
+                            <div className="flex items-center gap-3">
+                                {reconciliation.balanced ? (
+                                    <Badge variant="outline" className="bg-success/10 text-success border-success/20 gap-1">
+                                        <CheckCircle2 className="w-3 h-3" /> Cuadra
+                                    </Badge>
+                                ) : (
+                                    <Badge variant="outline" className="bg-warning/10 text-warning border-warning/20 gap-1">
+                                        <AlertTriangle className="w-3 h-3" /> {reconciliation.issues.length} por revisar
+                                    </Badge>
+                                )}
+                                <Button variant="outline" size="sm" className="gap-2" onClick={handleExportPayments} disabled={isExporting}>
+                                    {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                                    Exportar CSV
+                                </Button>
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+                            {[
+                                { label: 'Cobros', value: reconciliation.totals.charges },
+                                { label: 'Reembolsos', value: reconciliation.totals.refunds },
+                                { label: 'Comisiones', value: reconciliation.totals.fees },
+                                { label: 'Contracargos', value: reconciliation.totals.disputes },
+                                { label: 'Neto', value: reconciliation.totals.net },
+                            ].map(item => (
+                                <div key={item.label} className="bg-muted/30 rounded-lg p-4 border">
+                                    <p className="text-muted-foreground text-[10px] font-bold uppercase tracking-widest mb-1">{item.label}</p>
+                                    <p className={cn("text-lg font-bold", item.value < 0 && "text-destructive")}>{money(item.value)}</p>
+                                </div>
+                            ))}
+                        </div>
+
+                        <p className="text-sm text-muted-foreground">
+                            Anticipos registrados en reservas: <span className="font-semibold text-foreground">{money(reconciliation.totals.reservationDeposits)}</span>
+                            {reconciliation.totals.difference !== 0 && (
+                                <span className="text-warning"> · Diferencia con los cobros: {money(reconciliation.totals.difference)}</span>
+                            )}
+                        </p>
+
+                        {reconciliation.issues.length > 0 && (
+                            <div className="space-y-2">
+                                {reconciliation.issues.slice(0, 10).map((issue, i) => (
+                                    <div key={`${issue.reservationId}-${issue.issue}-${i}`} className="flex justify-between items-center p-3 rounded-lg bg-warning/5 border border-warning/20 text-sm">
+                                        <div>
+                                            <p className="font-medium">{ISSUE_LABELS[issue.issue]}</p>
+                                            <p className="text-xs text-muted-foreground">
+                                                {issue.reservationId ? `Reserva ${issue.reservationId.slice(0, 8).toUpperCase()}` : issue.paymentIntentId}
+                                            </p>
+                                        </div>
+                                        <div className="text-right text-xs">
+                                            <p>Reserva: <span className="font-semibold">{money(issue.expected)}</span></p>
+                                            <p>Stripe: <span className="font-semibold">{money(issue.recorded)}</span></p>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                )}
+
                 <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
                     <div className="bg-muted/30 rounded-xl p-4 text-center border">
                         <p className="text-muted-foreground text-[10px] font-bold uppercase tracking-widest mb-2">Día más ocupado</p>
@@ -41,9 +41,9 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import AdminLayout from '@/components/admin/AdminLayout';
 import { cn } from '@/lib/utils';
-import { useRestaurantReservations, useUpdateReservationStatus, useCompleteService } from '@/hooks/useData';
+import { useRestaurantReservations, useUpdateReservationStatus, useCompleteService, useReservationHistory } from '@/hooks/useData';
 import { useRestaurantAuth, withRestaurantAuth } from '@/contexts/RestaurantAuthContext';
-import { Reservation, ReservationStatus } from '@/types';
+import { Reservation, ReservationEvent, ReservationStatus } from '@/types';
 import { format, isWithinInterval, startOfWeek, endOfWeek, startOfMonth, endOfMonth, parseISO, isSameDay } from 'date-fns';
 import { es } from 'date-fns/locale';
 import { toast } from 'sonner';
@@ -81,6 +81,10 @@ const ReservationsManagementPage = () => {
         date: getDateString()
     });
 
+    const { data: history = [], isLoading: isHistoryLoading } = useReservationHistory(
+        isDetailOpen ? selectedReservation?.id : undefined
+    );
+
     const updateStatusMutation = useUpdateReservationStatus();
     const completeServiceMutation = useCompleteService();
 
@@ -126,6 +130,8 @@ const ReservationsManagementPage = () => {
                 return <Badge className="bg-primary text-primary-foreground">Completada</Badge>;
             case 'arrived':
                 return <Badge className="bg-info text-info-foreground">Llegó</Badge>;
+            case 'seated':
+                return <Badge className="bg-info text-info-foreground">Sentado</Badge>;
             case 'no_show':
                 return <Badge className="bg-muted text-muted-foreground">No asistió</Badge>;
             default:
@@ -133,6 +139,13 @@ const ReservationsManagementPage = () => {
         }
     };
 
+    const describeEvent = (event: ReservationEvent) => {
+        const actor = event.actorType === 'system'
+            ? 'Sistema'
+            : event.actorName || (event.actorType === 'guest' ? 'Cliente' : 'Personal');
+        return event.reason ? `${actor} • ${event.reason}` : actor;
+    };
+
     const filteredReservations = reservations.filter(res => {
         // 1. Search filter
         const name = res.customerName || '';
@@ -555,6 +568,29 @@ const ReservationsManagementPage = () => {
                                             </p>
                                         </div>
                                     )}
+
+                                    <div className="space-y-2">
+                                        <p className="text-xs text-muted-foreground uppercase tracking-wider">Historial</p>
+                                        {isHistoryLoading ? (
+                                            <p className="text-sm text-muted-foreground">Cargando historial...</p>
+                                        ) : history.length === 0 ? (
+                                            <p className="text-sm text-muted-foreground">Sin cambios registrados</p>
+                                        ) : (
+                                            <ol className="space-y-2 border-l pl-4">
+                                                {history.map(event => (
+                                                    <li key={event.id} className="text-sm">
+                                                        <div className="flex items-center gap-2">
+                                                            {getStatusBadge(event.toStatus)}
+                                                            <span className="text-muted-foreground">
+                                                                {format(new Date(event.createdAt), 'PP p', { locale: es })}
+                                                            </span>
+                                                        </div>
+                                                        <p className="text-muted-foreground mt-1">{describeEvent(event)}</p>
+                                                    </li>
+                                                ))}
+                                            </ol>
+                                        )}
+                                    </div>
                                 </div>
 
                                 <DialogFooter className="flex-col sm:flex-row gap-2 mt-6">
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Clock, Users, CreditCard, Bell, Shield, Save, Loader2, Store } from 'lucide-react';
+import { Clock, Users, CreditCard, Bell, Shield, Save, Loader2, Store, ExternalLink, Trash2 } from 'lucide-react';
+import QRCode from 'react-qr-code';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -38,12 +39,15 @@ const RestaurantSettingsPage = () => {
         // Schedule
         openTime: restaurant?.openTime || '12:00',
         closeTime: restaurant?.closeTime || '23:00',
-        reservationBuffer: '15',
+        reservationBuffer: '0',
         maxPartySize: '12',
         toleranceMinutes: '15',
         requireDeposit: false,
         depositAmount: '200',
         depositHours: ['19:00', '19:30', '20:00', '20:30', '21:00'] as string[],
+        // Cancellation policy tiers; none means the deposit is always refunded in full
+        cancellationTiers: [] as { minHoursBefore: string; refundPercent: string }[],
+        noShowPenaltyPercent: '',
         autoConfirm: false,
         sendReminders: true,
         reminderHours: '24',
@@ -65,8 +69,13 @@ const RestaurantSettingsPage = () => {
                         maxPartySize: data.maxGuestsPerReservation?.toString() || data.maxPartySize?.toString() || prev.maxPartySize,
                         requireDeposit: data.depositRequired ?? prev.requireDeposit,
                         depositAmount: data.depositAmount?.toString() || prev.depositAmount,
-                        depositHours: data.depositHours || prev.depositHours,
-                        reservationBuffer: data.reservationDuration?.toString() || prev.reservationBuffer,
+                        depositHours: Array.isArray(data.depositHours) ? data.depositHours : prev.depositHours,
+                        cancellationTiers: (data.cancellationPolicy?.tiers || []).map((tier: { minHoursBefore: number; refundPercent: number }) => ({
+                            minHoursBefore: tier.minHoursBefore.toString(),
+                            refundPercent: tier.refundPercent.toString(),
+                        })),
+                        noShowPenaltyPercent: data.cancellationPolicy?.noShowPenaltyPercent?.toString() ?? '',
+                        reservationBuffer: data.bufferMinutes?.toString() || prev.reservationBuffer,
                     }));
                 }
             } catch (error) {
@@ -103,6 +112,27 @@ const RestaurantSettingsPage = () => {
         }));
     };
 
+    const updateCancellationTier = (index: number, field: 'minHoursBefore' | 'refundPercent', value: string) => {
+        setFormState(prev => ({
+            ...prev,
+            cancellationTiers: prev.cancellationTiers.map((tier, i) => i === index ? { ...tier, [field]: value } : tier)
+        }));
+    };
+
+    const addCancellationTier = () => {
+        setFormState(prev => ({
+            ...prev,
+            cancellationTiers: [...prev.cancellationTiers, { minHoursBefore: '0', refundPercent: '0' }]
+        }));
+    };
+
+    const removeCancellationTier = (index: number) => {
+        setFormState(prev => ({
+            ...prev,
+            cancellationTiers: prev.cancellationTiers.filter((_, i) => i !== index)
+        }));
+    };
+
     // Available time slots for deposit hour selection
     const availableHours = ['12:00', '13:00', '14:00', '15:00', '16:00', '17:00', '18:00', '19:00', '19:30', '20:00', '20:30', '21:00', '21:30', '22:00'];
 
@@ -119,13 +149,22 @@ const RestaurantSettingsPage = () => {
                 depositRequired: formState.requireDeposit,
                 depositAmount: parseInt(formState.depositAmount) || 200,
                 depositHours: formState.depositHours,
+                cancellationPolicy: formState.cancellationTiers.length > 0
+                    ? {
+                        tiers: formState.cancellationTiers.map(tier => ({
+                            minHoursBefore: Number(tier.minHoursBefore),
+                            refundPercent: Number(tier.refundPercent),
+                        })),
+                        noShowPenaltyPercent: formState.noShowPenaltyPercent === '' ? null : Number(formState.noShowPenaltyPercent),
+                    }
+                    : null,
                 maxGuestsPerReservation: parseInt(formState.maxPartySize),
-                reservationDuration: parseInt(formState.reservationBuffer) || 15,
+                bufferMinutes: parseInt(formState.reservationBuffer) || 0,
             });
             toast.success('Configuración guardada correctamente');
         } catch (err) {
             console.error('Error saving settings:', err);
-            toast.error('Error al guardar la configuración');
+            toast.error(err instanceof Error ? err.message : 'Error al guardar la configuración');
         } finally {
             setIsSaving(false);
         }
@@ -303,6 +342,31 @@ const RestaurantSettingsPage = () => {
                                 <Switch checked={formState.autoConfirm} onCheckedChange={(checked) => setFormState({ ...formState, autoConfirm: checked })} />
                             </div>
                         </div>
+
+                        {restaurant?.id && (
+                            <div className="bg-card rounded-2xl p-8 shadow-sm border space-y-6">
+                                <div>
+                                    <h3 className="text-xl font-bold">Lista de espera en la puerta</h3>
+                                    <p className="text-sm text-muted-foreground">
+                                        Imprime este código QR o abre el modo kiosco en una tablet para que los clientes sin reserva se anoten con su teléfono.
+                                    </p>
+                                </div>
+                                <div className="flex flex-col sm:flex-row items-center gap-8">
+                                    <div className="p-3 bg-white rounded-lg border shadow-sm">
+                                        <QRCode value={`${window.location.origin}/lista-espera/${restaurant.id}`} size={140} />
+                                    </div>
+                                    <div className="space-y-3">
+                                        <p className="font-mono text-xs break-all text-muted-foreground">{`${window.location.origin}/lista-espera/${restaurant.id}`}</p>
+                                        <Button variant="outline" asChild>
+                                            <a href={`/lista-espera/${restaurant.id}?modo=kiosco`} target="_blank" rel="noreferrer">
+                                                <ExternalLink className="w-4 h-4 mr-2" />
+                                                Abrir modo kiosco
+                                            </a>
+                                        </Button>
+                                    </div>
+                                </div>
+                            </div>
+                        )}
                     </TabsContent>
 
                     <TabsContent value="deposits" className="space-y-6">
@@ -348,6 +412,58 @@ const RestaurantSettingsPage = () => {
                                             ))}
                                         </div>
                                     </div>
+                                    <div className="space-y-4 p-4 bg-muted/40 rounded-xl border">
+                                        <div>
+                                            <p className="text-xs font-bold uppercase tracking-widest text-muted-foreground">Política de cancelación</p>
+                                            <p className="text-sm text-muted-foreground mt-1">
+                                                Cuánto del anticipo se devuelve según las horas de anticipación con que el cliente cancela.
+                                                Sin tramos se devuelve siempre completo; si el restaurante cancela, también.
+                                            </p>
+                                        </div>
+                                        {formState.cancellationTiers.map((tier, index) => (
+                                            <div key={index} className="flex items-end gap-3">
+                                                <div className="space-y-1 flex-1">
+                                                    <Label className="text-xs">Con al menos (horas antes)</Label>
+                                                    <Input
+                                                        type="number"
+                                                        min={0}
+                                                        value={tier.minHoursBefore}
+                                                        onChange={(e) => updateCancellationTier(index, 'minHoursBefore', e.target.value)}
+                                                    />
+                                                </div>
+                                                <div className="space-y-1 flex-1">
+                                                    <Label className="text-xs">Reembolso (%)</Label>
+                                                    <Input
+                                                        type="number"
+                                                        min={0}
+                                                        max={100}
+                                                        value={tier.refundPercent}
+                                                        onChange={(e) => updateCancellationTier(index, 'refundPercent', e.target.value)}
+                                                    />
+                                                </div>
+                                                <Button variant="ghost" size="icon" onClick={() => removeCancellationTier(index)} aria-label="Quitar tramo">
+                                                    <Trash2 className="h-4 w-4" />
+                                                </Button>
+                                            </div>
+                                        ))}
+                                        <Button variant="outline" size="sm" className="gap-2" onClick={addCancellationTier}>
+                                            <Plus className="h-4 w-4" />
+                                            Agregar tramo
+                                        </Button>
+                                        {formState.cancellationTiers.length > 0 && (
+                                            <div className="space-y-1 max-w-xs">
+                                                <Label className="text-xs">Penalización si no se presenta (% del anticipo)</Label>
+                                                <Input
+                                                    type="number"
+                                                    min={0}
+                                                    max={100}
+                                                    placeholder="Usar monto fijo"
+                                                    value={formState.noShowPenaltyPercent}
+                                                    onChange={(e) => setFormState({ ...formState, noShowPenaltyPercent: e.target.value })}
+                                                />
+                                            </div>
+                                        )}
+                                    </div>
                                 </motion.div>
                             )}
                         </div>
@@ -30,6 +30,7 @@ import {
 import AdminLayout from '@/components/admin/AdminLayout';
 import { cn } from '@/lib/utils';
 import { useTables, useUpdateTableStatus, useCreateTable, useUpdateTable, useDeleteTable } from '@/hooks/useData';
+import { useRestaurantEvents } from '@/hooks/useRestaurantEvents';
 import { useRestaurantAuth } from '@/contexts/RestaurantAuthContext';
 import { Table, TableStatus, TableZone } from '@/types';
 import { toast } from 'sonner';
@@ -85,6 +86,14 @@ const TableMapOperativePage = () => {
     const [isEditMode, setIsEditMode] = useState(false);
     const [selectedZone, setSelectedZone] = useState<TableZone>('main');
 
+    // Changes from other screens arrive live; not while dragging tables in edit mode
+    useRestaurantEvents(restaurantId, (event) => {
+        if (!autoRefresh || isEditMode) return;
+        if (event.type.startsWith('table.') || event.type.startsWith('reservation.')) {
+            refetch();
+        }
+    });
+
     // Modal de creación de mesa
     const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
     const [newTableNumber, setNewTableNumber] = useState('');
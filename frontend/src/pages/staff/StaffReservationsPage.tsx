@@ -3,14 +3,16 @@ import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import {
     Calendar, Clock, Users, Phone, Check, LogOut,
-    RefreshCw, MapPin, Loader2, User, Search
+    RefreshCw, MapPin, Loader2, User, Search, AlertTriangle
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
 import { useStaffAuth } from '@/contexts/StaffAuthContext';
+import { useRestaurantEvents } from '@/hooks/useRestaurantEvents';
 import { toast } from '@/components/ui/use-toast';
+import { DietaryRestriction, GuestReliability, GuestRestriction } from '@/types';
 
 interface Reservation {
     id: string;
@@ -20,6 +22,8 @@ interface Reservation {
     status: 'pending' | 'confirmed' | 'arrived' | 'completed' | 'cancelled';
     occasion?: string;
     special_request?: string;
+    dietary_restrictions?: DietaryRestriction[];
+    allergies?: string[];
     users: {
         id: string;
         name: string;
@@ -31,10 +35,18 @@ interface Reservation {
         number: number;
         capacity: number;
     };
+    guest_reliability?: GuestReliability;
+    guest_restriction?: GuestRestriction | null;
 }
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
 
+const RESTRICTION_LABELS: Record<DietaryRestriction, string> = {
+    vegetarian: 'Vegetariano',
+    vegan: 'Vegano',
+    gluten_free: 'Sin gluten',
+};
+
 const StaffReservationsPage = () => {
     const navigate = useNavigate();
     const { user, restaurant, token, isAuthenticated, logout } = useStaffAuth();
@@ -52,10 +64,10 @@ const StaffReservationsPage = () => {
     }, [isAuthenticated, navigate]);
 
     // Fetch today's reservations
-    const fetchReservations = async () => {
+    const fetchReservations = async (silent = false) => {
         if (!restaurant?.id || !token) return;
 
-        setIsLoading(true);
+        if (!silent) setIsLoading(true);
         try {
             const response = await fetch(
                 `${API_BASE_URL}/staff/reservations/today?restaurantId=${restaurant.id}`,
@@ -83,14 +95,19 @@ const StaffReservationsPage = () => {
         }
     };
 
+    // Live updates from other staff; polling only while the channel is down
+    const { isConnected } = useRestaurantEvents(restaurant?.id, (event) => {
+        if (event.type.startsWith('reservation.')) fetchReservations(true);
+    }, token);
+
     useEffect(() => {
         if (restaurant?.id) {
-            fetchReservations();
-            // Auto-refresh every 30 seconds
-            const interval = setInterval(fetchReservations, 30000);
+            fetchReservations(isConnected);
+            if (isConnected) return;
+            const interval = setInterval(() => fetchReservations(true), 30000);
             return () => clearInterval(interval);
         }
-    }, [restaurant?.id, token]);
+    }, [restaurant?.id, token, isConnected]);
 
     // Handle check-in
     const handleCheckIn = async (reservationId: string) => {
@@ -192,6 +209,21 @@ const StaffReservationsPage = () => {
         }
     };
 
+    // Only guests worth a heads-up get a badge
+    const renderReliabilityBadge = (reservation: Reservation) => {
+        const reliability = reservation.guest_reliability;
+        if (reservation.guest_restriction?.restriction === 'blocked') {
+            return <Badge className="bg-red-100 text-red-800">Bloqueado</Badge>;
+        }
+        if (reliability?.level === 'risky') {
+            return <Badge className="bg-red-100 text-red-800">Confiabilidad {reliability.score} • {reliability.noShows} no-shows</Badge>;
+        }
+        if (reliability?.level === 'regular') {
+            return <Badge className="bg-yellow-100 text-yellow-800">Confiabilidad {reliability.score}</Badge>;
+        }
+        return null;
+    };
+
     const getStatusLabel = (status: string) => {
         switch (status) {
             case 'pending': return 'Pendiente';
@@ -225,7 +257,7 @@ const StaffReservationsPage = () => {
                             <Button
                                 variant="ghost"
                                 size="sm"
-                                onClick={fetchReservations}
+                                onClick={() => fetchReservations()}
                                 className="text-white hover:bg-blue-700"
                             >
                                 <RefreshCw className="h-4 w-4" />
@@ -328,6 +360,7 @@ const StaffReservationsPage = () => {
                                                     <div className="flex items-center gap-2">
                                                         <User className="h-4 w-4 text-gray-400" />
                                                         <span className="font-medium">{reservation.users?.name || 'Sin nombre'}</span>
+                                                        {renderReliabilityBadge(reservation)}
                                                         <span className="text-gray-500">•</span>
                                                         <Users className="h-4 w-4 text-gray-400" />
                                                         <span>{reservation.guest_count} personas</span>
@@ -345,6 +378,21 @@ const StaffReservationsPage = () => {
                                                             🎉 {reservation.occasion}
                                                         </p>
                                                     )}
+                                                    {!!reservation.allergies?.length && (
+                                                        <div className="flex items-center gap-2 text-sm font-medium text-red-700 bg-red-50 rounded-md px-2 py-1 w-fit">
+                                                            <AlertTriangle className="h-4 w-4" />
+                                                            Alergia: {reservation.allergies.join(', ')}
+                                                        </div>
+                                                    )}
+                                                    {!!reservation.dietary_restrictions?.length && (
+                                                        <div className="flex flex-wrap gap-1">
+                                                            {reservation.dietary_restrictions.map(restriction => (
+                                                                <Badge key={restriction} variant="outline" className="text-green-700 border-green-300">
+                                                                    {RESTRICTION_LABELS[restriction] || restriction}
+                                                                </Badge>
+                                                            ))}
+                                                        </div>
+                                                    )}
                                                     {reservation.special_request && (
                                                         <p className="text-sm text-gray-500 italic">
                                                             "{reservation.special_request}"
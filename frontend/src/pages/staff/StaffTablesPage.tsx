@@ -7,6 +7,7 @@ import {
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useStaffAuth } from '@/contexts/StaffAuthContext';
+import { useRestaurantEvents } from '@/hooks/useRestaurantEvents';
 import { toast } from '@/components/ui/use-toast';
 
 interface Table {
@@ -34,10 +35,10 @@ const StaffTablesPage = () => {
     }, [isAuthenticated, navigate]);
 
     // Fetch tables
-    const fetchTables = async () => {
+    const fetchTables = async (silent = false) => {
         if (!restaurant?.id || !token) return;
 
-        setIsLoading(true);
+        if (!silent) setIsLoading(true);
         try {
             const response = await fetch(
                 `${API_BASE_URL}/staff/tables?restaurantId=${restaurant.id}`,
@@ -65,14 +66,19 @@ const StaffTablesPage = () => {
         }
     };
 
+    // Live updates from other staff; polling only while the channel is down
+    const { isConnected } = useRestaurantEvents(restaurant?.id, (event) => {
+        if (event.type.startsWith('table.') || event.type.startsWith('reservation.')) fetchTables(true);
+    }, token);
+
     useEffect(() => {
         if (restaurant?.id) {
-            fetchTables();
-            // Auto-refresh every 15 seconds
-            const interval = setInterval(fetchTables, 15000);
+            fetchTables(isConnected);
+            if (isConnected) return;
+            const interval = setInterval(() => fetchTables(true), 15000);
             return () => clearInterval(interval);
         }
-    }, [restaurant?.id, token]);
+    }, [restaurant?.id, token, isConnected]);
 
     // Toggle table status
     const toggleTableStatus = async (table: Table) => {
@@ -162,7 +168,7 @@ const StaffTablesPage = () => {
                             <Button
                                 variant="ghost"
                                 size="sm"
-                                onClick={fetchTables}
+                                onClick={() => fetchTables()}
                                 className="text-white hover:bg-blue-700"
                             >
                                 <RefreshCw className="h-4 w-4" />
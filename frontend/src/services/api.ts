@@ -10,16 +10,41 @@ import {
     Table,
     Reservation,
     Offer,
+    OfferRules,
+    OfferValidation,
+    OfferCode,
+    OfferCodeBatch,
+    OfferCodeStatus,
     Review,
     User,
+    DietaryProfile,
     WaitlistEntry,
+    MenuCategory,
+    MenuImportFormat,
+    MenuImportReport,
     MenuItem,
+    MenuItemModifiersInput,
+    MenuItemVariant,
+    MenuModifierGroup,
+    MenuPricingRule,
+    MenuPricingRuleInput,
+    MenuReorder,
+    OfferMenuItem,
     TimeSlot,
     DashboardMetrics,
     AISuggestion,
     ApiResponse,
     RestaurantFilters,
-    ReservationFilters
+    ReservationFilters,
+    ReservationReminder,
+    WaitlistOffer,
+    WaitlistKiosk,
+    WaitlistPosition,
+    ReservationEvent,
+    RestaurantCancellationPolicy,
+    CancellationQuote,
+    CancellationOutcome,
+    PaymentReconciliation
 } from '@/types';
 
 // Configuration
@@ -97,7 +122,11 @@ async function apiCall<T>(
 
     if (!response.ok) {
         const error = await response.json().catch(() => ({ error: 'Unknown error' }));
-        throw new Error(error.error || `HTTP error! status: ${response.status}`);
+        // Keep status and body so callers can read extra fields (e.g. alternatives on a 409)
+        throw Object.assign(new Error(error.error || `HTTP error! status: ${response.status}`), {
+            status: response.status,
+            details: error,
+        });
     }
 
     const data: ApiResponse<T> = await response.json();
@@ -196,8 +225,16 @@ function transformReservation(data: any): Reservation {
         customerPhone: data.customer_phone || userData?.phone,
         occasion: data.occasion,
         specialRequest: data.special_request,
+        dietaryRestrictions: data.dietary_restrictions || [],
+        allergies: data.allergies || [],
         depositAmount: data.deposit_amount,
         depositPaid: data.deposit_paid,
+        depositStatus: data.deposit_status,
+        depositDueAt: data.deposit_due_at,
+        cancellationRefundAmount: data.cancellation_refund_amount,
+        cancellationRefundStatus: data.cancellation_refund_status,
+        offerId: data.offer_id,
+        offerDiscount: data.offer_discount != null ? Number(data.offer_discount) : undefined,
         qrCode: data.qr_code,
         createdAt: data.created_at,
         hasReview: data.has_review || false,
@@ -230,8 +267,123 @@ function transformOffer(data: any): Offer {
         validUntil: data.valid_until,
         isActive: data.is_active,
         usageCount: data.usage_count || 0,
-        maxUsage: data.max_usage,
         conditions: data.conditions,
+        validDays: data.valid_days,
+        validHoursStart: data.valid_hours_start ? data.valid_hours_start.slice(0, 5) : null,
+        validHoursEnd: data.valid_hours_end ? data.valid_hours_end.slice(0, 5) : null,
+        minPartySize: data.min_party_size,
+        maxPartySize: data.max_party_size,
+        maxUsage: data.max_usage,
+        maxUsesPerUser: data.max_uses_per_user,
+        maxUsesPerDay: data.max_uses_per_day,
+        firstVisitOnly: Boolean(data.first_visit_only),
+        allowedSegments: data.allowed_segments,
+        stackable: Boolean(data.stackable),
+        codeRequired: Boolean(data.code_required),
+        menuItems: (data.offer_menu_items || [])
+            .map((link: { menu_items: OfferMenuItemRow | null }) => link.menu_items)
+            .filter(Boolean)
+            .map(transformOfferMenuItem),
+    };
+}
+
+// Dish embedded in an offer through offer_menu_items
+interface OfferMenuItemRow {
+    id: string;
+    name: string;
+    category: string;
+    price: number | string;
+    image_url?: string | null;
+    is_available?: boolean | null;
+}
+
+function transformOfferMenuItem(data: OfferMenuItemRow): OfferMenuItem {
+    return {
+        id: data.id,
+        name: data.name,
+        category: data.category,
+        price: Number(data.price),
+        image: data.image_url || undefined,
+        isAvailable: data.is_available !== false,
+    };
+}
+
+// Row of GET /offers/:offerId/codes
+interface OfferCodeRow {
+    id: string;
+    code: string;
+    status: OfferCodeStatus;
+    batch_id: string;
+    offer_code_batches?: { name: string } | null;
+    offer_redemptions?: { reservation_id: string | null; created_at: string; users?: { name?: string; email?: string } | null }[];
+}
+
+function transformOfferCode(data: OfferCodeRow): OfferCode {
+    const redemption = data.offer_redemptions?.[0];
+    return {
+        id: data.id,
+        code: data.code,
+        status: data.status,
+        batchId: data.batch_id,
+        batchName: data.offer_code_batches?.name,
+        redeemedBy: redemption?.users?.name || redemption?.users?.email || null,
+        redeemedAt: redemption?.created_at || null,
+        reservationId: redemption?.reservation_id || null,
+    };
+}
+
+// Embedded rows of menu_item_variants and menu_modifier_groups (with options)
+interface MenuItemVariantRow {
+    id: string;
+    name: string;
+    price: number | string;
+    effective_price?: number;
+    is_default: boolean | null;
+    is_available: boolean | null;
+}
+
+interface MenuModifierGroupRow {
+    id: string;
+    name: string;
+    is_required: boolean | null;
+    min_selections: number;
+    max_selections: number | null;
+    options?: {
+        id: string;
+        name: string;
+        price_delta: number | string;
+        linked_item_id: string | null;
+        is_default: boolean | null;
+        is_available: boolean | null;
+    }[];
+}
+
+function transformMenuItemVariant(data: MenuItemVariantRow): MenuItemVariant {
+    return {
+        id: data.id,
+        name: data.name,
+        price: Number(data.price),
+        effectivePrice: data.effective_price ?? Number(data.price),
+        isDefault: Boolean(data.is_default),
+        isAvailable: data.is_available !== false,
+    };
+}
+
+function transformMenuModifierGroup(data: MenuModifierGroupRow): MenuModifierGroup {
+    return {
+        id: data.id,
+        name: data.name,
+        isRequired: Boolean(data.is_required),
+        minSelections: data.min_selections ?? 0,
+        maxSelections: data.max_selections ?? null,
+        options: (data.options || []).map(option => ({
+            id: option.id,
+            name: option.name,
+            priceDelta: Number(option.price_delta) || 0,
+            linkedItemId: option.linked_item_id || null,
+            isDefault: Boolean(option.is_default),
+            isAvailable: option.is_available !== false,
+        })),
     };
 }
 
@@ -243,9 +395,76 @@ function transformMenuItem(data: any): MenuItem {
         description: data.description || '',
         price: data.price,
         category: data.category,
+        subcategory: data.subcategory || null,
+        categoryId: data.category_id || null,
+        sortOrder: data.sort_order ?? 0,
         image: data.image_url,
         isHighlighted: data.is_highlighted,
         isAvailable: data.is_available,
+        effectivePrice: data.effective_price ?? data.price,
+        pricingRule: data.pricing_rule || null,
+        variants: (data.variants || []).map(transformMenuItemVariant),
+        modifierGroups: (data.modifier_groups || []).map(transformMenuModifierGroup),
+        allergens: data.allergens || [],
+        isVegetarian: Boolean(data.is_vegetarian),
+        isVegan: Boolean(data.is_vegan),
+        isGlutenFree: Boolean(data.is_gluten_free),
+        spiceLevel: Number(data.spicy_level) || (data.is_spicy ? 1 : 0),
+        dietaryConflicts: data.dietary_conflicts
+            ? {
+                restrictions: data.dietary_conflicts.restrictions,
+                allergens: data.dietary_conflicts.allergens,
+                spiceLevel: data.dietary_conflicts.spice_level,
+            }
+            : null,
+    };
+}
+
+// Row of /menu-categories
+interface MenuCategoryRow {
+    id: string;
+    name: string;
+    sort_order: number | null;
+    parent_id: string | null;
+}
+
+function transformMenuCategory(data: MenuCategoryRow): MenuCategory {
+    return {
+        id: data.id,
+        name: data.name,
+        order: data.sort_order ?? 0,
+        parentId: data.parent_id || null,
+    };
+}
+
+// Row of /admin/menu/pricing-rules
+interface MenuPricingRuleRow {
+    id: string;
+    name: string;
+    valid_days: MenuPricingRule['validDays'];
+    start_time: string;
+    end_time: string;
+    menu_item_id: string | null;
+    category_id: string | null;
+    category: string | null;
+    discount_type: MenuPricingRule['discountType'];
+    discount_value: number | string;
+    is_active: boolean | null;
+}
+
+function transformMenuPricingRule(data: MenuPricingRuleRow): MenuPricingRule {
+    return {
+        id: data.id,
+        name: data.name,
+        validDays: data.valid_days,
+        startTime: data.start_time.slice(0, 5),
+        endTime: data.end_time.slice(0, 5),
+        menuItemId: data.menu_item_id,
+        categoryId: data.category_id,
+        category: data.category,
+        discountType: data.discount_type,
+        discountValue: Number(data.discount_value),
+        isActive: data.is_active !== false,
     };
 }
 
@@ -293,6 +512,10 @@ export const restaurantService = {
         }
     },
 
+    async getCancellationPolicy(id: string): Promise<RestaurantCancellationPolicy> {
+        return apiCall<RestaurantCancellationPolicy>(`/restaurants/${id}/cancellation-policy`);
+    },
+
     async getFeatured(): Promise<Restaurant[]> {
         const response = await fetch(`${API_BASE_URL}/restaurants/featured`);
         const json = await response.json();
@@ -468,7 +691,7 @@ function mapFrontendStatusToBackend(status: Table['status']): string {
 // ============================================
 
 export const reservationService = {
-    async create(reservation: Omit<Reservation, 'id' | 'qrCode' | 'createdAt'>): Promise<Reservation> {
+    async create(reservation: Omit<Reservation, 'id' | 'qrCode' | 'createdAt'> & { promoCode?: string }): Promise<Reservation> {
         const data = await apiCall<any>('/reservations', {
             method: 'POST',
             body: JSON.stringify({
@@ -479,6 +702,9 @@ export const reservationService = {
                 guestCount: reservation.guestCount,
                 occasion: reservation.occasion,
                 specialRequest: reservation.specialRequest,
+                paymentIntentId: reservation.paymentIntentId,
+                offerId: reservation.offerId || undefined,
+                promoCode: reservation.promoCode || undefined,
             }),
         });
         return transformReservation(data);
@@ -563,13 +789,17 @@ export const reservationService = {
         return transformReservation(data);
     },
 
-    async cancel(reservationId: string, reason?: string): Promise<void> {
-        await apiCall<void>(`/reservations/${reservationId}/cancel`, {
+    async cancel(reservationId: string, reason?: string): Promise<CancellationOutcome> {
+        return apiCall<CancellationOutcome>(`/reservations/${reservationId}/cancel`, {
             method: 'POST',
             body: JSON.stringify({ reason }),
         });
     },
 
+    async getCancellationQuote(reservationId: string): Promise<CancellationQuote> {
+        return apiCall<CancellationQuote>(`/reservations/${reservationId}/cancellation-quote`);
+    },
+
     async confirmArrival(reservationId: string): Promise<Reservation> {
         // Get admin token explicitly to ensure we have permission
         const session = localStorage.getItem('mesafeliz_restaurant_session');
@@ -613,6 +843,33 @@ export const reservationService = {
         });
         return transformReservation(data);
     },
+    async getHistory(reservationId: string): Promise<ReservationEvent[]> {
+        const session = localStorage.getItem('mesafeliz_restaurant_session');
+        const token = session ? JSON.parse(session).token : null;
+
+        const response = await fetch(`${API_BASE_URL}/admin/reservas/${reservationId}/historial`, {
+            headers: {
+                'Content-Type': 'application/json',
+                ...(token && { 'Authorization': `Bearer ${token}` })
+            }
+        });
+        const json = await response.json();
+
+        if (!json.success) {
+            throw new Error(json.error || 'Failed to fetch reservation history');
+        }
+
+        return (json.data || []).map((event: Record<string, string | null> & { actor?: { name: string } | null }) => ({
+            id: event.id,
+            fromStatus: event.from_status,
+            toStatus: event.to_status,
+            actorType: event.actor_type,
+            actorName: event.actor?.name || null,
+            source: event.source,
+            reason: event.reason,
+            createdAt: event.created_at,
+        }));
+    },
     async verifyQR(qrCode: string, restaurantId: string, autoArrive: boolean = false): Promise<{ reservation: Reservation; autoArrived: boolean }> {
         // Get admin token
         const session = localStorage.getItem('mesafeliz_restaurant_session');
@@ -642,6 +899,13 @@ export const reservationService = {
 // OFFER SERVICES
 // ============================================
 
+// Authorization of the restaurant session, for admin reads that apiCall would send with the diner token
+function getRestaurantAuthHeaders(): Record<string, string> {
+    const session = localStorage.getItem('mesafeliz_restaurant_session');
+    const token = session ? JSON.parse(session).token : null;
+    return token ? { 'Authorization': `Bearer ${token}` } : {};
+}
+
 export const offerService = {
     async getAll(): Promise<Offer[]> {
         const response = await fetch(`${API_BASE_URL}/offers`);
@@ -665,7 +929,28 @@ export const offerService = {
         return (json.data || []).map(transformOffer);
     },
 
-    async create(restaurantId: string, offer: { title: string; description: string; discount: string; discountType: string; validFrom?: string; validUntil?: string }): Promise<Offer> {
+    // Checks an offer or promo code for a booking without using it
+    async validate(input: { offerId?: string; promoCode?: string; restaurantId: string; date?: string; time?: string; guestCount?: number }): Promise<OfferValidation> {
+        const token = localStorage.getItem('mesafeliz_token');
+
+        const response = await fetch(`${API_BASE_URL}/offers/validate`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(token && { 'Authorization': `Bearer ${token}` })
+            },
+            body: JSON.stringify(input),
+        });
+        const json = await response.json();
+
+        if (!json.success) {
+            throw new Error(json.error || 'Promoción no válida');
+        }
+
+        return { offer: transformOffer(json.data), depositQuote: json.depositQuote ?? null };
+    },
+
+    async create(restaurantId: string, offer: { title: string; description: string; discount: string; discountType: string; validFrom?: string; validUntil?: string; menuItemIds?: string[] } & OfferRules): Promise<Offer> {
         const session = localStorage.getItem('mesafeliz_restaurant_session');
         const token = session ? JSON.parse(session).token : null;
 
@@ -677,6 +962,7 @@ export const offerService = {
         const data = await apiCall<any>(`/offers/restaurants/${restaurantId}`, {
             method: 'POST',
             body: JSON.stringify({
+                ...offer,
                 title: offer.title,
                 description: offer.description,
                 discount: offer.discount,
@@ -689,7 +975,7 @@ export const offerService = {
         return transformOffer(data);
     },
 
-    async update(offerId: string, updates: Partial<{ title?: string; description?: string; discount?: string; discountType?: string; validFrom?: string; validUntil?: string; isActive?: boolean }>): Promise<Offer> {
+    async update(offerId: string, updates: Partial<{ title?: string; description?: string; discount?: string; discountType?: string; validFrom?: string; validUntil?: string; isActive?: boolean; menuItemIds?: string[] }> & OfferRules): Promise<Offer> {
         const session = localStorage.getItem('mesafeliz_restaurant_session');
         const token = session ? JSON.parse(session).token : null;
 
@@ -727,6 +1013,58 @@ export const offerService = {
     async toggleActive(offerId: string, isActive: boolean): Promise<Offer> {
         return this.update(offerId, { isActive });
     },
+
+    // Single-use promo code batches (admin)
+    async getCodeBatches(offerId: string): Promise<OfferCodeBatch[]> {
+        const data = await apiCall<OfferCodeBatch[]>(`/offers/${offerId}/codes/batches`, {
+            method: 'GET',
+            headers: getRestaurantAuthHeaders(),
+        });
+        return data || [];
+    },
+
+    async createCodeBatch(offerId: string, batch: { quantity: number; name?: string; prefix?: string }): Promise<OfferCodeBatch> {
+        return apiCall<OfferCodeBatch>(`/offers/${offerId}/codes/batches`, {
+            method: 'POST',
+            body: JSON.stringify(batch),
+            headers: getRestaurantAuthHeaders(),
+        });
+    },
+
+    async getCodes(offerId: string, filters?: { batchId?: string; status?: OfferCodeStatus }): Promise<OfferCode[]> {
+        const params = new URLSearchParams();
+        if (filters?.batchId) params.append('batchId', filters.batchId);
+        if (filters?.status) params.append('status', filters.status);
+
+        const data = await apiCall<OfferCodeRow[]>(`/offers/${offerId}/codes?${params.toString()}`, {
+            method: 'GET',
+            headers: getRestaurantAuthHeaders(),
+        });
+        return (data || []).map(transformOfferCode);
+    },
+
+    async exportCodes(offerId: string, batchId?: string): Promise<Blob> {
+        const params = new URLSearchParams();
+        if (batchId) params.append('batchId', batchId);
+
+        const response = await fetch(`${API_BASE_URL}/offers/${offerId}/codes/export?${params.toString()}`, {
+            headers: getRestaurantAuthHeaders(),
+        });
+        if (!response.ok) {
+            const json = await response.json().catch(() => ({}));
+            throw new Error(json.error || 'No fue posible exportar los códigos');
+        }
+        return response.blob();
+    },
+
+    async revokeCodes(offerId: string, target: { batchId?: string; codeIds?: string[] }): Promise<number> {
+        const data = await apiCall<{ revoked: number }>(`/offers/${offerId}/codes/revoke`, {
+            method: 'POST',
+            body: JSON.stringify(target),
+            headers: getRestaurantAuthHeaders(),
+        });
+        return data.revoked;
+    },
 };
 
 // ============================================
@@ -734,66 +1072,44 @@ export const offerService = {
 // ============================================
 
 export const timeSlotService = {
-    async getAvailable(restaurantId: string, date: string): Promise<TimeSlot[]> {
+    async getAvailable(restaurantId: string, date: string, guestCount: number = 2): Promise<TimeSlot[]> {
         try {
-            // First try to get from API
-            const response = await fetch(`${API_BASE_URL}/restaurants/${restaurantId}/timeslots?date=${date}`);
+            // Slots are generated by the backend from opening hours, holidays and settings
+            const response = await fetch(`${API_BASE_URL}/restaurants/${restaurantId}/timeslots?date=${date}&guests=${guestCount}`);
             const json = await response.json();
 
-            if (json.success && json.data) {
-                return json.data;
+            if (json.success && Array.isArray(json.slots)) {
+                return json.slots;
             }
 
-            // Fallback: Get restaurant settings and generate time slots with correct deposit info
-            const restaurant = await restaurantService.getById(restaurantId);
-            const settings = (restaurant as any)?.settings || {};
-
-
-            return generateTimeSlots(
-                settings.depositAmount || 200,
-                settings.depositRequired || false,
-                settings.depositHours || ['19:00', '19:30', '20:00', '20:30', '21:00']
-            );
+            return [];
         } catch (error) {
             console.error('Error fetching time slots:', error);
-            return generateTimeSlots(200, false, ['19:00', '19:30', '20:00', '20:30', '21:00']);
+            return [];
         }
     },
 };
 
-function generateTimeSlots(depositAmount: number, depositRequired: boolean, depositHours: string[]): TimeSlot[] {
-    const slots: TimeSlot[] = [];
-    for (let hour = 12; hour <= 22; hour++) {
-        const time = `${hour}:00`;
-
-        // Check if this hour is in depositHours - deposit is required if time is listed
-        // Changed: now we check depositHours directly, not the depositRequired flag
-        const isDepositHour = depositHours.length > 0 && depositHours.some(dh =>
-            dh.startsWith(`${hour}:`) || dh === time
-        );
-
-        // Deposit is required if: there are deposit hours AND this is one of them
-        const requiresDeposit = isDepositHour;
-
-        slots.push({
-            time,
-            available: true,
-            isPeak: hour >= 19 && hour <= 21,
-            requiresDeposit,
-            depositAmount: requiresDeposit ? depositAmount : undefined,
-        });
-    }
-    return slots;
-}
-
 // ============================================
 // MENU SERVICES
 // ============================================
 
 export const menuService = {
-    async getByRestaurant(restaurantId: string): Promise<MenuItem[]> {
+    /** With a dietary profile every item comes back, flagged with its dietaryConflicts */
+    async getByRestaurant(restaurantId: string, dietary?: DietaryProfile): Promise<MenuItem[]> {
+        const params = new URLSearchParams();
+        if (dietary) {
+            if (dietary.restrictions.includes('vegetarian')) params.set('vegetarian', 'true');
+            if (dietary.restrictions.includes('vegan')) params.set('vegan', 'true');
+            if (dietary.restrictions.includes('gluten_free')) params.set('glutenFree', 'true');
+            if (dietary.allergies.length > 0) params.set('excludeAllergens', dietary.allergies.join(','));
+            if (dietary.maxSpiceLevel !== null) params.set('maxSpiceLevel', String(dietary.maxSpiceLevel));
+            params.set('dietaryMode', 'flag');
+        }
+        const query = params.toString() ? `?${params}` : '';
+
         // Use PUBLIC endpoint - doesn't require authentication
-        const response = await fetch(`${API_BASE_URL}/restaurants/${restaurantId}/menu`);
+        const response = await fetch(`${API_BASE_URL}/restaurants/${restaurantId}/menu${query}`);
         const json = await response.json();
 
         if (!json.success) {
@@ -818,7 +1134,9 @@ export const menuService = {
                 name: item.name,
                 description: item.description,
                 price: item.price,
+                category_id: item.categoryId,
                 category: item.category,
+                subcategory: item.subcategory,
                 image_url: item.image,
                 is_highlighted: item.isHighlighted,
                 is_vegetarian: false,
@@ -852,7 +1170,9 @@ export const menuService = {
                 name: updates.name,
                 description: updates.description,
                 price: updates.price,
+                category_id: updates.categoryId,
                 category: updates.category,
+                subcategory: updates.subcategory,
                 image_url: updates.image,
                 is_highlighted: updates.isHighlighted,
                 is_available: updates.isAvailable
@@ -888,6 +1208,111 @@ export const menuService = {
             throw new Error(error.error || `HTTP error! status: ${response.status}`);
         }
     },
+
+    // Categories and subcategories (admin writes)
+    async getCategories(restaurantId: string): Promise<MenuCategory[]> {
+        const data = await apiCall<MenuCategoryRow[]>(`/menu-categories/${restaurantId}`);
+        return (data || []).map(transformMenuCategory);
+    },
+
+    async createCategory(restaurantId: string, name: string, parentId?: string | null): Promise<MenuCategory> {
+        const data = await apiCall<MenuCategoryRow>('/menu-categories', {
+            method: 'POST',
+            body: JSON.stringify({ restaurantId, name, parentId: parentId || null }),
+            headers: getRestaurantAuthHeaders(),
+        });
+        return transformMenuCategory(data);
+    },
+
+    async updateCategory(categoryId: string, updates: { name?: string; parentId?: string | null }): Promise<MenuCategory> {
+        const data = await apiCall<MenuCategoryRow>(`/menu-categories/${categoryId}`, {
+            method: 'PATCH',
+            body: JSON.stringify(updates),
+            headers: getRestaurantAuthHeaders(),
+        });
+        return transformMenuCategory(data);
+    },
+
+    // Items of the category (and its subcategories) move to moveTo
+    async deleteCategory(categoryId: string, moveTo?: string): Promise<void> {
+        const query = moveTo ? `?moveTo=${encodeURIComponent(moveTo)}` : '';
+        await apiCall<void>(`/menu-categories/${categoryId}${query}`, {
+            method: 'DELETE',
+            headers: getRestaurantAuthHeaders(),
+        });
+    },
+
+    // Bulk import from a CSV or JSON file; a dry run only returns the report
+    async importMenu(format: MenuImportFormat, content: string, dryRun: boolean): Promise<MenuImportReport> {
+        return apiCall<MenuImportReport>('/admin/menu/import', {
+            method: 'POST',
+            body: JSON.stringify({ format, content, dryRun }),
+            headers: getRestaurantAuthHeaders(),
+        });
+    },
+
+    async exportMenu(format: MenuImportFormat): Promise<Blob> {
+        const response = await fetch(`${API_BASE_URL}/admin/menu/export?format=${format}`, {
+            headers: getRestaurantAuthHeaders(),
+        });
+        if (!response.ok) {
+            const json = await response.json().catch(() => ({}));
+            throw new Error(json.error || 'No fue posible exportar el menú');
+        }
+        return response.blob();
+    },
+
+    // Replaces every variant and modifier group of the item
+    async setModifiers(itemId: string, modifiers: MenuItemModifiersInput): Promise<MenuItem> {
+        const data = await apiCall<unknown>(`/admin/menu/${itemId}/modifiers`, {
+            method: 'PUT',
+            body: JSON.stringify(modifiers),
+            headers: getRestaurantAuthHeaders(),
+        });
+        return transformMenuItem(data);
+    },
+
+    async reorder(reorder: MenuReorder): Promise<void> {
+        await apiCall<{ updated: number }>('/admin/menu/reorder', {
+            method: 'PUT',
+            body: JSON.stringify(reorder),
+            headers: getRestaurantAuthHeaders(),
+        });
+    },
+
+    // Happy-hour style pricing rules (admin)
+    async getPricingRules(): Promise<MenuPricingRule[]> {
+        const data = await apiCall<MenuPricingRuleRow[]>('/admin/menu/pricing-rules', {
+            method: 'GET',
+            headers: getRestaurantAuthHeaders(),
+        });
+        return (data || []).map(transformMenuPricingRule);
+    },
+
+    async createPricingRule(rule: MenuPricingRuleInput): Promise<MenuPricingRule> {
+        const data = await apiCall<MenuPricingRuleRow>('/admin/menu/pricing-rules', {
+            method: 'POST',
+            body: JSON.stringify(rule),
+            headers: getRestaurantAuthHeaders(),
+        });
+        return transformMenuPricingRule(data);
+    },
+
+    async updatePricingRule(ruleId: string, updates: Partial<MenuPricingRuleInput>): Promise<MenuPricingRule> {
+        const data = await apiCall<MenuPricingRuleRow>(`/admin/menu/pricing-rules/${ruleId}`, {
+            method: 'PATCH',
+            body: JSON.stringify(updates),
+            headers: getRestaurantAuthHeaders(),
+        });
+        return transformMenuPricingRule(data);
+    },
+
+    async deletePricingRule(ruleId: string): Promise<void> {
+        await apiCall<void>(`/admin/menu/pricing-rules/${ruleId}`, {
+            method: 'DELETE',
+            headers: getRestaurantAuthHeaders(),
+        });
+    },
 };
 
 // ============================================
@@ -1032,11 +1457,15 @@ export const waitlistService = {
             phone: data.phone,
             partySize: data.party_size,
             status: data.status,
-            estimatedWait: data.estimated_wait,
+            estimatedWait: data.estimate?.minutes ?? data.estimated_wait,
+            estimate: data.estimate,
             priority: data.priority,
             notes: data.notes,
             notifiedAt: data.notified_at,
             seatedAt: data.seated_at,
+            offeredTableId: data.offered_table_id,
+            offerExpiresAt: data.offer_expires_at,
+            actualWait: data.actual_wait,
             createdAt: data.created_at,
         }));
     },
@@ -1098,7 +1527,103 @@ export const waitlistService = {
     },
 
     async seat(entryId: string, tableId?: string): Promise<WaitlistEntry> {
-        return this.updateStatus(entryId, 'seated', tableId);
+        const session = localStorage.getItem('mesafeliz_restaurant_session');
+        const token = session ? JSON.parse(session).token : null;
+
+        const response = await fetch(`${API_BASE_URL}/admin/waitlist/${entryId}/atender`, {
+            method: 'PATCH',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(token && { 'Authorization': `Bearer ${token}` })
+            },
+            body: JSON.stringify({ table_id: tableId }),
+        });
+        const json = await response.json();
+        return json.data;
+    },
+
+    // Offer a free table to the party; they get a link to confirm within the configured minutes
+    async offerTable(entryId: string, tableId: string): Promise<void> {
+        const session = localStorage.getItem('mesafeliz_restaurant_session');
+        const token = session ? JSON.parse(session).token : null;
+
+        const response = await fetch(`${API_BASE_URL}/admin/waitlist/${entryId}/ofrecer`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(token && { 'Authorization': `Bearer ${token}` })
+            },
+            body: JSON.stringify({ table_id: tableId }),
+        });
+        const json = await response.json();
+        if (!json.success) {
+            throw new Error(json.error || 'No fue posible ofrecer la mesa');
+        }
+    },
+
+    async getKiosk(restaurantId: string): Promise<WaitlistKiosk> {
+        return apiCall<WaitlistKiosk>(`/waitlist/kiosk/${restaurantId}`);
+    },
+
+    // Sent without a session: at the door the phone verification is what identifies the guest
+    async join(entry: { restaurantId: string; name: string; phone: string; email?: string; partySize: number; verificationToken: string }): Promise<WaitlistPosition> {
+        const response = await fetch(`${API_BASE_URL}/waitlist/join`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(entry),
+        });
+        const json = await response.json();
+        if (!json.success) {
+            throw new Error(json.error || 'No fue posible unirte a la lista de espera');
+        }
+        return this.getStatus(json.data.id);
+    },
+
+    async getStatus(entryId: string): Promise<WaitlistPosition> {
+        const data = await apiCall<{
+            id: string;
+            name: string;
+            phone: string;
+            party_size: number;
+            status: WaitlistPosition['status'];
+            currentPosition: number;
+            estimatedWait?: number | null;
+            estimate?: WaitlistPosition['estimate'];
+            restaurants?: WaitlistPosition['restaurant'];
+        }>(`/waitlist/${entryId}/status`);
+        return {
+            id: data.id,
+            name: data.name,
+            phone: data.phone,
+            partySize: data.party_size,
+            status: data.status,
+            currentPosition: data.currentPosition,
+            estimatedWait: data.estimatedWait ?? null,
+            estimate: data.estimate ?? null,
+            restaurant: data.restaurants ?? null,
+        };
+    },
+
+    async leave(entryId: string, phone: string): Promise<void> {
+        const response = await fetch(`${API_BASE_URL}/waitlist/${entryId}?phone=${encodeURIComponent(phone)}`, {
+            method: 'DELETE',
+        });
+        const json = await response.json();
+        if (!json.success) {
+            throw new Error(json.error || 'No fue posible salir de la lista de espera');
+        }
+    },
+
+    async getOffer(token: string): Promise<WaitlistOffer> {
+        return apiCall<WaitlistOffer>(`/waitlist/offers/${token}`);
+    },
+
+    async confirmOffer(token: string): Promise<void> {
+        await apiCall<void>(`/waitlist/offers/${token}/confirm`, { method: 'POST' });
+    },
+
+    async declineOffer(token: string): Promise<void> {
+        await apiCall<void>(`/waitlist/offers/${token}/decline`, { method: 'POST' });
     },
 };
 
@@ -1187,6 +1712,48 @@ export const dashboardService = {
 
         return json.data;
     },
+
+    async getPaymentReconciliation(from?: string, to?: string): Promise<PaymentReconciliation> {
+        const session = localStorage.getItem('mesafeliz_restaurant_session');
+        const token = session ? JSON.parse(session).token : null;
+
+        const params = new URLSearchParams();
+        if (from) params.append('from', from);
+        if (to) params.append('to', to);
+
+        const response = await fetch(`${API_BASE_URL}/admin/payments/reconciliation?${params.toString()}`, {
+            headers: {
+                'Content-Type': 'application/json',
+                ...(token && { 'Authorization': `Bearer ${token}` })
+            }
+        });
+        const json = await response.json();
+
+        if (!json.success) {
+            throw new Error(json.error || 'Failed to load payment reconciliation');
+        }
+
+        return json.data;
+    },
+
+    // CSV of the payments ledger, downloaded with the restaurant session
+    async exportPayments(from?: string, to?: string): Promise<Blob> {
+        const session = localStorage.getItem('mesafeliz_restaurant_session');
+        const token = session ? JSON.parse(session).token : null;
+
+        const params = new URLSearchParams();
+        if (from) params.append('from', from);
+        if (to) params.append('to', to);
+
+        const response = await fetch(`${API_BASE_URL}/admin/payments/transactions/export?${params.toString()}`, {
+            headers: token ? { 'Authorization': `Bearer ${token}` } : {},
+        });
+        if (!response.ok) {
+            const json = await response.json().catch(() => ({}));
+            throw new Error(json.error || 'No fue posible exportar los pagos');
+        }
+        return response.blob();
+    },
 };
 
 function getDefaultMetrics(): DashboardMetrics {
@@ -1449,6 +2016,82 @@ export const notificationService = {
     },
 };
 
+// ============================================
+// PAYMENT SERVICES
+// ============================================
+
+export const paymentService = {
+    // Confirms the held reservation right after paying, without waiting for Stripe's webhook
+    async confirmDeposit(paymentIntentId: string): Promise<void> {
+        await apiCall<void>('/payments/confirm', {
+            method: 'POST',
+            body: JSON.stringify({ paymentIntentId }),
+        });
+    },
+};
+
+// ============================================
+// VERIFICATION SERVICES
+// ============================================
+
+export const verificationService = {
+    async sendPhoneCode(phone: string): Promise<void> {
+        await apiCall<void>('/verification/send-code', {
+            method: 'POST',
+            body: JSON.stringify({ phone }),
+        });
+    },
+
+    // Returns the token that proves the phone was verified
+    async verifyPhoneCode(phone: string, code: string): Promise<string> {
+        const response = await fetch(`${API_BASE_URL}/verification/verify-code`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ phone, code }),
+        });
+        const json = await response.json();
+        if (!json.success) {
+            throw new Error(json.error || 'Código incorrecto');
+        }
+        return json.verificationToken;
+    },
+};
+
+// ============================================
+// USER SERVICES
+// ============================================
+
+export const userService = {
+    async getDietaryProfile(): Promise<DietaryProfile> {
+        return apiCall<DietaryProfile>('/user/dietary-profile');
+    },
+
+    async updateDietaryProfile(profile: DietaryProfile): Promise<DietaryProfile> {
+        return apiCall<DietaryProfile>('/user/dietary-profile', {
+            method: 'PUT',
+            body: JSON.stringify(profile),
+        });
+    },
+};
+
+// ============================================
+// REMINDER SERVICES (public links sent in reminder emails)
+// ============================================
+
+export const reminderService = {
+    async get(token: string): Promise<ReservationReminder> {
+        return apiCall<ReservationReminder>(`/reminders/${token}`);
+    },
+
+    async confirm(token: string): Promise<void> {
+        await apiCall<void>(`/reminders/${token}/confirm`, { method: 'POST' });
+    },
+
+    async cancel(token: string): Promise<void> {
+        await apiCall<void>(`/reminders/${token}/cancel`, { method: 'POST' });
+    },
+};
+
 // ============================================
 // UPLOAD SERVICES
 // ============================================
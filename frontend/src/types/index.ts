@@ -34,9 +34,52 @@ export interface RestaurantSettings {
     depositRequired: boolean;
     depositAmount: number;
     noShowPenalty: number;
+    noShowGraceMinutes?: number;
+    depositBelowReliability?: number;
+    waitlistConfirmMinutes?: number;
+    waitlistMaxSkips?: number;
+    /** null/absent: the deposit is always refunded in full when the guest cancels */
+    cancellationPolicy?: CancellationPolicy | null;
     reminderHours: number[];
 }
 
+// Cancellation policy: share of the deposit refunded by hours left before the reservation
+export interface CancellationTier {
+    minHoursBefore: number;
+    refundPercent: number;
+}
+
+export interface CancellationPolicy {
+    /** Sorted from the most hours before to the least */
+    tiers: CancellationTier[];
+    noShowPenaltyPercent?: number | null;
+}
+
+// Policy shown to guests before they book
+export interface RestaurantCancellationPolicy {
+    policy: CancellationPolicy | null;
+    /** Fixed amount (MXN) kept on a no-show when the policy sets no percentage */
+    noShowPenalty: number | null;
+}
+
+// What cancelling a reservation now would refund
+export interface CancellationQuote {
+    hoursBefore: number;
+    depositAmount: number;
+    refundPercent: number;
+    refundAmount: number;
+    feeAmount: number;
+    policy: CancellationPolicy | null;
+}
+
+export interface CancellationOutcome {
+    refundAmount: number;
+    feeAmount: number;
+    refundPercent: number;
+    /** false when the refund failed and the restaurant has to retry it */
+    refunded?: boolean;
+}
+
 // Table Types
 export type TableStatus = 'disponible' | 'ocupada' | 'reservada' | 'pendiente' | 'deshabilitada';
 export type TableShape = 'round' | 'square' | 'rectangle';
@@ -67,10 +110,22 @@ export type ReservationStatus =
     | 'pending'
     | 'confirmed'
     | 'arrived'
+    | 'seated'
     | 'completed'
     | 'cancelled'
     | 'no_show';
 
+export type DepositStatus =
+    | 'none'
+    | 'awaiting_payment'
+    | 'paid'
+    | 'failed'
+    | 'expired'
+    | 'refunded'
+    | 'partially_refunded'
+    | 'disputed'
+    | 'dispute_lost';
+
 export interface Reservation {
     id: string;
     restaurantId: string;
@@ -85,8 +140,23 @@ export interface Reservation {
     customerPhone?: string;
     occasion?: string;
     specialRequest?: string;
+    /** Party's dietary needs, copied from the guest's profile when booking */
+    dietaryRestrictions?: DietaryRestriction[];
+    allergies?: string[];
     depositAmount?: number;
     depositPaid: boolean;
+    /** Stripe PaymentIntent that paid the deposit; verified server-side on creation */
+    paymentIntentId?: string;
+    /** 'awaiting_payment' while the table is held for the deposit until depositDueAt */
+    depositStatus?: DepositStatus;
+    depositDueAt?: string | null;
+    /** Outcome of the cancellation policy once cancelled */
+    cancellationRefundAmount?: number | null;
+    cancellationRefundStatus?: 'none' | 'pending' | 'succeeded' | 'failed' | null;
+    /** Offer applied when booking, redeemed with the reservation */
+    offerId?: string | null;
+    /** Discount the offer took off the deposit (MXN) */
+    offerDiscount?: number;
     qrCode: string;
     createdAt: string;
     updatedAt?: string;
@@ -97,6 +167,89 @@ export interface Reservation {
     table?: Table;
 }
 
+// Reservation behind a reminder email link (/recordatorio/:token)
+export interface ReservationReminder {
+    reservationId: string;
+    restaurant: { id: string; name: string; address?: string; phone?: string } | null;
+    date: string;
+    time: string;
+    guestCount: number;
+    status: ReservationStatus;
+    guestConfirmedAt?: string | null;
+    actionTaken?: 'confirmed' | 'cancelled' | null;
+    canAct: boolean;
+}
+
+// Status change in a reservation's history (fromStatus is null for its creation)
+export interface ReservationEvent {
+    id: string;
+    fromStatus: ReservationStatus | null;
+    toStatus: ReservationStatus;
+    actorType: 'guest' | 'staff' | 'system';
+    actorName: string | null;
+    source: string;
+    reason: string | null;
+    createdAt: string;
+}
+
+// Booking policy violation returned by the API when a reservation breaks a restaurant rule
+export type BookingPolicyViolationCode =
+    | 'INVALID_PARTY_SIZE'
+    | 'PARTY_SIZE_EXCEEDED'
+    | 'DATE_IN_PAST'
+    | 'ADVANCE_NOTICE_REQUIRED'
+    | 'BEYOND_BOOKING_WINDOW'
+    | 'RESTAURANT_CLOSED'
+    | 'OUTSIDE_OPENING_HOURS'
+    | 'DEPOSIT_REQUIRED'
+    | 'DEPOSIT_INSUFFICIENT'
+    | 'GUEST_BLOCKED';
+
+export interface BookingPolicyViolation {
+    code: BookingPolicyViolationCode;
+    message: string;
+    details?: Record<string, string | number | undefined>;
+}
+
+// Guest Reliability Types
+export type GuestReliabilityLevel = 'new' | 'reliable' | 'regular' | 'risky';
+
+export interface GuestReliability {
+    userId: string;
+    score: number;
+    level: GuestReliabilityLevel;
+    totalReservations: number;
+    completed: number;
+    noShows: number;
+    cancellations: number;
+    lateCancellations: number;
+    lastNoShowDate: string | null;
+}
+
+export interface GuestRestriction {
+    restriction: 'blocked' | 'deposit_required';
+    reason: string | null;
+    createdAt?: string;
+}
+
+// Realtime Types
+export type RestaurantEventType =
+    | 'reservation.created'
+    | 'reservation.status_changed'
+    | 'reservation.updated'
+    | 'reservation.deleted'
+    | 'table.status_changed'
+    | 'table.updated'
+    | 'waitlist.updated'
+    | 'tables.report';
+
+export interface RestaurantEvent {
+    type: RestaurantEventType;
+    restaurantId: string;
+    data: Record<string, unknown>;
+    at: string;
+}
+
 // Time Slot Types
 export interface TimeSlot {
     time: string;
@@ -113,23 +266,167 @@ export interface MenuItem {
     name: string;
     description: string;
     price: number;
+    /** Top-level category name, kept in sync with categoryId */
     category: string;
+    /** Subcategory name, when the item is in one */
+    subcategory?: string | null;
+    /** Category or subcategory the item belongs to */
+    categoryId?: string | null;
+    sortOrder?: number;
     image?: string;
     isHighlighted: boolean;
     isAvailable: boolean;
+    /** Price at the time the menu was requested, after happy-hour style pricing rules */
+    effectivePrice?: number;
+    /** Rule behind effectivePrice, when one applies */
+    pricingRule?: { id: string; name: string; endsAt: string } | null;
+    /** Sizes or presentations; when present they replace price */
+    variants?: MenuItemVariant[];
+    modifierGroups?: MenuModifierGroup[];
+    allergens?: string[];
+    isVegetarian?: boolean;
+    isVegan?: boolean;
+    isGlutenFree?: boolean;
+    /** 0 (not spicy) to 5 */
+    spiceLevel?: number;
+    /** Why the item does not suit the requested dietary profile; only with a flag-mode menu query */
+    dietaryConflicts?: MenuDietaryConflicts | null;
     createdAt?: string;
 }
 
+export interface MenuDietaryConflicts {
+    restrictions: DietaryRestriction[];
+    allergens: string[];
+    /** Item's spice level when it is above the limit */
+    spiceLevel: number | null;
+}
+
+export interface MenuItemVariant {
+    id: string;
+    name: string;
+    price: number;
+    effectivePrice?: number;
+    isDefault: boolean;
+    isAvailable: boolean;
+}
+
+export interface MenuModifierOption {
+    id: string;
+    name: string;
+    /** Added to the item (or variant) price; negative for a discount */
+    priceDelta: number;
+    /** Dish this option stands for, in combos */
+    linkedItemId: string | null;
+    isDefault: boolean;
+    isAvailable: boolean;
+}
+
+/** Extras or choices of a dish, e.g. "Elige 3 guisos" (min 3, max 3) */
+export interface MenuModifierGroup {
+    id: string;
+    name: string;
+    isRequired: boolean;
+    minSelections: number;
+    /** null = no limit */
+    maxSelections: number | null;
+    options: MenuModifierOption[];
+}
+
+/** Payload of PUT /admin/menu/:id/modifiers; rows keep their id when it is sent back */
+export interface MenuItemModifiersInput {
+    variants: (Omit<MenuItemVariant, 'id' | 'effectivePrice'> & { id?: string })[];
+    modifierGroups: (Omit<MenuModifierGroup, 'id' | 'options'> & {
+        id?: string;
+        options: (Omit<MenuModifierOption, 'id'> & { id?: string })[];
+    })[];
+}
+
+export type MenuPricingDiscountType = 'percentage' | 'fixed' | 'price';
+
+/** Time-bound price of a dish or a whole category (happy hour) */
+export interface MenuPricingRule {
+    id: string;
+    name: string;
+    validDays: WeekDay[] | null;
+    /** HH:MM; a window with startTime after endTime crosses midnight */
+    startTime: string;
+    endTime: string;
+    /** Exactly one of menuItemId and categoryId is set */
+    menuItemId: string | null;
+    /** Category or subcategory; a category also covers its subcategories */
+    categoryId: string | null;
+    /** Name of the category, set by the server */
+    category: string | null;
+    /** percentage: % off; fixed: MXN off; price: final price */
+    discountType: MenuPricingDiscountType;
+    discountValue: number;
+    isActive: boolean;
+}
+
+export type MenuPricingRuleInput = Omit<MenuPricingRule, 'id' | 'category'>;
+
 export interface MenuCategory {
     id: string;
     name: string;
     order: number;
+    /** Set on subcategories (one level of nesting) */
+    parentId: string | null;
+}
+
+export type MenuImportFormat = 'csv' | 'json';
+
+/** Row of an import report: what the row would do (or did) to the menu */
+export interface MenuImportRow {
+    /** CSV line (header = 1) or position in the JSON list */
+    line: number;
+    action: 'create' | 'update' | 'unchanged' | 'invalid';
+    name: string;
+    id?: string;
+    /** Columns that change, for updates (name, price, category...) */
+    changes?: string[];
+    errors?: string[];
+}
+
+export interface MenuImportReport {
+    /** false on a dry run or when some row is invalid */
+    applied: boolean;
+    summary: { total: number; create: number; update: number; unchanged: number; invalid: number };
+    rows: MenuImportRow[];
+}
+
+/** Bulk drag-and-drop reorder; categoryId moves an item to another category */
+export interface MenuReorder {
+    categories: { id: string; sortOrder: number }[];
+    items: { id: string; sortOrder: number; categoryId?: string }[];
 }
 
 // Offer Types
-export type DiscountType = 'percentage' | 'fixed' | 'bogo' | 'special';
+export type DiscountType = 'percentage' | 'fixed' | 'bogo' | 'special' | 'combo';
 
-export interface Offer {
+export type WeekDay = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
+export type LoyaltySegment = 'Nuevo Foodie' | 'Foodie Activo' | 'Gourmet Pro' | 'Platinum VIP';
+
+/** Who can use an offer and when; null means no restriction */
+export interface OfferRules {
+    validDays?: WeekDay[] | null;
+    /** HH:MM */
+    validHoursStart?: string | null;
+    validHoursEnd?: string | null;
+    minPartySize?: number | null;
+    maxPartySize?: number | null;
+    maxUsage?: number | null;
+    maxUsesPerUser?: number | null;
+    maxUsesPerDay?: number | null;
+    firstVisitOnly?: boolean;
+    allowedSegments?: LoyaltySegment[] | null;
+    /** Can be combined with other stackable offers on the same reservation */
+    stackable?: boolean;
+    /** Only usable with one of its single-use codes (set when a batch is generated) */
+    codeRequired?: boolean;
+}
+
+export interface Offer extends OfferRules {
     id: string;
     restaurantId: string;
     title: string;
@@ -141,11 +438,59 @@ export interface Offer {
     validUntil: string;
     isActive: boolean;
     usageCount: number;
-    maxUsage?: number;
     conditions?: string;
+    /** Dishes the offer covers; empty when it applies to the whole bill */
+    menuItems?: OfferMenuItem[];
     createdAt?: string;
 }
 
+export interface OfferMenuItem {
+    id: string;
+    name: string;
+    category: string;
+    price: number;
+    image?: string;
+    isAvailable: boolean;
+}
+
+export type OfferCodeStatus = 'available' | 'redeemed' | 'revoked';
+
+/** Batch of single-use promo codes of an offer */
+export interface OfferCodeBatch {
+    id: string;
+    name: string;
+    prefix: string | null;
+    quantity: number;
+    createdAt: string;
+    available: number;
+    redeemed: number;
+    revoked: number;
+}
+
+export interface OfferCode {
+    id: string;
+    code: string;
+    status: OfferCodeStatus;
+    batchId: string;
+    batchName?: string;
+    redeemedBy?: string | null;
+    redeemedAt?: string | null;
+    reservationId?: string | null;
+}
+
+/** Deposit of a time slot once an offer is applied (MXN) */
+export interface DepositQuote {
+    required: boolean;
+    amount: number;
+    discount: number;
+}
+
+export interface OfferValidation {
+    offer: Offer;
+    /** Only when the booking date, time and party size were given */
+    depositQuote: DepositQuote | null;
+}
+
 // User Types
 export type UserRole = 'customer' | 'restaurant_admin' | 'restaurant_staff' | 'super_admin';
 
@@ -163,6 +508,15 @@ export interface User {
     updatedAt?: string;
 }
 
+export type DietaryRestriction = 'vegetarian' | 'vegan' | 'gluten_free';
+
+export interface DietaryProfile {
+    restrictions: DietaryRestriction[];
+    allergies: string[];
+    /** null = no limit */
+    maxSpiceLevel: number | null;
+}
+
 export interface UserPreferences {
     notifications: {
         email: boolean;
@@ -199,7 +553,17 @@ export interface Review {
 }
 
 // Waitlist Types
-export type WaitlistStatus = 'waiting' | 'notified' | 'seated' | 'left' | 'cancelled';
+export type WaitlistStatus = 'waiting' | 'notified' | 'confirmed' | 'seated' | 'left' | 'cancelled' | 'no_show';
+
+// Live wait estimate: minutes is null when no table fits the party
+export interface WaitEstimate {
+    minutes: number | null;
+    low: number | null;
+    high: number | null;
+    confidence: 'high' | 'medium' | 'low';
+    partiesAhead: number;
+    samples: number;
+}
 
 export interface WaitlistEntry {
     id: string;
@@ -209,13 +573,53 @@ export interface WaitlistEntry {
     partySize: number;
     status: WaitlistStatus;
     estimatedWait: number;
+    estimate?: WaitEstimate | null;
     priority: 'normal' | 'vip';
     notes?: string;
     notifiedAt?: string;
     seatedAt?: string;
+    // Table offered to the party and deadline to confirm it
+    offeredTableId?: string | null;
+    offerExpiresAt?: string | null;
+    actualWait?: number | null;
     createdAt: string;
 }
 
+// Door kiosk / QR page of a restaurant's waitlist
+export interface WaitlistKiosk {
+    id: string;
+    name: string;
+    address?: string | null;
+    imageUrl?: string | null;
+    acceptingWalkIns: boolean;
+    maxPartySize: number | null;
+    partiesWaiting: number;
+}
+
+// A guest's own place in line, as returned by /waitlist/:id/status
+export interface WaitlistPosition {
+    id: string;
+    name: string;
+    phone: string;
+    partySize: number;
+    status: WaitlistStatus;
+    currentPosition: number;
+    estimatedWait: number | null;
+    estimate: WaitEstimate | null;
+    restaurant: { id: string; name: string; phone?: string } | null;
+}
+
+// "Table ready" offer behind the link sent to the guest
+export interface WaitlistOffer {
+    id: string;
+    name: string;
+    partySize: number;
+    status: WaitlistStatus;
+    expiresAt: string | null;
+    table: { number: number; zone?: string | null } | null;
+    restaurant: { id: string; name: string; address?: string; phone?: string } | null;
+}
+
 // Notification Types
 export type NotificationType =
     | 'reservation_new'
@@ -256,6 +660,35 @@ export interface DashboardMetrics {
     };
 }
 
+// Payments ledger: signed MXN amounts, money in is positive
+export type LedgerEntryType = 'charge' | 'refund' | 'fee' | 'dispute' | 'dispute_reversal';
+
+export interface LedgerTotals {
+    charges: number;
+    refunds: number;
+    fees: number;
+    disputes: number;
+    net: number;
+}
+
+export interface ReconciliationIssue {
+    issue: 'missing_charge' | 'unexpected_charge' | 'charge_mismatch' | 'refund_mismatch' | 'unlinked_payment';
+    reservationId: string | null;
+    expected: number;
+    recorded: number;
+    paymentIntentId?: string | null;
+}
+
+// Ledger totals next to the deposits recorded on reservations
+export interface PaymentReconciliation {
+    from: string;
+    to: string;
+    days: (LedgerTotals & { date: string; reservationDeposits: number; difference: number })[];
+    totals: LedgerTotals & { reservationDeposits: number; difference: number };
+    issues: ReconciliationIssue[];
+    balanced: boolean;
+}
+
 export interface OccupancyData {
     hour: string;
     occupancy: number;